@@ -7,7 +7,6 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
 import { PlayerProvider } from "@/player/PlayerContext";
 import { YouTubePlayerProvider } from "@/contexts/YouTubePlayerContext";
-import { QueueProvider } from "@/contexts/QueueContext";
 import { EmbeddedPlayerDrawer } from "@/player/EmbeddedPlayerDrawer";
 import { LoadingSpinner } from "@/components/shared";
 import { AdminRoute } from "@/components/AdminRoute";
@@ -71,49 +70,47 @@ const App = () => (
       <AuthProvider>
         <YouTubePlayerProvider>
           <PlayerProvider>
-            <QueueProvider>
-              <Toaster />
-              <Sonner />
-              <BrowserRouter basename={import.meta.env.BASE_URL}>
-                <Suspense fallback={<PageLoader />}>
-                  <Routes>
-                    <Route path="/" element={<Index />} />
-                    <Route path="/pricing" element={<PricingPage />} />
-                    <Route path="/billing" element={<BillingPage />} />
-                    <Route path="/feed" element={<FeedPage />} />
-                    <Route path="/auth" element={<AuthGatePage />} />
-                    <Route path="/login" element={<LoginPage />} />
-                    <Route path="/search" element={<SearchPage />} />
-                    <Route path="/compare" element={<ComparePage />} />
-                    <Route path="/profile" element={<ProfilePage />} />
-                    <Route path="/following" element={<FollowingPage />} />
-                    <Route path="/connections/:trackId" element={<ConnectionsPage />} />
-                    <Route path="/spotify-callback" element={<SpotifyCallbackPage />} />
-                    <Route path="/album/:albumId" element={<AlbumPage />} />
-                    <Route path="/artist/:artistId" element={<ArtistPage />} />
-                    <Route path="/track/:trackId" element={<TrackDetailPage />} />
-                    <Route path="/playlists" element={<PlaylistsPage />} />
-                    <Route path="/playlist/:playlistId" element={<PlaylistDetailPage />} />
-                    <Route path="/forum" element={<ForumHomePage />} />
-                    <Route path="/forum/:forumName" element={<ForumHomePage />} />
-                    <Route path="/forum/post/:postId" element={<ForumHomePage />} />
-                    {/* Legal Pages */}
-                    <Route path="/terms" element={<TermsOfServicePage />} />
-                    <Route path="/privacy" element={<PrivacyPolicyPage />} />
-                    {/* Onboarding */}
-                    <Route path="/survey" element={<MusicTasteSurvey />} />
-                    {/* Admin Routes - Protected */}
-                    <Route element={<AdminRoute />}>
-                      <Route path="/admin" element={<AdminDashboard />} />
-                      <Route path="/admin/performance" element={<AdminPerformanceDashboard />} />
-                    </Route>
-                    {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                    <Route path="*" element={<NotFound />} />
-                  </Routes>
-                </Suspense>
-                <PlayerVisibilityGate />
-              </BrowserRouter>
-            </QueueProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter basename={import.meta.env.BASE_URL}>
+              <Suspense fallback={<PageLoader />}>
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route path="/pricing" element={<PricingPage />} />
+                  <Route path="/billing" element={<BillingPage />} />
+                  <Route path="/feed" element={<FeedPage />} />
+                  <Route path="/auth" element={<AuthGatePage />} />
+                  <Route path="/login" element={<LoginPage />} />
+                  <Route path="/search" element={<SearchPage />} />
+                  <Route path="/compare" element={<ComparePage />} />
+                  <Route path="/profile" element={<ProfilePage />} />
+                  <Route path="/following" element={<FollowingPage />} />
+                  <Route path="/connections/:trackId" element={<ConnectionsPage />} />
+                  <Route path="/spotify-callback" element={<SpotifyCallbackPage />} />
+                  <Route path="/album/:albumId" element={<AlbumPage />} />
+                  <Route path="/artist/:artistId" element={<ArtistPage />} />
+                  <Route path="/track/:trackId" element={<TrackDetailPage />} />
+                  <Route path="/playlists" element={<PlaylistsPage />} />
+                  <Route path="/playlist/:playlistId" element={<PlaylistDetailPage />} />
+                  <Route path="/forum" element={<ForumHomePage />} />
+                  <Route path="/forum/:forumName" element={<ForumHomePage />} />
+                  <Route path="/forum/post/:postId" element={<ForumHomePage />} />
+                  {/* Legal Pages */}
+                  <Route path="/terms" element={<TermsOfServicePage />} />
+                  <Route path="/privacy" element={<PrivacyPolicyPage />} />
+                  {/* Onboarding */}
+                  <Route path="/survey" element={<MusicTasteSurvey />} />
+                  {/* Admin Routes - Protected */}
+                  <Route element={<AdminRoute />}>
+                    <Route path="/admin" element={<AdminDashboard />} />
+                    <Route path="/admin/performance" element={<AdminPerformanceDashboard />} />
+                  </Route>
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </Suspense>
+              <PlayerVisibilityGate />
+            </BrowserRouter>
         </PlayerProvider>
       </YouTubePlayerProvider>
     </AuthProvider>
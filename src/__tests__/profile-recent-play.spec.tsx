@@ -56,6 +56,9 @@ vi.mock('@/hooks/api/useLastFm', () => ({
 
 vi.mock('@/hooks/api/useThemes', () => ({ useUserTheme: () => ({ data: null }) }));
 vi.mock('@/hooks/api/useAdmin', () => ({ useIsAdmin: () => ({ data: false }) }));
+vi.mock('@/hooks/api/useRegionalLinks', () => ({
+  useRegionalLinks: () => ({ market: 'US', links: [], blocked: [], unavailable: false }),
+}));
 vi.mock('@/hooks/api/useTasteDNA', () => ({ useTasteDNA: () => ({ data: null, isLoading: false }) }));
 
 vi.mock('@/components/ThemeEditor', () => ({ ThemeEditor: () => null }));
@@ -0,0 +1,139 @@
+/**
+ * Advanced Search API
+ *
+ * Runs a compiled search query (see lib/searchQuery): harmony filters on
+ * harmonic_fingerprints first, then title/artist/year and free text on the
+ * matching tracks.
+ * No Supabase calls in JSX - all data fetching here.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Track } from '@/types';
+import type { RomanChord } from '@/types/harmony';
+import { type ColumnFilter, type CompiledQuery, matchesProgression } from '@/lib/searchQuery';
+import { transformDbRowToTrack } from '@/services/trackService';
+
+export interface AdvancedSearchFingerprint {
+  detected_key: string | null;
+  detected_mode: string | null;
+  cadence_type: string;
+  tempo_bpm: number | null;
+  numerals: string[];
+}
+
+export interface AdvancedSearchResult {
+  track: Track;
+  fingerprint: AdvancedSearchFingerprint | null; // Null when no harmony filter ran
+}
+
+// Fingerprints fetched per requested result; the progression order check drops some
+const FINGERPRINT_OVERFETCH = 5;
+
+/**
+ * Search tracks with a compiled query
+ */
+export async function searchByQuery(query: CompiledQuery, limit: number = 50): Promise<AdvancedSearchResult[]> {
+  const fingerprints = new Map<string, AdvancedSearchFingerprint>();
+
+  if (query.fingerprints.length > 0) {
+    const { data, error } = await applyFilters(
+      supabase
+        .from('harmonic_fingerprints')
+        .select('track_id, detected_key, detected_mode, cadence_type, tempo_bpm, roman_progression'),
+      query.fingerprints
+    )
+      .order('confidence_score', { ascending: false })
+      .limit(limit * FINGERPRINT_OVERFETCH);
+
+    if (error) {
+      console.debug('advanced search fingerprints failed:', error.message);
+      return [];
+    }
+
+    for (const row of data ?? []) {
+      const numerals = ((row.roman_progression as unknown as RomanChord[] | null) ?? []).map(c => c.numeral);
+      if (query.progression && !matchesProgression(numerals, query.progression)) continue;
+
+      fingerprints.set(row.track_id, {
+        detected_key: row.detected_key,
+        detected_mode: row.detected_mode,
+        cadence_type: row.cadence_type,
+        tempo_bpm: row.tempo_bpm,
+        numerals,
+      });
+    }
+
+    if (fingerprints.size === 0) return [];
+  } else if (query.tracks.length === 0 && !query.text) {
+    return [];
+  }
+
+  let tracks = applyFilters(supabase.from('tracks').select('*'), query.tracks);
+
+  if (query.text) {
+    // Sanitize search input to prevent filter injection
+    const text = query.text.replace(/[%_,().*\\]/g, '');
+    tracks = tracks.or(`title.ilike.%${text}%,artist.ilike.%${text}%,album.ilike.%${text}%`);
+  }
+  if (fingerprints.size > 0) {
+    tracks = tracks.in('id', [...fingerprints.keys()]);
+  }
+
+  const { data, error } = await tracks.limit(limit);
+
+  if (error) {
+    console.debug('advanced search tracks failed:', error.message);
+    return [];
+  }
+
+  const results = (data ?? []).map(row => ({
+    track: transformDbRowToTrack(row as Record<string, unknown>),
+    fingerprint: fingerprints.get(row.id) ?? null,
+  }));
+
+  // Keep the fingerprint (confidence) order when harmony filters ran
+  if (fingerprints.size > 0) {
+    const order = [...fingerprints.keys()];
+    results.sort((a, b) => order.indexOf(a.track.id) - order.indexOf(b.track.id));
+  }
+
+  return results;
+}
+
+/**
+ * Apply column filters to a query builder
+ */
+function applyFilters<Q>(query: Q, filters: ColumnFilter[]): Q {
+  // Typed loosely: the generated table types are too deep to check generically
+  const applied = filters.reduce((builder, filter) => {
+    switch (filter.op) {
+      case 'eq':
+        return builder.eq(filter.column, filter.value);
+      case 'gte':
+        return builder.gte(filter.column, filter.value);
+      case 'lte':
+        return builder.lte(filter.column, filter.value);
+      case 'ilike':
+        return builder.ilike(filter.column, String(filter.value));
+      case 'in':
+        return builder.in(filter.column, filter.value);
+      case 'contains':
+        return builder.contains(filter.column, filter.value);
+      case 'or':
+        return builder.or(filter.value);
+    }
+  }, query as unknown as FilterBuilder);
+
+  return applied as unknown as Q;
+}
+
+// The filter methods used above, as implemented by the Postgrest builders
+interface FilterBuilder {
+  eq(column: string, value: unknown): FilterBuilder;
+  gte(column: string, value: unknown): FilterBuilder;
+  lte(column: string, value: unknown): FilterBuilder;
+  ilike(column: string, pattern: string): FilterBuilder;
+  in(column: string, values: unknown[]): FilterBuilder;
+  contains(column: string, value: string): FilterBuilder;
+  or(filters: string): FilterBuilder;
+}
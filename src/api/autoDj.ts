@@ -0,0 +1,75 @@
+/**
+ * Auto-DJ API
+ *
+ * Next tracks for the queue: harmonically similar tracks (similarity
+ * engine) with their keys and tempos, ordered for smooth transitions by
+ * lib/harmonicMixing.
+ * No Supabase calls in JSX - all data fetching here.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Track } from '@/types';
+import { findSimilarTracks } from '@/services/similarityEngine';
+import { getTracksByIds } from '@/services/trackService';
+import { HARMONIC_MIXING_CONFIG, planAutoDj, type AutoDjCandidate, type AutoDjPick } from '@/lib/harmonicMixing';
+
+const CANDIDATE_POOL = 30; // Similar tracks considered per batch
+
+export interface AutoDjBatch {
+  seed: Track | null;
+  picks: AutoDjPick[];
+}
+
+/**
+ * Plan the next picks after `seedTrackId`
+ * `recent` holds tracks already played or queued (repeats and artist cooldown)
+ */
+export async function getAutoDjPicks(
+  seedTrackId: string,
+  options: { recent?: Track[]; count?: number } = {}
+): Promise<AutoDjBatch> {
+  const similar = await findSimilarTracks({ reference_track_id: seedTrackId, max_results: CANDIDATE_POOL });
+  const ids = [seedTrackId, ...similar.map(s => s.track_id)];
+  const [tracks, tempos] = await Promise.all([getTracksByIds(ids), getFingerprintTiming(ids)]);
+
+  const byId = new Map(tracks.map(track => [track.id, withTiming(track, tempos.get(track.id))]));
+  const seed = byId.get(seedTrackId) ?? null;
+  if (!seed) return { seed: null, picks: [] };
+
+  const candidates: AutoDjCandidate[] = similar.flatMap(result => {
+    const track = byId.get(result.track_id);
+    return track ? [{ track, similarity: result.similarity_score, similarityReason: result.explanation }] : [];
+  });
+
+  return {
+    seed,
+    picks: planAutoDj(seed, candidates, { recent: options.recent, count: options.count ?? HARMONIC_MIXING_CONFIG.BATCH_SIZE }),
+  };
+}
+
+type FingerprintTiming = { tempo_bpm: number | null; detected_key: string | null; detected_mode: string | null };
+
+// Tempo lives on the fingerprint only; its key is the fallback for tracks without one
+async function getFingerprintTiming(trackIds: string[]): Promise<Map<string, FingerprintTiming>> {
+  const { data, error } = await supabase
+    .from('harmonic_fingerprints')
+    .select('track_id, tempo_bpm, detected_key, detected_mode')
+    .in('track_id', trackIds);
+
+  if (error) {
+    console.warn('[AutoDj] fingerprint lookup failed:', error.message);
+    return new Map();
+  }
+
+  return new Map((data ?? []).map(row => [row.track_id, row]));
+}
+
+function withTiming(track: Track, timing: FingerprintTiming | undefined): Track {
+  if (!timing) return track;
+  return {
+    ...track,
+    tempo: track.tempo ?? timing.tempo_bpm ?? undefined,
+    detected_key: track.detected_key ?? timing.detected_key ?? undefined,
+    detected_mode: track.detected_mode ?? (timing.detected_mode as Track['detected_mode']) ?? undefined,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Modulations API
+ *
+ * Key-change timeline of a track from its harmonic fingerprint.
+ * No Supabase calls in JSX - all data fetching here.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Modulation, RelativeTonalCenter } from '@/types/harmony';
+
+export interface TrackKeyTimeline {
+  opening: RelativeTonalCenter | null; // Key the track starts in
+  modulations: Modulation[];
+}
+
+/**
+ * Fetch a track's opening key and modulations (empty when not analysed)
+ */
+export async function getTrackModulations(trackId: string): Promise<TrackKeyTimeline> {
+  const { data, error } = await supabase
+    .from('harmonic_fingerprints')
+    .select('tonal_center, modulations')
+    .eq('track_id', trackId)
+    .order('analysis_timestamp', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.debug('modulations not available:', error.message);
+    return { opening: null, modulations: [] };
+  }
+
+  const row = data?.[0] as unknown as
+    { tonal_center: RelativeTonalCenter | null; modulations: Modulation[] | null } | undefined;
+
+  return {
+    opening: row?.tonal_center ?? null,
+    modulations: row?.modulations ?? [],
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Provider Availability API
+ *
+ * Provider mappings for a track and for other releases of its recording
+ * (same canonical recording, or same ISRC registrant/year and title), with
+ * the markets each plays in. Fed to lib/regionalAvailability.
+ * No Supabase calls in JSX - all data fetching here.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { MusicProvider } from '@/types';
+import { CANONICAL_CONFIG, normalizeIsrc } from '@/lib/canonicalTracks';
+import { getProviderTrackIds, type TrackProviderInfo } from '@/lib/providers';
+import type { ProviderTrackAvailability } from '@/lib/regionalAvailability';
+
+const AVAILABILITY_COLUMNS = 'canonical_id, provider, provider_track_id, isrc, title, available_markets';
+const MAX_RELATED_RELEASES = 50;
+
+/**
+ * Fetch availability for a track's provider IDs and their related releases
+ * (empty when nothing is mapped)
+ */
+export async function getProviderAvailability(track: TrackProviderInfo): Promise<ProviderTrackAvailability[]> {
+  const ids = getProviderTrackIds(track);
+  const providerTrackIds = Object.values(ids);
+  if (providerTrackIds.length === 0) return [];
+
+  const { data: mapped, error } = await supabase
+    .from('track_id_mappings')
+    .select(AVAILABILITY_COLUMNS)
+    .in('provider_track_id', providerTrackIds);
+
+  if (error) throw error;
+
+  const own = (mapped ?? [])
+    .map(toAvailability)
+    .filter(record => ids[record.provider] === record.provider_track_id);
+  if (own.length === 0) return [];
+
+  // Related releases: same canonical recording, or same ISRC registrant/year
+  // and title (a registrant/year prefix alone spans a whole year of releases)
+  const canonicalIds = [...new Set(own.map(r => r.canonical_id))];
+  const siblings = [...new Set(own.flatMap(r => {
+    const isrc = normalizeIsrc(r.isrc);
+    return isrc && r.title
+      ? [`and(isrc.like.${isrc.slice(0, CANONICAL_CONFIG.ISRC_RELEASE_PREFIX)}*,title.ilike.${quoteTitle(r.title)})`]
+      : [];
+  }))];
+
+  const filters = [
+    `canonical_id.in.(${canonicalIds.map(id => `"${id.replace(/"/g, '')}"`).join(',')})`,
+    ...siblings,
+  ];
+
+  // Releases with known availability first: only they can stand in
+  const { data: related, error: relatedError } = await supabase
+    .from('track_id_mappings')
+    .select(AVAILABILITY_COLUMNS)
+    .or(filters.join(','))
+    .order('availability_checked_at', { ascending: false, nullsFirst: false })
+    .limit(MAX_RELATED_RELEASES);
+
+  if (relatedError) throw relatedError;
+
+  const records = new Map<string, ProviderTrackAvailability>();
+  for (const record of [...own, ...(related ?? []).map(toAvailability)]) {
+    records.set(`${record.provider}:${record.provider_track_id}`, record);
+  }
+  return [...records.values()];
+}
+
+// Case-insensitive exact title for ilike inside or(): LIKE wildcards are
+// escaped, and * (PostgREST's wildcard) matches any one character instead,
+// which the title check in regionalAvailability narrows again
+function quoteTitle(title: string): string {
+  const pattern = title.replace(/[\\%_]/g, '\\$&').replace(/\*/g, '_');
+  return `"${pattern.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function toAvailability(row: {
+  canonical_id: string;
+  provider: string;
+  provider_track_id: string;
+  isrc: string | null;
+  title: string;
+  available_markets: string[] | null;
+}): ProviderTrackAvailability {
+  return { ...row, provider: row.provider as MusicProvider };
+}
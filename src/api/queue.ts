@@ -0,0 +1,53 @@
+/**
+ * Queue API
+ *
+ * The signed-in user's play queue, saved server-side so it follows them
+ * across devices; the newer copy wins. Signed out, both calls are no-ops.
+ * No Supabase calls in JSX - all data fetching here.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { parseQueue, type QueueSnapshot } from '@/lib/queueModel';
+
+/**
+ * The saved queue, or null when signed out or nothing is saved
+ */
+export async function fetchSavedQueue(): Promise<QueueSnapshot | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data, error } = await supabase
+    .from('user_queues')
+    .select('entries, queue_index, updated_at')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load queue: ${error.message}`);
+  if (!data) return null;
+
+  return parseQueue({ entries: data.entries, index: data.queue_index, updatedAt: Date.parse(data.updated_at) });
+}
+
+/**
+ * Save the queue unless the server holds a newer copy (save_user_queue
+ * RPC). Returns that newer copy when the save lost, null otherwise
+ */
+export async function saveQueue(queue: QueueSnapshot): Promise<QueueSnapshot | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const updatedAt = queue.updatedAt || Date.now();
+  const { data, error } = await supabase.rpc('save_user_queue' as never, {
+    _entries: queue.entries as unknown as Json,
+    _queue_index: queue.index,
+    _updated_at: new Date(updatedAt).toISOString(),
+  } as never);
+
+  if (error) throw new Error(`Failed to save queue: ${error.message}`);
+
+  const [stored] = (data ?? []) as Array<{ entries: Json; queue_index: number; updated_at: string }>;
+  if (!stored || Date.parse(stored.updated_at) <= updatedAt) return null;
+
+  return parseQueue({ entries: stored.entries, index: stored.queue_index, updatedAt: Date.parse(stored.updated_at) });
+}
@@ -0,0 +1,64 @@
+/**
+ * Search Cache API
+ *
+ * Reads shared unified search results from cache_entries, and hands new
+ * results to the write-search-cache Edge Function, which checks and stores
+ * them (see lib/searchCache). Signed out, writes are skipped.
+ * No Supabase calls in JSX - all data fetching here.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  cacheState,
+  type CachedSearch,
+  type CacheLookup,
+  type SearchCacheKeyParams,
+} from '@/lib/searchCache';
+
+/**
+ * Look up cached results; expired entries count as a miss
+ */
+export async function readSearchCache(key: string): Promise<CacheLookup | null> {
+  try {
+    const { data, error } = await supabase
+      .from('cache_entries')
+      .select('value, fresh_until, expires_at')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error || !data) return null;
+
+    const state = cacheState(data);
+    if (state === 'expired') return null;
+
+    const value = data.value as unknown as CachedSearch;
+    if (!Array.isArray(value?.tracks)) return null;
+
+    return { ...value, state };
+  } catch (error) {
+    console.error('Search cache read failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Submit results for caching; the Edge Function derives the key and
+ * lifetime from the search parameters
+ */
+export async function writeSearchCache(
+  params: SearchCacheKeyParams,
+  result: Omit<CachedSearch, 'cached_at'>
+): Promise<void> {
+  // The Edge Function won't cache "no results" from a client
+  if (result.tracks.length === 0) return;
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    const { error } = await supabase.functions.invoke('write-search-cache', { body: { ...params, result } });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Search cache write failed:', error);
+  }
+}
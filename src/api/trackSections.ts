@@ -43,3 +43,26 @@ export async function getTrackSection(sectionId: string): Promise<TrackSection |
   const sections = data as unknown as TrackSection[];
   return sections?.[0] ?? null;
 }
+
+/**
+ * Sections with a given label, for section-aware similarity.
+ * With `trackIds`, sections of those tracks; otherwise every section that
+ * has a chord progression.
+ */
+export async function getSectionsByLabel(
+  label: TrackSection['label'],
+  options?: { trackIds?: string[]; limit?: number }
+): Promise<TrackSection[]> {
+  const { data, error } = await supabase.rpc('get_sections_by_label' as never, {
+    p_label: label,
+    p_track_ids: options?.trackIds ?? null,
+    p_limit: options?.limit ?? 500,
+  } as never);
+
+  if (error) {
+    console.debug('get_sections_by_label not available:', error.message);
+    return [];
+  }
+
+  return (data as unknown as TrackSection[]) ?? [];
+}
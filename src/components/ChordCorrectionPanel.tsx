@@ -0,0 +1,255 @@
+/**
+ * Chord Correction Panel
+ *
+ * Lets listeners propose a corrected progression or key for a track and
+ * vote on other proposals. The leading proposal is promoted into the
+ * track's harmonic data once the crowd (or a moderator) agrees.
+ */
+
+import { useState } from 'react';
+import { ThumbsUp, ThumbsDown, Users, CheckCircle2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChordBadge } from '@/components/ChordBadge';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  useChordConsensus,
+  useChordSubmissions,
+  useSubmitChordCorrection,
+  useVoteOnSubmission,
+} from '@/hooks/api/useChordSubmissions';
+import { parseNumeralList } from '@/lib/chordConsensus';
+import { chartToRoman, parseNoteName } from '@/lib/chordSymbols';
+import { PITCH_CLASSES } from '@/lib/harmonicDsp';
+import { cn } from '@/lib/utils';
+
+interface ChordCorrectionPanelProps {
+  trackId: string;
+  keySignature?: string;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  open: 'Gathering votes',
+  needs_review: 'Awaiting moderator',
+  promote: 'Accepted',
+};
+
+export function ChordCorrectionPanel({ trackId, keySignature, className }: ChordCorrectionPanelProps) {
+  const { user } = useAuth();
+  const { data: consensus } = useChordConsensus(trackId);
+  const { data: submissions = [] } = useChordSubmissions(trackId);
+  const submitCorrection = useSubmitChordCorrection();
+  const vote = useVoteOnSubmission();
+
+  const [progressionText, setProgressionText] = useState('');
+  const [detectedKey, setDetectedKey] = useState<string>('');
+  const [detectedMode, setDetectedMode] = useState<'major' | 'minor' | ''>('');
+
+  const numerals = parseNumeralList(progressionText);
+  // Chord charts ("Am F C G") are read in the chosen key, or an inferred one
+  const chart = numerals.invalid.length > 0 ? readChart(progressionText, detectedKey, detectedMode) : null;
+  const parsed = chart && chart.invalid.length === 0
+    ? { numerals: chart.progression.map(c => c.numeral), invalid: [] }
+    : numerals;
+  const chartKey = chart && parsed.invalid.length === 0 ? chart.key : null;
+  const submittedKey = chartKey ? PITCH_CLASSES[chartKey.tonic] : detectedKey;
+  const submittedMode = chartKey ? chartKey.mode : detectedMode;
+
+  const myVote = (submissionIds: string[]) => {
+    for (const submission of submissions) {
+      if (!submissionIds.includes(submission.id)) continue;
+      if (submission.user_id === user?.id) return 'submitted';
+      const own = submission.chord_submission_votes?.find(v => v.user_id === user?.id);
+      if (own) return own.vote > 0 ? 'up' : 'down';
+    }
+    return null;
+  };
+
+  const handleSubmit = async () => {
+    if (parsed.invalid.length > 0) {
+      toast.error(`Not a Roman numeral or chord: ${parsed.invalid.join(', ')}`);
+      return;
+    }
+
+    try {
+      await submitCorrection.mutateAsync({
+        trackId,
+        progression: parsed.numerals,
+        detectedKey: submittedKey || undefined,
+        detectedMode: submittedMode || undefined,
+      });
+      setProgressionText('');
+      setDetectedKey('');
+      setDetectedMode('');
+      toast.success('Thanks! Your correction was submitted');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to submit correction');
+    }
+  };
+
+  const handleVote = (submissionId: string, value: 1 | -1) => {
+    vote.mutate(
+      { trackId, submissionId, vote: value },
+      { onError: (error) => toast.error((error as Error).message || 'Failed to vote') }
+    );
+  };
+
+  const proposals = consensus?.proposals ?? [];
+
+  return (
+    <Card className={cn('p-4 space-y-4', className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-muted-foreground">Community Corrections</h3>
+        {consensus && consensus.status !== 'none' && (
+          <Badge variant={consensus.status === 'promote' ? 'default' : 'outline'}>
+            {STATUS_LABELS[consensus.status]}
+          </Badge>
+        )}
+      </div>
+
+      {/* Proposals, strongest first */}
+      {proposals.length > 0 ? (
+        <div className="space-y-3">
+          {proposals.map((proposal) => {
+            const current = myVote(proposal.submission_ids);
+            return (
+              <div key={proposal.submission_ids[0]} className="p-3 border rounded-lg bg-muted/40 space-y-2">
+                <div className="flex gap-1.5 flex-wrap">
+                  {proposal.progression_roman.map((chord, i) => (
+                    <ChordBadge
+                      key={i}
+                      chord={chord}
+                      keySignature={proposal.detected_key ?? keySignature}
+                      mode={proposal.detected_mode ?? undefined}
+                      size="sm"
+                    />
+                  ))}
+                  {proposal.detected_key && (
+                    <Badge variant="secondary">
+                      {proposal.detected_key} {proposal.detected_mode ?? ''}
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Users className="w-3 h-3" />
+                      {proposal.contributors.length}
+                    </span>
+                    <span>{Math.round(proposal.share * 100)}% agreement</span>
+                    {proposal.approved_by && (
+                      <span className="flex items-center gap-1 text-primary">
+                        <CheckCircle2 className="w-3 h-3" />
+                        Approved
+                      </span>
+                    )}
+                  </div>
+                  {user && current !== 'submitted' && (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant={current === 'up' ? 'default' : 'ghost'}
+                        size="sm"
+                        aria-label="Agree"
+                        disabled={vote.isPending}
+                        onClick={() => handleVote(proposal.submission_ids[0], 1)}
+                      >
+                        <ThumbsUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant={current === 'down' ? 'default' : 'ghost'}
+                        size="sm"
+                        aria-label="Disagree"
+                        disabled={vote.isPending}
+                        onClick={() => handleVote(proposal.submission_ids[0], -1)}
+                      >
+                        <ThumbsDown className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No corrections yet. Hear something different? Suggest it below.
+        </p>
+      )}
+
+      {/* Submission form */}
+      {user ? (
+        <div className="space-y-2">
+          <Input
+            value={progressionText}
+            onChange={(e) => setProgressionText(e.target.value)}
+            placeholder="Progression, e.g. vi IV I V or Am F C G"
+            aria-label="Corrected progression"
+          />
+          {parsed.invalid.length > 0 && (
+            <p className="text-xs text-destructive">
+              Not a Roman numeral or chord: {parsed.invalid.join(', ')}
+            </p>
+          )}
+          {chartKey && (
+            <p className="text-xs text-muted-foreground">
+              Read as {parsed.numerals.join(' ')} in {PITCH_CLASSES[chartKey.tonic]} {chartKey.mode}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Select value={detectedKey} onValueChange={setDetectedKey}>
+              <SelectTrigger className="w-28" aria-label="Key">
+                <SelectValue placeholder="Key" />
+              </SelectTrigger>
+              <SelectContent>
+                {PITCH_CLASSES.map((pitch) => (
+                  <SelectItem key={pitch} value={pitch}>{pitch}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={detectedMode} onValueChange={(value) => setDetectedMode(value as 'major' | 'minor')}>
+              <SelectTrigger className="w-28" aria-label="Mode">
+                <SelectValue placeholder="Mode" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="major">Major</SelectItem>
+                <SelectItem value="minor">Minor</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              className="flex-1"
+              disabled={submitCorrection.isPending || (parsed.numerals.length === 0 && !detectedKey)}
+              onClick={handleSubmit}
+            >
+              {submitCorrection.isPending ? 'Submitting…' : 'Suggest correction'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Sign in to suggest corrections and vote.</p>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * Read a chord chart in the chosen key; a missing key or mode is inferred
+ */
+function readChart(text: string, key: string, mode: 'major' | 'minor' | '') {
+  const tonic = parseNoteName(key);
+  if (tonic === null) return chartToRoman(text);
+
+  const inferred = mode ? null : chartToRoman(text).key;
+  return chartToRoman(text, { tonic, mode: mode || (inferred?.tonic === tonic ? inferred.mode : 'major') });
+}
@@ -56,6 +56,7 @@ export function HarmonyCard({
                 chord={chord} 
                 size="md" 
                 keySignature={detectedKey}
+                mode={detectedMode === 'unknown' ? undefined : detectedMode}
               />
             </motion.div>
           ))}
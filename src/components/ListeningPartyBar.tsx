@@ -0,0 +1,84 @@
+import { Headphones, LogOut, Radio } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { LISTENING_PARTY_CONFIG } from '@/lib/listeningParty';
+import type { ListeningParty } from '@/hooks/useListeningParty';
+
+interface ListeningPartyBarProps {
+  party: ListeningParty;
+  canHost: boolean; // Something is loaded in the player to share
+  onStart: () => void;
+}
+
+/**
+ * Listening party controls for a chat room: start or end hosting, join or
+ * leave the host's party, and how closely a guest is following
+ */
+export function ListeningPartyBar({ party, canHost, onStart }: ListeningPartyBarProps) {
+  const { role, hostId, hostName, hostState, guestCount, driftMs } = party;
+  const nowPlaying = hostState?.title ? [hostState.title, hostState.artist].filter(Boolean).join(' – ') : null;
+
+  if (role === 'host') {
+    return (
+      <div className="px-4 py-2 border-b flex items-center gap-2 bg-primary/10 text-sm">
+        <Radio className="w-4 h-4 text-primary animate-pulse" />
+        <span className="flex-1 truncate">
+          You're hosting{nowPlaying ? ` · ${nowPlaying}` : ''}
+        </span>
+        <Badge variant="secondary" className="text-xs">
+          {guestCount} listening
+        </Badge>
+        <Button variant="ghost" size="sm" className="h-7" onClick={party.endParty}>
+          End
+        </Button>
+      </div>
+    );
+  }
+
+  if (role === 'guest') {
+    const drift = driftMs ?? 0;
+    const inSync = Math.abs(drift) <= LISTENING_PARTY_CONFIG.DRIFT_TOLERANCE_MS;
+    return (
+      <div className="px-4 py-2 border-b flex items-center gap-2 bg-primary/10 text-sm">
+        <Headphones className="w-4 h-4 text-primary" />
+        <span className="flex-1 min-w-0">
+          <span className="block truncate">Listening along with {hostName ?? 'the host'}</span>
+          <span className="block text-xs text-muted-foreground truncate">
+            {inSync ? 'In sync' : `Catching up (${drift > 0 ? '+' : ''}${(drift / 1000).toFixed(1)}s)`}
+            {nowPlaying ? ` · ${nowPlaying}` : ''}
+          </span>
+        </span>
+        <Button variant="ghost" size="sm" className="h-7" onClick={party.leaveParty}>
+          <LogOut className="w-3 h-3 mr-1" />
+          Leave
+        </Button>
+      </div>
+    );
+  }
+
+  if (hostId) {
+    return (
+      <div className="px-4 py-2 border-b flex items-center gap-2 text-sm">
+        <Radio className="w-4 h-4 text-primary" />
+        <span className="flex-1 truncate">
+          {hostName ?? 'Someone'} is hosting a listening party{nowPlaying ? ` · ${nowPlaying}` : ''}
+        </span>
+        <Button size="sm" className="h-7" onClick={party.joinParty}>
+          Join
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 py-2 border-b flex items-center gap-2 text-sm text-muted-foreground">
+      <Headphones className="w-4 h-4" />
+      <span className="flex-1 truncate">
+        {canHost ? "Share what you're playing with the room" : 'Play a track to host a listening party'}
+      </span>
+      <Button variant="outline" size="sm" className="h-7" onClick={onStart} disabled={!canHost}>
+        Start party
+      </Button>
+    </div>
+  );
+}
@@ -8,6 +8,9 @@ import { Avatar } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useListeningParty } from '@/hooks/useListeningParty';
+import { usePlayer } from '@/player/PlayerContext';
+import { ListeningPartyBar } from '@/components/ListeningPartyBar';
 import { formatDistanceToNow } from 'date-fns';
 
 interface ChatMessage {
@@ -54,6 +57,12 @@ export function LiveChat({
   const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const { provider: playerProvider } = usePlayer();
+  const party = useListeningParty(
+    roomId,
+    chatDisabled ? null : user?.id ?? null,
+    (user?.user_metadata?.display_name as string | undefined) ?? user?.email?.split('@')[0] ?? null
+  );
 
   if (chatDisabled) {
     return null;
@@ -247,19 +256,31 @@ export function LiveChat({
     }, 100);
   };
 
+  const postMessage = async (message: string, replyTo: string | null = null) => {
+    if (!user) return;
+    const { error } = await supabase.from('chat_messages').insert({
+      room_id: roomId,
+      user_id: user.id,
+      message,
+      reply_to: replyTo,
+    });
+    if (error) throw error;
+  };
+
+  // Hosting is announced in the chat so the room knows to join
+  const startParty = () => {
+    party.startParty();
+    postMessage('🎧 Started a listening party. Join to listen along!').catch((error) =>
+      console.error('Error announcing listening party:', error)
+    );
+  };
+
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim() || !user) return;
 
     try {
-      const { error } = await supabase.from('chat_messages').insert({
-        room_id: roomId,
-        user_id: user.id,
-        message: newMessage.trim(),
-        reply_to: replyingTo?.id || null,
-      });
-
-      if (error) throw error;
+      await postMessage(newMessage.trim(), replyingTo?.id || null);
 
       setNewMessage('');
       setReplyingTo(null);
@@ -295,6 +316,8 @@ export function LiveChat({
         </div>
       </div>
 
+      <ListeningPartyBar party={party} canHost={!!playerProvider} onStart={startParty} />
+
       {/* Messages */}
       <ScrollArea className="flex-1 p-4 h-[400px]">
         {isLoading ? (
@@ -0,0 +1,126 @@
+/**
+ * Play To Find Panel
+ *
+ * Records a chord loop from the microphone and lists tracks built on it
+ * (see services/recordingSearch). Analysis runs in the browser; only the
+ * recognized progression is used to search.
+ */
+
+import { Loader2, Mic, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ChordBadge } from '@/components/ChordBadge';
+import { useMicRecorder } from '@/hooks/useMicRecorder';
+import { useRecordingSearch } from '@/hooks/api/useSearch';
+import { RECORDING_SEARCH_CONFIG } from '@/services/recordingSearch';
+import type { Track } from '@/types';
+
+interface PlayToFindPanelProps {
+  onSelectTrack: (track: Track) => void;
+}
+
+export function PlayToFindPanel({ onSelectTrack }: PlayToFindPanelProps) {
+  const search = useRecordingSearch();
+  const recorder = useMicRecorder({
+    maxDurationMs: RECORDING_SEARCH_CONFIG.MAX_DURATION_MS,
+    onRecorded: (audio) => search.mutate(audio),
+  });
+
+  if (!recorder.isSupported) return null;
+
+  const recording = recorder.status === 'recording' || recorder.status === 'requesting';
+  const seconds = Math.floor(recorder.elapsedMs / 1000);
+  const longEnough = recorder.elapsedMs >= RECORDING_SEARCH_CONFIG.MIN_DURATION_MS;
+
+  return (
+    <section className="glass rounded-xl p-4 space-y-4">
+      <div className="flex items-center gap-4">
+        <Button
+          size="icon"
+          variant={recording ? 'destructive' : 'default'}
+          className="h-12 w-12 rounded-full flex-shrink-0"
+          onClick={recording ? recorder.stop : recorder.start}
+          disabled={search.isPending || recorder.status === 'requesting'}
+          aria-label={recording ? 'Stop recording' : 'Record a chord loop'}
+        >
+          {recording ? <Square className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+        </Button>
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="font-medium">Play it to find it</div>
+          {recording ? (
+            <>
+              <Progress value={Math.min(100, recorder.level * 100)} className="h-1.5" />
+              <p className="text-xs text-muted-foreground">
+                {seconds}s · {longEnough ? 'stop once the loop has gone round twice' : 'keep playing'}
+              </p>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Strum or hum a chord loop, at least twice through
+            </p>
+          )}
+        </div>
+      </div>
+
+      {recorder.error && <p className="text-sm text-destructive">{recorder.error}</p>}
+
+      {search.isPending && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Listening for chords...
+        </div>
+      )}
+
+      {search.isError && <p className="text-sm text-destructive">{search.error.message}</p>}
+
+      {search.data && (
+        <div className="space-y-3">
+          <div className="space-y-1.5">
+            {search.data.recognized.readings.map((reading, index) => (
+              <div key={reading.label} className="flex items-center gap-2 flex-wrap">
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {index === 0 ? 'Heard in' : 'or in'} {reading.label}
+                </span>
+                {reading.progression.map((chord, i) => (
+                  <ChordBadge key={i} chord={chord.numeral} size="sm" />
+                ))}
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              ~{Math.round(search.data.recognized.tempo_bpm)} BPM · {search.data.recognized.loop_bars}-bar loop
+            </p>
+          </div>
+
+          {search.data.matches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No analysed tracks use this loop yet</p>
+          ) : (
+            <div className="space-y-2">
+              {search.data.matches.map(({ track, match }) => (
+                <button
+                  key={track.id}
+                  type="button"
+                  onClick={() => onSelectTrack(track)}
+                  className="w-full p-3 rounded-lg text-left hover:bg-muted/50 transition-colors flex items-center gap-3"
+                >
+                  {track.cover_url && (
+                    <img src={track.cover_url} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{track.title}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {track.artist}
+                      {match.explanation && ` · ${match.explanation}`}
+                    </div>
+                  </div>
+                  <span className="text-xs font-medium text-primary">
+                    {Math.round(match.similarity_score * 100)}%
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -17,6 +17,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Play, Tv, Headphones, ExternalLink } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { usePlayer } from '@/player/PlayerContext';
+import { useTrackSections } from '@/hooks/api/useTrackSections';
 import { cn } from '@/lib/utils';
 import type { MusicProvider, Track } from '@/types';
 
@@ -88,6 +89,7 @@ export function PlaybackControls({
 }: PlaybackControlsProps) {
   const { openPlayer, provider: currentProvider, switchProvider } = usePlayer();
   const [activeMode, setActiveMode] = useState<'watch' | 'listen' | null>(mode);
+  const { data: sections } = useTrackSections(track.id);
 
   // Get available providers for this track
   const availableProviders = Object.entries(track.providerIds || {})
@@ -166,8 +168,8 @@ export function PlaybackControls({
       return;
     }
 
-    switchProvider(provider, providerId, track.id);
-  }, [track, switchProvider]);
+    switchProvider(provider, providerId, track.id, { canonicalDurationMs: track.duration_ms, sections });
+  }, [track, sections, switchProvider]);
 
   // Handle "Open in App" - explicit user action, allowed to open native app
   const handleOpenInApp = useCallback((provider: MusicProvider) => {
@@ -0,0 +1,136 @@
+/**
+ * Provider Health Panel
+ *
+ * Circuit breaker state, failure counts and search latency for each music
+ * provider connector. Local diagnostics: breakers live in memory in each
+ * browser, so this shows only the searches made from this session, not
+ * what other users' clients are seeing.
+ */
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { RefreshCw } from 'lucide-react';
+import { useCheckProviderHealth, useProviderHealth } from '@/hooks/api/useProviderHealth';
+import type { CircuitState, LatencySnapshot } from '@/lib/connectors/circuitBreaker';
+
+const STATE_LABELS: Record<CircuitState, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  closed: { label: 'Closed', variant: 'default' },
+  half_open: { label: 'Half-open', variant: 'secondary' },
+  open: { label: 'Open', variant: 'destructive' },
+};
+
+export function ProviderHealthPanel() {
+  const { data: providers = [], isLoading } = useProviderHealth();
+  const checkHealth = useCheckProviderHealth();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            Provider Health
+            <Badge variant="outline" className="font-normal">This browser only</Badge>
+          </CardTitle>
+          <CardDescription>
+            Circuit breakers for searches made from this browser session; other users' clients keep their own.
+            Open circuits are skipped by search until their cooldown ends.
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => checkHealth.mutate()}
+          disabled={checkHealth.isPending}
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${checkHealth.isPending ? 'animate-spin' : ''}`} />
+          Run health checks
+        </Button>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-2 pr-3">Provider</th>
+                <th className="py-2 pr-3">Circuit</th>
+                <th className="py-2 pr-3">OK / Failed / Skipped</th>
+                <th className="py-2 pr-3">Latency p50 / p95</th>
+                <th className="py-2 pr-3">Distribution</th>
+                <th className="py-2 pr-3">Last error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {providers.map((provider) => {
+                const state = STATE_LABELS[provider.state];
+                return (
+                  <tr key={provider.provider} className="border-t border-border/60 align-top">
+                    <td className="py-2 pr-3">
+                      <div className="font-medium capitalize">{provider.provider.replace('_', ' ')}</div>
+                      {!provider.enabled && (
+                        <div className="text-xs text-muted-foreground">Not configured</div>
+                      )}
+                      {provider.last_health_check && (
+                        <div className="text-xs text-muted-foreground">
+                          Check {provider.last_health_check.healthy ? 'passed' : 'failed'}{' '}
+                          {new Date(provider.last_health_check.checked_at).toLocaleTimeString()}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <Badge variant={state.variant}>{state.label}</Badge>
+                      {provider.retry_at && provider.state === 'open' && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Retry {new Date(provider.retry_at).toLocaleTimeString()}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 tabular-nums">
+                      {provider.successes} / {provider.failures} / {provider.rejected}
+                    </td>
+                    <td className="py-2 pr-3 tabular-nums">
+                      {formatLatency(provider.latency.p50_ms, provider.latency)} / {formatLatency(provider.latency.p95_ms, provider.latency)}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <LatencyBars latency={provider.latency} />
+                    </td>
+                    <td className="py-2 pr-3 text-xs text-muted-foreground max-w-[240px] truncate" title={provider.last_error ?? ''}>
+                      {provider.last_error ?? '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LatencyBars({ latency }: { latency: LatencySnapshot }) {
+  const max = Math.max(1, ...latency.buckets.map(b => b.count));
+
+  return (
+    <div className="flex items-end gap-0.5 h-8">
+      {latency.buckets.map((bucket) => (
+        <div
+          key={bucket.le_ms ?? 'overflow'}
+          className="w-2 bg-primary/70 rounded-sm"
+          style={{ height: `${Math.max(2, (bucket.count / max) * 100)}%` }}
+          title={`${bucket.le_ms === null ? 'slower' : `≤ ${bucket.le_ms}ms`}: ${bucket.count}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Percentiles are bucket bounds; past the last bucket there is no bound
+function formatLatency(ms: number | null, latency: LatencySnapshot): string {
+  if (latency.count === 0) return '—';
+  if (ms === null) return `> ${latency.buckets[latency.buckets.length - 2]?.le_ms ?? 0}ms`;
+  return `≤ ${ms}ms`;
+}
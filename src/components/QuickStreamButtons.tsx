@@ -1,12 +1,13 @@
 import { motion } from 'framer-motion';
-import { Music } from 'lucide-react';
+import { Globe, Music } from 'lucide-react';
 import { useCallback, useMemo } from 'react';
-import { TrackProviderInfo, getProviderLinks } from '@/lib/providers';
+import { TrackProviderInfo } from '@/lib/providers';
 import { getPreferredProvider, setPreferredProvider } from '@/lib/preferences';
 import { usePlayer } from '@/player/PlayerContext';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/hooks/useAuth';
 import { searchYouTubeVideos } from '@/services/youtubeSearchService';
+import { useRegionalLinks } from '@/hooks/api/useRegionalLinks';
 
 interface QuickStreamButtonsProps {
   track: TrackProviderInfo;
@@ -39,6 +40,9 @@ const YouTubeIcon = ({ className }: { className?: string }) => (
 /**
  * Provider buttons for Spotify and YouTube.
  * Clickable buttons that trigger autoplay in the universal player.
+ * Links blocked in the listener's market use another release of the
+ * recording when one is known, otherwise show as unavailable in the region
+ * (YouTube falls back to searching for a playable video).
  */
 export function QuickStreamButtons({
   track,
@@ -48,9 +52,11 @@ export function QuickStreamButtons({
   className,
   size = 'md',
 }: QuickStreamButtonsProps) {
-  const links = getProviderLinks(track);
-  const spotifyLink = links.find((l) => l.provider === 'spotify');
-  const youtubeLink = links.find((l) => l.provider === 'youtube');
+  const regional = useRegionalLinks(track);
+  const spotifyLink = regional.links.find((l) => l.provider === 'spotify');
+  const youtubeLink = regional.links.find((l) => l.provider === 'youtube');
+  const spotifyBlocked = regional.blocked.some((l) => l.provider === 'spotify');
+  const youtubeBlocked = regional.blocked.some((l) => l.provider === 'youtube');
   const preferredProvider = getPreferredProvider();
   const { openPlayer, positionMs, provider: currentProvider, canonicalTrackId: currentTrackId } = usePlayer();
   const { user } = useAuth();
@@ -72,19 +78,27 @@ export function QuickStreamButtons({
     return raw;
   }, []);
 
-  const spotifyTrackId = useMemo(() => normalizeSpotifyId(track.spotifyId || track.urlSpotifyWeb || track.urlSpotifyApp || spotifyLink?.webUrl || spotifyLink?.appUrl), [normalizeSpotifyId, track.spotifyId, track.urlSpotifyApp, track.urlSpotifyWeb, spotifyLink?.appUrl, spotifyLink?.webUrl]);
-  const youtubeTrackId = useMemo(() => normalizeYoutubeId(track.youtubeId || track.urlYoutube || youtubeLink?.webUrl), [normalizeYoutubeId, track.urlYoutube, track.youtubeId, youtubeLink?.webUrl]);
+  const spotifyTrackId = useMemo(() => {
+    if (spotifyBlocked) return null;
+    if (spotifyLink?.alternateRelease) return normalizeSpotifyId(spotifyLink.webUrl);
+    return normalizeSpotifyId(track.spotifyId || track.urlSpotifyWeb || track.urlSpotifyApp || spotifyLink?.webUrl || spotifyLink?.appUrl);
+  }, [normalizeSpotifyId, spotifyBlocked, track.spotifyId, track.urlSpotifyApp, track.urlSpotifyWeb, spotifyLink?.alternateRelease, spotifyLink?.appUrl, spotifyLink?.webUrl]);
+  const youtubeTrackId = useMemo(() => {
+    if (youtubeBlocked) return null; // Search for a video that plays here instead
+    if (youtubeLink?.alternateRelease) return normalizeYoutubeId(youtubeLink.webUrl);
+    return normalizeYoutubeId(track.youtubeId || track.urlYoutube || youtubeLink?.webUrl);
+  }, [normalizeYoutubeId, youtubeBlocked, track.urlYoutube, track.youtubeId, youtubeLink?.alternateRelease, youtubeLink?.webUrl]);
 
   const hasSpotify = Boolean(spotifyTrackId);
   const hasYouTube = Boolean(youtubeTrackId);
-  const unavailable = !hasSpotify && !hasYouTube;
+  const unavailable = !hasSpotify && !hasYouTube && !spotifyBlocked && !youtubeBlocked;
 
   // Check if this is the currently playing track
   const isCurrentTrack = currentTrackId === canonicalTrackId;
   const currentPositionSec = isCurrentTrack && positionMs ? positionMs / 1000 : undefined;
 
   const handleSpotifyClick = useCallback(() => {
-    if (!hasSpotify || !track.spotifyId) return;
+    if (!hasSpotify || !spotifyTrackId) return;
 
     setPreferredProvider('spotify');
     openPlayer({
@@ -167,8 +181,8 @@ export function QuickStreamButtons({
             : 'bg-muted text-muted-foreground cursor-not-allowed opacity-60',
           currentProvider === 'spotify' && isCurrentTrack && 'ring-2 ring-white ring-offset-2 ring-offset-background'
         )}
-        title={hasSpotify ? 'Play in Spotify' : 'Spotify unavailable'}
-        aria-label={hasSpotify ? `Play ${trackTitle} in Spotify` : 'Spotify unavailable'}
+        title={hasSpotify ? 'Play in Spotify' : spotifyBlocked ? 'Not available on Spotify in your region' : 'Spotify unavailable'}
+        aria-label={hasSpotify ? `Play ${trackTitle} in Spotify` : spotifyBlocked ? 'Spotify not available in your region' : 'Spotify unavailable'}
       >
         <SpotifyIcon className={iconSizes[size]} />
       </motion.button>
@@ -189,6 +203,16 @@ export function QuickStreamButtons({
       >
         <YouTubeIcon className={iconSizes[size]} />
       </motion.button>
+
+      {regional.blocked.length > 0 && (
+        <span
+          className="flex items-center gap-1 text-xs text-muted-foreground"
+          title={`Blocked in ${regional.market}: ${regional.blocked.map((l) => l.name).join(', ')}`}
+        >
+          <Globe className="w-3 h-3" />
+          Not available in your region
+        </span>
+      )}
     </div>
   );
 }
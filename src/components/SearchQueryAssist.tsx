@@ -0,0 +1,95 @@
+/**
+ * Search Query Assist
+ *
+ * Autocomplete, parsed filter chips and syntax errors for the advanced
+ * search query language (see lib/searchQuery).
+ */
+
+import { useMemo } from 'react';
+import { AlertTriangle, Bookmark } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  applySuggestion,
+  describeFilter,
+  suggestCompletions,
+  type ParsedQuery,
+  type QuerySuggestion,
+} from '@/lib/searchQuery';
+
+interface SearchQueryAssistProps {
+  query: string;
+  cursor: number;
+  parsed: ParsedQuery;
+  showSuggestions: boolean;
+  onChange: (query: string, cursor: number) => void;
+  onSave?: () => void;
+}
+
+export function SearchQueryAssist({
+  query,
+  cursor,
+  parsed,
+  showSuggestions,
+  onChange,
+  onSave,
+}: SearchQueryAssistProps) {
+  const suggestions = useMemo(
+    () => (showSuggestions ? suggestCompletions(query, cursor) : []),
+    [query, cursor, showSuggestions]
+  );
+
+  const accept = (suggestion: QuerySuggestion) => {
+    const next = applySuggestion(query, suggestion);
+    onChange(next.input, next.cursor);
+  };
+
+  if (suggestions.length === 0 && parsed.filters.length === 0 && parsed.errors.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {suggestions.length > 0 && (
+        <div className="glass rounded-lg p-1 max-h-56 overflow-y-auto" role="listbox">
+          {suggestions.map((suggestion) => (
+            <button
+              key={`${suggestion.insert}-${suggestion.from}`}
+              type="button"
+              role="option"
+              // Keep focus in the input
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => accept(suggestion)}
+              className="w-full flex items-baseline justify-between gap-3 px-3 py-1.5 rounded-md text-left hover:bg-muted/50"
+            >
+              <span className="font-mono text-sm">{suggestion.label}</span>
+              <span className="text-xs text-muted-foreground truncate">{suggestion.detail}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {(parsed.filters.length > 0 || parsed.errors.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {parsed.filters.map((filter, index) => (
+            <Badge key={index} variant="secondary" className="text-xs">
+              {describeFilter(filter)}
+            </Badge>
+          ))}
+          {parsed.errors.map((error, index) => (
+            <Badge key={`error-${index}`} variant="destructive" className="text-xs">
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              {error.message}
+            </Badge>
+          ))}
+          {onSave && parsed.filters.length > 0 && parsed.errors.length === 0 && (
+            <Button variant="ghost" size="sm" className="h-6 text-xs ml-auto" onClick={onSave}>
+              <Bookmark className="w-3 h-3 mr-1" />
+              Save search
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,14 +4,17 @@ import { Play } from 'lucide-react';
 interface Props {
   videoId: string;
   startSeconds?: number;
+  endSeconds?: number; // Stop at the end of the section (e.g. a matched chorus)
   className?: string;
 }
 
-export default function SectionYouTubeSnippet({ videoId, startSeconds = 0, className }: Props) {
+export default function SectionYouTubeSnippet({ videoId, startSeconds = 0, endSeconds, className }: Props) {
   const [playing, setPlaying] = useState(false);
 
+  const start = Math.max(0, Math.floor(startSeconds));
+  const end = endSeconds !== undefined && endSeconds > start ? `&end=${Math.ceil(endSeconds)}` : '';
   const src = playing
-    ? `https://www.youtube.com/embed/${videoId}?autoplay=1&rel=0&modestbranding=1&playsinline=1&start=${Math.max(0, Math.floor(startSeconds))}`
+    ? `https://www.youtube.com/embed/${videoId}?autoplay=1&rel=0&modestbranding=1&playsinline=1&start=${start}${end}`
     : `https://www.youtube.com/embed/${videoId}?rel=0&modestbranding=1&playsinline=1`;
 
   return (
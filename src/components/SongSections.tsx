@@ -1,8 +1,11 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Music2, Play } from 'lucide-react';
+import { Music2, Play, Repeat } from 'lucide-react';
 import { SongSection, SongSectionType } from '@/types';
+import type { Modulation, RelativeTonalCenter } from '@/types/harmony';
 import { cn } from '@/lib/utils';
+import { labelModulations, modulationSection, type ModulationLabel } from '@/lib/modulation';
+import { isLoopOf, sectionLoopRegion } from '@/lib/abLoop';
 import { usePlayer } from '@/player/PlayerContext';
 
 interface SongSectionsProps {
@@ -10,6 +13,9 @@ interface SongSectionsProps {
   youtubeId: string;
   title: string;
   className?: string;
+  // Key changes from the fingerprint, badged on the section they land in
+  modulations?: Modulation[];
+  openingKey?: RelativeTonalCenter | null;
 }
 
 const sectionColors: Record<SongSectionType, string> = {
@@ -34,30 +40,52 @@ const sectionIcons: Record<SongSectionType, string> = {
   outro: '🎭',
 };
 
-export function SongSections({ sections, youtubeId, title, className }: SongSectionsProps) {
+export function SongSections({ sections, youtubeId, title, className, modulations, openingKey }: SongSectionsProps) {
   const [expandedSection, setExpandedSection] = useState<number | null>(null);
-  const { openPlayer } = usePlayer();
+  const { openPlayer, loop, setLoop, clearLoop } = usePlayer();
 
   if (!sections || sections.length === 0) {
     return null;
   }
 
+  const keyChanges = keyChangesBySection(sections, modulations, openingKey);
+
+  const sectionLabel = (section: SongSection) =>
+    section.label || section.type.charAt(0).toUpperCase() + section.type.slice(1);
+
+  const loopRegions = sections.map((section, index) =>
+    sectionLoopRegion(section, sectionLabel(section), sections[index + 1]?.start_time)
+  );
+
+  const playSection = (section: SongSection) => {
+    if (!youtubeId) return;
+    // IMPORTANT: All playback must go through the universal player; no inline embeds.
+    openPlayer({
+      canonicalTrackId: undefined,
+      provider: 'youtube',
+      providerTrackId: youtubeId,
+      autoplay: true,
+      startSec: section.start_time,
+      context: 'song-sections',
+      title,
+    });
+  };
+
   const handleSectionClick = (index: number) => {
-    const section = sections[index];
     setExpandedSection(index === expandedSection ? null : index);
+    playSection(sections[index]);
+  };
 
-    if (youtubeId) {
-      // IMPORTANT: All playback must go through the universal player; no inline embeds.
-      openPlayer({
-        canonicalTrackId: undefined,
-        provider: 'youtube',
-        providerTrackId: youtubeId,
-        autoplay: true,
-        startSec: section.start_time,
-        context: 'song-sections',
-        title,
-      });
+  const handleLoopClick = (index: number) => {
+    const region = loopRegions[index];
+    if (!region || !youtubeId) return;
+    if (isLoopOf(loop, region)) {
+      clearLoop();
+      return;
     }
+    setExpandedSection(index);
+    playSection(sections[index]);
+    setLoop(region);
   };
 
 
@@ -70,37 +98,69 @@ export function SongSections({ sections, youtubeId, title, className }: SongSect
 
       <div className="space-y-2">
         <div className="grid grid-cols-2 gap-2">
-          {sections.map((section, index) => (
-            <motion.button
-              key={index}
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => handleSectionClick(index)}
-              className={cn(
-                'w-full p-3 rounded-xl transition-all',
-                'bg-gradient-to-br',
-                sectionColors[section.type],
-                'border border-white/10',
-                'hover:border-white/20',
-                expandedSection === index && 'ring-2 ring-primary',
-                'flex items-center justify-between gap-2'
-              )}
-            >
-              <div className="flex items-center gap-2 min-w-0">
-                <span className="text-lg flex-shrink-0">{sectionIcons[section.type]}</span>
-                <div className="flex flex-col items-start min-w-0">
-                  <span className="text-xs font-semibold text-foreground truncate">
-                    {section.label || section.type.charAt(0).toUpperCase() + section.type.slice(1)}
-                  </span>
-                  <span className="text-xs text-muted-foreground">
-                    {formatTime(section.start_time)}
-                    {section.end_time && ` - ${formatTime(section.end_time)}`}
-                  </span>
-                </div>
-              </div>
-              <Play className="w-4 h-4 flex-shrink-0" />
-            </motion.button>
-          ))}
+          {sections.map((section, index) => {
+            const region = loopRegions[index];
+            const looping = isLoopOf(loop, region);
+
+            return (
+              <motion.div
+                key={index}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                className={cn(
+                  'w-full rounded-xl transition-all',
+                  'bg-gradient-to-br',
+                  sectionColors[section.type],
+                  'border border-white/10',
+                  'hover:border-white/20',
+                  (expandedSection === index || looping) && 'ring-2 ring-primary',
+                  'flex items-center gap-1 pr-2'
+                )}
+              >
+                <button
+                  onClick={() => handleSectionClick(index)}
+                  className="flex flex-1 min-w-0 items-center justify-between gap-2 p-3 text-left"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-lg flex-shrink-0">{sectionIcons[section.type]}</span>
+                    <div className="flex flex-col items-start min-w-0">
+                      <span className="text-xs font-semibold text-foreground truncate">
+                        {sectionLabel(section)}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatTime(section.start_time)}
+                        {section.end_time && ` - ${formatTime(section.end_time)}`}
+                      </span>
+                      {keyChanges.get(index)?.map((change) => (
+                        <span
+                          key={change.modulation.timestamp_ms}
+                          title={change.long}
+                          className="mt-1 rounded-full bg-primary/15 px-1.5 py-0.5 text-[10px] font-medium text-primary"
+                        >
+                          {change.short}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <Play className="w-4 h-4 flex-shrink-0" />
+                </button>
+                {region && youtubeId && (
+                  <button
+                    onClick={() => handleLoopClick(index)}
+                    className={cn(
+                      'rounded-full p-1.5 flex-shrink-0 transition-colors',
+                      looping ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:text-foreground hover:bg-white/10'
+                    )}
+                    aria-label={looping ? `Stop looping ${sectionLabel(section)}` : `Loop ${sectionLabel(section)}`}
+                    aria-pressed={looping}
+                    title={looping ? 'Stop loop' : `Loop this ${sectionLabel(section).toLowerCase()}`}
+                  >
+                    <Repeat className="w-4 h-4" />
+                  </button>
+                )}
+              </motion.div>
+            );
+          })}
         </div>
 
         {/* IMPORTANT: No inline YouTube iframes; universal player is the only playback surface. */}
@@ -108,3 +168,26 @@ export function SongSections({ sections, youtubeId, title, className }: SongSect
     </div>
   );
 }
+
+function keyChangesBySection(
+  sections: SongSection[],
+  modulations: Modulation[] | undefined,
+  openingKey: RelativeTonalCenter | null | undefined
+): Map<number, ModulationLabel[]> {
+  const bySection = new Map<number, ModulationLabel[]>();
+  if (!modulations?.length) return bySection;
+
+  const timed = sections.map(section => ({
+    label: section.type,
+    start_ms: section.start_time * 1000,
+    end_ms: section.end_time != null ? section.end_time * 1000 : null,
+  }));
+
+  for (const change of labelModulations(openingKey ?? null, modulations)) {
+    const located = modulationSection(change.modulation, timed);
+    if (!located) continue;
+    bySection.set(located.index, [...(bySection.get(located.index) ?? []), change]);
+  }
+
+  return bySection;
+}
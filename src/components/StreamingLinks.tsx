@@ -1,7 +1,8 @@
 import { motion } from 'framer-motion';
-import { ExternalLink, Smartphone, Music } from 'lucide-react';
+import { ExternalLink, Smartphone, Music, Globe } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { getProviderLinks, openProviderLink, TrackProviderInfo, MusicProvider } from '@/lib/providers';
+import { openProviderLink, TrackProviderInfo, MusicProvider } from '@/lib/providers';
+import { useRegionalLinks } from '@/hooks/api/useRegionalLinks';
 import { cn } from '@/lib/utils';
 
 interface StreamingLinksProps {
@@ -28,7 +29,16 @@ export function StreamingLinks({
   compact = false,
   className,
 }: StreamingLinksProps) {
-  const links = getProviderLinks(track);
+  const { links, blocked, unavailable } = useRegionalLinks(track);
+
+  if (unavailable) {
+    return (
+      <div className={cn('text-muted-foreground text-sm flex items-center gap-2', className)}>
+        <Globe className="w-4 h-4" />
+        <span>Not available in your region</span>
+      </div>
+    );
+  }
 
   if (links.length === 0) {
     return (
@@ -62,6 +72,16 @@ export function StreamingLinks({
             <ExternalLink className="w-3 h-3 opacity-60" />
           </motion.button>
         ))}
+        {blocked.map((link) => (
+          <span
+            key={link.provider}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm bg-muted text-muted-foreground opacity-60"
+            title="Not available in your region"
+          >
+            <Globe className="w-3 h-3" />
+            <span className="line-through">{link.name}</span>
+          </span>
+        ))}
       </div>
     );
   }
@@ -95,6 +115,9 @@ export function StreamingLinks({
               {defaultProvider === link.provider && (
                 <span className="text-xs text-primary">Default</span>
               )}
+              {link.alternateRelease && (
+                <span className="text-xs text-muted-foreground block">Regional release</span>
+              )}
             </div>
 
             <div className="flex items-center gap-2">
@@ -121,6 +144,26 @@ export function StreamingLinks({
             </div>
           </motion.div>
         ))}
+        {blocked.map((link) => (
+          <div
+            key={link.provider}
+            className="flex items-center gap-3 p-3 rounded-xl bg-muted/30 opacity-60"
+          >
+            <div
+              className="w-10 h-10 rounded-full flex items-center justify-center text-xl grayscale"
+              style={{ backgroundColor: `${link.color}20` }}
+            >
+              {providerLogos[link.provider] || '🎶'}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-foreground">{link.name}</p>
+              <span className="text-xs text-muted-foreground flex items-center gap-1">
+                <Globe className="w-3 h-3" />
+                Not available in your region
+              </span>
+            </div>
+          </div>
+        ))}
       </div>
     </div>
   );
@@ -2,7 +2,7 @@ import { motion } from 'framer-motion';
 import { MoreVertical, Album, User, Music2, Link2, ListMusic, PlaySquare } from 'lucide-react';
 import { Track } from '@/types';
 import { useNavigate } from 'react-router-dom';
-import { useQueue } from '@/contexts/QueueContext';
+import { usePlayer } from '@/player/PlayerContext';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -18,7 +18,7 @@ interface TrackMenuProps {
 
 export function TrackMenu({ track }: TrackMenuProps) {
   const navigate = useNavigate();
-  const { playNext, playLater } = useQueue();
+  const { playNext, addToQueue } = usePlayer();
 
   const handleViewAlbum = () => {
     if (track.album) {
@@ -61,7 +61,7 @@ export function TrackMenu({ track }: TrackMenuProps) {
           <PlaySquare className="w-4 h-4 mr-2" />
           Play Next
         </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => playLater(track)}>
+        <DropdownMenuItem onClick={() => addToQueue(track)}>
           <ListMusic className="w-4 h-4 mr-2" />
           Add to Queue
         </DropdownMenuItem>
@@ -6,11 +6,17 @@
  * - No Supabase calls in JSX
  * - Section click = seek (no reload)
  * - Mobile-first horizontal scroll
+ * - Key changes marked on the section they land in
+ * - Loop button per section (A/B loop over its boundaries)
  */
 
 import { useEffect, useState } from 'react';
+import { Repeat } from 'lucide-react';
 import { getTrackSections } from '@/api/trackSections';
+import { getTrackModulations } from '@/api/modulations';
+import { labelModulations, modulationSection, type ModulationLabel } from '@/lib/modulation';
 import { sectionStartSeconds } from '@/lib/sections';
+import { isLoopOf, sectionLoopRegion } from '@/lib/abLoop';
 import { usePlayer } from '@/player/PlayerContext';
 import type { TrackSection, SongSectionType } from '@/types';
 
@@ -31,6 +37,7 @@ const LABEL_MAP: Record<SongSectionType, string> = {
 
 export function TrackSections({ trackId }: TrackSectionsProps) {
   const [sections, setSections] = useState<TrackSection[]>([]);
+  const [keyChanges, setKeyChanges] = useState<Map<string, ModulationLabel[]>>(new Map());
   const [loading, setLoading] = useState(true);
 
   const {
@@ -38,6 +45,9 @@ export function TrackSections({ trackId }: TrackSectionsProps) {
     currentSectionId,
     setCurrentSection,
     isPlaying,
+    loop,
+    setLoop,
+    clearLoop,
   } = usePlayer();
 
   useEffect(() => {
@@ -47,8 +57,12 @@ export function TrackSections({ trackId }: TrackSectionsProps) {
   async function load() {
     setLoading(true);
     try {
-      const data = await getTrackSections(trackId);
+      const [data, timeline] = await Promise.all([
+        getTrackSections(trackId),
+        getTrackModulations(trackId),
+      ]);
       setSections(data);
+      setKeyChanges(keyChangesBySection(data, labelModulations(timeline.opening, timeline.modulations)));
     } catch (err) {
       console.error('Failed to load track sections', err);
     } finally {
@@ -65,27 +79,68 @@ export function TrackSections({ trackId }: TrackSectionsProps) {
       <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
         {sections.map((section) => {
           const active = currentSectionId === section.id;
+          const changes = keyChanges.get(section.id) ?? [];
+          const label = LABEL_MAP[section.label] || section.label;
+          const region = sectionLoopRegion(section, label);
+          const looping = isLoopOf(loop, region);
 
           return (
-            <button
-              key={section.id}
-              onClick={() => {
-                setCurrentSection(section.id);
-                seekTo(sectionStartSeconds(section));
-              }}
-              className={[
-                'flex-shrink-0 rounded-full px-4 py-1.5 text-sm font-medium transition',
-                active
-                  ? 'bg-primary text-primary-foreground'
-                  : 'bg-muted text-muted-foreground hover:bg-muted/80',
-                !isPlaying && 'opacity-90',
-              ].join(' ')}
-            >
-              {LABEL_MAP[section.label] || section.label}
-            </button>
+            <div key={section.id} className="flex flex-shrink-0 items-center gap-1">
+              <button
+                onClick={() => {
+                  setCurrentSection(section.id);
+                  seekTo(sectionStartSeconds(section));
+                }}
+                className={[
+                  'flex-shrink-0 rounded-full px-4 py-1.5 text-sm font-medium transition',
+                  active
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-muted text-muted-foreground hover:bg-muted/80',
+                  !isPlaying && 'opacity-90',
+                ].join(' ')}
+                title={changes.map(change => change.long).join(', ') || undefined}
+              >
+                {label}
+                {changes.map(change => (
+                  <span key={change.modulation.timestamp_ms} className="ml-1.5 text-xs opacity-80">
+                    {change.short}
+                  </span>
+                ))}
+              </button>
+              {region && (
+                <button
+                  onClick={() => (looping ? clearLoop() : setLoop(region))}
+                  className={[
+                    'rounded-full p-1.5 transition',
+                    looping ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:bg-muted',
+                  ].join(' ')}
+                  aria-label={looping ? `Stop looping ${label}` : `Loop ${label}`}
+                  aria-pressed={looping}
+                  title={looping ? 'Stop loop' : `Loop this ${label.toLowerCase()}`}
+                >
+                  <Repeat className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </div>
           );
         })}
       </div>
     </div>
   );
 }
+
+function keyChangesBySection(
+  sections: TrackSection[],
+  labels: ModulationLabel[]
+): Map<string, ModulationLabel[]> {
+  const bySection = new Map<string, ModulationLabel[]>();
+
+  for (const change of labels) {
+    const located = modulationSection(change.modulation, sections);
+    if (!located) continue;
+    const { id } = sections[located.index];
+    bySection.set(id, [...(bySection.get(id) ?? []), change]);
+  }
+
+  return bySection;
+}
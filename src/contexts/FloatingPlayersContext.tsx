@@ -1,5 +1,6 @@
 import { createContext, useContext, ReactNode } from 'react';
 import { usePlayer } from '@/player/PlayerContext';
+import { useTrackSections } from '@/hooks/api/useTrackSections';
 
 interface FloatingPlayerState {
   type: 'spotify' | 'youtube';
@@ -25,6 +26,7 @@ interface FloatingPlayersContextType {
 export function FloatingPlayersProvider({ children }: { children: ReactNode }) {
   // Delegate to PlayerContext to avoid duplicate UI/providers
   const player = usePlayer();
+  const { data: sections } = useTrackSections(player.canonicalTrackId ?? undefined);
 
   const spotifyPlayer = player.spotifyTrackId ? { type: 'spotify' as const, trackId: player.spotifyTrackId } : null;
   const youtubePlayer = player.youtubeTrackId ? { type: 'youtube' as const, trackId: player.youtubeTrackId } : null;
@@ -47,7 +49,7 @@ export function FloatingPlayersProvider({ children }: { children: ReactNode }) {
 
   const setActivePlayer = (p: 'spotify' | 'youtube') => {
     // switchProvider will open the requested provider while closing the other
-    player.switchProvider(p, p === 'spotify' ? player.spotifyTrackId : player.youtubeTrackId, player.canonicalTrackId ?? undefined);
+    player.switchProvider(p, p === 'spotify' ? player.spotifyTrackId : player.youtubeTrackId, player.canonicalTrackId ?? undefined, { sections });
   };
 
   return (
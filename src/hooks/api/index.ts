@@ -4,12 +4,15 @@
  * Central export for all data fetching hooks.
  */
 
+export * from './useChordSubmissions';
 export * from './useComments';
 export * from './useConnections';
 export * from './useFollowing';
 export * from './useNearbyListeners';
 export * from './usePlayEvents';
 export * from './useProfile';
+export * from './useProviderHealth';
+export * from './useRegionalLinks';
 export * from './useSearch';
 export * from './useSpotifyConnect';
 export * from './useSpotifyUser';
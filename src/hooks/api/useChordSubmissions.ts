@@ -0,0 +1,191 @@
+/**
+ * Chord Submissions API Hooks
+ *
+ * Crowd-sourced chord corrections: propose a progression/key, vote on other
+ * proposals, moderate. Every change re-runs the chord-consensus Edge
+ * Function, which promotes the agreed result into harmonic_fingerprints.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { QUERY_KEYS } from '@/lib/constants';
+import type { ChordSubmission } from '@/types';
+import type { ConsensusResult } from '@/lib/chordConsensus';
+
+export type ChordSubmissionWithVotes = ChordSubmission & {
+  chord_submission_votes: Array<{ user_id: string; vote: number }>;
+};
+
+export type PendingChordSubmission = ChordSubmission & {
+  track: { title: string; artist: string } | null;
+};
+
+type ConsensusResponse = ConsensusResult & { promoted: boolean };
+
+async function runConsensus(trackId: string, dryRun = false): Promise<ConsensusResponse | null> {
+  const { data, error } = await supabase.functions.invoke<ConsensusResponse>('chord-consensus', {
+    body: { track_id: trackId, dry_run: dryRun },
+  });
+
+  if (error) {
+    console.error('[ChordSubmissions] Consensus failed:', error);
+    return null;
+  }
+  return data;
+}
+
+export function useChordSubmissions(trackId: string | undefined) {
+  return useQuery({
+    queryKey: ['chord-submissions', trackId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('chord_submissions')
+        .select('*, chord_submission_votes(user_id, vote)')
+        .eq('track_id', trackId!)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.warn('[ChordSubmissions] Fetch failed:', error);
+        return [];
+      }
+      return (data ?? []) as unknown as ChordSubmissionWithVotes[];
+    },
+    enabled: !!trackId,
+  });
+}
+
+/**
+ * Current consensus for a track (read-only; promotion happens on writes)
+ */
+export function useChordConsensus(trackId: string | undefined) {
+  return useQuery({
+    queryKey: ['chord-consensus', trackId],
+    queryFn: () => runConsensus(trackId!, true),
+    enabled: !!trackId,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+export function useSubmitChordCorrection() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({
+      trackId,
+      progression,
+      detectedKey,
+      detectedMode,
+      notes,
+    }: {
+      trackId: string;
+      progression: string[];
+      detectedKey?: string;
+      detectedMode?: 'major' | 'minor';
+      notes?: string;
+    }) => {
+      if (!user) throw new Error('Must be logged in to suggest a correction');
+      if (progression.length === 0 && !detectedKey) {
+        throw new Error('Suggest a progression or a key');
+      }
+
+      const { error } = await supabase
+        .from('chord_submissions')
+        .insert({
+          track_id: trackId,
+          user_id: user.id,
+          progression_roman: progression.length > 0 ? progression : null,
+          detected_key: detectedKey || null,
+          detected_mode: detectedMode || null,
+          notes: notes || null,
+        });
+
+      if (error) throw error;
+      return runConsensus(trackId);
+    },
+    onSuccess: (_, variables) => invalidateTrack(queryClient, variables.trackId),
+  });
+}
+
+export function useVoteOnSubmission() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ trackId, submissionId, vote }: { trackId: string; submissionId: string; vote: 1 | -1 }) => {
+      if (!user) throw new Error('Must be logged in to vote');
+
+      const { error } = await supabase
+        .from('chord_submission_votes')
+        .upsert(
+          { submission_id: submissionId, user_id: user.id, vote },
+          { onConflict: 'submission_id,user_id' }
+        );
+
+      if (error) throw error;
+      return runConsensus(trackId);
+    },
+    onSuccess: (_, variables) => invalidateTrack(queryClient, variables.trackId),
+  });
+}
+
+/**
+ * Pending submissions across all tracks (moderators)
+ */
+export function usePendingChordSubmissions(limit = 50) {
+  return useQuery({
+    queryKey: ['chord-submissions', 'pending', limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('chord_submissions')
+        .select('*, track:track_id(title, artist)')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data ?? []) as unknown as PendingChordSubmission[];
+    },
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+export function useModerateSubmission() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({
+      trackId,
+      submissionId,
+      decision,
+    }: {
+      trackId: string;
+      submissionId: string;
+      decision: 'approved' | 'rejected';
+    }) => {
+      if (!user) throw new Error('Must be logged in to moderate');
+
+      const { error } = await supabase
+        .from('chord_submissions')
+        .update({ status: decision, moderated_by: user.id, moderated_at: new Date().toISOString() })
+        .eq('id', submissionId);
+
+      if (error) throw error;
+      // Approval is decisive: the consensus job promotes it right away
+      return runConsensus(trackId);
+    },
+    onSuccess: (_, variables) => {
+      invalidateTrack(queryClient, variables.trackId);
+      queryClient.invalidateQueries({ queryKey: ['chord-submissions', 'pending'] });
+    },
+  });
+}
+
+function invalidateTrack(queryClient: ReturnType<typeof useQueryClient>, trackId: string) {
+  queryClient.invalidateQueries({ queryKey: ['chord-submissions', trackId] });
+  queryClient.invalidateQueries({ queryKey: ['chord-consensus', trackId] });
+  // Promotion rewrites the track's progression/key
+  queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TRACKS, 'single', trackId] });
+}
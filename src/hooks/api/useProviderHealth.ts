@@ -0,0 +1,32 @@
+/**
+ * React hooks for provider circuit breaker state
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getConnectorRegistry } from '@/lib/unifiedSearch';
+
+/**
+ * Circuit state and latency for every provider, as seen by this client
+ * (local diagnostics: no other client's breakers are reported here)
+ */
+export function useProviderHealth() {
+  return useQuery({
+    queryKey: ['provider-health'],
+    queryFn: () => getConnectorRegistry().getHealth(),
+    refetchInterval: 5000, // Breaker state lives in memory; poll to follow it
+  });
+}
+
+/**
+ * Run every provider's health check; healthy providers close their circuit
+ */
+export function useCheckProviderHealth() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => getConnectorRegistry().checkAll(),
+    onSuccess: (health) => {
+      queryClient.setQueryData(['provider-health'], health);
+    },
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * React hook for market-aware provider links
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { getProviderAvailability } from '@/api/providerAvailability';
+import { getMarket } from '@/lib/preferences';
+import { getProviderTrackIds, type TrackProviderInfo } from '@/lib/providers';
+import { resolveRegionalLinks, type RegionalLinks } from '@/lib/regionalAvailability';
+
+/**
+ * A track's links in the listener's market, with stand-ins for blocked
+ * releases. Falls back to the plain links until (or unless) mappings load
+ */
+export function useRegionalLinks(track: TrackProviderInfo, market: string = getMarket()): RegionalLinks {
+  const ids = getProviderTrackIds(track);
+
+  const { data: records = [] } = useQuery({
+    queryKey: ['provider-availability', ids],
+    queryFn: () => getProviderAvailability(track),
+    enabled: Object.keys(ids).length > 0,
+    staleTime: 1000 * 60 * 60, // Availability changes rarely
+    retry: false,
+  });
+
+  return resolveRegionalLinks(track, records, market);
+}
@@ -5,6 +5,13 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { SearchParams, SearchResult, Track } from '@/types';
 import { unifiedSearch } from '@/lib/unifiedSearch';
+import { compileQuery, type ParsedQuery } from '@/lib/searchQuery';
+import { searchByQuery } from '@/api/advancedSearch';
+import { decodeAudio } from '@/services/audioAnalysis';
+import { searchByRecording, type RecordingMatch, type RecognizedProgression } from '@/services/recordingSearch';
+import { getTracksByIds } from '@/services/trackService';
+import { findByReadings } from '@/services/similarityEngine';
+import type { Mode, RomanChord, SimilarityResult } from '@/types/harmony';
 
 /**
  * Hook for searching tracks across all providers
@@ -12,7 +19,7 @@ import { unifiedSearch } from '@/lib/unifiedSearch';
 export function useUnifiedSearch(params: SearchParams, enabled: boolean = true) {
   return useQuery({
     queryKey: ['search', params.query, params.market, params.limit],
-    queryFn: () => unifiedSearch(params),
+    queryFn: ({ signal }) => unifiedSearch(params, signal),
     enabled: enabled && !!params.query,
     staleTime: 1000 * 60 * 15, // 15 minutes
     gcTime: 1000 * 60 * 30, // 30 minutes (formerly cacheTime)
@@ -28,8 +35,70 @@ export function usePrefetchSearch() {
   return (params: SearchParams) => {
     queryClient.prefetchQuery({
       queryKey: ['search', params.query, params.market, params.limit],
-      queryFn: () => unifiedSearch(params),
+      queryFn: ({ signal }) => unifiedSearch(params, signal),
       staleTime: 1000 * 60 * 15,
     });
   };
 }
+
+/**
+ * Hook for advanced query syntax (key:Am prog:"i-bVII-bVI" ...)
+ */
+export function useAdvancedSearch(parsed: ParsedQuery, enabled: boolean = true, limit: number = 50) {
+  const compiled = compileQuery(parsed);
+
+  return useQuery({
+    queryKey: ['advanced-search', compiled, limit],
+    queryFn: () => searchByQuery(compiled, limit),
+    enabled: enabled && parsed.filters.length > 0,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+export interface TrackMatch<M extends SimilarityResult = SimilarityResult> {
+  track: Track;
+  match: M;
+}
+
+/**
+ * Hook for tracks built on a progression (rotations of the loop match)
+ * Pass every reading of an ambiguous chart (a key and its relative); each
+ * track keeps its best match
+ */
+export function useProgressionSearch(
+  readings: Array<{ progression: RomanChord[]; mode?: Mode }>,
+  enabled: boolean = true
+) {
+  return useQuery({
+    queryKey: ['progression-search', readings.map(r => [r.progression.map(c => c.numeral), r.mode])],
+    queryFn: async () => withTracks(await findByReadings(readings)),
+    enabled: enabled && readings.some(r => r.progression.length > 0),
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+/**
+ * Hook for "play it to find it": a microphone take in, tracks on its loop out
+ */
+export function useRecordingSearch() {
+  return useMutation({
+    mutationFn: async (audio: Blob): Promise<{ recognized: RecognizedProgression; matches: TrackMatch<RecordingMatch>[] }> => {
+      const pcm = await decodeAudio(await audio.arrayBuffer());
+      if (!pcm) throw new Error('Could not decode the recording');
+
+      const { recognized, matches } = await searchByRecording(pcm);
+      return { recognized, matches: await withTracks(matches) };
+    },
+  });
+}
+
+/**
+ * Join similarity results with their tracks, dropping unknown tracks
+ */
+async function withTracks<M extends SimilarityResult>(matches: M[]): Promise<TrackMatch<M>[]> {
+  const tracks = new Map((await getTracksByIds(matches.map(m => m.track_id))).map(t => [t.id, t]));
+  return matches.flatMap(match => {
+    const track = tracks.get(match.track_id);
+    return track ? [{ track, match }] : [];
+  });
+}
@@ -6,11 +6,12 @@
  * For Spotify IDs (spotify:xxx), fetches directly from Spotify API.
  */
 
-import { useQuery } from '@tanstack/react-query';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
 import {
   fetchTracks,
   getTrackById,
   searchTracks,
+  searchCatalog,
   getFeedTracks,
   getDataSourceStatus,
   TrackQuery,
@@ -81,6 +82,24 @@ export function useTrackSearch(
   });
 }
 
+/**
+ * Hook for ranked catalog search with highlighted snippets
+ * Keeps the previous hits on screen while the next query runs
+ */
+export function useCatalogSearch(
+  searchTerm: string,
+  options: { limit?: number; offset?: number } = {},
+  enabled = true
+) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.TRACKS, 'catalog', searchTerm, options],
+    queryFn: () => searchCatalog(searchTerm, options),
+    enabled: enabled && searchTerm.trim().length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
 /**
  * Hook for feed tracks (main page)
  */
@@ -192,8 +192,8 @@ export function useHarmonicAnalysis(
             setConfidence(updatedJob.result.confidence_score);
           }
 
-          // If failed, set error
-          if (updatedJob.status === 'failed') {
+          // If failed (or dead-lettered after retries), set error
+          if (updatedJob.status === 'failed' || updatedJob.status === 'dead_letter') {
             setError(new Error(updatedJob.error_message || 'Analysis failed'));
             setIsError(true);
           }
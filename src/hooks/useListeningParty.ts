@@ -0,0 +1,335 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { usePlayer } from '@/player/PlayerContext';
+import {
+  LISTENING_PARTY_CONFIG,
+  electHost,
+  estimateClockOffset,
+  isFromHost,
+  parsePartyEnvelope,
+  syncAction,
+  type ClockSample,
+  type HostClaim,
+  type PartyHostRecord,
+  type PartyMessage,
+  type PartyState,
+} from '@/lib/listeningParty';
+
+export type PartyRole = 'host' | 'guest';
+
+interface PartyPresence extends HostClaim {
+  display_name: string | null;
+  role: PartyRole | 'listener';
+}
+
+export interface ListeningParty {
+  hostId: string | null; // Null while nobody in the room is hosting
+  hostName: string | null;
+  role: PartyRole | null;
+  hostState: PartyState | null;
+  guestCount: number;
+  driftMs: number | null; // Guest's last measured drift, positive when ahead
+  startParty: () => void;
+  endParty: () => void;
+  joinParty: () => void;
+  leaveParty: () => void;
+}
+
+/**
+ * Listening party for a chat room, over a private Supabase realtime
+ * channel: presence says who is here hosting or following, broadcast
+ * carries the host's player state and the guests' clock pings. Messages
+ * are sent through the send_party_message RPC so each arrives stamped with
+ * its sender. The host is claimed and renewed through claim_party_host and
+ * read back from listening_parties on every presence change; guests'
+ * players follow that host (lib/listeningParty), and a host whose claim
+ * lost steps down. Pass a null user to stay out of the room.
+ */
+export function useListeningParty(roomId: string, userId: string | null, displayName: string | null = null): ListeningParty {
+  const player = usePlayer();
+  const playerRef = useRef(player);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const roleRef = useRef<PartyRole | null>(null);
+  const hostIdRef = useRef<string | null>(null);
+  const membersRef = useRef<PartyPresence[]>([]);
+  const hostRecordRef = useRef<PartyHostRecord | null>(null);
+  const hostLoadRef = useRef(0); // Latest host lookup; older answers are dropped
+  const clockSamplesRef = useRef<ClockSample[]>([]);
+  const lastSeekAtRef = useRef<number | null>(null);
+
+  const [role, setRole] = useState<PartyRole | null>(null);
+  const [hostId, setHostId] = useState<string | null>(null);
+  const [hostName, setHostName] = useState<string | null>(null);
+  const [guestCount, setGuestCount] = useState(0);
+  const [hostState, setHostState] = useState<PartyState | null>(null);
+  const [driftMs, setDriftMs] = useState<number | null>(null);
+
+  useEffect(() => {
+    playerRef.current = player;
+  });
+
+  useEffect(() => {
+    roleRef.current = role;
+  }, [role]);
+
+  // Clients can't broadcast on the private channel; the RPC relays as the signed-in user
+  const send = useCallback(
+    (message: PartyMessage) => {
+      if (!channelRef.current) return;
+      void supabase
+        .rpc('send_party_message' as never, { _room: roomId, _message: message } as never)
+        .then(({ error }) => {
+          if (error) console.warn('Listening party message failed:', error.message);
+        });
+    },
+    [roomId]
+  );
+
+  // The recorded host among the members present; a host whose claim lost steps down
+  const elect = useCallback(() => {
+    const members = membersRef.current;
+    const hostMember = electHost(hostRecordRef.current, members);
+    const host = hostMember?.user_id ?? null;
+    if (host !== hostIdRef.current) setHostState(null);
+    hostIdRef.current = host;
+    setHostId(host);
+    setHostName(hostMember?.display_name ?? null);
+    setGuestCount(members.filter((m) => m.role === 'guest').length);
+    if (!host) {
+      if (roleRef.current === 'guest') setRole(null);
+    } else if (host !== userId && roleRef.current === 'host') {
+      setRole(null);
+    }
+  }, [userId]);
+
+  const loadHost = useCallback(async () => {
+    const request = ++hostLoadRef.current;
+    const { data, error } = await supabase
+      .from('listening_parties')
+      .select('host_id, started_at')
+      .eq('room_id', roomId)
+      .maybeSingle();
+    if (request !== hostLoadRef.current) return;
+    if (error) {
+      console.warn('Listening party host lookup failed:', error.message);
+      return;
+    }
+    hostRecordRef.current = data;
+    elect();
+  }, [roomId, elect]);
+
+  // Claim (or renew) the room as host; the answer is the room's host either way
+  const claimHost = useCallback(async (): Promise<PartyHostRecord | null> => {
+    const { data, error } = await supabase.rpc('claim_party_host' as never, { _room: roomId } as never);
+    if (error) {
+      console.warn('Listening party host claim failed:', error.message);
+      return null;
+    }
+    const [record] = (data ?? []) as PartyHostRecord[];
+    hostLoadRef.current++; // Newer than any lookup in flight
+    hostRecordRef.current = record ?? null;
+    return record ?? null;
+  }, [roomId]);
+
+  // Follow the host: load, play, pause or seek as needed
+  const follow = useCallback((state: PartyState) => {
+    const local = playerRef.current;
+    const now = Date.now();
+    const action = syncAction(
+      {
+        canonicalTrackId: local.canonicalTrackId,
+        providerTrackId: local.trackId,
+        provider: local.provider,
+        positionMs: local.positionMs,
+        isPlaying: local.isPlaying,
+      },
+      state,
+      { now, clockOffsetMs: estimateClockOffset(clockSamplesRef.current), lastSeekAt: lastSeekAtRef.current }
+    );
+
+    switch (action.type) {
+      case 'load':
+        local.openPlayer({
+          canonicalTrackId: state.canonicalTrackId,
+          provider: state.provider,
+          providerTrackId: state.providerTrackId,
+          title: state.title ?? undefined,
+          artist: state.artist ?? undefined,
+          autoplay: true,
+          context: 'listening_party',
+          startSec: action.positionMs / 1000,
+        });
+        lastSeekAtRef.current = now;
+        setDriftMs(null);
+        break;
+      case 'play':
+        local.play(state.canonicalTrackId, state.provider, state.providerTrackId, action.positionMs / 1000);
+        lastSeekAtRef.current = now;
+        break;
+      case 'pause':
+        local.pause();
+        break;
+      case 'seek':
+        local.seekToMs(action.positionMs);
+        lastSeekAtRef.current = now;
+        setDriftMs(action.driftMs);
+        break;
+      case 'none':
+        setDriftMs(action.driftMs);
+        break;
+    }
+  }, []);
+
+  // Room channel: presence for roles, broadcast for state and clock pings
+  useEffect(() => {
+    if (!userId) return;
+    hostLoadRef.current++; // Drop lookups for the room left
+
+    const channel = supabase.channel(`party:${roomId}`, {
+      config: { private: true, broadcast: { self: false }, presence: { key: userId } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        membersRef.current = Object.values(channel.presenceState()).flat() as unknown as PartyPresence[];
+        elect();
+        void loadHost();
+      })
+      .on('broadcast', { event: 'party' }, ({ payload }) => {
+        const envelope = parsePartyEnvelope(payload);
+        if (!envelope || !isFromHost(envelope, hostIdRef.current)) return;
+        const { sender, message } = envelope;
+
+        if (message.type === 'state') {
+          setHostState(message.state);
+          if (roleRef.current === 'guest') follow(message.state);
+        } else if (message.type === 'end') {
+          setHostState(null);
+          if (roleRef.current === 'guest') setRole(null);
+        } else if (message.type === 'ping' && roleRef.current === 'host') {
+          send({ type: 'pong', to: sender, t0: message.t0, hostTime: Date.now() });
+        } else if (message.type === 'pong' && message.to === userId) {
+          const sample = { t0: message.t0, hostTime: message.hostTime, t1: Date.now() };
+          clockSamplesRef.current = [...clockSamplesRef.current, sample].slice(-LISTENING_PARTY_CONFIG.CLOCK_SAMPLES);
+        }
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          void channel.track(presence(userId, displayName, roleRef.current));
+        }
+      });
+
+    channelRef.current = channel;
+    return () => {
+      channelRef.current = null;
+      hostIdRef.current = null;
+      membersRef.current = [];
+      hostRecordRef.current = null;
+      supabase.removeChannel(channel);
+      setRole(null);
+      setHostId(null);
+      setHostState(null);
+    };
+  }, [roomId, userId, displayName, follow, send, elect, loadHost]);
+
+  // Announce role changes to the room (the subscription announces the first)
+  useEffect(() => {
+    if (!userId) return;
+    void channelRef.current?.track(presence(userId, displayName, role));
+  }, [userId, displayName, role, roomId]);
+
+  // Host: renew the claim, stepping down if it was lost (taken over after a lapse)
+  useEffect(() => {
+    if (role !== 'host' || !userId) return;
+
+    const timer = setInterval(() => {
+      void claimHost().then((record) => {
+        if (record && record.host_id !== userId) elect();
+      });
+    }, LISTENING_PARTY_CONFIG.HOST_RENEW_MS);
+    return () => clearInterval(timer);
+  }, [role, userId, claimHost, elect]);
+
+  // Host: broadcast on every player change, and on a heartbeat for late joiners and drift checks
+  const { canonicalTrackId, provider, trackId, isPlaying, seekToSec, trackTitle, trackArtist } = player;
+  useEffect(() => {
+    if (role !== 'host' || !userId) return;
+
+    const broadcastState = () => {
+      const current = playerRef.current;
+      if (!current.provider) return;
+      send({
+        type: 'state',
+        state: {
+          canonicalTrackId: current.canonicalTrackId,
+          provider: current.provider,
+          providerTrackId: current.trackId,
+          title: current.trackTitle ?? current.lastKnownTitle,
+          artist: current.trackArtist ?? current.lastKnownArtist,
+          positionMs: current.positionMs,
+          isPlaying: current.isPlaying,
+          sentAt: Date.now(),
+        },
+      });
+    };
+
+    broadcastState();
+    const timer = setInterval(broadcastState, LISTENING_PARTY_CONFIG.HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [role, userId, send, canonicalTrackId, provider, trackId, isPlaying, seekToSec, trackTitle, trackArtist]);
+
+  // Guest: keep measuring the clock offset while following
+  useEffect(() => {
+    if (role !== 'guest' || !userId) return;
+    clockSamplesRef.current = [];
+    lastSeekAtRef.current = null;
+
+    const ping = () => send({ type: 'ping', t0: Date.now() });
+    ping();
+    const timer = setInterval(ping, LISTENING_PARTY_CONFIG.HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [role, userId, send]);
+
+  const startParty = useCallback(() => {
+    if (!userId || hostId) return;
+    void claimHost().then((record) => {
+      if (record?.host_id === userId) {
+        setRole('host');
+      } else {
+        // Another member claimed the room first
+        elect();
+      }
+    });
+  }, [userId, hostId, claimHost, elect]);
+
+  const endParty = useCallback(() => {
+    if (roleRef.current !== 'host' || !userId) return;
+    send({ type: 'end' });
+    void supabase.rpc('end_party' as never, { _room: roomId } as never).then(({ error }) => {
+      if (error) console.warn('Listening party end failed:', error.message);
+    });
+    setRole(null);
+  }, [userId, roomId, send]);
+
+  const joinParty = useCallback(() => {
+    if (!hostId || hostId === userId) return;
+    setRole('guest');
+    if (hostState) follow(hostState);
+  }, [hostId, userId, hostState, follow]);
+
+  const leaveParty = useCallback(() => {
+    if (roleRef.current === 'guest') setRole(null);
+    setDriftMs(null);
+  }, []);
+
+  return { hostId, hostName, role, hostState, guestCount, driftMs, startParty, endParty, joinParty, leaveParty };
+}
+
+function presence(userId: string, displayName: string | null, role: PartyRole | null): PartyPresence {
+  return {
+    user_id: userId,
+    display_name: displayName,
+    role: role ?? 'listener',
+  };
+}
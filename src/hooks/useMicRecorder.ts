@@ -0,0 +1,140 @@
+/**
+ * useMicRecorder Hook
+ *
+ * Records a take from the microphone with MediaRecorder.
+ * Features:
+ * - Input level (0-1) for a meter while recording
+ * - Stops itself after maxDurationMs
+ * - Releases the microphone when stopped or unmounted
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+type RecorderStatus = 'idle' | 'requesting' | 'recording' | 'error';
+
+interface UseMicRecorderOptions {
+  maxDurationMs: number;
+  onRecorded: (audio: Blob) => void;
+}
+
+interface UseMicRecorderReturn {
+  status: RecorderStatus;
+  level: number; // 0-1 peak level
+  elapsedMs: number;
+  error: string | null;
+  isSupported: boolean;
+  start: () => Promise<void>;
+  stop: () => void;
+}
+
+export function useMicRecorder(options: UseMicRecorderOptions): UseMicRecorderReturn {
+  const { maxDurationMs } = options;
+
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [level, setLevel] = useState(0);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const onRecordedRef = useRef(options.onRecorded);
+  onRecordedRef.current = options.onRecorded;
+
+  const isSupported =
+    typeof navigator !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia &&
+    typeof MediaRecorder !== 'undefined';
+
+  const release = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close().catch(() => undefined);
+    audioContextRef.current = null;
+    setLevel(0);
+  }, []);
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+  }, []);
+
+  const start = useCallback(async () => {
+    if (!isSupported || recorderRef.current?.state === 'recording') return;
+
+    setError(null);
+    setElapsedMs(0);
+    setStatus('requesting');
+
+    try {
+      // Raw signal: voice processing smears chords
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+      });
+      streamRef.current = stream;
+
+      const chunks: Blob[] = [];
+      const recorder = new MediaRecorder(stream);
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        release();
+        recorderRef.current = null;
+        setStatus('idle');
+        onRecordedRef.current(new Blob(chunks, { type: recorder.mimeType }));
+      };
+
+      // Level meter and auto-stop
+      const audioContext = new AudioContext();
+      audioContextRef.current = audioContext;
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 1024;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      const buffer = new Float32Array(analyser.fftSize);
+      const startedAt = performance.now();
+
+      const tick = () => {
+        analyser.getFloatTimeDomainData(buffer);
+        setLevel(buffer.reduce((peak, sample) => Math.max(peak, Math.abs(sample)), 0));
+
+        const elapsed = performance.now() - startedAt;
+        setElapsedMs(elapsed);
+        if (elapsed >= maxDurationMs) {
+          stop();
+          return;
+        }
+        frameRef.current = requestAnimationFrame(tick);
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setStatus('recording');
+      frameRef.current = requestAnimationFrame(tick);
+    } catch (err) {
+      release();
+      setStatus('error');
+      setError(
+        err instanceof DOMException && err.name === 'NotAllowedError'
+          ? 'Microphone access was denied'
+          : 'Could not start the microphone'
+      );
+    }
+  }, [isSupported, maxDurationMs, release, stop]);
+
+  // Release the microphone on unmount without delivering the take
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder) {
+      recorder.onstop = null;
+      if (recorder.state === 'recording') recorder.stop();
+    }
+    release();
+  }, [release]);
+
+  return { status, level, elapsedMs, error, isSupported, start, stop };
+}
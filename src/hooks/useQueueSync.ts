@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchSavedQueue, saveQueue } from '@/api/queue';
+import { QUEUE_CONFIG, parseQueue, type QueueSnapshot } from '@/lib/queueModel';
+
+const STORAGE_KEY = 'clade_queue_v2';
+const LEGACY_STORAGE_KEY = 'clade_queue_v1';
+const CHANNEL_NAME = 'clade-queue';
+
+/**
+ * Keeps the play queue the same everywhere it lives: localStorage (reloads),
+ * other tabs (BroadcastChannel) and the server (other devices).
+ * Local edits go out; copies coming in, including the server's when a save
+ * loses to a newer one, go to `onRemote`, which keeps the newer one.
+ */
+export function useQueueSync(queue: QueueSnapshot, onRemote: (queue: QueueSnapshot) => void) {
+  const queueRef = useRef(queue);
+  const onRemoteRef = useRef(onRemote);
+  const remoteRef = useRef<QueueSnapshot | null>(null); // Last copy received, not to be sent back
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  useEffect(() => {
+    queueRef.current = queue;
+    onRemoteRef.current = onRemote;
+  });
+
+  const receive = useCallback((incoming: QueueSnapshot | null) => {
+    if (!incoming) return;
+    remoteRef.current = incoming;
+    onRemoteRef.current(incoming);
+  }, []);
+
+  useEffect(() => {
+    receive(readStoredQueue());
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      const channel = new BroadcastChannel(CHANNEL_NAME);
+      channel.onmessage = (event: MessageEvent) => receive(parseQueue(event.data));
+      channelRef.current = channel;
+    }
+
+    const pull = () => {
+      fetchSavedQueue()
+        .then((saved) => {
+          const local = queueRef.current;
+          if (saved && saved.updatedAt >= local.updatedAt) {
+            receive(saved);
+          } else if (local.updatedAt > 0) {
+            // Edited here since the last save (offline, or before signing in)
+            return saveQueue(local).then(receive);
+          }
+        })
+        .catch((err) => console.warn('[Queue] sync with server failed:', err));
+    };
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'INITIAL_SESSION' || event === 'SIGNED_IN') pull();
+    });
+
+    // Pick up edits made on another device while this tab was in the background
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') pull();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      subscription.unsubscribe();
+      document.removeEventListener('visibilitychange', handleVisibility);
+      channelRef.current?.close();
+      channelRef.current = null;
+    };
+  }, [receive]);
+
+  // Send local edits out; the server save waits for edits to settle
+  useEffect(() => {
+    if (queue.updatedAt === 0) return; // Nothing edited yet
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    } catch (err) {
+      console.error('Failed to persist queue to storage', err);
+    }
+    if (queue.updatedAt === remoteRef.current?.updatedAt) return; // A copy taken in (with our index), not an edit
+
+    channelRef.current?.postMessage(queue);
+    const timer = setTimeout(() => {
+      // Another device saved a newer queue in the meantime: take it instead
+      saveQueue(queue)
+        .then(receive)
+        .catch((err) => console.warn('[Queue] save failed:', err));
+    }, QUEUE_CONFIG.SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [queue, receive]);
+}
+
+// The queue saved by the last session, from the old format when that's all there is
+function readStoredQueue(): QueueSnapshot | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY) ?? localStorage.getItem(LEGACY_STORAGE_KEY);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    const stored = raw ? parseQueue(JSON.parse(raw)) : null;
+    return stored?.entries.length ? stored : null;
+  } catch (err) {
+    console.error('Failed to hydrate queue from storage', err);
+    return null;
+  }
+}
@@ -14,14 +14,46 @@ export type Database = {
   }
   public: {
     Tables: {
+      chord_submission_votes: {
+        Row: {
+          created_at: string
+          submission_id: string
+          user_id: string
+          vote: number
+        }
+        Insert: {
+          created_at?: string
+          submission_id: string
+          user_id: string
+          vote: number
+        }
+        Update: {
+          created_at?: string
+          submission_id?: string
+          user_id?: string
+          vote?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chord_submission_votes_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "chord_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chord_submissions: {
         Row: {
           created_at: string
           detected_key: string | null
           detected_mode: string | null
           id: string
+          moderated_at: string | null
           moderated_by: string | null
+          notes: string | null
           progression_roman: string[] | null
+          promoted_at: string | null
           status: string
           track_id: string
           user_id: string
@@ -31,8 +63,11 @@ export type Database = {
           detected_key?: string | null
           detected_mode?: string | null
           id?: string
+          moderated_at?: string | null
           moderated_by?: string | null
+          notes?: string | null
           progression_roman?: string[] | null
+          promoted_at?: string | null
           status?: string
           track_id: string
           user_id: string
@@ -42,8 +77,11 @@ export type Database = {
           detected_key?: string | null
           detected_mode?: string | null
           id?: string
+          moderated_at?: string | null
           moderated_by?: string | null
+          notes?: string | null
           progression_roman?: string[] | null
+          promoted_at?: string | null
           status?: string
           track_id?: string
           user_id?: string
@@ -289,14 +327,22 @@ export type Database = {
           duration_ms: number | null
           energy: number | null
           external_id: string
+          genre_description: string | null
+          historical_notes: string | null
           id: string
           isrc: string | null
+          label: string | null
           loop_length_bars: number | null
           preview_url: string | null
+          producers: string[] | null
           progression_raw: string[] | null
           progression_roman: string[] | null
           provider: string
+          release_date: string | null
+          search_text: string | null
+          search_vector: unknown
           sections: Json | null
+          songwriters: string[] | null
           spotify_id: string | null
           title: string
           updated_at: string
@@ -320,14 +366,22 @@ export type Database = {
           duration_ms?: number | null
           energy?: number | null
           external_id: string
+          genre_description?: string | null
+          historical_notes?: string | null
           id?: string
           isrc?: string | null
+          label?: string | null
           loop_length_bars?: number | null
           preview_url?: string | null
+          producers?: string[] | null
           progression_raw?: string[] | null
           progression_roman?: string[] | null
           provider: string
+          release_date?: string | null
+          search_text?: string | null
+          search_vector?: unknown
           sections?: Json | null
+          songwriters?: string[] | null
           spotify_id?: string | null
           title: string
           updated_at?: string
@@ -351,14 +405,22 @@ export type Database = {
           duration_ms?: number | null
           energy?: number | null
           external_id?: string
+          genre_description?: string | null
+          historical_notes?: string | null
           id?: string
           isrc?: string | null
+          label?: string | null
           loop_length_bars?: number | null
           preview_url?: string | null
+          producers?: string[] | null
           progression_raw?: string[] | null
           progression_roman?: string[] | null
           provider?: string
+          release_date?: string | null
+          search_text?: string | null
+          search_vector?: unknown
           sections?: Json | null
+          songwriters?: string[] | null
           spotify_id?: string | null
           title?: string
           updated_at?: string
@@ -537,88 +599,272 @@ export type Database = {
         }
         Relationships: []
       }
+      listening_parties: {
+        Row: {
+          host_id: string
+          renewed_at: string
+          room_id: string
+          started_at: string
+        }
+        Insert: {
+          host_id: string
+          renewed_at?: string
+          room_id: string
+          started_at?: string
+        }
+        Update: {
+          host_id?: string
+          renewed_at?: string
+          room_id?: string
+          started_at?: string
+        }
+        Relationships: []
+      }
+      user_queues: {
+        Row: {
+          entries: Json
+          queue_index: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          entries?: Json
+          queue_index?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          entries?: Json
+          queue_index?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       harmonic_fingerprints: {
         Row: {
+          analysis_method: string | null
           analysis_timestamp: string
           analysis_version: string
           audio_hash: string | null
+          audio_hash_bands: string[] | null
           borrowed_chords: Json | null
           cadence_type: string
+          chromaprint: string | null
           confidence_score: number
           created_at: string
           detected_key: string | null
           detected_mode: string | null
+          embedding: number[] | null
+          embedding_buckets: string[] | null
+          embedding_version: string | null
           id: string
           is_provisional: boolean
           isrc: string | null
           loop_length_bars: number
           modal_color: string | null
+          modulations: Json | null
+          provenance: Json | null
           reanalyze_after: string
           reuse_until: string
+          roman_degrees: string[]
           roman_progression: Json
           section_progressions: Json | null
+          tempo_bpm: number | null
           tonal_center: Json
           track_id: string
           updated_at: string
         }
         Insert: {
+          analysis_method?: string | null
           analysis_timestamp?: string
           analysis_version: string
           audio_hash?: string | null
+          audio_hash_bands?: string[] | null
           borrowed_chords?: Json | null
           cadence_type: string
+          chromaprint?: string | null
           confidence_score: number
           created_at?: string
           detected_key?: string | null
           detected_mode?: string | null
+          embedding?: number[] | null
+          embedding_buckets?: string[] | null
+          embedding_version?: string | null
           id?: string
           is_provisional?: boolean
           isrc?: string | null
           loop_length_bars?: number
           modal_color?: string | null
+          modulations?: Json | null
+          provenance?: Json | null
           reanalyze_after?: string
           reuse_until?: string
+          roman_degrees?: string[]
           roman_progression?: Json
           section_progressions?: Json | null
+          tempo_bpm?: number | null
           tonal_center: Json
           track_id: string
           updated_at?: string
         }
         Update: {
+          analysis_method?: string | null
           analysis_timestamp?: string
           analysis_version?: string
           audio_hash?: string | null
+          audio_hash_bands?: string[] | null
           borrowed_chords?: Json | null
           cadence_type?: string
+          chromaprint?: string | null
           confidence_score?: number
           created_at?: string
           detected_key?: string | null
           detected_mode?: string | null
+          embedding?: number[] | null
+          embedding_buckets?: string[] | null
+          embedding_version?: string | null
           id?: string
           is_provisional?: boolean
           isrc?: string | null
           loop_length_bars?: number
           modal_color?: string | null
+          modulations?: Json | null
+          provenance?: Json | null
           reanalyze_after?: string
           reuse_until?: string
+          roman_degrees?: string[]
           roman_progression?: Json
           section_progressions?: Json | null
+          tempo_bpm?: number | null
           tonal_center?: Json
           track_id?: string
           updated_at?: string
         }
         Relationships: []
       }
+      harmonic_cluster_members: {
+        Row: {
+          assigned_at: string
+          cluster_id: string
+          distance: number
+          track_id: string
+        }
+        Insert: {
+          assigned_at?: string
+          cluster_id: string
+          distance?: number
+          track_id: string
+        }
+        Update: {
+          assigned_at?: string
+          cluster_id?: string
+          distance?: number
+          track_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "harmonic_cluster_members_cluster_id_fkey"
+            columns: ["cluster_id"]
+            isOneToOne: false
+            referencedRelation: "harmonic_clusters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      harmonic_clusters: {
+        Row: {
+          avg_confidence: number
+          built_at: string
+          created_at: string
+          id: string
+          member_count: number
+          name: string
+          prototype_key: string
+          prototype_progression: Json
+          updated_at: string
+        }
+        Insert: {
+          avg_confidence?: number
+          built_at?: string
+          created_at?: string
+          id?: string
+          member_count?: number
+          name: string
+          prototype_key: string
+          prototype_progression: Json
+          updated_at?: string
+        }
+        Update: {
+          avg_confidence?: number
+          built_at?: string
+          created_at?: string
+          id?: string
+          member_count?: number
+          name?: string
+          prototype_key?: string
+          prototype_progression?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      harmonic_fingerprint_aliases: {
+        Row: {
+          audio_hash: string | null
+          bit_error_rate: number | null
+          created_at: string
+          fingerprint_id: string
+          hash_distance: number | null
+          track_id: string
+          updated_at: string
+        }
+        Insert: {
+          audio_hash?: string | null
+          bit_error_rate?: number | null
+          created_at?: string
+          fingerprint_id: string
+          hash_distance?: number | null
+          track_id: string
+          updated_at?: string
+        }
+        Update: {
+          audio_hash?: string | null
+          bit_error_rate?: number | null
+          created_at?: string
+          fingerprint_id?: string
+          hash_distance?: number | null
+          track_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "harmonic_fingerprint_aliases_fingerprint_id_fkey"
+            columns: ["fingerprint_id"]
+            isOneToOne: false
+            referencedRelation: "harmonic_fingerprints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       analysis_jobs: {
         Row: {
           analysis_version: string
+          attempts: number
           audio_hash: string | null
+          audio_url: string | null
           completed_at: string | null
           created_at: string
           error_message: string | null
           id: string
           isrc: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          next_attempt_at: string
+          previous_version: string | null
+          priority: string
           progress: number
+          reason: string
           result: Json | null
           started_at: string
           status: string
@@ -627,13 +873,22 @@ export type Database = {
         }
         Insert: {
           analysis_version: string
+          attempts?: number
           audio_hash?: string | null
+          audio_url?: string | null
           completed_at?: string | null
           created_at?: string
           error_message?: string | null
           id?: string
           isrc?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          previous_version?: string | null
+          priority?: string
           progress?: number
+          reason?: string
           result?: Json | null
           started_at?: string
           status: string
@@ -642,13 +897,22 @@ export type Database = {
         }
         Update: {
           analysis_version?: string
+          attempts?: number
           audio_hash?: string | null
+          audio_url?: string | null
           completed_at?: string | null
           created_at?: string
           error_message?: string | null
           id?: string
           isrc?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          previous_version?: string | null
+          priority?: string
           progress?: number
+          reason?: string
           result?: Json | null
           started_at?: string
           status?: string
@@ -657,6 +921,158 @@ export type Database = {
         }
         Relationships: []
       }
+      analysis_version_diffs: {
+        Row: {
+          applied: boolean
+          created_at: string
+          from_version: string
+          id: string
+          job_id: string | null
+          key_changed: boolean
+          mode_changed: boolean
+          next_confidence: number
+          next_key: string | null
+          next_mode: string | null
+          next_progression: string[]
+          previous_confidence: number
+          previous_key: string | null
+          previous_mode: string | null
+          previous_progression: string[]
+          progression_changed: boolean
+          to_version: string
+          track_id: string
+        }
+        Insert: {
+          applied: boolean
+          created_at?: string
+          from_version: string
+          id?: string
+          job_id?: string | null
+          key_changed?: boolean
+          mode_changed?: boolean
+          next_confidence: number
+          next_key?: string | null
+          next_mode?: string | null
+          next_progression?: string[]
+          previous_confidence: number
+          previous_key?: string | null
+          previous_mode?: string | null
+          previous_progression?: string[]
+          progression_changed?: boolean
+          to_version: string
+          track_id: string
+        }
+        Update: {
+          applied?: boolean
+          created_at?: string
+          from_version?: string
+          id?: string
+          job_id?: string | null
+          key_changed?: boolean
+          mode_changed?: boolean
+          next_confidence?: number
+          next_key?: string | null
+          next_mode?: string | null
+          next_progression?: string[]
+          previous_confidence?: number
+          previous_key?: string | null
+          previous_mode?: string | null
+          previous_progression?: string[]
+          progression_changed?: boolean
+          to_version?: string
+          track_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_version_diffs_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      track_id_mappings: {
+        Row: {
+          artist: string | null
+          availability_checked_at: string | null
+          available_markets: string[] | null
+          canonical_id: string
+          confidence: number
+          created_at: string
+          duration_ms: number | null
+          id: string
+          isrc: string | null
+          match_method: string
+          provider: string
+          provider_track_id: string
+          title: string
+          updated_at: string
+          version: string | null
+        }
+        Insert: {
+          artist?: string | null
+          availability_checked_at?: string | null
+          available_markets?: string[] | null
+          canonical_id: string
+          confidence?: number
+          created_at?: string
+          duration_ms?: number | null
+          id?: string
+          isrc?: string | null
+          match_method: string
+          provider: string
+          provider_track_id: string
+          title: string
+          updated_at?: string
+          version?: string | null
+        }
+        Update: {
+          artist?: string | null
+          availability_checked_at?: string | null
+          available_markets?: string[] | null
+          canonical_id?: string
+          confidence?: number
+          created_at?: string
+          duration_ms?: number | null
+          id?: string
+          isrc?: string | null
+          match_method?: string
+          provider?: string
+          provider_track_id?: string
+          title?: string
+          updated_at?: string
+          version?: string | null
+        }
+        Relationships: []
+      }
+      cache_entries: {
+        Row: {
+          canonical_ids: string[]
+          created_at: string | null
+          expires_at: string
+          fresh_until: string | null
+          key: string
+          value: Json
+        }
+        Insert: {
+          canonical_ids?: string[]
+          created_at?: string | null
+          expires_at: string
+          fresh_until?: string | null
+          key: string
+          value: Json
+        }
+        Update: {
+          canonical_ids?: string[]
+          created_at?: string | null
+          expires_at?: string
+          fresh_until?: string | null
+          key?: string
+          value?: Json
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
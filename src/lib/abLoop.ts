@@ -0,0 +1,187 @@
+/**
+ * A/B Loop
+ *
+ * Practice loops over a stretch of a track: a section (TrackSection or
+ * SongSection boundaries) or two arbitrary markers. Provider-agnostic: the
+ * player feeds playback positions to `loopStep`, which says when to seek
+ * back; the player re-seeks through the active provider's controls.
+ *
+ * - Pre-roll starts each pass a little before A, to count in
+ * - A loop count stops looping after N passes and lets the track play on
+ * - Scrubbing well past B leaves the loop waiting until playback is back
+ *   inside it, rather than yanking the listener back
+ * - A seek that never lands (a player not ready yet, a 30 s preview that
+ *   ends before A) is re-issued a couple of times, then the loop is cleared
+ */
+
+import type { SongSection, TrackSection } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const AB_LOOP_CONFIG = {
+  MIN_LENGTH_MS: 1000,
+  MAX_PRE_ROLL_MS: 8000,
+  END_TOLERANCE_MS: 150, // Positions arrive every ~100ms; seek slightly early rather than late
+  SCRUB_TOLERANCE_MS: 1500, // Further past B than this was a seek, not playback
+  SEEK_TIMEOUT_MS: 3000, // A seek not landed by then is re-issued
+  MAX_SEEK_RETRIES: 2, // Then the loop is given up
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LoopRegion {
+  startMs: number; // A
+  endMs: number; // B
+  label?: string; // e.g. "Chorus"
+  sectionId?: string | null; // TrackSection the loop was made from
+}
+
+export interface LoopOptions {
+  preRollMs?: number;
+  maxLoops?: number | null; // Passes to play; null loops until cleared
+}
+
+export interface AbLoop extends LoopRegion {
+  preRollMs: number;
+  maxLoops: number | null;
+  completed: number; // Passes finished so far
+  awaitingSeek: boolean; // Seek issued, provider not there yet
+  seekIssuedAt: number; // Epoch ms of the pending seek
+  seekRetries: number; // Re-issues of the pending seek
+}
+
+export interface LoopStep {
+  loop: AbLoop | null; // Same object when nothing changed; null when finished
+  seekToMs: number | null;
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Start a loop over a region
+ * Throws when the region is too short to loop
+ */
+export function createLoop(region: LoopRegion, options: LoopOptions = {}, now: number = Date.now()): AbLoop {
+  const startMs = Math.max(0, Math.min(region.startMs, region.endMs));
+  const endMs = Math.max(region.startMs, region.endMs); // Markers may be set B first
+
+  if (endMs - startMs < AB_LOOP_CONFIG.MIN_LENGTH_MS) {
+    throw new Error(`Loop must be at least ${AB_LOOP_CONFIG.MIN_LENGTH_MS / 1000} second long`);
+  }
+
+  return {
+    ...region,
+    startMs,
+    endMs,
+    preRollMs: clampPreRoll(options.preRollMs ?? 0),
+    maxLoops: normalizeMaxLoops(options.maxLoops ?? null),
+    completed: 0,
+    awaitingSeek: true, // The player seeks to the first pass on start
+    seekIssuedAt: now,
+    seekRetries: 0,
+  };
+}
+
+/**
+ * Change pre-roll or loop count on a running loop, keeping its progress
+ */
+export function updateLoop(loop: AbLoop, options: LoopOptions): AbLoop {
+  return {
+    ...loop,
+    preRollMs: options.preRollMs === undefined ? loop.preRollMs : clampPreRoll(options.preRollMs),
+    maxLoops: options.maxLoops === undefined ? loop.maxLoops : normalizeMaxLoops(options.maxLoops),
+  };
+}
+
+/**
+ * Where each pass starts: A minus pre-roll
+ */
+export function loopStartMs(loop: AbLoop): number {
+  return Math.max(0, loop.startMs - loop.preRollMs);
+}
+
+/**
+ * Advance a loop with the latest playback position
+ * While a seek is pending, a timed-out seek is re-issued, and the loop ends
+ * (null) once the retries are spent
+ */
+export function loopStep(loop: AbLoop, positionMs: number, now: number = Date.now()): LoopStep {
+  const { END_TOLERANCE_MS, SCRUB_TOLERANCE_MS, SEEK_TIMEOUT_MS, MAX_SEEK_RETRIES } = AB_LOOP_CONFIG;
+  const loopEnd = loop.endMs - END_TOLERANCE_MS;
+
+  if (loop.awaitingSeek) {
+    const arrived = positionMs >= loopStartMs(loop) - END_TOLERANCE_MS && positionMs < loopEnd;
+    if (arrived) return { loop: { ...loop, awaitingSeek: false }, seekToMs: null };
+    if (now - loop.seekIssuedAt < SEEK_TIMEOUT_MS) return { loop, seekToMs: null };
+    if (loop.seekRetries >= MAX_SEEK_RETRIES) return { loop: null, seekToMs: null };
+
+    return {
+      loop: { ...loop, seekIssuedAt: now, seekRetries: loop.seekRetries + 1 },
+      seekToMs: loopStartMs(loop),
+    };
+  }
+
+  if (positionMs < loopEnd || positionMs > loop.endMs + SCRUB_TOLERANCE_MS) {
+    return { loop, seekToMs: null };
+  }
+
+  const completed = loop.completed + 1;
+  if (loop.maxLoops !== null && completed >= loop.maxLoops) {
+    return { loop: null, seekToMs: null };
+  }
+
+  return {
+    loop: { ...loop, completed, awaitingSeek: true, seekIssuedAt: now, seekRetries: 0 },
+    seekToMs: loopStartMs(loop),
+  };
+}
+
+/**
+ * Loop region for a section from the database or the legacy inline format
+ * Inline sections without an end loop to the next section's start; null
+ * when the section has no end or is too short to loop
+ */
+export function sectionLoopRegion(
+  section: TrackSection | SongSection,
+  label?: string,
+  nextStartSec?: number
+): LoopRegion | null {
+  const region: LoopRegion | null = 'start_ms' in section
+    ? { startMs: section.start_ms, endMs: section.end_ms, label: label ?? section.label, sectionId: section.id }
+    : toInlineRegion(section, label ?? section.label ?? section.type, section.end_time ?? nextStartSec);
+
+  if (!region || region.endMs - region.startMs < AB_LOOP_CONFIG.MIN_LENGTH_MS) return null;
+  return region;
+}
+
+/**
+ * Whether a loop runs over the given region
+ */
+export function isLoopOf(loop: AbLoop | null, region: LoopRegion | null): boolean {
+  if (!loop || !region) return false;
+  if (region.sectionId) return loop.sectionId === region.sectionId;
+  return loop.startMs === region.startMs && loop.endMs === region.endMs;
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+function clampPreRoll(preRollMs: number): number {
+  return Math.max(0, Math.min(preRollMs, AB_LOOP_CONFIG.MAX_PRE_ROLL_MS));
+}
+
+function toInlineRegion(section: SongSection, label: string, endSec: number | undefined): LoopRegion | null {
+  if (endSec === undefined) return null;
+  return { startMs: section.start_time * 1000, endMs: endSec * 1000, label, sectionId: null };
+}
+
+function normalizeMaxLoops(maxLoops: number | null): number | null {
+  return maxLoops !== null && maxLoops > 0 ? Math.floor(maxLoops) : null;
+}
@@ -0,0 +1,477 @@
+/**
+ * Canonical Track Resolution
+ *
+ * Groups provider search results that are the same recording, so unified
+ * search shows one track with a link per provider.
+ *
+ * MATCHING:
+ * 1. Known cross-provider mappings (persisted by earlier searches) win
+ * 2. Equal ISRCs are the same recording. Different ISRCs from the same
+ *    registrant and year are sibling recordings (album vs radio edit) and
+ *    never merge; otherwise ISRCs are not trusted either way (reissues)
+ * 3. Fuzzy: titles with version suffixes stripped ("Remastered 2011",
+ *    "Live", "feat. X") must agree by token-set similarity, artists must
+ *    overlap, versions must be the same recording and durations must be
+ *    within tolerance
+ *
+ * Candidates come from an inverted index on title tokens, and a track is
+ * compared with every member of a candidate group, not only the first.
+ */
+
+import type { MusicProvider, TrackVersion, TrackVersionKind } from '@/types';
+import type { NormalizedTrack } from './connectors/base';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const CANONICAL_CONFIG = {
+  TITLE_SIMILARITY: 0.85,
+  ARTIST_SIMILARITY: 0.7,
+  DURATION_TOLERANCE_MS: 3000, // Remasters often differ by a second or two
+  // Country (2) + registrant (3) + year (2)
+  ISRC_RELEASE_PREFIX: 7,
+} as const;
+
+// Versions that keep the recording; they merge with the unmarked original
+const SAME_RECORDING_VERSIONS: TrackVersionKind[] = ['remaster'];
+
+const VERSION_PATTERNS: Array<{ kind: TrackVersionKind; pattern: RegExp }> = [
+  { kind: 'radio_edit', pattern: /\bradio (edit|version|mix)\b/i },
+  { kind: 'extended', pattern: /\bextended\b/i },
+  { kind: 'remaster', pattern: /\bremaster(ed)?\b/i },
+  { kind: 'live', pattern: /\blive\b/i },
+  { kind: 'acoustic', pattern: /\b(acoustic|unplugged)\b/i },
+  { kind: 'instrumental', pattern: /\binstrumental\b/i },
+  { kind: 'demo', pattern: /\bdemo\b/i },
+  { kind: 'mono', pattern: /\bmono\b/i },
+  { kind: 'remix', pattern: /\b(remix|rework|re-?edit|dub|(?<!original )mix)\b/i },
+];
+
+// Bracketed noise from video titles and store listings
+const NOISE_PATTERN = /^(official( music| lyric)? (video|audio)|lyric video|lyrics|audio|video|hd|hq|4k|visualizer|explicit|clean|original mix)$/i;
+const FEATURE_PATTERN = /^(feat\.?|ft\.?|featuring|with)\s+(.+)$/i;
+const TRAILING_FEATURE_PATTERN = /\s+(?:feat\.?|ft\.?|featuring)\s+(.+)$/i;
+const ARTIST_SUFFIX_PATTERN = /(\s+-\s+topic|vevo|\s+official)$/i;
+
+const STOPWORDS = new Set(['the']);
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ParsedTitle {
+  base: string; // Title without version, featured artists or noise
+  version: TrackVersion | null;
+  featured: string[];
+}
+
+export type ResolutionMethod = 'mapping' | 'isrc' | 'fuzzy' | 'new';
+
+export interface TrackMatch {
+  method: 'isrc' | 'fuzzy';
+  confidence: number;
+}
+
+export interface CanonicalMember {
+  track: NormalizedTrack;
+  parsed: ParsedTitle;
+  method: ResolutionMethod; // How the track joined its group
+  confidence: number;
+}
+
+export interface CanonicalGroup {
+  canonical_id: string;
+  members: CanonicalMember[];
+}
+
+export type IsrcRelation = 'same' | 'sibling' | 'unrelated' | 'unknown';
+
+// A provider track's row in track_id_mappings
+export interface TrackMappingRecord {
+  canonical_id: string;
+  provider: MusicProvider;
+  provider_track_id: string;
+  isrc: string | null;
+  title: string; // Base title
+  artist: string | null;
+  version: TrackVersionKind | null;
+  duration_ms: number | null;
+  match_method: Exclude<ResolutionMethod, 'mapping'>;
+  confidence: number;
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Split a title into its base, version and featured artists
+ * "Song (Remastered 2011)" -> Song + remaster 2011; "Song - Live" -> live
+ */
+export function parseTitle(title: string): ParsedTitle {
+  const featured: string[] = [];
+  const versions: TrackVersion[] = [];
+  let base = title;
+
+  // Bracketed segments: "(Remastered 2011)", "[feat. X]", "(Official Video)"
+  base = base.replace(/\s*[([]([^)\]]+)[)\]]/g, (segment, inner: string) => {
+    const text = inner.trim();
+    const feature = text.match(FEATURE_PATTERN);
+    if (feature) {
+      featured.push(...splitArtists(feature[2]));
+      return '';
+    }
+    if (NOISE_PATTERN.test(text)) return '';
+
+    const version = classifyVersion(text);
+    if (version) {
+      versions.push(version);
+      return '';
+    }
+    return segment; // Part of the title, e.g. "(Part 2)"
+  });
+
+  // Trailing " - Live", " - 2011 Remaster"
+  const parts = base.split(/\s+-\s+/);
+  while (parts.length > 1) {
+    const version = classifyVersion(parts[parts.length - 1].trim());
+    if (!version) break;
+    versions.push(version);
+    parts.pop();
+  }
+  base = parts.join(' - ');
+
+  const trailing = base.match(TRAILING_FEATURE_PATTERN);
+  if (trailing) {
+    featured.push(...splitArtists(trailing[1]));
+    base = base.slice(0, trailing.index);
+  }
+
+  // A recording-changing version outranks a remaster ("Live - Remastered")
+  const version = versions.find(v => !SAME_RECORDING_VERSIONS.includes(v.kind)) ?? versions[0] ?? null;
+
+  return { base: base.replace(/\s+/g, ' ').trim() || title.trim(), version, featured };
+}
+
+/**
+ * Token-set similarity (Dice coefficient over normalized word sets)
+ */
+export function tokenSetSimilarity(a: string, b: string): number {
+  return diceSimilarity(new Set(tokenize(a)), new Set(tokenize(b)));
+}
+
+/**
+ * Artist overlap; a shorter multi-word credit contained in the longer one
+ * counts as a match ("Daft Punk" vs "Daft Punk, Pharrell Williams")
+ */
+export function artistSimilarity(a: string[], b: string[]): number {
+  const tokensA = new Set(a.flatMap(artist => tokenize(cleanArtist(artist))));
+  const tokensB = new Set(b.flatMap(artist => tokenize(cleanArtist(artist))));
+  const dice = diceSimilarity(tokensA, tokensB);
+
+  const smaller = Math.min(tokensA.size, tokensB.size);
+  if (smaller < 2) return dice;
+
+  return Math.max(dice, intersectionSize(tokensA, tokensB) / smaller);
+}
+
+/**
+ * How two ISRCs relate (CC-XXX-YY-NNNNN)
+ */
+export function isrcRelation(a?: string | null, b?: string | null): IsrcRelation {
+  const isrcA = normalizeIsrc(a);
+  const isrcB = normalizeIsrc(b);
+  if (!isrcA || !isrcB) return 'unknown';
+  if (isrcA === isrcB) return 'same';
+
+  const prefix = CANONICAL_CONFIG.ISRC_RELEASE_PREFIX;
+  return isrcA.slice(0, prefix) === isrcB.slice(0, prefix) ? 'sibling' : 'unrelated';
+}
+
+export function normalizeIsrc(isrc?: string | null): string | null {
+  const normalized = isrc?.toUpperCase().replace(/[-\s]/g, '') ?? '';
+  return /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Whether two provider tracks are the same recording
+ */
+export function matchTracks(a: NormalizedTrack, b: NormalizedTrack): TrackMatch | null {
+  return compare(prepare(a), prepare(b));
+}
+
+/**
+ * Group tracks into canonical recordings
+ * `known` maps mappingKey(provider, id) to a persisted canonical ID.
+ */
+export function resolveCanonicalTracks(
+  tracks: NormalizedTrack[],
+  known: Map<string, string> = new Map()
+): CanonicalGroup[] {
+  const groups: GroupState[] = [];
+  const byCanonical = new Map<string, GroupState>();
+  const byIsrc = new Map<string, GroupState>();
+  const byToken = new Map<string, Set<GroupState>>();
+
+  const addMember = (group: GroupState, prepared: PreparedTrack, method: ResolutionMethod, confidence: number) => {
+    group.members.push(prepared);
+    group.resolutions.push({ method, confidence });
+    group.providers.add(prepared.track.provider);
+    if (prepared.isrc && !byIsrc.has(prepared.isrc)) byIsrc.set(prepared.isrc, group);
+    for (const token of prepared.titleTokens) {
+      const indexed = byToken.get(token) ?? new Set<GroupState>();
+      indexed.add(group);
+      byToken.set(token, indexed);
+    }
+  };
+
+  const createGroup = (canonicalId: string, fallbackId: string): GroupState => {
+    const id = byCanonical.has(canonicalId) ? fallbackId : canonicalId;
+    const group: GroupState = { canonical_id: id, members: [], resolutions: [], providers: new Set() };
+    groups.push(group);
+    byCanonical.set(id, group);
+    return group;
+  };
+
+  // Mapped tracks seed their groups first so new tracks can join them
+  const ordered = [
+    ...tracks.filter(t => known.has(mappingKey(t.provider, t.provider_track_id))),
+    ...tracks.filter(t => !known.has(mappingKey(t.provider, t.provider_track_id))),
+  ];
+
+  for (const track of ordered) {
+    const prepared = prepare(track);
+    const ownId = `${track.provider}-${track.provider_track_id}`;
+
+    const mapped = known.get(mappingKey(track.provider, track.provider_track_id));
+    if (mapped) {
+      addMember(byCanonical.get(mapped) ?? createGroup(mapped, ownId), prepared, 'mapping', 1);
+      continue;
+    }
+
+    const sameIsrc = prepared.isrc ? byIsrc.get(prepared.isrc) : undefined;
+    if (sameIsrc && !sameIsrc.providers.has(track.provider)) {
+      addMember(sameIsrc, prepared, 'isrc', 1);
+      continue;
+    }
+
+    const best = bestGroup(prepared, candidateGroups(prepared, byToken));
+    if (best) {
+      addMember(best.group, prepared, best.match.method, best.match.confidence);
+    } else {
+      addMember(createGroup(prepared.isrc ?? ownId, ownId), prepared, 'new', 1);
+    }
+  }
+
+  return groups.map(group => ({
+    canonical_id: group.canonical_id,
+    members: group.members.map((member, i) => ({
+      track: member.track,
+      parsed: member.parsed,
+      ...group.resolutions[i],
+    })),
+  }));
+}
+
+/**
+ * Whether a submitted mapping is backed by its recording: a new recording
+ * takes the track's own ID (ISRC, or provider and track ID), and a track
+ * joining a recording must match one of its `members` (other mappings to
+ * the same canonical ID) the way resolveCanonicalTracks would
+ */
+export function verifyMappingRecord(record: TrackMappingRecord, members: TrackMappingRecord[]): boolean {
+  if (!(record.confidence >= 0 && record.confidence <= 1) || !record.title) return false;
+
+  const ownId = `${record.provider}-${record.provider_track_id}`;
+  if (record.match_method === 'new') {
+    return record.canonical_id === ownId || record.canonical_id === normalizeIsrc(record.isrc);
+  }
+
+  const track = recordTrack(record);
+  return members.some(member =>
+    member.canonical_id === record.canonical_id &&
+    mappingKey(member.provider, member.provider_track_id) !== mappingKey(record.provider, record.provider_track_id) &&
+    matchTracks(track, recordTrack(member)) !== null
+  );
+}
+
+/**
+ * Key of a provider track in the mapping table
+ */
+export function mappingKey(provider: MusicProvider, providerTrackId: string): string {
+  return `${provider}:${providerTrackId}`;
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+interface PreparedTrack {
+  track: NormalizedTrack;
+  parsed: ParsedTitle;
+  isrc: string | null;
+  titleTokens: Set<string>;
+  artists: string[];
+}
+
+interface GroupState {
+  canonical_id: string;
+  members: PreparedTrack[];
+  resolutions: Array<{ method: ResolutionMethod; confidence: number }>;
+  providers: Set<MusicProvider>;
+}
+
+// Mapping rows keep the base title and version kind: "Song - radio edit"
+function recordTrack(record: TrackMappingRecord): NormalizedTrack {
+  return {
+    title: record.version ? `${record.title} - ${record.version.replace('_', ' ')}` : record.title,
+    artists: record.artist ? [record.artist] : [],
+    duration_ms: record.duration_ms ?? undefined,
+    isrc: record.isrc ?? undefined,
+    provider: record.provider,
+    provider_track_id: record.provider_track_id,
+  };
+}
+
+function prepare(track: NormalizedTrack): PreparedTrack {
+  const parsed = parseTitle(track.title);
+  return {
+    track,
+    parsed,
+    isrc: normalizeIsrc(track.isrc),
+    titleTokens: new Set(tokenize(parsed.base)),
+    artists: [...track.artists, ...parsed.featured],
+  };
+}
+
+function compare(a: PreparedTrack, b: PreparedTrack): TrackMatch | null {
+  const relation = isrcRelation(a.isrc, b.isrc);
+  if (relation === 'same') return { method: 'isrc', confidence: 1 };
+  if (relation === 'sibling') return null;
+
+  if (!sameRecording(a.parsed.version, b.parsed.version)) return null;
+
+  const title = diceSimilarity(a.titleTokens, b.titleTokens);
+  if (title < CANONICAL_CONFIG.TITLE_SIMILARITY) return null;
+
+  const artist = artistSimilarity(a.artists, b.artists);
+  if (artist < CANONICAL_CONFIG.ARTIST_SIMILARITY) return null;
+
+  let duration = 0.5; // Unknown
+  if (a.track.duration_ms && b.track.duration_ms) {
+    const difference = Math.abs(a.track.duration_ms - b.track.duration_ms);
+    if (difference > CANONICAL_CONFIG.DURATION_TOLERANCE_MS) return null;
+    duration = 1 - difference / CANONICAL_CONFIG.DURATION_TOLERANCE_MS / 2;
+  }
+
+  return { method: 'fuzzy', confidence: round3(0.5 * title + 0.3 * artist + 0.2 * duration) };
+}
+
+function candidateGroups(prepared: PreparedTrack, byToken: Map<string, Set<GroupState>>): Set<GroupState> {
+  const candidates = new Set<GroupState>();
+  for (const token of prepared.titleTokens) {
+    for (const group of byToken.get(token) ?? []) candidates.add(group);
+  }
+  return candidates;
+}
+
+/**
+ * Best-matching group; a group holding a sibling ISRC, a track from the
+ * same provider or a duration out of tolerance is a different recording
+ */
+function bestGroup(
+  prepared: PreparedTrack,
+  candidates: Set<GroupState>
+): { group: GroupState; match: TrackMatch } | null {
+  let best: { group: GroupState; match: TrackMatch } | null = null;
+
+  for (const group of candidates) {
+    if (group.providers.has(prepared.track.provider)) continue;
+    if (group.members.some(member => conflicts(member, prepared))) continue;
+
+    for (const member of group.members) {
+      const match = compare(member, prepared);
+      if (match && (!best || match.confidence > best.match.confidence)) {
+        best = { group, match };
+      }
+    }
+  }
+
+  return best;
+}
+
+function conflicts(member: PreparedTrack, prepared: PreparedTrack): boolean {
+  const relation = isrcRelation(member.isrc, prepared.isrc);
+  if (relation === 'same') return false;
+  if (relation === 'sibling') return true;
+
+  const durations = [member.track.duration_ms, prepared.track.duration_ms];
+  return !!durations[0] && !!durations[1] &&
+    Math.abs(durations[0] - durations[1]) > CANONICAL_CONFIG.DURATION_TOLERANCE_MS;
+}
+
+function sameRecording(a: TrackVersion | null, b: TrackVersion | null): boolean {
+  const kindA = a && !SAME_RECORDING_VERSIONS.includes(a.kind) ? a.kind : null;
+  const kindB = b && !SAME_RECORDING_VERSIONS.includes(b.kind) ? b.kind : null;
+  if (kindA !== kindB) return false;
+
+  // Different remixers are different recordings
+  if (kindA === 'remix' && a?.remixer && b?.remixer) {
+    return tokenSetSimilarity(a.remixer, b.remixer) >= CANONICAL_CONFIG.ARTIST_SIMILARITY;
+  }
+  return true;
+}
+
+function classifyVersion(text: string): TrackVersion | null {
+  const match = VERSION_PATTERNS.find(({ pattern }) => pattern.test(text));
+  if (!match) return null;
+
+  const version: TrackVersion = { kind: match.kind, label: text };
+  const year = text.match(/\b(19|20)\d{2}\b/);
+  if (year) version.year = Number(year[0]);
+
+  if (match.kind === 'remix') {
+    const remixer = text.replace(/\b(remix|rework|re-?edit|dub|mix)\b.*$/i, '').trim();
+    if (remixer) version.remixer = remixer;
+  }
+
+  return version;
+}
+
+function splitArtists(credit: string): string[] {
+  return credit
+    .split(/\s*(?:,|&|\band\b|\bx\b)\s*/i)
+    .map(artist => artist.trim())
+    .filter(Boolean);
+}
+
+function cleanArtist(artist: string): string {
+  return artist.replace(ARTIST_SUFFIX_PATTERN, '');
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(token => token && !STOPWORDS.has(token));
+}
+
+function diceSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  return (2 * intersectionSize(a, b)) / (a.size + b.size);
+}
+
+function intersectionSize(a: Set<string>, b: Set<string>): number {
+  let count = 0;
+  for (const token of a) if (b.has(token)) count++;
+  return count;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,258 @@
+/**
+ * Catalog Search
+ *
+ * Ranked, typo-tolerant text search over local tracks. The database runs
+ * this as `search_catalog` (Postgres full-text + pg_trgm, see migration
+ * 20260207_catalog_search); this module mirrors it for the seed catalog
+ * and renders the highlighted snippets both return.
+ *
+ * RANKING:
+ * - Every query word must match a field (stemmed), weighted by field:
+ *   title/artists > album > credits/label > genre description/notes
+ * - Trigram word similarity against the short fields adds typo tolerance
+ *   ("beatels" finds The Beatles), at half weight
+ *
+ * Snippets mark hits with \u0001...\u0002 instead of HTML so they can be
+ * rendered as text nodes (see `highlightSegments`).
+ */
+
+import type { Track } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const CATALOG_SEARCH_CONFIG = {
+  // Same as the tsvector weights A/B/C/D
+  FIELD_WEIGHTS: { A: 1.0, B: 0.4, C: 0.2, D: 0.1 },
+  FUZZY_WEIGHT: 0.5,
+  WORD_SIMILARITY_THRESHOLD: 0.4, // pg_trgm.word_similarity_threshold in search_catalog
+  SNIPPET_MAX_WORDS: 18,
+  MARK_START: '\u0001',
+  MARK_END: '\u0002',
+} as const;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'in', 'on', 'to', 'by', 'for', 'with', 'at', 'is']);
+
+const FIELD_WEIGHT_CLASS: Record<CatalogField, keyof typeof CATALOG_SEARCH_CONFIG.FIELD_WEIGHTS> = {
+  title: 'A',
+  artists: 'A',
+  album: 'B',
+  songwriters: 'C',
+  producers: 'C',
+  label: 'C',
+  genre_description: 'D',
+  historical_notes: 'D',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CatalogField =
+  | 'title'
+  | 'artists'
+  | 'album'
+  | 'songwriters'
+  | 'producers'
+  | 'label'
+  | 'historical_notes'
+  | 'genre_description';
+
+export interface CatalogHit {
+  track: Track;
+  rank: number;
+  snippet: string; // Marked with MARK_START/MARK_END; '' when there is nothing to show
+  matched_fields: CatalogField[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Rank tracks against a query, best first. Mirrors `search_catalog`
+ */
+export function rankTracks(
+  tracks: Track[],
+  query: string,
+  options: { limit?: number; offset?: number } = {}
+): CatalogHit[] {
+  const { include, exclude } = parseTerms(query);
+  const term = normalize(query.replace(/(^|\s)-\S+/g, ' '));
+  if (include.length === 0 && !term) return [];
+
+  const hits: CatalogHit[] = [];
+  for (const track of tracks) {
+    const fields = trackFields(track);
+    const words = new Map<CatalogField, Set<string>>(
+      Object.entries(fields).map(([field, text]) => [field as CatalogField, new Set(tokenize(text).map(stem))])
+    );
+    const allWords = [...words.values()];
+    if (exclude.some(word => allWords.some(set => set.has(word)))) continue;
+
+    const matched = new Set<CatalogField>();
+    let textRank = 0;
+    const fullText = include.length > 0 && include.every(word => {
+      let best = 0;
+      for (const [field, set] of words) {
+        if (!set.has(word)) continue;
+        matched.add(field);
+        best = Math.max(best, CATALOG_SEARCH_CONFIG.FIELD_WEIGHTS[FIELD_WEIGHT_CLASS[field]]);
+      }
+      textRank += best / include.length;
+      return best > 0;
+    });
+
+    const searchText = normalize([fields.title, fields.artists, fields.album, fields.songwriters, fields.producers, fields.label].join(' '));
+    const fuzzy = term ? wordSimilarity(term, searchText) : 0;
+    if (!fullText && fuzzy < CATALOG_SEARCH_CONFIG.WORD_SIMILARITY_THRESHOLD) continue;
+
+    hits.push({
+      track,
+      rank: (fullText ? textRank : 0) + fuzzy * CATALOG_SEARCH_CONFIG.FUZZY_WEIGHT,
+      snippet: fullText ? buildSnippet(snippetSource(track), include) : '',
+      matched_fields: fullText ? [...matched] : [],
+    });
+  }
+
+  const offset = options.offset ?? 0;
+  return hits
+    .sort((a, b) => b.rank - a.rank || a.track.title.localeCompare(b.track.title))
+    .slice(offset, offset + (options.limit ?? 20));
+}
+
+/**
+ * Split a marked snippet into plain and highlighted runs
+ */
+export function highlightSegments(snippet: string): HighlightSegment[] {
+  const { MARK_START, MARK_END } = CATALOG_SEARCH_CONFIG;
+  const segments: HighlightSegment[] = [];
+  let highlighted = false;
+  let text = '';
+
+  for (const char of snippet) {
+    if (char === MARK_START || char === MARK_END) {
+      if (text) segments.push({ text, highlighted });
+      text = '';
+      highlighted = char === MARK_START;
+    } else {
+      text += char;
+    }
+  }
+  if (text) segments.push({ text, highlighted });
+  return segments;
+}
+
+/**
+ * pg_trgm word_similarity: the best share of the term's trigrams found in
+ * any run of words in the text
+ */
+export function wordSimilarity(term: string, text: string): number {
+  const termTrigrams = trigrams(term);
+  if (termTrigrams.size === 0) return 0;
+
+  const words = tokenize(text);
+  const span = Math.max(1, tokenize(term).length);
+  let best = 0;
+  for (let start = 0; start < words.length; start++) {
+    for (let end = start + 1; end <= Math.min(words.length, start + span + 1); end++) {
+      const extent = trigrams(words.slice(start, end).join(' '));
+      let shared = 0;
+      termTrigrams.forEach(t => { if (extent.has(t)) shared++; });
+      best = Math.max(best, shared / termTrigrams.size);
+    }
+  }
+  return best;
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+function trackFields(track: Track): Record<CatalogField, string> {
+  return {
+    title: track.title ?? '',
+    artists: [track.artist, ...(track.artists ?? [])].filter(Boolean).join(' '),
+    album: track.album ?? '',
+    songwriters: (track.songwriters ?? [track.songwriter]).filter(Boolean).join(' '),
+    producers: (track.producers ?? [track.producer]).filter(Boolean).join(' '),
+    label: track.label ?? '',
+    historical_notes: track.historical_notes ?? '',
+    genre_description: track.genre_description ?? '',
+  };
+}
+
+// Same fields, order and separator as ts_headline in search_catalog
+function snippetSource(track: Track): string {
+  return [track.album, track.label, track.genre_description, track.historical_notes]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+function parseTerms(query: string): { include: string[]; exclude: string[] } {
+  const include: string[] = [];
+  const exclude: string[] = [];
+  for (const raw of query.replace(/"/g, ' ').split(/\s+/)) {
+    const negated = raw.startsWith('-') && raw.length > 1;
+    for (const word of tokenize(negated ? raw.slice(1) : raw)) {
+      if (STOP_WORDS.has(word)) continue;
+      (negated ? exclude : include).push(stem(word));
+    }
+  }
+  return { include, exclude };
+}
+
+function normalize(text: string): string {
+  return tokenize(text).join(' ');
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Light suffix stripping, close enough to the english stemmer for matching
+function stem(word: string): string {
+  if (word.length <= 3) return word;
+  for (const suffix of ['ing', 'ies', 'es', 'ed', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return suffix === 'ies' ? `${word.slice(0, -3)}y` : word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+// Padded like pg_trgm: two spaces before each word, one after
+function trigrams(text: string): Set<string> {
+  const result = new Set<string>();
+  for (const word of tokenize(text)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+function buildSnippet(source: string, terms: string[]): string {
+  if (!source) return '';
+  const { MARK_START, MARK_END, SNIPPET_MAX_WORDS } = CATALOG_SEARCH_CONFIG;
+  const words = source.split(/\s+/);
+  const isHit = (word: string) => tokenize(word).some(token => terms.includes(stem(token)));
+
+  const first = words.findIndex(isHit);
+  if (first === -1) return '';
+  const start = Math.max(0, Math.min(first - 4, words.length - SNIPPET_MAX_WORDS));
+  return words
+    .slice(start, start + SNIPPET_MAX_WORDS)
+    .map(word => (isHit(word) ? `${MARK_START}${word}${MARK_END}` : word))
+    .join(' ');
+}
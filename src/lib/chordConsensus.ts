@@ -0,0 +1,349 @@
+/**
+ * Chord Consensus
+ *
+ * Turns crowd-sourced chord corrections (chord_submissions + votes) into a
+ * single proposal and, once the crowd agrees, the fingerprint to store.
+ *
+ * ALGORITHM:
+ * 1. Group submissions into proposals: same key/mode and progressions that
+ *    align almost perfectly (rotations and repeated loops are the same answer)
+ * 2. Support of a proposal = Σ reputation × agreement over contributors.
+ *    Agreement is the alignment score between a contributor's own submission
+ *    and the proposal (near-misses lend partial support); contributors who
+ *    only voted lend ±1.
+ * 3. The strongest proposal wins when it has enough support, a clear share
+ *    of all support and more than one contributor. Strong consensus is
+ *    promoted automatically; weaker consensus waits for a moderator.
+ *    A moderator-approved submission is decisive.
+ *
+ * Reputation is derived from each contributor's history (approved vs
+ * rejected submissions), so it never has to be maintained separately.
+ *
+ * NOTE: Relative imports carry the .ts extension so the chord-consensus and
+ * harmonic-analysis edge functions can load this module under Deno.
+ */
+
+import type { ChordSubmission } from '@/types';
+import type { FingerprintProvenance, HarmonicFingerprint, Mode } from '@/types/harmony';
+import { alignProgressions } from './progressionAlignment.ts';
+import { ANALYSIS_MODEL_VERSION, PITCH_CLASSES, classifyCadence } from './harmonicDsp.ts';
+import { embedFingerprint } from './harmonicEmbedding.ts';
+import { numeralsToProgression } from './sectionSimilarity.ts';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const CONSENSUS_CONFIG = {
+  // Submissions aligning at least this well are the same proposal
+  SAME_PROPOSAL_SCORE: 0.95,
+  // Below this a submission lends no support to another proposal
+  MIN_AGREEMENT: 0.7,
+  MIN_SUPPORT: 3,
+  MIN_SHARE: 0.6,
+  MIN_CONTRIBUTORS: 2,
+  // Promote without a moderator at or above this support
+  AUTO_PROMOTE_SUPPORT: 6,
+  MAX_REPUTATION: 4,
+  MODERATOR_MULTIPLIER: 2,
+  // Confidence of a promoted fingerprint: base + share bonus
+  BASE_CONFIDENCE: 0.7,
+} as const;
+
+const NUMERAL_TOKEN = /^[b#♭♯]?(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)[^\s/]*(\/[b#♭♯]?(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i))?$/;
+
+const ENHARMONIC: Record<string, string> = {
+  DB: 'C#', EB: 'D#', GB: 'F#', AB: 'G#', BB: 'A#', CB: 'B', FB: 'E', 'E#': 'F', 'B#': 'C',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ConsensusSubmission = Pick<
+  ChordSubmission,
+  'id' | 'user_id' | 'progression_roman' | 'detected_key' | 'detected_mode' | 'status' | 'moderated_by' | 'created_at'
+>;
+
+export interface ConsensusVote {
+  submission_id: string;
+  user_id: string;
+  vote: 1 | -1;
+}
+
+export interface ContributorHistory {
+  approved: number;
+  rejected: number;
+  is_moderator?: boolean;
+}
+
+export interface ConsensusProposal {
+  progression_roman: string[];
+  detected_key: string | null;
+  detected_mode: 'major' | 'minor' | null;
+  submission_ids: string[];
+  support: number;
+  share: number; // Of all positive support for the track
+  contributors: string[]; // Users lending positive support
+  approved_by?: string; // Moderator who approved one of its submissions
+}
+
+export type ConsensusStatus =
+  | 'none' // No open submissions
+  | 'open' // Not enough agreement yet
+  | 'needs_review' // Consensus reached, waiting for a moderator
+  | 'promote'; // Strong consensus or moderator-approved
+
+export interface ConsensusResult {
+  status: ConsensusStatus;
+  proposal: ConsensusProposal | null; // Leading proposal
+  proposals: ConsensusProposal[]; // Best first
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Reputation weight of a contributor (1 for a newcomer)
+ * Laplace-smoothed acceptance rate × log experience, capped, with a
+ * multiplier for moderators.
+ */
+export function reputationWeight(history: ContributorHistory = { approved: 0, rejected: 0 }): number {
+  const accuracy = (history.approved + 1) / (history.approved + history.rejected + 2);
+  const experience = 1 + Math.log(1 + history.approved);
+  const weight = Math.min(CONSENSUS_CONFIG.MAX_REPUTATION, 2 * accuracy * experience);
+  return round3(history.is_moderator ? weight * CONSENSUS_CONFIG.MODERATOR_MULTIPLIER : weight);
+}
+
+/**
+ * Weighted consensus over a track's submissions
+ */
+export function computeConsensus(
+  submissions: ConsensusSubmission[],
+  votes: ConsensusVote[],
+  reputations: Record<string, number>
+): ConsensusResult {
+  const open = submissions
+    .filter(s => s.status !== 'rejected')
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  if (open.length === 0) return { status: 'none', proposal: null, proposals: [] };
+
+  const reputation = (userId: string) => reputations[userId] ?? reputationWeight();
+
+  // Step 1: Group equivalent submissions
+  const groups: Array<{ representative: ConsensusSubmission; members: ConsensusSubmission[] }> = [];
+  for (const submission of open) {
+    const group = groups.find(g => agreement(g.representative, submission) >= CONSENSUS_CONFIG.SAME_PROPOSAL_SCORE);
+    if (group) group.members.push(submission);
+    else groups.push({ representative: submission, members: [submission] });
+  }
+
+  // Step 2: Support = Σ reputation × agreement (own submissions), else votes
+  const submitters = new Set(open.map(s => s.user_id));
+  const proposals = groups.map(group => {
+    const memberIds = new Set(group.members.map(m => m.id));
+    const contributions = new Map<string, number>();
+
+    for (const submission of open) {
+      // Members are the same answer; others lend partial support
+      const agree = memberIds.has(submission.id) ? 1 : agreement(group.representative, submission);
+      if (agree < CONSENSUS_CONFIG.MIN_AGREEMENT) continue;
+      contributions.set(submission.user_id, Math.max(contributions.get(submission.user_id) ?? 0, agree));
+    }
+    for (const vote of votes) {
+      if (!memberIds.has(vote.submission_id) || submitters.has(vote.user_id)) continue;
+      const total = (contributions.get(vote.user_id) ?? 0) + vote.vote;
+      contributions.set(vote.user_id, Math.max(-1, Math.min(1, total)));
+    }
+
+    let support = 0;
+    const contributors: string[] = [];
+    for (const [userId, contribution] of contributions) {
+      support += reputation(userId) * contribution;
+      if (contribution > 0) contributors.push(userId);
+    }
+
+    const approved = group.members.find(m => m.status === 'approved' && m.moderated_by);
+    return {
+      progression_roman: group.representative.progression_roman ?? [],
+      detected_key: normalizeKey(group.representative.detected_key),
+      detected_mode: group.representative.detected_mode ?? null,
+      submission_ids: group.members.map(m => m.id),
+      support: round3(support),
+      share: 0,
+      contributors,
+      approved_by: approved?.moderated_by ?? undefined,
+    } as ConsensusProposal;
+  });
+
+  const totalSupport = proposals.reduce((sum, p) => sum + Math.max(0, p.support), 0);
+  for (const proposal of proposals) {
+    proposal.share = totalSupport > 0 ? round3(Math.max(0, proposal.support) / totalSupport) : 0;
+  }
+
+  // Step 3: Moderator approval first, then support
+  proposals.sort((a, b) => Number(!!b.approved_by) - Number(!!a.approved_by) || b.support - a.support);
+  const leader = proposals[0];
+
+  return { status: statusOf(leader), proposal: leader, proposals };
+}
+
+/**
+ * Fingerprint after promoting a proposal, with provenance
+ * Fields the proposal does not speak to are kept from the existing
+ * fingerprint; loop length defaults to one chord per bar.
+ */
+export function buildPromotedFingerprint(
+  track_id: string,
+  proposal: ConsensusProposal,
+  existing: HarmonicFingerprint | null,
+  promotedAt: string = new Date().toISOString()
+): HarmonicFingerprint {
+  const progression = proposal.progression_roman.length > 0
+    ? numeralsToProgression(proposal.progression_roman)
+    : existing?.roman_progression ?? [];
+  const progressionChanged = proposal.progression_roman.length > 0;
+
+  const keyIndex = proposal.detected_key ? PITCH_CLASSES.indexOf(proposal.detected_key) : -1;
+  const existingMode = existing?.tonal_center.mode;
+  // Keep a modal color (dorian) when the crowd only says "minor"
+  const mode: Mode = proposal.detected_mode && (!existingMode || modeFrame(existingMode) !== proposal.detected_mode)
+    ? proposal.detected_mode
+    : existingMode ?? 'major';
+  const rootInterval = keyIndex >= 0 ? keyIndex : existing?.tonal_center.root_interval ?? 0;
+
+  const provenance: FingerprintProvenance = {
+    method: 'crowd_sourced',
+    submission_ids: proposal.submission_ids,
+    contributors: proposal.contributors,
+    support: proposal.support,
+    share: proposal.share,
+    approved_by: proposal.approved_by ?? null,
+    promoted_at: promotedAt,
+    previous: existing
+      ? {
+          roman_progression: existing.roman_progression,
+          detected_key: existing.detected_key ?? null,
+          detected_mode: existing.detected_mode ?? null,
+          analysis_version: existing.analysis_version,
+          confidence_score: existing.confidence_score,
+        }
+      : null,
+  };
+
+  const fingerprint: HarmonicFingerprint = {
+    ...(existing ?? {}),
+    track_id,
+    tonal_center: {
+      root_interval: rootInterval,
+      mode,
+      stability_score: existing?.tonal_center.stability_score ?? 1,
+    },
+    roman_progression: progression,
+    loop_length_bars: existing?.loop_length_bars ?? Math.max(1, progression.length),
+    cadence_type: progressionChanged || !existing ? classifyCadence(progression) : existing.cadence_type,
+    confidence_score: round3(CONSENSUS_CONFIG.BASE_CONFIDENCE + (1 - CONSENSUS_CONFIG.BASE_CONFIDENCE) * proposal.share),
+    analysis_timestamp: promotedAt,
+    analysis_version: existing?.analysis_version ?? ANALYSIS_MODEL_VERSION,
+    analysis_method: 'crowd_sourced',
+    provenance,
+    is_provisional: false,
+    detected_key: PITCH_CLASSES[rootInterval % 12],
+    detected_mode: mode === 'aeolian' ? 'minor' : mode,
+  };
+
+  return { ...fingerprint, ...embedFingerprint(fingerprint) };
+}
+
+/**
+ * Keep a crowd-corrected progression and key when a track is re-analysed;
+ * audio-derived fields (tempo, identity hashes) still come from the new run
+ */
+export function preserveCrowdCorrection(
+  fresh: HarmonicFingerprint,
+  existing: Pick<HarmonicFingerprint, 'analysis_method'> & Partial<HarmonicFingerprint> | null
+): HarmonicFingerprint {
+  if (!existing || existing.analysis_method !== 'crowd_sourced') return fresh;
+
+  const merged: HarmonicFingerprint = {
+    ...fresh,
+    tonal_center: existing.tonal_center ?? fresh.tonal_center,
+    roman_progression: existing.roman_progression ?? fresh.roman_progression,
+    cadence_type: existing.cadence_type ?? fresh.cadence_type,
+    loop_length_bars: existing.loop_length_bars ?? fresh.loop_length_bars,
+    detected_key: existing.detected_key ?? fresh.detected_key,
+    detected_mode: existing.detected_mode ?? fresh.detected_mode,
+    confidence_score: Math.max(existing.confidence_score ?? 0, fresh.confidence_score),
+    is_provisional: false,
+    analysis_method: 'crowd_sourced',
+    provenance: existing.provenance ?? null,
+  };
+
+  return { ...merged, ...embedFingerprint(merged) };
+}
+
+/**
+ * Split user input ("vi - IV - I - V", "ii7 V7 Imaj7") into numerals
+ */
+export function parseNumeralList(text: string): { numerals: string[]; invalid: string[] } {
+  const tokens = text.split(/[\s,|–—-]+/).map(t => t.trim()).filter(Boolean);
+  return {
+    numerals: tokens.filter(t => NUMERAL_TOKEN.test(t)),
+    invalid: tokens.filter(t => !NUMERAL_TOKEN.test(t)),
+  };
+}
+
+/**
+ * Canonical key spelling ("Bb" → "A#", "f#" → "F#"), null when unknown
+ */
+export function normalizeKey(key: string | null | undefined): string | null {
+  if (!key) return null;
+  const upper = key.trim().replace('♭', 'b').replace('♯', '#');
+  const spelled = upper.charAt(0).toUpperCase() + upper.slice(1);
+  const canonical = ENHARMONIC[spelled.toUpperCase()] ?? spelled;
+  return PITCH_CLASSES.includes(canonical) ? canonical : null;
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+/**
+ * How far one submission agrees with another: key/mode must not conflict,
+ * progressions are aligned (loop-tolerant); key-only submissions agree on key
+ */
+function agreement(a: ConsensusSubmission, b: ConsensusSubmission): number {
+  const keyA = normalizeKey(a.detected_key);
+  const keyB = normalizeKey(b.detected_key);
+  if (keyA !== keyB || (a.detected_mode ?? null) !== (b.detected_mode ?? null)) return 0;
+
+  const progressionA = a.progression_roman ?? [];
+  const progressionB = b.progression_roman ?? [];
+  if (progressionA.length === 0 || progressionB.length === 0) {
+    return progressionA.length === progressionB.length ? 1 : 0;
+  }
+
+  return alignProgressions(
+    numeralsToProgression(progressionA),
+    numeralsToProgression(progressionB),
+    { modes: { a: a.detected_mode ?? undefined, b: b.detected_mode ?? undefined } }
+  ).score;
+}
+
+function statusOf(leader: ConsensusProposal): ConsensusStatus {
+  if (leader.approved_by) return 'promote';
+
+  const agreed = leader.support >= CONSENSUS_CONFIG.MIN_SUPPORT
+    && leader.share >= CONSENSUS_CONFIG.MIN_SHARE
+    && leader.contributors.length >= CONSENSUS_CONFIG.MIN_CONTRIBUTORS;
+  if (!agreed) return 'open';
+
+  return leader.support >= CONSENSUS_CONFIG.AUTO_PROMOTE_SUPPORT ? 'promote' : 'needs_review';
+}
+
+function modeFrame(mode: Mode): 'major' | 'minor' {
+  return ['minor', 'aeolian', 'dorian', 'phrygian', 'locrian'].includes(mode) ? 'minor' : 'major';
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
@@ -0,0 +1,371 @@
+/**
+ * Chord Symbols
+ *
+ * Converts chord charts as people write them ("Am F C G",
+ * "Cmaj7 | A7 | Dm7 G7", "D/F# Em7b5 Bbsus2") to Roman numerals relative
+ * to a given or inferred key, and renders Roman numerals back as chord
+ * symbols in any key.
+ *
+ * CHARTS:
+ * - Chords are separated by spaces or commas; "|" marks bar lines
+ * - Chords in one bar share its four beats; without bar lines every chord
+ *   gets a bar
+ * - "%" repeats the previous chord
+ *
+ * KEY INFERENCE:
+ * A few chords are too sparse for pitch profiles alone, so each of the 24
+ * keys is scored on the chart's chords:
+ * - Share of chord tones in the key's scale, weighted by duration (minor
+ *   keys allow the raised seventh, for V and vii°)
+ * - The tonic chord opening or closing the chart
+ * - V → I cadences
+ * - Pitch-profile correlation (estimateKey), as a tie-break
+ */
+
+import type { ChordQuality, Mode, RelativeTonalCenter, RomanChord } from '@/types/harmony';
+import { estimateKey, PITCH_CLASSES, toModeFrame, toRomanChord } from './harmonicDsp';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const CHORD_SYMBOL_CONFIG = {
+  BEATS_PER_BAR: 4,
+  // Key inference weights (diatonic share is 0-1)
+  TONIC_FRAME_WEIGHT: 0.15, // Per end of the chart on the tonic chord
+  CADENCE_WEIGHT: 0.1, // Per V → I
+  PROFILE_WEIGHT: 0.05,
+} as const;
+
+// Semitones above the root: root, third, fifth, seventh (in inversion order)
+const CHORD_TONES: Record<ChordQuality, number[]> = {
+  major: [0, 4, 7],
+  minor: [0, 3, 7],
+  diminished: [0, 3, 6],
+  augmented: [0, 4, 8],
+  dominant7: [0, 4, 7, 10],
+  major7: [0, 4, 7, 11],
+  minor7: [0, 3, 7, 10],
+  diminished7: [0, 3, 6, 9],
+  'half-diminished7': [0, 3, 6, 10],
+  sus2: [0, 2, 7],
+  sus4: [0, 5, 7],
+  add9: [0, 4, 7],
+  other: [0, 7],
+};
+
+const QUALITY_SUFFIXES: Record<ChordQuality, string> = {
+  major: '',
+  minor: 'm',
+  diminished: 'dim',
+  augmented: 'aug',
+  dominant7: '7',
+  major7: 'maj7',
+  minor7: 'm7',
+  diminished7: 'dim7',
+  'half-diminished7': 'm7b5',
+  sus2: 'sus2',
+  sus4: 'sus4',
+  add9: 'add9',
+  other: '5',
+};
+
+const SCALES: Record<'major' | 'minor', number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10, 11], // Natural minor plus the leading tone
+};
+
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+const NATURALS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Numeral degree → semitones above the tonic, in the frames harmonicDsp uses
+const DEGREE_SEMITONES: Record<'major' | 'minor', Record<string, number>> = {
+  major: { I: 0, II: 2, III: 4, IV: 5, V: 7, VI: 9, VII: 11 },
+  minor: { I: 0, II: 2, III: 3, IV: 5, V: 7, VI: 8, VII: 10 },
+};
+
+const SYMBOL_PATTERN = /^([A-Ga-g])([#b♯♭]?)([^/]*)(?:\/([A-Ga-g])([#b♯♭]?))?$/;
+const NUMERAL_PATTERN = /^([b#♭♯]?)(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)/;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ChordSymbol {
+  symbol: string; // As written
+  root: number; // Pitch class, 0 = C
+  quality: ChordQuality;
+  bass: number | null; // Slash bass pitch class
+  inversion: number; // 0 = root position; bass notes outside the chord stay 0
+  duration_beats: number;
+}
+
+export interface ParsedChart {
+  chords: ChordSymbol[];
+  invalid: string[];
+}
+
+export interface ChartKey {
+  tonic: number;
+  mode: 'major' | 'minor';
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Parse a single chord symbol, null when it is not one
+ */
+export function parseChordSymbol(symbol: string): Omit<ChordSymbol, 'duration_beats'> | null {
+  const match = symbol.trim().match(SYMBOL_PATTERN);
+  if (!match) return null;
+
+  const [, letter, accidental, suffix, bassLetter, bassAccidental] = match;
+  const quality = parseQuality(suffix);
+  if (!quality) return null;
+
+  const root = pitchClass(letter, accidental);
+  const bass = bassLetter ? pitchClass(bassLetter, bassAccidental) : null;
+  const bassInterval = bass === null ? 0 : (bass - root + 12) % 12;
+  const inversion = Math.max(0, CHORD_TONES[quality].indexOf(bassInterval));
+
+  return { symbol: symbol.trim(), root, quality, bass: bass === root ? null : bass, inversion };
+}
+
+/**
+ * Parse a chord chart into chords with durations
+ */
+export function parseChordChart(text: string): ParsedChart {
+  const chords: ChordSymbol[] = [];
+  const invalid: string[] = [];
+  const hasBars = text.includes('|');
+
+  for (const bar of text.split('|')) {
+    const tokens = bar.split(/[\s,]+/).filter(Boolean);
+    if (tokens.length === 0) continue;
+
+    const beats = hasBars ? CHORD_SYMBOL_CONFIG.BEATS_PER_BAR / tokens.length : CHORD_SYMBOL_CONFIG.BEATS_PER_BAR;
+    for (const token of tokens) {
+      const previous = chords[chords.length - 1];
+      if (token === '%' && previous) {
+        previous.duration_beats += beats;
+        continue;
+      }
+
+      const chord = parseChordSymbol(token);
+      if (chord) {
+        chords.push({ ...chord, duration_beats: beats });
+      } else {
+        invalid.push(token);
+      }
+    }
+  }
+
+  return { chords, invalid };
+}
+
+/**
+ * Most likely key of a chart
+ */
+export function inferChartKey(chords: ChordSymbol[]): ChartKey | null {
+  if (chords.length === 0) return null;
+
+  const profile = new Array(12).fill(0);
+  for (const chord of chords) {
+    for (const interval of CHORD_TONES[chord.quality]) {
+      profile[(chord.root + interval) % 12] += chord.duration_beats;
+    }
+  }
+  const profileKey = estimateKey(profile);
+
+  let best: ChartKey | null = null;
+  let bestScore = -Infinity;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    for (const mode of ['major', 'minor'] as const) {
+      const key = { tonic, mode };
+      const score =
+        diatonicShare(chords, key) +
+        CHORD_SYMBOL_CONFIG.TONIC_FRAME_WEIGHT * [chords[0], chords[chords.length - 1]].filter(c => isTonicChord(c, key)).length +
+        CHORD_SYMBOL_CONFIG.CADENCE_WEIGHT * countCadences(chords, key) +
+        (tonic === profileKey.tonic && mode === profileKey.mode ? CHORD_SYMBOL_CONFIG.PROFILE_WEIGHT : 0);
+      if (score > bestScore) {
+        best = key;
+        bestScore = score;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Chords as Roman numerals relative to a key
+ */
+export function chartToProgression(chords: ChordSymbol[], key: ChartKey): RomanChord[] {
+  return chords.map(chord => ({
+    ...toRomanChord({ root: chord.root, quality: chord.quality }, key.tonic, key.mode),
+    duration_beats: chord.duration_beats,
+    inversions: chord.inversion,
+  }));
+}
+
+/**
+ * Parse a chart and read it in the given key, or the inferred one
+ */
+export function chartToRoman(
+  text: string,
+  key?: ChartKey
+): { progression: RomanChord[]; key: ChartKey | null; invalid: string[] } {
+  const { chords, invalid } = parseChordChart(text);
+  const chartKey = key ?? inferChartKey(chords);
+  return {
+    progression: chartKey ? chartToProgression(chords, chartKey) : [],
+    key: chartKey,
+    invalid,
+  };
+}
+
+/**
+ * Relative minor of a major key, relative major of a minor one
+ * A chart alone often can't tell them apart ("Am F C G" is i-VI-III-VII in
+ * A minor or vi-IV-I-V in C), so searches read it in both
+ */
+export function relativeKey(key: ChartKey): ChartKey {
+  return key.mode === 'major'
+    ? { tonic: (key.tonic + 9) % 12, mode: 'minor' }
+    : { tonic: (key.tonic + 3) % 12, mode: 'major' };
+}
+
+/**
+ * Render a Roman numeral chord as a chord symbol in a key
+ * The reference key may be spelled sharp or flat ("Bb"); numerals stay
+ * unrendered when it isn't a note name. Flat degrees are spelled flat
+ */
+export function renderChordSymbol(
+  chord: RomanChord,
+  tonalCenter: RelativeTonalCenter,
+  referenceKey: string = 'C'
+): string {
+  // "bVII" in minor is the frame's VII
+  const match = toModeFrame(chord.numeral, tonalCenter.mode).match(NUMERAL_PATTERN);
+  if (!match) return chord.numeral;
+
+  const [, accidental, degree] = match;
+  const frame = isMinorMode(tonalCenter.mode) ? 'minor' : 'major';
+  const shift = accidental === 'b' || accidental === '♭' ? -1 : accidental ? 1 : 0;
+  const reference = parseNoteName(referenceKey);
+  if (reference === null) return chord.numeral;
+  const tonic = (reference + tonalCenter.root_interval) % 12;
+  const root = (tonic + DEGREE_SEMITONES[frame][degree.toUpperCase()] + shift + 12) % 12;
+
+  const preferFlat = shift < 0 || isFlatKey(tonic, frame);
+  const tones = CHORD_TONES[chord.quality];
+  const inversion = chord.inversions ?? 0;
+  const bass = inversion > 0 && inversion < tones.length ? (root + tones[inversion]) % 12 : null;
+
+  return `${spell(root, preferFlat)}${QUALITY_SUFFIXES[chord.quality]}${bass === null ? '' : `/${spell(bass, preferFlat)}`}`;
+}
+
+/**
+ * Render a progression as a chord chart in a key
+ */
+export function renderChordChart(
+  progression: RomanChord[],
+  tonalCenter: RelativeTonalCenter,
+  referenceKey: string = 'C'
+): string[] {
+  return progression.map(chord => renderChordSymbol(chord, tonalCenter, referenceKey));
+}
+
+/**
+ * Pitch class of a note name ("F#", "Bb", "c"), null when unknown
+ */
+export function parseNoteName(name: string): number | null {
+  const match = name.trim().match(/^([A-Ga-g])([#b♯♭]?)$/);
+  return match ? pitchClass(match[1], match[2]) : null;
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+function pitchClass(letter: string, accidental: string): number {
+  const natural = NATURALS[letter.toUpperCase()];
+  const shift = accidental === '#' || accidental === '♯' ? 1 : accidental === 'b' || accidental === '♭' ? -1 : 0;
+  return (natural + shift + 12) % 12;
+}
+
+/**
+ * Chord quality from the text after the root (extensions and alterations
+ * fold into the nearest stored quality: C9 → dominant7, Cm11 → minor7)
+ */
+function parseQuality(suffix: string): ChordQuality | null {
+  const s = suffix.replace(/[()]/g, '');
+
+  if (/^(ø7?|m7b5|m7♭5|min7b5|-7b5)$/.test(s)) return 'half-diminished7';
+  if (/^(dim7|°7|o7)$/.test(s)) return 'diminished7';
+  if (/^(dim|°|o)$/.test(s)) return 'diminished';
+  if (/^(aug|\+|#5|\+5)$/.test(s)) return 'augmented';
+
+  // Alterations (b9, #11, ...) do not change the stored quality
+  const core = s.replace(/([b#♭♯+-](5|9|11|13))+$/, '');
+
+  if (/^((maj|M|ma)(7|9|11|13)|Δ7?)$/.test(core)) return 'major7';
+  if (/^(m|min|mi|-)(7|9|11|13)$/.test(core)) return 'minor7';
+  if (/^(m|min|mi|-)(6|add9|add2|maj7|M7|Δ7?)?$/.test(core)) return 'minor';
+  if (/^(7|9|11|13)?sus2$/.test(core)) return 'sus2';
+  if (/^(7|9|11|13)?sus4?$/.test(core)) return 'sus4';
+  if (/^(add9|add2|2)$/.test(core)) return 'add9';
+  if (/^(7|9|11|13)$/.test(core)) return 'dominant7';
+  if (/^(|maj|M|6|69)$/.test(core)) return 'major';
+  if (core === '5') return 'other';
+  return null;
+}
+
+function diatonicShare(chords: ChordSymbol[], key: ChartKey): number {
+  const scale = SCALES[key.mode];
+  let inScale = 0;
+  let total = 0;
+  for (const chord of chords) {
+    for (const interval of CHORD_TONES[chord.quality]) {
+      if (scale.includes((chord.root + interval - key.tonic + 24) % 12)) inScale += chord.duration_beats;
+      total += chord.duration_beats;
+    }
+  }
+  return total ? inScale / total : 0;
+}
+
+function isTonicChord(chord: ChordSymbol, key: ChartKey): boolean {
+  return chord.root === key.tonic && isMinorQuality(chord.quality) === (key.mode === 'minor');
+}
+
+function countCadences(chords: ChordSymbol[], key: ChartKey): number {
+  const dominant = (key.tonic + 7) % 12;
+  let count = 0;
+  for (let i = 1; i < chords.length; i++) {
+    const previous = chords[i - 1];
+    if (previous.root === dominant && ['major', 'dominant7'].includes(previous.quality) && isTonicChord(chords[i], key)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function isMinorQuality(quality: ChordQuality): boolean {
+  return ['minor', 'minor7', 'diminished', 'half-diminished7', 'diminished7'].includes(quality);
+}
+
+function isMinorMode(mode: Mode): boolean {
+  return mode === 'minor' || mode === 'dorian' || mode === 'phrygian' || mode === 'aeolian' || mode === 'locrian';
+}
+
+function isFlatKey(tonic: number, frame: 'major' | 'minor'): boolean {
+  // F, Bb, Eb, Ab, Db major and their relative minors
+  const major = frame === 'minor' ? (tonic + 3) % 12 : tonic;
+  return [5, 10, 3, 8, 1].includes(major);
+}
+
+function spell(pitch: number, preferFlat: boolean): string {
+  return preferFlat ? FLAT_NAMES[pitch] : PITCH_CLASSES[pitch];
+}
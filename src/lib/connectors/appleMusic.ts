@@ -0,0 +1,214 @@
+/**
+ * Apple Music API Connector
+ * Implements unified search and link resolution for Apple Music
+ *
+ * SECURITY: Developer tokens are signed server-side by the
+ * apple-music-token Edge Function (see appleMusicToken); the MusicKit
+ * private key is NEVER exposed to the browser
+ */
+
+import {
+  ProviderConnector,
+  NormalizedTrack,
+  SearchOptions,
+  HttpResponse,
+  HttpTransport,
+  fetchTransport,
+  isOk,
+  readJson,
+  searchWithTimeout,
+  providerError,
+} from './base';
+import type { DeveloperToken } from './appleMusicToken';
+import { ProviderLink } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+
+const APPLE_MUSIC_API_URL = 'https://api.music.apple.com/v1';
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+export type DeveloperTokenProvider = () => Promise<DeveloperToken>;
+
+interface AppleMusicSong {
+  id: string;
+  type: 'songs';
+  attributes: {
+    name: string;
+    artistName: string;
+    albumName?: string;
+    durationInMillis?: number;
+    isrc?: string;
+    url: string;
+    artwork?: {
+      url: string; // Template with {w}x{h}
+      width: number;
+      height: number;
+    };
+    previews?: Array<{ url: string }>;
+  };
+}
+
+interface AppleMusicSearchResponse {
+  results: {
+    songs?: {
+      data: AppleMusicSong[];
+    };
+  };
+}
+
+interface AppleMusicSongsResponse {
+  data: AppleMusicSong[];
+}
+
+/**
+ * Fetch a developer token from the Edge Function
+ */
+async function requestDeveloperToken(): Promise<DeveloperToken> {
+  const { data, error } = await supabase.functions.invoke('apple-music-token');
+
+  if (error || !data?.token) {
+    throw new Error(`Apple Music token unavailable: ${error?.message ?? data?.error ?? 'no token'}`);
+  }
+
+  return { token: data.token, expires_at: data.expires_at };
+}
+
+export class AppleMusicConnector implements ProviderConnector {
+  readonly name = 'apple_music' as const;
+  private developerToken: DeveloperToken | null = null;
+
+  constructor(
+    readonly enabled: boolean = false, // Requires MusicKit credentials on the Edge Function
+    private transport: HttpTransport = fetchTransport,
+    private tokenProvider: DeveloperTokenProvider = requestDeveloperToken
+  ) {}
+
+  async searchTracks(options: SearchOptions): Promise<NormalizedTrack[]> {
+    const { query, market = 'US', limit = 10, timeout = 5000, signal } = options;
+
+    const results = await searchWithTimeout(
+      searchSignal => this.performSearch(query, market, limit, searchSignal),
+      timeout,
+      'Apple Music',
+      signal
+    );
+
+    return results;
+  }
+
+  private async performSearch(
+    query: string,
+    market: string,
+    limit: number,
+    signal?: AbortSignal
+  ): Promise<NormalizedTrack[]> {
+    const params = new URLSearchParams({
+      term: query,
+      types: 'songs',
+      limit: Math.min(limit, 25).toString(), // API maximum
+    });
+
+    const response = await this.request(`/catalog/${storefront(market)}/search?${params}`, signal);
+
+    if (!isOk(response)) {
+      throw providerError('Apple Music search', response);
+    }
+
+    const data = readJson<AppleMusicSearchResponse>(response);
+    return (data.results.songs?.data ?? []).map(song => this.normalizeTrack(song));
+  }
+
+  /**
+   * Authorized request; a rejected token is refreshed once
+   */
+  private async request(path: string, signal?: AbortSignal): Promise<HttpResponse> {
+    const send = async () => this.transport.request({
+      url: `${APPLE_MUSIC_API_URL}${path}`,
+      headers: { Authorization: `Bearer ${await this.getToken()}` },
+      signal,
+    });
+
+    const response = await send();
+    if (response.status !== 401) return response;
+
+    this.developerToken = null;
+    return send();
+  }
+
+  private async getToken(): Promise<string> {
+    const expiresAt = this.developerToken ? new Date(this.developerToken.expires_at).getTime() : 0;
+
+    if (!this.developerToken || expiresAt - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+      this.developerToken = await this.tokenProvider();
+    }
+
+    return this.developerToken.token;
+  }
+
+  private normalizeTrack(song: AppleMusicSong): NormalizedTrack {
+    const { attributes } = song;
+
+    return {
+      title: attributes.name,
+      artists: [attributes.artistName],
+      album: attributes.albumName,
+      duration_ms: attributes.durationInMillis,
+      artwork_url: attributes.artwork?.url
+        .replace('{w}', String(Math.min(attributes.artwork.width, 1000)))
+        .replace('{h}', String(Math.min(attributes.artwork.height, 1000))),
+      isrc: attributes.isrc,
+      provider_track_id: song.id,
+      provider: 'apple_music',
+      url_web: attributes.url,
+      url_app: attributes.url.replace(/^https:/, 'music:'),
+      url_preview: attributes.previews?.[0]?.url,
+    };
+  }
+
+  async resolveLinks(providerTrackId: string, market: string = 'US'): Promise<ProviderLink> {
+    const fallback: ProviderLink = {
+      provider: 'apple_music',
+      provider_track_id: providerTrackId,
+      url_web: `https://music.apple.com/${storefront(market)}/song/${providerTrackId}`,
+      url_app: `music://music.apple.com/${storefront(market)}/song/${providerTrackId}`,
+    };
+
+    try {
+      const response = await this.request(
+        `/catalog/${storefront(market)}/songs/${encodeURIComponent(providerTrackId)}`
+      );
+      if (!isOk(response)) return fallback;
+
+      const [song] = readJson<AppleMusicSongsResponse>(response).data;
+      if (!song) return fallback;
+
+      const track = this.normalizeTrack(song);
+      return {
+        provider: 'apple_music',
+        provider_track_id: providerTrackId,
+        url_web: track.url_web,
+        url_app: track.url_app,
+        url_preview: track.url_preview,
+      };
+    } catch (error) {
+      console.warn('Apple Music link lookup failed:', error);
+      return fallback;
+    }
+  }
+
+  async checkHealth(): Promise<boolean> {
+    if (!this.enabled) return false;
+
+    try {
+      const response = await this.request('/catalog/us/search?term=test&types=songs&limit=1');
+      return isOk(response);
+    } catch (error) {
+      console.error('Apple Music health check failed:', error);
+      return false;
+    }
+  }
+}
+
+// Storefronts are lowercase ISO country codes
+function storefront(market: string): string {
+  return market.toLowerCase();
+}
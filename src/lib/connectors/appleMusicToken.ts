@@ -0,0 +1,82 @@
+/**
+ * Apple Music developer tokens
+ *
+ * Apple Music API requests carry a developer token: an ES256 JWT signed with
+ * a MusicKit private key (.p8), with the key ID in the header and the team
+ * ID as issuer. Signing uses WebCrypto only.
+ *
+ * SECURITY: The private key must never reach the browser. Tokens are signed
+ * by the apple-music-token Edge Function; the connector only receives them.
+ *
+ * NOTE: No imports so the edge function can load this module under Deno.
+ */
+
+// Apple accepts up to six months
+export const MAX_DEVELOPER_TOKEN_TTL_SECONDS = 15_777_000;
+
+export interface DeveloperTokenOptions {
+  teamId: string;
+  keyId: string;
+  privateKey: string; // PKCS#8 PEM, as downloaded from the developer portal
+  ttlSeconds?: number;
+  now?: Date;
+}
+
+export interface DeveloperToken {
+  token: string;
+  expires_at: string;
+}
+
+/**
+ * Sign a developer token
+ */
+export async function signDeveloperToken(options: DeveloperTokenOptions): Promise<DeveloperToken> {
+  const issuedAt = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  const ttl = Math.min(options.ttlSeconds ?? 12 * 3600, MAX_DEVELOPER_TOKEN_TTL_SECONDS);
+  const expiresAt = issuedAt + ttl;
+
+  const header = base64UrlJson({ alg: 'ES256', kid: options.keyId });
+  const payload = base64UrlJson({ iss: options.teamId, iat: issuedAt, exp: expiresAt });
+  const signingInput = `${header}.${payload}`;
+
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    pemToDer(options.privateKey),
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+
+  // WebCrypto returns the raw r||s signature JWS expects
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    new TextEncoder().encode(signingInput)
+  );
+
+  return {
+    token: `${signingInput}.${base64Url(new Uint8Array(signature))}`,
+    expires_at: new Date(expiresAt * 1000).toISOString(),
+  };
+}
+
+function pemToDer(pem: string): Uint8Array {
+  const base64 = pem
+    .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '')
+    .replace(/\\n/g, '') // Keys pasted into env vars often keep escaped newlines
+    .replace(/\s+/g, '');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function base64UrlJson(value: Record<string, unknown>): string {
+  return base64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function base64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
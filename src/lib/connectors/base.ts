@@ -20,6 +20,7 @@ export interface NormalizedTrack {
   energy?: number;
   danceability?: number;
   valence?: number;
+  available_markets?: string[]; // ISO country codes, when the provider publishes them
 }
 
 export interface SearchOptions {
@@ -27,6 +28,7 @@ export interface SearchOptions {
   market?: string;
   limit?: number;
   timeout?: number; // Milliseconds before giving up
+  signal?: AbortSignal; // Cancels in-flight provider requests
 }
 
 export interface ProviderConnector {
@@ -51,19 +53,144 @@ export interface ProviderConnector {
   checkHealth(): Promise<boolean>;
 }
 
+/**
+ * HTTP transport used by connectors that call provider APIs directly
+ * Injected so connectors can run against recorded fixtures (see recordReplay)
+ */
+export interface HttpRequest {
+  url: string;
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+export interface HttpResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface HttpTransport {
+  request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+/**
+ * Default transport backed by fetch
+ */
+export const fetchTransport: HttpTransport = {
+  async request({ url, method = 'GET', headers, body, signal }) {
+    const response = await fetch(url, { method, headers, body, signal });
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key] = value;
+    });
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: responseHeaders,
+      body: await response.text(),
+    };
+  },
+};
+
+export function isOk(response: HttpResponse): boolean {
+  return response.status >= 200 && response.status < 300;
+}
+
+/**
+ * Parse a JSON response body
+ */
+export function readJson<T>(response: HttpResponse): T {
+  return JSON.parse(response.body) as T;
+}
+
+/**
+ * Error thrown by connectors for failed provider responses
+ * quotaExceeded (a daily or hourly quota used up) and rateLimited (too many
+ * requests for now) tell the circuit breaker to stop calling the provider,
+ * for retryAfterMs when the provider says, instead of counting ordinary
+ * failures
+ */
+export class ProviderRequestError extends Error {
+  readonly status: number;
+  readonly quotaExceeded: boolean;
+  readonly rateLimited: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    status: number,
+    options: { quotaExceeded?: boolean; rateLimited?: boolean; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.status = status;
+    this.quotaExceeded = options.quotaExceeded ?? false;
+    this.rateLimited = options.rateLimited ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Build a ProviderRequestError from a non-OK response
+ * 429 responses are treated as rate limits, honouring Retry-After
+ */
+export function providerError(operation: string, response: HttpResponse): ProviderRequestError {
+  const retryAfter = Number(response.headers['retry-after']);
+
+  return new ProviderRequestError(
+    `${operation} failed: ${response.status} ${response.statusText}`,
+    response.status,
+    {
+      rateLimited: response.status === 429,
+      retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+    }
+  );
+}
+
 /**
  * Helper to execute provider search with timeout
+ * The signal handed to run() is aborted on timeout or when the caller's
+ * signal aborts, so the underlying requests are cancelled too
  */
 export async function searchWithTimeout<T>(
-  promise: Promise<T>,
+  run: (signal: AbortSignal) => Promise<T>,
   timeoutMs: number,
-  providerName: string
+  providerName: string,
+  parentSignal?: AbortSignal
 ): Promise<T> {
+  const controller = new AbortController();
+  const abortFromParent = () => controller.abort(parentSignal?.reason);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  if (parentSignal?.aborted) abortFromParent();
+  parentSignal?.addEventListener('abort', abortFromParent, { once: true });
+
   const timeoutPromise = new Promise<T>((_, reject) => {
-    setTimeout(() => reject(new Error(`${providerName} timeout after ${timeoutMs}ms`)), timeoutMs);
+    timer = setTimeout(() => {
+      const error = new Error(`${providerName} timeout after ${timeoutMs}ms`);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
   });
-  
-  return Promise.race([promise, timeoutPromise]);
+
+  const abortPromise = new Promise<T>((_, reject) => {
+    controller.signal.addEventListener(
+      'abort',
+      () => reject(controller.signal.reason ?? new Error(`${providerName} search aborted`)),
+      { once: true }
+    );
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeoutPromise, abortPromise]);
+  } finally {
+    clearTimeout(timer);
+    parentSignal?.removeEventListener('abort', abortFromParent);
+  }
 }
 
 /**
@@ -76,33 +203,3 @@ export function normalizeString(str: string): string {
     .replace(/\s+/g, ' ')
     .trim();
 }
-
-/**
- * Check if two tracks are likely the same based on title, artist, and duration
- */
-export function tracksAreSimilar(
-  track1: NormalizedTrack,
-  track2: NormalizedTrack,
-  durationToleranceMs: number = 2000
-): boolean {
-  const title1 = normalizeString(track1.title);
-  const title2 = normalizeString(track2.title);
-  
-  if (title1 !== title2) return false;
-  
-  // Check if at least one artist matches
-  const artists1 = track1.artists.map(a => normalizeString(a));
-  const artists2 = track2.artists.map(a => normalizeString(a));
-  const hasCommonArtist = artists1.some(a1 => artists2.includes(a1));
-  
-  if (!hasCommonArtist) return false;
-  
-  // If both have duration, check tolerance
-  if (track1.duration_ms && track2.duration_ms) {
-    const durationDiff = Math.abs(track1.duration_ms - track2.duration_ms);
-    return durationDiff <= durationToleranceMs;
-  }
-  
-  // If duration not available, consider them similar based on title+artist
-  return true;
-}
@@ -0,0 +1,208 @@
+/**
+ * Per-provider circuit breaker and latency histogram
+ *
+ * STATES:
+ * - closed: requests flow; consecutive failures are counted
+ * - open: requests are rejected immediately until the cooldown passes
+ *   (quota errors open at once, for as long as the quota lasts; rate
+ *   limits open at once for a short pause)
+ * - half_open: one probe request is let through; success closes the
+ *   circuit, failure reopens it with a doubled cooldown
+ */
+
+import { ProviderRequestError } from './base';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const CIRCUIT_CONFIG = {
+  FAILURE_THRESHOLD: 3, // Consecutive failures before opening
+  COOLDOWN_MS: 30_000,
+  MAX_COOLDOWN_MS: 10 * 60_000,
+  QUOTA_COOLDOWN_MS: 60 * 60_000, // When the provider does not say when quota resets
+  RATE_LIMIT_COOLDOWN_MS: 60_000, // When a rate-limited provider sends no Retry-After
+  LATENCY_BUCKETS_MS: [100, 250, 500, 1000, 2500, 5000],
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface LatencySnapshot {
+  count: number;
+  mean_ms: number | null;
+  p50_ms: number | null; // Bucket upper bounds; null past the last bucket
+  p95_ms: number | null;
+  buckets: Array<{ le_ms: number | null; count: number }>; // le_ms null = overflow
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutive_failures: number;
+  successes: number;
+  failures: number;
+  rejected: number; // Short-circuited while open
+  opened_at: string | null;
+  retry_at: string | null; // When the next probe is allowed
+  last_error: string | null;
+  last_success_at: string | null;
+  last_failure_at: string | null;
+  latency: LatencySnapshot;
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+export class LatencyHistogram {
+  private counts: number[];
+  private total = 0;
+  private sum = 0;
+
+  constructor(private bounds: readonly number[] = CIRCUIT_CONFIG.LATENCY_BUCKETS_MS) {
+    this.counts = new Array(bounds.length + 1).fill(0);
+  }
+
+  record(latencyMs: number): void {
+    const index = this.bounds.findIndex(bound => latencyMs <= bound);
+    this.counts[index === -1 ? this.bounds.length : index]++;
+    this.total++;
+    this.sum += latencyMs;
+  }
+
+  /**
+   * Upper bound of the bucket holding the p-th percentile
+   */
+  percentile(p: number): number | null {
+    if (this.total === 0) return null;
+
+    const rank = Math.ceil((p / 100) * this.total);
+    let seen = 0;
+    for (let i = 0; i < this.counts.length; i++) {
+      seen += this.counts[i];
+      if (seen >= rank) return this.bounds[i] ?? null;
+    }
+    return null;
+  }
+
+  snapshot(): LatencySnapshot {
+    return {
+      count: this.total,
+      mean_ms: this.total ? Math.round(this.sum / this.total) : null,
+      p50_ms: this.percentile(50),
+      p95_ms: this.percentile(95),
+      buckets: this.counts.map((count, i) => ({ le_ms: this.bounds[i] ?? null, count })),
+    };
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private cooldownMs: number = CIRCUIT_CONFIG.COOLDOWN_MS;
+  private openedAt: number | null = null;
+  private retryAt: number | null = null;
+  private probeInFlight = false;
+  private successes = 0;
+  private failures = 0;
+  private rejected = 0;
+  private lastError: string | null = null;
+  private lastSuccessAt: number | null = null;
+  private lastFailureAt: number | null = null;
+  readonly latency = new LatencyHistogram();
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Whether a request may go out; moves an expired open circuit to
+   * half-open and lets exactly one probe through
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open' && this.retryAt !== null && this.now() >= this.retryAt) {
+      this.state = 'half_open';
+      this.probeInFlight = false;
+    }
+
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+
+    this.rejected++;
+    return false;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.latency.record(latencyMs);
+    this.successes++;
+    this.lastSuccessAt = this.now();
+    this.consecutiveFailures = 0;
+
+    // A successful probe (or health check) closes the circuit
+    this.state = 'closed';
+    this.cooldownMs = CIRCUIT_CONFIG.COOLDOWN_MS;
+    this.openedAt = null;
+    this.retryAt = null;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(error: unknown, latencyMs?: number): void {
+    if (latencyMs !== undefined) this.latency.record(latencyMs);
+    this.failures++;
+    this.consecutiveFailures++;
+    this.lastFailureAt = this.now();
+    this.lastError = (error as Error)?.message ?? String(error);
+
+    if (error instanceof ProviderRequestError && error.quotaExceeded) {
+      this.open(error.retryAfterMs ?? CIRCUIT_CONFIG.QUOTA_COOLDOWN_MS);
+    } else if (error instanceof ProviderRequestError && error.rateLimited) {
+      this.open(error.retryAfterMs ?? CIRCUIT_CONFIG.RATE_LIMIT_COOLDOWN_MS);
+    } else if (this.state === 'half_open') {
+      this.open(Math.min(this.cooldownMs * 2, CIRCUIT_CONFIG.MAX_COOLDOWN_MS));
+    } else if (this.state === 'closed' && this.consecutiveFailures >= CIRCUIT_CONFIG.FAILURE_THRESHOLD) {
+      this.open(CIRCUIT_CONFIG.COOLDOWN_MS);
+    }
+  }
+
+  /**
+   * Release a probe whose request was cancelled by the caller
+   */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  get currentState(): CircuitState {
+    return this.state;
+  }
+
+  snapshot(): CircuitSnapshot {
+    const iso = (time: number | null) => (time === null ? null : new Date(time).toISOString());
+
+    return {
+      state: this.state,
+      consecutive_failures: this.consecutiveFailures,
+      successes: this.successes,
+      failures: this.failures,
+      rejected: this.rejected,
+      opened_at: iso(this.openedAt),
+      retry_at: iso(this.retryAt),
+      last_error: this.lastError,
+      last_success_at: iso(this.lastSuccessAt),
+      last_failure_at: iso(this.lastFailureAt),
+      latency: this.latency.snapshot(),
+    };
+  }
+
+  private open(cooldownMs: number): void {
+    this.state = 'open';
+    this.cooldownMs = cooldownMs;
+    this.openedAt = this.now();
+    this.retryAt = this.openedAt + cooldownMs;
+    this.probeInFlight = false;
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Deezer API Connector
+ * Implements unified search and link resolution for Deezer
+ *
+ * Uses the public Deezer API (no user auth). The API sends no CORS headers,
+ * so browser requests go through the deezer-proxy Edge Function. Search is a
+ * single request: hits carry duration and a 30s preview. Available
+ * countries need a per-track lookup, which would spend the quota (50
+ * requests per 5 seconds) once per hit, so it is only made when a track's
+ * links are resolved.
+ */
+
+import {
+  ProviderConnector,
+  NormalizedTrack,
+  SearchOptions,
+  HttpTransport,
+  isOk,
+  readJson,
+  searchWithTimeout,
+  ProviderRequestError,
+} from './base';
+import { edgeProxyTransport } from './edgeProxy';
+import { ProviderLink } from '@/types';
+
+const DEEZER_API_URL = 'https://api.deezer.com';
+
+// Code 4 is the rate limit: 50 requests per 5 seconds
+const DEEZER_QUOTA_ERROR_CODE = 4;
+const DEEZER_QUOTA_WINDOW_MS = 5000;
+
+interface DeezerTrack {
+  id: number;
+  title: string;
+  title_short?: string;
+  title_version?: string;
+  link: string;
+  duration: number; // Seconds
+  preview?: string; // 30s MP3, signed URL that expires
+  available_countries?: string[]; // Track lookup only
+  artist: { id: number; name: string };
+  album?: {
+    id: number;
+    title: string;
+    cover_xl?: string;
+    cover_big?: string;
+    cover_medium?: string;
+  };
+}
+
+// Deezer reports errors in a 200 response body
+interface DeezerError {
+  error: {
+    type: string;
+    message: string;
+    code: number;
+  };
+}
+
+interface DeezerSearchResponse {
+  data?: DeezerTrack[];
+  total?: number;
+}
+
+export class DeezerConnector implements ProviderConnector {
+  readonly name = 'deezer' as const;
+  readonly enabled = true; // Public API, nothing to configure
+
+  constructor(
+    private transport: HttpTransport = edgeProxyTransport('deezer-proxy', DEEZER_API_URL),
+    private baseUrl: string = DEEZER_API_URL
+  ) {}
+
+  async searchTracks(options: SearchOptions): Promise<NormalizedTrack[]> {
+    const { query, limit = 10, timeout = 5000, signal } = options;
+
+    const results = await searchWithTimeout(
+      searchSignal => this.performSearch(query, limit, searchSignal),
+      timeout,
+      'Deezer',
+      signal
+    );
+
+    return results;
+  }
+
+  private async performSearch(query: string, limit: number, signal?: AbortSignal): Promise<NormalizedTrack[]> {
+    const params = new URLSearchParams({
+      q: query,
+      limit: limit.toString(),
+    });
+
+    const data = await this.request<DeezerSearchResponse>(`/search/track?${params}`, 'search', signal);
+    return (data.data ?? []).map(item => this.normalizeTrack(item));
+  }
+
+  private async getTrack(trackId: number | string, signal?: AbortSignal): Promise<DeezerTrack> {
+    return this.request<DeezerTrack>(`/track/${encodeURIComponent(String(trackId))}`, 'track lookup', signal);
+  }
+
+  private async request<T>(path: string, operation: string, signal?: AbortSignal): Promise<T> {
+    const response = await this.transport.request({ url: `${this.baseUrl}${path}`, signal });
+
+    if (!isOk(response)) {
+      throw new ProviderRequestError(`Deezer ${operation} failed: ${response.statusText}`, response.status, {
+        rateLimited: response.status === 429,
+      });
+    }
+
+    const data = readJson<T | DeezerError>(response);
+    if ((data as DeezerError).error) {
+      const { message, code } = (data as DeezerError).error;
+      throw new ProviderRequestError(`Deezer ${operation} failed: ${message} (code ${code})`, response.status, {
+        rateLimited: code === DEEZER_QUOTA_ERROR_CODE,
+        retryAfterMs: code === DEEZER_QUOTA_ERROR_CODE ? DEEZER_QUOTA_WINDOW_MS : undefined,
+      });
+    }
+
+    return data as T;
+  }
+
+  private normalizeTrack(track: DeezerTrack): NormalizedTrack {
+    const id = String(track.id);
+
+    // Search hits carry the main artist only, and no ISRC or countries
+    return {
+      title: track.title,
+      artists: [track.artist.name],
+      album: track.album?.title,
+      duration_ms: track.duration ? track.duration * 1000 : undefined,
+      artwork_url: track.album?.cover_xl || track.album?.cover_big || track.album?.cover_medium,
+      provider_track_id: id,
+      provider: 'deezer',
+      url_web: track.link || `https://www.deezer.com/track/${id}`,
+      url_app: `deezer://www.deezer.com/track/${id}`,
+      url_preview: track.preview || undefined,
+    };
+  }
+
+  async resolveLinks(providerTrackId: string): Promise<ProviderLink> {
+    const links: ProviderLink = {
+      provider: 'deezer',
+      provider_track_id: providerTrackId,
+      url_web: `https://www.deezer.com/track/${providerTrackId}`,
+      url_app: `deezer://www.deezer.com/track/${providerTrackId}`,
+    };
+
+    // Preview URLs expire, so fetch a fresh one (with the countries search lacks)
+    try {
+      const track = await this.getTrack(providerTrackId);
+      return {
+        ...links,
+        url_web: track.link || links.url_web,
+        url_preview: track.preview || undefined,
+        available_markets: track.available_countries,
+      };
+    } catch (error) {
+      console.warn('Deezer preview lookup failed:', error);
+      return links;
+    }
+  }
+
+  async checkHealth(): Promise<boolean> {
+    try {
+      await this.request<DeezerSearchResponse>('/search/track?q=test&limit=1', 'health check');
+      return true;
+    } catch (error) {
+      console.error('Deezer health check failed:', error);
+      return false;
+    }
+  }
+}
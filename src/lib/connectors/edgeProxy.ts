@@ -0,0 +1,41 @@
+/**
+ * Edge Function proxy transport
+ *
+ * Some provider APIs send no CORS headers, so the browser can't call them.
+ * Their connectors still build upstream URLs; this transport sends each
+ * request to a proxy Edge Function instead, which forwards the path and
+ * query to the provider and returns the response unchanged.
+ */
+
+import { HttpTransport, fetchTransport } from './base';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+/**
+ * Transport that rewrites `upstreamOrigin` URLs to the `functionName` proxy
+ * (https://api.deezer.com/search/track?q=… → …/functions/v1/deezer-proxy/search/track?q=…)
+ */
+export function edgeProxyTransport(
+  functionName: string,
+  upstreamOrigin: string,
+  inner: HttpTransport = fetchTransport
+): HttpTransport {
+  return {
+    request(request) {
+      if (!request.url.startsWith(upstreamOrigin)) {
+        return Promise.reject(new Error(`${functionName} only proxies ${upstreamOrigin}`));
+      }
+
+      return inner.request({
+        ...request,
+        url: `${SUPABASE_URL}/functions/v1/${functionName}${request.url.slice(upstreamOrigin.length)}`,
+        headers: {
+          ...request.headers,
+          apikey: SUPABASE_PUBLISHABLE_KEY,
+          Authorization: `Bearer ${SUPABASE_PUBLISHABLE_KEY}`,
+        },
+      });
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Record/replay fixture layer for connector HTTP transports
+ *
+ * RecordingTransport wraps a live transport and captures every exchange;
+ * toFixture() returns them with credentials redacted, ready to save as JSON.
+ * ReplayTransport serves a saved fixture without network, so connectors can
+ * be tested offline against real provider responses.
+ */
+
+import { HttpRequest, HttpResponse, HttpTransport } from './base';
+
+// Query params and headers that carry credentials
+const REDACTED_PARAMS = ['key', 'client_id', 'api_key', 'access_token'];
+const REDACTED_HEADERS = ['authorization', 'cookie'];
+const REDACTED = 'REDACTED';
+
+export interface RecordedExchange {
+  request: {
+    method: string;
+    url: string;
+    headers?: Record<string, string>;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText?: string;
+    headers?: Record<string, string>;
+    body: unknown; // Parsed JSON when the body was JSON, raw text otherwise
+  };
+}
+
+export interface TransportFixture {
+  exchanges: RecordedExchange[];
+}
+
+/**
+ * Wraps a transport and records its exchanges
+ */
+export class RecordingTransport implements HttpTransport {
+  private exchanges: RecordedExchange[] = [];
+
+  constructor(private inner: HttpTransport) {}
+
+  async request(request: HttpRequest): Promise<HttpResponse> {
+    const response = await this.inner.request(request);
+
+    this.exchanges.push({
+      request: {
+        method: request.method ?? 'GET',
+        url: redactUrl(request.url),
+        headers: request.headers ? redactHeaders(request.headers) : undefined,
+        body: request.body,
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        body: parseBody(response.body),
+      },
+    });
+
+    return response;
+  }
+
+  toFixture(): TransportFixture {
+    return { exchanges: [...this.exchanges] };
+  }
+}
+
+/**
+ * Serves recorded exchanges; unmatched requests fail loudly
+ * Requests match on method and URL with credentials redacted, so fixtures
+ * recorded with one key replay under any other. Repeated requests replay
+ * their recordings in order, then keep returning the last one.
+ */
+export class ReplayTransport implements HttpTransport {
+  private served = new Map<string, number>();
+  readonly requests: HttpRequest[] = [];
+
+  constructor(private fixture: TransportFixture) {}
+
+  async request(request: HttpRequest): Promise<HttpResponse> {
+    this.requests.push(request);
+
+    const key = exchangeKey(request.method ?? 'GET', redactUrl(request.url));
+    const matches = this.fixture.exchanges.filter(
+      exchange => exchangeKey(exchange.request.method, redactUrl(exchange.request.url)) === key
+    );
+
+    if (matches.length === 0) {
+      throw new Error(`No recorded exchange for ${key}`);
+    }
+
+    const count = this.served.get(key) ?? 0;
+    this.served.set(key, count + 1);
+    const { response } = matches[Math.min(count, matches.length - 1)];
+
+    return {
+      status: response.status,
+      statusText: response.statusText ?? '',
+      headers: response.headers ?? {},
+      body: typeof response.body === 'string' ? response.body : JSON.stringify(response.body),
+    };
+  }
+}
+
+function exchangeKey(method: string, url: string): string {
+  return `${method.toUpperCase()} ${url}`;
+}
+
+/**
+ * Redact credentials and sort query params (order-independent matching)
+ */
+function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  const params = [...parsed.searchParams.entries()]
+    .map(([name, value]): [string, string] => [name, REDACTED_PARAMS.includes(name) ? REDACTED : value])
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  parsed.search = new URLSearchParams(params).toString();
+  return parsed.toString();
+}
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      REDACTED_HEADERS.includes(name.toLowerCase()) ? REDACTED : value,
+    ])
+  );
+}
+
+function parseBody(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
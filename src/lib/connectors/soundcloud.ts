@@ -0,0 +1,178 @@
+/**
+ * SoundCloud API Connector
+ * Implements unified search and link resolution for SoundCloud
+ *
+ * Uses the api-v2 endpoints the SoundCloud web player uses. They need a
+ * registered client_id (VITE_SOUNDCLOUD_CLIENT_ID); without one the
+ * connector stays disabled.
+ */
+
+import {
+  ProviderConnector,
+  NormalizedTrack,
+  SearchOptions,
+  HttpResponse,
+  HttpTransport,
+  fetchTransport,
+  isOk,
+  readJson,
+  searchWithTimeout,
+  providerError,
+} from './base';
+import { ProviderLink } from '@/types';
+
+const SOUNDCLOUD_API_URL = 'https://api-v2.soundcloud.com';
+
+interface SoundCloudTrack {
+  id: number;
+  kind: 'track';
+  title: string;
+  duration: number; // Milliseconds (full track, even when only a snippet plays)
+  full_duration?: number;
+  permalink_url: string;
+  artwork_url?: string | null;
+  policy?: 'ALLOW' | 'MONETIZE' | 'SNIP' | 'BLOCK';
+  user: { id: number; username: string };
+  publisher_metadata?: {
+    artist?: string;
+    album_title?: string;
+    isrc?: string;
+  } | null;
+  media?: {
+    transcodings: Array<{
+      url: string;
+      preset: string;
+      snipped: boolean;
+      format: { protocol: 'progressive' | 'hls'; mime_type: string };
+    }>;
+  };
+}
+
+interface SoundCloudSearchResponse {
+  collection: Array<SoundCloudTrack | { kind: string }>;
+}
+
+export class SoundCloudConnector implements ProviderConnector {
+  readonly name = 'soundcloud' as const;
+  readonly enabled: boolean;
+
+  constructor(
+    private clientId?: string,
+    private transport: HttpTransport = fetchTransport
+  ) {
+    this.enabled = !!clientId;
+  }
+
+  async searchTracks(options: SearchOptions): Promise<NormalizedTrack[]> {
+    const { query, limit = 10, timeout = 5000, signal } = options;
+
+    const results = await searchWithTimeout(
+      searchSignal => this.performSearch(query, limit, searchSignal),
+      timeout,
+      'SoundCloud',
+      signal
+    );
+
+    return results;
+  }
+
+  private async performSearch(query: string, limit: number, signal?: AbortSignal): Promise<NormalizedTrack[]> {
+    const response = await this.request('/search/tracks', {
+      q: query,
+      limit: limit.toString(),
+    }, signal);
+
+    if (!isOk(response)) {
+      throw providerError('SoundCloud search', response);
+    }
+
+    const data = readJson<SoundCloudSearchResponse>(response);
+
+    return data.collection
+      .filter((item): item is SoundCloudTrack => item.kind === 'track')
+      .filter(track => track.policy !== 'BLOCK')
+      .map(track => this.normalizeTrack(track));
+  }
+
+  /**
+   * API request with the client_id
+   */
+  private async request(
+    path: string,
+    params: Record<string, string> = {},
+    signal?: AbortSignal
+  ): Promise<HttpResponse> {
+    if (!this.clientId) {
+      throw new Error('SoundCloud client_id is not configured');
+    }
+
+    const query = new URLSearchParams({ ...params, client_id: this.clientId });
+    return this.transport.request({ url: `${SOUNDCLOUD_API_URL}${path}?${query}`, signal });
+  }
+
+  private normalizeTrack(track: SoundCloudTrack): NormalizedTrack {
+    const id = String(track.id);
+
+    return {
+      title: track.title,
+      artists: [track.publisher_metadata?.artist || track.user.username],
+      album: track.publisher_metadata?.album_title,
+      duration_ms: track.full_duration ?? track.duration,
+      // Larger artwork than the default 100x100
+      artwork_url: track.artwork_url?.replace('-large.', '-t500x500.') ?? undefined,
+      isrc: track.publisher_metadata?.isrc || undefined,
+      provider_track_id: id,
+      provider: 'soundcloud',
+      url_web: track.permalink_url,
+      url_app: `soundcloud://sounds:${id}`,
+    };
+  }
+
+  async resolveLinks(providerTrackId: string): Promise<ProviderLink> {
+    const fallback: ProviderLink = {
+      provider: 'soundcloud',
+      provider_track_id: providerTrackId,
+      url_web: undefined, // Web URLs use permalinks, not IDs
+      url_app: `soundcloud://sounds:${providerTrackId}`,
+    };
+
+    try {
+      const response = await this.request(`/tracks/${encodeURIComponent(providerTrackId)}`);
+      if (!isOk(response)) return fallback;
+
+      const track = readJson<SoundCloudTrack>(response);
+      return {
+        ...fallback,
+        url_web: track.permalink_url,
+        url_preview: await this.resolveStreamUrl(track),
+      };
+    } catch (error) {
+      console.warn('SoundCloud link lookup failed:', error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Progressive stream URL (snippet for SNIP-policy tracks)
+   */
+  private async resolveStreamUrl(track: SoundCloudTrack): Promise<string | undefined> {
+    const transcoding = track.media?.transcodings.find(t => t.format.protocol === 'progressive');
+    if (!transcoding) return undefined;
+
+    const url = new URL(transcoding.url);
+    const response = await this.request(url.pathname);
+    if (!isOk(response)) return undefined;
+
+    return readJson<{ url?: string }>(response).url;
+  }
+
+  async checkHealth(): Promise<boolean> {
+    try {
+      const response = await this.request('/search/tracks', { q: 'test', limit: '1' });
+      return isOk(response);
+    } catch (error) {
+      console.error('SoundCloud health check failed:', error);
+      return false;
+    }
+  }
+}
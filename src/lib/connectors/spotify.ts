@@ -14,6 +14,10 @@ import {
 } from './base';
 import { ProviderLink } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
+import { getValidAccessToken } from '@/services/spotifyAuthService';
+
+const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
+const MAX_TRACK_IDS = 50; // GET /tracks limit
 
 interface SpotifyTrack {
   id: string;
@@ -32,6 +36,7 @@ interface SpotifyTrack {
   };
   preview_url?: string;
   uri: string;
+  available_markets?: string[]; // Only when no market is passed
 }
 
 export class SpotifyConnector implements ProviderConnector {
@@ -47,10 +52,14 @@ export class SpotifyConnector implements ProviderConnector {
   }
 
   async searchTracks(options: SearchOptions): Promise<NormalizedTrack[]> {
-    const { query, market = 'US', limit = 10, timeout = 5000 } = options;
+    const { query, market = 'US', limit = 10, timeout = 5000, signal } = options;
 
-    const searchPromise = this.performSearch(query, market, limit);
-    const results = await searchWithTimeout(searchPromise, timeout, 'Spotify');
+    const results = await searchWithTimeout(
+      searchSignal => this.performSearch(query, market, limit, searchSignal),
+      timeout,
+      'Spotify',
+      signal
+    );
 
     return results;
   }
@@ -62,7 +71,8 @@ export class SpotifyConnector implements ProviderConnector {
   private async performSearch(
     query: string,
     market: string,
-    limit: number
+    limit: number,
+    signal: AbortSignal
   ): Promise<NormalizedTrack[]> {
     try {
       // Try Edge Function (for authenticated users with connected Spotify)
@@ -71,10 +81,12 @@ export class SpotifyConnector implements ProviderConnector {
       if (session?.session) {
         const { data, error } = await supabase.functions.invoke('search_spotify', {
           body: { query, limit, market },
+          signal,
         });
         
         if (!error && data?.results) {
-          return data.results.map((r: any) => this.normalizeEdgeFunctionResult(r));
+          const tracks: NormalizedTrack[] = data.results.map((r: any) => this.normalizeEdgeFunctionResult(r));
+          return this.withAvailableMarkets(tracks, session.session.user.id, signal);
         }
       }
       
@@ -86,10 +98,12 @@ export class SpotifyConnector implements ProviderConnector {
         .select('*')
         .eq('provider', 'spotify')
         .or(`title.ilike.%${sanitizedQuery}%,artist.ilike.%${sanitizedQuery}%`)
-        .limit(limit);
+        .limit(limit)
+        .abortSignal(signal);
       
       if (cached && cached.length > 0) {
-        return cached.map(track => this.normalizeCachedTrack(track));
+        const tracks = cached.map(track => this.normalizeCachedTrack(track));
+        return session?.session ? this.withAvailableMarkets(tracks, session.session.user.id, signal) : tracks;
       }
       
       return [];
@@ -114,6 +128,45 @@ export class SpotifyConnector implements ProviderConnector {
     };
   }
 
+  /**
+   * Add where each track plays. Search results are filtered to one market
+   * and leave available_markets out; GET /tracks without a market lists
+   * them. Needs the user's connected Spotify account, otherwise
+   * availability stays unknown
+   */
+  private async withAvailableMarkets(
+    tracks: NormalizedTrack[],
+    userId: string,
+    signal: AbortSignal
+  ): Promise<NormalizedTrack[]> {
+    const ids = [...new Set(tracks.map(t => t.provider_track_id).filter(Boolean))].slice(0, MAX_TRACK_IDS);
+    if (ids.length === 0) return tracks;
+
+    try {
+      const accessToken = await getValidAccessToken(userId);
+      if (!accessToken) return tracks;
+
+      const response = await fetch(`${SPOTIFY_API_BASE}/tracks?ids=${ids.join(',')}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        signal,
+      });
+      if (!response.ok) return tracks;
+
+      const data: { tracks: Array<Pick<SpotifyTrack, 'id' | 'available_markets'> | null> } = await response.json();
+      const markets = new Map(
+        data.tracks.flatMap(t => (t && Array.isArray(t.available_markets) ? [[t.id, t.available_markets] as const] : []))
+      );
+
+      return tracks.map(track => {
+        const available = markets.get(track.provider_track_id);
+        return available ? { ...track, available_markets: available } : track;
+      });
+    } catch (error) {
+      console.error('Spotify availability lookup failed:', error);
+      return tracks;
+    }
+  }
+
   private normalizeCachedTrack(track: any): NormalizedTrack {
     return {
       title: track.title,
@@ -38,24 +38,6 @@ class StubConnector implements ProviderConnector {
   }
 }
 
-export class AppleMusicConnector extends StubConnector {
-  constructor() {
-    super('apple_music');
-  }
-}
-
-export class DeezerConnector extends StubConnector {
-  constructor() {
-    super('deezer');
-  }
-}
-
-export class SoundCloudConnector extends StubConnector {
-  constructor() {
-    super('soundcloud');
-  }
-}
-
 export class AmazonMusicConnector extends StubConnector {
   constructor() {
     super('amazon_music');
@@ -7,10 +7,30 @@ import {
   ProviderConnector,
   NormalizedTrack,
   SearchOptions,
+  HttpResponse,
+  HttpTransport,
+  fetchTransport,
+  isOk,
+  readJson,
   searchWithTimeout,
+  ProviderRequestError,
 } from './base';
 import { ProviderLink } from '@/types';
 
+// Daily quota, reset at midnight Pacific time
+const YOUTUBE_DAILY_QUOTA_REASONS = ['quotaExceeded', 'dailyLimitExceeded'];
+// Per-user/per-second limits, over within moments
+const YOUTUBE_RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+const DAY_MS = 24 * 60 * 60_000;
+
+const pacificClock = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/Los_Angeles',
+  hourCycle: 'h23',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+});
+
 interface YouTubeSearchResult {
   id: {
     videoId: string;
@@ -41,20 +61,27 @@ export class YouTubeConnector implements ProviderConnector {
   readonly name = 'youtube' as const;
   readonly enabled: boolean;
 
-  constructor(private apiKey?: string) {
+  constructor(
+    private apiKey?: string,
+    private transport: HttpTransport = fetchTransport
+  ) {
     this.enabled = !!apiKey;
   }
 
   async searchTracks(options: SearchOptions): Promise<NormalizedTrack[]> {
-    const { query, limit = 10, timeout = 5000 } = options;
+    const { query, limit = 10, timeout = 5000, signal } = options;
 
-    const searchPromise = this.performSearch(query, limit);
-    const results = await searchWithTimeout(searchPromise, timeout, 'YouTube');
+    const results = await searchWithTimeout(
+      searchSignal => this.performSearch(query, limit, searchSignal),
+      timeout,
+      'YouTube',
+      signal
+    );
 
     return results;
   }
 
-  private async performSearch(query: string, limit: number): Promise<NormalizedTrack[]> {
+  private async performSearch(query: string, limit: number, signal?: AbortSignal): Promise<NormalizedTrack[]> {
     if (!this.apiKey) {
       throw new Error('YouTube API key not configured');
     }
@@ -69,25 +96,60 @@ export class YouTubeConnector implements ProviderConnector {
       key: this.apiKey,
     });
 
-    const response = await fetch(
-      `https://www.googleapis.com/youtube/v3/search?${params}`
-    );
+    const response = await this.transport.request({
+      url: `https://www.googleapis.com/youtube/v3/search?${params}`,
+      signal,
+    });
 
-    if (!response.ok) {
-      throw new Error(`YouTube search failed: ${response.statusText}`);
+    if (!isOk(response)) {
+      throw this.searchError(response);
     }
 
-    const data = await response.json();
+    const data = readJson<{ items?: YouTubeSearchResult[] }>(response);
     const items: YouTubeSearchResult[] = data.items || [];
 
     // Get video details for duration
     const videoIds = items.map(item => item.id.videoId).join(',');
-    const details = await this.getVideoDetails(videoIds);
+    const details = await this.getVideoDetails(videoIds, signal);
 
     return items.map((item, index) => this.normalizeTrack(item, details[index]));
   }
 
-  private async getVideoDetails(videoIds: string): Promise<YouTubeVideoDetails[]> {
+  /**
+   * Quota exhaustion comes back as 403 with reason quotaExceeded; the daily
+   * quota resets at midnight Pacific time, so the breaker stays open until
+   * then (every probe search would cost quota). Rate limits and 429s only
+   * need a short pause, or as long as Retry-After says
+   */
+  private searchError(response: HttpResponse): ProviderRequestError {
+    let reasons: string[] = [];
+    try {
+      const body = readJson<{ error?: { errors?: Array<{ reason?: string }> } }>(response);
+      reasons = (body.error?.errors ?? []).map(e => e.reason ?? '');
+    } catch {
+      // Non-JSON error body
+    }
+
+    const quotaExceeded = reasons.some(reason => YOUTUBE_DAILY_QUOTA_REASONS.includes(reason));
+    const rateLimited = reasons.some(reason => YOUTUBE_RATE_LIMIT_REASONS.includes(reason)) || response.status === 429;
+
+    if (quotaExceeded) {
+      return new ProviderRequestError('YouTube search failed: quota exceeded', response.status, {
+        quotaExceeded: true,
+        retryAfterMs: msUntilPacificMidnight(),
+      });
+    }
+    if (rateLimited) {
+      const retryAfter = Number(response.headers['retry-after']);
+      return new ProviderRequestError('YouTube search failed: rate limited', response.status, {
+        rateLimited: true,
+        retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+      });
+    }
+    return new ProviderRequestError(`YouTube search failed: ${response.statusText}`, response.status);
+  }
+
+  private async getVideoDetails(videoIds: string, signal?: AbortSignal): Promise<YouTubeVideoDetails[]> {
     if (!this.apiKey || !videoIds) return [];
 
     const params = new URLSearchParams({
@@ -96,15 +158,16 @@ export class YouTubeConnector implements ProviderConnector {
       key: this.apiKey,
     });
 
-    const response = await fetch(
-      `https://www.googleapis.com/youtube/v3/videos?${params}`
-    );
+    const response = await this.transport.request({
+      url: `https://www.googleapis.com/youtube/v3/videos?${params}`,
+      signal,
+    });
 
-    if (!response.ok) {
+    if (!isOk(response)) {
       return [];
     }
 
-    const data = await response.json();
+    const data = readJson<{ items?: YouTubeVideoDetails[] }>(response);
     return data.items || [];
   }
 
@@ -192,14 +255,31 @@ export class YouTubeConnector implements ProviderConnector {
         key: this.apiKey,
       });
 
-      const response = await fetch(
-        `https://www.googleapis.com/youtube/v3/search?${params}`
-      );
+      const response = await this.transport.request({
+        url: `https://www.googleapis.com/youtube/v3/search?${params}`,
+      });
 
-      return response.ok;
+      return isOk(response);
     } catch (error) {
       console.error('YouTube health check failed:', error);
       return false;
     }
   }
 }
+
+/**
+ * Time until the next midnight in America/Los_Angeles, when YouTube's daily
+ * quota resets; DST changes make that day 23 or 25 hours long
+ */
+export function msUntilPacificMidnight(now: number = Date.now()): number {
+  let untilMs = DAY_MS - pacificTimeOfDayMs(now);
+  // Landed an hour off midnight: the clocks changed in between
+  const atReset = pacificTimeOfDayMs(now + untilMs);
+  untilMs += atReset > DAY_MS / 2 ? DAY_MS - atReset : -atReset;
+  return untilMs;
+}
+
+function pacificTimeOfDayMs(time: number): number {
+  const parts = Object.fromEntries(pacificClock.formatToParts(time).map(part => [part.type, part.value]));
+  return ((Number(parts.hour) * 60 + Number(parts.minute)) * 60 + Number(parts.second)) * 1000 + (time % 1000);
+}
@@ -0,0 +1,1767 @@
+/**
+ * Harmonic DSP
+ *
+ * Pure-TypeScript signal processing for harmonic analysis:
+ * STFT → chromagram → Krumhansl key profiles → template-matched chords →
+ * beat-synchronous Roman numerals, key changes (modulations) from windowed
+ * key estimates, plus a perceptual audio hash for recognising the same
+ * recording across encodings.
+ *
+ * Runs on CPU against decoded PCM with no Web Audio dependency, so the same
+ * code serves the browser, the harmonic-analysis edge function and offline
+ * tests against WAV fixtures.
+ *
+ * NOTE: Keep this module free of runtime imports (type imports only) so Deno
+ * can load it directly.
+ */
+
+import type {
+  AnalysisConfidence,
+  CadenceType,
+  ChordQuality,
+  HarmonicFingerprint,
+  ModalColor,
+  Mode,
+  Modulation,
+  PivotChord,
+  RelativeTonalCenter,
+  RomanChord,
+} from '@/types/harmony';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const ANALYSIS_MODEL_VERSION = '1.2.0';
+
+// Below this overall confidence a fingerprint stays provisional
+export const HIGH_CONFIDENCE_THRESHOLD = 0.7;
+
+const DSP_CONFIG = {
+  // Everything above ~5 kHz is irrelevant for chroma, so decimate first
+  TARGET_SAMPLE_RATE: 11025,
+  LOWPASS_TAPS: 31,
+
+  // Chroma STFT (~370ms window, ~93ms hop at 11.025 kHz)
+  CHROMA_FRAME_SIZE: 4096,
+  CHROMA_HOP_SIZE: 1024,
+  MIN_FREQ_HZ: 65,
+  MAX_FREQ_HZ: 2100,
+
+  // Onset STFT (~23ms hop) for beat tracking
+  ONSET_FRAME_SIZE: 1024,
+  ONSET_HOP_SIZE: 256,
+
+  // Tempo search
+  MIN_BPM: 60,
+  MAX_BPM: 180,
+  PRIOR_BPM: 120,
+  BEAT_TIGHTNESS: 100,
+  BEATS_PER_BAR: 4,
+
+  // Chord decoding
+  CHORD_CHANGE_PENALTY: 0.12,
+  DIATONIC_BONUS: 0.04,
+  NO_CHORD_SCORE: 0.55,
+  SILENCE_RMS: 1e-3,
+
+  // Loop detection
+  LOOP_CANDIDATES_BARS: [1, 2, 4, 8, 16],
+
+  // Key changes: per-beat key scores over a centred window, Viterbi-smoothed
+  KEY_WINDOW_BEATS: 16,
+  KEY_CHANGE_PENALTY: 3,
+  MIN_KEY_SEGMENT_BEATS: 16,
+  PIVOT_LOOKBACK_BEATS: 8,
+  // Mean correlation gain of the new key that counts as full confidence
+  MODULATION_FULL_GAIN: 0.3,
+
+  // Perceptual hash: 64 random hyperplanes over time-invariant chroma statistics
+  AUDIO_HASH_BITS: 64,
+  AUDIO_HASH_BAND_BITS: 16,
+  AUDIO_HASH_SEED: 0x5eedc1ad,
+  CO_OCCURRENCE_LAG_SECONDS: 1,
+
+  // Chromaprint-style sub-fingerprints (32 bits per chroma frame)
+  CHROMAPRINT_SMOOTHING_FRAMES: 4,
+  CHROMAPRINT_MAX_SECONDS: 120,
+  CHROMAPRINT_MAX_OFFSET_SECONDS: 15,
+  CHROMAPRINT_MIN_OVERLAP_FRAMES: 64,
+
+  // Same recording (re-encode, remaster, re-upload) when within these bounds
+  MAX_HASH_DISTANCE: 6,
+  MAX_BIT_ERROR_RATE: 0.15,
+} as const;
+
+export const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Krumhansl-Kessler probe-tone profiles
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Chord templates as intervals above the root
+const CHORD_TEMPLATES: Array<{ quality: ChordQuality; intervals: number[] }> = [
+  { quality: 'major', intervals: [0, 4, 7] },
+  { quality: 'minor', intervals: [0, 3, 7] },
+  { quality: 'diminished', intervals: [0, 3, 6] },
+  { quality: 'dominant7', intervals: [0, 4, 7, 10] },
+  { quality: 'major7', intervals: [0, 4, 7, 11] },
+  { quality: 'minor7', intervals: [0, 3, 7, 10] },
+  { quality: 'sus4', intervals: [0, 5, 7] },
+];
+
+// Scale-degree names relative to the tonic (index = semitones above tonic)
+const MAJOR_DEGREES = ['I', 'bII', 'II', 'bIII', 'III', 'IV', '#IV', 'V', 'bVI', 'VI', 'bVII', 'VII'];
+const MINOR_DEGREES = ['I', 'bII', 'II', 'III', '#III', 'IV', '#IV', 'V', 'VI', '#VI', 'VII', '#VII'];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Mono PCM audio (samples in -1..1)
+ */
+export interface PcmAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface KeyEstimate {
+  tonic: number; // Pitch class, 0 = C
+  mode: 'major' | 'minor';
+  correlation: number; // Pearson r against the winning profile
+  margin: number; // Gap to the runner-up key
+}
+
+export interface DetectedChord {
+  root: number; // Pitch class, 0 = C
+  quality: ChordQuality;
+}
+
+export interface BeatGrid {
+  bpm: number;
+  beat_times_ms: number[];
+  strength: number; // 0.0 - 1.0 periodicity of the onset envelope
+}
+
+/**
+ * Stretch of beats in one key
+ */
+export interface KeySegment {
+  start_beat: number;
+  end_beat: number; // Exclusive
+  key: KeyEstimate;
+  profile: number[]; // Mean chroma of the segment's voiced beats
+}
+
+export interface LoopEstimate {
+  length_bars: number;
+  consistency: number; // 0.0 - 1.0 agreement between repetitions
+  start_beat: number; // First beat of the representative loop instance
+  downbeat_phase: number;
+}
+
+/**
+ * Full result of the DSP pipeline for one PCM buffer
+ */
+export interface PcmHarmonyAnalysis {
+  key: KeyEstimate;
+  mode: Mode;
+  modal_color?: ModalColor;
+  tempo_bpm: number;
+  beats: BeatGrid;
+  beat_chords: Array<DetectedChord | null>;
+  progression: RomanChord[];
+  loop: LoopEstimate;
+  modulations: Modulation[];
+  chroma_profile: number[]; // Mean chroma over voiced frames (12 bins)
+  confidence: AnalysisConfidence;
+  duration_ms: number;
+}
+
+/**
+ * Perceptual identity of a recording, stable across encodings and bitrates
+ */
+export interface AudioFingerprint {
+  audio_hash: string; // 64-bit LSH of chroma statistics (16 hex chars)
+  hash_bands: string[]; // "<band>:<hex>" keys for near-duplicate lookup
+  chromaprint: string; // Base64 sub-fingerprints for alignment-based verification
+  duration_ms: number;
+}
+
+export interface PerceptualMatch {
+  hash_distance: number; // Hamming distance between audio hashes (0-64)
+  bit_error_rate: number | null; // Best aligned chromaprint BER, null if unavailable
+  offset_ms: number; // Alignment offset of b relative to a
+  is_match: boolean;
+}
+
+// ============================================================================
+// MAIN PIPELINE
+// ============================================================================
+
+/**
+ * Analyze decoded PCM into key, tempo, chords and a loop progression
+ */
+export function analyzePcm(pcm: PcmAudio): PcmHarmonyAnalysis {
+  if (!pcm.samples.length || !pcm.sampleRate) {
+    throw new Error('Empty audio buffer');
+  }
+
+  const audio = downsample(pcm);
+  const durationMs = (pcm.samples.length / pcm.sampleRate) * 1000;
+
+  // Step 1: Chromagram + onset envelope
+  const chromagram = computeChromagram(audio);
+  const onset = computeOnsetEnvelope(audio);
+
+  // Step 2: Global key from the voiced chroma profile
+  const chromaProfile = meanChroma(chromagram.chroma, chromagram.rms);
+  const globalKey = estimateKey(chromaProfile);
+
+  // Step 3: Beat grid
+  const beats = trackBeats(onset.envelope, onset.hopSeconds);
+
+  // Step 4: Key changes; a modulating track is described from its opening key
+  // (the global profile of a C → D track reads as neither)
+  const beatChroma = beatSynchronousChroma(chromagram, beats.beat_times_ms, durationMs);
+  const keySegments = detectKeySegments(beatChroma.chroma, beatChroma.rms);
+  const modulating = keySegments.length > 1;
+  const key = modulating ? keySegments[0].key : globalKey;
+  const modalColor = detectModalColor(modulating ? keySegments[0].profile : chromaProfile, key);
+
+  // Step 5: Beat-synchronous chroma → chord labels
+  const decoded = decodeChords(beatChroma.chroma, beatChroma.rms, key);
+
+  // Step 6: Loop detection → Roman numerals in the key the loop is played in
+  const loop = detectLoop(decoded.chords);
+  const loopKey = keySegments.find(s => loop.start_beat >= s.start_beat && loop.start_beat < s.end_beat)?.key ?? key;
+  const progression = extractProgression(decoded.chords, beats.beat_times_ms, loop, loopKey);
+  const modulations = modulating
+    ? describeModulations(keySegments, decoded.chords, beats.beat_times_ms)
+    : [];
+
+  const voiced = decoded.chords.filter(Boolean).length;
+  const voicedRatio = decoded.chords.length ? voiced / decoded.chords.length : 0;
+
+  const keyConfidence = clamp01(key.correlation) * 0.5 + clamp01(key.margin / 0.15) * 0.5;
+  const fitFloor = DSP_CONFIG.NO_CHORD_SCORE;
+  const chordConfidence = clamp01((decoded.meanFit - fitFloor) / (1 - fitFloor)) * voicedRatio;
+  const structureConfidence = progression.length ? loop.consistency : 0;
+  const tempoConfidence = beats.strength;
+
+  const overall =
+    keyConfidence * 0.3 +
+    chordConfidence * 0.3 +
+    structureConfidence * 0.25 +
+    tempoConfidence * 0.15;
+
+  return {
+    key,
+    mode: modalColor ?? key.mode,
+    modal_color: modalColor,
+    tempo_bpm: beats.bpm,
+    beats,
+    beat_chords: decoded.chords,
+    progression,
+    loop,
+    modulations,
+    chroma_profile: chromaProfile,
+    confidence: {
+      overall: round3(overall),
+      key_detection: round3(keyConfidence),
+      chord_detection: round3(chordConfidence),
+      structure_detection: round3(structureConfidence),
+      tempo_detection: round3(tempoConfidence),
+    },
+    duration_ms: Math.round(durationMs),
+  };
+}
+
+// ============================================================================
+// FINGERPRINT
+// ============================================================================
+
+/**
+ * Map a DSP analysis onto the stored fingerprint shape
+ */
+export function buildHarmonicFingerprint(
+  analysis: PcmHarmonyAnalysis,
+  ids: { track_id: string; audio_hash?: string | null; isrc?: string | null }
+): HarmonicFingerprint {
+  const tonalCenter: RelativeTonalCenter = {
+    root_interval: analysis.key.tonic,
+    mode: analysis.mode,
+    stability_score: analysis.confidence.key_detection,
+  };
+
+  const progression = analysis.progression;
+  const confidence = analysis.confidence.overall;
+
+  return {
+    track_id: ids.track_id,
+    audio_hash: ids.audio_hash ?? null,
+    isrc: ids.isrc ?? null,
+    tonal_center: tonalCenter,
+    roman_progression: progression,
+    loop_length_bars: analysis.loop.length_bars,
+    cadence_type: classifyCadence(progression, analysis.loop.consistency),
+    modal_color: analysis.modal_color,
+    tempo_bpm: analysis.tempo_bpm,
+    modulations: analysis.modulations,
+    confidence_score: confidence,
+    analysis_timestamp: new Date().toISOString(),
+    analysis_version: ANALYSIS_MODEL_VERSION,
+    is_provisional: confidence < HIGH_CONFIDENCE_THRESHOLD || progression.length === 0,
+    detected_key: PITCH_CLASSES[tonalCenter.root_interval % 12],
+    detected_mode: analysis.mode === 'aeolian' ? 'minor' : analysis.mode,
+  };
+}
+
+/**
+ * Classify cadence type
+ */
+export function classifyCadence(progression: RomanChord[], loopConsistency = 0): CadenceType {
+  if (progression.length === 0) return 'none';
+
+  const lastChord = romanDegree(progression[progression.length - 1].numeral);
+  const secondLastChord = progression.length > 1
+    ? romanDegree(progression[progression.length - 2].numeral)
+    : null;
+
+  // Simple cadence detection rules
+  if (lastChord === 'I' || lastChord === 'i') {
+    if (secondLastChord === 'V') return 'authentic';
+    if (secondLastChord === 'IV' || secondLastChord === 'iv') return 'plagal';
+    if (secondLastChord === 'vi') return 'deceptive';
+  }
+
+  if (lastChord === 'V') {
+    return 'half';
+  }
+
+  // Repeating progression without a functional resolution
+  if (loopConsistency >= 0.75 && progression.length > 1) {
+    return 'loop';
+  }
+
+  return 'none';
+}
+
+// ============================================================================
+// DECODING & RESAMPLING
+// ============================================================================
+
+/**
+ * Decode a RIFF/WAVE file (PCM 8/16/24/32-bit or IEEE float) to mono PCM
+ */
+export function decodeWav(buffer: ArrayBuffer): PcmAudio {
+  const view = new DataView(buffer);
+  if (view.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE stores the real format in the sub-format GUID
+      if (format === 0xfffe && size >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === 'data') {
+      dataOffset = body;
+      dataLength = Math.min(size, view.byteLength - body);
+      break;
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (dataOffset < 0 || !channels || !sampleRate) {
+    throw new Error('WAV file is missing fmt or data chunk');
+  }
+  if (format !== 1 && format !== 3) {
+    throw new Error(`Unsupported WAV encoding: ${format}`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channels));
+  const samples = new Float32Array(frameCount);
+
+  for (let i = 0; i < frameCount; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) {
+      const pos = dataOffset + (i * channels + c) * bytesPerSample;
+      sum += readSample(view, pos, format, bitsPerSample);
+    }
+    samples[i] = sum / channels;
+  }
+
+  return { samples, sampleRate };
+}
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+function readSample(view: DataView, pos: number, format: number, bits: number): number {
+  if (format === 3) {
+    return bits === 64 ? view.getFloat64(pos, true) : view.getFloat32(pos, true);
+  }
+
+  switch (bits) {
+    case 8:
+      return (view.getUint8(pos) - 128) / 128;
+    case 16:
+      return view.getInt16(pos, true) / 32768;
+    case 24: {
+      const value = view.getUint8(pos) | (view.getUint8(pos + 1) << 8) | (view.getInt8(pos + 2) << 16);
+      return value / 8388608;
+    }
+    case 32:
+      return view.getInt32(pos, true) / 2147483648;
+    default:
+      throw new Error(`Unsupported WAV bit depth: ${bits}`);
+  }
+}
+
+/**
+ * Mix interleaved or planar channels down to mono
+ */
+export function mixToMono(channels: Float32Array[], sampleRate: number): PcmAudio {
+  if (channels.length === 1) return { samples: channels[0], sampleRate };
+
+  const length = Math.min(...channels.map(ch => ch.length));
+  const samples = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) samples[i] += channel[i] / channels.length;
+  }
+  return { samples, sampleRate };
+}
+
+/**
+ * Decimate by an integer factor towards TARGET_SAMPLE_RATE (windowed-sinc low-pass)
+ */
+function downsample(pcm: PcmAudio): PcmAudio {
+  const factor = Math.max(1, Math.floor(pcm.sampleRate / DSP_CONFIG.TARGET_SAMPLE_RATE));
+  if (factor === 1) return pcm;
+
+  const taps = DSP_CONFIG.LOWPASS_TAPS;
+  const half = (taps - 1) / 2;
+  const cutoff = 0.45 / factor;
+  const kernel = new Float64Array(taps);
+  let kernelSum = 0;
+
+  for (let t = 0; t < taps; t++) {
+    const x = t - half;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const hamming = 0.54 - 0.46 * Math.cos((2 * Math.PI * t) / (taps - 1));
+    kernel[t] = sinc * hamming;
+    kernelSum += kernel[t];
+  }
+
+  const input = pcm.samples;
+  const out = new Float32Array(Math.floor(input.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    const centre = i * factor;
+    let acc = 0;
+    for (let t = 0; t < taps; t++) {
+      const idx = centre + t - half;
+      if (idx >= 0 && idx < input.length) acc += input[idx] * kernel[t];
+    }
+    out[i] = acc / kernelSum;
+  }
+
+  return { samples: out, sampleRate: pcm.sampleRate / factor };
+}
+
+// ============================================================================
+// SPECTRAL ANALYSIS
+// ============================================================================
+
+const twiddleCache = new Map<number, { cos: Float64Array; sin: Float64Array }>();
+
+/**
+ * In-place iterative radix-2 FFT (length must be a power of two)
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  let twiddles = twiddleCache.get(n);
+  if (!twiddles) {
+    const cos = new Float64Array(n / 2);
+    const sin = new Float64Array(n / 2);
+    for (let k = 0; k < n / 2; k++) {
+      cos[k] = Math.cos((-2 * Math.PI * k) / n);
+      sin[k] = Math.sin((-2 * Math.PI * k) / n);
+    }
+    twiddles = { cos, sin };
+    twiddleCache.set(n, twiddles);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const stride = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = twiddles.cos[k * stride];
+        const wi = twiddles.sin[k * stride];
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Short-time Fourier transform, streamed frame by frame to keep memory flat
+ */
+function forEachStftFrame(
+  samples: Float32Array,
+  frameSize: number,
+  hopSize: number,
+  onFrame: (magnitudes: Float64Array, rms: number, frameIndex: number) => void
+): number {
+  const window = new Float64Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize);
+  }
+
+  const frameCount = samples.length >= frameSize
+    ? Math.floor((samples.length - frameSize) / hopSize) + 1
+    : 1;
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  const magnitudes = new Float64Array(frameSize / 2 + 1);
+
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * hopSize;
+    let energy = 0;
+    for (let i = 0; i < frameSize; i++) {
+      const sample = samples[start + i] ?? 0;
+      energy += sample * sample;
+      re[i] = sample * window[i];
+      im[i] = 0;
+    }
+
+    fft(re, im);
+    for (let k = 0; k < magnitudes.length; k++) {
+      magnitudes[k] = Math.hypot(re[k], im[k]);
+    }
+
+    onFrame(magnitudes, Math.sqrt(energy / frameSize), f);
+  }
+
+  return frameCount;
+}
+
+interface Chromagram {
+  chroma: number[][]; // frames x 12, max-normalized
+  rms: number[];
+  hopSeconds: number;
+  frameSeconds: number;
+}
+
+/**
+ * Fold the magnitude spectrum onto 12 pitch classes (tuning-weighted)
+ */
+function computeChromagram(pcm: PcmAudio): Chromagram {
+  const { CHROMA_FRAME_SIZE: frameSize, CHROMA_HOP_SIZE: hopSize } = DSP_CONFIG;
+  const bins = frameSize / 2 + 1;
+  const binClass = new Int8Array(bins).fill(-1);
+  const binWeight = new Float64Array(bins);
+
+  for (let k = 1; k < bins; k++) {
+    const freq = (k * pcm.sampleRate) / frameSize;
+    if (freq < DSP_CONFIG.MIN_FREQ_HZ || freq > DSP_CONFIG.MAX_FREQ_HZ) continue;
+    const midi = 69 + 12 * Math.log2(freq / 440);
+    const nearest = Math.round(midi);
+    binClass[k] = ((nearest % 12) + 12) % 12;
+    // Bins between two semitones are ambiguous; weight them down
+    binWeight[k] = Math.cos(Math.PI * (midi - nearest)) ** 2;
+  }
+
+  const chroma: number[][] = [];
+  const rms: number[] = [];
+
+  forEachStftFrame(pcm.samples, frameSize, hopSize, (magnitudes, frameRms) => {
+    const frame = new Array(12).fill(0);
+    for (let k = 1; k < bins; k++) {
+      const pc = binClass[k];
+      if (pc >= 0) frame[pc] += magnitudes[k] * binWeight[k];
+    }
+
+    const peak = Math.max(...frame);
+    chroma.push(peak > 0 ? frame.map(v => v / peak) : frame);
+    rms.push(frameRms);
+  });
+
+  return {
+    chroma,
+    rms,
+    hopSeconds: hopSize / pcm.sampleRate,
+    frameSeconds: frameSize / pcm.sampleRate,
+  };
+}
+
+/**
+ * Spectral-flux onset strength envelope (log-compressed, z-normalized)
+ */
+function computeOnsetEnvelope(pcm: PcmAudio): { envelope: Float64Array; hopSeconds: number } {
+  const { ONSET_FRAME_SIZE: frameSize, ONSET_HOP_SIZE: hopSize } = DSP_CONFIG;
+  const flux: number[] = [];
+  let previous: Float64Array | null = null;
+
+  forEachStftFrame(pcm.samples, frameSize, hopSize, magnitudes => {
+    const current = new Float64Array(magnitudes.length);
+    let sum = 0;
+    for (let k = 0; k < magnitudes.length; k++) {
+      current[k] = Math.log1p(100 * magnitudes[k]);
+      if (previous) sum += Math.max(0, current[k] - previous[k]);
+    }
+    flux.push(sum);
+    previous = current;
+  });
+
+  const hopSeconds = hopSize / pcm.sampleRate;
+
+  // Remove slow trends (≈1s moving average) and half-wave rectify
+  const radius = Math.max(1, Math.round(0.5 / hopSeconds));
+  const envelope = new Float64Array(flux.length);
+  let windowSum = 0;
+  let windowStart = 0;
+  let windowEnd = 0;
+  for (let i = 0; i < flux.length; i++) {
+    while (windowEnd < flux.length && windowEnd <= i + radius) windowSum += flux[windowEnd++];
+    while (windowStart < i - radius) windowSum -= flux[windowStart++];
+    envelope[i] = Math.max(0, flux[i] - windowSum / (windowEnd - windowStart));
+  }
+
+  const mean = envelope.reduce((a, b) => a + b, 0) / (envelope.length || 1);
+  const variance = envelope.reduce((a, b) => a + (b - mean) ** 2, 0) / (envelope.length || 1);
+  const std = Math.sqrt(variance);
+  if (std > 0) {
+    for (let i = 0; i < envelope.length; i++) envelope[i] /= std;
+  }
+
+  return { envelope, hopSeconds };
+}
+
+function meanChroma(chroma: number[][], rms: number[]): number[] {
+  const profile = new Array(12).fill(0);
+  let count = 0;
+  chroma.forEach((frame, i) => {
+    if (rms[i] < DSP_CONFIG.SILENCE_RMS) return;
+    for (let pc = 0; pc < 12; pc++) profile[pc] += frame[pc];
+    count++;
+  });
+  return count ? profile.map(v => round3(v / count)) : profile;
+}
+
+// ============================================================================
+// KEY DETECTION
+// ============================================================================
+
+/**
+ * Correlate a 12-bin chroma profile with all 24 rotated key profiles
+ */
+export function estimateKey(profile: number[]): KeyEstimate {
+  const scores: KeyEstimate[] = keyCorrelations(profile).map((correlation, k) => ({
+    ...KEY_STATES[k],
+    correlation,
+    margin: 0,
+  }));
+
+  scores.sort((a, b) => b.correlation - a.correlation);
+  const [best, runnerUp] = scores;
+
+  return {
+    ...best,
+    correlation: round3(best.correlation),
+    margin: round3(best.correlation - runnerUp.correlation),
+  };
+}
+
+// The 24 candidate keys, in keyCorrelations order
+const KEY_STATES: Array<Pick<KeyEstimate, 'tonic' | 'mode'>> = Array.from({ length: 24 }, (_, k) => ({
+  tonic: Math.floor(k / 2),
+  mode: k % 2 === 0 ? 'major' : 'minor',
+}));
+
+/**
+ * Pearson correlation of a chroma profile with every rotated key profile
+ */
+function keyCorrelations(profile: number[]): number[] {
+  return KEY_STATES.map(({ tonic, mode }) => {
+    const template = mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE;
+    return pearson(profile, profile.map((_, pc) => template[(pc - tonic + 12) % 12]));
+  });
+}
+
+/**
+ * Split the track into stretches of one key
+ * Each beat is scored against all 24 keys on a centred window of beat
+ * chroma; Viterbi decoding with a constant key-change penalty finds the
+ * segmentation, and each segment's key is then re-estimated from its whole
+ * profile. Segments shorter than MIN_KEY_SEGMENT_BEATS are absorbed by their
+ * neighbours, so a borrowed chord or a passing tonicization is not a
+ * modulation.
+ */
+export function detectKeySegments(beatChroma: number[][], beatRms: number[]): KeySegment[] {
+  const beats = beatChroma.length;
+  const voiced = (b: number) => beatRms[b] >= DSP_CONFIG.SILENCE_RMS;
+  if (beats < DSP_CONFIG.MIN_KEY_SEGMENT_BEATS * 2) {
+    return beats ? [keySegment(beatChroma, voiced, 0, beats)] : [];
+  }
+
+  // Prefix sums of voiced beat chroma for O(1) window profiles
+  const prefix: number[][] = [new Array(12).fill(0)];
+  for (let b = 0; b < beats; b++) {
+    prefix.push(prefix[b].map((sum, pc) => sum + (voiced(b) ? beatChroma[b][pc] : 0)));
+  }
+
+  const half = DSP_CONFIG.KEY_WINDOW_BEATS / 2;
+  const emissions = beatChroma.map((_, b) => {
+    const start = Math.max(0, b - half);
+    const end = Math.min(beats, b + half);
+    return keyCorrelations(prefix[end].map((sum, pc) => sum - prefix[start][pc]));
+  });
+
+  // Viterbi over the 24 keys
+  const states = KEY_STATES.length;
+  let previous = Float64Array.from(emissions[0]);
+  const backpointers: Int32Array[] = [new Int32Array(states).fill(-1)];
+
+  for (let b = 1; b < beats; b++) {
+    let bestPrev = 0;
+    for (let k = 1; k < states; k++) {
+      if (previous[k] > previous[bestPrev]) bestPrev = k;
+    }
+
+    const current = new Float64Array(states);
+    const pointers = new Int32Array(states);
+    for (let k = 0; k < states; k++) {
+      const change = previous[bestPrev] - DSP_CONFIG.KEY_CHANGE_PENALTY;
+      pointers[k] = previous[k] >= change ? k : bestPrev;
+      current[k] = Math.max(previous[k], change) + emissions[b][k];
+    }
+
+    backpointers.push(pointers);
+    previous = current;
+  }
+
+  let state = 0;
+  for (let k = 1; k < states; k++) {
+    if (previous[k] > previous[state]) state = k;
+  }
+  const path = new Array<number>(beats);
+  for (let b = beats - 1; b >= 0; b--) {
+    path[b] = state;
+    state = backpointers[b][state];
+  }
+
+  // Runs of one key; short runs join the previous one (or the next, at the start)
+  const bounds: Array<[number, number]> = [];
+  for (let b = 0; b < beats; b++) {
+    if (b === 0 || path[b] !== path[b - 1]) bounds.push([b, b + 1]);
+    else bounds[bounds.length - 1][1] = b + 1;
+  }
+  const merged: Array<[number, number]> = [];
+  for (const run of bounds) {
+    const last = merged[merged.length - 1];
+    if (last && run[1] - run[0] < DSP_CONFIG.MIN_KEY_SEGMENT_BEATS) last[1] = run[1];
+    else if (last && last[1] - last[0] < DSP_CONFIG.MIN_KEY_SEGMENT_BEATS) last[1] = run[1];
+    else merged.push([...run]);
+  }
+
+  // Re-estimate on whole segments; neighbours that agree are one segment
+  const segments: KeySegment[] = [];
+  for (const [start, end] of merged) {
+    const segment = keySegment(beatChroma, voiced, start, end);
+    const last = segments[segments.length - 1];
+    if (last && last.key.tonic === segment.key.tonic && last.key.mode === segment.key.mode) {
+      segments[segments.length - 1] = keySegment(beatChroma, voiced, last.start_beat, end);
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  // Windowed scores blur boundaries; place each one on the beat where the
+  // unwindowed beats switch from fitting the old key to fitting the new one
+  for (let i = 1; i < segments.length; i++) {
+    const previousSegment = segments[i - 1];
+    const segment = segments[i];
+    const lo = Math.max(previousSegment.start_beat + 1, segment.start_beat - half);
+    const hi = Math.min(segment.end_beat - 1, segment.start_beat + half);
+    const fit = (b: number, key: KeyEstimate) => (voiced(b) ? keyCorrelations(beatChroma[b])[keyIndex(key)] : 0);
+
+    let best = segment.start_beat;
+    let bestScore = -Infinity;
+    for (let split = lo; split <= hi; split++) {
+      let score = 0;
+      for (let b = lo - 1; b < split; b++) score += fit(b, previousSegment.key);
+      for (let b = split; b <= hi; b++) score += fit(b, segment.key);
+      // Ties stay closest to the Viterbi boundary
+      if (score > bestScore + 1e-9 || (Math.abs(score - bestScore) <= 1e-9 &&
+          Math.abs(split - segment.start_beat) < Math.abs(best - segment.start_beat))) {
+        best = split;
+        bestScore = score;
+      }
+    }
+
+    previousSegment.end_beat = best;
+    segment.start_beat = best;
+  }
+
+  return segments;
+}
+
+function keySegment(
+  beatChroma: number[][],
+  voiced: (beat: number) => boolean,
+  start: number,
+  end: number
+): KeySegment {
+  const profile = new Array(12).fill(0);
+  let count = 0;
+  for (let b = start; b < end; b++) {
+    if (!voiced(b)) continue;
+    for (let pc = 0; pc < 12; pc++) profile[pc] += beatChroma[b][pc];
+    count++;
+  }
+  const mean = count ? profile.map(v => round3(v / count)) : profile;
+  return { start_beat: start, end_beat: end, key: estimateKey(mean), profile: mean };
+}
+
+/**
+ * Describe segment boundaries as modulations, with the chord that carries
+ * each one when both keys share it
+ */
+function describeModulations(
+  segments: KeySegment[],
+  beatChords: Array<DetectedChord | null>,
+  beatTimesMs: number[]
+): Modulation[] {
+  const modulations: Modulation[] = [];
+
+  for (let i = 1; i < segments.length; i++) {
+    const from = segments[i - 1].key;
+    const to = segments[i].key;
+    const start = segments[i].start_beat;
+    const shift = (to.tonic - from.tonic + 12) % 12;
+
+    // How much better the new key explains the new segment than the old one
+    const correlations = keyCorrelations(segments[i].profile);
+    const gain = correlations[keyIndex(to)] - correlations[keyIndex(from)];
+
+    modulations.push({
+      timestamp_ms: Math.round(beatTimesMs[start] ?? 0),
+      tonal_center: {
+        root_interval: to.tonic,
+        mode: to.mode,
+        stability_score: round3(clamp01(to.correlation)),
+      },
+      interval_semitones: shift > 6 ? shift - 12 : shift,
+      pivot_chord: findPivotChord(beatChords, beatTimesMs, start, from, to),
+      confidence: round3(clamp01(gain / DSP_CONFIG.MODULATION_FULL_GAIN)),
+    });
+  }
+
+  return modulations;
+}
+
+/**
+ * Latest chord before the key change that is diatonic to both keys
+ */
+function findPivotChord(
+  beatChords: Array<DetectedChord | null>,
+  beatTimesMs: number[],
+  boundary: number,
+  from: KeyEstimate,
+  to: KeyEstimate
+): PivotChord | null {
+  const inFrom = diatonicChords(from);
+  const inTo = diatonicChords(to);
+  const earliest = Math.max(0, boundary - DSP_CONFIG.PIVOT_LOOKBACK_BEATS);
+
+  for (let b = Math.min(boundary, beatChords.length) - 1; b >= earliest; b--) {
+    const chord = beatChords[b];
+    if (!chord) continue;
+    if (!inFrom.has(`${(chord.root - from.tonic + 12) % 12}:${chord.quality}`)) continue;
+    if (!inTo.has(`${(chord.root - to.tonic + 12) % 12}:${chord.quality}`)) continue;
+
+    // Back to where this chord started
+    let first = b;
+    while (first > 0 && chordKey(beatChords[first - 1]) === chordKey(chord)) first--;
+
+    return {
+      numeral_before: toRomanChord(chord, from.tonic, from.mode).numeral,
+      numeral_after: toRomanChord(chord, to.tonic, to.mode).numeral,
+      quality: chord.quality,
+      timing_ms: Math.round(beatTimesMs[first] ?? 0),
+    };
+  }
+
+  return null;
+}
+
+const keyIndex = (key: Pick<KeyEstimate, 'tonic' | 'mode'>) => key.tonic * 2 + (key.mode === 'minor' ? 1 : 0);
+
+/**
+ * Detect modal color from characteristic scale degrees
+ * (dorian ♮6, phrygian ♭2, mixolydian ♭7, lydian ♯4)
+ */
+function detectModalColor(profile: number[], key: KeyEstimate): ModalColor | undefined {
+  const degree = (semitones: number) => profile[(key.tonic + semitones) % 12];
+  const DOMINANCE = 1.25;
+
+  if (key.mode === 'minor') {
+    if (degree(9) > degree(8) * DOMINANCE) return 'dorian';
+    if (degree(1) > degree(2) * DOMINANCE) return 'phrygian';
+    return undefined;
+  }
+
+  if (degree(10) > degree(11) * DOMINANCE) return 'mixolydian';
+  if (degree(6) > degree(5) * DOMINANCE) return 'lydian';
+  return undefined;
+}
+
+// ============================================================================
+// BEAT TRACKING
+// ============================================================================
+
+/**
+ * Estimate tempo by autocorrelation, then place beats with dynamic
+ * programming (Ellis, 2007) so the grid can follow small tempo drift
+ */
+export function trackBeats(envelope: Float64Array, hopSeconds: number): BeatGrid {
+  const n = envelope.length;
+  const minLag = Math.max(1, Math.round(60 / DSP_CONFIG.MAX_BPM / hopSeconds));
+  const maxLag = Math.round(60 / DSP_CONFIG.MIN_BPM / hopSeconds);
+  const priorLag = 60 / DSP_CONFIG.PRIOR_BPM / hopSeconds;
+
+  // Smooth spikes so that periods falling between two integer lags still correlate
+  const smoothed = new Float64Array(n);
+  const kernel = [1, 2, 3, 2, 1];
+  for (let i = 0; i < n; i++) {
+    let acc = 0;
+    for (let k = 0; k < kernel.length; k++) acc += (envelope[i + k - 2] ?? 0) * kernel[k];
+    smoothed[i] = acc / 9;
+  }
+
+  const autocorr = (lag: number) => {
+    let sum = 0;
+    for (let i = lag; i < n; i++) sum += smoothed[i] * smoothed[i - lag];
+    return sum / (n - lag || 1);
+  };
+
+  const zeroLag = autocorr(0);
+  let period = Math.round(priorLag);
+  let bestScore = -Infinity;
+  let strength = 0;
+
+  if (zeroLag > 0) {
+    const cache = new Map<number, number>();
+    const ac = (lag: number) => {
+      if (lag >= n) return 0;
+      if (!cache.has(lag)) cache.set(lag, autocorr(lag));
+      return cache.get(lag)!;
+    };
+
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      // Sum over metrical multiples so sparse onsets (bar-level changes) still vote
+      const periodicity = ac(lag) + ac(2 * lag) / 2 + ac(4 * lag) / 4;
+      const prior = Math.exp(-0.5 * (Math.log2(lag / priorLag) / 0.9) ** 2);
+      const score = periodicity * prior;
+      if (score > bestScore) {
+        bestScore = score;
+        period = lag;
+      }
+    }
+
+    strength = clamp01((ac(period) + ac(2 * period)) / (2 * zeroLag));
+  }
+
+  const beatFrames = placeBeats(envelope, period);
+  const meanInterval = beatFrames.length > 1
+    ? (beatFrames[beatFrames.length - 1] - beatFrames[0]) / (beatFrames.length - 1)
+    : period;
+
+  return {
+    bpm: round1(60 / (meanInterval * hopSeconds)),
+    beat_times_ms: beatFrames.map(frame => Math.round(frame * hopSeconds * 1000)),
+    strength: round3(strength),
+  };
+}
+
+function placeBeats(envelope: Float64Array, period: number): number[] {
+  const n = envelope.length;
+  if (n === 0) return [];
+
+  const score = new Float64Array(n);
+  const backlink = new Int32Array(n).fill(-1);
+  const tightness = DSP_CONFIG.BEAT_TIGHTNESS;
+
+  for (let t = 0; t < n; t++) {
+    let best = 0;
+    let bestPrev = -1;
+    const from = Math.max(0, t - 2 * period);
+    const to = t - Math.round(period / 2);
+    for (let prev = from; prev <= to; prev++) {
+      const deviation = Math.log((t - prev) / period);
+      const candidate = score[prev] - tightness * deviation * deviation;
+      if (bestPrev < 0 || candidate > best) {
+        best = candidate;
+        bestPrev = prev;
+      }
+    }
+    score[t] = envelope[t] + (bestPrev >= 0 ? best : 0);
+    backlink[t] = bestPrev;
+  }
+
+  // Best-scoring beat within the final period, then backtrack
+  let last = n - 1;
+  for (let t = Math.max(0, n - period); t < n; t++) {
+    if (score[t] > score[last]) last = t;
+  }
+
+  const beats: number[] = [];
+  for (let t = last; t >= 0; t = backlink[t]) beats.push(t);
+  return beats.reverse();
+}
+
+// ============================================================================
+// CHORD RECOGNITION
+// ============================================================================
+
+function beatSynchronousChroma(
+  chromagram: Chromagram,
+  beatTimesMs: number[],
+  durationMs: number
+): { chroma: number[][]; rms: number[] } {
+  const chroma: number[][] = [];
+  const rms: number[] = [];
+  const frameCentreMs = (f: number) =>
+    (f * chromagram.hopSeconds + chromagram.frameSeconds / 2) * 1000;
+
+  for (let b = 0; b < beatTimesMs.length; b++) {
+    const start = beatTimesMs[b];
+    const end = beatTimesMs[b + 1] ?? durationMs;
+    const sum = new Array(12).fill(0);
+    let energy = 0;
+    let count = 0;
+
+    for (let f = 0; f < chromagram.chroma.length; f++) {
+      const centre = frameCentreMs(f);
+      if (centre < start) continue;
+      if (centre >= end) break;
+      for (let pc = 0; pc < 12; pc++) sum[pc] += chromagram.chroma[f][pc];
+      energy += chromagram.rms[f];
+      count++;
+    }
+
+    // Very short beats may contain no frame centre; use the nearest frame
+    if (count === 0 && chromagram.chroma.length) {
+      const nearest = Math.min(
+        chromagram.chroma.length - 1,
+        Math.max(0, Math.round((start / 1000 - chromagram.frameSeconds / 2) / chromagram.hopSeconds))
+      );
+      chroma.push([...chromagram.chroma[nearest]]);
+      rms.push(chromagram.rms[nearest]);
+      continue;
+    }
+
+    chroma.push(count ? sum.map(v => v / count) : sum);
+    rms.push(count ? energy / count : 0);
+  }
+
+  return { chroma, rms };
+}
+
+interface ChordState {
+  root: number;
+  quality: ChordQuality;
+  template: number[];
+  diatonic: boolean;
+}
+
+function buildChordStates(key: KeyEstimate): ChordState[] {
+  const diatonicSet = diatonicChords(key);
+  const states: ChordState[] = [];
+
+  for (let root = 0; root < 12; root++) {
+    for (const { quality, intervals } of CHORD_TEMPLATES) {
+      const template = new Array(12).fill(0);
+      intervals.forEach(interval => (template[(root + interval) % 12] = 1));
+      states.push({
+        root,
+        quality,
+        template,
+        diatonic: diatonicSet.has(`${(root - key.tonic + 12) % 12}:${quality}`),
+      });
+    }
+  }
+
+  return states;
+}
+
+/**
+ * Chords diatonic to the key, as "interval:quality" keys
+ */
+function diatonicChords(key: KeyEstimate): Set<string> {
+  const entries: Array<[number, ChordQuality[]]> = key.mode === 'major'
+    ? [
+        [0, ['major', 'major7']],
+        [2, ['minor', 'minor7']],
+        [4, ['minor', 'minor7']],
+        [5, ['major', 'major7']],
+        [7, ['major', 'dominant7', 'sus4']],
+        [9, ['minor', 'minor7']],
+        [11, ['diminished']],
+      ]
+    : [
+        [0, ['minor', 'minor7']],
+        [2, ['diminished']],
+        [3, ['major', 'major7']],
+        [5, ['minor', 'minor7']],
+        [7, ['minor', 'major', 'dominant7', 'sus4']],
+        [8, ['major', 'major7']],
+        [10, ['major', 'dominant7']],
+      ];
+
+  const set = new Set<string>();
+  for (const [interval, qualities] of entries) {
+    for (const quality of qualities) set.add(`${interval}:${quality}`);
+  }
+  return set;
+}
+
+/**
+ * Viterbi decoding of beat chroma over chord templates + "no chord",
+ * with a constant penalty for changing chords
+ */
+function decodeChords(
+  beatChroma: number[][],
+  beatRms: number[],
+  key: KeyEstimate
+): { chords: Array<DetectedChord | null>; meanFit: number } {
+  const states = buildChordStates(key);
+  const noChord = states.length;
+  const stateCount = states.length + 1;
+  const beats = beatChroma.length;
+  if (beats === 0) return { chords: [], meanFit: 0 };
+
+  const emissions: Float64Array[] = beatChroma.map((chroma, b) => {
+    const emission = new Float64Array(stateCount);
+    const silent = beatRms[b] < DSP_CONFIG.SILENCE_RMS;
+    states.forEach((state, s) => {
+      const fit = cosine(chroma, state.template);
+      emission[s] = silent ? 0 : fit + (state.diatonic ? DSP_CONFIG.DIATONIC_BONUS : 0);
+    });
+    emission[noChord] = silent ? 1 : DSP_CONFIG.NO_CHORD_SCORE;
+    return emission;
+  });
+
+  const penalty = DSP_CONFIG.CHORD_CHANGE_PENALTY;
+  let previous = Float64Array.from(emissions[0]);
+  const backpointers: Int32Array[] = [new Int32Array(stateCount).fill(-1)];
+
+  for (let b = 1; b < beats; b++) {
+    let bestPrev = 0;
+    for (let s = 1; s < stateCount; s++) {
+      if (previous[s] > previous[bestPrev]) bestPrev = s;
+    }
+
+    const current = new Float64Array(stateCount);
+    const pointers = new Int32Array(stateCount);
+    for (let s = 0; s < stateCount; s++) {
+      const stay = previous[s];
+      const change = previous[bestPrev] - penalty;
+      if (stay >= change) {
+        current[s] = stay + emissions[b][s];
+        pointers[s] = s;
+      } else {
+        current[s] = change + emissions[b][s];
+        pointers[s] = bestPrev;
+      }
+    }
+
+    backpointers.push(pointers);
+    previous = current;
+  }
+
+  let state = 0;
+  for (let s = 1; s < stateCount; s++) {
+    if (previous[s] > previous[state]) state = s;
+  }
+
+  const path = new Array<number>(beats);
+  for (let b = beats - 1; b >= 0; b--) {
+    path[b] = state;
+    state = backpointers[b][state];
+  }
+
+  let fitSum = 0;
+  let fitCount = 0;
+  const chords = path.map((s, b) => {
+    if (s === noChord) return null;
+    fitSum += cosine(beatChroma[b], states[s].template);
+    fitCount++;
+    return { root: states[s].root, quality: states[s].quality };
+  });
+
+  return { chords, meanFit: fitCount ? fitSum / fitCount : 0 };
+}
+
+// ============================================================================
+// ROMAN NUMERALS
+// ============================================================================
+
+/**
+ * Express an absolute chord as a Roman numeral relative to the tonic
+ */
+export function toRomanChord(
+  chord: DetectedChord,
+  tonic: number,
+  mode: Mode
+): RomanChord {
+  const interval = (chord.root - tonic + 12) % 12;
+  const degrees = isMinorMode(mode) ? MINOR_DEGREES : MAJOR_DEGREES;
+  const degree = degrees[interval];
+  const lower = ['minor', 'diminished', 'minor7', 'half-diminished7', 'diminished7'].includes(chord.quality);
+  const numeral = lower ? degree.replace(/[IV]+/, m => m.toLowerCase()) : degree;
+
+  return {
+    numeral: numeral + qualitySuffix(chord.quality),
+    quality: chord.quality,
+  };
+}
+
+/**
+ * Strip quality suffixes from a numeral ("V7" → "V", "vii°" → "vii")
+ */
+export function romanDegree(numeral: string): string {
+  return numeral.replace(/(maj7|ø7|°7|°|\+|7|sus[24]|add9)$/, '');
+}
+
+/**
+ * Rewrite a numeral spelled against the major scale in the frame
+ * toRomanChord uses: in minor modes III, VI and VII are already the flat
+ * degrees, so "bVII" is "VII" and "bIII7" is "III7"
+ */
+export function toModeFrame(numeral: string, mode: Mode): string {
+  if (!isMinorMode(mode)) return numeral;
+  return numeral.replace(/^[b♭](VII|VI|III|vii|vi|iii)/, '$1');
+}
+
+function qualitySuffix(quality: ChordQuality): string {
+  switch (quality) {
+    case 'diminished':
+      return '°';
+    case 'augmented':
+      return '+';
+    case 'dominant7':
+    case 'minor7':
+      return '7';
+    case 'major7':
+      return 'maj7';
+    case 'diminished7':
+      return '°7';
+    case 'half-diminished7':
+      return 'ø7';
+    case 'sus2':
+      return 'sus2';
+    case 'sus4':
+      return 'sus4';
+    case 'add9':
+      return 'add9';
+    default:
+      return '';
+  }
+}
+
+function isMinorMode(mode: Mode): boolean {
+  return mode === 'minor' || mode === 'dorian' || mode === 'phrygian' || mode === 'aeolian' || mode === 'locrian';
+}
+
+// ============================================================================
+// LOOP DETECTION
+// ============================================================================
+
+const chordKey = (chord: DetectedChord | null) => (chord ? `${chord.root}:${chord.quality}` : 'N');
+
+/**
+ * Find the shortest bar period at which the chord sequence repeats
+ */
+export function detectLoop(beatChords: Array<DetectedChord | null>): LoopEstimate {
+  const beatsPerBar = DSP_CONFIG.BEATS_PER_BAR;
+  const labels = beatChords.map(chordKey);
+
+  // Downbeat phase: chord changes should land on bar lines
+  let downbeatPhase = 0;
+  let bestAlignment = -Infinity;
+  for (let phase = 0; phase < beatsPerBar; phase++) {
+    let alignment = 0;
+    for (let b = 1; b < labels.length; b++) {
+      if (labels[b] === labels[b - 1]) continue;
+      alignment += (b - phase) % beatsPerBar === 0 ? 1 : -0.25;
+    }
+    if (alignment > bestAlignment) {
+      bestAlignment = alignment;
+      downbeatPhase = phase;
+    }
+  }
+
+  const bars: string[] = [];
+  for (let b = downbeatPhase; b + beatsPerBar <= labels.length; b += beatsPerBar) {
+    bars.push(labels.slice(b, b + beatsPerBar).join(','));
+  }
+
+  const fallback: LoopEstimate = {
+    length_bars: Math.max(1, bars.length),
+    consistency: 0,
+    start_beat: downbeatPhase,
+    downbeat_phase: downbeatPhase,
+  };
+  if (bars.length < 2) return fallback;
+
+  const agreement = (length: number) => {
+    let same = 0;
+    for (let i = 0; i + length < bars.length; i++) if (bars[i] === bars[i + length]) same++;
+    return same / (bars.length - length);
+  };
+
+  const candidates = DSP_CONFIG.LOOP_CANDIDATES_BARS
+    .filter(length => length * 2 <= bars.length)
+    .map(length => ({ length, agreement: agreement(length) }));
+  if (candidates.length === 0) return fallback;
+
+  const best = Math.max(...candidates.map(c => c.agreement));
+  // Shortest period that explains (almost) as much as the best one
+  const chosen = candidates.find(c => c.agreement >= best - 0.05)!;
+
+  // Representative instance: the most frequent window of that length
+  const counts = new Map<string, { count: number; first: number }>();
+  for (let i = 0; i + chosen.length <= bars.length; i++) {
+    const window = bars.slice(i, i + chosen.length).join('|');
+    if (window.split(/[|,]/).every(label => label === 'N')) continue;
+    const entry = counts.get(window);
+    if (entry) entry.count++;
+    else counts.set(window, { count: 1, first: i });
+  }
+
+  let startBar = 0;
+  let bestCount = 0;
+  counts.forEach(({ count, first }) => {
+    if (count > bestCount || (count === bestCount && first < startBar)) {
+      bestCount = count;
+      startBar = first;
+    }
+  });
+
+  return {
+    length_bars: chosen.length,
+    consistency: round3(chosen.agreement),
+    start_beat: downbeatPhase + startBar * beatsPerBar,
+    downbeat_phase: downbeatPhase,
+  };
+}
+
+/**
+ * Re-read an analysis' loop in another key (e.g. its relative major/minor)
+ */
+export function progressionInKey(
+  analysis: PcmHarmonyAnalysis,
+  key: Pick<KeyEstimate, 'tonic' | 'mode'>
+): RomanChord[] {
+  return extractProgression(analysis.beat_chords, analysis.beats.beat_times_ms, analysis.loop, key);
+}
+
+/**
+ * Collapse the loop's beat labels into a Roman numeral progression
+ */
+function extractProgression(
+  beatChords: Array<DetectedChord | null>,
+  beatTimesMs: number[],
+  loop: LoopEstimate,
+  key: Pick<KeyEstimate, 'tonic' | 'mode'>
+): RomanChord[] {
+  const mode: Mode = key.mode;
+  const endBeat = Math.min(beatChords.length, loop.start_beat + loop.length_bars * DSP_CONFIG.BEATS_PER_BAR);
+  const progression: RomanChord[] = [];
+  let previousKey: string | null = null;
+
+  for (let b = loop.start_beat; b < endBeat; b++) {
+    const chord = beatChords[b];
+    const label = chordKey(chord);
+
+    if (label === previousKey) {
+      const last = progression[progression.length - 1];
+      if (last) last.duration_beats = (last.duration_beats ?? 0) + 1;
+      continue;
+    }
+
+    previousKey = label;
+    if (!chord) continue;
+
+    progression.push({
+      ...toRomanChord(chord, key.tonic, mode),
+      duration_beats: 1,
+      timing_ms: beatTimesMs[b],
+      inversions: 0,
+    });
+  }
+
+  return progression;
+}
+
+// ============================================================================
+// PERCEPTUAL HASH
+// ============================================================================
+
+/**
+ * Compute the perceptual identity of a recording.
+ *
+ * The audio hash projects time-invariant chroma statistics (profile,
+ * covariance, lagged co-occurrence) onto seeded random hyperplanes, so
+ * re-encodes land within a few bits of each other and can be found through
+ * banded lookups. The chromaprint keeps per-frame bits for verifying a
+ * candidate by aligned bit-error rate.
+ */
+export function computeAudioFingerprint(pcm: PcmAudio): AudioFingerprint {
+  if (!pcm.samples.length || !pcm.sampleRate) {
+    throw new Error('Empty audio buffer');
+  }
+
+  const chromagram = computeChromagram(downsample(pcm));
+  const frames = chromagram.chroma
+    .filter((_, i) => chromagram.rms[i] >= DSP_CONFIG.SILENCE_RMS)
+    .map(unitNormalize);
+
+  const audioHash = hashChromaStatistics(frames, chromagram.hopSeconds);
+
+  return {
+    audio_hash: audioHash,
+    hash_bands: audioHashBands(audioHash),
+    chromaprint: encodeChromaprint(computeChromaprint(frames, chromagram.hopSeconds)),
+    duration_ms: Math.round((pcm.samples.length / pcm.sampleRate) * 1000),
+  };
+}
+
+/**
+ * Split an audio hash into band keys; hashes within (bands - 1) bits of each
+ * other are guaranteed to share at least one band
+ */
+export function audioHashBands(audioHash: string): string[] {
+  const width = DSP_CONFIG.AUDIO_HASH_BAND_BITS / 4;
+  const bands: string[] = [];
+  for (let i = 0; i * width < audioHash.length; i++) {
+    bands.push(`${i}:${audioHash.slice(i * width, (i + 1) * width)}`);
+  }
+  return bands;
+}
+
+/**
+ * Hamming distance between two hex audio hashes
+ */
+export function audioHashDistance(a: string, b: string): number {
+  if (a.length !== b.length) return DSP_CONFIG.AUDIO_HASH_BITS;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    distance += popcount(parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16));
+  }
+  return distance;
+}
+
+/**
+ * Lowest bit-error rate between two chromaprints over a range of alignments
+ */
+export function compareChromaprints(a: string, b: string): { bit_error_rate: number; offset_ms: number } {
+  const left = decodeChromaprint(a);
+  const right = decodeChromaprint(b);
+  const hopMs = (DSP_CONFIG.CHROMA_HOP_SIZE / DSP_CONFIG.TARGET_SAMPLE_RATE) * 1000;
+  const maxOffset = Math.round(DSP_CONFIG.CHROMAPRINT_MAX_OFFSET_SECONDS * 1000 / hopMs);
+  const minOverlap = Math.min(DSP_CONFIG.CHROMAPRINT_MIN_OVERLAP_FRAMES, left.length, right.length);
+
+  let best = { bit_error_rate: 1, offset_ms: 0 };
+  if (minOverlap === 0) return best;
+
+  for (let offset = -maxOffset; offset <= maxOffset; offset++) {
+    const start = Math.max(0, -offset);
+    const end = Math.min(left.length, right.length - offset);
+    const overlap = end - start;
+    if (overlap < minOverlap) continue;
+
+    let errors = 0;
+    for (let i = start; i < end; i++) errors += popcount(left[i] ^ right[i + offset]);
+
+    const rate = errors / (overlap * 32);
+    if (rate < best.bit_error_rate) {
+      best = { bit_error_rate: round3(rate), offset_ms: Math.round(offset * hopMs) };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Decide whether two fingerprints describe the same recording
+ *
+ * The chromaprint decides when both sides have one; the hash distance alone
+ * is only trusted for rows stored before chromaprints existed.
+ */
+export function matchAudioFingerprints(
+  a: { audio_hash: string; chromaprint?: string | null },
+  b: { audio_hash: string; chromaprint?: string | null }
+): PerceptualMatch {
+  const hashDistance = audioHashDistance(a.audio_hash, b.audio_hash);
+
+  if (a.chromaprint && b.chromaprint) {
+    const aligned = compareChromaprints(a.chromaprint, b.chromaprint);
+    return {
+      hash_distance: hashDistance,
+      bit_error_rate: aligned.bit_error_rate,
+      offset_ms: aligned.offset_ms,
+      is_match: aligned.bit_error_rate <= DSP_CONFIG.MAX_BIT_ERROR_RATE,
+    };
+  }
+
+  return {
+    hash_distance: hashDistance,
+    bit_error_rate: null,
+    offset_ms: 0,
+    is_match: hashDistance <= DSP_CONFIG.MAX_HASH_DISTANCE,
+  };
+}
+
+/**
+ * Profile, covariance and ~1s lagged cross-covariance of voiced chroma,
+ * each block centered and unit-scaled, then signed against random hyperplanes
+ */
+function hashChromaStatistics(frames: number[][], hopSeconds: number): string {
+  const bits = DSP_CONFIG.AUDIO_HASH_BITS;
+  if (frames.length === 0) return '0'.repeat(bits / 4);
+
+  const count = frames.length;
+  const lag = Math.min(Math.max(1, Math.round(DSP_CONFIG.CO_OCCURRENCE_LAG_SECONDS / hopSeconds)), count - 1);
+
+  const mean = new Array(12).fill(0);
+  for (const frame of frames) for (let i = 0; i < 12; i++) mean[i] += frame[i] / count;
+
+  const covariance: number[] = [];
+  for (let i = 0; i < 12; i++) {
+    for (let j = i; j < 12; j++) {
+      let sum = 0;
+      for (const frame of frames) sum += frame[i] * frame[j];
+      covariance.push(sum / count - mean[i] * mean[j]);
+    }
+  }
+
+  const lagged: number[] = [];
+  const pairs = count - lag;
+  for (let i = 0; i < 12; i++) {
+    for (let j = 0; j < 12; j++) {
+      let sum = 0;
+      for (let t = 0; t < pairs; t++) sum += frames[t][i] * frames[t + lag][j];
+      lagged.push(pairs > 0 ? sum / pairs - mean[i] * mean[j] : 0);
+    }
+  }
+
+  const features = [mean, covariance, lagged].flatMap(block => unitNormalize(centered(block)));
+  const planes = hashHyperplanes(features.length);
+
+  const words = new Uint32Array(bits / 32);
+  for (let bit = 0; bit < bits; bit++) {
+    let projection = 0;
+    const plane = planes[bit];
+    for (let d = 0; d < features.length; d++) projection += plane[d] * features[d];
+    if (projection > 0) words[bit >> 5] |= 1 << (31 - (bit & 31));
+  }
+
+  return Array.from(words, word => word.toString(16).padStart(8, '0')).join('');
+}
+
+let hyperplaneCache: { dimensions: number; planes: Float64Array[] } | null = null;
+
+/**
+ * Gaussian hyperplanes from a fixed seed so every runtime hashes identically
+ */
+function hashHyperplanes(dimensions: number): Float64Array[] {
+  if (hyperplaneCache?.dimensions === dimensions) return hyperplaneCache.planes;
+
+  const random = mulberry32(DSP_CONFIG.AUDIO_HASH_SEED);
+  const planes: Float64Array[] = [];
+  for (let bit = 0; bit < DSP_CONFIG.AUDIO_HASH_BITS; bit++) {
+    const plane = new Float64Array(dimensions);
+    for (let d = 0; d < dimensions; d++) {
+      // Box-Muller
+      const u = Math.max(random(), Number.EPSILON);
+      plane[d] = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+    }
+    planes.push(plane);
+  }
+
+  hyperplaneCache = { dimensions, planes };
+  return planes;
+}
+
+/**
+ * 32 bits per frame from smoothed chroma: adjacent-semitone, fifth and
+ * minor-third energy comparisons (robust to gain, EQ and codec noise)
+ */
+function computeChromaprint(frames: number[][], hopSeconds: number): Uint32Array {
+  const smoothing = DSP_CONFIG.CHROMAPRINT_SMOOTHING_FRAMES;
+  const limit = Math.round(DSP_CONFIG.CHROMAPRINT_MAX_SECONDS / hopSeconds);
+  const count = Math.max(0, Math.min(frames.length - smoothing + 1, limit));
+  const prints = new Uint32Array(count);
+
+  for (let t = 0; t < count; t++) {
+    const smoothed = new Array(12).fill(0);
+    for (let k = 0; k < smoothing; k++) {
+      for (let pc = 0; pc < 12; pc++) smoothed[pc] += frames[t + k][pc];
+    }
+
+    let word = 0;
+    let bit = 0;
+    const compare = (a: number, b: number) => {
+      if (smoothed[a % 12] > smoothed[b % 12]) word |= 1 << bit;
+      bit++;
+    };
+    for (let pc = 0; pc < 12; pc++) compare(pc, pc + 1);
+    for (let pc = 0; pc < 12; pc++) compare(pc, pc + 7);
+    for (let pc = 0; pc < 8; pc++) compare(pc, pc + 3);
+
+    prints[t] = word >>> 0;
+  }
+
+  return prints;
+}
+
+function encodeChromaprint(prints: Uint32Array): string {
+  const bytes = new Uint8Array(prints.length * 4);
+  const view = new DataView(bytes.buffer);
+  prints.forEach((word, i) => view.setUint32(i * 4, word, true));
+
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function decodeChromaprint(encoded: string): Uint32Array {
+  const binary = atob(encoded);
+  const prints = new Uint32Array(Math.floor(binary.length / 4));
+  for (let i = 0; i < prints.length; i++) {
+    prints[i] = (
+      binary.charCodeAt(i * 4) |
+      (binary.charCodeAt(i * 4 + 1) << 8) |
+      (binary.charCodeAt(i * 4 + 2) << 16) |
+      (binary.charCodeAt(i * 4 + 3) << 24)
+    ) >>> 0;
+  }
+  return prints;
+}
+
+// ============================================================================
+// MATH HELPERS
+// ============================================================================
+
+function pearson(a: number[], b: number[]): number {
+  const meanA = a.reduce((s, v) => s + v, 0) / a.length;
+  const meanB = b.reduce((s, v) => s + v, 0) / b.length;
+  let num = 0;
+  let denA = 0;
+  let denB = 0;
+  for (let i = 0; i < a.length; i++) {
+    num += (a[i] - meanA) * (b[i] - meanB);
+    denA += (a[i] - meanA) ** 2;
+    denB += (b[i] - meanB) ** 2;
+  }
+  const den = Math.sqrt(denA * denB);
+  return den > 0 ? num / den : 0;
+}
+
+export function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const den = Math.sqrt(normA * normB);
+  return den > 0 ? dot / den : 0;
+}
+
+function unitNormalize(values: number[]): number[] {
+  const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? values.map(v => v / norm) : values;
+}
+
+function centered(values: number[]): number[] {
+  const mean = values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+  return values.map(v => v - mean);
+}
+
+function popcount(value: number): number {
+  let v = value >>> 0;
+  v -= (v >>> 1) & 0x55555555;
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/**
+ * Small seeded PRNG (deterministic across browser, Deno and Node)
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
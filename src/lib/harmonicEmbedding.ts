@@ -0,0 +1,372 @@
+/**
+ * Harmonic Embedding
+ *
+ * Deterministic vector embedding of a HarmonicFingerprint for
+ * nearest-neighbour candidate retrieval:
+ *
+ * - Roman numeral n-grams (1-3, taken cyclically over the loop period so
+ *   rotations and repeats embed identically), hashed into a fixed number of
+ *   buckets with sublinear term frequency
+ * - Cadence, modal color, loop length and tempo blocks
+ *
+ * The stored embedding is the raw feature vector. IDF weights are applied at
+ * ranking time by EmbeddingIndex over the documents it holds, so the stored
+ * vectors never go stale as the catalog grows.
+ *
+ * Retrieval uses random-hyperplane LSH: embeddingBuckets() produces the keys
+ * stored in harmonic_fingerprints.embedding_buckets (GIN-indexed), and
+ * embeddingProbeKeys() the multi-probe keys to query them with.
+ *
+ * NOTE: Relative imports carry the .ts extension so the edge functions can
+ * load this module under Deno.
+ */
+
+import type { CadenceType, HarmonicFingerprint, Mode } from '@/types/harmony';
+import { loopPeriod } from './progressionAlignment.ts';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const EMBEDDING_CONFIG = {
+  VERSION: 'he-1', // Bump when the feature layout changes
+  NGRAM_DIM: 128,
+  MAX_NGRAM: 3,
+  // Block weights (mirror the similarity engine's default weights)
+  WEIGHTS: {
+    progression: 0.5,
+    cadence: 0.2,
+    loop: 0.15,
+    mode: 0.1,
+    tempo: 0.05,
+  },
+  // LSH: a pair with cosine 0.9 shares a bucket in ~85% of cases
+  LSH_TABLES: 8,
+  LSH_BITS: 10,
+  TEMPO_MIN_BPM: 60,
+  TEMPO_MAX_BPM: 240,
+} as const;
+
+const CADENCES: CadenceType[] = ['authentic', 'plagal', 'deceptive', 'half', 'loop', 'modal', 'none'];
+const MODES: Mode[] = ['major', 'minor', 'dorian', 'phrygian', 'lydian', 'mixolydian', 'aeolian', 'locrian'];
+const LOOP_BARS = [1, 2, 4, 8, 16];
+const TEMPO_BINS = 8;
+
+const OFFSETS = (() => {
+  const cadence = EMBEDDING_CONFIG.NGRAM_DIM;
+  const mode = cadence + CADENCES.length;
+  const loop = mode + MODES.length;
+  const tempo = loop + LOOP_BARS.length;
+  return { cadence, mode, loop, tempo, end: tempo + TEMPO_BINS };
+})();
+
+export const EMBEDDING_DIM = OFFSETS.end;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HarmonicEmbedding {
+  embedding: number[]; // Raw features (unweighted, see weightEmbedding)
+  embedding_version: string;
+  embedding_buckets: string[]; // LSH keys, "table:hex"
+}
+
+export interface EmbeddingNeighbor {
+  id: string;
+  score: number; // Cosine similarity of the weighted embeddings
+}
+
+type EmbeddingSource = Pick<
+  HarmonicFingerprint,
+  'roman_progression' | 'cadence_type' | 'loop_length_bars' | 'tonal_center' | 'tempo_bpm'
+>;
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Embed a fingerprint: raw features plus LSH bucket keys
+ */
+export function embedFingerprint(fingerprint: EmbeddingSource): HarmonicEmbedding {
+  const embedding = rawFeatures(fingerprint);
+  return {
+    embedding,
+    embedding_version: EMBEDDING_CONFIG.VERSION,
+    embedding_buckets: embeddingBuckets(embedding),
+  };
+}
+
+/**
+ * Block-weighted, unit-length vector. `idf` scales the n-gram buckets;
+ * omitted, every n-gram counts equally.
+ */
+export function weightEmbedding(raw: number[], idf?: ArrayLike<number>): Float64Array {
+  const out = new Float64Array(EMBEDDING_DIM);
+  const { WEIGHTS, NGRAM_DIM } = EMBEDDING_CONFIG;
+  const blocks: Array<[number, number, number]> = [
+    [0, NGRAM_DIM, WEIGHTS.progression],
+    [OFFSETS.cadence, OFFSETS.mode, WEIGHTS.cadence],
+    [OFFSETS.mode, OFFSETS.loop, WEIGHTS.mode],
+    [OFFSETS.loop, OFFSETS.tempo, WEIGHTS.loop],
+    [OFFSETS.tempo, OFFSETS.end, WEIGHTS.tempo],
+  ];
+
+  // Each block at unit length times sqrt(weight), so the cosine of two
+  // vectors is the weighted sum of per-block cosines
+  for (const [start, end, weight] of blocks) {
+    let norm = 0;
+    for (let i = start; i < end; i++) {
+      out[i] = (raw[i] ?? 0) * (i < NGRAM_DIM && idf ? idf[i] : 1);
+      norm += out[i] * out[i];
+    }
+    if (norm === 0) continue;
+    const scale = Math.sqrt(weight / norm);
+    for (let i = start; i < end; i++) out[i] *= scale;
+  }
+
+  return unitNormalize(out);
+}
+
+/**
+ * LSH keys for a raw embedding (one per table)
+ */
+export function embeddingBuckets(raw: number[]): string[] {
+  return signatures(weightEmbedding(raw)).map((bits, table) => bucketKey(table, bits));
+}
+
+/**
+ * Multi-probe keys: each table's bucket plus every bucket one bit away
+ */
+export function embeddingProbeKeys(raw: number[]): string[] {
+  const keys: string[] = [];
+  signatures(weightEmbedding(raw)).forEach((bits, table) => {
+    keys.push(bucketKey(table, bits));
+    for (let bit = 0; bit < EMBEDDING_CONFIG.LSH_BITS; bit++) {
+      keys.push(bucketKey(table, bits ^ (1 << bit)));
+    }
+  });
+  return keys;
+}
+
+/**
+ * Whether a stored embedding was produced by the current feature layout
+ */
+export function isCurrentEmbedding(
+  fingerprint: { embedding?: number[] | null; embedding_version?: string | null }
+): boolean {
+  return fingerprint.embedding_version === EMBEDDING_CONFIG.VERSION
+    && fingerprint.embedding?.length === EMBEDDING_DIM;
+}
+
+// ============================================================================
+// ANN INDEX
+// ============================================================================
+
+/**
+ * In-memory approximate nearest-neighbour index over raw embeddings.
+ * Candidates come from multi-probe LSH buckets; they are ranked by
+ * TF-IDF-weighted cosine, with IDF taken over the indexed documents.
+ */
+export class EmbeddingIndex {
+  private readonly entries = new Map<string, { raw: number[]; keys: string[] }>();
+  private readonly buckets = new Map<string, Set<string>>();
+  private readonly documentFrequency = new Float64Array(EMBEDDING_CONFIG.NGRAM_DIM);
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  add(id: string, raw: number[]): void {
+    this.remove(id);
+
+    const keys = embeddingBuckets(raw);
+    this.entries.set(id, { raw, keys });
+    for (const key of keys) {
+      const bucket = this.buckets.get(key) ?? new Set<string>();
+      bucket.add(id);
+      this.buckets.set(key, bucket);
+    }
+    for (let i = 0; i < EMBEDDING_CONFIG.NGRAM_DIM; i++) {
+      if (raw[i]) this.documentFrequency[i]++;
+    }
+  }
+
+  remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    this.entries.delete(id);
+    for (const key of entry.keys) {
+      const bucket = this.buckets.get(key);
+      bucket?.delete(id);
+      if (bucket?.size === 0) this.buckets.delete(key);
+    }
+    for (let i = 0; i < EMBEDDING_CONFIG.NGRAM_DIM; i++) {
+      if (entry.raw[i]) this.documentFrequency[i]--;
+    }
+  }
+
+  /**
+   * Nearest neighbours of a raw embedding, best first
+   */
+  query(raw: number[], k: number, options: { exclude?: string } = {}): EmbeddingNeighbor[] {
+    const candidates = new Set<string>();
+    for (const key of embeddingProbeKeys(raw)) {
+      for (const id of this.buckets.get(key) ?? []) candidates.add(id);
+    }
+    candidates.delete(options.exclude ?? '');
+
+    // Too few collisions (tiny index or an unusual query): rank everything
+    if (candidates.size < k) {
+      for (const id of this.entries.keys()) {
+        if (id !== options.exclude) candidates.add(id);
+      }
+    }
+
+    const idf = this.idf();
+    const target = weightEmbedding(raw, idf);
+    return [...candidates]
+      .map(id => ({ id, score: round3(dot(target, weightEmbedding(this.entries.get(id)!.raw, idf))) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  private idf(): Float64Array {
+    const n = this.entries.size;
+    return this.documentFrequency.map(df => Math.log((1 + n) / (1 + df)) + 1);
+  }
+}
+
+// ============================================================================
+// FEATURES
+// ============================================================================
+
+const CORE_NUMERAL = /^([b#♭♯]*(?:VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i))/;
+
+function rawFeatures(fingerprint: EmbeddingSource): number[] {
+  const features = new Array<number>(EMBEDDING_DIM).fill(0);
+  const mode = fingerprint.tonal_center?.mode;
+
+  // N-grams over the loop period, wrapping around so rotations match
+  const period = loopPeriod(fingerprint.roman_progression ?? [], mode);
+  const cores = period.map(chord => coreNumeral(chord.numeral));
+  const counts = new Map<string, number>();
+  const count = (term: string) => counts.set(term, (counts.get(term) ?? 0) + 1);
+
+  for (let n = 1; n <= Math.min(EMBEDDING_CONFIG.MAX_NGRAM, cores.length); n++) {
+    for (let i = 0; i < cores.length; i++) {
+      const gram = Array.from({ length: n }, (_, j) => cores[(i + j) % cores.length]);
+      count(`${n}:${gram.join('-')}`);
+    }
+  }
+  // Full numerals (V7, I6) as unigrams, so chord color still counts
+  for (const chord of period) {
+    if (chord.numeral !== coreNumeral(chord.numeral)) count(`c:${chord.numeral}`);
+  }
+
+  for (const [term, tf] of counts) {
+    const hash = fnv1a(term);
+    const sign = hash & 1 ? 1 : -1;
+    features[(hash >>> 1) % EMBEDDING_CONFIG.NGRAM_DIM] += sign * (1 + Math.log(tf));
+  }
+
+  // Cadence, mode
+  const cadence = CADENCES.indexOf(fingerprint.cadence_type);
+  if (cadence >= 0) features[OFFSETS.cadence + cadence] = 1;
+  const modeIndex = mode ? MODES.indexOf(mode) : -1;
+  if (modeIndex >= 0) features[OFFSETS.mode + modeIndex] = 1;
+
+  // Loop length: nearest power of two, half credit to its neighbours
+  if (fingerprint.loop_length_bars > 0) {
+    const position = Math.log2(fingerprint.loop_length_bars);
+    LOOP_BARS.forEach((bars, i) => {
+      features[OFFSETS.loop + i] = Math.max(0, 1 - Math.abs(Math.log2(bars) - position) / 2);
+    });
+  }
+
+  // Tempo: soft bins on a log scale
+  if (fingerprint.tempo_bpm && fingerprint.tempo_bpm > 0) {
+    const lo = Math.log2(EMBEDDING_CONFIG.TEMPO_MIN_BPM);
+    const hi = Math.log2(EMBEDDING_CONFIG.TEMPO_MAX_BPM);
+    const position = ((Math.log2(fingerprint.tempo_bpm) - lo) / (hi - lo)) * (TEMPO_BINS - 1);
+    for (let i = 0; i < TEMPO_BINS; i++) {
+      features[OFFSETS.tempo + i] = round3(Math.exp(-((i - position) ** 2) / 2));
+    }
+  }
+
+  return features.map(round3);
+}
+
+function coreNumeral(numeral: string): string {
+  return numeral
+    .trim()
+    .split('/')
+    .map(part => CORE_NUMERAL.exec(part)?.[1] ?? part)
+    .join('/');
+}
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * SimHash signature per table. Hyperplanes have ±1 entries derived from a
+ * hash of (table, bit, dimension), so every runtime computes the same keys.
+ */
+function signatures(vector: Float64Array): number[] {
+  const { LSH_TABLES, LSH_BITS } = EMBEDDING_CONFIG;
+  const out: number[] = [];
+
+  for (let table = 0; table < LSH_TABLES; table++) {
+    let bits = 0;
+    for (let bit = 0; bit < LSH_BITS; bit++) {
+      const plane = HYPERPLANES[table * LSH_BITS + bit];
+      let projection = 0;
+      for (let d = 0; d < EMBEDDING_DIM; d++) projection += vector[d] * plane[d];
+      if (projection > 0) bits |= 1 << bit;
+    }
+    out.push(bits);
+  }
+
+  return out;
+}
+
+const HYPERPLANES: Int8Array[] = Array.from(
+  { length: EMBEDDING_CONFIG.LSH_TABLES * EMBEDDING_CONFIG.LSH_BITS },
+  (_, plane) => Int8Array.from({ length: EMBEDDING_DIM }, (_, d) => (fnv1a(`${plane}:${d}`) & 1 ? 1 : -1))
+);
+
+function bucketKey(table: number, bits: number): string {
+  return `${table}:${bits.toString(16).padStart(3, '0')}`;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  // Final avalanche (murmur3 fmix32): FNV's low bits are poorly mixed
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+function unitNormalize(vector: Float64Array): Float64Array {
+  const norm = Math.sqrt(dot(vector, vector));
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
@@ -0,0 +1,215 @@
+/**
+ * Harmonic Mixing
+ *
+ * Orders tracks for smooth DJ-style transitions, Camelot-wheel style: keys
+ * sit on a wheel of twelve numbers (a fifth apart) with an inner minor ring
+ * (A) and outer major ring (B). Neighbours on the wheel mix cleanly:
+ * - Same key, or one step round the wheel (up/down a fifth)
+ * - Same number, other ring (relative major/minor)
+ * Tempos mix within a few percent, counting half and double time.
+ *
+ * Auto-DJ chains picks greedily from the last queued track, blending
+ * transition smoothness with harmonic similarity, and skips artists heard
+ * recently. Every pick carries a one-line reason for the queue.
+ */
+
+import type { Track } from '@/types';
+import { parseNoteName } from './chordSymbols';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const HARMONIC_MIXING_CONFIG = {
+  TEMPO_TOLERANCE: 0.06, // Beatmatchable within ±6%
+  ARTIST_COOLDOWN: 5, // Tracks before an artist may come back
+  WEIGHTS: { key: 0.45, tempo: 0.25, similarity: 0.3 },
+  UNKNOWN_SCORE: 0.5, // Missing key or tempo: neither helps nor hurts
+  LOW_WATER_MARK: 2, // Tracks left in the queue before Auto-DJ tops it up
+  BATCH_SIZE: 5,
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CamelotKey {
+  number: number; // 1-12
+  letter: 'A' | 'B'; // A minor, B major
+}
+
+export type KeyRelation = 'same' | 'fifth-up' | 'fifth-down' | 'relative' | 'diagonal' | 'energy-boost' | 'clash' | 'unknown';
+
+export interface Transition {
+  score: number; // 0-1, key and tempo only
+  keyRelation: KeyRelation;
+  from: CamelotKey | null;
+  to: CamelotKey | null;
+  tempoMatch: number | null; // 0-1, null when a tempo is unknown
+}
+
+export interface AutoDjCandidate {
+  track: Track;
+  similarity: number; // 0-1, from the similarity engine
+  similarityReason?: string;
+}
+
+export interface AutoDjPick {
+  track: Track;
+  score: number;
+  reason: string; // e.g. "8A → 9A, up a fifth · 122 → 124 BPM · same progression"
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Camelot position of a key ("A", "F#m", "Bb minor"), null when unknown
+ * `mode` overrides a mode written in the key
+ */
+export function toCamelot(key: string | null | undefined, mode?: string | null): CamelotKey | null {
+  const match = key?.trim().match(/^([A-Ga-g][#b♯♭]?)\s*(m|min|minor|maj|major)?$/);
+  if (!match) return null;
+
+  const pitch = parseNoteName(match[1]);
+  if (pitch === null) return null;
+
+  const minor = mode === 'minor' || (mode !== 'major' && /^m(in|inor)?$/.test(match[2] ?? ''));
+  // Majors: C = 8B, each fifth up is one step. Minors share their relative major's number
+  const majorTonic = minor ? (pitch + 3) % 12 : pitch;
+  return { number: ((majorTonic * 7 + 7) % 12) + 1, letter: minor ? 'A' : 'B' };
+}
+
+export function formatCamelot(key: CamelotKey): string {
+  return `${key.number}${key.letter}`;
+}
+
+/**
+ * How well two tracks mix, by key and tempo
+ */
+export function transition(from: Track, to: Track): Transition {
+  const fromKey = trackCamelot(from);
+  const toKey = trackCamelot(to);
+  const keyRelation = relateKeys(fromKey, toKey);
+  const tempoMatch = matchTempo(from.tempo, to.tempo);
+
+  const { WEIGHTS, UNKNOWN_SCORE } = HARMONIC_MIXING_CONFIG;
+  const keyWeight = WEIGHTS.key / (WEIGHTS.key + WEIGHTS.tempo);
+  const score = keyWeight * KEY_SCORES[keyRelation] + (1 - keyWeight) * (tempoMatch ?? UNKNOWN_SCORE);
+
+  return { score, keyRelation, from: fromKey, to: toKey, tempoMatch };
+}
+
+/**
+ * Chain up to `count` picks after `current`, each the smoothest next step
+ * `recent` holds the tracks already played or queued, newest last
+ */
+export function planAutoDj(
+  current: Track,
+  candidates: AutoDjCandidate[],
+  options: { recent?: Track[]; count?: number } = {}
+): AutoDjPick[] {
+  const { WEIGHTS, ARTIST_COOLDOWN, BATCH_SIZE } = HARMONIC_MIXING_CONFIG;
+  const count = options.count ?? BATCH_SIZE;
+  const history = [...(options.recent ?? []), current];
+  const seen = new Set(history.map(t => t.id));
+  const pool = candidates.filter(c => !seen.has(c.track.id));
+  const picks: AutoDjPick[] = [];
+  let previous = current;
+
+  while (picks.length < count) {
+    const cooling = new Set(history.slice(-ARTIST_COOLDOWN).flatMap(artistKeys));
+    let best: { candidate: AutoDjCandidate; step: Transition; score: number } | null = null;
+
+    for (const candidate of pool) {
+      if (seen.has(candidate.track.id) || artistKeys(candidate.track).some(a => cooling.has(a))) continue;
+      const step = transition(previous, candidate.track);
+      const score = (1 - WEIGHTS.similarity) * step.score + WEIGHTS.similarity * candidate.similarity;
+      if (!best || score > best.score) best = { candidate, step, score };
+    }
+
+    if (!best) break;
+    const { candidate, step, score } = best;
+    picks.push({ track: candidate.track, score, reason: explainPick(previous, candidate, step) });
+    seen.add(candidate.track.id);
+    history.push(candidate.track);
+    previous = candidate.track;
+  }
+
+  return picks;
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+const KEY_SCORES: Record<KeyRelation, number> = {
+  same: 1,
+  'fifth-up': 0.9,
+  'fifth-down': 0.9,
+  relative: 0.85,
+  diagonal: 0.6,
+  'energy-boost': 0.5,
+  clash: 0.1,
+  unknown: HARMONIC_MIXING_CONFIG.UNKNOWN_SCORE,
+};
+
+const KEY_RELATION_LABELS: Partial<Record<KeyRelation, string>> = {
+  same: 'same key',
+  'fifth-up': 'up a fifth',
+  'fifth-down': 'down a fifth',
+  relative: 'relative major/minor',
+  diagonal: 'fifth and mode change',
+  'energy-boost': 'up a semitone',
+};
+
+function trackCamelot(track: Track): CamelotKey | null {
+  const mode = track.detected_mode === 'unknown' ? null : track.detected_mode;
+  return toCamelot(track.detected_key, mode);
+}
+
+function relateKeys(a: CamelotKey | null, b: CamelotKey | null): KeyRelation {
+  if (!a || !b) return 'unknown';
+  const step = (b.number - a.number + 12) % 12; // Steps clockwise
+  if (a.letter === b.letter) {
+    if (step === 0) return 'same';
+    if (step === 1) return 'fifth-up';
+    if (step === 11) return 'fifth-down';
+    if (step === 7) return 'energy-boost';
+    return 'clash';
+  }
+  if (step === 0) return 'relative';
+  if (step === 1 || step === 11) return 'diagonal';
+  return 'clash';
+}
+
+// 1 at the same tempo, 0 at the tolerance or beyond; half/double time counts
+function matchTempo(a: number | undefined, b: number | undefined): number | null {
+  if (!a || !b) return null;
+  const ratio = Math.max(a, b) / Math.min(a, b);
+  const drift = Math.min(Math.abs(ratio - 1), Math.abs(ratio / 2 - 1));
+  return Math.max(0, 1 - drift / HARMONIC_MIXING_CONFIG.TEMPO_TOLERANCE);
+}
+
+function artistKeys(track: Track): string[] {
+  const names = track.artists?.length ? track.artists : (track.artist ?? '').split(',');
+  return names.map(name => name.trim().toLowerCase()).filter(Boolean);
+}
+
+function explainPick(previous: Track, candidate: AutoDjCandidate, step: Transition): string {
+  const parts: string[] = [];
+
+  if (step.from && step.to) {
+    const relation = KEY_RELATION_LABELS[step.keyRelation];
+    parts.push(`${formatCamelot(step.from)} → ${formatCamelot(step.to)}${relation ? `, ${relation}` : ''}`);
+  }
+  if (step.tempoMatch !== null && previous.tempo && candidate.track.tempo) {
+    parts.push(`${Math.round(previous.tempo)} → ${Math.round(candidate.track.tempo)} BPM`);
+  }
+  if (candidate.similarityReason) {
+    parts.push(candidate.similarityReason);
+  }
+
+  return parts.join(' · ') || 'Harmonically similar';
+}
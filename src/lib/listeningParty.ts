@@ -0,0 +1,217 @@
+/**
+ * Listening Party
+ *
+ * Keeps guests' players following a host's. The host broadcasts its player
+ * state (track, provider, position, play/pause) on every change and on a
+ * heartbeat; each guest works out where the host is now and nudges its own
+ * player there.
+ *
+ * Clocks differ between machines, so positions are projected on the host's
+ * clock: guests estimate their offset from ping/pong round trips (NTP
+ * style, trusting the fastest round trip). Embedded players can't change
+ * speed, so drift is corrected by seeking, only past a tolerance and with a
+ * cooldown that gives the player time to report its new position.
+ *
+ * The server records one host per room (listening_parties, claimed through
+ * the claim_party_host RPC as the signed-in user): when two members start
+ * a party at once, the first claim wins and the other steps down. The
+ * elected host is the recorded one, while their presence says they're
+ * still hosting. The channel is private to the room's members, and messages reach it only
+ * through the send_party_message RPC, which wraps each one with its
+ * sender's user ID. Guests act only on state, end and pong messages whose
+ * sender is the elected host; a member can't speak for the host by naming
+ * them in a payload.
+ */
+
+import type { MusicProvider } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const LISTENING_PARTY_CONFIG = {
+  HEARTBEAT_MS: 2000, // Host state rebroadcast, also how fast late joiners catch up
+  DRIFT_TOLERANCE_MS: 1500, // Position reports lag; smaller drift isn't worth a seek
+  SEEK_COOLDOWN_MS: 4000,
+  LOAD_LEAD_MS: 1500, // Start a newly loaded track this far ahead: the embed takes time to start
+  CLOCK_SAMPLES: 8, // Round trips kept for the clock offset
+  HOST_RENEW_MS: 10000, // The server lets another member take a claim unrenewed for 30 s
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PartyState {
+  canonicalTrackId: string | null;
+  provider: MusicProvider;
+  providerTrackId: string | null;
+  title: string | null;
+  artist: string | null;
+  positionMs: number;
+  isPlaying: boolean;
+  sentAt: number; // Host clock, epoch ms
+}
+
+export type PartyMessage =
+  | { type: 'state'; state: PartyState }
+  | { type: 'end' }
+  | { type: 'ping'; t0: number }
+  | { type: 'pong'; to: string; t0: number; hostTime: number };
+
+// A message as relayed by send_party_message
+export interface PartyEnvelope {
+  sender: string; // Authenticated user ID, stamped by the server
+  message: PartyMessage;
+}
+
+// The room's host as recorded by the server
+export interface PartyHostRecord {
+  host_id: string;
+  started_at: string;
+}
+
+// What a member's presence says about hosting
+export interface HostClaim {
+  user_id: string;
+  role: string; // 'host' while hosting
+}
+
+// One ping/pong round trip, local clock except hostTime
+export interface ClockSample {
+  t0: number;
+  hostTime: number;
+  t1: number;
+}
+
+export interface LocalPlayback {
+  canonicalTrackId: string | null;
+  providerTrackId: string | null;
+  provider: MusicProvider | null;
+  positionMs: number;
+  isPlaying: boolean;
+}
+
+export type SyncAction =
+  | { type: 'none'; driftMs: number }
+  | { type: 'load'; positionMs: number }
+  | { type: 'seek'; positionMs: number; driftMs: number }
+  | { type: 'play'; positionMs: number }
+  | { type: 'pause' };
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Where the host's playback is at `hostNow` (host clock)
+ */
+export function expectedPositionMs(state: PartyState, hostNow: number): number {
+  if (!state.isPlaying) return state.positionMs;
+  return state.positionMs + Math.max(0, hostNow - state.sentAt);
+}
+
+/**
+ * Host clock minus local clock, from the fastest round trip (its midpoint
+ * is the best guess at when the host answered); 0 without samples
+ */
+export function estimateClockOffset(samples: ClockSample[]): number {
+  if (samples.length === 0) return 0;
+  const fastest = samples.reduce((best, s) => (s.t1 - s.t0 < best.t1 - best.t0 ? s : best));
+  return Math.round(fastest.hostTime - (fastest.t0 + fastest.t1) / 2);
+}
+
+/**
+ * What a guest's player should do to follow the host
+ * `lastSeekAt` is when the guest last corrected (local clock)
+ */
+export function syncAction(
+  local: LocalPlayback,
+  host: PartyState,
+  options: { now: number; clockOffsetMs: number; lastSeekAt: number | null }
+): SyncAction {
+  const { DRIFT_TOLERANCE_MS, SEEK_COOLDOWN_MS, LOAD_LEAD_MS } = LISTENING_PARTY_CONFIG;
+  const target = expectedPositionMs(host, options.now + options.clockOffsetMs);
+
+  const sameTrack =
+    local.provider === host.provider &&
+    (host.providerTrackId ? local.providerTrackId === host.providerTrackId : local.canonicalTrackId === host.canonicalTrackId);
+  if (!sameTrack) {
+    return host.isPlaying ? { type: 'load', positionMs: target + LOAD_LEAD_MS } : { type: 'none', driftMs: 0 };
+  }
+
+  if (!host.isPlaying) return local.isPlaying ? { type: 'pause' } : { type: 'none', driftMs: 0 };
+  if (!local.isPlaying) return { type: 'play', positionMs: target };
+
+  const driftMs = local.positionMs - target; // Positive: guest ahead
+  const cooling = options.lastSeekAt !== null && options.now - options.lastSeekAt < SEEK_COOLDOWN_MS;
+  if (Math.abs(driftMs) <= DRIFT_TOLERANCE_MS || cooling) return { type: 'none', driftMs };
+  return { type: 'seek', positionMs: target, driftMs };
+}
+
+/**
+ * The room's host: the member the server recorded, while present and
+ * hosting. Other members claiming to host in their presence are ignored
+ */
+export function electHost<M extends HostClaim>(record: PartyHostRecord | null, members: M[]): M | null {
+  if (!record) return null;
+  return members.find(m => m.user_id === record.host_id && m.role === 'host') ?? null;
+}
+
+/**
+ * Whether a message is one the room should act on: state, end and pong
+ * messages only when sent by the elected host; pings from anyone
+ */
+export function isFromHost(envelope: PartyEnvelope, hostId: string | null): boolean {
+  if (envelope.message.type === 'ping') return true;
+  return hostId !== null && envelope.sender === hostId;
+}
+
+/**
+ * Validate a relayed message off the channel
+ */
+export function parsePartyEnvelope(raw: unknown): PartyEnvelope | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { sender, message } = raw as { sender?: unknown; message?: unknown };
+  if (typeof sender !== 'string' || !sender) return null;
+  const parsed = parsePartyMessage(message);
+  return parsed ? { sender, message: parsed } : null;
+}
+
+/**
+ * Validate a message body
+ */
+export function parsePartyMessage(raw: unknown): PartyMessage | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const message = raw as PartyMessage;
+  switch (message.type) {
+    case 'state':
+      return isPartyState(message.state) ? message : null;
+    case 'end':
+      return message;
+    case 'ping':
+      return typeof message.t0 === 'number' ? message : null;
+    case 'pong':
+      return typeof message.to === 'string' && typeof message.t0 === 'number' && typeof message.hostTime === 'number'
+        ? message
+        : null;
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+function isPartyState(value: unknown): value is PartyState {
+  if (!value || typeof value !== 'object') return false;
+  const state = value as PartyState;
+  return (
+    // The only providers the player embeds
+    (state.provider === 'spotify' || state.provider === 'youtube') &&
+    typeof state.positionMs === 'number' &&
+    typeof state.isPlaying === 'boolean' &&
+    typeof state.sentAt === 'number'
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * Modulation Helpers
+ *
+ * Reads the key-change timeline of a fingerprint (HarmonicFingerprint.
+ * modulations, detected by harmonicDsp): human-readable labels, which song
+ * section each change lands in, and matching against a ModulationFilter
+ * ("up a whole step in the last chorus").
+ *
+ * NOTE: Relative imports carry the .ts extension so edge functions can load
+ * this module under Deno.
+ */
+
+import type { SongSectionType } from '@/types';
+import type { Modulation, ModulationFilter, RelativeTonalCenter } from '@/types/harmony';
+import { PITCH_CLASSES } from './harmonicDsp.ts';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const MODULATION_CONFIG = {
+  // Detected key changes may land slightly before the section they open
+  SECTION_TOLERANCE_MS: 2000,
+} as const;
+
+const INTERVAL_NAMES: Record<number, string> = {
+  1: 'a half step',
+  2: 'a whole step',
+  3: 'a minor third',
+  4: 'a major third',
+  5: 'a fourth',
+  6: 'a tritone',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TimedSection {
+  label: SongSectionType;
+  start_ms: number;
+  end_ms?: number | null; // Open-ended: runs to the next section
+}
+
+export interface ModulationLabel {
+  modulation: Modulation;
+  short: string; // e.g. "↑2 A"
+  long: string; // e.g. "Up a whole step to A major"
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Display name of a tonal center ("A major")
+ */
+export function keyName(center: Pick<RelativeTonalCenter, 'root_interval' | 'mode'>): string {
+  return `${PITCH_CLASSES[((center.root_interval % 12) + 12) % 12]} ${center.mode}`;
+}
+
+/**
+ * Label each modulation, relative to the key it leaves
+ * `opening` is the fingerprint's tonal_center (the key the track starts in).
+ */
+export function labelModulations(
+  opening: Pick<RelativeTonalCenter, 'root_interval' | 'mode'> | null,
+  modulations: Modulation[] = []
+): ModulationLabel[] {
+  let previous = opening;
+
+  return [...modulations]
+    .sort((a, b) => a.timestamp_ms - b.timestamp_ms)
+    .map(modulation => {
+      const label = {
+        modulation,
+        short: `${modulation.interval_semitones > 0 ? '↑' : modulation.interval_semitones < 0 ? '↓' : '→'}${
+          modulation.interval_semitones !== 0 ? Math.abs(modulation.interval_semitones) : ''
+        } ${PITCH_CLASSES[modulation.tonal_center.root_interval % 12]}${isMinor(modulation.tonal_center.mode) ? 'm' : ''}`,
+        long: describeShift(previous, modulation),
+      };
+      previous = modulation.tonal_center;
+      return label;
+    });
+}
+
+/**
+ * The section a modulation starts in (with whether it is the last
+ * occurrence of that label), or null when no section covers it
+ */
+export function modulationSection(
+  modulation: Pick<Modulation, 'timestamp_ms'>,
+  sections: TimedSection[]
+): { section: TimedSection; index: number; is_last: boolean } | null {
+  const ordered = [...sections].sort((a, b) => a.start_ms - b.start_ms);
+  const at = modulation.timestamp_ms + MODULATION_CONFIG.SECTION_TOLERANCE_MS;
+
+  for (let i = ordered.length - 1; i >= 0; i--) {
+    const section = ordered[i];
+    if (section.start_ms > at) continue;
+
+    const end = section.end_ms ?? ordered[i + 1]?.start_ms ?? Infinity;
+    if (modulation.timestamp_ms >= end) return null;
+
+    return {
+      section,
+      index: sections.indexOf(section),
+      is_last: !ordered.slice(i + 1).some(later => later.label === section.label),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Whether any modulation of a track satisfies the filter
+ * Without section data, `section` cannot be checked and `last_section`
+ * falls back to the final key change (the track ends in the new key).
+ */
+export function matchesModulationFilter(
+  modulations: Modulation[] | null | undefined,
+  filter: ModulationFilter,
+  sections: TimedSection[] = []
+): boolean {
+  const ordered = [...(modulations ?? [])].sort((a, b) => a.timestamp_ms - b.timestamp_ms);
+
+  return ordered.some((modulation, i) => {
+    if (filter.interval_semitones !== undefined && modulation.interval_semitones !== filter.interval_semitones) {
+      return false;
+    }
+    if (filter.direction === 'up' && modulation.interval_semitones <= 0) return false;
+    if (filter.direction === 'down' && modulation.interval_semitones >= 0) return false;
+    if (filter.to_mode && isMinor(modulation.tonal_center.mode) !== (filter.to_mode === 'minor')) {
+      return false;
+    }
+
+    if (!filter.section && !filter.last_section) return true;
+
+    if (sections.length === 0) {
+      return !filter.last_section || i === ordered.length - 1;
+    }
+
+    const located = modulationSection(modulation, sections);
+    if (!located) return false;
+    if (filter.section && located.section.label !== filter.section) return false;
+    return !filter.last_section || located.is_last;
+  });
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+function describeShift(
+  previous: Pick<RelativeTonalCenter, 'root_interval' | 'mode'> | null,
+  modulation: Modulation
+): string {
+  const target = keyName(modulation.tonal_center);
+  const shift = modulation.interval_semitones;
+
+  if (previous) {
+    const fromMinor = isMinor(previous.mode);
+    const toMinor = isMinor(modulation.tonal_center.mode);
+    if (shift === 0 && fromMinor !== toMinor) return `To the parallel ${toMinor ? 'minor' : 'major'} (${target})`;
+    if (!fromMinor && toMinor && shift === -3) return `To the relative minor (${target})`;
+    if (fromMinor && !toMinor && shift === 3) return `To the relative major (${target})`;
+  }
+
+  if (shift === 0) return `To ${target}`;
+  return `${shift > 0 ? 'Up' : 'Down'} ${INTERVAL_NAMES[Math.abs(shift)]} to ${target}`;
+}
+
+function isMinor(mode: string): boolean {
+  return mode === 'minor' || mode === 'aeolian' || mode === 'dorian' || mode === 'phrygian' || mode === 'locrian';
+}
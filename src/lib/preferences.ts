@@ -15,8 +15,11 @@ const KEYS = {
   AUTOPLAY: `${STORAGE_PREFIX}autoplay`,
   THEME: `${STORAGE_PREFIX}theme`,
   LAST_PROVIDER_USED: `${STORAGE_PREFIX}last_provider`,
+  MARKET: `${STORAGE_PREFIX}market`,
 } as const;
 
+const DEFAULT_MARKET = 'US';
+
 export type ThemePreference = 'light' | 'dark' | 'system';
 
 export interface UserPreferences {
@@ -128,6 +131,27 @@ export function getBestProvider(availableProviders: MusicProvider[]): MusicProvi
   return availableProviders[0];
 }
 
+/**
+ * Set the streaming market (ISO country code) used for availability
+ */
+export function setMarket(market: string | null): void {
+  setLocalPreference(KEYS.MARKET, market?.toUpperCase() ?? null);
+}
+
+/**
+ * Get the streaming market: the saved one, else the region of the browser
+ * locale ("en-GB" -> GB), else US
+ */
+export function getMarket(): string {
+  const saved = getLocalPreference<string | null>(KEYS.MARKET, null);
+  if (saved) return saved;
+
+  const region = typeof navigator !== 'undefined'
+    ? navigator.language?.match(/-([A-Za-z]{2})\b/)?.[1]
+    : undefined;
+  return region?.toUpperCase() ?? DEFAULT_MARKET;
+}
+
 /**
  * Set volume preference (0-1)
  */
@@ -0,0 +1,440 @@
+/**
+ * Progression Alignment
+ *
+ * Alignment-based comparison of Roman numeral progressions:
+ * numerals → tonic-relative chord tokens → cyclic global alignment
+ * (Needleman-Wunsch) with substitution costs from functional harmony.
+ *
+ * Handles rotations ("same loop, different starting chord"), loops of
+ * different lengths (repeated / shortened loops), inversions and optional
+ * transposition, and returns the alignment so results can be explained.
+ */
+
+import type {
+  AlignmentRelation,
+  AlignmentStep,
+  ChordQuality,
+  Mode,
+  ProgressionAlignment,
+  RomanChord,
+} from '@/types/harmony';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const ALIGNMENT_CONFIG = {
+  // Substitution costs (0 = identical, 1 = unrelated)
+  COST_EXTENSION: 0.1, // V vs V7, I vs I6
+  COST_MIXTURE: 0.3, // IV vs iv (same root, borrowed quality)
+  COST_SAME_FUNCTION: 0.45, // I vs vi, IV vs ii, V vs vii°
+  COST_DIFFERENT_FUNCTION: 1,
+  COST_GAP: 0.7,
+
+  // Score penalties so direct matches rank above rotated/transposed ones
+  ROTATION_PENALTY: 0.05,
+  TRANSPOSITION_PENALTY: 0.1,
+
+  // Longer inputs are truncated to keep rotation x transposition search cheap
+  MAX_CHORDS: 32,
+} as const;
+
+// Scale degrees in semitones above the tonic, per frame
+const DEGREE_SEMITONES: Record<'major' | 'minor', Record<string, number>> = {
+  major: { I: 0, II: 2, III: 4, IV: 5, V: 7, VI: 9, VII: 11 },
+  minor: { I: 0, II: 2, III: 3, IV: 5, V: 7, VI: 8, VII: 10 },
+};
+
+// Harmonic function by tonic-relative root
+type HarmonicFunction = 'tonic' | 'predominant' | 'dominant';
+const FUNCTION_BY_ROOT: HarmonicFunction[] = [
+  'tonic', // I
+  'predominant', // bII (Neapolitan)
+  'predominant', // ii
+  'tonic', // bIII
+  'tonic', // iii
+  'predominant', // IV
+  'dominant', // #iv°
+  'dominant', // V
+  'predominant', // bVI
+  'tonic', // vi
+  'predominant', // bVII
+  'dominant', // vii°
+];
+
+const INTERVAL_NAMES = [
+  'unison', 'minor second', 'major second', 'minor third', 'major third', 'fourth',
+  'tritone', 'fifth', 'minor sixth', 'major sixth', 'minor seventh', 'major seventh',
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ChordFamily = 'major' | 'minor' | 'diminished' | 'augmented' | 'suspended';
+
+/**
+ * Chord reduced to what matters for comparison
+ */
+interface ChordToken {
+  root: number; // Semitones above the tonic
+  family: ChordFamily;
+  seventh: boolean;
+  inversion: number;
+  numeral: string;
+}
+
+export interface AlignmentOptions {
+  allowRotation?: boolean; // Default true
+  allowTransposition?: boolean; // Default false (numerals are already key-relative)
+  modes?: { a?: Mode; b?: Mode }; // Frame for numerals like "VI" (inferred when omitted)
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Align two progressions and score their similarity (0.0 - 1.0)
+ */
+export function alignProgressions(
+  a: RomanChord[],
+  b: RomanChord[],
+  options: AlignmentOptions = {}
+): ProgressionAlignment {
+  const allowRotation = options.allowRotation ?? true;
+  const allowTransposition = options.allowTransposition ?? false;
+
+  const tokensA = periodOf(tokenize(a, options.modes?.a));
+  const tokensB = periodOf(tokenize(b, options.modes?.b));
+
+  const empty: ProgressionAlignment = {
+    score: 0,
+    rotation: 0,
+    transposition: 0,
+    repeats: { a: 1, b: 1 },
+    steps: [],
+    explanation: 'No progression to compare',
+  };
+  if (tokensA.length === 0 || tokensB.length === 0) return empty;
+
+  // A loop played twice is the same loop: tile the shorter period when the
+  // lengths divide, and keep whichever comparison scores better
+  const tilings: Array<{ a: number; b: number }> = [{ a: 1, b: 1 }];
+  if (tokensA.length !== tokensB.length) {
+    const ratio = Math.max(tokensA.length, tokensB.length) / Math.min(tokensA.length, tokensB.length);
+    if (Number.isInteger(ratio)) {
+      tilings.push(tokensA.length < tokensB.length ? { a: ratio, b: 1 } : { a: 1, b: ratio });
+    }
+  }
+
+  let best: ProgressionAlignment | null = null;
+
+  for (const repeats of tilings) {
+    const left = tile(tokensA, repeats.a);
+    const right = tile(tokensB, repeats.b);
+    const rotations = allowRotation ? tokensB.length : 1;
+    const shifts = allowTransposition ? 12 : 1;
+
+    for (let shift = 0; shift < shifts; shift++) {
+      const shifted = shift === 0 ? right : right.map(token => ({ ...token, root: (token.root + shift) % 12 }));
+
+      for (let rotation = 0; rotation < rotations; rotation++) {
+        const rotated = rotateTokens(shifted, rotation);
+        const { cost, steps } = globalAlignment(left, rotated, tokensA.length, tokensB.length, rotation);
+
+        const penalty =
+          (rotation ? ALIGNMENT_CONFIG.ROTATION_PENALTY : 0) +
+          (shift ? ALIGNMENT_CONFIG.TRANSPOSITION_PENALTY : 0);
+        const score = Math.max(0, 1 - cost / Math.max(left.length, rotated.length) - penalty);
+
+        if (!best || score > best.score + 1e-9) {
+          best = { score: round3(score), rotation, transposition: shift, repeats, steps, explanation: '' };
+        }
+      }
+    }
+  }
+
+  if (!best) return empty;
+  best.explanation = explainAlignment(best, tokensB);
+  return best;
+}
+
+/**
+ * Smallest repeating unit of a progression (I V vi IV I V vi IV → I V vi IV)
+ */
+export function loopPeriod(progression: RomanChord[], mode?: Mode): RomanChord[] {
+  const tokens = tokenize(progression, mode);
+  return progression.slice(0, periodOf(tokens).length);
+}
+
+// ============================================================================
+// TOKENIZATION
+// ============================================================================
+
+const NUMERAL_PATTERN = /^([b#♭♯]*)(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)(.*)$/;
+
+function tokenize(progression: RomanChord[], mode?: Mode): ChordToken[] {
+  const frame = mode ? frameOf(mode) : inferFrame(progression);
+  return progression
+    .slice(0, ALIGNMENT_CONFIG.MAX_CHORDS)
+    .map(chord => toToken(chord, frame))
+    .filter((token): token is ChordToken => token !== null);
+}
+
+/**
+ * Parse a numeral (with accidentals, quality suffixes, figured-bass
+ * inversions and secondary functions like V/V) into a tonic-relative token
+ */
+function toToken(chord: RomanChord, frame: 'major' | 'minor'): ChordToken | null {
+  const [primary, target] = chord.numeral.trim().split('/');
+  const parsed = parseNumeral(primary, frame);
+  if (!parsed) return null;
+
+  let root = parsed.root;
+  if (target) {
+    const tonicization = parseNumeral(target, frame);
+    if (tonicization) root = (root + tonicization.root) % 12;
+  }
+
+  const family = familyOf(chord.quality, parsed.upper, parsed.suffix);
+  return {
+    root,
+    family,
+    seventh: /7|65|43|42|^2$/.test(parsed.suffix) || /7/.test(chord.quality),
+    inversion: chord.inversions ?? inversionOf(parsed.suffix),
+    numeral: chord.numeral,
+  };
+}
+
+function parseNumeral(
+  numeral: string,
+  frame: 'major' | 'minor'
+): { root: number; upper: boolean; suffix: string } | null {
+  const match = NUMERAL_PATTERN.exec(numeral.trim());
+  if (!match) return null;
+
+  const [, accidentals, degree, suffix] = match;
+  let root = DEGREE_SEMITONES[frame][degree.toUpperCase()];
+  for (const accidental of accidentals) {
+    root += accidental === 'b' || accidental === '♭' ? -1 : 1;
+  }
+
+  return { root: ((root % 12) + 12) % 12, upper: degree === degree.toUpperCase(), suffix };
+}
+
+function familyOf(quality: ChordQuality, upper: boolean, suffix: string): ChordFamily {
+  switch (quality) {
+    case 'major':
+    case 'major7':
+    case 'dominant7':
+    case 'add9':
+      return 'major';
+    case 'minor':
+    case 'minor7':
+      return 'minor';
+    case 'diminished':
+    case 'diminished7':
+    case 'half-diminished7':
+      return 'diminished';
+    case 'augmented':
+      return 'augmented';
+    case 'sus2':
+    case 'sus4':
+      return 'suspended';
+    default:
+      if (/[°ø]/.test(suffix)) return 'diminished';
+      if (suffix.includes('+')) return 'augmented';
+      if (suffix.includes('sus')) return 'suspended';
+      return upper ? 'major' : 'minor';
+  }
+}
+
+function inversionOf(suffix: string): number {
+  const figures = suffix.replace(/[^0-9]/g, '');
+  if (figures === '6' || figures === '65') return 1;
+  if (figures === '64' || figures === '43') return 2;
+  if (figures === '42' || figures === '2') return 3;
+  return 0;
+}
+
+function frameOf(mode: Mode): 'major' | 'minor' {
+  return ['minor', 'aeolian', 'dorian', 'phrygian', 'locrian'].includes(mode) ? 'minor' : 'major';
+}
+
+/**
+ * Minor when the tonic chord is written lowercase more often than uppercase
+ */
+function inferFrame(progression: RomanChord[]): 'major' | 'minor' {
+  let minor = 0;
+  let major = 0;
+  for (const chord of progression) {
+    const match = NUMERAL_PATTERN.exec(chord.numeral.trim());
+    if (!match || match[1]) continue;
+    if (match[2] === 'i') minor++;
+    if (match[2] === 'I') major++;
+  }
+  return minor > major ? 'minor' : 'major';
+}
+
+function periodOf(tokens: ChordToken[]): ChordToken[] {
+  for (let period = 1; period < tokens.length; period++) {
+    if (tokens.length % period !== 0) continue;
+    if (tokens.every((token, i) => sameChord(token, tokens[i % period]))) {
+      return tokens.slice(0, period);
+    }
+  }
+  return tokens;
+}
+
+function tile(tokens: ChordToken[], times: number): ChordToken[] {
+  return times === 1 ? tokens : Array.from({ length: times }, () => tokens).flat();
+}
+
+function rotateTokens(tokens: ChordToken[], n: number): ChordToken[] {
+  if (n === 0) return tokens;
+  return [...tokens.slice(n), ...tokens.slice(0, n)];
+}
+
+// ============================================================================
+// ALIGNMENT
+// ============================================================================
+
+/**
+ * Functional-harmony substitution cost between two chords
+ */
+function substitution(a: ChordToken, b: ChordToken): { cost: number; relation: AlignmentRelation } {
+  if (a.root === b.root && a.family === b.family) {
+    if (a.seventh === b.seventh && a.inversion === b.inversion) {
+      return { cost: 0, relation: 'exact' };
+    }
+    return { cost: ALIGNMENT_CONFIG.COST_EXTENSION, relation: 'extension' };
+  }
+
+  if (a.root === b.root) {
+    return { cost: ALIGNMENT_CONFIG.COST_MIXTURE, relation: 'mixture' };
+  }
+
+  if (FUNCTION_BY_ROOT[a.root] === FUNCTION_BY_ROOT[b.root]) {
+    return { cost: ALIGNMENT_CONFIG.COST_SAME_FUNCTION, relation: 'same_function' };
+  }
+
+  return { cost: ALIGNMENT_CONFIG.COST_DIFFERENT_FUNCTION, relation: 'different_function' };
+}
+
+function sameChord(a: ChordToken, b: ChordToken): boolean {
+  return substitution(a, b).relation === 'exact';
+}
+
+/**
+ * Needleman-Wunsch with traceback; indices in the steps refer to the
+ * original (untiled, unrotated) progressions
+ */
+function globalAlignment(
+  a: ChordToken[],
+  b: ChordToken[],
+  periodA: number,
+  periodB: number,
+  rotation: number
+): { cost: number; steps: AlignmentStep[] } {
+  const gap = ALIGNMENT_CONFIG.COST_GAP;
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const cost = new Float64Array(rows * cols);
+
+  for (let i = 1; i < rows; i++) cost[i * cols] = i * gap;
+  for (let j = 1; j < cols; j++) cost[j] = j * gap;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      cost[i * cols + j] = Math.min(
+        cost[(i - 1) * cols + (j - 1)] + substitution(a[i - 1], b[j - 1]).cost,
+        cost[(i - 1) * cols + j] + gap,
+        cost[i * cols + (j - 1)] + gap
+      );
+    }
+  }
+
+  const steps: AlignmentStep[] = [];
+  const indexA = (i: number) => i % periodA;
+  const indexB = (j: number) => (j + rotation) % periodB;
+
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    const here = cost[i * cols + j];
+    if (i > 0 && j > 0) {
+      const sub = substitution(a[i - 1], b[j - 1]);
+      if (Math.abs(here - (cost[(i - 1) * cols + (j - 1)] + sub.cost)) < 1e-9) {
+        steps.push({
+          op: sub.relation === 'exact' ? 'match' : 'substitute',
+          a: a[i - 1].numeral,
+          b: b[j - 1].numeral,
+          a_index: indexA(i - 1),
+          b_index: indexB(j - 1),
+          cost: sub.cost,
+          relation: sub.relation,
+        });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && (j === 0 || Math.abs(here - (cost[(i - 1) * cols + j] + gap)) < 1e-9)) {
+      steps.push({ op: 'delete', a: a[i - 1].numeral, a_index: indexA(i - 1), cost: gap });
+      i--;
+    } else {
+      steps.push({ op: 'insert', b: b[j - 1].numeral, b_index: indexB(j - 1), cost: gap });
+      j--;
+    }
+  }
+
+  return { cost: cost[rows * cols - 1], steps: steps.reverse() };
+}
+
+// ============================================================================
+// EXPLANATION
+// ============================================================================
+
+const RELATION_LABELS: Record<AlignmentRelation, string> = {
+  exact: 'same chord',
+  extension: 'same chord, different extension or inversion',
+  mixture: 'borrowed from the parallel mode',
+  same_function: 'same harmonic function',
+  different_function: 'different function',
+};
+
+function explainAlignment(alignment: ProgressionAlignment, tokensB: ChordToken[]): string {
+  const parts: string[] = [];
+  const percent = `${Math.round(alignment.score * 100)}%`;
+
+  const exact = alignment.steps.every(step => step.op === 'match');
+  parts.push(exact ? `Same progression (${percent})` : `Similar progression (${percent})`);
+
+  if (alignment.rotation) {
+    parts.push(`same loop starting on ${tokensB[alignment.rotation].numeral} (rotated ${alignment.rotation})`);
+  }
+
+  if (alignment.transposition) {
+    parts.push(`shifted by a ${INTERVAL_NAMES[alignment.transposition]}`);
+  }
+
+  if (alignment.repeats.a > 1 || alignment.repeats.b > 1) {
+    parts.push(`loop repeated ${Math.max(alignment.repeats.a, alignment.repeats.b)}× to match length`);
+  }
+
+  const differences = alignment.steps.filter(step => step.op !== 'match').slice(0, 3);
+  for (const step of differences) {
+    if (step.op === 'substitute') {
+      parts.push(`${step.a} ↔ ${step.b} (${RELATION_LABELS[step.relation ?? 'different_function']})`);
+    } else if (step.op === 'delete') {
+      parts.push(`extra ${step.a}`);
+    } else {
+      parts.push(`missing ${step.b}`);
+    }
+  }
+
+  return parts.join('; ');
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
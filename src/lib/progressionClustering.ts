@@ -0,0 +1,246 @@
+/**
+ * Progression Clustering
+ *
+ * Groups tracks into progression families ("I-V-vi-IV variations") by
+ * average-linkage agglomerative clustering over the alignment distance
+ * (1 - alignProgressions score). Tracks sharing a loop are collapsed into
+ * one weighted point first, so cost scales with distinct progressions, not
+ * catalog size.
+ *
+ * NOTE: Relative imports carry the .ts extension so the harmonic-analysis
+ * and harmonic-clusters edge functions can load this module under Deno.
+ */
+
+import type { Mode, RomanChord } from '@/types/harmony';
+import { alignProgressions, loopPeriod } from './progressionAlignment.ts';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const CLUSTERING_CONFIG = {
+  // Stop merging once the closest clusters are further apart than this
+  MAX_MERGE_DISTANCE: 0.3,
+  // New tracks join the nearest cluster within this distance
+  MAX_ASSIGN_DISTANCE: 0.3,
+  // Distinct progressions considered per run (O(n^2) distance matrix)
+  MAX_DISTINCT_PROGRESSIONS: 400,
+  MIN_CLUSTER_SIZE: 3,
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ClusterInput {
+  track_id: string;
+  progression: RomanChord[];
+  confidence: number;
+  mode?: Mode;
+}
+
+export interface ClusterDraft {
+  prototype_key: string; // Canonical loop, stable across rebuilds
+  name: string;
+  prototype_progression: RomanChord[];
+  members: Array<{ track_id: string; distance: number }>;
+  avg_confidence: number;
+}
+
+interface ProgressionPoint {
+  key: string;
+  progression: RomanChord[];
+  mode?: Mode;
+  members: ClusterInput[];
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Cluster tracks by progression similarity
+ */
+export function clusterProgressions(
+  inputs: ClusterInput[],
+  options: { minClusterSize?: number; maxDistance?: number } = {}
+): ClusterDraft[] {
+  const minClusterSize = options.minClusterSize ?? CLUSTERING_CONFIG.MIN_CLUSTER_SIZE;
+  const maxDistance = options.maxDistance ?? CLUSTERING_CONFIG.MAX_MERGE_DISTANCE;
+
+  // Step 1: Collapse identical loops (any rotation/repetition) into points
+  const points = collapseProgressions(inputs)
+    .sort((a, b) => b.members.length - a.members.length)
+    .slice(0, CLUSTERING_CONFIG.MAX_DISTINCT_PROGRESSIONS);
+  if (points.length === 0) return [];
+
+  // Step 2: Pairwise alignment distances
+  const n = points.length;
+  const distance = Array.from({ length: n }, () => new Float64Array(n));
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const d = progressionDistance(points[i], points[j]);
+      distance[i][j] = d;
+      distance[j][i] = d;
+    }
+  }
+
+  // Step 3: Average-linkage agglomeration (weighted by track count)
+  const groups = mergeGroups(points, distance, maxDistance);
+
+  // Step 4: Medoid prototype, members, names
+  return groups
+    .map(group => buildDraft(group, points, distance))
+    .filter(draft => draft.members.length >= minClusterSize)
+    .sort((a, b) => b.members.length - a.members.length);
+}
+
+/**
+ * Nearest cluster for a newly analysed progression (incremental assignment)
+ */
+export function assignToCluster<T extends { prototype_progression: RomanChord[] }>(
+  progression: RomanChord[],
+  clusters: T[],
+  mode?: Mode
+): { cluster: T; distance: number } | null {
+  if (progression.length === 0) return null;
+
+  let best: { cluster: T; distance: number } | null = null;
+  for (const cluster of clusters) {
+    const distance = 1 - alignProgressions(cluster.prototype_progression, progression, {
+      modes: { b: mode },
+    }).score;
+    if (distance <= CLUSTERING_CONFIG.MAX_ASSIGN_DISTANCE && (!best || distance < best.distance)) {
+      best = { cluster, distance: round3(distance) };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Canonical form of a loop: shortest period, rotated to start on the tonic
+ * (or the lexicographically first rotation when there is no tonic chord)
+ */
+export function canonicalLoop(progression: RomanChord[], mode?: Mode): RomanChord[] {
+  const period = loopPeriod(progression, mode);
+  if (period.length === 0) return period;
+
+  const rotations = period.map((_, offset) => [...period.slice(offset), ...period.slice(0, offset)]);
+  const tonicStarts = rotations.filter(rotation => /^[Ii](?![IiVv])/.test(rotation[0].numeral));
+  const pool = tonicStarts.length > 0 ? tonicStarts : rotations;
+
+  return pool.reduce((best, rotation) => (keyOf(rotation) < keyOf(best) ? rotation : best));
+}
+
+/**
+ * Display name for a progression family
+ */
+export function clusterName(prototype: RomanChord[], variants: number): string {
+  const label = keyOf(prototype);
+  return variants > 1 ? `${label} variations` : label;
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+function keyOf(progression: RomanChord[]): string {
+  return progression.map(chord => chord.numeral).join('-');
+}
+
+function collapseProgressions(inputs: ClusterInput[]): ProgressionPoint[] {
+  const points = new Map<string, ProgressionPoint>();
+
+  for (const input of inputs) {
+    if (input.progression.length === 0) continue;
+
+    const canonical = canonicalLoop(input.progression, input.mode);
+    const key = keyOf(canonical);
+    const point = points.get(key);
+    if (point) {
+      point.members.push(input);
+    } else {
+      points.set(key, { key, progression: canonical, mode: input.mode, members: [input] });
+    }
+  }
+
+  return [...points.values()];
+}
+
+function progressionDistance(a: ProgressionPoint, b: ProgressionPoint): number {
+  return 1 - alignProgressions(a.progression, b.progression, { modes: { a: a.mode, b: b.mode } }).score;
+}
+
+function mergeGroups(points: ProgressionPoint[], distance: Float64Array[], maxDistance: number): number[][] {
+  const groups: Array<number[] | null> = points.map((_, i) => [i]);
+  const weights = points.map(point => point.members.length);
+  // Linkage between live groups (Lance-Williams update keeps it average)
+  const linkage = distance.map(row => Float64Array.from(row));
+
+  for (;;) {
+    let bestI = -1;
+    let bestJ = -1;
+    let bestDistance = Infinity;
+    for (let i = 0; i < groups.length; i++) {
+      if (!groups[i]) continue;
+      for (let j = i + 1; j < groups.length; j++) {
+        if (groups[j] && linkage[i][j] < bestDistance) {
+          bestDistance = linkage[i][j];
+          bestI = i;
+          bestJ = j;
+        }
+      }
+    }
+
+    if (bestI < 0 || bestDistance > maxDistance) break;
+
+    const wi = weights[bestI];
+    const wj = weights[bestJ];
+    for (let k = 0; k < groups.length; k++) {
+      if (!groups[k] || k === bestI || k === bestJ) continue;
+      const merged = (linkage[bestI][k] * wi + linkage[bestJ][k] * wj) / (wi + wj);
+      linkage[bestI][k] = merged;
+      linkage[k][bestI] = merged;
+    }
+
+    groups[bestI] = [...groups[bestI]!, ...groups[bestJ]!];
+    groups[bestJ] = null;
+    weights[bestI] = wi + wj;
+  }
+
+  return groups.filter((group): group is number[] => group !== null);
+}
+
+function buildDraft(group: number[], points: ProgressionPoint[], distance: Float64Array[]): ClusterDraft {
+  // Medoid: the progression with the smallest track-weighted distance to the rest
+  let medoid = group[0];
+  let medoidCost = Infinity;
+  for (const candidate of group) {
+    let cost = 0;
+    for (const other of group) cost += distance[candidate][other] * points[other].members.length;
+    if (cost < medoidCost) {
+      medoidCost = cost;
+      medoid = candidate;
+    }
+  }
+
+  const prototype = points[medoid];
+  const members = group.flatMap(index =>
+    points[index].members.map(member => ({
+      track_id: member.track_id,
+      distance: round3(distance[medoid][index]),
+    }))
+  );
+  const confidences = group.flatMap(index => points[index].members.map(member => member.confidence));
+
+  return {
+    prototype_key: prototype.key,
+    name: clusterName(prototype.progression, group.length),
+    prototype_progression: prototype.progression,
+    members,
+    avg_confidence: round3(confidences.reduce((sum, c) => sum + c, 0) / confidences.length),
+  };
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
@@ -0,0 +1,124 @@
+/**
+ * Provider Handoff
+ *
+ * Maps a playback position from one provider's edit of a track to
+ * another's, so switching providers mid-track carries on from the same
+ * moment of the song. Edits differ: music videos add a lead-in (cold open,
+ * label idents), radio and extended edits change the body.
+ *
+ * Detection, from durations and the song's sections:
+ * 1. Durations within tolerance: same edit, same position
+ * 2. Lead-in: one edit is the song itself and the other holds it with up
+ *    to MAX_EXTRA_MS added (the Spotify audio against its music video).
+ *    The song's own length comes from the canonical duration, else from
+ *    where the last section ends. The extra is placed before the song's
+ *    first section, so every section starts that much later in the longer
+ *    edit; positions inside its lead-in map to the song's start
+ * 3. Extended edits: both edits hold the whole song with extra length,
+ *    or the song's length is unknown. Where each edit's extra lies can't
+ *    be told, so the position stays the same
+ * 4. Otherwise the edits differ in the body: position scales with duration
+ *
+ * Unknown durations map to the same position; the player re-maps once the
+ * target provider reports its duration.
+ */
+
+import type { TrackSection } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const HANDOFF_CONFIG = {
+  SAME_EDIT_TOLERANCE_MS: 2000,
+  MAX_EXTRA_MS: 45000, // Intros, idents and outros music videos add
+  CORRECTION_TOLERANCE_MS: 750, // Smaller corrections aren't worth an audible re-seek
+  READY_TIMEOUT_MS: 10000, // Target silent this long: fall back to the source
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type HandoffMethod = 'same-edit' | 'lead-in' | 'extended' | 'scaled' | 'unknown';
+
+// What callers know about the track beyond the live source player
+export interface HandoffHint {
+  targetDurationMs?: number | null;
+  canonicalDurationMs?: number | null;
+  sections?: Pick<TrackSection, 'start_ms' | 'end_ms'>[];
+}
+
+export interface HandoffTiming extends HandoffHint {
+  sourceDurationMs?: number | null;
+}
+
+export interface HandoffPosition {
+  positionMs: number;
+  offsetMs: number; // Target position minus source position
+  method: HandoffMethod;
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Position on the target provider matching `positionMs` on the source
+ */
+export function mapHandoffPosition(positionMs: number, timing: HandoffTiming): HandoffPosition {
+  const source = timing.sourceDurationMs || 0;
+  const target = timing.targetDurationMs || 0;
+  const position = Math.max(0, positionMs);
+
+  if (!source || !target) return result(position, position, 'unknown');
+  if (Math.abs(target - source) <= HANDOFF_CONFIG.SAME_EDIT_TOLERANCE_MS) return result(position, position, 'same-edit');
+
+  const song = songLengthMs(timing);
+  if (song) {
+    const sourceLeadIn = leadInMs(source, song);
+    const targetLeadIn = leadInMs(target, song);
+    if (sourceLeadIn !== null && targetLeadIn !== null && (sourceLeadIn === 0 || targetLeadIn === 0)) {
+      const songPosition = Math.min(Math.max(0, position - sourceLeadIn), song);
+      return result(position, Math.min(songPosition + targetLeadIn, target), 'lead-in');
+    }
+  }
+
+  const extended = song
+    ? isExtendedEdit(source, song) && isExtendedEdit(target, song)
+    : Math.abs(target - source) <= HANDOFF_CONFIG.MAX_EXTRA_MS;
+  if (extended) return result(position, Math.min(position, target), 'extended');
+
+  return result(position, Math.min((position * target) / source, target), 'scaled');
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+function result(from: number, to: number, method: HandoffMethod): HandoffPosition {
+  const positionMs = Math.round(to);
+  return { positionMs, offsetMs: positionMs - Math.round(from), method };
+}
+
+function songLengthMs({ canonicalDurationMs, sections }: HandoffTiming): number | null {
+  if (canonicalDurationMs) return canonicalDurationMs;
+  if (!sections?.length) return null;
+  return Math.max(...sections.map(s => s.end_ms));
+}
+
+// Lead-in of an edit placed before the song's first section: 0 for the song
+// itself, null when the edit is shorter than the song or adds more than
+// MAX_EXTRA_MS
+function leadInMs(durationMs: number, songMs: number): number | null {
+  const extra = durationMs - songMs;
+  if (Math.abs(extra) <= HANDOFF_CONFIG.SAME_EDIT_TOLERANCE_MS) return 0;
+  if (extra < 0 || extra > HANDOFF_CONFIG.MAX_EXTRA_MS) return null;
+  return extra;
+}
+
+// Whether an edit holds the whole song plus at most MAX_EXTRA_MS
+function isExtendedEdit(durationMs: number, songMs: number): boolean {
+  const extra = durationMs - songMs;
+  return extra >= -HANDOFF_CONFIG.SAME_EDIT_TOLERANCE_MS && extra <= HANDOFF_CONFIG.MAX_EXTRA_MS;
+}
@@ -2,6 +2,8 @@
 
 export type MusicProvider = 'spotify' | 'youtube' | 'apple_music' | 'deezer' | 'soundcloud' | 'amazon_music';
 
+export type MarketAvailability = 'available' | 'unavailable' | 'unknown';
+
 export interface ProviderLink {
   provider: MusicProvider;
   name: string;
@@ -9,6 +11,8 @@ export interface ProviderLink {
   webUrl: string;
   appUrl?: string;
   color: string;
+  availability?: MarketAvailability; // In the market passed to getProviderLinks
+  alternateRelease?: boolean; // Another release of the recording, standing in for a regional block
 }
 
 export interface TrackProviderInfo {
@@ -21,8 +25,19 @@ export interface TrackProviderInfo {
   deezerId?: string;
   soundcloudId?: string;
   amazonMusicId?: string;
+  availableMarkets?: Partial<Record<MusicProvider, string[]>>; // Where each provider's track plays, when known
 }
 
+// TrackProviderInfo field holding each provider's track ID
+const PROVIDER_ID_FIELDS = {
+  spotify: 'spotifyId',
+  youtube: 'youtubeId',
+  apple_music: 'appleMusicId',
+  deezer: 'deezerId',
+  soundcloud: 'soundcloudId',
+  amazon_music: 'amazonMusicId',
+} as const satisfies Record<MusicProvider, keyof TrackProviderInfo>;
+
 // Generate Spotify URLs from track ID
 export function generateSpotifyLinks(spotifyId: string): { web: string; app: string } {
   return {
@@ -36,8 +51,38 @@ export function generateYoutubeLink(youtubeId: string): string {
   return `https://www.youtube.com/watch?v=${youtubeId}`;
 }
 
+// Generate Deezer URLs from track ID
+export function generateDeezerLinks(deezerId: string): { web: string; app: string } {
+  return {
+    web: `https://www.deezer.com/track/${deezerId}`,
+    app: `deezer://www.deezer.com/track/${deezerId}`,
+  };
+}
+
+// Whether a track plays in a market, from the provider's market list
+export function marketAvailability(markets: string[] | null | undefined, market: string): MarketAvailability {
+  if (!markets) return 'unknown';
+  return markets.includes(market.toUpperCase()) ? 'available' : 'unavailable';
+}
+
+// Provider track IDs known for a track
+export function getProviderTrackIds(track: TrackProviderInfo): Partial<Record<MusicProvider, string>> {
+  const ids: Partial<Record<MusicProvider, string>> = {};
+  for (const [provider, field] of Object.entries(PROVIDER_ID_FIELDS) as Array<[MusicProvider, keyof TrackProviderInfo]>) {
+    const id = track[field];
+    if (typeof id === 'string' && id) ids[provider] = id;
+  }
+  return ids;
+}
+
+// Link for one provider track, for providers we can link to
+export function getProviderLink(provider: MusicProvider, providerTrackId: string): ProviderLink | null {
+  return getProviderLinks({ [PROVIDER_ID_FIELDS[provider]]: providerTrackId })[0] ?? null;
+}
+
 // Get all available provider links for a track
-export function getProviderLinks(track: TrackProviderInfo): ProviderLink[] {
+// With a market, each link says whether it plays there
+export function getProviderLinks(track: TrackProviderInfo, market?: string): ProviderLink[] {
   const links: ProviderLink[] = [];
 
   if (track.spotifyId || track.urlSpotifyWeb) {
@@ -69,6 +114,25 @@ export function getProviderLinks(track: TrackProviderInfo): ProviderLink[] {
     });
   }
 
+  if (track.deezerId) {
+    const deezerLinks = generateDeezerLinks(track.deezerId);
+
+    links.push({
+      provider: 'deezer',
+      name: 'Deezer',
+      icon: '🎧',
+      webUrl: deezerLinks.web,
+      appUrl: deezerLinks.app,
+      color: '#FF6600',
+    });
+  }
+
+  if (market) {
+    for (const link of links) {
+      link.availability = marketAvailability(track.availableMarkets?.[link.provider], market);
+    }
+  }
+
   return links;
 }
 
@@ -0,0 +1,249 @@
+/**
+ * Queue Model
+ *
+ * The play queue as one ordered list of entries with a playing index:
+ * - History: entries before the index (trimmed to HISTORY_LIMIT)
+ * - Next in queue: tracks the user added, played before anything else
+ * - Up next: what plays after (the surrounding context, Auto-DJ picks)
+ *
+ * Every edit returns a new snapshot stamped with the edit time, so copies of
+ * the queue in other tabs and on other devices reconcile by newest edit.
+ * Entries carry their own uid: the same track may be queued twice.
+ */
+
+import type { Track } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const QUEUE_CONFIG = {
+  HISTORY_LIMIT: 50, // Played entries kept before the playing one
+  UNDO_LIMIT: 20,
+  SAVE_DEBOUNCE_MS: 2000, // Server saves coalesce edits made within this window
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type QueueOrigin = 'user' | 'context' | 'auto-dj';
+
+export interface QueueEntry {
+  uid: string;
+  track: Track;
+  origin: QueueOrigin;
+  reason?: string; // Why Auto-DJ picked it
+}
+
+export interface QueueSnapshot {
+  entries: QueueEntry[];
+  index: number; // Playing entry, -1 when nothing plays from the queue
+  updatedAt: number; // Epoch ms of the last edit
+}
+
+export interface QueueSections {
+  history: QueueEntry[];
+  current: QueueEntry | null;
+  userAdded: QueueEntry[];
+  upNext: QueueEntry[];
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+export function emptyQueue(updatedAt = 0): QueueSnapshot {
+  return { entries: [], index: -1, updatedAt };
+}
+
+export function createEntry(track: Track, origin: QueueOrigin, reason?: string): QueueEntry {
+  return { uid: newUid(), track, origin, ...(reason ? { reason } : {}) };
+}
+
+export function queueSections(queue: QueueSnapshot): QueueSections {
+  const upcoming = queue.entries.slice(queue.index + 1);
+  return {
+    history: queue.entries.slice(0, Math.max(0, queue.index)),
+    current: queue.entries[queue.index] ?? null,
+    userAdded: upcoming.filter(e => e.origin === 'user'),
+    upNext: upcoming.filter(e => e.origin !== 'user'),
+  };
+}
+
+/**
+ * Add tracks the user chose: `next` plays them straight after the current
+ * track, `end` after the other tracks they added (still before up next)
+ */
+export function enqueue(queue: QueueSnapshot, tracks: Track[], at: 'next' | 'end'): QueueSnapshot {
+  if (tracks.length === 0) return queue;
+  const position = at === 'next' ? queue.index + 1 : queue.index + 1 + userAddedCount(queue);
+  const added = tracks.map(track => createEntry(track, 'user'));
+  return edit(queue, [...queue.entries.slice(0, position), ...added, ...queue.entries.slice(position)], queue.index);
+}
+
+/**
+ * Append to up next. An empty queue starts from `current` (the track
+ * playing outside the queue) when given
+ */
+export function appendUpNext(queue: QueueSnapshot, entries: QueueEntry[], current?: Track | null): QueueSnapshot {
+  if (queue.entries.length === 0) {
+    if (!current) return queue;
+    return edit(queue, [createEntry(current, 'context'), ...entries], 0);
+  }
+  return entries.length ? edit(queue, [...queue.entries, ...entries], queue.index) : queue;
+}
+
+export function removeEntry(queue: QueueSnapshot, uid: string): QueueSnapshot {
+  const position = queue.entries.findIndex(e => e.uid === uid);
+  if (position === -1) return queue;
+  const entries = queue.entries.filter(e => e.uid !== uid);
+  const index = position < queue.index ? queue.index - 1 : queue.index;
+  return edit(queue, entries, clampIndex(entries.length, index));
+}
+
+/**
+ * Reorder what's still to play. `uids` lists every upcoming entry in its
+ * new order; anything else is ignored
+ */
+export function reorderUpcoming(queue: QueueSnapshot, uids: string[]): QueueSnapshot {
+  const head = queue.entries.slice(0, queue.index + 1);
+  const upcoming = new Map(queue.entries.slice(queue.index + 1).map(e => [e.uid, e]));
+  if (uids.length !== upcoming.size || !uids.every(uid => upcoming.has(uid))) return queue;
+  return edit(queue, [...head, ...uids.map(uid => upcoming.get(uid)!)], queue.index);
+}
+
+/**
+ * Shuffle each upcoming section on its own: added tracks stay first
+ */
+export function shuffleUpcoming(queue: QueueSnapshot): QueueSnapshot {
+  const { userAdded, upNext } = queueSections(queue);
+  const head = queue.entries.slice(0, queue.index + 1);
+  return edit(queue, [...head, ...shuffle(userAdded), ...shuffle(upNext)], queue.index);
+}
+
+export function clearQueue(queue: QueueSnapshot): QueueSnapshot {
+  return queue.entries.length ? edit(queue, [], -1) : queue;
+}
+
+/**
+ * Play the entry at `position`, trimming history past the limit
+ */
+export function jumpTo(queue: QueueSnapshot, position: number): QueueSnapshot {
+  if (!queue.entries[position]) return queue;
+  const trimmed = Math.max(0, position - QUEUE_CONFIG.HISTORY_LIMIT);
+  return edit(queue, queue.entries.slice(trimmed), position - trimmed);
+}
+
+/**
+ * Step forward or back, wrapping at either end
+ */
+export function stepQueue(queue: QueueSnapshot, delta: 1 | -1): QueueSnapshot {
+  const count = queue.entries.length;
+  if (count === 0) return queue;
+  return jumpTo(queue, (queue.index + delta + count) % count);
+}
+
+/**
+ * Bring back an earlier copy of the queue (undo), still playing the
+ * current entry if it's in there
+ */
+export function restoreQueue(queue: QueueSnapshot, previous: QueueSnapshot): QueueSnapshot {
+  const playing = queue.entries[queue.index]?.uid;
+  const index = previous.entries.findIndex(e => e.uid === playing);
+  return edit(queue, previous.entries, index === -1 ? clampIndex(previous.entries.length, previous.index) : index);
+}
+
+/**
+ * The newer of two copies of the queue; `local` wins ties
+ */
+export function newerQueue(local: QueueSnapshot, remote: QueueSnapshot | null): QueueSnapshot {
+  return remote && remote.updatedAt > local.updatedAt ? remote : local;
+}
+
+/**
+ * Take a newer copy of the queue from another tab or device. Tabs share the
+ * entries but each plays its own: while this one plays, it keeps its playing
+ * entry (none when the copy dropped it) instead of the copy's index
+ */
+export function adoptRemoteQueue(local: QueueSnapshot, remote: QueueSnapshot | null, playingHere: boolean): QueueSnapshot {
+  const newer = newerQueue(local, remote);
+  if (newer === local || !playingHere) return newer;
+
+  const playing = local.entries[local.index]?.uid;
+  const index = playing ? newer.entries.findIndex(e => e.uid === playing) : -1;
+  return index === newer.index ? newer : { ...newer, index };
+}
+
+/**
+ * Validate a stored or received queue. Also reads the old array format
+ * ({ queue: Track[], queueIndex })
+ */
+export function parseQueue(raw: unknown): QueueSnapshot | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, unknown>;
+
+  if (Array.isArray(value.queue)) {
+    const entries = value.queue.filter(isTrack).map(track => createEntry(track, 'context'));
+    // Older than any edit since, newer than an untouched empty queue
+    return { entries, index: clampIndex(entries.length, numberOr(value.queueIndex, -1)), updatedAt: 1 };
+  }
+
+  if (!Array.isArray(value.entries)) return null;
+  const entries = value.entries.filter(isEntry);
+  return {
+    entries,
+    index: clampIndex(entries.length, numberOr(value.index, -1)),
+    updatedAt: numberOr(value.updatedAt, 0),
+  };
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+const ORIGINS = new Set<QueueOrigin>(['user', 'context', 'auto-dj']);
+
+function edit(queue: QueueSnapshot, entries: QueueEntry[], index: number): QueueSnapshot {
+  // Never stamp an edit older than the snapshot it replaces (clock skew between devices)
+  return { entries, index, updatedAt: Math.max(Date.now(), queue.updatedAt + 1) };
+}
+
+// Added tracks sit together straight after the playing entry
+function userAddedCount(queue: QueueSnapshot): number {
+  let count = 0;
+  while (queue.entries[queue.index + 1 + count]?.origin === 'user') count++;
+  return count;
+}
+
+// -1 (not started) stays valid while there are entries
+function clampIndex(length: number, index: number): number {
+  return Math.max(-1, Math.min(index, length - 1));
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function newUid(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function isTrack(value: unknown): value is Track {
+  return !!value && typeof value === 'object' && typeof (value as Track).id === 'string';
+}
+
+function isEntry(value: unknown): value is QueueEntry {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as QueueEntry;
+  return typeof entry.uid === 'string' && isTrack(entry.track) && ORIGINS.has(entry.origin);
+}
@@ -0,0 +1,332 @@
+/**
+ * Re-analysis Planner
+ *
+ * Upgrade path for fingerprints produced by older analysis models.
+ *
+ * ALGORITHM:
+ * 1. Candidates are fingerprints whose analysis_version is older than the
+ *    current model (numeric dotted comparison)
+ * 2. Priority: provisional, low-confidence and major-version-behind
+ *    fingerprints first; confident patch-level upgrades last
+ * 3. Jobs are split into fixed-size batches, each claimable one interval
+ *    after the previous one, so an upgrade never floods the worker queue
+ * 4. A re-analysis only replaces the stored fingerprint when it beats the
+ *    old confidence; either way the change is recorded as a diff so every
+ *    version bump can be reviewed (keys, modes, progressions)
+ *
+ * NOTE: Relative imports carry the .ts extension so the harmonic-analysis
+ * and reanalysis-planner edge functions can load this module under Deno.
+ */
+
+import type { AnalysisRequest, HarmonicFingerprint } from '@/types/harmony';
+import { ANALYSIS_MODEL_VERSION } from './harmonicDsp.ts';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const REANALYSIS_CONFIG = {
+  BATCH_SIZE: 25,
+  // One batch becomes claimable per interval
+  BATCH_INTERVAL_MS: 15 * 60 * 1000,
+  MAX_BATCHES_PER_RUN: 8,
+  // Below this confidence an outdated fingerprint is upgraded first
+  LOW_CONFIDENCE: 0.5,
+  // Most common key transitions listed per version bump
+  TOP_TRANSITIONS: 5,
+} as const;
+
+type JobPriority = NonNullable<AnalysisRequest['priority']>;
+
+const PRIORITY_RANK: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReanalysisCandidate {
+  track_id: string;
+  isrc?: string | null;
+  audio_hash?: string | null;
+  audio_url?: string | null; // Last known audio source of the track
+  analysis_version: string;
+  confidence_score: number;
+  is_provisional: boolean;
+}
+
+export interface PlannedReanalysisJob {
+  track_id: string;
+  isrc: string | null;
+  audio_hash: string | null;
+  audio_url: string;
+  priority: JobPriority;
+  previous_version: string;
+  batch: number;
+  next_attempt_at: string;
+}
+
+export interface ReanalysisPlan {
+  target_version: string;
+  jobs: PlannedReanalysisJob[];
+  batches: number;
+  skipped: Array<{ track_id: string; reason: 'current' | 'no_audio' | 'over_budget' }>;
+}
+
+export interface VersionDiff {
+  track_id: string;
+  from_version: string;
+  to_version: string;
+  previous_key: string | null;
+  next_key: string | null;
+  previous_mode: string | null;
+  next_mode: string | null;
+  previous_progression: string[];
+  next_progression: string[];
+  key_changed: boolean;
+  mode_changed: boolean;
+  progression_changed: boolean;
+  previous_confidence: number;
+  next_confidence: number;
+  applied: boolean; // New result replaced the old one
+}
+
+export interface VersionBumpReport {
+  from_version: string;
+  to_version: string;
+  tracks: number;
+  applied: number;
+  kept: number; // Old result had the higher confidence
+  key_changes: number;
+  mode_changes: number;
+  progression_changes: number;
+  mean_confidence_delta: number;
+  key_transitions: Array<{ from: string; to: string; count: number }>;
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Compare dotted versions numerically ("1.10.0" > "1.9.2")
+ * Non-numeric parts compare as strings; missing parts count as 0.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.');
+  const right = b.split('.');
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const l = left[i] ?? '0';
+    const r = right[i] ?? '0';
+    const ln = Number(l);
+    const rn = Number(r);
+    const diff = Number.isFinite(ln) && Number.isFinite(rn) ? ln - rn : l.localeCompare(r);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
+
+/**
+ * Whether a fingerprint's model version is older than the target
+ */
+export function isOutdated(version: string | null | undefined, target: string = ANALYSIS_MODEL_VERSION): boolean {
+  return !version || compareVersions(version, target) < 0;
+}
+
+/**
+ * Size of the upgrade from one version to another
+ */
+export function versionBump(from: string, to: string): 'major' | 'minor' | 'patch' | null {
+  if (compareVersions(from, to) >= 0) return null;
+  const [fromMajor = '0', fromMinor = '0'] = from.split('.');
+  const [toMajor = '0', toMinor = '0'] = to.split('.');
+  if (fromMajor !== toMajor) return 'major';
+  if (fromMinor !== toMinor) return 'minor';
+  return 'patch';
+}
+
+/**
+ * Job priority for upgrading one fingerprint
+ */
+export function reanalysisPriority(candidate: ReanalysisCandidate, target: string = ANALYSIS_MODEL_VERSION): JobPriority {
+  const bump = versionBump(candidate.analysis_version, target);
+  if (candidate.is_provisional || candidate.confidence_score < REANALYSIS_CONFIG.LOW_CONFIDENCE || bump === 'major') {
+    return 'high';
+  }
+  return bump === 'patch' ? 'low' : 'normal';
+}
+
+/**
+ * Prioritized, rate-limited batches of re-analysis jobs
+ * `startAt` is when the first batch becomes claimable (after batches
+ * already waiting in the queue).
+ */
+export function planReanalysis(
+  candidates: ReanalysisCandidate[],
+  options: {
+    target?: string;
+    startAt?: Date;
+    batchSize?: number;
+    batchIntervalMs?: number;
+    maxBatches?: number;
+  } = {}
+): ReanalysisPlan {
+  const target = options.target ?? ANALYSIS_MODEL_VERSION;
+  const startAt = options.startAt ?? new Date();
+  const batchSize = Math.max(1, options.batchSize ?? REANALYSIS_CONFIG.BATCH_SIZE);
+  const batchIntervalMs = options.batchIntervalMs ?? REANALYSIS_CONFIG.BATCH_INTERVAL_MS;
+  const maxJobs = batchSize * (options.maxBatches ?? REANALYSIS_CONFIG.MAX_BATCHES_PER_RUN);
+
+  const skipped: ReanalysisPlan['skipped'] = [];
+  const ranked: Array<{ candidate: ReanalysisCandidate; priority: JobPriority }> = [];
+  const seen = new Set<string>();
+
+  for (const candidate of candidates) {
+    if (seen.has(candidate.track_id)) continue;
+    seen.add(candidate.track_id);
+
+    if (!isOutdated(candidate.analysis_version, target)) {
+      skipped.push({ track_id: candidate.track_id, reason: 'current' });
+    } else if (!candidate.audio_url) {
+      // The worker cannot fetch audio without a source; the job would dead-letter
+      skipped.push({ track_id: candidate.track_id, reason: 'no_audio' });
+    } else {
+      ranked.push({ candidate, priority: reanalysisPriority(candidate, target) });
+    }
+  }
+
+  // Priority, then oldest model, then least confident
+  ranked.sort((a, b) =>
+    PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+    compareVersions(a.candidate.analysis_version, b.candidate.analysis_version) ||
+    a.candidate.confidence_score - b.candidate.confidence_score
+  );
+
+  for (const { candidate } of ranked.slice(maxJobs)) {
+    skipped.push({ track_id: candidate.track_id, reason: 'over_budget' });
+  }
+
+  const jobs = ranked.slice(0, maxJobs).map(({ candidate, priority }, i): PlannedReanalysisJob => {
+    const batch = Math.floor(i / batchSize);
+    return {
+      track_id: candidate.track_id,
+      isrc: candidate.isrc ?? null,
+      audio_hash: candidate.audio_hash ?? null,
+      audio_url: candidate.audio_url!,
+      priority,
+      previous_version: candidate.analysis_version,
+      batch,
+      next_attempt_at: new Date(startAt.getTime() + batch * batchIntervalMs).toISOString(),
+    };
+  });
+
+  return {
+    target_version: target,
+    jobs,
+    batches: jobs.length > 0 ? jobs[jobs.length - 1].batch + 1 : 0,
+    skipped,
+  };
+}
+
+/**
+ * Whether a fresh result should replace the stored fingerprint
+ * Upgrades from an older model keep the old result until the new one beats
+ * its confidence (a provisional result never displaces a final one);
+ * same-version re-analysis always overwrites.
+ */
+export function shouldReplaceFingerprint(
+  existing: Pick<HarmonicFingerprint, 'analysis_version' | 'confidence_score' | 'is_provisional'> | null,
+  fresh: Pick<HarmonicFingerprint, 'analysis_version' | 'confidence_score' | 'is_provisional'>
+): boolean {
+  if (!existing) return true;
+  if (compareVersions(existing.analysis_version, fresh.analysis_version) >= 0) return true;
+  if (existing.is_provisional !== fresh.is_provisional) return existing.is_provisional;
+  return fresh.confidence_score > existing.confidence_score;
+}
+
+/**
+ * What changed between the stored fingerprint and a re-analysis
+ */
+export function diffFingerprints(
+  previous: HarmonicFingerprint,
+  next: HarmonicFingerprint,
+  applied: boolean
+): VersionDiff {
+  const previousProgression = previous.roman_progression.map(chord => chord.numeral);
+  const nextProgression = next.roman_progression.map(chord => chord.numeral);
+  const previousKey = previous.detected_key ?? null;
+  const nextKey = next.detected_key ?? null;
+  const previousMode = previous.detected_mode ?? previous.tonal_center.mode ?? null;
+  const nextMode = next.detected_mode ?? next.tonal_center.mode ?? null;
+
+  return {
+    track_id: next.track_id,
+    from_version: previous.analysis_version,
+    to_version: next.analysis_version,
+    previous_key: previousKey,
+    next_key: nextKey,
+    previous_mode: previousMode,
+    next_mode: nextMode,
+    previous_progression: previousProgression,
+    next_progression: nextProgression,
+    key_changed: previousKey !== nextKey,
+    mode_changed: previousMode !== nextMode,
+    progression_changed: previousProgression.join(' ') !== nextProgression.join(' '),
+    previous_confidence: round3(previous.confidence_score),
+    next_confidence: round3(next.confidence_score),
+    applied,
+  };
+}
+
+/**
+ * Aggregate diffs per version bump (newest target first)
+ */
+export function summarizeVersionDiffs(diffs: VersionDiff[]): VersionBumpReport[] {
+  const byBump = new Map<string, VersionDiff[]>();
+  for (const diff of diffs) {
+    const key = `${diff.from_version}→${diff.to_version}`;
+    byBump.set(key, [...(byBump.get(key) ?? []), diff]);
+  }
+
+  const reports = [...byBump.values()].map((group): VersionBumpReport => {
+    const transitions = new Map<string, { from: string; to: string; count: number }>();
+    for (const diff of group) {
+      if (!diff.key_changed) continue;
+      const from = diff.previous_key ?? '?';
+      const to = diff.next_key ?? '?';
+      const entry = transitions.get(`${from}→${to}`) ?? { from, to, count: 0 };
+      entry.count++;
+      transitions.set(`${from}→${to}`, entry);
+    }
+
+    const applied = group.filter(d => d.applied).length;
+    const deltas = group.reduce((sum, d) => sum + (d.next_confidence - d.previous_confidence), 0);
+
+    return {
+      from_version: group[0].from_version,
+      to_version: group[0].to_version,
+      tracks: group.length,
+      applied,
+      kept: group.length - applied,
+      key_changes: group.filter(d => d.key_changed).length,
+      mode_changes: group.filter(d => d.mode_changed).length,
+      progression_changes: group.filter(d => d.progression_changed).length,
+      mean_confidence_delta: round3(deltas / group.length),
+      key_transitions: [...transitions.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, REANALYSIS_CONFIG.TOP_TRANSITIONS),
+    };
+  });
+
+  return reports.sort((a, b) =>
+    compareVersions(b.to_version, a.to_version) || compareVersions(b.from_version, a.from_version)
+  );
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,145 @@
+/**
+ * Regional Availability
+ *
+ * Picks playable links for a track in the listener's market. Provider
+ * mappings (track_id_mappings) record where each provider track plays;
+ * when a linked track is blocked in the market:
+ * 1. Another release of the same recording on the same provider stands in
+ *    (same ISRC, same canonical recording, or a sibling ISRC from the same
+ *    registrant and year with the same title: regional and deluxe
+ *    reissues)
+ * 2. Otherwise other providers that carry the recording in the market are
+ *    offered
+ * 3. Otherwise the link is reported blocked, so the UI can say so instead
+ *    of opening a dead link
+ *
+ * Tracks with unknown availability are treated as playable.
+ */
+
+import type { MusicProvider } from '@/types';
+import {
+  getProviderLink,
+  getProviderLinks,
+  getProviderTrackIds,
+  marketAvailability,
+  type ProviderLink,
+  type TrackProviderInfo,
+} from './providers';
+import { isrcRelation } from './canonicalTracks';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// A provider mapping with its availability (a track_id_mappings row)
+export interface ProviderTrackAvailability {
+  canonical_id: string;
+  provider: MusicProvider;
+  provider_track_id: string;
+  isrc: string | null;
+  title: string; // Without version suffix
+  available_markets: string[] | null;
+}
+
+export interface RegionalLinks {
+  market: string;
+  links: ProviderLink[]; // Playable or unknown, linked providers first
+  blocked: ProviderLink[]; // Linked but not available in the market, no stand-in
+  unavailable: boolean; // Linked somewhere, playable nowhere in the market
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Resolve a track's links for a market using known provider mappings
+ * `records` holds the track's own mappings and those of related releases
+ */
+export function resolveRegionalLinks(
+  track: TrackProviderInfo,
+  records: ProviderTrackAvailability[],
+  market: string
+): RegionalLinks {
+  const ids = getProviderTrackIds(track);
+  const own = records.filter(r => ids[r.provider] === r.provider_track_id);
+
+  const availableMarkets = { ...track.availableMarkets };
+  for (const record of own) {
+    if (record.available_markets && !availableMarkets[record.provider]) {
+      availableMarkets[record.provider] = record.available_markets;
+    }
+  }
+
+  const links: ProviderLink[] = [];
+  const blocked: ProviderLink[] = [];
+
+  for (const link of getProviderLinks({ ...track, availableMarkets }, market)) {
+    if (link.availability !== 'unavailable') {
+      links.push(link);
+      continue;
+    }
+
+    const alternate = findAlternateRelease(link.provider, own, records, market);
+    const alternateLink = alternate && getProviderLink(link.provider, alternate.provider_track_id);
+    if (alternateLink) {
+      links.push({ ...alternateLink, availability: 'available', alternateRelease: true });
+    } else {
+      blocked.push(link);
+    }
+  }
+
+  // Other providers carrying the recording
+  const linked = new Set([...links, ...blocked].map(l => l.provider));
+  const canonicalIds = new Set(own.map(r => r.canonical_id));
+  for (const record of records) {
+    if (linked.has(record.provider) || !canonicalIds.has(record.canonical_id)) continue;
+    if (marketAvailability(record.available_markets, market) !== 'available') continue;
+
+    const link = getProviderLink(record.provider, record.provider_track_id);
+    if (link) {
+      links.push({ ...link, availability: 'available' });
+      linked.add(record.provider);
+    }
+  }
+
+  return {
+    market: market.toUpperCase(),
+    links,
+    blocked,
+    unavailable: links.length === 0 && blocked.length > 0,
+  };
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+function findAlternateRelease(
+  provider: MusicProvider,
+  own: ProviderTrackAvailability[],
+  records: ProviderTrackAvailability[],
+  market: string
+): ProviderTrackAvailability | null {
+  const primaries = own.filter(r => r.provider === provider);
+  let best: { record: ProviderTrackAvailability; score: number } | null = null;
+
+  for (const record of records) {
+    if (record.provider !== provider || primaries.some(p => p.provider_track_id === record.provider_track_id)) continue;
+    if (marketAvailability(record.available_markets, market) !== 'available') continue;
+
+    const score = Math.max(0, ...primaries.map(primary => releaseAffinity(primary, record)));
+    if (score > 0 && (!best || score > best.score)) best = { record, score };
+  }
+
+  return best?.record ?? null;
+}
+
+// 3 same ISRC, 2 same canonical recording, 1 sibling ISRC with the same title
+function releaseAffinity(a: ProviderTrackAvailability, b: ProviderTrackAvailability): number {
+  const relation = isrcRelation(a.isrc, b.isrc);
+  if (relation === 'same') return 3;
+  if (a.canonical_id === b.canonical_id) return 2;
+  if (relation === 'sibling' && a.title.toLowerCase() === b.title.toLowerCase()) return 1;
+  return 0;
+}
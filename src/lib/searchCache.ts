@@ -0,0 +1,276 @@
+/**
+ * Unified Search Cache
+ *
+ * Search results are cached in cache_entries, shared by all clients, keyed
+ * by the normalized query, market, result limit and the set of providers
+ * searched.
+ *
+ * LIFETIME:
+ * - Fresh until the shortest TTL among the providers searched (YouTube,
+ *   with its daily quota, keeps results longest)
+ * - Then stale for STALE_WINDOW_MS: served immediately while a background
+ *   search refreshes the entry
+ * - Results missing a provider (partial) only stay fresh briefly, so the
+ *   failed provider is retried soon
+ *
+ * Entries are dropped by a trigger on track_id_mappings when a canonical
+ * mapping changes (see 20260205_search_cache_entries.sql).
+ *
+ * Every client is served the same entries, so clients can't write them:
+ * the write-search-cache Edge Function computes the key and lifetime
+ * itself, stores results only when verifyCachedSearch backs every track
+ * with its checked mappings, and stores the tracks buildCachedTracks
+ * rebuilds from those mappings rather than the ones submitted. "No
+ * results" is never taken from a client. Reads and writes are in
+ * api/searchCache.
+ */
+
+import type { MusicProvider, Track } from '@/types';
+import type { TrackMappingRecord } from './canonicalTracks';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const SEARCH_CACHE_CONFIG = {
+  KEY_PREFIX: 'search:v1',
+  PROVIDER_TTL_MS: {
+    youtube: 6 * 60 * 60_000, // Quota is the scarce resource
+    spotify: 60 * 60_000,
+    apple_music: 60 * 60_000,
+    soundcloud: 60 * 60_000,
+    amazon_music: 60 * 60_000,
+    deezer: 15 * 60_000, // Preview URLs are signed and expire
+  } satisfies Record<MusicProvider, number>,
+  PARTIAL_TTL_MS: 60_000,
+  STALE_WINDOW_MS: 24 * 60 * 60_000,
+  // Where each provider's links may point: https hosts (and their
+  // subdomains) and app URL schemes
+  LINK_HOSTS: {
+    spotify: ['spotify.com', 'scdn.co'],
+    apple_music: ['apple.com', 'mzstatic.com'],
+    deezer: ['deezer.com', 'dzcdn.net'],
+    soundcloud: ['soundcloud.com', 'sndcdn.com'],
+    youtube: ['youtube.com', 'youtu.be', 'ytimg.com'],
+    amazon_music: ['amazon.com', 'media-amazon.com'],
+  } satisfies Record<MusicProvider, string[]>,
+  APP_SCHEMES: {
+    spotify: ['spotify:'],
+    apple_music: ['music:'],
+    deezer: ['deezer:'],
+    soundcloud: ['soundcloud:'],
+    youtube: ['vnd.youtube:'],
+    amazon_music: [],
+  } satisfies Record<MusicProvider, string[]>,
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SearchCacheKeyParams {
+  query: string;
+  market: string;
+  limit: number;
+  providers: MusicProvider[];
+}
+
+export interface CachedSearch {
+  tracks: Track[];
+  partial_results?: string[];
+  cached_at: string;
+}
+
+export type CacheState = 'fresh' | 'stale' | 'expired';
+
+export interface CacheLookup extends CachedSearch {
+  state: Exclude<CacheState, 'expired'>;
+}
+
+export interface CacheLifetime {
+  fresh_until: Date;
+  expires_at: Date;
+}
+
+// The mapping columns cached results are checked against and rebuilt from
+export type CacheMappingRecord = Pick<TrackMappingRecord, 'canonical_id' | 'provider' | 'provider_track_id' | 'title' | 'artist'> &
+  Partial<Pick<TrackMappingRecord, 'isrc' | 'duration_ms'>>;
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Case, Unicode form and spacing do not change provider results
+ */
+export function normalizeQuery(query: string): string {
+  return query.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function searchCacheKey({ query, market, limit, providers }: SearchCacheKeyParams): string {
+  const providerList = [...new Set(providers)].sort().join(',');
+  return [
+    SEARCH_CACHE_CONFIG.KEY_PREFIX,
+    market.toUpperCase(),
+    providerList,
+    limit,
+    normalizeQuery(query),
+  ].join(':');
+}
+
+/**
+ * Fresh and hard-expiry times for results from these providers
+ */
+export function cacheLifetime(
+  providers: MusicProvider[],
+  partial: boolean,
+  now: Date = new Date()
+): CacheLifetime {
+  const ttl = partial || providers.length === 0
+    ? SEARCH_CACHE_CONFIG.PARTIAL_TTL_MS
+    : Math.min(...providers.map(p => SEARCH_CACHE_CONFIG.PROVIDER_TTL_MS[p]));
+  const freshUntil = now.getTime() + ttl;
+
+  return {
+    fresh_until: new Date(freshUntil),
+    expires_at: new Date(freshUntil + SEARCH_CACHE_CONFIG.STALE_WINDOW_MS),
+  };
+}
+
+export function cacheState(
+  entry: { fresh_until: string | null; expires_at: string },
+  now: Date = new Date()
+): CacheState {
+  const time = now.getTime();
+  if (new Date(entry.expires_at).getTime() <= time) return 'expired';
+  // Entries written without a fresh period are stale right away
+  if (entry.fresh_until && new Date(entry.fresh_until).getTime() > time) return 'fresh';
+  return 'stale';
+}
+
+/**
+ * Whether results are backed by the mapping table: there are results,
+ * every provider link of a track is mapped to the track's canonical ID, its
+ * title and artist are those of one of the mappings, and its URLs point at
+ * the provider (artwork at any provider)
+ */
+export function verifyCachedSearch(tracks: Track[], mappings: CacheMappingRecord[]): boolean {
+  const byProviderTrack = new Map(mappings.map(m => [`${m.provider}:${m.provider_track_id}`, m]));
+  const anyProvider = Object.values(SEARCH_CACHE_CONFIG.LINK_HOSTS).flat();
+
+  return tracks.length > 0 && tracks.every(track => {
+    const links = track.providerLinks ?? [];
+    if (links.length === 0) return false;
+
+    const rows = links.map(link => byProviderTrack.get(`${link.provider}:${link.provider_track_id}`));
+    if (rows.some(row => row?.canonical_id !== track.id)) return false;
+    if (!rows.some(row => row?.title === track.title && (row.artist ?? undefined) === track.artists?.[0])) return false;
+
+    const linksOk = links.every(link =>
+      [link.url_web, link.url_app, link.url_preview].every(url => !url || isProviderUrl(url, link.provider))
+    );
+    const artworkOk = [track.artwork_url, track.cover_url].every(url => !url || isAllowedUrl(url, anyProvider, []));
+    return linksOk && artworkOk;
+  });
+}
+
+/**
+ * Tracks to cache, rebuilt from their mappings: IDs, title, artist, ISRC,
+ * duration and provider URLs come from the mapping table; only artwork and
+ * URLs an ID can't produce (previews, SoundCloud permalinks) are taken from
+ * the submitted tracks, host-checked. Null unless verifyCachedSearch passes
+ */
+export function buildCachedTracks(tracks: Track[], mappings: CacheMappingRecord[], market: string): Track[] | null {
+  if (!verifyCachedSearch(tracks, mappings)) return null;
+  const byProviderTrack = new Map(mappings.map(m => [`${m.provider}:${m.provider_track_id}`, m]));
+
+  return tracks.map(track => {
+    const links = track.providerLinks!.map(link => ({
+      link,
+      row: byProviderTrack.get(`${link.provider}:${link.provider_track_id}`)!,
+    }));
+    const named = links.find(({ row }) => row.title === track.title && (row.artist ?? undefined) === track.artists?.[0])!.row;
+
+    const providerLinks = links.map(({ link, row }) => {
+      const urls = providerTrackUrls(row.provider, row.provider_track_id, market);
+      return {
+        provider: row.provider,
+        provider_track_id: row.provider_track_id,
+        url_web: urls.url_web ?? link.url_web,
+        url_app: urls.url_app ?? link.url_app,
+        url_preview: link.url_preview,
+      };
+    });
+    const linkOf = (provider: MusicProvider) => providerLinks.find(l => l.provider === provider);
+    const spotify = linkOf('spotify');
+    const youtube = linkOf('youtube');
+    const artwork = track.artwork_url ?? track.cover_url;
+
+    return {
+      id: named.canonical_id,
+      title: named.title,
+      artist: named.artist ?? undefined,
+      artists: named.artist ? [named.artist] : [],
+      isrc: links.find(({ row }) => row.isrc)?.row.isrc ?? undefined,
+      duration_ms: links.find(({ row }) => row.duration_ms)?.row.duration_ms ?? undefined,
+      artwork_url: artwork,
+      cover_url: artwork,
+      provider: providerLinks[0].provider,
+      external_id: providerLinks[0].provider_track_id,
+      providerIds: Object.fromEntries(providerLinks.map(l => [l.provider, l.provider_track_id])),
+      providerLinks,
+      spotify_id: spotify?.provider_track_id,
+      url_spotify_web: spotify?.url_web,
+      url_spotify_app: spotify?.url_app,
+      youtube_id: youtube?.provider_track_id,
+      url_youtube: youtube?.url_web,
+      preview_url: providerLinks.find(l => l.url_preview)?.url_preview,
+    };
+  });
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+// Provider URLs built from the track ID, where the ID is enough
+function providerTrackUrls(
+  provider: MusicProvider,
+  id: string,
+  market: string
+): { url_web?: string; url_app?: string } {
+  const encoded = encodeURIComponent(id);
+  switch (provider) {
+    case 'spotify':
+      return { url_web: `https://open.spotify.com/track/${encoded}`, url_app: `spotify:track:${encoded}` };
+    case 'youtube':
+      return { url_web: `https://www.youtube.com/watch?v=${encoded}` };
+    case 'deezer':
+      return { url_web: `https://www.deezer.com/track/${encoded}`, url_app: `deezer://www.deezer.com/track/${encoded}` };
+    case 'apple_music': {
+      const storefront = market.toLowerCase();
+      return {
+        url_web: `https://music.apple.com/${storefront}/song/${encoded}`,
+        url_app: `music://music.apple.com/${storefront}/song/${encoded}`,
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+function isProviderUrl(url: string, provider: MusicProvider): boolean {
+  return isAllowedUrl(url, SEARCH_CACHE_CONFIG.LINK_HOSTS[provider], SEARCH_CACHE_CONFIG.APP_SCHEMES[provider]);
+}
+
+function isAllowedUrl(url: string, hosts: readonly string[], schemes: readonly string[]): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol !== 'https:') return schemes.includes(parsed.protocol);
+  return hosts.some(host => parsed.hostname === host || parsed.hostname.endsWith(`.${host}`));
+}
@@ -74,3 +74,61 @@ export function clearSearchHistory() {
     console.error('Error clearing search history:', error);
   }
 }
+
+// ============================================================================
+// SAVED SEARCHES
+// ============================================================================
+
+const SAVED_SEARCHES_KEY = 'clade_saved_searches';
+const MAX_SAVED_SEARCHES = 50;
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string; // Advanced query syntax, e.g. key:Am prog:"i-bVII-bVI"
+  created_at: number;
+}
+
+export function getSavedSearches(): SavedSearch[] {
+  try {
+    const stored = localStorage.getItem(SAVED_SEARCHES_KEY);
+    if (!stored) return [];
+
+    const saved: SavedSearch[] = JSON.parse(stored);
+    return saved.sort((a, b) => b.created_at - a.created_at);
+  } catch (error) {
+    console.error('Error loading saved searches:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a query under a name; saving the same query again renames it
+ */
+export function saveSearch(name: string, query: string): SavedSearch | null {
+  try {
+    const saved = getSavedSearches().filter(s => s.query.trim() !== query.trim());
+
+    const item: SavedSearch = {
+      id: `${Date.now()}-${Math.random()}`,
+      name: name.trim() || query.trim(),
+      query: query.trim(),
+      created_at: Date.now(),
+    };
+
+    localStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify([item, ...saved].slice(0, MAX_SAVED_SEARCHES)));
+    return item;
+  } catch (error) {
+    console.error('Error saving search:', error);
+    return null;
+  }
+}
+
+export function removeSavedSearch(id: string) {
+  try {
+    const saved = getSavedSearches().filter(s => s.id !== id);
+    localStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.error('Error removing saved search:', error);
+  }
+}
@@ -0,0 +1,500 @@
+/**
+ * Advanced Search Query Language
+ *
+ * Parses queries like
+ *   key:Am mode:dorian prog:"i-bVII-bVI" bpm:90..110 cadence:plagal year:1970s artist:"Fleetwood Mac"
+ * into typed filters, compiles them to column filters on `tracks` and
+ * `harmonic_fingerprints`, and suggests field names and values for
+ * autocomplete.
+ *
+ * SYNTAX:
+ * - field:value or field:"quoted value"; anything else is free text
+ * - Ranges: bpm:90..110, bpm:>120, year:1970..1985, year:1970s
+ * - Keys: Am, F#m, Bb, "C major" (enharmonic spellings match)
+ * - Progressions: Roman numerals separated by - or spaces; matched as a
+ *   contiguous run of the track's loop, wrapping around. In a minor key or
+ *   mode (key:Am, mode:dorian), or else with a minor tonic (i), flat degrees
+ *   are read in the minor frame: i-bVII-bVI is i-VII-VI
+ */
+
+import type { CadenceType, Mode } from '@/types/harmony';
+import { PITCH_CLASSES, romanDegree, toModeFrame } from './harmonicDsp';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const SEARCH_QUERY_CONFIG = {
+  BPM_TOLERANCE: 2, // bpm:120 matches 118..122
+  MAX_SUGGESTIONS: 8,
+} as const;
+
+const MODES: Mode[] = ['major', 'minor', 'dorian', 'phrygian', 'lydian', 'mixolydian', 'aeolian', 'locrian'];
+const CADENCES: CadenceType[] = ['authentic', 'plagal', 'deceptive', 'half', 'loop', 'modal', 'none'];
+const FLAT_NAMES: Record<string, string> = { 'C#': 'Db', 'D#': 'Eb', 'F#': 'Gb', 'G#': 'Ab', 'A#': 'Bb' };
+const DECADES = ['1950s', '1960s', '1970s', '1980s', '1990s', '2000s', '2010s', '2020s'];
+const COMMON_PROGRESSIONS = ['I-V-vi-IV', 'vi-IV-I-V', 'ii-V-I', 'I-IV-V', 'i-bVII-bVI-V', 'i-bVI-bIII-bVII', 'I-vi-IV-V'];
+
+const NUMERAL_PATTERN = /^[b#♭♯]?(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)(.*)$/;
+const KEY_PATTERN = /^([A-Ga-g])([#b♯♭]?)\s*(m|min|minor|maj|major)?$/;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type QueryField = 'key' | 'mode' | 'prog' | 'bpm' | 'cadence' | 'year' | 'artist' | 'title';
+
+export type QueryFilter =
+  | { field: 'key'; pitch_class: number; mode: 'major' | 'minor' | null }
+  | { field: 'mode'; mode: Mode }
+  | { field: 'prog'; numerals: string[] }
+  | { field: 'bpm'; min: number | null; max: number | null }
+  | { field: 'cadence'; cadence: CadenceType }
+  | { field: 'year'; from: number; to: number }
+  | { field: 'artist' | 'title'; text: string };
+
+export interface QueryToken {
+  field: string | null; // As typed; null for free text
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  text: string; // Free text, joined
+  filters: QueryFilter[];
+  errors: QueryError[];
+  tokens: QueryToken[];
+}
+
+export type ColumnFilter =
+  | { column: string; op: 'eq' | 'gte' | 'lte' | 'ilike'; value: string | number }
+  | { column: string; op: 'in'; value: string[] }
+  | { column: string; op: 'contains'; value: string } // Array containment, as a Postgres array literal
+  | { op: 'or'; value: string }; // PostgREST or() expression
+
+export interface CompiledQuery {
+  text: string | null;
+  tracks: ColumnFilter[];
+  fingerprints: ColumnFilter[];
+  progression: string[] | null; // Refined client-side for order
+}
+
+export interface QuerySuggestion {
+  label: string;
+  insert: string; // Replaces the token under the cursor
+  detail: string;
+  from: number;
+  to: number;
+}
+
+interface FieldDefinition {
+  description: string;
+  example: string;
+  values: () => string[];
+  parse: (value: string) => QueryFilter | string; // string = error message
+}
+
+// ============================================================================
+// FIELDS
+// ============================================================================
+
+const FIELDS: Record<QueryField, FieldDefinition> = {
+  key: {
+    description: 'Key, e.g. Am, F#, "Bb major"',
+    example: 'key:Am',
+    values: () => PITCH_CLASSES.flatMap(name => [name, `${name}m`]),
+    parse: value => {
+      const parsed = parseKey(value);
+      return parsed ? { field: 'key', ...parsed } : `Unknown key "${value}"`;
+    },
+  },
+  mode: {
+    description: 'Mode or modal color',
+    example: 'mode:dorian',
+    values: () => MODES,
+    parse: value => {
+      const mode = value.toLowerCase() as Mode;
+      return MODES.includes(mode) ? { field: 'mode', mode } : `Unknown mode "${value}"`;
+    },
+  },
+  prog: {
+    description: 'Roman numeral progression',
+    example: 'prog:"i-bVII-bVI"',
+    values: () => COMMON_PROGRESSIONS,
+    parse: value => {
+      const numerals = value.split(/[-–—,\s]+/).filter(Boolean).map(n => n.replace('♭', 'b').replace('♯', '#'));
+      const invalid = numerals.find(n => !NUMERAL_PATTERN.test(n));
+      if (numerals.length === 0) return 'Empty progression';
+      if (invalid) return `"${invalid}" is not a Roman numeral`;
+      // Put in the frame fingerprints use once the whole query is parsed
+      return { field: 'prog', numerals };
+    },
+  },
+  bpm: {
+    description: 'Tempo: 120, 90..110, >120 or <100',
+    example: 'bpm:90..110',
+    values: () => ['60..80', '80..100', '100..120', '120..140', '>140'],
+    parse: value => {
+      const range = parseRange(value, SEARCH_QUERY_CONFIG.BPM_TOLERANCE);
+      return range ? { field: 'bpm', ...range } : `Invalid tempo "${value}"`;
+    },
+  },
+  cadence: {
+    description: 'How the progression resolves',
+    example: 'cadence:plagal',
+    values: () => CADENCES,
+    parse: value => {
+      const cadence = value.toLowerCase() as CadenceType;
+      return CADENCES.includes(cadence) ? { field: 'cadence', cadence } : `Unknown cadence "${value}"`;
+    },
+  },
+  year: {
+    description: 'Release year: 1975, 1970s or 1970..1985',
+    example: 'year:1970s',
+    values: () => DECADES,
+    parse: value => {
+      const decade = value.match(/^(\d{3})0s$/);
+      if (decade) return { field: 'year', from: Number(decade[1]) * 10, to: Number(decade[1]) * 10 + 9 };
+
+      const range = parseRange(value, 0);
+      if (!range || range.min === null || range.max === null) return `Invalid year "${value}"`;
+      return { field: 'year', from: range.min, to: range.max };
+    },
+  },
+  artist: {
+    description: 'Artist name contains',
+    example: 'artist:"Fleetwood Mac"',
+    values: () => [],
+    parse: value => ({ field: 'artist', text: value }),
+  },
+  title: {
+    description: 'Title contains',
+    example: 'title:dreams',
+    values: () => [],
+    parse: value => ({ field: 'title', text: value }),
+  },
+};
+
+const ALIASES: Record<string, QueryField> = {
+  progression: 'prog',
+  tempo: 'bpm',
+  decade: 'year',
+};
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Split a query into field and free-text tokens, with positions
+ */
+export function tokenizeQuery(input: string): { tokens: QueryToken[]; errors: QueryError[] } {
+  const tokens: QueryToken[] = [];
+  const errors: QueryError[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const field = input.slice(i).match(/^([a-z_]+):/i);
+    let name: string | null = null;
+    if (field) {
+      name = field[1].toLowerCase();
+      i += field[0].length;
+    }
+
+    let value: string;
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push({ message: 'Unterminated quote', start, end: input.length });
+        value = input.slice(i + 1);
+        i = input.length;
+      } else {
+        value = input.slice(i + 1, close);
+        i = close + 1;
+      }
+    } else {
+      const next = input.slice(i).search(/\s/);
+      const end = next === -1 ? input.length : i + next;
+      value = input.slice(i, end);
+      i = end;
+    }
+
+    tokens.push({ field: name, value, start, end: i });
+  }
+
+  return { tokens, errors };
+}
+
+export function parseSearchQuery(input: string): ParsedQuery {
+  const { tokens, errors } = tokenizeQuery(input);
+  const filters: QueryFilter[] = [];
+  const text: string[] = [];
+
+  for (const token of tokens) {
+    if (token.field === null) {
+      if (token.value) text.push(token.value);
+      continue;
+    }
+
+    const field = resolveField(token.field);
+    if (!field) {
+      errors.push({ message: `Unknown field "${token.field}"`, start: token.start, end: token.end });
+      continue;
+    }
+    if (!token.value.trim()) {
+      errors.push({ message: `${field}: needs a value`, start: token.start, end: token.end });
+      continue;
+    }
+
+    const result = FIELDS[field].parse(token.value.trim());
+    if (typeof result === 'string') {
+      errors.push({ message: result, start: token.start, end: token.end });
+    } else {
+      filters.push(result);
+    }
+  }
+
+  return { text: text.join(' '), filters: framedProgressions(filters), errors, tokens };
+}
+
+/**
+ * Compile parsed filters to column filters
+ * Harmony lives on harmonic_fingerprints; title, artist and year on tracks.
+ */
+export function compileQuery(parsed: Pick<ParsedQuery, 'text' | 'filters'>): CompiledQuery {
+  const tracks: ColumnFilter[] = [];
+  const fingerprints: ColumnFilter[] = [];
+  let progression: string[] | null = null;
+  const explicitMode = parsed.filters.some(f => f.field === 'mode');
+
+  for (const filter of parsed.filters) {
+    switch (filter.field) {
+      case 'key': {
+        const sharp = PITCH_CLASSES[filter.pitch_class];
+        const spellings = FLAT_NAMES[sharp] ? [sharp, FLAT_NAMES[sharp]] : [sharp];
+        fingerprints.push({ column: 'detected_key', op: 'in', value: spellings });
+        // An explicit mode: wins over the key's major/minor
+        if (filter.mode && !explicitMode) {
+          fingerprints.push({ column: 'detected_mode', op: 'eq', value: filter.mode });
+        }
+        break;
+      }
+      case 'mode':
+        fingerprints.push(
+          filter.mode === 'major' || filter.mode === 'minor'
+            ? { column: 'detected_mode', op: 'eq', value: filter.mode }
+            : { op: 'or', value: `detected_mode.eq.${filter.mode},modal_color.eq.${filter.mode}` }
+        );
+        break;
+      case 'prog':
+        // Index-backed prefilter on the bare degrees ("V" for V7); order and
+        // extensions are checked afterwards
+        fingerprints.push({
+          column: 'roman_degrees',
+          op: 'contains',
+          value: `{${[...new Set(filter.numerals.map(romanDegree))].map(degree => `"${degree}"`).join(',')}}`,
+        });
+        progression = filter.numerals;
+        break;
+      case 'bpm':
+        if (filter.min !== null) fingerprints.push({ column: 'tempo_bpm', op: 'gte', value: filter.min });
+        if (filter.max !== null) fingerprints.push({ column: 'tempo_bpm', op: 'lte', value: filter.max });
+        break;
+      case 'cadence':
+        fingerprints.push({ column: 'cadence_type', op: 'eq', value: filter.cadence });
+        break;
+      case 'year':
+        tracks.push({ column: 'release_date', op: 'gte', value: `${filter.from}-01-01` });
+        tracks.push({ column: 'release_date', op: 'lte', value: `${filter.to}-12-31` });
+        break;
+      case 'artist':
+      case 'title':
+        tracks.push({ column: filter.field, op: 'ilike', value: `%${escapeLike(filter.text)}%` });
+        break;
+    }
+  }
+
+  return { text: parsed.text.trim() || null, tracks, fingerprints, progression };
+}
+
+/**
+ * Whether a progression occurs as a contiguous run of a loop, wrapping
+ * around; numerals match with or without extensions ("V" matches "V7")
+ */
+export function matchesProgression(loop: string[], query: string[]): boolean {
+  if (query.length === 0) return true;
+  if (loop.length === 0) return false;
+
+  // Wrapping: allow runs that start near the end of the loop
+  const cyclic = [...loop, ...loop.slice(0, query.length - 1)];
+  for (let start = 0; start + query.length <= cyclic.length && start < loop.length; start++) {
+    if (query.every((numeral, offset) => numeralMatches(numeral, cyclic[start + offset]))) return true;
+  }
+  return false;
+}
+
+/**
+ * Completions for the token under the cursor: field names, then values
+ */
+export function suggestCompletions(input: string, cursor: number = input.length): QuerySuggestion[] {
+  const { tokens } = tokenizeQuery(input);
+  const token = tokens.find(t => cursor >= t.start && cursor <= t.end);
+  const from = token?.start ?? cursor;
+  const to = token?.end ?? cursor;
+
+  // Field name; on blank input only once the query already uses fields
+  if (!token || token.field === null) {
+    if (!token && !tokens.some(t => t.field !== null)) return [];
+    const prefix = (token?.value ?? '').toLowerCase();
+    return (Object.keys(FIELDS) as QueryField[])
+      .filter(field => field.startsWith(prefix))
+      .slice(0, SEARCH_QUERY_CONFIG.MAX_SUGGESTIONS)
+      .map(field => ({
+        label: `${field}:`,
+        insert: `${field}:`,
+        detail: `${FIELDS[field].description} (${FIELDS[field].example})`,
+        from,
+        to,
+      }));
+  }
+
+  // Field value
+  const field = resolveField(token.field);
+  if (!field) return [];
+
+  const prefix = token.value.toLowerCase();
+  return FIELDS[field].values()
+    .filter(value => value.toLowerCase().startsWith(prefix) && value.toLowerCase() !== prefix)
+    .slice(0, SEARCH_QUERY_CONFIG.MAX_SUGGESTIONS)
+    .map(value => ({
+      label: value,
+      insert: `${token.field}:${/[\s-]/.test(value) ? `"${value}"` : value}`,
+      detail: FIELDS[field].description,
+      from,
+      to,
+    }));
+}
+
+/**
+ * Replace the suggested token and return the new input and cursor
+ */
+export function applySuggestion(input: string, suggestion: QuerySuggestion): { input: string; cursor: number } {
+  const isField = suggestion.insert.endsWith(':');
+  const before = input.slice(0, suggestion.from);
+  const after = input.slice(suggestion.to);
+  const separator = isField || after.startsWith(' ') ? '' : ' ';
+  const next = `${before}${suggestion.insert}${separator}${after}`;
+
+  return { input: next, cursor: before.length + suggestion.insert.length + separator.length };
+}
+
+/**
+ * Short label for a filter chip
+ */
+export function describeFilter(filter: QueryFilter): string {
+  switch (filter.field) {
+    case 'key':
+      return `Key ${PITCH_CLASSES[filter.pitch_class]}${filter.mode === 'minor' ? 'm' : filter.mode === 'major' ? ' major' : ''}`;
+    case 'mode':
+      return `Mode ${filter.mode}`;
+    case 'prog':
+      return filter.numerals.join('–');
+    case 'bpm':
+      if (filter.min !== null && filter.max !== null) return `${filter.min}–${filter.max} BPM`;
+      return filter.min !== null ? `≥ ${filter.min} BPM` : `≤ ${filter.max} BPM`;
+    case 'cadence':
+      return `${filter.cadence} cadence`;
+    case 'year':
+      return filter.from === filter.to ? `${filter.from}` : `${filter.from}–${filter.to}`;
+    case 'artist':
+      return `Artist "${filter.text}"`;
+    case 'title':
+      return `Title "${filter.text}"`;
+  }
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+function resolveField(name: string): QueryField | null {
+  if (name in FIELDS) return name as QueryField;
+  return ALIASES[name] ?? null;
+}
+
+// Progressions in the frame fingerprints use: the mode searched for (an
+// explicit mode: wins over the key's), else the progression's own tonic
+function framedProgressions(filters: QueryFilter[]): QueryFilter[] {
+  let mode: Mode | null = null;
+  for (const filter of filters) {
+    if (filter.field === 'mode') mode = filter.mode;
+    else if (filter.field === 'key' && filter.mode && !mode) mode = filter.mode;
+  }
+
+  return filters.map(filter => {
+    if (filter.field !== 'prog') return filter;
+    const frame = mode ?? (filter.numerals.some(n => /^i(?![iv])/.test(n)) ? 'minor' : 'major');
+    return { ...filter, numerals: filter.numerals.map(n => toModeFrame(n, frame)) };
+  });
+}
+
+function parseKey(value: string): { pitch_class: number; mode: 'major' | 'minor' | null } | null {
+  const match = value.trim().match(KEY_PATTERN);
+  if (!match) return null;
+
+  const [, letter, accidental, quality] = match;
+  const natural = PITCH_CLASSES.indexOf(letter.toUpperCase());
+  const shift = accidental === '#' || accidental === '♯' ? 1 : accidental === 'b' || accidental === '♭' ? -1 : 0;
+  const mode = !quality ? null : quality.startsWith('maj') ? 'major' : 'minor';
+
+  return { pitch_class: (natural + shift + 12) % 12, mode };
+}
+
+/**
+ * "90..110", "90-110", ">120", "<100" or a single value (± tolerance)
+ */
+function parseRange(value: string, tolerance: number): { min: number | null; max: number | null } | null {
+  const bound = value.match(/^([<>])=?(\d+(?:\.\d+)?)$/);
+  if (bound) {
+    const n = Number(bound[2]);
+    return bound[1] === '>' ? { min: n, max: null } : { min: null, max: n };
+  }
+
+  const range = value.match(/^(\d+(?:\.\d+)?)\s*(?:\.\.|-|–)\s*(\d+(?:\.\d+)?)$/);
+  if (range) {
+    const [a, b] = [Number(range[1]), Number(range[2])];
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  }
+
+  const single = value.match(/^\d+(?:\.\d+)?$/);
+  if (single) {
+    const n = Number(value);
+    return { min: n - tolerance, max: n + tolerance };
+  }
+
+  return null;
+}
+
+function numeralMatches(query: string, numeral: string): boolean {
+  if (numeral === query) return true;
+  // Extensions only: "V" matches "V7" but not "VI"
+  return numeral.startsWith(query) && !/^[IViv]/.test(numeral.slice(query.length));
+}
+
+// PostgREST ilike wildcards and or() separators
+function escapeLike(text: string): string {
+  return text.replace(/[%_,().*\\]/g, '');
+}
@@ -0,0 +1,153 @@
+/**
+ * Section Similarity
+ *
+ * Matches one section of a track ("this chorus") against the same section of
+ * other tracks. Section progressions come from two places:
+ *
+ * - HarmonicFingerprint.section_progressions (from analysis)
+ * - track_sections.chords (curated sections, with timestamps)
+ *
+ * collectSections() merges both into SectionSpans — the nth chorus of the
+ * fingerprint is paired with the nth chorus row so analysed progressions pick
+ * up curated timestamps. bestSectionMatch() aligns a reference span against a
+ * track's spans with the usual rotation/loop-tolerant alignment.
+ *
+ * NOTE: Relative imports carry the .ts extension so edge functions can load
+ * this module under Deno.
+ */
+
+import type { SongSectionType, TrackSection } from '@/types';
+import type {
+  ChordQuality,
+  HarmonicFingerprint,
+  Mode,
+  ProgressionAlignment,
+  RomanChord,
+  SectionSpan,
+} from '@/types/harmony';
+import { alignProgressions } from './progressionAlignment.ts';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const SECTION_SIMILARITY_CONFIG = {
+  // Minimum alignment score for a section to count as sharing the progression
+  MIN_SCORE: 0.6,
+} as const;
+
+const SECTION_LABELS: SongSectionType[] = [
+  'intro', 'verse', 'pre-chorus', 'chorus', 'bridge', 'outro', 'breakdown', 'drop',
+];
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Canonical section label from free-form text ("Chorus 2", "Pre Chorus")
+ */
+export function normalizeSectionLabel(label: string): SongSectionType | null {
+  const normalized = label
+    .toLowerCase()
+    .replace(/[0-9]+/g, '')
+    .trim()
+    .replace(/[\s_]+/g, '-');
+
+  if (normalized === 'prechorus') return 'pre-chorus';
+  if (normalized === 'hook' || normalized === 'refrain') return 'chorus';
+  return SECTION_LABELS.find(known => known === normalized) ?? null;
+}
+
+/**
+ * Every section occurrence of a track with a known progression
+ */
+export function collectSections(
+  fingerprint: Pick<HarmonicFingerprint, 'section_progressions'> | null,
+  trackSections: TrackSection[] = []
+): SectionSpan[] {
+  const spans: SectionSpan[] = [];
+
+  for (const label of SECTION_LABELS) {
+    const analysed = (fingerprint?.section_progressions ?? [])
+      .filter(section => normalizeSectionLabel(section.section_label) === label);
+    const curated = trackSections
+      .filter(section => section.label === label)
+      .sort((a, b) => a.start_ms - b.start_ms);
+
+    for (let i = 0; i < Math.max(analysed.length, curated.length); i++) {
+      const progression = analysed[i]?.progression?.length
+        ? analysed[i].progression
+        : numeralsToProgression(curated[i]?.chords ?? []);
+      if (progression.length === 0) continue;
+
+      spans.push({
+        label,
+        progression,
+        section_id: curated[i]?.id,
+        start_ms: analysed[i]?.start_ms ?? curated[i]?.start_ms,
+        end_ms: analysed[i]?.end_ms ?? curated[i]?.end_ms,
+      });
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Best-aligning span of the reference's label among a track's sections
+ */
+export function bestSectionMatch(
+  reference: SectionSpan,
+  candidates: SectionSpan[],
+  modes: { reference?: Mode; candidate?: Mode } = {}
+): { section: SectionSpan; alignment: ProgressionAlignment } | null {
+  let best: { section: SectionSpan; alignment: ProgressionAlignment } | null = null;
+
+  for (const section of candidates) {
+    if (section.label !== reference.label) continue;
+
+    const alignment = alignProgressions(reference.progression, section.progression, {
+      modes: { a: modes.reference, b: modes.candidate },
+    });
+    if (alignment.score >= SECTION_SIMILARITY_CONFIG.MIN_SCORE
+      && (!best || alignment.score > best.alignment.score)) {
+      best = { section, alignment };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Roman numerals as stored on track_sections.chords ("vi", "V7", "vii°")
+ * with their quality read from case and suffix
+ */
+export function numeralsToProgression(numerals: string[]): RomanChord[] {
+  return numerals
+    .map(numeral => numeral.trim())
+    .filter(numeral => numeral.length > 0)
+    .map(numeral => ({ numeral, quality: qualityOf(numeral) }));
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+function qualityOf(numeral: string): ChordQuality {
+  const match = /^[b#♭♯]*([IViv]+)(.*)$/.exec(numeral.split('/')[0]);
+  if (!match) return 'major';
+
+  const [, degree, suffix] = match;
+  const upper = degree === degree.toUpperCase();
+
+  if (suffix.includes('ø')) return 'half-diminished7';
+  if (suffix.includes('°') || suffix.includes('dim')) return /7/.test(suffix) ? 'diminished7' : 'diminished';
+  if (suffix.includes('+') || suffix.includes('aug')) return 'augmented';
+  if (suffix.includes('sus2')) return 'sus2';
+  if (suffix.includes('sus')) return 'sus4';
+  if (/maj7|M7|Δ/.test(suffix)) return 'major7';
+  if (suffix.includes('add9')) return 'add9';
+  if (/7/.test(suffix)) return upper ? 'dominant7' : 'minor7';
+  return upper ? 'major' : 'minor';
+}
@@ -4,22 +4,34 @@
  */
 
 import { Track, MusicProvider, SearchResult, SearchParams, ProviderLink } from '@/types';
-import { ProviderConnector, NormalizedTrack, tracksAreSimilar } from './connectors/base';
+import { ProviderConnector, NormalizedTrack, SearchOptions } from './connectors/base';
+import { CircuitBreaker, CircuitSnapshot } from './connectors/circuitBreaker';
 import { SpotifyConnector } from './connectors/spotify';
 import { YouTubeConnector } from './connectors/youtube';
-import {
-  AppleMusicConnector,
-  DeezerConnector,
-  SoundCloudConnector,
-  AmazonMusicConnector,
-} from './connectors/stubs';
+import { DeezerConnector } from './connectors/deezer';
+import { AppleMusicConnector } from './connectors/appleMusic';
+import { SoundCloudConnector } from './connectors/soundcloud';
+import { AmazonMusicConnector } from './connectors/stubs';
+import { CanonicalGroup, mappingKey, resolveCanonicalTracks } from './canonicalTracks';
+import { searchCacheKey } from './searchCache';
 import { supabase } from '@/integrations/supabase/client';
+import { readSearchCache, writeSearchCache } from '@/api/searchCache';
+
+export interface ProviderHealth extends CircuitSnapshot {
+  provider: MusicProvider;
+  enabled: boolean;
+  last_health_check: { healthy: boolean; checked_at: string } | null;
+}
 
 /**
  * Manager for all provider connectors
+ * Each connector sits behind a circuit breaker, so a provider that keeps
+ * failing (or is out of quota) is skipped instead of holding up every search
  */
 class ConnectorRegistry {
   private connectors: Map<MusicProvider, ProviderConnector> = new Map();
+  private breakers: Map<MusicProvider, CircuitBreaker> = new Map();
+  private healthChecks: Map<MusicProvider, ProviderHealth['last_health_check']> = new Map();
 
   constructor() {
     // Initialize all connectors
@@ -34,14 +46,20 @@ class ConnectorRegistry {
       import.meta.env.VITE_YOUTUBE_API_KEY
     ));
     
-    this.register(new AppleMusicConnector());
+    // Developer tokens are signed by the apple-music-token Edge Function
+    this.register(new AppleMusicConnector(
+      import.meta.env.VITE_APPLE_MUSIC_ENABLED === 'true'
+    ));
     this.register(new DeezerConnector());
-    this.register(new SoundCloudConnector());
+    this.register(new SoundCloudConnector(
+      import.meta.env.VITE_SOUNDCLOUD_CLIENT_ID
+    ));
     this.register(new AmazonMusicConnector());
   }
 
   private register(connector: ProviderConnector) {
     this.connectors.set(connector.name, connector);
+    this.breakers.set(connector.name, new CircuitBreaker());
   }
 
   getAll(): ProviderConnector[] {
@@ -55,59 +73,92 @@ class ConnectorRegistry {
   get(provider: MusicProvider): ProviderConnector | undefined {
     return this.connectors.get(provider);
   }
-}
 
-// Singleton registry
-const connectorRegistry = new ConnectorRegistry();
+  /**
+   * Search one provider through its circuit breaker
+   * Throws immediately while the circuit is open
+   */
+  async search(connector: ProviderConnector, options: SearchOptions): Promise<NormalizedTrack[]> {
+    const breaker = this.breakers.get(connector.name)!;
 
-/**
- * Deduplicate tracks by ISRC or by similarity matching
- */
-function deduplicateTracks(tracks: NormalizedTrack[]): Map<string, NormalizedTrack[]> {
-  const grouped = new Map<string, NormalizedTrack[]>();
-
-  for (const track of tracks) {
-    let foundGroup = false;
-
-    // First try ISRC matching (most reliable)
-    if (track.isrc) {
-      for (const [key, group] of grouped.entries()) {
-        if (group[0].isrc === track.isrc) {
-          group.push(track);
-          foundGroup = true;
-          break;
-        }
-      }
+    if (!breaker.tryAcquire()) {
+      const { retry_at } = breaker.snapshot();
+      throw new Error(`${connector.name} circuit open until ${retry_at}`);
     }
 
-    // If no ISRC match, try similarity matching
-    if (!foundGroup) {
-      for (const [key, group] of grouped.entries()) {
-        if (tracksAreSimilar(group[0], track)) {
-          group.push(track);
-          foundGroup = true;
-          break;
-        }
+    const startedAt = performance.now();
+    try {
+      const tracks = await connector.searchTracks(options);
+      breaker.recordSuccess(performance.now() - startedAt);
+      return tracks;
+    } catch (error) {
+      // Cancelled by the caller, not the provider's fault
+      if (options.signal?.aborted) {
+        breaker.release();
+      } else {
+        breaker.recordFailure(error, performance.now() - startedAt);
       }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a provider's health check and feed the result into its breaker,
+   * so a healthy check closes an open circuit early
+   */
+  async checkHealth(provider: MusicProvider): Promise<ProviderHealth | undefined> {
+    const connector = this.connectors.get(provider);
+    const breaker = this.breakers.get(provider);
+    if (!connector || !breaker) return undefined;
+
+    const startedAt = performance.now();
+    let healthy = false;
+    try {
+      healthy = await connector.checkHealth();
+    } catch (error) {
+      console.error(`${provider} health check failed:`, error);
     }
 
-    // Create new group if no match found
-    if (!foundGroup) {
-      const groupKey = track.isrc || `${track.title}-${track.artists[0]}-${track.provider}`;
-      grouped.set(groupKey, [track]);
+    if (healthy) {
+      breaker.recordSuccess(performance.now() - startedAt);
+    } else if (connector.enabled) {
+      breaker.recordFailure(new Error(`${provider} health check failed`));
     }
+
+    this.healthChecks.set(provider, { healthy, checked_at: new Date().toISOString() });
+    return this.getHealth().find(h => h.provider === provider);
+  }
+
+  async checkAll(): Promise<ProviderHealth[]> {
+    await Promise.all(this.getAll().map(c => this.checkHealth(c.name)));
+    return this.getHealth();
   }
 
-  return grouped;
+  /**
+   * Circuit state, counters and latency for every provider
+   */
+  getHealth(): ProviderHealth[] {
+    return this.getAll().map(connector => ({
+      provider: connector.name,
+      enabled: connector.enabled,
+      last_health_check: this.healthChecks.get(connector.name) ?? null,
+      ...this.breakers.get(connector.name)!.snapshot(),
+    }));
+  }
 }
 
+// Singleton registry
+const connectorRegistry = new ConnectorRegistry();
+
 /**
  * Merge normalized tracks into canonical Track objects
  */
-function mergeToCanonicalTracks(groupedTracks: Map<string, NormalizedTrack[]>): Track[] {
+function mergeToCanonicalTracks(groups: CanonicalGroup[]): Track[] {
   const canonical: Track[] = [];
 
-  for (const [_, tracks] of groupedTracks) {
+  for (const group of groups) {
+    const tracks = group.members.map(member => member.track);
+
     // Use the track with most complete data as the base
     const base = tracks.reduce((best, current) => {
       const bestScore = (best.artwork_url ? 1 : 0) + (best.isrc ? 1 : 0) + (best.album ? 1 : 0);
@@ -127,12 +178,16 @@ function mergeToCanonicalTracks(groupedTracks: Map<string, NormalizedTrack[]>):
         url_web: track.url_web,
         url_app: track.url_app,
         url_preview: track.url_preview,
+        available_markets: track.available_markets,
       });
     }
 
+    const parsed = group.members[tracks.indexOf(base)].parsed;
+
     canonical.push({
-      id: base.isrc || `${base.provider}-${base.provider_track_id}`,
-      title: base.title,
+      id: group.canonical_id,
+      title: parsed.base,
+      version: parsed.version,
       artists: base.artists,
       album: base.album,
       duration_ms: base.duration_ms,
@@ -159,33 +214,67 @@ function mergeToCanonicalTracks(groupedTracks: Map<string, NormalizedTrack[]>):
 
 /**
  * Main unified search function
- * Searches all enabled providers in parallel and deduplicates results
+ * Serves cached results when available (stale ones are refreshed in the
+ * background), otherwise searches all enabled providers in parallel
  */
-export async function unifiedSearch(params: SearchParams): Promise<SearchResult> {
+export async function unifiedSearch(params: SearchParams, signal?: AbortSignal): Promise<SearchResult> {
   const { query, market = 'US', limit = 20 } = params;
+  const connectors = connectorRegistry.getEnabled();
+  const cacheKey = searchCacheKey({ query, market, limit, providers: connectors.map(c => c.name) });
 
-  // Check cache first
-  const cached = await checkSearchCache(query, market);
+  const cached = await readSearchCache(cacheKey);
   if (cached) {
+    if (cached.state === 'stale') revalidate(cacheKey, params, connectors);
+
     return {
-      tracks: cached,
-      total: cached.length,
+      tracks: cached.tracks,
+      total: cached.tracks.length,
       cached: true,
+      stale: cached.state === 'stale',
+      partial_results: cached.partial_results,
     };
   }
 
-  const connectors = connectorRegistry.getEnabled();
+  return searchProviders(params, connectors, signal);
+}
+
+// Background refreshes in flight, by cache key
+const revalidations = new Map<string, Promise<unknown>>();
+
+/**
+ * Refresh a stale entry once, however many searches hit it meanwhile
+ * Not tied to the caller's signal: the refresh outlives the request
+ */
+function revalidate(cacheKey: string, params: SearchParams, connectors: ProviderConnector[]): void {
+  if (revalidations.has(cacheKey)) return;
+
+  const refresh = searchProviders(params, connectors)
+    .catch(error => console.error('Search revalidation failed:', error))
+    .finally(() => revalidations.delete(cacheKey));
+  revalidations.set(cacheKey, refresh);
+}
+
+/**
+ * Search providers, resolve canonical tracks and cache the result
+ */
+async function searchProviders(
+  params: SearchParams,
+  connectors: ProviderConnector[],
+  signal?: AbortSignal
+): Promise<SearchResult> {
+  const { query, market = 'US', limit = 20 } = params;
   const warnings: string[] = [];
   const partialResults: string[] = [];
 
   // Execute searches in parallel with error handling
   const searchPromises = connectors.map(async (connector) => {
     try {
-      return await connector.searchTracks({
+      return await connectorRegistry.search(connector, {
         query,
         market,
         limit: Math.ceil(limit / connectors.length) + 5, // Request more to account for deduping
         timeout: 5000,
+        signal,
       });
     } catch (error) {
       console.error(`${connector.name} search failed:`, error);
@@ -195,6 +284,7 @@ export async function unifiedSearch(params: SearchParams): Promise<SearchResult>
   });
 
   const results = await Promise.allSettled(searchPromises);
+  if (signal?.aborted) throw signal.reason;
   
   // Collect all successful results
   const allTracks: NormalizedTrack[] = [];
@@ -204,9 +294,10 @@ export async function unifiedSearch(params: SearchParams): Promise<SearchResult>
     }
   }
 
-  // Deduplicate and merge
-  const grouped = deduplicateTracks(allTracks);
-  const canonicalTracks = mergeToCanonicalTracks(grouped);
+  // Resolve to canonical recordings, known mappings first
+  const mappings = await loadTrackMappings(allTracks);
+  const groups = resolveCanonicalTracks(allTracks, mappings);
+  const canonicalTracks = mergeToCanonicalTracks(groups);
 
   // Sort by number of providers (tracks available on more platforms come first)
   canonicalTracks.sort((a, b) => b.providerLinks.length - a.providerLinks.length);
@@ -214,8 +305,16 @@ export async function unifiedSearch(params: SearchParams): Promise<SearchResult>
   // Limit results
   const limitedTracks = canonicalTracks.slice(0, limit);
 
-  // Cache results
-  await cacheSearchResults(query, market, limitedTracks);
+  // Persist mappings, then cache results (new mappings drop cache entries
+  // holding their tracks), off the critical path. Nothing useful to cache
+  // when every provider failed
+  void saveTrackMappings(groups).then(() => {
+    if (partialResults.length === connectors.length) return;
+    return writeSearchCache(
+      { query, market, limit, providers: connectors.map(c => c.name) },
+      { tracks: limitedTracks, partial_results: partialResults.length > 0 ? partialResults : undefined }
+    );
+  });
 
   if (partialResults.length > 0) {
     warnings.push(`Some providers unavailable: ${partialResults.join(', ')}`);
@@ -231,51 +330,64 @@ export async function unifiedSearch(params: SearchParams): Promise<SearchResult>
 }
 
 /**
- * Check search cache in database
+ * Canonical IDs already assigned to these provider tracks
  */
-async function checkSearchCache(query: string, market: string): Promise<Track[] | null> {
+async function loadTrackMappings(tracks: NormalizedTrack[]): Promise<Map<string, string>> {
+  const mappings = new Map<string, string>();
+  if (tracks.length === 0) return mappings;
+
   try {
     const { data, error } = await supabase
-      .from('search_cache')
-      .select('results')
-      .eq('query', query)
-      .eq('market', market)
-      .gt('expires_at', new Date().toISOString())
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single();
-
-    if (error || !data) return null;
-    
-    // Results is stored as JSON, need to parse it properly
-    const results = data.results;
-    if (Array.isArray(results)) {
-      return results as unknown as Track[];
+      .from('track_id_mappings')
+      .select('canonical_id, provider, provider_track_id')
+      .in('provider_track_id', [...new Set(tracks.map(t => t.provider_track_id))]);
+
+    if (error) throw error;
+
+    for (const row of data ?? []) {
+      mappings.set(mappingKey(row.provider as MusicProvider, row.provider_track_id), row.canonical_id);
     }
-    return null;
   } catch (error) {
-    console.error('Cache check failed:', error);
-    return null;
+    console.error('Mapping lookup failed:', error);
   }
+
+  return mappings;
 }
 
 /**
- * Cache search results in database
+ * Persist newly resolved provider tracks so future searches hit the mapping
+ * table first. The record-track-mappings Edge Function checks and writes them; it only
+ * takes signed-in callers, so anonymous searches skip this
  */
-async function cacheSearchResults(query: string, market: string, tracks: Track[]): Promise<void> {
+async function saveTrackMappings(groups: CanonicalGroup[]): Promise<void> {
+  const rows = groups.flatMap(group =>
+    group.members
+      .filter(member => member.method !== 'mapping')
+      .map(member => ({
+        canonical_id: group.canonical_id,
+        provider: member.track.provider,
+        provider_track_id: member.track.provider_track_id,
+        isrc: member.track.isrc ?? null,
+        title: member.parsed.base,
+        artist: member.track.artists[0] ?? null,
+        version: member.parsed.version?.kind ?? null,
+        duration_ms: member.track.duration_ms ?? null,
+        match_method: member.method,
+        confidence: member.confidence,
+      }))
+  );
+  if (rows.length === 0) return;
+
   try {
-    const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
 
-    await supabase
-      .from('search_cache')
-      .insert({
-        query,
-        market,
-        results: tracks as any,
-        expires_at: expiresAt.toISOString(),
-      });
+    const { error } = await supabase.functions.invoke('record-track-mappings', {
+      body: { mappings: rows },
+    });
+    if (error) throw error;
   } catch (error) {
-    console.error('Cache write failed:', error);
+    console.error('Mapping write failed:', error);
   }
 }
 
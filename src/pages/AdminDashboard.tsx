@@ -4,12 +4,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAdminStats, useFlaggedContent, useAdminUsers } from '@/hooks/api/useAdmin';
 import { useLatestTestRuns, useTestRunHistory } from '@/hooks/api/useTestRuns';
+import { usePendingChordSubmissions, useModerateSubmission } from '@/hooks/api/useChordSubmissions';
 import { Users, Music, PlayCircle, Heart, AlertTriangle, Search, Inbox } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { ProviderHealthPanel } from '@/components/ProviderHealthPanel';
 
 export default function AdminDashboard() {
   const [activeTab, setActiveTab] = useState('overview');
@@ -21,6 +23,8 @@ export default function AdminDashboard() {
   const { data: usersData, isLoading: usersLoading, isError: usersError, refetch: refetchUsers } = useAdminUsers(userSearch, userLimit, userOffset);
   const { data: latestRuns = [] } = useLatestTestRuns();
   const { data: history = [] } = useTestRunHistory(50);
+  const { data: pendingChords = [], isLoading: chordsLoading, isError: chordsError } = usePendingChordSubmissions();
+  const moderateSubmission = useModerateSubmission();
 
   const totalUsers = usersData?.total ?? 0;
   const totalUserPages = useMemo(
@@ -76,12 +80,13 @@ export default function AdminDashboard() {
         )}
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="users">Users</TabsTrigger>
             <TabsTrigger value="moderation">Moderation</TabsTrigger>
             <TabsTrigger value="settings">Settings</TabsTrigger>
             <TabsTrigger value="testruns">Test Runs</TabsTrigger>
+            <TabsTrigger value="providers">Providers</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -286,6 +291,83 @@ export default function AdminDashboard() {
                 )}
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Chord Corrections</CardTitle>
+                <CardDescription>
+                  Approving a correction promotes it into the track's harmonic data
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {chordsError && (
+                  <Alert variant="destructive" className="mb-4">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>Failed to load chord corrections.</AlertDescription>
+                  </Alert>
+                )}
+
+                {chordsLoading ? (
+                  <div className="space-y-2">
+                    {Array.from({ length: 3 }).map((_, i) => (
+                      <Skeleton key={i} className="h-16 w-full" />
+                    ))}
+                  </div>
+                ) : pendingChords.length > 0 ? (
+                  <div className="space-y-3">
+                    {pendingChords.map((submission) => (
+                      <div key={submission.id} className="p-4 border rounded-lg bg-muted/40">
+                        <div className="flex items-center justify-between gap-3">
+                          <div>
+                            <p className="font-medium">{submission.track?.title || 'Unknown track'}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {submission.track?.artist || 'Unknown artist'}
+                            </p>
+                            <p className="text-sm mt-2 font-mono">
+                              {submission.progression_roman?.join(' – ') || '—'}
+                              {submission.detected_key && ` · ${submission.detected_key} ${submission.detected_mode ?? ''}`}
+                            </p>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Submitted {new Date(submission.created_at).toLocaleString()}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Button
+                              size="sm"
+                              disabled={moderateSubmission.isPending}
+                              onClick={() => moderateSubmission.mutate({
+                                trackId: submission.track_id,
+                                submissionId: submission.id,
+                                decision: 'approved',
+                              })}
+                            >
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={moderateSubmission.isPending}
+                              onClick={() => moderateSubmission.mutate({
+                                trackId: submission.track_id,
+                                submissionId: submission.id,
+                                decision: 'rejected',
+                              })}
+                            >
+                              Reject
+                            </Button>
+                          </div>
+                        </div>
+                        {submission.notes && (
+                          <p className="text-sm text-muted-foreground mt-2">{submission.notes}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">No pending chord corrections</p>
+                )}
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="settings" className="space-y-6">
@@ -370,6 +452,10 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="providers" className="space-y-6">
+            <ProviderHealthPanel />
+          </TabsContent>
         </Tabs>
       </div>
     </PageLayout>
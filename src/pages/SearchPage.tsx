@@ -7,7 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { seedTracks, progressionArchetypes } from '@/data/seedTracks';
 import { Track } from '@/types';
-import { Search, Music, TrendingUp, ArrowRight, Play, ExternalLink, Loader2, Clock, X, Filter, Zap, Heart, Sparkles } from 'lucide-react';
+import { Search, Music, TrendingUp, ArrowRight, Play, ExternalLink, Loader2, Clock, X, Filter, Zap, Heart, Sparkles, Bookmark } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { navigateToTrack } from '@/lib/navigation';
 import { openProviderLink, getProviderLinks } from '@/lib/providers';
@@ -17,13 +17,38 @@ import { searchYouTubeVideos } from '@/services/youtubeSearchService';
 import { useSpotifyConnected } from '@/hooks/api/useSpotifyUser';
 import { ResponsiveContainer, ResponsiveGrid } from '@/components/layout/ResponsiveLayout';
 import { QuickStreamButtons } from '@/components/QuickStreamButtons';
+import { SearchQueryAssist } from '@/components/SearchQueryAssist';
+import { PlayToFindPanel } from '@/components/PlayToFindPanel';
+import { useAdvancedSearch, useProgressionSearch } from '@/hooks/api/useSearch';
+import { useCatalogSearch } from '@/hooks/api/useTracks';
+import { highlightSegments, type CatalogField } from '@/lib/catalogSearch';
+import { parseSearchQuery } from '@/lib/searchQuery';
+import { chartToRoman, relativeKey } from '@/lib/chordSymbols';
+import { parseNumeralList } from '@/lib/chordConsensus';
+import { PITCH_CLASSES } from '@/lib/harmonicDsp';
+import { numeralsToProgression } from '@/lib/sectionSimilarity';
 import { 
   getSearchHistory, 
   addToSearchHistory, 
   removeFromHistory, 
-  type SearchHistoryItem 
+  getSavedSearches,
+  saveSearch,
+  removeSavedSearch,
+  type SearchHistoryItem,
+  type SavedSearch,
 } from '@/lib/searchHistory';
 
+const MATCHED_FIELD_LABELS: Record<CatalogField, string> = {
+  title: 'Title',
+  artists: 'Artist',
+  album: 'Album',
+  songwriters: 'Songwriter',
+  producers: 'Producer',
+  label: 'Label',
+  historical_notes: 'History',
+  genre_description: 'Genre',
+};
+
 export default function SearchPage() {
   const navigate = useNavigate();
   const { user } = useAuth();
@@ -40,10 +65,69 @@ export default function SearchPage() {
   const [energyFilter, setEnergyFilter] = useState<'all' | 'high' | 'medium' | 'low'>('all');
   const [moodFilter, setMoodFilter] = useState<'all' | 'happy' | 'sad' | 'neutral'>('all');
   const [showFilters, setShowFilters] = useState(false);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [cursor, setCursor] = useState(0);
+  const [inputFocused, setInputFocused] = useState(false);
+  const [catalogQuery, setCatalogQuery] = useState('');
+  const inputRef = React.useRef<HTMLInputElement>(null);
+
+  // Field syntax (key:Am prog:"i-bVII-bVI" ...) switches song search to the
+  // advanced query language
+  const parsedQuery = useMemo(() => parseSearchQuery(query), [query]);
+  const isAdvanced = searchMode === 'song' && parsedQuery.tokens.some(t => t.field !== null);
+  const { data: advancedResults = [], isFetching: isAdvancedSearching } = useAdvancedSearch(
+    parsedQuery,
+    isAdvanced && parsedQuery.errors.length === 0
+  );
+
+  // Chord mode takes Roman numerals or a chord chart ("Am F C G"), which is
+  // shown in its inferred key and searched in that key and its relative
+  const chordQuery = useMemo(() => {
+    if (searchMode !== 'chord' || !query.trim()) return null;
+    const numerals = parseNumeralList(query);
+    if (numerals.invalid.length === 0) {
+      const progression = numeralsToProgression(numerals.numerals);
+      return { progression, key: null, readings: [{ progression }] };
+    }
+    const chart = chartToRoman(query);
+    if (chart.invalid.length > 0 || !chart.key) return null;
+    const relative = relativeKey(chart.key);
+    return {
+      progression: chart.progression,
+      key: chart.key,
+      readings: [
+        { progression: chart.progression, mode: chart.key.mode },
+        { progression: chartToRoman(query, relative).progression, mode: relative.mode },
+      ],
+    };
+  }, [query, searchMode]);
+  const { data: progressionMatches = [], isFetching: isProgressionSearching } = useProgressionSearch(
+    chordQuery?.readings ?? []
+  );
+
+  // Ranked full-text search over the local catalog (typo tolerant)
+  useEffect(() => {
+    const timer = setTimeout(() => setCatalogQuery(query.trim()), 150);
+    return () => clearTimeout(timer);
+  }, [query]);
+  const { data: catalogResult } = useCatalogSearch(
+    catalogQuery,
+    { limit: 50 },
+    searchMode === 'song' && !isAdvanced
+  );
+  const catalogHits = useMemo(
+    () => (query.trim() && catalogQuery ? catalogResult?.hits ?? [] : []),
+    [query, catalogQuery, catalogResult]
+  );
+  const catalogHitById = useMemo(
+    () => new Map(catalogHits.map(hit => [hit.track.id, hit])),
+    [catalogHits]
+  );
 
   // Load search history on mount
   useEffect(() => {
     setSearchHistory(getSearchHistory());
+    setSavedSearches(getSavedSearches());
   }, []);
 
   // Debug: Log seedTracks on mount
@@ -55,7 +139,7 @@ export default function SearchPage() {
 
   // Debounced Spotify search
   useEffect(() => {
-    if (searchMode !== 'song' || !query.trim() || !user || !isSpotifyConnected) {
+    if (searchMode !== 'song' || isAdvanced || !query.trim() || !user || !isSpotifyConnected) {
       setSpotifyResults([]);
       setSpotifyTotal(0);
       setSpotifyOffset(0);
@@ -81,7 +165,7 @@ export default function SearchPage() {
     }, 300); // 300ms debounce for instant feel
 
     return () => clearTimeout(timer);
-  }, [query, searchMode, user, isSpotifyConnected]);
+  }, [query, searchMode, isAdvanced, user, isSpotifyConnected]);
 
   const loadMoreSpotify = React.useCallback(async () => {
     if (!user) return;
@@ -101,7 +185,7 @@ export default function SearchPage() {
   // YouTube search fallback when Spotify is not connected
   useEffect(() => {
     let cancelled = false;
-    if (searchMode !== 'song' || !query.trim() || isSpotifyConnected) {
+    if (searchMode !== 'song' || isAdvanced || !query.trim() || isSpotifyConnected) {
       setYoutubeResults([]);
       return;
     }
@@ -128,38 +212,33 @@ export default function SearchPage() {
       cancelled = true;
       clearTimeout(timer);
     };
-  }, [query, searchMode, isSpotifyConnected]);
+  }, [query, searchMode, isAdvanced, isSpotifyConnected]);
 
   // Instant local search with memoization for zero-latency feel
   const results = useMemo(() => {
     let filtered: Track[] = [];
 
-    // Step 1: Text search filtering
+    // Advanced queries run against the database (see useAdvancedSearch)
+    if (isAdvanced) return filtered;
+
+    // Step 1: Text search filtering (catalog hits arrive ranked)
     if (searchMode === 'song') {
-      const lowerQuery = query.toLowerCase();
-      filtered = seedTracks.filter(
-        (t) =>
-          !query.trim() || // Include all if no query
-          t.title?.toLowerCase().includes(lowerQuery) ||
-          t.artist?.toLowerCase().includes(lowerQuery) ||
-          t.album?.toLowerCase().includes(lowerQuery) ||
-          t.genre?.toLowerCase().includes(lowerQuery) ||
-          t.genre_description?.toLowerCase().includes(lowerQuery)
-      );
+      filtered = query.trim() ? catalogHits.map(hit => hit.track) : [...seedTracks];
     } else {
-      // Chord progression search
-      const chords = query
-        .toUpperCase()
-        .split(/[-–—,\s]+/)
-        .map((c) => c.trim())
-        .filter(Boolean);
+      // Chord progression search; a chart matches in either reading
+      const readings = (chordQuery?.key ? chordQuery.readings.map((r) => r.progression.map((c) => c.numeral).join(' ')) : [query])
+        .map((reading) => reading
+          .toUpperCase()
+          .split(/[-–—,\s]+/)
+          .map((c) => c.trim())
+          .filter(Boolean));
       
       filtered = seedTracks.filter((t) => {
         if (!t.progression_roman) return false;
         const progression = t.progression_roman.map((c) => c.toUpperCase());
-        return chords.length === 0 || chords.every((chord) => 
+        return readings.some((chords) => chords.length === 0 || chords.every((chord) => 
           progression.includes(chord) || progression.includes(chord.toLowerCase())
-        );
+        ));
       });
     }
 
@@ -195,26 +274,8 @@ export default function SearchPage() {
       });
     }
 
-    // Step 5: Sort by relevance
-    if (query.trim() && searchMode === 'song') {
-      const lowerQuery = query.toLowerCase();
-      return filtered.sort((a, b) => {
-        const aTitle = a.title?.toLowerCase() || '';
-        const bTitle = b.title?.toLowerCase() || '';
-        const aArtist = a.artist?.toLowerCase() || '';
-        const bArtist = b.artist?.toLowerCase() || '';
-        
-        if (aTitle.startsWith(lowerQuery) && !bTitle.startsWith(lowerQuery)) return -1;
-        if (!aTitle.startsWith(lowerQuery) && bTitle.startsWith(lowerQuery)) return 1;
-        if (aArtist.startsWith(lowerQuery) && !bArtist.startsWith(lowerQuery)) return -1;
-        if (!aArtist.startsWith(lowerQuery) && bArtist.startsWith(lowerQuery)) return 1;
-        
-        return 0;
-      });
-    }
-
     return filtered;
-  }, [query, searchMode, selectedGenres, energyFilter, moodFilter]);
+  }, [query, searchMode, isAdvanced, catalogHits, chordQuery, selectedGenres, energyFilter, moodFilter]);
 
   const handlePlayOnProvider = (track: Track) => {
     // Add to search history
@@ -240,6 +301,26 @@ export default function SearchPage() {
     setSearchHistory(getSearchHistory());
   };
 
+  const handleQueryChange = (next: string, nextCursor: number) => {
+    setQuery(next);
+    setCursor(nextCursor);
+    // Restore the caret after React re-renders the input
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCursor, nextCursor));
+  };
+
+  const handleSaveSearch = () => {
+    const name = window.prompt('Name this search', query.trim());
+    if (name === null) return;
+    saveSearch(name, query);
+    setSavedSearches(getSavedSearches());
+  };
+
+  const handleRemoveSavedSearch = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    removeSavedSearch(id);
+    setSavedSearches(getSavedSearches());
+  };
+
   const handleHistoryClick = (item: SearchHistoryItem) => {
     if (item.track) {
       navigateToTrack(navigate, item.track.id);
@@ -287,16 +368,34 @@ export default function SearchPage() {
             <Input
               placeholder={
                 searchMode === 'song'
-                  ? 'Search songs or artists...'
-                  : 'e.g., vi-IV-I-V or I-V-vi-IV'
+                  ? 'Search songs or artists, or key:Am prog:"i-bVII-bVI" bpm:90..110'
+                  : 'e.g., vi-IV-I-V or Am F C G'
               }
+              ref={inputRef}
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setCursor(e.target.selectionStart ?? e.target.value.length);
+              }}
+              onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? query.length)}
+              onFocus={() => setInputFocused(true)}
+              onBlur={() => setInputFocused(false)}
               className="pl-10 bg-muted/50"
               autoFocus
             />
           </div>
 
+          {searchMode === 'song' && (
+            <SearchQueryAssist
+              query={query}
+              cursor={cursor}
+              parsed={parsedQuery}
+              showSuggestions={inputFocused}
+              onChange={handleQueryChange}
+              onSave={handleSaveSearch}
+            />
+          )}
+
           {/* Filter toggle button */}
           <Button
             variant="outline"
@@ -420,6 +519,109 @@ export default function SearchPage() {
       {/* Content */}
       <main className="py-4 space-y-6">
         <ResponsiveContainer maxWidth="full">
+        {/* Saved advanced searches */}
+        {!query && searchMode === 'song' && savedSearches.length > 0 && (
+          <section>
+            <h2 className="text-sm font-semibold text-muted-foreground mb-3 flex items-center gap-2">
+              <Bookmark className="w-4 h-4" />
+              Saved Searches
+            </h2>
+            <div className="space-y-2">
+              {savedSearches.map((saved) => (
+                <div
+                  key={saved.id}
+                  onClick={() => handleQueryChange(saved.query, saved.query.length)}
+                  className="p-3 glass rounded-lg cursor-pointer hover:bg-muted/50 transition-colors group"
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{saved.name}</div>
+                      <div className="text-xs text-muted-foreground font-mono truncate">{saved.query}</div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
+                      onClick={(e) => handleRemoveSavedSearch(saved.id, e)}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Advanced query results */}
+        {isAdvanced && (
+          <section>
+            <h2 className="text-sm font-semibold text-muted-foreground mb-3 flex items-center gap-2">
+              Harmony matches ({advancedResults.length})
+              {isAdvancedSearching && <Loader2 className="w-3 h-3 animate-spin" />}
+            </h2>
+            {advancedResults.length === 0 && !isAdvancedSearching ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">
+                {parsedQuery.errors.length > 0 ? 'Fix the highlighted query errors to search' : 'No analysed tracks match this query'}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {advancedResults.map(({ track, fingerprint }) => (
+                  <div
+                    key={track.id}
+                    className="p-4 glass rounded-xl cursor-pointer hover:bg-muted/50 transition-colors"
+                    onClick={() => handlePlayOnProvider(track)}
+                  >
+                    <div className="flex gap-4">
+                      {track.cover_url && (
+                        <img
+                          src={track.cover_url}
+                          alt=""
+                          className="w-16 h-16 rounded-lg object-cover flex-shrink-0"
+                        />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-medium truncate">{track.title}</h3>
+                        <p className="text-sm text-muted-foreground truncate">{track.artist}</p>
+                        {fingerprint && (
+                          <>
+                            <p className="text-xs text-muted-foreground mt-0.5">
+                              {[
+                                fingerprint.detected_key && `${fingerprint.detected_key} ${fingerprint.detected_mode ?? ''}`.trim(),
+                                fingerprint.tempo_bpm && `${Math.round(fingerprint.tempo_bpm)} BPM`,
+                                fingerprint.cadence_type !== 'none' && `${fingerprint.cadence_type} cadence`,
+                              ].filter(Boolean).join(' · ')}
+                            </p>
+                            <div className="flex gap-1 mt-2 flex-wrap">
+                              {fingerprint.numerals.slice(0, 8).map((chord, i) => (
+                                <ChordBadge key={i} chord={chord} size="sm" />
+                              ))}
+                            </div>
+                          </>
+                        )}
+                      </div>
+                      <div className="flex items-center">
+                        <QuickStreamButtons
+                          track={{
+                            spotifyId: track.spotify_id,
+                            youtubeId: track.youtube_id,
+                            urlYoutube: track.url_youtube,
+                            urlSpotifyWeb: track.url_spotify_web,
+                          }}
+                          canonicalTrackId={track.id}
+                          trackTitle={track.title}
+                          trackArtist={track.artist}
+                          size="md"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
         {/* Recent Searches - Show when no active search */}
         {!query && searchHistory.length > 0 && (
           <section>
@@ -474,6 +676,62 @@ export default function SearchPage() {
           </section>
         )}
 
+        {/* Analysed tracks built on the progression */}
+        {chordQuery && (
+          <section>
+            {chordQuery.key && (
+              <div className="flex items-center gap-1.5 flex-wrap mb-3">
+                <span className="text-xs text-muted-foreground mr-1">
+                  In {PITCH_CLASSES[chordQuery.key.tonic]} {chordQuery.key.mode}:
+                </span>
+                {chordQuery.progression.map((chord, i) => (
+                  <ChordBadge
+                    key={i}
+                    chord={chord.numeral}
+                    keySignature={PITCH_CLASSES[chordQuery.key.tonic]}
+                    mode={chordQuery.key.mode}
+                    size="sm"
+                  />
+                ))}
+              </div>
+            )}
+            <h2 className="text-sm font-semibold text-muted-foreground mb-3 flex items-center gap-2">
+              Harmony matches ({progressionMatches.length})
+              {isProgressionSearching && <Loader2 className="w-3 h-3 animate-spin" />}
+            </h2>
+            {progressionMatches.length > 0 && (
+              <div className="space-y-2">
+                {progressionMatches.map(({ track, match }) => (
+                  <div
+                    key={track.id}
+                    className="p-3 glass rounded-xl cursor-pointer hover:bg-muted/50 transition-colors flex items-center gap-3"
+                    onClick={() => handlePlayOnProvider(track)}
+                  >
+                    {track.cover_url && (
+                      <img src={track.cover_url} alt="" className="w-12 h-12 rounded-lg object-cover flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-medium truncate">{track.title}</h3>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {track.artist}
+                        {match.explanation && ` · ${match.explanation}`}
+                      </p>
+                    </div>
+                    <span className="text-xs font-medium text-primary">
+                      {Math.round(match.similarity_score * 100)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Search by playing a loop into the microphone */}
+        {searchMode === 'chord' && !query && (
+          <PlayToFindPanel onSelectTrack={handlePlayOnProvider} />
+        )}
+
         {/* Quick chord searches */}
         {searchMode === 'chord' && !query && (
           <section>
@@ -509,7 +767,7 @@ export default function SearchPage() {
         )}
 
         {/* No results message */}
-        {query && spotifyResults.length === 0 && results.length === 0 && !isSearching && (
+        {query && !isAdvanced && spotifyResults.length === 0 && results.length === 0 && progressionMatches.length === 0 && !isSearching && (
           <section>
             <div className="glass rounded-2xl p-8 text-center space-y-4">
               <div className="w-20 h-20 rounded-full bg-muted/50 flex items-center justify-center mx-auto">
@@ -754,6 +1012,26 @@ export default function SearchPage() {
                       <p className="text-sm text-muted-foreground truncate">
                         {track.artist}
                       </p>
+                      {catalogHitById.get(track.id)?.snippet && (
+                        <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                          {highlightSegments(catalogHitById.get(track.id)!.snippet).map((segment, i) =>
+                            segment.highlighted ? (
+                              <mark key={i} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+                                {segment.text}
+                              </mark>
+                            ) : (
+                              <React.Fragment key={i}>{segment.text}</React.Fragment>
+                            )
+                          )}
+                        </p>
+                      )}
+                      {catalogHitById.get(track.id)?.matched_fields
+                        .filter(field => field !== 'title' && field !== 'artists')
+                        .map(field => (
+                          <Badge key={field} variant="outline" className="text-[10px] mt-1 mr-1">
+                            {MATCHED_FIELD_LABELS[field]}
+                          </Badge>
+                        ))}
                       {track.progression_roman && (
                         <div className="flex gap-1 mt-2 flex-wrap">
                           {track.progression_roman.map((chord, i) => (
@@ -762,6 +1040,7 @@ export default function SearchPage() {
                               chord={chord} 
                               size="sm" 
                               keySignature={track.detected_key}
+                              mode={track.detected_mode === 'unknown' ? undefined : track.detected_mode}
                             />
                           ))}
                         </div>
@@ -790,7 +1069,7 @@ export default function SearchPage() {
         )}
 
         {/* No results */}
-        {query && spotifyResults.length === 0 && results.length === 0 && !isSearching && (
+        {query && !isAdvanced && spotifyResults.length === 0 && results.length === 0 && progressionMatches.length === 0 && !isSearching && (
           <div className="text-center py-12">
             <p className="text-muted-foreground">No results found for "{query}"</p>
             <p className="text-sm text-muted-foreground mt-1">
@@ -4,6 +4,7 @@
  * Comprehensive track view with:
  * - Song sections (intro, verse, chorus, bridge)
  * - Hooktheory chord data
+ * - Community chord corrections
  * - WhoSampled connections
  * - Multiple YouTube videos in PiP
  * - Auto-start from intro timestamp
@@ -21,6 +22,7 @@ import { TrackComments } from '@/components/TrackComments';
 import { TikTokStyleButtons } from '@/components/TikTokStyleButtons';
 import { QuickStreamButtons } from '@/components/QuickStreamButtons';
 import { ScrollingComments } from '@/components/ScrollingComments';
+import { ChordCorrectionPanel } from '@/components/ChordCorrectionPanel';
 import { getTrackSections } from '@/api/trackSections';
 import { searchYouTubeVideos } from '@/services/youtubeSearchService';
 import { TrackSection, Track } from '@/types';
@@ -306,6 +308,9 @@ export default function TrackDetailPage() {
     );
   }
 
+  // Numerals are stored in the minor frame for minor keys
+  const chordMode = 'detected_mode' in track && track.detected_mode !== 'unknown' ? track.detected_mode : undefined;
+
   return (
     <div className="min-h-screen bg-background pb-24">
       {/* Header */}
@@ -536,6 +541,7 @@ export default function TrackDetailPage() {
                                 key={i}
                                 chord={chord}
                                 keySignature={track.detected_key}
+                                mode={chordMode}
                                 size="lg"
                                 className={cn(
                                   "transition-all duration-200",
@@ -572,6 +578,7 @@ export default function TrackDetailPage() {
                         key={i} 
                         chord={chord} 
                         keySignature={track.detected_key}
+                        mode={chordMode}
                         size="lg"
                       />
                     ))}
@@ -588,6 +595,7 @@ export default function TrackDetailPage() {
                 </p>
               )}
             </Card>
+            <ChordCorrectionPanel trackId={track.id} keySignature={track.detected_key} />
           </TabsContent>
 
           {/* Samples Tab */}
@@ -3,7 +3,7 @@ import { motion } from 'framer-motion';
 import { usePlayer } from './PlayerContext';
 import { YouTubePlayer } from './providers/YouTubePlayer';
 import { SpotifyEmbedPreview } from './providers/SpotifyEmbedPreview';
-import { Volume2, VolumeX, Maximize2, X, ChevronDown, ChevronUp, Play, Pause, Square, SkipBack, SkipForward, ListMusic } from 'lucide-react';
+import { Volume2, VolumeX, Maximize2, X, ChevronDown, ChevronUp, Play, Pause, Square, SkipBack, SkipForward, ListMusic, Repeat } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { QueueSheet } from './QueueSheet';
 import { SpotifyIcon, YouTubeIcon, AppleMusicIcon } from '@/components/QuickStreamButtons';
@@ -14,6 +14,9 @@ const providerMeta = {
   apple_music: { label: 'Apple Music', badge: '', color: 'bg-neutral-900/90', Icon: AppleMusicIcon },
 } as const;
 
+const PRE_ROLL_CHOICES_MS = [0, 1000, 2000, 4000];
+const LOOP_COUNT_CHOICES = [null, 2, 4, 8];
+
 type EmbeddedPlayerDrawerProps = {
   onNext?: () => void;
   onPrev?: () => void;
@@ -83,6 +86,51 @@ function useAnimatedSeekbar(
   return displayMs;
 }
 
+/**
+ * Active A/B loop: region, progress, pre-roll and loop count
+ */
+function LoopControls({ formatTime }: { formatTime: (seconds: number) => string }) {
+  const { loop, loopOptions, setLoopOptions, clearLoop } = usePlayer();
+  if (!loop) return null;
+
+  const chip = (selected: boolean) =>
+    cn(
+      'rounded-full px-1.5 py-0.5 tabular-nums transition-colors',
+      selected ? 'bg-white/20 text-white' : 'text-white/60 hover:text-white'
+    );
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 px-3 pb-3 md:px-4 text-[10px] md:text-xs text-white/80" aria-label="Loop">
+      <span className="inline-flex items-center gap-1 font-semibold text-white">
+        <Repeat className="h-3 w-3" />
+        {loop.label ?? 'Loop'} {formatTime(loop.startMs / 1000)}–{formatTime(loop.endMs / 1000)}
+      </span>
+      <span className="tabular-nums">
+        Pass {loop.completed + 1}{loop.maxLoops !== null && ` / ${loop.maxLoops}`}
+      </span>
+      <span className="inline-flex items-center gap-0.5">
+        Pre-roll
+        {PRE_ROLL_CHOICES_MS.map((ms) => (
+          <button key={ms} type="button" onClick={() => setLoopOptions({ preRollMs: ms })} className={chip(loopOptions.preRollMs === ms)}>
+            {ms / 1000}s
+          </button>
+        ))}
+      </span>
+      <span className="inline-flex items-center gap-0.5">
+        Loops
+        {LOOP_COUNT_CHOICES.map((count) => (
+          <button key={count ?? 'all'} type="button" onClick={() => setLoopOptions({ maxLoops: count })} className={chip(loopOptions.maxLoops === count)}>
+            {count ?? '∞'}
+          </button>
+        ))}
+      </span>
+      <button type="button" onClick={clearLoop} className="ml-auto text-white/60 hover:text-white" aria-label="Stop looping">
+        Stop loop
+      </button>
+    </div>
+  );
+}
+
 export function EmbeddedPlayerDrawer({ onNext, onPrev, canNext, canPrev }: EmbeddedPlayerDrawerProps) {
   const {
     provider,
@@ -113,14 +161,22 @@ export function EmbeddedPlayerDrawer({ onNext, onPrev, canNext, canPrev }: Embed
     restoreFromMini,
     setMiniPosition,
     queue,
-    queueIndex,
+    queueUndo,
     playFromQueue,
     removeFromQueue,
     reorderQueue,
     clearQueue,
     shuffleQueue,
+    undoQueue,
     nextTrack,
     previousTrack,
+    loop,
+    loopMarkerMs,
+    markLoopPoint,
+    handoff,
+    autoDj,
+    autoDjLoading,
+    setAutoDj,
   } = usePlayer();
   const cinemaRef = useRef<HTMLDivElement | null>(null);
   const autoplay = isPlaying;
@@ -137,8 +193,9 @@ export function EmbeddedPlayerDrawer({ onNext, onPrev, canNext, canPrev }: Embed
   const durationSec = Math.max(0, safeMs(durationMs) / 1000);
   
   const volumePercent = Math.round((isMuted ? 0 : Number.isFinite(volume) ? volume : 0) * 100);
-  const effectiveCanNext = canNext ?? queue.length > 1;
-  const effectiveCanPrev = canPrev ?? queue.length > 1;
+  // Tracks added while nothing played from the queue: next starts the first
+  const effectiveCanNext = canNext ?? queue.entries.length > (queue.index === -1 ? 0 : 1);
+  const effectiveCanPrev = canPrev ?? queue.entries.length > 1;
 
   const meta = useMemo(() => {
     const fallback = { label: 'Now Playing', badge: '♪', color: 'bg-neutral-900/90', Icon: null as React.ComponentType<{ className?: string }> | null };
@@ -369,6 +426,21 @@ export function EmbeddedPlayerDrawer({ onNext, onPrev, canNext, canPrev }: Embed
             />
             <span className="text-[10px] md:text-xs tabular-nums w-12 text-left" aria-label="Total duration">{formatTime(durationSec)}</span>
 
+            <button
+              type="button"
+              onClick={markLoopPoint}
+              disabled={isIdle}
+              className={cn(
+                'inline-flex items-center gap-0.5 p-1.5 text-[10px] font-semibold rounded transition-colors disabled:opacity-50',
+                loop || loopMarkerMs !== null ? 'text-primary' : 'text-white/80 hover:text-white'
+              )}
+              aria-label={loopMarkerMs === null ? 'Set loop start (A)' : 'Set loop end (B)'}
+              title={loopMarkerMs === null ? 'Set loop start (A)' : `Loop from ${formatTime(loopMarkerMs / 1000)} to here (B)`}
+            >
+              <Repeat className="w-3.5 h-3.5 md:w-4 md:h-4" />
+              {loopMarkerMs === null ? 'A' : 'B'}
+            </button>
+
             <button
               onClick={toggleMute}
               className="p-1.5 text-white/80 hover:text-white transition-colors rounded"
@@ -399,6 +471,12 @@ export function EmbeddedPlayerDrawer({ onNext, onPrev, canNext, canPrev }: Embed
               </button>
             )}
           </div>
+          <LoopControls formatTime={formatTime} />
+          {handoff?.status === 'failed' && (
+            <p className="px-3 pb-3 md:px-4 text-[10px] md:text-xs text-white/60" role="status">
+              Couldn't play on {providerMeta[handoff.to]?.label ?? handoff.to}; kept playing on {providerMeta[handoff.from.provider]?.label ?? handoff.from.provider}.
+            </p>
+          )}
         </div>
 
         </motion.div>
@@ -447,12 +525,16 @@ export function EmbeddedPlayerDrawer({ onNext, onPrev, canNext, canPrev }: Embed
         open={queueOpen}
         onOpenChange={setQueueOpen}
         queue={queue}
-        currentIndex={queueIndex}
         onPlayTrack={(idx) => playFromQueue(idx)}
-        onRemoveTrack={(idx) => removeFromQueue(idx)}
+        onRemoveTrack={removeFromQueue}
         onReorderQueue={reorderQueue}
         onClearQueue={clearQueue}
         onShuffleQueue={shuffleQueue}
+        canUndo={queueUndo.length > 0}
+        onUndo={undoQueue}
+        autoDj={autoDj}
+        autoDjLoading={autoDjLoading}
+        onToggleAutoDj={() => setAutoDj(!autoDj)}
       />
     </>
   );
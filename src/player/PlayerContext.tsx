@@ -1,7 +1,28 @@
 import { createContext, useContext, useMemo, useState, useCallback, useEffect, useRef, ReactNode } from 'react';
 import { recordPlayEvent } from '@/api/playEvents';
+import { getAutoDjPicks } from '@/api/autoDj';
+import { HARMONIC_MIXING_CONFIG } from '@/lib/harmonicMixing';
+import {
+  QUEUE_CONFIG,
+  adoptRemoteQueue,
+  appendUpNext,
+  clearQueue as clearQueueEntries,
+  createEntry,
+  emptyQueue,
+  enqueue,
+  jumpTo,
+  removeEntry,
+  reorderUpcoming,
+  restoreQueue,
+  shuffleUpcoming,
+  stepQueue,
+  type QueueSnapshot,
+} from '@/lib/queueModel';
+import { useQueueSync } from '@/hooks/useQueueSync';
 import { MusicProvider } from '@/types';
 import { getPreferredProvider } from '@/lib/preferences';
+import { HANDOFF_CONFIG, mapHandoffPosition, type HandoffHint, type HandoffTiming } from '@/lib/providerHandoff';
+import { AB_LOOP_CONFIG, createLoop, loopStartMs, loopStep, updateLoop, type AbLoop, type LoopOptions, type LoopRegion } from '@/lib/abLoop';
 
 interface ConnectedProviders {
   spotify?: { connected: boolean };
@@ -36,10 +57,30 @@ export interface PlayerState {
   miniPosition: { x: number; y: number };
   seekToSec: number | null;
   currentSectionId: string | null;
-  queue: import('@/types').Track[];
-  queueIndex: number;
+  loop: AbLoop | null;
+  loopMarkerMs: number | null; // A marker awaiting B
+  loopOptions: { preRollMs: number; maxLoops: number | null };
+  handoff: ProviderHandoff | null;
+  queue: QueueSnapshot; // Shared with other tabs and devices
+  queueUndo: QueueSnapshot[]; // Earlier queues, newest last
+  autoDj: boolean;
+  autoDjLoading: boolean;
 }
 
+// A mid-track provider switch: pending until the target reports its duration,
+// failed when it errors or stays silent (playback went back to the source)
+export interface ProviderHandoff {
+  from: { provider: MusicProvider; trackId: string | null; positionMs: number; durationMs: number; loop: AbLoop | null };
+  to: MusicProvider;
+  startMs: number; // Where the target was asked to start
+  hint: HandoffHint;
+  status: 'pending' | 'failed';
+}
+
+// Reported by providers that can't carry a handoff: 'uncontrolled' plays but
+// can't seek or report (embeds), 'failed' can't play at all
+export type ProviderStatus = 'uncontrolled' | 'failed';
+
 type ProviderControls = {
   play: (startSec?: number | null) => Promise<void> | void;
   pause: () => Promise<void> | void;
@@ -87,7 +128,9 @@ interface PlayerContextValue extends PlayerState {
   closePlayer: () => void;
   closeSpotify: () => void;
   closeYoutube: () => void;
-  switchProvider: (provider: MusicProvider, providerTrackId: string | null, canonicalTrackId?: string | null) => void;
+  /** Switch mid-track, carrying the position across edits; falls back to the current provider if the target fails */
+  switchProvider: (provider: MusicProvider, providerTrackId: string | null, canonicalTrackId?: string | null, hint?: HandoffHint) => void;
+  reportProviderStatus: (provider: MusicProvider, status: ProviderStatus) => void;
   seekTo: (sec: number) => void;
   clearSeek: () => void;
   seekToMs: (ms: number) => void;
@@ -95,6 +138,16 @@ interface PlayerContextValue extends PlayerState {
   setVolumeLevel: (volume: number) => void;
   toggleMute: () => void;
   setCurrentSection: (sectionId: string | null) => void;
+  /** Loop a region (a section or markers); throws when it is under AB_LOOP_CONFIG.MIN_LENGTH_MS */
+  setLoop: (region: LoopRegion, options?: LoopOptions) => void;
+  clearLoop: () => void;
+  /** Set A at the current position, then B (which starts the loop) */
+  markLoopPoint: () => void;
+  /** Pre-roll and loop count for the active loop and loops started later */
+  setLoopOptions: (options: LoopOptions) => void;
+  /** Feed a playback position to the loop; returns where to seek (ms), if anywhere. Clears a loop whose seeks never land */
+  stepLoop: (positionMs: number) => number | null;
+  setDuration: (durationMs: number) => void;
   setIsPlaying: (playing: boolean) => void;
   setMinimized: (value: boolean) => void;
   collapseToMini: () => void;
@@ -104,20 +157,25 @@ interface PlayerContextValue extends PlayerState {
   exitCinema: () => void;
   registerProviderControls: (provider: MusicProvider, controls: ProviderControls) => void;
   updatePlaybackState: (updates: Partial<Pick<PlayerState, 'positionMs' | 'durationMs' | 'isPlaying' | 'volume' | 'isMuted' | 'trackTitle' | 'trackArtist' | 'trackAlbum' | 'lastKnownTitle' | 'lastKnownArtist' | 'lastKnownAlbum'>>) => void;
+  /** Add after the other tracks the user added */
   addToQueue: (track: import('@/types').Track) => void;
+  /** Add straight after the current track */
+  playNext: (track: import('@/types').Track) => void;
   playFromQueue: (index: number) => void;
-  removeFromQueue: (index: number) => void;
-  reorderQueue: (newQueue: import('@/types').Track[]) => void;
+  removeFromQueue: (uid: string) => void;
+  /** New order of every upcoming entry, by uid */
+  reorderQueue: (uids: string[]) => void;
   clearQueue: () => void;
   shuffleQueue: () => void;
+  undoQueue: () => void;
+  /** Keep the queue topped up with harmonically compatible tracks */
+  setAutoDj: (enabled: boolean) => void;
   nextTrack: () => void;
   previousTrack: () => void;
 }
 
 const PlayerContext = createContext<PlayerContextValue | null>(null);
 
-const QUEUE_STORAGE_KEY = 'clade_queue_v1';
-
 const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
 
 const dedupeArtists = (artist: string | null) => {
@@ -136,9 +194,49 @@ const dedupeArtists = (artist: string | null) => {
   return parts.length ? parts.join(', ') : null;
 };
 
-const clampQueueIndex = (queueLength: number, index: number) => {
-  if (queueLength === 0) return -1;
-  return Math.max(0, Math.min(index, queueLength - 1));
+const providerOpenUpdates = (provider: MusicProvider, providerTrackId: string | null): Partial<PlayerState> =>
+  provider === 'spotify'
+    ? { spotifyOpen: true, spotifyTrackId: providerTrackId, autoplaySpotify: true, youtubeOpen: false, autoplayYoutube: false }
+    : { youtubeOpen: true, youtubeTrackId: providerTrackId, autoplayYoutube: true, spotifyOpen: false, autoplaySpotify: false };
+
+// A user edit to the queue, undoable
+const editQueue = (prev: PlayerState, queue: QueueSnapshot): PlayerState =>
+  queue === prev.queue ? prev : { ...prev, queue, queueUndo: [...prev.queueUndo, prev.queue].slice(-QUEUE_CONFIG.UNDO_LIMIT) };
+
+// A loop moved onto another provider's edit, its ends mapped like the
+// playback position; null when too little of it is left (it fell into a
+// lead-in or past the target's end)
+const handoffLoop = (loop: AbLoop | null, timing: HandoffTiming): AbLoop | null => {
+  if (!loop) return null;
+  const startMs = mapHandoffPosition(loop.startMs, timing).positionMs;
+  const endMs = mapHandoffPosition(loop.endMs, timing).positionMs;
+  if (endMs - startMs < AB_LOOP_CONFIG.MIN_LENGTH_MS) return null;
+  return { ...loop, startMs, endMs, awaitingSeek: false, seekRetries: 0 };
+};
+
+// The loop once a handoff settles: `settled` replaces the loop the switch
+// carried over, unless the listener has set another since
+const settleHandoffLoop = (current: AbLoop | null, handoff: ProviderHandoff, settled: AbLoop | null): AbLoop | null => {
+  const carried = handoffLoop(handoff.from.loop, { ...handoff.hint, sourceDurationMs: handoff.from.durationMs });
+  if (current?.startMs !== carried?.startMs || current?.endMs !== carried?.endMs) return current;
+  return current && settled ? { ...current, startMs: settled.startMs, endMs: settled.endMs } : settled;
+};
+
+// Start the queue's playing entry on the preferred provider
+const playQueueEntry = (prev: PlayerState, queue: QueueSnapshot): PlayerState => {
+  const track = queue.entries[queue.index]?.track;
+  if (!track || queue === prev.queue) return prev;
+  const provider = getPreferredProvider();
+  return {
+    ...prev,
+    queue,
+    canonicalTrackId: track.id,
+    provider,
+    trackId: provider === 'spotify' ? track.spotify_id : track.youtube_id,
+    loop: null,
+    loopMarkerMs: null,
+    handoff: null,
+  };
 };
 
 export function PlayerProvider({ children }: { children: ReactNode }) {
@@ -169,44 +267,50 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
     miniPosition: { x: 0, y: 0 },
     seekToSec: null,
     currentSectionId: null,
-    queue: [],
-    queueIndex: -1,
+    loop: null,
+    loopMarkerMs: null,
+    loopOptions: { preRollMs: 0, maxLoops: null },
+    handoff: null,
+    queue: emptyQueue(),
+    queueUndo: [],
+    autoDj: false,
+    autoDjLoading: false,
   });
   const providerControlsRef = useRef<Partial<Record<MusicProvider, ProviderControls>>>({});
   const activeProviderRef = useRef<MusicProvider | null>(null);
+  const loopRef = useRef<AbLoop | null>(null);
+  const positionMsRef = useRef(0);
+  const handoffRef = useRef<ProviderHandoff | null>(null);
+  const autoDjSeedRef = useRef<string | null>(null); // Last track Auto-DJ extended the queue from
+  const autoDjPendingRef = useRef<string | null>(null); // Seed of the batch being planned
 
   useEffect(() => {
     activeProviderRef.current = state.provider;
   }, [state.provider]);
 
-  // Hydrate queue from localStorage on mount
   useEffect(() => {
-    if (typeof window === 'undefined') return;
-    try {
-      const raw = localStorage.getItem(QUEUE_STORAGE_KEY);
-      if (!raw) return;
-      const parsed = JSON.parse(raw) as { queue?: import('@/types').Track[]; queueIndex?: number };
-      const queue = Array.isArray(parsed?.queue) ? parsed.queue : [];
-      const queueIndex = clampQueueIndex(queue.length, typeof parsed?.queueIndex === 'number' ? parsed.queueIndex : -1);
-      setState((prev) => ({ ...prev, queue, queueIndex }));
-    } catch (err) {
-      console.error('Failed to hydrate queue from storage', err);
-    }
-  }, [state.provider]);
+    loopRef.current = state.loop;
+  }, [state.loop]);
 
-  // Persist queue to localStorage when it changes
   useEffect(() => {
-    if (typeof window === 'undefined') return;
-    try {
-      const payload = JSON.stringify({
-        queue: state.queue,
-        queueIndex: clampQueueIndex(state.queue.length, state.queueIndex),
-      });
-      localStorage.setItem(QUEUE_STORAGE_KEY, payload);
-    } catch (err) {
-      console.error('Failed to persist queue to storage', err);
-    }
-  }, [state.queue, state.queueIndex]);
+    positionMsRef.current = state.positionMs;
+  }, [state.positionMs]);
+
+  useEffect(() => {
+    handoffRef.current = state.handoff;
+  }, [state.handoff]);
+
+  // A newer queue from storage, another tab or another device replaces ours,
+  // still playing our entry while this tab plays; undo history belonged to
+  // the queue it replaced
+  const adoptQueue = useCallback((incoming: QueueSnapshot) => {
+    setState((prev) => {
+      const queue = adoptRemoteQueue(prev.queue, incoming, prev.provider !== null);
+      return queue === prev.queue ? prev : { ...prev, queue, queueUndo: [] };
+    });
+  }, []);
+
+  useQueueSync(state.queue, adoptQueue);
 
   const seekTo = useCallback((sec: number) => {
     setState((prev) => ({ ...prev, seekToSec: sec, positionMs: sec * 1000 }));
@@ -226,6 +330,54 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
     setState((prev) => ({ ...prev, currentSectionId: sectionId }));
   }, []);
 
+  const setLoop = useCallback((region: LoopRegion, options?: LoopOptions) => {
+    const loop = createLoop(region, { ...state.loopOptions, ...options });
+    loopRef.current = loop;
+    setState((prev) => ({
+      ...prev,
+      loop,
+      loopMarkerMs: null,
+      currentSectionId: region.sectionId ?? prev.currentSectionId,
+      seekToSec: loopStartMs(loop) / 1000,
+    }));
+  }, [state.loopOptions]);
+
+  const clearLoop = useCallback(() => {
+    loopRef.current = null;
+    setState((prev) => ({ ...prev, loop: null, loopMarkerMs: null }));
+  }, []);
+
+  const markLoopPoint = useCallback(() => {
+    const markerMs = state.loopMarkerMs;
+    if (markerMs === null) {
+      setState((prev) => ({ ...prev, loopMarkerMs: prev.positionMs }));
+      return;
+    }
+    if (Math.abs(state.positionMs - markerMs) < AB_LOOP_CONFIG.MIN_LENGTH_MS) return;
+    setLoop({ startMs: markerMs, endMs: state.positionMs, label: 'A–B' });
+  }, [state.positionMs, state.loopMarkerMs, setLoop]);
+
+  const setLoopOptions = useCallback((options: LoopOptions) => {
+    const loop = loopRef.current && updateLoop(loopRef.current, options);
+    loopRef.current = loop;
+    setState((prev) => ({ ...prev, loop, loopOptions: { ...prev.loopOptions, ...options } }));
+  }, []);
+
+  const stepLoop = useCallback((positionMs: number) => {
+    const loop = loopRef.current;
+    if (!loop) return null;
+    const step = loopStep(loop, positionMs);
+    if (step.loop !== loop) {
+      loopRef.current = step.loop;
+      setState((prev) => ({ ...prev, loop: step.loop }));
+    }
+    return step.seekToMs;
+  }, []);
+
+  const setDuration = useCallback((durationMs: number) => {
+    setState((prev) => ({ ...prev, durationMs: Math.max(durationMs, 0) }));
+  }, []);
+
   const setIsPlaying = useCallback((playing: boolean) => {
     setState((prev) => ({ ...prev, isPlaying: playing }));
   }, []);
@@ -341,93 +493,92 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const addToQueue = useCallback((track: import('@/types').Track) => {
-    setState((prev) => ({ ...prev, queue: [...prev.queue, track] }));
+    setState((prev) => editQueue(prev, enqueue(prev.queue, [track], 'end')));
+  }, []);
+
+  const playNext = useCallback((track: import('@/types').Track) => {
+    setState((prev) => editQueue(prev, enqueue(prev.queue, [track], 'next')));
   }, []);
 
   const playFromQueue = useCallback((index: number) => {
-    setState((prev) => {
-      const track = prev.queue[index];
-      if (!track) return prev;
-      return {
-        ...prev,
-        queueIndex: index,
-        canonicalTrackId: track.id,
-        provider: getPreferredProvider(),
-        trackId: getPreferredProvider() === 'spotify' ? track.spotify_id : track.youtube_id,
-      };
-    });
+    setState((prev) => playQueueEntry(prev, jumpTo(prev.queue, index)));
   }, []);
 
-  const removeFromQueue = useCallback((index: number) => {
-    setState((prev) => {
-      const newQueue = prev.queue.filter((_, i) => i !== index);
-      const adjustedIndex = index < prev.queueIndex ? prev.queueIndex - 1 : prev.queueIndex;
-      const queueIndex = clampQueueIndex(newQueue.length, adjustedIndex);
-      return { ...prev, queue: newQueue, queueIndex };
-    });
+  const removeFromQueue = useCallback((uid: string) => {
+    setState((prev) => editQueue(prev, removeEntry(prev.queue, uid)));
   }, []);
 
-  const reorderQueue = useCallback((newQueue: import('@/types').Track[]) => {
-    setState((prev) => ({
-      ...prev,
-      queue: newQueue,
-      queueIndex: clampQueueIndex(newQueue.length, prev.queueIndex),
-    }));
+  const reorderQueue = useCallback((uids: string[]) => {
+    setState((prev) => editQueue(prev, reorderUpcoming(prev.queue, uids)));
   }, []);
 
   const clearQueue = useCallback(() => {
-    setState((prev) => ({ ...prev, queue: [], queueIndex: -1 }));
+    setState((prev) => editQueue(prev, clearQueueEntries(prev.queue)));
   }, []);
 
   const shuffleQueue = useCallback(() => {
+    setState((prev) => editQueue(prev, shuffleUpcoming(prev.queue)));
+  }, []);
+
+  const undoQueue = useCallback(() => {
     setState((prev) => {
-      const currentTrack = prev.queue[prev.queueIndex];
-      const remainingTracks = prev.queue.slice(prev.queueIndex + 1);
-      const shuffled = [...remainingTracks].sort(() => Math.random() - 0.5);
-      const newQueue = [
-        ...prev.queue.slice(0, prev.queueIndex + 1),
-        ...shuffled
-      ];
-      return { ...prev, queue: newQueue, queueIndex: clampQueueIndex(newQueue.length, prev.queueIndex) };
+      const previous = prev.queueUndo[prev.queueUndo.length - 1];
+      if (!previous) return prev;
+      return { ...prev, queue: restoreQueue(prev.queue, previous), queueUndo: prev.queueUndo.slice(0, -1) };
     });
   }, []);
 
-  const nextTrack = useCallback(() => {
-    setState((prev) => {
-      if (prev.queue.length === 0) return prev;
-      
-      // Loop to first track if at the end
-      const nextIndex = prev.queueIndex >= prev.queue.length - 1 ? 0 : prev.queueIndex + 1;
-      const track = prev.queue[nextIndex];
-      if (!track) return prev;
+  const setAutoDj = useCallback((enabled: boolean) => {
+    autoDjSeedRef.current = null; // Turning it on again retries the same seed
+    setState((prev) => ({ ...prev, autoDj: enabled }));
+  }, []);
 
-      return {
-        ...prev,
-        queueIndex: nextIndex,
-        canonicalTrackId: track.id,
-        provider: getPreferredProvider(),
-        trackId: getPreferredProvider() === 'spotify' ? track.spotify_id : track.youtube_id,
-      };
-    });
+  // Auto-DJ: when the queue runs low, append picks planned from its last track
+  // (or the track playing, when nothing is queued)
+  useEffect(() => {
+    if (!state.autoDj) return;
+    const { entries, index } = state.queue;
+    const remaining = entries.length - 1 - index;
+    if (entries.length > 0 && remaining >= HARMONIC_MIXING_CONFIG.LOW_WATER_MARK) return;
+
+    const seedId = entries[entries.length - 1]?.track.id ?? state.canonicalTrackId;
+    if (!seedId || autoDjSeedRef.current === seedId || autoDjPendingRef.current === seedId) return;
+    autoDjPendingRef.current = seedId;
+
+    setState((prev) => ({ ...prev, autoDjLoading: true }));
+    getAutoDjPicks(seedId, { recent: entries.map((entry) => entry.track) })
+      .then(({ seed, picks }) => {
+        // Only a batch that adds tracks settles the seed; an empty one (every
+        // pick queued, every artist cooling down) is retried when the queue moves
+        const queuedIds = new Set(entries.map((entry) => entry.track.id));
+        if (picks.some((pick) => !queuedIds.has(pick.track.id))) autoDjSeedRef.current = seedId;
+
+        setState((prev) => {
+          if (!prev.autoDj) return { ...prev, autoDjLoading: false };
+          const queued = new Set(prev.queue.entries.map((entry) => entry.track.id));
+          const fresh = picks
+            .filter((pick) => !queued.has(pick.track.id))
+            .map((pick) => createEntry(pick.track, 'auto-dj', pick.reason));
+          // An empty queue starts from the playing track
+          return { ...prev, queue: appendUpNext(prev.queue, fresh, seed), autoDjLoading: false };
+        });
+      })
+      .catch((err) => {
+        console.error('Auto-DJ failed to extend the queue', err);
+        setState((prev) => ({ ...prev, autoDjLoading: false }));
+      })
+      .finally(() => {
+        autoDjPendingRef.current = null;
+      });
+  }, [state.autoDj, state.queue, state.canonicalTrackId]);
+
+  const nextTrack = useCallback(() => {
+    // Wraps to the first track at the end
+    setState((prev) => playQueueEntry(prev, stepQueue(prev.queue, 1)));
   }, []);
 
   const previousTrack = useCallback(() => {
-    setState((prev) => {
-      if (prev.queue.length === 0) return prev;
-      
-      // Loop to last track if at the beginning
-      const prevIndex = prev.queueIndex <= 0 ? prev.queue.length - 1 : prev.queueIndex - 1;
-      const track = prev.queue[prevIndex];
-      if (!track) return prev;
-
-      return {
-        ...prev,
-        queueIndex: prevIndex,
-        canonicalTrackId: track.id,
-        provider: getPreferredProvider(),
-        trackId: getPreferredProvider() === 'spotify' ? track.spotify_id : track.youtube_id,
-      };
-    });
+    setState((prev) => playQueueEntry(prev, stepQueue(prev.queue, -1)));
   }, []);
 
   // High-level play/pause/stop helpers (single definitions)
@@ -451,6 +602,9 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
         isCinema: false,
         positionMs: startSec ? startSec * 1000 : prev.positionMs,
         isMuted: false,
+        loop: null,
+        loopMarkerMs: null,
+        handoff: null,
       };
 
       if (provider === 'spotify') {
@@ -501,6 +655,9 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
       seekToSec: null,
       isMini: false,
       isCinema: false,
+      loop: null,
+      loopMarkerMs: null,
+      handoff: null,
     }));
   }, []);
 
@@ -535,6 +692,9 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
         youtubeTrackId: payload.provider === 'youtube' ? payload.providerTrackId : prev.youtubeTrackId,
         autoplaySpotify: payload.provider === 'spotify' ? payload.autoplay ?? true : false,
         autoplayYoutube: payload.provider === 'youtube' ? payload.autoplay ?? true : false,
+        loop: null,
+        loopMarkerMs: null,
+        handoff: null,
       };
       return { ...prev, ...updates };
     });
@@ -570,6 +730,9 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
       youtubeTrackId: null,
       autoplaySpotify: false,
       autoplayYoutube: false,
+      loop: null,
+      loopMarkerMs: null,
+      handoff: null,
     }));
   }, []);
 
@@ -581,15 +744,22 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
     setState((prev) => ({ ...prev, youtubeOpen: false, autoplayYoutube: false }));
   }, []);
 
-  const switchProvider = useCallback((provider: MusicProvider, providerTrackId: string | null, canonicalTrackId?: string | null) => {
+  const switchProvider = useCallback((provider: MusicProvider, providerTrackId: string | null, canonicalTrackId?: string | null, hint: HandoffHint = {}) => {
     const prevProvider = activeProviderRef.current;
-    const handoffStartSec = Math.floor(Math.max(0, state.positionMs) / 1000);
     if (prevProvider && prevProvider !== provider) {
       void stopActiveProvider(prevProvider, providerControlsRef);
     }
 
     setState((prev) => {
-      const updates: Partial<PlayerState> = {
+      const from = prev.provider && prev.provider !== provider
+        ? { provider: prev.provider, trackId: prev.trackId, positionMs: prev.positionMs, durationMs: prev.durationMs, loop: prev.loop }
+        : null;
+      const timing = from && { ...hint, sourceDurationMs: from.durationMs };
+      const startMs = timing ? mapHandoffPosition(prev.positionMs, timing).positionMs : prev.positionMs;
+
+      return {
+        ...prev,
+        ...providerOpenUpdates(provider, providerTrackId),
         canonicalTrackId: canonicalTrackId ?? prev.canonicalTrackId,
         provider,
         trackId: providerTrackId ?? prev.trackId,
@@ -601,24 +771,12 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
         isCinema: false,
         isPlaying: true,
         isMuted: false,
-        seekToSec: handoffStartSec,
+        seekToSec: startMs / 1000,
+        positionMs: startMs,
+        durationMs: from ? 0 : prev.durationMs, // The next duration reported is the target's
+        loop: timing ? handoffLoop(prev.loop, timing) : prev.loop,
+        handoff: from ? { from, to: provider, startMs, hint, status: 'pending' } : null,
       };
-
-      if (provider === 'spotify') {
-        updates.spotifyOpen = true;
-        updates.spotifyTrackId = providerTrackId;
-        updates.autoplaySpotify = true;
-        updates.youtubeOpen = false;
-        updates.autoplayYoutube = false;
-      } else {
-        updates.youtubeOpen = true;
-        updates.youtubeTrackId = providerTrackId;
-        updates.autoplayYoutube = true;
-        updates.spotifyOpen = false;
-        updates.autoplaySpotify = false;
-      }
-
-      return { ...prev, ...updates };
     });
 
     const trackIdToLog = canonicalTrackId ?? state.canonicalTrackId;
@@ -632,7 +790,94 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
         console.error('Failed to record provider switch event', err);
       });
     }
-  }, [state.canonicalTrackId, state.provider]);
+  }, [state.canonicalTrackId]);
+
+  // Target failed or stayed silent: resume on the source where the listener left off
+  const failHandoff = useCallback(() => {
+    const handoff = handoffRef.current;
+    if (handoff?.status !== 'pending') return;
+    void stopActiveProvider(handoff.to, providerControlsRef);
+    console.warn(`[Player] handoff to ${handoff.to} failed; resuming on ${handoff.from.provider}`);
+
+    setState((prev) => {
+      if (prev.handoff !== handoff) return prev;
+      return {
+        ...prev,
+        ...providerOpenUpdates(handoff.from.provider, handoff.from.trackId),
+        provider: handoff.from.provider,
+        trackId: handoff.from.trackId,
+        isPlaying: true,
+        seekToSec: handoff.from.positionMs / 1000,
+        positionMs: handoff.from.positionMs,
+        durationMs: handoff.from.durationMs,
+        loop: settleHandoffLoop(prev.loop, handoff, handoff.from.loop),
+        handoff: { ...handoff, status: 'failed' },
+      };
+    });
+  }, []);
+
+  const reportProviderStatus = useCallback((provider: MusicProvider, status: ProviderStatus) => {
+    const handoff = handoffRef.current;
+    if (handoff?.status !== 'pending' || handoff.to !== provider) return;
+    if (status === 'failed') {
+      failHandoff();
+    } else {
+      // Plays, but can't be positioned: nothing to carry over or fall back from
+      setState((prev) => ({ ...prev, handoff: null }));
+    }
+  }, [failHandoff]);
+
+  // Complete a handoff once the target reports its duration: re-map with the
+  // real duration and correct the provisional start (and loop) if the edits differ
+  useEffect(() => {
+    const handoff = state.handoff;
+    if (handoff?.status !== 'pending' || state.provider !== handoff.to || state.durationMs <= 0) return;
+
+    const timing = { ...handoff.hint, sourceDurationMs: handoff.from.durationMs, targetDurationMs: state.durationMs };
+    const mapped = mapHandoffPosition(handoff.from.positionMs, timing);
+    if (Math.abs(mapped.positionMs - handoff.startMs) > HANDOFF_CONFIG.CORRECTION_TOLERANCE_MS) {
+      Promise.resolve(providerControlsRef.current[handoff.to]?.seekTo(mapped.positionMs / 1000)).catch((err) => {
+        console.warn('[Player] handoff correction failed', err);
+      });
+    }
+    const loop = handoffLoop(handoff.from.loop, timing);
+    setState((prev) => ({ ...prev, loop: settleHandoffLoop(prev.loop, handoff, loop), handoff: null }));
+  }, [state.handoff, state.provider, state.durationMs]);
+
+  useEffect(() => {
+    if (state.handoff?.status !== 'pending') return;
+    const timer = window.setTimeout(failHandoff, HANDOFF_CONFIG.READY_TIMEOUT_MS);
+    return () => window.clearTimeout(timer);
+  }, [state.handoff, failHandoff]);
+
+  // Loop engine: re-seek the active provider when playback reaches B.
+  // Loops survive provider switches; the new provider's controls take over.
+  useEffect(() => {
+    if (!state.provider || !state.isPlaying) return;
+    const seekMs = stepLoop(state.positionMs);
+    if (seekMs === null) return;
+    Promise.resolve(providerControlsRef.current[state.provider]?.seekTo(seekMs / 1000)).catch((err) => {
+      console.warn('[Player] loop seek failed', err);
+    });
+  }, [state.positionMs, state.provider, state.isPlaying, stepLoop]);
+
+  // A pending loop seek times out even when positions stop coming (a preview
+  // that ended before A stops playback too): re-issue it or give the loop up
+  useEffect(() => {
+    const loop = state.loop;
+    const provider = state.provider;
+    if (!loop?.awaitingSeek || !provider) return;
+
+    const delay = Math.max(0, loop.seekIssuedAt + AB_LOOP_CONFIG.SEEK_TIMEOUT_MS - Date.now());
+    const timer = window.setTimeout(() => {
+      const seekMs = stepLoop(positionMsRef.current);
+      if (seekMs === null) return;
+      Promise.resolve(providerControlsRef.current[provider]?.seekTo(seekMs / 1000)).catch((err) => {
+        console.warn('[Player] loop seek failed', err);
+      });
+    }, delay);
+    return () => window.clearTimeout(timer);
+  }, [state.loop, state.provider, stepLoop]);
 
   const isOpen = !!state.provider && !!state.trackId;
 
@@ -696,6 +941,7 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
     closeSpotify,
     closeYoutube,
     switchProvider,
+    reportProviderStatus,
     seekTo,
     seekToMs,
     clearSeek,
@@ -703,6 +949,12 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
     setVolumeLevel,
     toggleMute,
     setCurrentSection,
+    setLoop,
+    clearLoop,
+    markLoopPoint,
+    setLoopOptions,
+    stepLoop,
+    setDuration,
     setIsPlaying,
     setMinimized,
     collapseToMini,
@@ -713,14 +965,17 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
     registerProviderControls,
     updatePlaybackState,
     addToQueue,
+    playNext,
     playFromQueue,
     removeFromQueue,
     reorderQueue,
     clearQueue,
     shuffleQueue,
+    undoQueue,
+    setAutoDj,
     nextTrack,
     previousTrack,
-  }), [state, isOpen, openPlayer, play, pause, stop, closePlayer, closeSpotify, closeYoutube, switchProvider, seekTo, seekToMs, clearSeek, togglePlayPause, setVolumeLevel, toggleMute, setCurrentSection, setIsPlaying, setMinimized, collapseToMini, restoreFromMini, setMiniPosition, enterCinema, exitCinema, registerProviderControls, updatePlaybackState, addToQueue, playFromQueue, removeFromQueue, reorderQueue, clearQueue, shuffleQueue, nextTrack, previousTrack]);
+  }), [state, isOpen, openPlayer, play, pause, stop, closePlayer, closeSpotify, closeYoutube, switchProvider, reportProviderStatus, seekTo, seekToMs, clearSeek, togglePlayPause, setVolumeLevel, toggleMute, setCurrentSection, setLoop, clearLoop, markLoopPoint, setLoopOptions, stepLoop, setDuration, setIsPlaying, setMinimized, collapseToMini, restoreFromMini, setMiniPosition, enterCinema, exitCinema, registerProviderControls, updatePlaybackState, addToQueue, playNext, playFromQueue, removeFromQueue, reorderQueue, clearQueue, shuffleQueue, undoQueue, setAutoDj, nextTrack, previousTrack]);
 
   return <PlayerContext.Provider value={value}>{children}</PlayerContext.Provider>;
 }
@@ -1,37 +1,46 @@
-import { useState } from 'react';
+import type { ReactNode } from 'react';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
-import { Track } from '@/types';
-import { Music, X, Play, GripVertical, Shuffle, SkipForward } from 'lucide-react';
+import { queueSections, type QueueEntry, type QueueSnapshot } from '@/lib/queueModel';
+import { Music, X, Play, GripVertical, Shuffle, SkipForward, Sparkles, Loader2, ListPlus, Undo2 } from 'lucide-react';
 import { motion, Reorder } from 'framer-motion';
 
 interface QueueSheetProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  queue: Track[];
-  currentIndex: number;
+  queue: QueueSnapshot;
   onPlayTrack: (index: number) => void;
-  onRemoveTrack: (index: number) => void;
-  onReorderQueue: (newQueue: Track[]) => void;
+  onRemoveTrack: (uid: string) => void;
+  onReorderQueue: (uids: string[]) => void; // Every upcoming entry, in order
   onClearQueue: () => void;
   onShuffleQueue: () => void;
+  canUndo?: boolean;
+  onUndo?: () => void;
+  autoDj?: boolean;
+  autoDjLoading?: boolean;
+  onToggleAutoDj?: () => void;
 }
 
 export function QueueSheet({
   open,
   onOpenChange,
   queue,
-  currentIndex,
   onPlayTrack,
   onRemoveTrack,
   onReorderQueue,
   onClearQueue,
   onShuffleQueue,
+  canUndo = false,
+  onUndo,
+  autoDj = false,
+  autoDjLoading = false,
+  onToggleAutoDj,
 }: QueueSheetProps) {
-  const currentTrack = queue[currentIndex];
-  const upNext = queue.slice(currentIndex + 1);
-  const previous = queue.slice(0, currentIndex);
+  const { history: previous, current, userAdded, upNext } = queueSections(queue);
+  const currentTrack = current?.track;
+  const upcomingCount = userAdded.length + upNext.length;
+  const positionOf = (entry: QueueEntry) => queue.entries.indexOf(entry);
 
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
@@ -42,30 +51,60 @@ export function QueueSheet({
             Queue
           </SheetTitle>
           <SheetDescription>
-            {queue.length === 0 ? 'No tracks in queue' : `${queue.length} track${queue.length === 1 ? '' : 's'} • ${upNext.length} up next`}
+            {queue.entries.length === 0 ? 'No tracks in queue' : `${queue.entries.length} track${queue.entries.length === 1 ? '' : 's'} • ${upcomingCount} up next`}
           </SheetDescription>
         </SheetHeader>
 
-        {queue.length > 0 && (
+        {(queue.entries.length > 0 || onToggleAutoDj) && (
           <div className="px-6 py-3 border-b flex gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={onShuffleQueue}
-              className="flex-1"
-            >
-              <Shuffle className="w-4 h-4 mr-2" />
-              Shuffle
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={onClearQueue}
-              className="flex-1"
-            >
-              <X className="w-4 h-4 mr-2" />
-              Clear
-            </Button>
+            {onToggleAutoDj && (
+              <Button
+                variant={autoDj ? 'default' : 'outline'}
+                size="sm"
+                onClick={onToggleAutoDj}
+                className="flex-1"
+                aria-pressed={autoDj}
+                title="Keep the queue going with tracks that mix smoothly by key and tempo"
+              >
+                {autoDjLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+                Auto-DJ
+              </Button>
+            )}
+            {queue.entries.length > 0 && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onShuffleQueue}
+                  className="flex-1"
+                >
+                  <Shuffle className="w-4 h-4 mr-2" />
+                  Shuffle
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onClearQueue}
+                  className="flex-1"
+                >
+                  <X className="w-4 h-4 mr-2" />
+                  Clear
+                </Button>
+              </>
+            )}
+            {onUndo && (
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={onUndo}
+                disabled={!canUndo}
+                className="h-9 w-9 flex-shrink-0"
+                aria-label="Undo last queue change"
+                title="Undo"
+              >
+                <Undo2 className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         )}
 
@@ -99,80 +138,34 @@ export function QueueSheet({
               </div>
             )}
 
+            {/* Added by the user: plays before up next */}
+            <UpcomingSection
+              title="Next in Queue"
+              icon={<ListPlus className="w-4 h-4" />}
+              entries={userAdded}
+              onReorder={(order) => onReorderQueue([...order, ...upNext].map((e) => e.uid))}
+              onPlay={(entry) => onPlayTrack(positionOf(entry))}
+              onRemove={onRemoveTrack}
+            />
+
             {/* Up Next */}
-            {upNext.length > 0 && (
-              <div>
-                <h3 className="text-sm font-medium text-muted-foreground mb-3 flex items-center gap-2">
-                  <SkipForward className="w-4 h-4" />
-                  Up Next
-                </h3>
-                <Reorder.Group
-                  axis="y"
-                  values={upNext}
-                  onReorder={(newOrder) => {
-                    const reordered = [...previous, currentTrack, ...newOrder];
-                    onReorderQueue(reordered);
-                  }}
-                  className="space-y-2"
-                >
-                  {upNext.map((track, idx) => (
-                    <Reorder.Item
-                      key={track.id}
-                      value={track}
-                      className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50 cursor-grab active:cursor-grabbing group"
-                    >
-                      <GripVertical className="w-4 h-4 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
-                      {track.cover_url ? (
-                        <img
-                          src={track.cover_url}
-                          alt={track.title}
-                          className="w-10 h-10 rounded object-cover"
-                        />
-                      ) : (
-                        <div className="w-10 h-10 rounded bg-muted flex items-center justify-center">
-                          <Music className="w-5 h-5 text-muted-foreground" />
-                        </div>
-                      )}
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium text-sm truncate">{track.title}</p>
-                        <p className="text-xs text-muted-foreground truncate">{track.artist}</p>
-                      </div>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="w-8 h-8 opacity-0 group-hover:opacity-100 transition-opacity"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onPlayTrack(currentIndex + 1 + idx);
-                        }}
-                      >
-                        <Play className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="w-8 h-8 opacity-0 group-hover:opacity-100 transition-opacity"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onRemoveTrack(currentIndex + 1 + idx);
-                        }}
-                      >
-                        <X className="w-4 h-4" />
-                      </Button>
-                    </Reorder.Item>
-                  ))}
-                </Reorder.Group>
-              </div>
-            )}
+            <UpcomingSection
+              title="Up Next"
+              icon={<SkipForward className="w-4 h-4" />}
+              entries={upNext}
+              onReorder={(order) => onReorderQueue([...userAdded, ...order].map((e) => e.uid))}
+              onPlay={(entry) => onPlayTrack(positionOf(entry))}
+              onRemove={onRemoveTrack}
+            />
 
             {/* Previously Played */}
             {previous.length > 0 && (
               <div>
                 <h3 className="text-sm font-medium text-muted-foreground mb-3">Previously Played</h3>
                 <div className="space-y-2 opacity-60">
-                  {previous.map((track, idx) => (
+                  {previous.map(({ uid, track }, idx) => (
                     <div
-                      key={`prev-${track.id}-${idx}`}
+                      key={uid}
                       className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/30"
                     >
                       {track.cover_url ? (
@@ -205,14 +198,14 @@ export function QueueSheet({
             )}
 
             {/* Empty State */}
-            {queue.length === 0 && (
+            {queue.entries.length === 0 && (
               <div className="text-center py-12 px-4">
                 <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-4">
                   <Music className="w-8 h-8 text-muted-foreground" />
                 </div>
                 <h3 className="text-lg font-semibold mb-2">No tracks in queue</h3>
                 <p className="text-sm text-muted-foreground">
-                  Start playing tracks to build your queue
+                  {autoDj ? 'Auto-DJ picks up from the track you play next' : 'Start playing tracks to build your queue'}
                 </p>
               </div>
             )}
@@ -222,3 +215,83 @@ export function QueueSheet({
     </Sheet>
   );
 }
+
+interface UpcomingSectionProps {
+  title: string;
+  icon: ReactNode;
+  entries: QueueEntry[];
+  onReorder: (entries: QueueEntry[]) => void;
+  onPlay: (entry: QueueEntry) => void;
+  onRemove: (uid: string) => void;
+}
+
+// Drag to reorder within the section; each section keeps its own order
+function UpcomingSection({ title, icon, entries, onReorder, onPlay, onRemove }: UpcomingSectionProps) {
+  if (entries.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-muted-foreground mb-3 flex items-center gap-2">
+        {icon}
+        {title}
+      </h3>
+      <Reorder.Group axis="y" values={entries} onReorder={onReorder} className="space-y-2">
+        {entries.map((entry) => {
+          const { track, reason } = entry;
+          return (
+            <Reorder.Item
+              key={entry.uid}
+              value={entry}
+              className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50 cursor-grab active:cursor-grabbing group"
+            >
+              <GripVertical className="w-4 h-4 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
+              {track.cover_url ? (
+                <img
+                  src={track.cover_url}
+                  alt={track.title}
+                  className="w-10 h-10 rounded object-cover"
+                />
+              ) : (
+                <div className="w-10 h-10 rounded bg-muted flex items-center justify-center">
+                  <Music className="w-5 h-5 text-muted-foreground" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-sm truncate">{track.title}</p>
+                <p className="text-xs text-muted-foreground truncate">{track.artist}</p>
+                {reason && (
+                  <p className="flex items-center gap-1 text-[11px] text-primary/80 truncate" title={reason}>
+                    <Sparkles className="w-3 h-3 flex-shrink-0" />
+                    {reason}
+                  </p>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="w-8 h-8 opacity-0 group-hover:opacity-100 transition-opacity"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onPlay(entry);
+                }}
+              >
+                <Play className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="w-8 h-8 opacity-0 group-hover:opacity-100 transition-opacity"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove(entry.uid);
+                }}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </Reorder.Item>
+          );
+        })}
+      </Reorder.Group>
+    </div>
+  );
+}
@@ -127,6 +127,7 @@ export function SpotifyEmbedPreview({ providerTrackId, autoplay }: SpotifyEmbedP
     registerProviderControls,
     updatePlaybackState,
     setDuration,
+    reportProviderStatus,
   } = usePlayer();
 
   const playerRef = useRef<SpotifyPlayer | null>(null);
@@ -153,6 +154,7 @@ export function SpotifyEmbedPreview({ providerTrackId, autoplay }: SpotifyEmbedP
     // Guest / no token: fall back to lightweight iframe embed
     if (!user?.id) {
       setUseEmbedFallback(true);
+      reportProviderStatus('spotify', 'uncontrolled');
       if (!registeredFallbackControls) {
         registerProviderControls('spotify', {
           play: async () => {},
@@ -182,6 +184,7 @@ export function SpotifyEmbedPreview({ providerTrackId, autoplay }: SpotifyEmbedP
         tokenRef.current = token;
         if (!token) {
           setUseEmbedFallback(true);
+          reportProviderStatus('spotify', 'uncontrolled');
           if (!registeredFallbackControls) {
             registerProviderControls('spotify', {
               play: async () => {},
@@ -216,7 +219,9 @@ export function SpotifyEmbedPreview({ providerTrackId, autoplay }: SpotifyEmbedP
             if (providerTrackId && lastTrackStarted.id !== providerTrackId) {
               lastTrackStarted.id = providerTrackId;
               const transferred = await transferPlayback(device_id, token, shouldPlay);
-              await startPlayback(device_id, token, providerTrackId, seekToSec ?? 0, transferred);
+              if (!(await startPlayback(device_id, token, providerTrackId, seekToSec ?? 0, transferred))) {
+                reportProviderStatus('spotify', 'failed');
+              }
             }
           });
 
@@ -318,6 +323,7 @@ export function SpotifyEmbedPreview({ providerTrackId, autoplay }: SpotifyEmbedP
             await player.pause();
           },
           seekTo: async (seconds: number) => {
+            lastPositionRef.current = seconds * 1000; // Let position move back (loops, rewinds)
             await player.seek(seconds * 1000);
           },
           setVolume: async (vol: number) => {
@@ -342,6 +348,7 @@ export function SpotifyEmbedPreview({ providerTrackId, autoplay }: SpotifyEmbedP
       } catch (err) {
         console.error('Spotify SDK setup failed', err);
         setUseEmbedFallback(true);
+        reportProviderStatus('spotify', 'uncontrolled');
       }
     };
 
@@ -353,13 +360,14 @@ export function SpotifyEmbedPreview({ providerTrackId, autoplay }: SpotifyEmbedP
       playerRef.current = null;
       setReady(false);
     };
-  }, [provider, providerTrackId, user?.id, autoplay, autoplaySpotify, registerProviderControls, updatePlaybackState, seekToSec, isMuted]);
+  }, [provider, providerTrackId, user?.id, autoplay, autoplaySpotify, registerProviderControls, updatePlaybackState, reportProviderStatus, seekToSec, isMuted]);
 
   // Handle external seek commands
   useEffect(() => {
     if (provider !== 'spotify') return;
     if (seekToSec == null) return;
     if (playerRef.current) {
+      lastPositionRef.current = seekToSec * 1000;
       playerRef.current.seek(seekToSec * 1000).catch(() => {});
     }
     clearSeek();
@@ -377,16 +385,18 @@ export function SpotifyEmbedPreview({ providerTrackId, autoplay }: SpotifyEmbedP
 
     const shouldPlay = autoplay ?? autoplaySpotify ?? false;
     if (!shouldPlay) return;
-    void transferPlayback(device, token, true).then((transferred) => {
-      void startPlayback(device, token, providerTrackId, seekToSec ?? 0, transferred);
-    });
+    void transferPlayback(device, token, true)
+      .then((transferred) => startPlayback(device, token, providerTrackId, seekToSec ?? 0, transferred))
+      .then((started) => {
+        if (!started) reportProviderStatus('spotify', 'failed');
+      });
     
     // Ensure audible volume after transfer
     if (playerRef.current && !isMuted) {
       const vol = Math.max(volumeRef.current, MIN_AUDIBLE_VOLUME);
       playerRef.current.setVolume(vol).catch(() => {});
     }
-  }, [provider, providerTrackId, ready, autoplay, autoplaySpotify, seekToSec, isMuted, useEmbedFallback]);
+  }, [provider, providerTrackId, ready, autoplay, autoplaySpotify, seekToSec, isMuted, useEmbedFallback, reportProviderStatus]);
 
   if (provider !== 'spotify' || !providerTrackId) return null;
 
@@ -431,7 +441,7 @@ async function transferPlayback(deviceId: string, token: string, play: boolean)
   }
 }
 
-async function startPlayback(deviceId: string, token: string, trackId: string, startSec: number, transferred: boolean) {
+async function startPlayback(deviceId: string, token: string, trackId: string, startSec: number, transferred: boolean): Promise<boolean> {
   try {
     const res = await fetch(`https://api.spotify.com/v1/me/player/play?device_id=${deviceId}`, {
       method: 'PUT',
@@ -447,11 +457,13 @@ async function startPlayback(deviceId: string, token: string, trackId: string, s
     if (!res.ok) {
       const body = await safeText(res);
       console.warn(`[Spotify] Start playback failed: ${res.status} ${res.statusText} transferred=${transferred} body=${body}`);
-    } else {
-      console.log('[Spotify] Start playback successful for track:', trackId);
+      return false;
     }
+    console.log('[Spotify] Start playback successful for track:', trackId);
+    return true;
   } catch (err) {
     console.error('[Spotify] Failed to start playback', err);
+    return false;
   }
 }
 
@@ -1,4 +1,4 @@
-import { useEffect, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
 import { usePlayer } from '../PlayerContext';
 
 interface YouTubePlayerProps {
@@ -6,11 +6,33 @@ interface YouTubePlayerProps {
   autoplay?: boolean;
 }
 
+const YOUTUBE_ORIGIN = 'https://www.youtube.com';
+
+// Subset of the iframe API's infoDelivery payload
+interface YouTubeInfo {
+  currentTime?: number; // seconds
+  duration?: number; // seconds
+}
+
 /**
  * Iframe-only YouTube embed for fastest load and no SDK contention.
+ * Controlled over the iframe API's postMessage channel (no script load):
+ * commands go in, position and duration come back.
  */
 export function YouTubePlayer({ providerTrackId, autoplay }: YouTubePlayerProps) {
-  const { provider, isMuted, registerProviderControls, updatePlaybackState, clearSeek, setDuration } = usePlayer();
+  const {
+    provider,
+    isMuted,
+    seekToSec,
+    registerProviderControls,
+    updatePlaybackState,
+    clearSeek,
+    setDuration,
+    reportProviderStatus,
+  } = usePlayer();
+  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+  const readyRef = useRef(false);
+  const pendingSeekRef = useRef<number | null>(null);
 
   // Browsers will often block autoplay on unmuted YouTube iframes; force mute when autoplaying
   // to maximize successful start, while still honoring explicit mute state when set.
@@ -26,33 +48,108 @@ export function YouTubePlayer({ providerTrackId, autoplay }: YouTubePlayerProps)
       playsinline: '1',
       controls: '1',
       rel: '0',
+      enablejsapi: '1',
+      origin: window.location.origin,
     });
     return `${base}?${params.toString()}`;
   }, [providerTrackId, shouldAutoplay, shouldMute]);
 
+  const command = useCallback((func: string, args: unknown[] = []) => {
+    iframeRef.current?.contentWindow?.postMessage(JSON.stringify({ event: 'command', func, args }), YOUTUBE_ORIGIN);
+  }, []);
+
+  const seek = useCallback((seconds: number) => {
+    if (!readyRef.current) {
+      pendingSeekRef.current = seconds;
+      return;
+    }
+    command('seekTo', [seconds, true]);
+  }, [command]);
+
+  // Ask the embed to start sending events; it replies once per load
+  const handleLoad = useCallback(() => {
+    readyRef.current = false;
+    iframeRef.current?.contentWindow?.postMessage(
+      JSON.stringify({ event: 'listening', id: 'clade-youtube', channel: 'widget' }),
+      YOUTUBE_ORIGIN
+    );
+  }, []);
+
+  useEffect(() => {
+    if (provider !== 'youtube') return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== YOUTUBE_ORIGIN || event.source !== iframeRef.current?.contentWindow) return;
+
+      let data: { event?: string; info?: YouTubeInfo | null };
+      try {
+        data = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
+      } catch {
+        return;
+      }
+
+      // Unavailable, private or not embeddable
+      if (data.event === 'onError') {
+        reportProviderStatus('youtube', 'failed');
+        return;
+      }
+
+      if (!readyRef.current && (data.event === 'onReady' || data.event === 'initialDelivery')) {
+        readyRef.current = true;
+        if (pendingSeekRef.current !== null) {
+          command('seekTo', [pendingSeekRef.current, true]);
+          pendingSeekRef.current = null;
+        }
+      }
+
+      const info = data.info;
+      if (!info || (data.event !== 'infoDelivery' && data.event !== 'initialDelivery')) return;
+      // Play state stays app-driven: autoplay is part of the embed URL, so
+      // echoing buffering/paused back would reload the iframe
+      updatePlaybackState({
+        positionMs: typeof info.currentTime === 'number' ? info.currentTime * 1000 : undefined,
+        durationMs: typeof info.duration === 'number' && info.duration > 0 ? info.duration * 1000 : undefined,
+      });
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [provider, command, updatePlaybackState, reportProviderStatus]);
+
   useEffect(() => {
     if (provider !== 'youtube') return;
     registerProviderControls('youtube', {
-      play: async () => {},
-      pause: async () => {},
-      seekTo: async () => {},
-      setVolume: async () => {},
-      setMute: async () => {},
-      teardown: async () => {},
+      play: async (startSec) => {
+        if (startSec != null) seek(startSec);
+        command('playVideo');
+      },
+      pause: async () => command('pauseVideo'),
+      seekTo: async (seconds) => seek(seconds),
+      setVolume: async (volume) => command('setVolume', [Math.round(volume * 100)]),
+      setMute: async (muted) => command(muted ? 'mute' : 'unMute'),
+      teardown: async () => command('stopVideo'),
     });
-    // Mark playback as starting immediately to avoid UI lag; simulate duration if unknown
-    updatePlaybackState({ isPlaying: !!autoplay, positionMs: 0 });
+    // Mark playback as starting immediately to avoid UI lag; position and duration arrive with the first infoDelivery
+    updatePlaybackState({ isPlaying: !!autoplay });
     setDuration(0);
+  }, [provider, providerTrackId, registerProviderControls, updatePlaybackState, setDuration, command, seek, shouldAutoplay]);
+
+  // Handle external seek commands (section jumps, loop starts); held until the embed is ready
+  useEffect(() => {
+    if (provider !== 'youtube' || seekToSec == null) return;
+    seek(seekToSec);
     clearSeek();
-  }, [provider, registerProviderControls, updatePlaybackState, clearSeek, shouldAutoplay]);
+  }, [provider, seekToSec, seek, clearSeek]);
 
   if (provider !== 'youtube' || !providerTrackId) return null;
 
   return (
     <div className="w-full bg-black rounded-xl overflow-hidden aspect-video">
       <iframe
+        ref={iframeRef}
         title="YouTube player"
         src={src}
+        onLoad={handleLoad}
         allow="autoplay; encrypted-media; picture-in-picture"
         allowFullScreen
         className="w-full h-full border-0"
@@ -2,7 +2,7 @@
  * YouTube Video Player (WATCH mode)
  * 
  * Full video player with visible video for background/watch mode.
- * Supports seek via PlayerContext for section navigation.
+ * Supports seek via PlayerContext for section navigation and A/B loops.
  * Uses YouTube IFrame API for full control.
  */
 
@@ -98,7 +98,9 @@ export function YouTubeVideoPlayer({
   const playerRef = useRef<YTPlayer | null>(null);
   const timeUpdateInterval = useRef<number | null>(null);
   const [isReady, setIsReady] = useState(false);
-  const { seekToSec, clearSeek } = usePlayer();
+  const { seekToSec, clearSeek, stepLoop } = usePlayer();
+  const stepLoopRef = useRef(stepLoop);
+  stepLoopRef.current = stepLoop;
 
   // Initialize player
   useEffect(() => {
@@ -141,11 +143,15 @@ export function YouTubeVideoPlayer({
             const isPlaying = event.data === window.YT.PlayerState.PLAYING;
             onStateChange?.(isPlaying);
 
-            // Start/stop time updates
-            if (isPlaying && onTimeUpdate) {
+            // Start/stop time updates (also drive any active loop)
+            if (isPlaying) {
+              if (timeUpdateInterval.current) return;
               timeUpdateInterval.current = window.setInterval(() => {
                 if (playerRef.current) {
-                  onTimeUpdate(playerRef.current.getCurrentTime());
+                  const currentTime = playerRef.current.getCurrentTime();
+                  onTimeUpdate?.(currentTime);
+                  const loopSeekMs = stepLoopRef.current(currentTime * 1000);
+                  if (loopSeekMs !== null) playerRef.current.seekTo(loopSeekMs / 1000, true);
                 }
               }, 250);
             } else if (timeUpdateInterval.current) {
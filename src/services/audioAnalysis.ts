@@ -1,33 +1,33 @@
 /**
- * Audio Analysis Service (v0 - Stub Implementation)
+ * Audio Analysis Service (v1 - Chroma DSP)
  * 
- * This is a placeholder for the actual ML pipeline.
- * Real implementation will use Essentia.js or similar for:
- * - Chroma feature extraction
- * - Key/mode detection
- * - Chord progression identification
- * - Section boundary detection
+ * Produces a real HarmonicFingerprint from decoded PCM using the
+ * pure-TypeScript pipeline in `@/lib/harmonicDsp`:
+ * - Chroma feature extraction (STFT → chromagram)
+ * - Key/mode detection (Krumhansl-Kessler profiles)
+ * - Chord identification (template matching + Viterbi smoothing)
+ * - Beat tracking and loop detection (beat-synchronous Roman numerals)
+ * - Perceptual audio hash + chromaprint (same recording across encodings)
  * 
- * CURRENT STATUS: Mock implementation with realistic confidence scoring
- * TODO: Integrate Essentia.js or ML model API
+ * Results below the high-confidence threshold stay provisional.
  */
 
-import type { HarmonicFingerprint, RomanChord, RelativeTonalCenter } from '@/types/harmony';
+import type { HarmonicFingerprint } from '@/types/harmony';
+import {
+  analyzePcm,
+  buildHarmonicFingerprint,
+  computeAudioFingerprint,
+  decodeWav,
+  mixToMono,
+  type PcmAudio,
+} from '@/lib/harmonicDsp';
 
 interface AudioAnalysisInput {
   track_id: string;
   audio_url?: string;
-  audio_hash?: string;
   isrc?: string;
   duration_ms?: number;
-}
-
-interface AudioFeatures {
-  chroma: number[][]; // Chromagram (12 x frames)
-  key_candidates: Array<{ key: string; confidence: number }>;
-  tempo: number;
-  loudness: number;
-  spectral_centroid: number;
+  pcm?: PcmAudio; // Already-decoded audio (skips fetching)
 }
 
 /**
@@ -36,228 +36,93 @@ interface AudioFeatures {
 export async function analyzeAudioTrack(
   input: AudioAnalysisInput
 ): Promise<HarmonicFingerprint> {
-  const { track_id, audio_url, audio_hash, isrc } = input;
+  const { track_id, audio_url, isrc } = input;
 
-  // Step 1: Fetch audio file
-  const audioBuffer = await fetchAudioBuffer(audio_url);
-  if (!audioBuffer) {
+  // Step 1: Fetch and decode audio
+  const pcm = input.pcm ?? (await fetchAudioBuffer(audio_url));
+  if (!pcm) {
     throw new Error('Failed to fetch audio');
   }
 
-  // Step 2: Extract audio features
-  const features = await extractAudioFeatures(audioBuffer);
-
-  // Step 3: Detect key and mode
-  const tonalCenter = detectTonalCenter(features);
-
-  // Step 4: Identify chord progression
-  const progression = identifyChordProgression(features, tonalCenter);
-
-  // Step 5: Detect loop boundaries
-  const loopLength = detectLoopLength(features);
-
-  // Step 6: Classify cadence type
-  const cadence = classifyCadence(progression);
+  // Step 2-5: Chroma → key → chords → beats → loop
+  const analysis = analyzePcm(pcm);
 
-  // Step 7: Calculate confidence
-  const confidence = calculateConfidence(features, tonalCenter, progression);
+  // Step 6: Perceptual identity, so re-encodes resolve to the same analysis
+  const identity = computeAudioFingerprint(pcm);
 
-  const fingerprint: HarmonicFingerprint = {
-    track_id,
-    audio_hash: audio_hash ?? null,
-    isrc: isrc ?? null,
-    tonal_center: tonalCenter,
-    roman_progression: progression,
-    loop_length_bars: loopLength,
-    cadence_type: cadence,
-    confidence_score: confidence,
-    analysis_timestamp: new Date().toISOString(),
-    analysis_version: '1.0.0-stub',
-    is_provisional: true, // Mark as provisional until real ML integrated
-    detected_key: tonalCenter ? getAbsoluteKey(tonalCenter) : undefined,
-    detected_mode: tonalCenter?.mode ?? 'major',
+  return {
+    ...buildHarmonicFingerprint(analysis, { track_id, audio_hash: identity.audio_hash, isrc }),
+    audio_hash_bands: identity.hash_bands,
+    chromaprint: identity.chromaprint,
   };
-
-  return fingerprint;
 }
 
 // ============================================================================
-// AUDIO PROCESSING (Stubs for ML Integration)
+// AUDIO DECODING
 // ============================================================================
 
 /**
- * Fetch audio file
- * TODO: Implement actual audio fetching from Spotify/YouTube
+ * Fetch and decode an audio file to mono PCM
+ * WAV is decoded in pure TypeScript; other formats need Web Audio
  */
-async function fetchAudioBuffer(audioUrl?: string): Promise<AudioBuffer | null> {
+async function fetchAudioBuffer(audioUrl?: string): Promise<PcmAudio | null> {
   if (!audioUrl) {
-    console.warn('[AudioAnalysis] No audio URL provided, using mock');
+    console.warn('[AudioAnalysis] No audio URL provided');
     return null;
   }
 
-  // TODO: Fetch and decode audio
-  // const response = await fetch(audioUrl);
-  // const arrayBuffer = await response.arrayBuffer();
-  // const audioContext = new AudioContext();
-  // return await audioContext.decodeAudioData(arrayBuffer);
-
-  return null; // Stub
-}
-
-/**
- * Extract chroma features from audio
- * TODO: Integrate Essentia.js for real chroma extraction
- */
-async function extractAudioFeatures(audioBuffer: AudioBuffer | null): Promise<AudioFeatures> {
-  // TODO: Real implementation with Essentia.js
-  // import Essentia from 'essentia.js';
-  // const essentia = new Essentia();
-  // const chromagram = essentia.Chromagram(audioBuffer);
-  // const keyDetector = essentia.KeyExtractor(audioBuffer);
-
-  // Mock features for now
-  return {
-    chroma: Array(12).fill(0).map(() => Array(100).fill(0).map(() => Math.random())),
-    key_candidates: [
-      { key: 'C', confidence: 0.75 },
-      { key: 'G', confidence: 0.15 },
-      { key: 'F', confidence: 0.10 },
-    ],
-    tempo: 120,
-    loudness: -8.0,
-    spectral_centroid: 1500,
-  };
-}
-
-/**
- * Detect tonal center (key + mode)
- * TODO: Use ML model or Essentia.js KeyExtractor
- */
-function detectTonalCenter(features: AudioFeatures): RelativeTonalCenter {
-  // Use key candidate with highest confidence
-  const topKey = features.key_candidates[0];
-
-  // TODO: Real key detection
-  // For now, use mock result
-  return {
-    root_interval: 0, // C = 0, C# = 1, D = 2, etc.
-    mode: 'major', // or 'minor', 'dorian', etc.
-    stability_score: topKey.confidence,
-  };
-}
-
-/**
- * Identify chord progression from chroma features
- * TODO: Implement ML-based chord recognition
- */
-function identifyChordProgression(
-  features: AudioFeatures,
-  tonalCenter: RelativeTonalCenter
-): RomanChord[] {
-  // TODO: Real chord detection
-  // This would analyze chromagram to detect chord changes
-  // and convert to Roman numerals relative to tonal center
-
-  // Common progressions for testing (stub)
-  const progressions: RomanChord[][] = [
-    [
-      { numeral: 'I', quality: 'major' },
-      { numeral: 'V', quality: 'major' },
-      { numeral: 'vi', quality: 'minor' },
-      { numeral: 'IV', quality: 'major' },
-    ],
-    [
-      { numeral: 'i', quality: 'minor' },
-      { numeral: 'VI', quality: 'major' },
-      { numeral: 'III', quality: 'major' },
-      { numeral: 'VII', quality: 'major' },
-    ],
-    [
-      { numeral: 'I', quality: 'major' },
-      { numeral: 'IV', quality: 'major' },
-      { numeral: 'V', quality: 'major' },
-    ],
-    [
-      { numeral: 'vi', quality: 'minor' },
-      { numeral: 'IV', quality: 'major' },
-      { numeral: 'I', quality: 'major' },
-      { numeral: 'V', quality: 'major' },
-    ],
-  ];
-
-  // Select based on mode
-  if (tonalCenter.mode === 'minor') {
-    return progressions[1];
+  const response = await fetch(audioUrl);
+  if (!response.ok) {
+    console.error('[AudioAnalysis] Audio fetch failed:', response.status);
+    return null;
   }
 
-  return progressions[Math.floor(Math.random() * progressions.length)];
+  return decodeAudio(await response.arrayBuffer());
 }
 
 /**
- * Detect loop length in bars
- * TODO: Implement beat tracking and loop detection
+ * Decode an encoded audio file (WAV, or anything Web Audio can read) to
+ * mono PCM
  */
-function detectLoopLength(features: AudioFeatures): number {
-  // TODO: Real loop detection using onset detection
-  // Most common loop lengths: 4, 8, 16 bars
-  return 4; // Stub
-}
-
-/**
- * Classify cadence type
- */
-function classifyCadence(progression: RomanChord[]): HarmonicFingerprint['cadence_type'] {
-  if (progression.length === 0) return 'none';
+export async function decodeAudio(arrayBuffer: ArrayBuffer): Promise<PcmAudio | null> {
+  if (isWav(arrayBuffer)) {
+    return decodeWav(arrayBuffer);
+  }
 
-  const lastChord = progression[progression.length - 1];
-  const secondLastChord = progression.length > 1 ? progression[progression.length - 2] : null;
+  const AudioContextCtor: typeof AudioContext | undefined =
+    typeof window !== 'undefined'
+      ? window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+      : undefined;
 
-  // Simple cadence detection rules
-  if (lastChord.numeral === 'I' || lastChord.numeral === 'i') {
-    if (secondLastChord?.numeral === 'V') return 'authentic';
-    if (secondLastChord?.numeral === 'IV' || secondLastChord?.numeral === 'iv') return 'plagal';
-    if (secondLastChord?.numeral === 'vi') return 'deceptive';
+  if (!AudioContextCtor) {
+    console.warn('[AudioAnalysis] No decoder available for non-WAV audio');
+    return null;
   }
 
-  if (lastChord.numeral === 'V') {
-    return 'half';
+  const audioContext = new AudioContextCtor();
+  try {
+    const decoded = await audioContext.decodeAudioData(arrayBuffer);
+    return audioBufferToPcm(decoded);
+  } finally {
+    audioContext.close().catch(() => undefined);
   }
-
-  return 'none';
 }
 
 /**
- * Calculate overall confidence score
- * Based on signal quality, key stability, and chord clarity
+ * Convert a Web Audio buffer to mono PCM
  */
-function calculateConfidence(
-  features: AudioFeatures,
-  tonalCenter: RelativeTonalCenter,
-  progression: RomanChord[]
-): number {
-  // Factors affecting confidence:
-  // 1. Key detection confidence
-  const keyConfidence = tonalCenter.stability_score;
-
-  // 2. Signal quality (loudness, spectral centroid)
-  const signalQuality = Math.max(0, Math.min(1, (features.loudness + 40) / 40));
-
-  // 3. Progression clarity (more chords = more data)
-  const progressionClarity = Math.min(1, progression.length / 4);
-
-  // Weighted average
-  const overall = keyConfidence * 0.5 + signalQuality * 0.3 + progressionClarity * 0.2;
-
-  // Cap at 0.7 since this is stub implementation
-  return Math.min(0.7, overall);
+export function audioBufferToPcm(audioBuffer: AudioBuffer): PcmAudio {
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) =>
+    audioBuffer.getChannelData(i)
+  );
+  return mixToMono(channels, audioBuffer.sampleRate);
 }
 
-/**
- * Convert relative tonal center to absolute key
- */
-function getAbsoluteKey(tonalCenter: RelativeTonalCenter): string {
-  const notes = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-  return notes[tonalCenter.root_interval % 12];
+function isWav(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 12) return false;
+  const header = new Uint8Array(buffer, 0, 12);
+  const tag = (start: number) => String.fromCharCode(...header.slice(start, start + 4));
+  return tag(0) === 'RIFF' && tag(8) === 'WAVE';
 }
 
 // ============================================================================
@@ -266,12 +131,12 @@ function getAbsoluteKey(tonalCenter: RelativeTonalCenter): string {
 
 /**
  * Generate audio hash for deduplication
- * TODO: Implement perceptual hashing
+ * Perceptual: re-encodes, bitrate changes and remasters of the same
+ * recording hash within a few bits (compare with `audioHashDistance`)
  */
-export function generateAudioHash(audioBuffer: AudioBuffer): string {
-  // TODO: Real perceptual hash (e.g., chromaprint)
-  // For now, use timestamp + random
-  return `audio_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+export function generateAudioHash(audio: AudioBuffer | PcmAudio): string {
+  const pcm = 'samples' in audio ? audio : audioBufferToPcm(audio);
+  return computeAudioFingerprint(pcm).audio_hash;
 }
 
 /**
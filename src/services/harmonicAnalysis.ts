@@ -10,8 +10,8 @@
  * 3. Return provisional data immediately for UI
  * 4. Update with final result when ready
  * 
- * TODO: Integrate actual audio analysis ML model
- * TODO: Add Supabase Edge Function for background processing
+ * Background processing runs in the harmonic-analysis Edge Function
+ * (row-locked job claiming, retries with backoff, dead-lettering).
  */
 
 import type {
@@ -27,6 +27,15 @@ import type {
 import type { Track } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
 import { analyzeAudioTrack } from './audioAnalysis';
+import {
+  ANALYSIS_MODEL_VERSION,
+  audioHashBands,
+  matchAudioFingerprints,
+  type PerceptualMatch,
+} from '@/lib/harmonicDsp';
+import { embedFingerprint } from '@/lib/harmonicEmbedding';
+import { preserveCrowdCorrection } from '@/lib/chordConsensus';
+import { shouldReplaceFingerprint } from '@/lib/reanalysisPlanner';
 
 type AnalysisJobRequest = AnalysisRequest & {
   audio_hash?: string;
@@ -46,12 +55,15 @@ const ANALYSIS_CONFIG = {
   CACHE_TTL_DAYS: 90,
   REANALYSIS_THRESHOLD_DAYS: 365,
   
+  // Near-duplicate lookup (rows sharing a perceptual hash band)
+  PERCEPTUAL_CANDIDATE_LIMIT: 20,
+  
   // Processing limits
   MAX_CONCURRENT_JOBS: 5,
   JOB_TIMEOUT_MS: 30000,
   
   // Analysis versions
-  CURRENT_MODEL_VERSION: '1.0.0',
+  CURRENT_MODEL_VERSION: ANALYSIS_MODEL_VERSION,
 } as const;
 
 const TTL_MS = ANALYSIS_CONFIG.CACHE_TTL_DAYS * 24 * 60 * 60 * 1000;
@@ -72,10 +84,10 @@ const withinWindow = (timestamp: string, windowMs: number) => {
  */
 export async function getHarmonicAnalysis(
   trackId: string,
-  options: { forceReanalysis?: boolean; audioHash?: string; isrc?: string } = {}
+  options: { forceReanalysis?: boolean; audioHash?: string; isrc?: string; audioUrl?: string } = {}
 ): Promise<AnalysisResult | null> {
   try {
-    const { forceReanalysis, audioHash, isrc } = options;
+    const { forceReanalysis, audioHash, isrc, audioUrl } = options;
 
     // Step 1: Check cache
     if (!forceReanalysis) {
@@ -102,6 +114,7 @@ export async function getHarmonicAnalysis(
       priority: 'normal',
       audio_hash: audioHash,
       isrc,
+      audio_url: audioUrl,
     });
 
     // Step 4: Return provisional data immediately (don't block UI)
@@ -149,6 +162,8 @@ export async function queueAnalysis(request: AnalysisJobRequest): Promise<Analys
     status: 'queued',
     progress: 0.0,
     started_at: now,
+    audio_url: request.audio_url ?? null,
+    priority: request.priority ?? 'normal',
   };
 
   const jobPayload = {
@@ -178,6 +193,7 @@ export async function queueAnalysis(request: AnalysisJobRequest): Promise<Analys
         track_id: request.track_id,
         audio_hash: request.audio_hash,
         isrc: request.isrc,
+        audio_url: request.audio_url,
         priority: request.priority ?? 'normal',
         job_id: jobId,
       },
@@ -227,7 +243,7 @@ export async function getJobStatus(jobId: string): Promise<AnalysisJob | null> {
 
 /**
  * Check harmony cache (database lookup)
- * Implements idempotency: audio_hash > isrc > track_id priority
+ * Implements idempotency: audio_hash > isrc > track_id > alias priority
  * Uses database-generated reuse_until and reanalyze_after columns
  */
 async function checkHarmonyCache(params: {
@@ -242,6 +258,7 @@ async function checkHarmonyCache(params: {
   // 1. audio_hash (exact audio match, most reliable)
   // 2. isrc (recording identifier, reliable for same master)
   // 3. track_id (fallback, least reliable for duplicates)
+  // 4. alias (track previously matched to another recording's fingerprint)
   
   const lookup = async (column: 'audio_hash' | 'isrc' | 'track_id', value: string) => {
     const { data, error } = await supabase
@@ -262,15 +279,22 @@ async function checkHarmonyCache(params: {
 
   // Check in priority order
   const candidates: (HarmonicFingerprint | null)[] = [];
+  let method = 'track_id';
   
   if (audioHash) {
     const result = await lookup('audio_hash', audioHash);
-    if (result) candidates.push(result);
+    if (result) {
+      candidates.push(result);
+      method = 'audio_hash';
+    }
   }
   
   if (isrc && candidates.length === 0) {
     const result = await lookup('isrc', isrc);
-    if (result) candidates.push(result);
+    if (result) {
+      candidates.push(result);
+      method = 'isrc';
+    }
   }
   
   if (candidates.length === 0) {
@@ -278,6 +302,14 @@ async function checkHarmonyCache(params: {
     if (result) candidates.push(result);
   }
 
+  if (candidates.length === 0) {
+    const result = await lookupAlias(trackId, now);
+    if (result) {
+      candidates.push(result);
+      method = 'alias';
+    }
+  }
+
   // Return first valid candidate
   for (const cached of candidates) {
     if (!cached) continue;
@@ -295,7 +327,7 @@ async function checkHarmonyCache(params: {
     // Valid cached result
     console.log('[HarmonyCache] Cache hit:', {
       track_id: cached.track_id,
-      method: audioHash ? 'audio_hash' : isrc ? 'isrc' : 'track_id',
+      method,
       confidence: cached.confidence_score,
       age_days: Math.floor((now.getTime() - new Date(cached.analysis_timestamp).getTime()) / (24 * 60 * 60 * 1000))
     });
@@ -307,6 +339,102 @@ async function checkHarmonyCache(params: {
   return null;
 }
 
+/**
+ * Resolve a track through the alias table to the fingerprint it shares
+ */
+async function lookupAlias(trackId: string, now: Date): Promise<HarmonicFingerprint | null> {
+  const { data, error } = await supabase
+    .from('harmonic_fingerprint_aliases')
+    .select('harmonic_fingerprints(*)')
+    .eq('track_id', trackId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[HarmonyCache] Alias lookup error:', error.message);
+    return null;
+  }
+
+  const fingerprint = data?.harmonic_fingerprints as unknown as (HarmonicFingerprint & { reuse_until?: string }) | null;
+  if (!fingerprint || (fingerprint.reuse_until && new Date(fingerprint.reuse_until) < now)) {
+    return null;
+  }
+
+  return fingerprint;
+}
+
+/**
+ * Find a stored fingerprint of the same recording (re-encode, remaster,
+ * another provider's copy) via perceptual hash bands
+ */
+async function findPerceptualDuplicate(
+  identity: Pick<HarmonicFingerprint, 'track_id' | 'audio_hash' | 'audio_hash_bands' | 'chromaprint'>
+): Promise<{ fingerprint: HarmonicFingerprint & { id: string }; match: PerceptualMatch } | null> {
+  if (!identity.audio_hash) return null;
+
+  const bands = identity.audio_hash_bands ?? audioHashBands(identity.audio_hash);
+  const { data, error } = await supabase
+    .from('harmonic_fingerprints')
+    .select('*')
+    .overlaps('audio_hash_bands', bands)
+    .neq('track_id', identity.track_id)
+    .gte('reuse_until', new Date().toISOString())
+    .limit(ANALYSIS_CONFIG.PERCEPTUAL_CANDIDATE_LIMIT);
+
+  if (error) {
+    console.error('[HarmonyCache] Perceptual lookup error:', error.message);
+    return null;
+  }
+
+  let best: { fingerprint: HarmonicFingerprint & { id: string }; match: PerceptualMatch } | null = null;
+
+  for (const row of (data ?? []) as unknown as Array<HarmonicFingerprint & { id: string }>) {
+    if (!row.audio_hash) continue;
+
+    const match = matchAudioFingerprints(
+      { audio_hash: identity.audio_hash, chromaprint: identity.chromaprint },
+      { audio_hash: row.audio_hash, chromaprint: row.chromaprint }
+    );
+    if (!match.is_match) continue;
+
+    const score = match.bit_error_rate ?? match.hash_distance / 64;
+    const bestScore = best ? best.match.bit_error_rate ?? best.match.hash_distance / 64 : Infinity;
+    if (score < bestScore) best = { fingerprint: row, match };
+  }
+
+  return best;
+}
+
+/**
+ * Point a track at an existing fingerprint instead of storing a duplicate
+ */
+async function storeAlias(
+  trackId: string,
+  duplicate: { fingerprint: HarmonicFingerprint & { id: string }; match: PerceptualMatch },
+  audioHash?: string | null
+): Promise<void> {
+  const { error } = await supabase
+    .from('harmonic_fingerprint_aliases')
+    .upsert({
+      track_id: trackId,
+      fingerprint_id: duplicate.fingerprint.id,
+      audio_hash: audioHash ?? null,
+      hash_distance: duplicate.match.hash_distance,
+      bit_error_rate: duplicate.match.bit_error_rate,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'track_id' });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  console.log('[HarmonyCache] Stored alias:', {
+    track_id: trackId,
+    canonical_track_id: duplicate.fingerprint.track_id,
+    hash_distance: duplicate.match.hash_distance,
+    bit_error_rate: duplicate.match.bit_error_rate,
+  });
+}
+
 /**
  * Store analysis result in cache
  * Implements idempotent upserts with proper conflict resolution
@@ -316,20 +444,56 @@ async function storeInCache(
 ): Promise<void> {
   try {
     // Determine conflict resolution strategy based on available identifiers
-    // Priority: audio_hash (most specific) > isrc > track_id (least specific)
+    // Priority: isrc > track_id. Perceptual audio hashes are not unique;
+    // same-recording duplicates are resolved to aliases before storing.
     let onConflict: string;
     
-    if (fingerprint.audio_hash) {
-      onConflict = 'audio_hash';
-    } else if (fingerprint.isrc) {
+    if (fingerprint.isrc) {
       onConflict = 'isrc';
     } else {
       onConflict = 'track_id';
     }
 
+    // Crowd-corrected progressions/keys survive re-analysis. A failed
+    // lookup must not pass for "nothing stored" and overwrite them
+    const { data: storedRows, error: lookupError } = await supabase
+      .from('harmonic_fingerprints')
+      .select('*')
+      .eq('track_id', fingerprint.track_id)
+      .limit(1);
+    if (lookupError) {
+      throw new Error(`Stored fingerprint lookup failed: ${lookupError.message}`);
+    }
+    const stored = (storedRows?.[0] as unknown as HarmonicFingerprint | undefined) ?? null;
+    const toStore = preserveCrowdCorrection(
+      fingerprint,
+      stored?.analysis_method === 'crowd_sourced' ? stored : null
+    );
+
+    // An older model's result stays until the new one beats its confidence
+    if (!shouldReplaceFingerprint(stored, toStore)) {
+      console.log('[HarmonyCache] Kept stored fingerprint:', {
+        track_id: fingerprint.track_id,
+        stored_version: stored?.analysis_version,
+        stored_confidence: stored?.confidence_score,
+        confidence: toStore.confidence_score,
+      });
+      // Still renew its reuse window: reuse_until/reanalyze_after are
+      // generated from analysis_timestamp
+      await supabase
+        .from('harmonic_fingerprints')
+        .update({ analysis_timestamp: new Date().toISOString() })
+        .eq('track_id', fingerprint.track_id);
+      return;
+    }
+
+    // Embedding travels with the fingerprint for nearest-neighbour lookup
+    const now = new Date().toISOString();
     const payload = {
-      ...fingerprint,
-      updated_at: new Date().toISOString(),
+      ...toStore,
+      ...embedFingerprint(toStore),
+      analysis_timestamp: now, // Renews reuse_until/reanalyze_after
+      updated_at: now,
     };
 
     const { error } = await supabase
@@ -387,19 +551,42 @@ async function runAnalysisJob(job: AnalysisJob, request?: AnalysisJobRequest): P
     
     const fingerprint = await analyzeAudioTrack({
       track_id: job.track_id,
-      audio_hash: request?.audio_hash,
       isrc: request?.isrc,
-      // TODO: Pass actual audio_url when available
-      // audio_url: track.audio_preview_url,
+      audio_url: request?.audio_url,
     });
 
     job.progress = 0.9;
     await touch({ progress: job.progress });
 
-    // Add identifiers from request
+    // Same recording already analysed under another track: alias it
+    const duplicate = await findPerceptualDuplicate(fingerprint);
+    if (duplicate) {
+      await storeAlias(job.track_id, duplicate, fingerprint.audio_hash);
+
+      job.status = 'cached';
+      job.progress = 1.0;
+      job.completed_at = new Date().toISOString();
+      job.result = duplicate.fingerprint;
+
+      await touch({
+        status: job.status,
+        progress: job.progress,
+        completed_at: job.completed_at,
+        result: duplicate.fingerprint,
+      });
+
+      return {
+        fingerprint: duplicate.fingerprint,
+        confidence: extractConfidence(duplicate.fingerprint),
+        method: 'cached',
+        processing_time_ms: Date.now() - startTime,
+      };
+    }
+
+    // Add identifiers from request (computed perceptual hash wins)
     const fingerprintToStore = {
       ...fingerprint,
-      audio_hash: request?.audio_hash ?? null,
+      audio_hash: fingerprint.audio_hash ?? request?.audio_hash ?? null,
       isrc: request?.isrc ?? null,
     };
     
@@ -556,7 +743,7 @@ async function waitForJob(jobId: string): Promise<AnalysisResult | null> {
       };
     }
     
-    if (job.status === 'failed') {
+    if (job.status === 'failed' || job.status === 'dead_letter') {
       throw new Error(job.error_message || 'Analysis failed');
     }
     
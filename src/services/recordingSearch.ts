@@ -0,0 +1,130 @@
+/**
+ * Recording Search ("play it to find it")
+ *
+ * Finds tracks built on a chord loop strummed, played or hummed into the
+ * microphone:
+ * 1. Decode the take and run the same DSP pipeline as track analysis
+ *    (`analyzePcm`), on the client
+ * 2. Read the loop as Roman numerals relative to the detected key
+ * 3. Search with `findByReadings` (rotations match, so the take can
+ *    start anywhere in the loop)
+ *
+ * A short take has no context to tell a key from its relative major/minor
+ * (G-D-Em-C reads as I-V-vi-IV in G or III-VII-i-VI in E minor), so both
+ * readings are searched and each track keeps its better score.
+ *
+ * Humming works when the melody outlines the chords (arpeggios, bass
+ * lines); a single held note has no harmony to detect.
+ */
+
+import type { Mode, RomanChord, SimilarityResult } from '@/types/harmony';
+import {
+  analyzePcm,
+  PITCH_CLASSES,
+  progressionInKey,
+  type PcmAudio,
+  type PcmHarmonyAnalysis,
+} from '@/lib/harmonicDsp';
+import { relativeKey } from '@/lib/chordSymbols';
+import { findByReadings } from '@/services/similarityEngine';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const RECORDING_SEARCH_CONFIG = {
+  MIN_DURATION_MS: 4_000, // Enough for two bars at slow tempos
+  MAX_DURATION_MS: 45_000, // Recorder stops itself here
+  MIN_CHORDS: 2,
+  MAX_RESULTS: 20,
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface KeyReading {
+  tonic: number; // Pitch class, 0 = C
+  mode: 'major' | 'minor';
+  label: string; // e.g. "G", "Em"
+  progression: RomanChord[];
+}
+
+export interface RecognizedProgression {
+  readings: KeyReading[]; // Detected key first, then its relative
+  tempo_bpm: number;
+  loop_bars: number;
+  confidence: number; // 0.0 - 1.0 overall analysis confidence
+  duration_ms: number;
+}
+
+export interface RecordingMatch extends SimilarityResult {
+  reading: KeyReading; // Reading the track matched best
+}
+
+export interface RecordingSearchResult {
+  recognized: RecognizedProgression;
+  matches: RecordingMatch[];
+}
+
+// ============================================================================
+// MAIN API
+// ============================================================================
+
+/**
+ * Analyze a take and read its loop in the detected key and its relative
+ * Throws with a message for the user when no loop can be heard
+ */
+export function recognizeProgression(pcm: PcmAudio): RecognizedProgression {
+  const durationMs = pcm.sampleRate ? (pcm.samples.length / pcm.sampleRate) * 1000 : 0;
+  if (durationMs < RECORDING_SEARCH_CONFIG.MIN_DURATION_MS) {
+    throw new Error(`Recording too short: play the loop for at least ${RECORDING_SEARCH_CONFIG.MIN_DURATION_MS / 1000} seconds`);
+  }
+
+  const analysis = analyzePcm(pcm);
+  const chords = new Set(analysis.progression.map(c => c.numeral));
+  if (chords.size < RECORDING_SEARCH_CONFIG.MIN_CHORDS) {
+    throw new Error('No chord loop detected: try playing the loop at least twice, closer to the microphone');
+  }
+
+  return {
+    readings: keyReadings(analysis),
+    tempo_bpm: analysis.tempo_bpm,
+    loop_bars: analysis.loop.length_bars,
+    confidence: analysis.confidence.overall,
+    duration_ms: analysis.duration_ms,
+  };
+}
+
+/**
+ * Find tracks built on the loop played in a take
+ */
+export async function searchByRecording(
+  pcm: PcmAudio,
+  options?: { max_results?: number }
+): Promise<RecordingSearchResult> {
+  const maxResults = options?.max_results ?? RECORDING_SEARCH_CONFIG.MAX_RESULTS;
+  const recognized = recognizeProgression(pcm);
+
+  const matches = await findByReadings(recognized.readings, { max_results: maxResults });
+
+  return { recognized, matches };
+}
+
+// ============================================================================
+// INTERNALS
+// ============================================================================
+
+function keyReadings(analysis: PcmHarmonyAnalysis): KeyReading[] {
+  const { tonic, mode } = analysis.key;
+  const relative = relativeKey({ tonic, mode });
+
+  return [
+    { tonic, mode, label: keyLabel(tonic, mode), progression: progressionInKey(analysis, { tonic, mode }) },
+    { ...relative, label: keyLabel(relative.tonic, relative.mode), progression: progressionInKey(analysis, relative) },
+  ];
+}
+
+function keyLabel(tonic: number, mode: Mode): string {
+  return `${PITCH_CLASSES[tonic]}${mode === 'minor' ? 'm' : ''}`;
+}
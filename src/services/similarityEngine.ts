@@ -6,27 +6,49 @@
  * 
  * ALGORITHM:
  * 1. Extract harmonic fingerprint from reference track
- * 2. Query database for tracks with similar:
- *    - Roman numeral progression shape
- *    - Cadence type
- *    - Loop length
- *    - Modal color
+ * 2. Retrieve nearest neighbours by harmonic embedding (progression
+ *    n-grams, cadence, modal color, loop length, tempo — see
+ *    harmonicEmbedding): LSH bucket lookup in the database, TF-IDF cosine
+ *    ranking in memory. Falls back to coarse SQL filters when the embedding
+ *    index has too few neighbours (e.g. rows not yet embedded).
  * 3. Score matches using configurable weights
+ *    (progressions are aligned, so rotations, repeated loops and
+ *    functional substitutions still match — see progressionAlignment)
  * 4. Return ranked results
- * 
- * TODO: Add ML-based embedding similarity for nuanced matching
- * TODO: Implement progression transposition matching (rotate progressions)
+ *
+ * Section queries ("tracks whose chorus sounds like this chorus") skip the
+ * embedding step: candidates are tracks with a section of the same label,
+ * scored by aligning the two sections (see sectionSimilarity).
+ *
+ * Modulation filters ("up a whole step in the last chorus") narrow
+ * candidates by their key-change timeline, checked against the track's
+ * sections when the filter names one (see modulation).
  */
 
+import type { TrackSection } from '@/types';
 import type {
   SimilarityQuery,
   SimilarityResult,
   SimilarityFilters,
   SimilarityWeights,
+  HarmonicCluster,
   HarmonicFingerprint,
+  Mode,
+  ProgressionAlignment,
   RomanChord,
+  SectionSpan,
 } from '@/types/harmony';
-import { compareProgressions } from '@/types/harmony';
+import { alignProgressions } from '@/lib/progressionAlignment';
+import {
+  EmbeddingIndex,
+  embedFingerprint,
+  embeddingProbeKeys,
+  isCurrentEmbedding,
+} from '@/lib/harmonicEmbedding';
+import { bestSectionMatch, collectSections } from '@/lib/sectionSimilarity';
+import { getSectionDisplayLabel } from '@/lib/sections';
+import { matchesModulationFilter, type TimedSection } from '@/lib/modulation';
+import { getSectionsByLabel, getTrackSection, getTrackSections } from '@/api/trackSections';
 import { supabase } from '@/integrations/supabase/client';
 
 // ============================================================================
@@ -43,6 +65,13 @@ const DEFAULT_WEIGHTS: Required<SimilarityWeights> = {
 
 const DEFAULT_MAX_RESULTS = 20;
 
+// Rows fetched by LSH bucket overlap, and neighbours kept after ranking
+const ANN_CANDIDATE_LIMIT = 500;
+const ANN_NEIGHBORS = 100;
+
+// Tracks considered per section query (per source)
+const SECTION_CANDIDATE_LIMIT = 500;
+
 // ============================================================================
 // MAIN SIMILARITY API
 // ============================================================================
@@ -53,6 +82,10 @@ const DEFAULT_MAX_RESULTS = 20;
 export async function findSimilarTracks(
   query: SimilarityQuery
 ): Promise<SimilarityResult[]> {
+  if (query.section) {
+    return findSimilarSections(query);
+  }
+
   try {
     // Step 1: Get reference track's harmonic fingerprint
     const reference = await getFingerprint(query.reference_track_id);
@@ -60,20 +93,24 @@ export async function findSimilarTracks(
       throw new Error('Reference track not found');
     }
 
-    // Step 2: Query candidate tracks
-    const candidates = await queryCandidates(reference, query.filters);
+    // Step 2: Nearest neighbours by embedding
+    const maxResults = query.max_results || DEFAULT_MAX_RESULTS;
+    const candidates = await queryNeighbors(reference, query.filters, maxResults);
 
     // Step 3: Score each candidate
     const weights = { ...DEFAULT_WEIGHTS, ...query.weights };
-    const scored = candidates.map(candidate => ({
-      track_id: candidate.track_id,
-      similarity_score: calculateSimilarity(reference, candidate, weights),
-      matching_features: getMatchingFeatures(reference, candidate),
-      explanation: generateExplanation(reference, candidate),
-    }));
+    const scored = candidates.map(candidate => {
+      const alignment = alignFingerprints(reference, candidate);
+      return {
+        track_id: candidate.track_id,
+        similarity_score: calculateSimilarity(reference, candidate, weights, alignment),
+        matching_features: getMatchingFeatures(reference, candidate, alignment),
+        explanation: generateExplanation(reference, candidate, alignment),
+        alignment,
+      };
+    });
 
     // Step 4: Sort and limit results
-    const maxResults = query.max_results || DEFAULT_MAX_RESULTS;
     return scored
       .filter(r => r.similarity_score > 0.3) // Minimum threshold
       .sort((a, b) => b.similarity_score - a.similarity_score)
@@ -86,14 +123,16 @@ export async function findSimilarTracks(
 
 /**
  * Find tracks matching a specific progression pattern
- * Supports progression rotation matching
+ * Supports rotation ("same loop, different starting chord"), repeated or
+ * shortened loops and, optionally, transposed numerals
  */
 export async function findByProgression(
   progression: RomanChord[],
-  options?: { max_results?: number; allow_rotation?: boolean }
+  options?: { max_results?: number; allow_rotation?: boolean; allow_transposition?: boolean; mode?: Mode }
 ): Promise<SimilarityResult[]> {
   const maxResults = options?.max_results || DEFAULT_MAX_RESULTS;
   const allowRotation = options?.allow_rotation ?? true;
+  const allowTransposition = options?.allow_transposition ?? false;
   
   try {
     // Query database for candidate tracks
@@ -117,41 +156,24 @@ export async function findByProgression(
     const results: SimilarityResult[] = [];
 
     for (const candidate of candidates as HarmonicFingerprint[]) {
-      const candidateProg = candidate.roman_progression;
-
-      // Direct match
-      const directScore = compareProgressions(progression, candidateProg);
-      let bestScore = directScore;
-      let rotationOffset: number | undefined;
-      let matchedWithRotation = false;
-
-      // Check rotations if enabled
-      if (allowRotation && candidateProg.length === progression.length) {
-        for (let offset = 1; offset < candidateProg.length; offset++) {
-          const rotated = rotateProgression(candidateProg, offset);
-          const rotatedScore = compareProgressions(progression, rotated);
-          
-          if (rotatedScore > bestScore) {
-            bestScore = rotatedScore;
-            rotationOffset = offset;
-            matchedWithRotation = true;
-          }
-        }
-      }
+      const alignment = alignProgressions(progression, candidate.roman_progression, {
+        allowRotation,
+        allowTransposition,
+        modes: { a: options?.mode, b: candidate.tonal_center.mode },
+      });
 
       // If score is high enough, add to results
-      if (bestScore >= 0.6) {
+      if (alignment.score >= 0.6) {
+        const features = ['progression_shape'];
+        if (alignment.rotation) features.push('rotation');
+        if (alignment.transposition) features.push('transposition');
+
         results.push({
           track_id: candidate.track_id,
-          similarity_score: bestScore,
-          matching_features: {
-            shared_progression_shape: true,
-            cadence_match: candidate.cadence_type,
-            rotation_offset: matchedWithRotation ? rotationOffset : undefined,
-          },
-          explanation: matchedWithRotation
-            ? `Matches progression with ${rotationOffset}-chord rotation (${(bestScore * 100).toFixed(0)}% similarity)`
-            : `Direct progression match (${(bestScore * 100).toFixed(0)}% similarity)`,
+          similarity_score: alignment.score,
+          matching_features: features,
+          explanation: alignment.explanation,
+          alignment,
         });
       }
     }
@@ -166,40 +188,213 @@ export async function findByProgression(
   }
 }
 
+/**
+ * Find tracks matching a progression read in several keys
+ * A chord chart or a take can't tell a key from its relative major/minor,
+ * so each reading is searched and each track keeps its best match
+ */
+export async function findByReadings<R extends { progression: RomanChord[]; mode?: Mode }>(
+  readings: R[],
+  options?: { max_results?: number }
+): Promise<Array<SimilarityResult & { reading: R }>> {
+  const maxResults = options?.max_results || DEFAULT_MAX_RESULTS;
+
+  const searches = await Promise.all(
+    readings.map(reading =>
+      findByProgression(reading.progression, { max_results: maxResults, mode: reading.mode })
+    )
+  );
+
+  // Best reading per track
+  const best = new Map<string, SimilarityResult & { reading: R }>();
+  searches.forEach((results, index) => {
+    for (const result of results) {
+      const current = best.get(result.track_id);
+      if (!current || result.similarity_score > current.similarity_score) {
+        best.set(result.track_id, { ...result, reading: readings[index] });
+      }
+    }
+  });
+
+  return [...best.values()]
+    .sort((a, b) => b.similarity_score - a.similarity_score)
+    .slice(0, maxResults);
+}
+
 /**
  * Get harmonic clusters (groups of similar tracks)
+ * Clusters are built by the harmonic-clusters Edge Function and extended
+ * incrementally as new tracks are analysed; members are nearest-first.
  */
 export async function getHarmonicClusters(
-  minClusterSize: number = 5
-): Promise<Array<{ prototype: RomanChord[]; track_ids: string[] }>> {
-  // TODO: Implement clustering algorithm
-  // 1. Group tracks by progression similarity
-  // 2. Find cluster centroids
-  // 3. Return clusters above size threshold
-  
-  return [];
+  minClusterSize: number = 5,
+  options?: { limit?: number }
+): Promise<HarmonicCluster[]> {
+  try {
+    const { data, error } = await supabase
+      .from('harmonic_clusters')
+      .select('*, harmonic_cluster_members(track_id, distance)')
+      .gte('member_count', minClusterSize)
+      .order('member_count', { ascending: false })
+      .limit(options?.limit ?? DEFAULT_MAX_RESULTS);
+
+    if (error) {
+      console.error('[SimilarityEngine] Cluster query error:', error);
+      return [];
+    }
+
+    return (data ?? []).map(cluster => ({
+      id: cluster.id,
+      name: cluster.name,
+      prototype_progression: cluster.prototype_progression as unknown as RomanChord[],
+      member_track_ids: [...cluster.harmonic_cluster_members]
+        .sort((a, b) => a.distance - b.distance)
+        .map(member => member.track_id),
+      avg_confidence: cluster.avg_confidence,
+      created_at: cluster.created_at,
+    }));
+  } catch (error) {
+    console.error('[SimilarityEngine] Error getting clusters:', error);
+    return [];
+  }
+}
+
+// ============================================================================
+// SECTION MATCHING
+// ============================================================================
+
+/**
+ * Find tracks whose section of the same label shares the reference
+ * section's progression; results carry the matched section's timestamps
+ */
+async function findSimilarSections(query: SimilarityQuery): Promise<SimilarityResult[]> {
+  try {
+    // Step 1: Resolve the reference section
+    const reference = await getFingerprint(query.reference_track_id);
+    const referenceSection = await resolveReferenceSection(query, reference);
+    if (!referenceSection) {
+      throw new Error('Reference section not found');
+    }
+
+    // Step 2: Tracks with a section of the same label
+    const label = referenceSection.label;
+    const excluded = new Set([query.reference_track_id, ...(query.filters?.exclude_track_ids ?? [])]);
+
+    const { data, error } = await supabase
+      .from('harmonic_fingerprints')
+      .select('*')
+      .contains('section_progressions', JSON.stringify([{ section_label: label }]))
+      .gte('confidence_score', query.filters?.min_confidence ?? 0.5)
+      .limit(SECTION_CANDIDATE_LIMIT);
+
+    if (error) {
+      console.error('[SimilarityEngine] Section query error:', error);
+    }
+
+    const fingerprints = new Map(
+      ((data ?? []) as unknown as HarmonicFingerprint[]).map(fp => [fp.track_id, fp])
+    );
+    const [curated, timings] = await Promise.all([
+      getSectionsByLabel(label, { limit: SECTION_CANDIDATE_LIMIT }),
+      fingerprints.size > 0
+        ? getSectionsByLabel(label, { trackIds: [...fingerprints.keys()] })
+        : Promise.resolve([] as TrackSection[]),
+    ]);
+
+    const sectionsByTrack = new Map<string, TrackSection[]>();
+    for (const section of [...curated, ...timings]) {
+      const sections = sectionsByTrack.get(section.track_id) ?? [];
+      if (!sections.some(s => s.id === section.id)) sections.push(section);
+      sectionsByTrack.set(section.track_id, sections);
+    }
+
+    // Step 3: Best-matching section per track
+    const results: SimilarityResult[] = [];
+    for (const trackId of new Set([...fingerprints.keys(), ...sectionsByTrack.keys()])) {
+      if (excluded.has(trackId)) continue;
+
+      const candidate = fingerprints.get(trackId) ?? null;
+      const match = bestSectionMatch(
+        referenceSection,
+        collectSections(candidate, sectionsByTrack.get(trackId)),
+        { reference: reference?.tonal_center.mode, candidate: candidate?.tonal_center.mode }
+      );
+      if (!match) continue;
+
+      const features = ['section_progression'];
+      if (match.alignment.rotation) features.push('rotation');
+
+      results.push({
+        track_id: trackId,
+        similarity_score: match.alignment.score,
+        matching_features: features,
+        explanation: `${getSectionDisplayLabel(label)}: ${match.alignment.explanation}`,
+        alignment: match.alignment,
+        matched_section: { reference: referenceSection, candidate: match.section },
+      });
+    }
+
+    // Step 4: Sort and limit results
+    return results
+      .sort((a, b) => b.similarity_score - a.similarity_score)
+      .slice(0, query.max_results || DEFAULT_MAX_RESULTS);
+  } catch (error) {
+    console.error('[SimilarityEngine] Error in findSimilarSections:', error);
+    return [];
+  }
+}
+
+/**
+ * The reference section: a specific TrackSection, or the first occurrence
+ * of the requested label that has a progression
+ */
+async function resolveReferenceSection(
+  query: SimilarityQuery,
+  reference: HarmonicFingerprint | null
+): Promise<SectionSpan | null> {
+  const sections = collectSections(reference, await getTrackSections(query.reference_track_id));
+
+  if (query.section?.section_id) {
+    const byId = sections.find(section => section.section_id === query.section!.section_id);
+    if (byId) return byId;
+
+    // Not paired with the track's sections (e.g. chords only on this row)
+    const section = await getTrackSection(query.section.section_id);
+    return section ? collectSections(null, [section])[0] ?? null : null;
+  }
+
+  return sections.find(section => section.label === query.section?.label) ?? null;
 }
 
 // ============================================================================
 // SIMILARITY SCORING
 // ============================================================================
 
+/**
+ * Align two fingerprints' progressions in their own tonal frames
+ */
+function alignFingerprints(
+  reference: HarmonicFingerprint,
+  candidate: HarmonicFingerprint
+): ProgressionAlignment {
+  return alignProgressions(reference.roman_progression, candidate.roman_progression, {
+    modes: { a: reference.tonal_center.mode, b: candidate.tonal_center.mode },
+  });
+}
+
 /**
  * Calculate overall similarity score
  */
 function calculateSimilarity(
   reference: HarmonicFingerprint,
   candidate: HarmonicFingerprint,
-  weights: Required<SimilarityWeights>
+  weights: Required<SimilarityWeights>,
+  alignment: ProgressionAlignment = alignFingerprints(reference, candidate)
 ): number {
   let totalScore = 0;
 
-  // 1. Progression shape similarity
-  const progScore = compareProgressions(
-    reference.roman_progression,
-    candidate.roman_progression
-  );
-  totalScore += progScore * weights.progression_shape;
+  // 1. Progression shape similarity (rotation/loop-length tolerant)
+  totalScore += alignment.score * weights.progression_shape;
 
   // 2. Cadence type match
   const cadenceScore = reference.cadence_type === candidate.cadence_type ? 1.0 : 0.0;
@@ -265,13 +460,12 @@ function calculateModalSimilarity(
  */
 function getMatchingFeatures(
   reference: HarmonicFingerprint,
-  candidate: HarmonicFingerprint
+  candidate: HarmonicFingerprint,
+  alignment: ProgressionAlignment
 ): string[] {
   const matches: string[] = [];
 
-  if (
-    compareProgressions(reference.roman_progression, candidate.roman_progression) > 0.8
-  ) {
+  if (alignment.score > 0.8) {
     matches.push('progression_shape');
   }
 
@@ -295,16 +489,19 @@ function getMatchingFeatures(
  */
 function generateExplanation(
   reference: HarmonicFingerprint,
-  candidate: HarmonicFingerprint
+  candidate: HarmonicFingerprint,
+  alignment: ProgressionAlignment
 ): string {
-  const features = getMatchingFeatures(reference, candidate);
+  const features = getMatchingFeatures(reference, candidate, alignment);
   
   if (features.length === 0) {
     return 'Shares some harmonic characteristics';
   }
 
   const explanations: Record<string, string> = {
-    progression_shape: 'Similar chord progression',
+    progression_shape: alignment.rotation
+      ? 'Same loop, different starting chord'
+      : 'Similar chord progression',
     cadence_type: 'Same resolution pattern',
     loop_length: 'Same loop structure',
     modal_color: 'Same tonal mode',
@@ -317,13 +514,58 @@ function generateExplanation(
 // QUERY OPTIMIZATION
 // ============================================================================
 
+/**
+ * Approximate nearest neighbours of the reference fingerprint
+ * Candidates share at least one LSH bucket (GIN index on embedding_buckets)
+ * and are ranked by embedding similarity; tops up with the coarse query
+ * when fewer than `minResults` neighbours are found.
+ */
+async function queryNeighbors(
+  reference: HarmonicFingerprint,
+  filters: SimilarityFilters | undefined,
+  minResults: number
+): Promise<HarmonicFingerprint[]> {
+  // Older rows may predate embeddings; embedding is deterministic, so
+  // computing it here matches what the worker would have stored
+  const embedding = isCurrentEmbedding(reference)
+    ? reference.embedding!
+    : embedFingerprint(reference).embedding;
+
+  const bucketed = await queryCandidates(reference, filters, {
+    probeKeys: embeddingProbeKeys(embedding),
+    limit: ANN_CANDIDATE_LIMIT,
+  });
+
+  const index = new EmbeddingIndex();
+  const byTrack = new Map<string, HarmonicFingerprint>();
+  for (const candidate of bucketed) {
+    if (!isCurrentEmbedding(candidate)) continue;
+    index.add(candidate.track_id, candidate.embedding!);
+    byTrack.set(candidate.track_id, candidate);
+  }
+
+  const neighbors = index
+    .query(embedding, ANN_NEIGHBORS, { exclude: reference.track_id })
+    .map(neighbor => byTrack.get(neighbor.id)!);
+
+  if (neighbors.length >= minResults) {
+    return neighbors;
+  }
+
+  const seen = new Set(neighbors.map(n => n.track_id));
+  const coarse = await queryCandidates(reference, filters);
+  return [...neighbors, ...coarse.filter(c => !seen.has(c.track_id))];
+}
+
 /**
  * Query candidate tracks efficiently
- * Uses database indexes for fast filtering
+ * Uses database indexes for fast filtering; `probeKeys` restricts to
+ * fingerprints sharing an embedding bucket
  */
 async function queryCandidates(
   reference: HarmonicFingerprint,
-  filters?: SimilarityFilters
+  filters?: SimilarityFilters,
+  options?: { probeKeys?: string[]; limit?: number }
 ): Promise<HarmonicFingerprint[]> {
   try {
     let query = supabase
@@ -332,6 +574,10 @@ async function queryCandidates(
       .neq('track_id', reference.track_id) // Exclude reference track
       .gte('confidence_score', 0.5); // Minimum confidence
 
+    if (options?.probeKeys) {
+      query = query.overlaps('embedding_buckets', options.probeKeys);
+    }
+
     // Apply filters
     if (filters?.min_confidence) {
       query = query.gte('confidence_score', filters.min_confidence);
@@ -352,10 +598,17 @@ async function queryCandidates(
       query = query.in('loop_length_bars', filters.loop_lengths);
     }
 
+    if (filters?.modulation) {
+      // GIN containment narrows to the interval; the rest is checked below
+      query = filters.modulation.interval_semitones !== undefined
+        ? query.contains('modulations', JSON.stringify([{ interval_semitones: filters.modulation.interval_semitones }]))
+        : query.not('modulations', 'is', null);
+    }
+
     // Order by confidence and limit
     query = query
       .order('confidence_score', { ascending: false })
-      .limit(100); // Get top candidates
+      .limit(options?.limit ?? 100); // Get top candidates
 
     const { data, error } = await query;
 
@@ -373,6 +626,10 @@ async function queryCandidates(
       );
     }
 
+    if (filters?.modulation) {
+      candidates = await filterByModulation(candidates, filters.modulation);
+    }
+
     return candidates;
   } catch (error) {
     console.error('[SimilarityEngine] Error querying candidates:', error);
@@ -380,6 +637,37 @@ async function queryCandidates(
   }
 }
 
+/**
+ * Keep candidates with a key change matching the filter
+ * Sections of the named label are loaded only when the filter needs them.
+ */
+async function filterByModulation(
+  candidates: HarmonicFingerprint[],
+  filter: NonNullable<SimilarityFilters['modulation']>
+): Promise<HarmonicFingerprint[]> {
+  const modulating = candidates.filter(c =>
+    matchesModulationFilter(c.modulations, { ...filter, section: undefined, last_section: false })
+  );
+  if (!filter.section || modulating.length === 0) {
+    return modulating.filter(c => matchesModulationFilter(c.modulations, filter));
+  }
+
+  const sections = await getSectionsByLabel(filter.section, {
+    trackIds: modulating.map(c => c.track_id),
+  });
+  const byTrack = new Map<string, TimedSection[]>();
+  for (const section of sections) {
+    const list = byTrack.get(section.track_id) ?? [];
+    list.push({ label: section.label, start_ms: section.start_ms, end_ms: section.end_ms });
+    byTrack.set(section.track_id, list);
+  }
+
+  // Tracks without section data cannot place the key change
+  return modulating.filter(c =>
+    byTrack.has(c.track_id) && matchesModulationFilter(c.modulations, filter, byTrack.get(c.track_id))
+  );
+}
+
 /**
  * Get harmonic fingerprint from database
  */
@@ -416,16 +704,7 @@ function matchesWithRotation(
   a: RomanChord[],
   b: RomanChord[]
 ): boolean {
-  if (a.length !== b.length) return false;
-
-  for (let offset = 0; offset < a.length; offset++) {
-    const rotated = rotateProgression(b, offset);
-    if (compareProgressions(a, rotated) >= 0.9) {
-      return true;
-    }
-  }
-
-  return false;
+  return alignProgressions(a, b, { allowRotation: true }).score >= 0.9;
 }
 
 /**
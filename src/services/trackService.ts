@@ -12,9 +12,11 @@
 import { supabase } from '@/integrations/supabase/client';
 import { Track, SongSection } from '@/types';
 import { seedTracks } from '@/data/seedTracks';
+import { rankTracks, type CatalogField, type CatalogHit } from '@/lib/catalogSearch';
 
 export interface TrackQuery {
   id?: string;
+  ids?: string[];
   spotifyId?: string;
   youtubeId?: string;
   search?: string;
@@ -28,11 +30,16 @@ export interface TrackResult {
   total?: number;
 }
 
+export interface CatalogSearchResult {
+  hits: CatalogHit[];
+  source: 'database' | 'seed';
+}
+
 /**
  * Transform database row to Track type
  * Handles JSON fields that need proper typing
  */
-function transformDbRowToTrack(row: Record<string, unknown>): Track {
+export function transformDbRowToTrack(row: Record<string, unknown>): Track {
   return {
     ...row,
     // Handle JSON fields that need proper type conversion
@@ -66,6 +73,10 @@ async function fetchFromDatabase(query: TrackQuery): Promise<Track[] | null> {
       supabaseQuery = supabaseQuery.eq('id', query.id);
     }
     
+    if (query.ids) {
+      supabaseQuery = supabaseQuery.in('id', query.ids);
+    }
+    
     if (query.spotifyId) {
       supabaseQuery = supabaseQuery.eq('spotify_id', query.spotifyId);
     }
@@ -105,6 +116,44 @@ async function fetchFromDatabase(query: TrackQuery): Promise<Track[] | null> {
   }
 }
 
+/**
+ * Ranked catalog search in the database (search_catalog RPC)
+ */
+async function searchCatalogInDatabase(
+  searchTerm: string,
+  limit: number,
+  offset: number
+): Promise<CatalogHit[] | null> {
+  try {
+    const { data, error } = await supabase.rpc('search_catalog' as never, {
+      p_query: searchTerm,
+      p_limit: limit,
+      p_offset: offset,
+    } as never);
+
+    if (error) {
+      console.warn('Catalog search failed:', error.message);
+      return null;
+    }
+
+    const rows = (data ?? []) as Array<{
+      track: Record<string, unknown>;
+      rank: number;
+      snippet: string | null;
+      matched_fields: string[] | null;
+    }>;
+    return rows.map(row => ({
+      track: transformDbRowToTrack(row.track),
+      rank: row.rank,
+      snippet: row.snippet ?? '',
+      matched_fields: (row.matched_fields ?? []) as CatalogField[],
+    }));
+  } catch (error) {
+    console.warn('Catalog search error:', error);
+    return null;
+  }
+}
+
 /**
  * Filter seed tracks based on query
  */
@@ -115,6 +164,11 @@ function filterSeedTracks(query: TrackQuery): Track[] {
     results = results.filter(t => t.id === query.id);
   }
   
+  if (query.ids) {
+    const ids = new Set(query.ids);
+    results = results.filter(t => ids.has(t.id));
+  }
+  
   if (query.spotifyId) {
     results = results.filter(t => t.spotify_id === query.spotifyId);
   }
@@ -171,6 +225,15 @@ export async function getTrackById(id: string): Promise<Track | null> {
   return result.tracks[0] || null;
 }
 
+/**
+ * Get several tracks by ID with fallback
+ */
+export async function getTracksByIds(ids: string[]): Promise<Track[]> {
+  if (ids.length === 0) return [];
+  const result = await fetchTracks({ ids, limit: ids.length });
+  return result.tracks;
+}
+
 /**
  * Get tracks by Spotify ID with fallback
  */
@@ -180,17 +243,37 @@ export async function getTrackBySpotifyId(spotifyId: string): Promise<Track | nu
 }
 
 /**
- * Search tracks with fallback
+ * Ranked full-text search over the catalog with fallback
+ * Typo tolerant; hits carry highlighted snippets (see lib/catalogSearch)
+ */
+export async function searchCatalog(
+  searchTerm: string,
+  options: { limit?: number; offset?: number } = {}
+): Promise<CatalogSearchResult> {
+  const limit = options.limit || 20;
+  const offset = options.offset || 0;
+
+  const dbHits = await searchCatalogInDatabase(searchTerm, limit, offset);
+  if (dbHits && dbHits.length > 0) {
+    return { hits: dbHits, source: 'database' };
+  }
+
+  return { hits: rankTracks(seedTracks, searchTerm, { limit, offset }), source: 'seed' };
+}
+
+/**
+ * Search tracks with fallback, best match first
  */
 export async function searchTracks(
   searchTerm: string,
   options: { limit?: number; offset?: number } = {}
 ): Promise<TrackResult> {
-  return fetchTracks({
-    search: searchTerm,
-    limit: options.limit || 20,
-    offset: options.offset || 0,
-  });
+  const { hits, source } = await searchCatalog(searchTerm, options);
+  return {
+    tracks: hits.map(hit => hit.track),
+    source,
+    total: hits.length,
+  };
 }
 
 /**
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { createLoop, isLoopOf, loopStep, sectionLoopRegion, updateLoop } from '@/lib/abLoop';
+import type { TrackSection } from '@/types';
+
+const chorus: TrackSection = {
+  id: 'sec-chorus',
+  track_id: 't-1',
+  label: 'chorus',
+  start_ms: 60000,
+  end_ms: 75000,
+  created_at: '2026-01-01T00:00:00Z',
+};
+
+describe('createLoop', () => {
+  it('orders markers, clamps pre-roll and rejects tiny regions', () => {
+    const loop = createLoop({ startMs: 20000, endMs: 10000 }, { preRollMs: 60000, maxLoops: 0 });
+
+    expect([loop.startMs, loop.endMs]).toEqual([10000, 20000]);
+    expect(loop.preRollMs).toBe(8000);
+    expect(loop.maxLoops).toBeNull();
+    expect(() => createLoop({ startMs: 5000, endMs: 5400 })).toThrow(/at least/);
+  });
+});
+
+describe('loopStep', () => {
+  it('seeks back to A minus pre-roll at B, once playback has reached the loop', () => {
+    let loop = createLoop({ startMs: 60000, endMs: 75000 }, { preRollMs: 2000 });
+
+    // Stale positions from before the initial seek are ignored
+    expect(loopStep(loop, 90000)).toEqual({ loop, seekToMs: null });
+
+    loop = loopStep(loop, 58100).loop!;
+    expect(loop.awaitingSeek).toBe(false);
+    expect(loopStep(loop, 70000).loop).toBe(loop);
+
+    const step = loopStep(loop, 74900);
+    expect(step.seekToMs).toBe(58000);
+    expect(step.loop).toMatchObject({ completed: 1, awaitingSeek: true });
+  });
+
+  it('finishes after the loop count and ignores scrubs past B', () => {
+    let loop = createLoop({ startMs: 0, endMs: 10000 }, { maxLoops: 2 });
+    loop = loopStep(loop, 0).loop!;
+
+    expect(loopStep(loop, 30000)).toEqual({ loop, seekToMs: null });
+
+    loop = loopStep(loop, 9950).loop!;
+    loop = loopStep(loop, 200).loop!;
+    expect(loopStep(loop, 10000)).toEqual({ loop: null, seekToMs: null });
+  });
+
+  it('re-issues a seek that never lands, then gives the loop up', () => {
+    const start = 1_000_000;
+    let loop = createLoop({ startMs: 60000, endMs: 75000 }, {}, start);
+
+    // A 30 s preview never gets to A
+    expect(loopStep(loop, 29000, start + 2000)).toEqual({ loop, seekToMs: null });
+
+    let step = loopStep(loop, 29000, start + 3000);
+    expect(step.seekToMs).toBe(60000);
+    expect(step.loop).toMatchObject({ awaitingSeek: true, seekRetries: 1, seekIssuedAt: start + 3000 });
+    loop = step.loop!;
+
+    step = loopStep(loop, 29500, start + 6000);
+    expect(step).toMatchObject({ seekToMs: 60000, loop: { seekRetries: 2 } });
+    loop = step.loop!;
+
+    expect(loopStep(loop, 30000, start + 9000)).toEqual({ loop: null, seekToMs: null });
+  });
+
+  it('starts each pass with a fresh seek timeout', () => {
+    const loop = loopStep(createLoop({ startMs: 0, endMs: 10000 }, {}, 0), 4000, 5000).loop!;
+
+    const step = loopStep(loop, 9950, 20000);
+    expect(step.loop).toMatchObject({ awaitingSeek: true, seekIssuedAt: 20000, seekRetries: 0 });
+    expect(loopStep(step.loop!, 100, 20500).loop).toMatchObject({ awaitingSeek: false });
+  });
+
+  it('keeps progress when options change mid-loop', () => {
+    const loop = { ...createLoop({ startMs: 0, endMs: 10000 }), completed: 3 };
+    expect(updateLoop(loop, { maxLoops: 8 })).toMatchObject({ completed: 3, maxLoops: 8, preRollMs: 0 });
+  });
+});
+
+describe('sectionLoopRegion', () => {
+  it('loops database sections and inline sections up to the next section', () => {
+    const region = sectionLoopRegion(chorus, 'Chorus');
+    expect(region).toEqual({ startMs: 60000, endMs: 75000, label: 'Chorus', sectionId: 'sec-chorus' });
+    expect(isLoopOf(createLoop(region!), region)).toBe(true);
+
+    expect(sectionLoopRegion({ type: 'verse', start_time: 30 }, undefined, 45)).toMatchObject({
+      startMs: 30000,
+      endMs: 45000,
+      label: 'verse',
+    });
+    expect(sectionLoopRegion({ type: 'outro', start_time: 200 })).toBeNull();
+  });
+});
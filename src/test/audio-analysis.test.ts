@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { analyzeAudioTrack, generateAudioHash } from '@/services/audioAnalysis';
+import {
+  audioHashBands,
+  audioHashDistance,
+  computeAudioFingerprint,
+  decodeWav,
+  estimateKey,
+  matchAudioFingerprints,
+  toRomanChord,
+} from '@/lib/harmonicDsp';
+import { encodeWav, synthLoop } from './fixtures/wav';
+
+/**
+ * Lossy-transfer stand-in: leading silence, gain change, low-pass, dither
+ * noise and 8-bit requantization
+ */
+function degrade(samples: Float32Array, sampleRate: number): Float32Array {
+  let seed = 1;
+  const noise = () => (seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5;
+  const pad = Math.round(sampleRate * 1.3);
+  const out = new Float32Array(samples.length + pad);
+  let previous = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const lowPassed = 0.6 * samples[i] + 0.4 * previous;
+    previous = samples[i];
+    out[i + pad] = Math.round((lowPassed * 0.6 + noise() * 0.02) * 127) / 127;
+  }
+  return out;
+}
+
+function serveWav(buffer: ArrayBuffer) {
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+    ok: true,
+    status: 200,
+    arrayBuffer: async () => buffer,
+  }));
+}
+
+// G major: G - D - Em - C  (I - V - vi - IV)
+const G_MAJOR_POP = [[55, 59, 62, 67], [50, 54, 57, 62], [52, 55, 59, 64], [48, 52, 55, 60]];
+// A minor: Am - Dm - E - Am  (i - iv - V - i)
+const A_MINOR_CADENCE = [[57, 60, 64], [50, 53, 57], [52, 56, 59], [57, 60, 64]];
+
+const transpose = (chords: number[][], semitones: number) => chords.map(c => c.map(n => n + semitones));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('decodeWav', () => {
+  it('decodes 16-bit stereo PCM to mono', () => {
+    const left = new Float32Array([0.5, -0.5, 0.25]);
+    const right = new Float32Array([0.5, 0.5, -0.25]);
+    const pcm = decodeWav(encodeWav([left, right], 8000));
+
+    expect(pcm.sampleRate).toBe(8000);
+    expect(pcm.samples).toHaveLength(3);
+    expect(pcm.samples[0]).toBeCloseTo(0.5, 3);
+    expect(pcm.samples[1]).toBeCloseTo(0, 3);
+    expect(pcm.samples[2]).toBeCloseTo(0, 3);
+  });
+
+  it('rejects non-WAV data', () => {
+    expect(() => decodeWav(new ArrayBuffer(64))).toThrow('Not a RIFF/WAVE file');
+  });
+});
+
+describe('key and numeral helpers', () => {
+  it('finds the key of a diatonic profile', () => {
+    // D major scale, tonic/dominant weighted
+    const profile = [0, 0.2, 1, 0, 0.5, 0, 0.5, 0.3, 0, 0.8, 0, 0.3];
+    const key = estimateKey(profile);
+    expect(key.tonic).toBe(2);
+    expect(key.mode).toBe('major');
+  });
+
+  it('names chords relative to the tonic', () => {
+    expect(toRomanChord({ root: 7, quality: 'dominant7' }, 0, 'major').numeral).toBe('V7');
+    expect(toRomanChord({ root: 10, quality: 'major' }, 0, 'major').numeral).toBe('bVII');
+    expect(toRomanChord({ root: 5, quality: 'minor' }, 0, 'minor').numeral).toBe('iv');
+    expect(toRomanChord({ root: 11, quality: 'diminished' }, 0, 'major').numeral).toBe('vii°');
+  });
+});
+
+describe('analyzeAudioTrack', () => {
+  it('recovers a I-V-vi-IV loop in G major from a WAV fixture', async () => {
+    serveWav(encodeWav([synthLoop(G_MAJOR_POP, 120, 16)], 22050));
+
+    const fingerprint = await analyzeAudioTrack({
+      track_id: 'track-g',
+      audio_url: 'https://example.com/g-major.wav',
+    });
+
+    expect(fingerprint.detected_key).toBe('G');
+    expect(fingerprint.detected_mode).toBe('major');
+    expect(fingerprint.tonal_center.root_interval).toBe(7);
+    expect(fingerprint.roman_progression.map(c => c.numeral)).toEqual(['I', 'V', 'vi', 'IV']);
+    expect(fingerprint.roman_progression.every(c => c.duration_beats === 4)).toBe(true);
+    expect(fingerprint.loop_length_bars).toBe(4);
+    expect(fingerprint.tempo_bpm).toBeGreaterThan(115);
+    expect(fingerprint.tempo_bpm).toBeLessThan(125);
+    expect(fingerprint.cadence_type).toBe('loop');
+    expect(fingerprint.confidence_score).toBeGreaterThanOrEqual(0.7);
+    expect(fingerprint.is_provisional).toBe(false);
+  });
+
+  it('detects a minor key and authentic cadence at 44.1 kHz', async () => {
+    const pcm = { samples: synthLoop(A_MINOR_CADENCE, 96, 12, 44100), sampleRate: 44100 };
+
+    const fingerprint = await analyzeAudioTrack({ track_id: 'track-am', pcm });
+
+    expect(fingerprint.detected_key).toBe('A');
+    expect(fingerprint.detected_mode).toBe('minor');
+    expect(fingerprint.roman_progression.map(c => c.numeral)).toEqual(['i', 'iv', 'V', 'i']);
+    expect(fingerprint.cadence_type).toBe('authentic');
+    expect(fingerprint.tempo_bpm).toBeGreaterThan(92);
+    expect(fingerprint.tempo_bpm).toBeLessThan(100);
+  });
+
+  it('keeps silence provisional with no progression', async () => {
+    const pcm = { samples: new Float32Array(22050 * 8), sampleRate: 22050 };
+
+    const fingerprint = await analyzeAudioTrack({ track_id: 'silence', pcm });
+
+    expect(fingerprint.roman_progression).toEqual([]);
+    expect(fingerprint.is_provisional).toBe(true);
+    expect(fingerprint.confidence_score).toBeLessThan(0.5);
+  });
+
+  it('fails honestly when no audio is available', async () => {
+    await expect(analyzeAudioTrack({ track_id: 'no-audio' })).rejects.toThrow('Failed to fetch audio');
+  });
+
+  it('detects a whole-step modulation for the last choruses', async () => {
+    // I - V - vi - IV in G for 16 bars, then the same loop up a whole step in A
+    const sampleRate = 22050;
+    const samples = new Float32Array([
+      ...synthLoop(G_MAJOR_POP, 120, 16, sampleRate),
+      ...synthLoop(transpose(G_MAJOR_POP, 2), 120, 16, sampleRate),
+    ]);
+
+    const fingerprint = await analyzeAudioTrack({ track_id: 'truck-driver', pcm: { samples, sampleRate } });
+
+    expect(fingerprint.detected_key).toBe('G');
+    expect(fingerprint.roman_progression.map(c => c.numeral)).toEqual(['I', 'V', 'vi', 'IV']);
+    expect(fingerprint.modulations).toHaveLength(1);
+
+    const [modulation] = fingerprint.modulations!;
+    expect(modulation.interval_semitones).toBe(2);
+    expect(modulation.tonal_center).toMatchObject({ root_interval: 9, mode: 'major' });
+    // Key change at 32s (bar 17), within a bar
+    expect(Math.abs(modulation.timestamp_ms - 32_000)).toBeLessThan(2_000);
+    expect(modulation.confidence).toBeGreaterThan(0.5);
+    // Direct modulation: the last G bars (Em, C) are not diatonic to A
+    expect(modulation.pivot_chord).toBeNull();
+  });
+
+  it('detects a bridge in the relative minor and the return home', async () => {
+    // G major loop, 8 bars of i - iv - V - i in E minor, G major again
+    const sampleRate = 22050;
+    const samples = new Float32Array([
+      ...synthLoop(G_MAJOR_POP, 120, 16, sampleRate),
+      ...synthLoop(transpose(A_MINOR_CADENCE, -5), 120, 8, sampleRate),
+      ...synthLoop(G_MAJOR_POP, 120, 16, sampleRate),
+    ]);
+
+    const fingerprint = await analyzeAudioTrack({ track_id: 'bridge', pcm: { samples, sampleRate } });
+
+    expect(fingerprint.modulations?.map(m => [m.tonal_center.root_interval, m.tonal_center.mode, m.interval_semitones]))
+      .toEqual([[4, 'minor', -3], [7, 'major', 3]]);
+  });
+
+  it('finds no modulation in a single-key loop', async () => {
+    const pcm = { samples: synthLoop(A_MINOR_CADENCE, 96, 24, 22050), sampleRate: 22050 };
+
+    const fingerprint = await analyzeAudioTrack({ track_id: 'track-am', pcm });
+
+    expect(fingerprint.modulations).toEqual([]);
+  });
+
+  it('stores the perceptual identity alongside the analysis', async () => {
+    const pcm = { samples: synthLoop(G_MAJOR_POP, 120, 8), sampleRate: 22050 };
+
+    const fingerprint = await analyzeAudioTrack({ track_id: 'track-g', pcm });
+
+    expect(fingerprint.audio_hash).toBe(generateAudioHash(pcm));
+    expect(fingerprint.audio_hash_bands).toEqual(audioHashBands(fingerprint.audio_hash!));
+    expect(fingerprint.chromaprint).toBeTruthy();
+  });
+});
+
+describe('perceptual audio hash', () => {
+  const original = synthLoop(G_MAJOR_POP, 120, 16);
+  const reference = computeAudioFingerprint({ samples: original, sampleRate: 22050 });
+
+  it('is deterministic 64-bit hex split into four bands', () => {
+    expect(reference.audio_hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(computeAudioFingerprint({ samples: original, sampleRate: 22050 })).toEqual(reference);
+    expect(reference.hash_bands).toEqual([
+      `0:${reference.audio_hash.slice(0, 4)}`,
+      `1:${reference.audio_hash.slice(4, 8)}`,
+      `2:${reference.audio_hash.slice(8, 12)}`,
+      `3:${reference.audio_hash.slice(12, 16)}`,
+    ]);
+  });
+
+  it('survives re-encoding, resampling and gain changes', () => {
+    const degraded = computeAudioFingerprint({ samples: degrade(original, 22050), sampleRate: 22050 });
+    const resampled = computeAudioFingerprint({ samples: synthLoop(G_MAJOR_POP, 120, 16, 44100), sampleRate: 44100 });
+
+    for (const copy of [degraded, resampled]) {
+      const match = matchAudioFingerprints(reference, copy);
+      expect(match.hash_distance).toBeLessThanOrEqual(3);
+      expect(match.bit_error_rate).toBeLessThan(0.1);
+      expect(match.is_match).toBe(true);
+      expect(copy.hash_bands.some(band => reference.hash_bands.includes(band))).toBe(true);
+    }
+  });
+
+  it('tells different recordings apart', () => {
+    const otherKey = computeAudioFingerprint({ samples: synthLoop(A_MINOR_CADENCE, 96, 12), sampleRate: 22050 });
+    const otherTempo = computeAudioFingerprint({ samples: synthLoop(G_MAJOR_POP, 100, 16), sampleRate: 22050 });
+
+    expect(audioHashDistance(reference.audio_hash, otherKey.audio_hash)).toBeGreaterThan(12);
+    expect(matchAudioFingerprints(reference, otherKey).is_match).toBe(false);
+    expect(matchAudioFingerprints(reference, otherTempo).is_match).toBe(false);
+  });
+
+  it('falls back to hash distance without chromaprints', () => {
+    const near = { audio_hash: reference.audio_hash.slice(0, 15) + (reference.audio_hash[15] === '0' ? '1' : '0') };
+
+    expect(matchAudioFingerprints({ audio_hash: reference.audio_hash }, near)).toMatchObject({
+      bit_error_rate: null,
+      is_match: true,
+    });
+    expect(audioHashDistance(reference.audio_hash, 'audio_legacy_hash')).toBe(64);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isrcRelation,
+  mappingKey,
+  matchTracks,
+  parseTitle,
+  resolveCanonicalTracks,
+  tokenSetSimilarity,
+  verifyMappingRecord,
+  type TrackMappingRecord,
+} from '@/lib/canonicalTracks';
+import type { NormalizedTrack } from '@/lib/connectors/base';
+
+const track = (
+  provider: NormalizedTrack['provider'],
+  provider_track_id: string,
+  title: string,
+  overrides: Partial<NormalizedTrack> = {}
+): NormalizedTrack => ({
+  provider,
+  provider_track_id,
+  title,
+  artists: ['The Beatles'],
+  duration_ms: 125_000,
+  ...overrides,
+});
+
+describe('parseTitle', () => {
+  it('strips version suffixes into a structured version', () => {
+    expect(parseTitle('Here Comes The Sun (Remastered 2009)')).toMatchObject({
+      base: 'Here Comes The Sun',
+      version: { kind: 'remaster', year: 2009 },
+    });
+    expect(parseTitle('Here Comes The Sun - 2019 Mix')).toMatchObject({
+      base: 'Here Comes The Sun',
+      version: { kind: 'remix' },
+    });
+    expect(parseTitle('Song - Live')).toMatchObject({ base: 'Song', version: { kind: 'live' } });
+    expect(parseTitle('Song (Live at Wembley) - Remastered 2011').version?.kind).toBe('live');
+    expect(parseTitle('Get Lucky (Radio Edit) [feat. Pharrell Williams & Nile Rodgers]')).toEqual({
+      base: 'Get Lucky',
+      version: { kind: 'radio_edit', label: 'Radio Edit' },
+      featured: ['Pharrell Williams', 'Nile Rodgers'],
+    });
+    expect(parseTitle('Get Lucky (Official Audio) ft. Pharrell Williams')).toMatchObject({
+      base: 'Get Lucky',
+      version: null,
+      featured: ['Pharrell Williams'],
+    });
+    expect(parseTitle('Firestarter (Part 2)')).toMatchObject({ base: 'Firestarter (Part 2)', version: null });
+  });
+
+  it('compares titles by token set', () => {
+    expect(tokenSetSimilarity('Here Comes the Sun', 'here comes sun')).toBe(1);
+    expect(tokenSetSimilarity('Beyoncé', 'Beyonce')).toBe(1);
+    expect(tokenSetSimilarity('Love Story', 'Love')).toBeCloseTo(0.667, 3);
+  });
+});
+
+describe('matchTracks', () => {
+  it('merges a remaster with the original but not a live version', () => {
+    const original = track('spotify', 's1', 'Here Comes the Sun');
+
+    expect(matchTracks(original, track('deezer', 'd1', 'Here Comes The Sun (Remastered 2009)', { duration_ms: 126_500 })))
+      .toMatchObject({ method: 'fuzzy' });
+    expect(matchTracks(original, track('deezer', 'd2', 'Here Comes the Sun - Live'))).toBeNull();
+    expect(matchTracks(original, track('youtube', 'y1', 'Here Comes the Sun', { artists: ['The Beatles - Topic'], duration_ms: undefined })))
+      .toMatchObject({ method: 'fuzzy' });
+    // Outside duration tolerance
+    expect(matchTracks(original, track('deezer', 'd3', 'Here Comes the Sun', { duration_ms: 140_000 }))).toBeNull();
+    // Different artist
+    expect(matchTracks(original, track('deezer', 'd4', 'Here Comes the Sun', { artists: ['Nina Simone'] }))).toBeNull();
+  });
+
+  it('trusts equal ISRCs and keeps sibling recordings of a release apart', () => {
+    expect(isrcRelation('USQX91300108', 'us-qx9-13-00108')).toBe('same');
+    expect(isrcRelation('USQX91300108', 'USQX91300105')).toBe('sibling');
+    expect(isrcRelation('USQX91300108', 'GBAYE0601498')).toBe('unrelated');
+    expect(isrcRelation('USQX91300108', undefined)).toBe('unknown');
+
+    const album = track('spotify', 's1', 'Get Lucky', { artists: ['Daft Punk'], isrc: 'USQX91300108', duration_ms: 369_000 });
+    // Localized title, same ISRC
+    expect(matchTracks(album, track('deezer', 'd1', 'Get Lucky (Sous-titré)', { artists: ['Daft Punk'], isrc: 'USQX91300108' })))
+      .toEqual({ method: 'isrc', confidence: 1 });
+    // Same title and duration, but the label coded it as a different recording
+    expect(matchTracks(album, track('deezer', 'd2', 'Get Lucky', { artists: ['Daft Punk'], isrc: 'USQX91300105', duration_ms: 369_000 })))
+      .toBeNull();
+  });
+});
+
+describe('resolveCanonicalTracks', () => {
+  it('groups provider results by recording, checking every member of a group', () => {
+    const groups = resolveCanonicalTracks([
+      track('spotify', 's1', 'Here Comes the Sun'),
+      track('youtube', 'y1', 'Here Comes the Sun (Official Audio)', { artists: ['The Beatles - Topic'], duration_ms: undefined }),
+      track('spotify', 's2', 'Here Comes The Sun - Live', { duration_ms: 190_000 }),
+      track('deezer', 'd1', 'Here Comes The Sun (Remastered 2009)', { isrc: 'GBAYE0601696', duration_ms: 126_500 }),
+      // Joins through the Deezer member's ISRC despite the localized title
+      track('apple_music', 'a1', 'Aquí Viene el Sol', { isrc: 'GBAYE0601696' }),
+      // Matches the YouTube member, but is far longer than the others
+      track('soundcloud', 'c1', 'Here Comes the Sun', { duration_ms: 160_000 }),
+    ]);
+
+    expect(groups.map(g => [g.canonical_id, g.members.map(m => `${m.track.provider_track_id}:${m.method}`)])).toEqual([
+      ['spotify-s1', ['s1:new', 'y1:fuzzy', 'd1:fuzzy', 'a1:isrc']],
+      ['spotify-s2', ['s2:new']],
+      ['soundcloud-c1', ['c1:new']],
+    ]);
+    expect(groups[0].members[2].parsed.version).toMatchObject({ kind: 'remaster', year: 2009 });
+  });
+
+  it('puts tracks with persisted mappings into their canonical group first', () => {
+    const groups = resolveCanonicalTracks(
+      [
+        track('deezer', 'd1', 'Here Comes the Sun'),
+        track('spotify', 's1', 'Here Comes the Sun'),
+      ],
+      new Map([[mappingKey('spotify', 's1'), 'GBAYE0601696']])
+    );
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].canonical_id).toBe('GBAYE0601696');
+    expect(groups[0].members.map(m => [m.track.provider, m.method])).toEqual([
+      ['spotify', 'mapping'],
+      ['deezer', 'fuzzy'],
+    ]);
+  });
+});
+
+describe('verifyMappingRecord', () => {
+  const record = (overrides: Partial<TrackMappingRecord>): TrackMappingRecord => ({
+    canonical_id: 'spotify-s1',
+    provider: 'spotify',
+    provider_track_id: 's1',
+    isrc: null,
+    title: 'Here Comes the Sun',
+    artist: 'The Beatles',
+    version: null,
+    duration_ms: 125_000,
+    match_method: 'new',
+    confidence: 1,
+    ...overrides,
+  });
+  const seed = record({});
+
+  it('accepts a new recording only under its own ID', () => {
+    expect(verifyMappingRecord(seed, [])).toBe(true);
+    expect(verifyMappingRecord(record({ isrc: 'gb-aye-06-01696', canonical_id: 'GBAYE0601696' }), [])).toBe(true);
+    expect(verifyMappingRecord(record({ canonical_id: 'spotify-other' }), [])).toBe(false);
+  });
+
+  it('accepts a joining track only when it matches a member of the recording', () => {
+    const joining = record({ provider: 'deezer', provider_track_id: 'd1', match_method: 'fuzzy', confidence: 0.9 });
+    expect(verifyMappingRecord(joining, [seed])).toBe(true);
+    expect(verifyMappingRecord({ ...joining, version: 'remaster' }, [seed])).toBe(true);
+
+    expect(verifyMappingRecord({ ...joining, version: 'live' }, [seed])).toBe(false);
+    expect(verifyMappingRecord({ ...joining, title: 'Something' }, [seed])).toBe(false);
+    expect(verifyMappingRecord({ ...joining, canonical_id: 'spotify-s2' }, [seed])).toBe(false);
+    expect(verifyMappingRecord({ ...joining, confidence: 7 }, [seed])).toBe(false);
+    // A track can't vouch for itself
+    expect(verifyMappingRecord({ ...seed, match_method: 'fuzzy' }, [seed])).toBe(false);
+  });
+});
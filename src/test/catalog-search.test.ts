@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { highlightSegments, rankTracks, wordSimilarity } from '@/lib/catalogSearch';
+import { searchCatalog } from '@/services/trackService';
+import type { Track } from '@/types';
+
+const rpc = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { rpc: (...args: unknown[]) => rpc(...args) },
+}));
+
+const track = (id: string, fields: Partial<Track>): Track => ({
+  id,
+  title: '',
+  artist: '',
+  provider: 'seed',
+  external_id: id,
+  ...fields,
+} as Track);
+
+const CATALOG: Track[] = [
+  track('1', {
+    title: 'Blinding Lights',
+    artist: 'The Weeknd',
+    album: 'After Hours',
+    songwriter: 'The Weeknd, Max Martin, Oscar Holter',
+    producer: 'Max Martin, Oscar Holter',
+    label: 'XO, Republic Records',
+    genre_description: 'Synth-pop with 80s new wave influence',
+  }),
+  track('2', {
+    title: 'Let It Be',
+    artist: 'The Beatles',
+    album: 'Let It Be',
+    label: 'Apple Records',
+    historical_notes: 'Written by Paul McCartney after a dream about his mother',
+  }),
+  track('3', {
+    title: 'Max Headroom Theme',
+    artist: 'Art of Noise',
+    genre_description: 'Sampled synth-pop',
+  }),
+];
+
+describe('rankTracks', () => {
+  it('ranks title and artist matches above credits and notes', () => {
+    const hits = rankTracks(CATALOG, 'max');
+
+    expect(hits.map(h => h.track.id)).toEqual(['3', '1']);
+    expect(hits[1].matched_fields).toEqual(expect.arrayContaining(['songwriters', 'producers']));
+  });
+
+  it('searches songwriters, labels and historical notes', () => {
+    expect(rankTracks(CATALOG, 'republic').map(h => h.track.id)).toEqual(['1']);
+
+    const [hit] = rankTracks(CATALOG, 'mccartney dream');
+    expect(hit.track.id).toBe('2');
+    expect(hit.matched_fields).toEqual(['historical_notes']);
+    expect(highlightSegments(hit.snippet).filter(s => s.highlighted).map(s => s.text)).toEqual(['McCartney', 'dream']);
+  });
+
+  it('tolerates typos through trigram similarity', () => {
+    const hits = rankTracks(CATALOG, 'beatels');
+
+    expect(hits.map(h => h.track.id)).toEqual(['2']);
+    expect(hits[0].matched_fields).toEqual([]);
+    expect(wordSimilarity('beatels', 'let it be the beatles')).toBeCloseTo(0.5);
+  });
+
+  it('excludes negated words and matches stems', () => {
+    expect(rankTracks(CATALOG, 'synth-pop -sampled').map(h => h.track.id)).toEqual(['1']);
+    expect(rankTracks(CATALOG, 'record').map(h => h.track.id).sort()).toEqual(['1', '2']);
+  });
+});
+
+describe('highlightSegments', () => {
+  it('splits marked text into runs', () => {
+    expect(highlightSegments('a \u0001b\u0002 c')).toEqual([
+      { text: 'a ', highlighted: false },
+      { text: 'b', highlighted: true },
+      { text: ' c', highlighted: false },
+    ]);
+  });
+});
+
+describe('searchCatalog', () => {
+  it('uses search_catalog and falls back to the seed catalog', async () => {
+    rpc.mockResolvedValueOnce({
+      data: [{ track: { id: 'db-1', title: 'Let It Be', artist: 'The Beatles' }, rank: 0.8, snippet: null, matched_fields: ['title'] }],
+      error: null,
+    });
+    const fromDb = await searchCatalog('let it be', { limit: 5 });
+    expect(rpc).toHaveBeenCalledWith('search_catalog', { p_query: 'let it be', p_limit: 5, p_offset: 0 });
+    expect(fromDb.source).toBe('database');
+    expect(fromDb.hits[0]).toMatchObject({ track: { id: 'db-1' }, snippet: '', matched_fields: ['title'] });
+
+    rpc.mockResolvedValueOnce({ data: null, error: { message: 'function does not exist' } });
+    const fromSeed = await searchCatalog('blinding lights');
+    expect(fromSeed.source).toBe('seed');
+    expect(fromSeed.hits[0].track.title).toBe('Blinding Lights');
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPromotedFingerprint,
+  computeConsensus,
+  normalizeKey,
+  parseNumeralList,
+  preserveCrowdCorrection,
+  reputationWeight,
+  type ConsensusSubmission,
+} from '@/lib/chordConsensus';
+import type { HarmonicFingerprint } from '@/types/harmony';
+
+let sequence = 0;
+const submission = (
+  user_id: string,
+  progression_roman: string[] | undefined,
+  overrides: Partial<ConsensusSubmission> = {}
+): ConsensusSubmission => ({
+  id: `s${++sequence}`,
+  user_id,
+  progression_roman,
+  detected_key: 'C',
+  detected_mode: 'major',
+  status: 'pending',
+  created_at: `2026-02-01T00:00:${String(sequence).padStart(2, '0')}Z`,
+  ...overrides,
+});
+
+const AXIS = ['I', 'V', 'vi', 'IV'];
+
+const existing: HarmonicFingerprint = {
+  track_id: 't1',
+  tonal_center: { root_interval: 2, mode: 'dorian', stability_score: 0.6 },
+  roman_progression: [{ numeral: 'i', quality: 'minor' }, { numeral: 'IV', quality: 'major' }],
+  loop_length_bars: 8,
+  cadence_type: 'modal',
+  tempo_bpm: 96,
+  confidence_score: 0.55,
+  analysis_timestamp: '2026-01-01T00:00:00Z',
+  analysis_version: '2.0.0',
+  is_provisional: true,
+  detected_key: 'D',
+  detected_mode: 'dorian',
+};
+
+describe('reputationWeight', () => {
+  it('starts newcomers at 1 and rewards accepted history', () => {
+    expect(reputationWeight()).toBe(1);
+    expect(reputationWeight({ approved: 10, rejected: 1 })).toBeGreaterThan(2);
+    expect(reputationWeight({ approved: 0, rejected: 5 })).toBeLessThan(0.5);
+    expect(reputationWeight({ approved: 0, rejected: 0, is_moderator: true })).toBe(2);
+  });
+});
+
+describe('computeConsensus', () => {
+  it('groups rotated submissions into one proposal', () => {
+    const result = computeConsensus(
+      [
+        submission('a', AXIS),
+        submission('b', ['vi', 'IV', 'I', 'V']),
+        submission('c', [...AXIS, ...AXIS]),
+      ],
+      [],
+      {}
+    );
+
+    expect(result.proposals).toHaveLength(1);
+    expect(result.proposal?.contributors.sort()).toEqual(['a', 'b', 'c']);
+    expect(result.status).toBe('needs_review');
+  });
+
+  it('promotes strong consensus from reputable contributors', () => {
+    const result = computeConsensus(
+      [submission('a', AXIS), submission('b', AXIS), submission('c', AXIS)],
+      [],
+      { a: 2, b: 2, c: 2 }
+    );
+
+    expect(result.proposal?.support).toBe(6);
+    expect(result.status).toBe('promote');
+  });
+
+  it('stays open when contributors disagree', () => {
+    const result = computeConsensus(
+      [submission('a', AXIS), submission('b', ['i', 'iv', 'V', 'i'], { detected_mode: 'minor', detected_key: 'A' })],
+      [{ submission_id: `s${sequence}`, user_id: 'voter', vote: 1 }],
+      {}
+    );
+
+    expect(result.proposals).toHaveLength(2);
+    expect(result.proposal?.detected_key).toBe('A');
+    expect(result.proposal?.share).toBeCloseTo(2 / 3, 2);
+    expect(result.status).toBe('open');
+  });
+
+  it('weights near-misses and votes by reputation', () => {
+    const exact = submission('a', AXIS);
+    const result = computeConsensus(
+      [exact, submission('b', ['I', 'V', 'vi', 'ii'])],
+      [
+        { submission_id: exact.id, user_id: 'fan', vote: 1 },
+        { submission_id: exact.id, user_id: 'troll', vote: -1 },
+      ],
+      { a: 1, b: 1, fan: 2, troll: 0.2 }
+    );
+
+    const axis = result.proposals.find(p => p.submission_ids.includes(exact.id))!;
+    // a (1) + b's partial agreement (~0.8) + fan (2) - troll (0.2)
+    expect(axis.support).toBeGreaterThan(3.4);
+    expect(axis.support).toBeLessThan(3.8);
+    expect(axis.contributors.sort()).toEqual(['a', 'b', 'fan']);
+  });
+
+  it('treats moderator approval as decisive and ignores rejected submissions', () => {
+    const approved = submission('a', AXIS, { status: 'approved', moderated_by: 'mod' });
+    const result = computeConsensus(
+      [
+        approved,
+        submission('b', ['ii', 'V', 'I']),
+        submission('c', ['ii', 'V', 'I']),
+        submission('d', ['IV', 'V'], { status: 'rejected', moderated_by: 'mod' }),
+      ],
+      [],
+      {}
+    );
+
+    expect(result.status).toBe('promote');
+    expect(result.proposal?.approved_by).toBe('mod');
+    expect(result.proposals.flatMap(p => p.submission_ids)).not.toContain(`s${sequence}`);
+  });
+
+  it('reports no consensus without open submissions', () => {
+    expect(computeConsensus([], [], {})).toEqual({ status: 'none', proposal: null, proposals: [] });
+  });
+});
+
+describe('buildPromotedFingerprint', () => {
+  const proposal = {
+    progression_roman: ['i', 'VII', 'VI', 'VII'],
+    detected_key: 'D',
+    detected_mode: 'minor' as const,
+    submission_ids: ['s1', 's2'],
+    support: 4,
+    share: 0.8,
+    contributors: ['a', 'b'],
+  };
+
+  it('writes the proposal with provenance and keeps other fields', () => {
+    const promoted = buildPromotedFingerprint('t1', proposal, existing, '2026-02-02T00:00:00Z');
+
+    expect(promoted.roman_progression.map(c => c.numeral)).toEqual(['i', 'VII', 'VI', 'VII']);
+    expect(promoted.roman_progression[0].quality).toBe('minor');
+    // "minor" from the crowd does not erase the dorian color
+    expect(promoted.tonal_center).toEqual({ root_interval: 2, mode: 'dorian', stability_score: 0.6 });
+    expect(promoted.loop_length_bars).toBe(8);
+    expect(promoted.tempo_bpm).toBe(96);
+    expect(promoted.is_provisional).toBe(false);
+    expect(promoted.confidence_score).toBeCloseTo(0.94, 3);
+    expect(promoted.analysis_method).toBe('crowd_sourced');
+    expect(promoted.provenance).toMatchObject({
+      submission_ids: ['s1', 's2'],
+      approved_by: null,
+      promoted_at: '2026-02-02T00:00:00Z',
+      previous: { detected_key: 'D', confidence_score: 0.55 },
+    });
+    expect(promoted.embedding?.length).toBeGreaterThan(0);
+  });
+
+  it('builds a fingerprint for tracks never analysed', () => {
+    const promoted = buildPromotedFingerprint('t2', { ...proposal, detected_key: 'A#' }, null);
+
+    expect(promoted.tonal_center.root_interval).toBe(10);
+    expect(promoted.tonal_center.mode).toBe('minor');
+    expect(promoted.loop_length_bars).toBe(4);
+    expect(promoted.provenance?.previous).toBeNull();
+  });
+});
+
+describe('preserveCrowdCorrection', () => {
+  it('keeps crowd progressions when re-analysing', () => {
+    const crowd = buildPromotedFingerprint('t1', {
+      progression_roman: AXIS,
+      detected_key: 'C',
+      detected_mode: 'major',
+      submission_ids: ['s1'],
+      support: 6,
+      share: 1,
+      contributors: ['a'],
+    }, existing);
+    const fresh = { ...existing, tempo_bpm: 100, analysis_version: '2.1.0' };
+
+    const merged = preserveCrowdCorrection(fresh, crowd);
+    expect(merged.roman_progression.map(c => c.numeral)).toEqual(AXIS);
+    expect(merged.tempo_bpm).toBe(100);
+    expect(merged.analysis_version).toBe('2.1.0');
+    expect(merged.analysis_method).toBe('crowd_sourced');
+
+    expect(preserveCrowdCorrection(fresh, existing)).toBe(fresh);
+  });
+});
+
+describe('input helpers', () => {
+  it('parses numeral lists', () => {
+    expect(parseNumeralList('vi - IV - I - V')).toEqual({ numerals: ['vi', 'IV', 'I', 'V'], invalid: [] });
+    expect(parseNumeralList('ii7, V7/V | Imaj7 Cmaj7')).toEqual({ numerals: ['ii7', 'V7/V', 'Imaj7'], invalid: ['Cmaj7'] });
+  });
+
+  it('normalizes key spellings', () => {
+    expect(normalizeKey('Bb')).toBe('A#');
+    expect(normalizeKey('f#')).toBe('F#');
+    expect(normalizeKey('H')).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chartToRoman,
+  inferChartKey,
+  parseChordChart,
+  parseChordSymbol,
+  relativeKey,
+  renderChordChart,
+  renderChordSymbol,
+} from '@/lib/chordSymbols';
+
+const numerals = (text: string) => chartToRoman(text).progression.map(c => c.numeral);
+
+describe('parseChordSymbol', () => {
+  it('maps symbols to stored qualities', () => {
+    const quality = (symbol: string) => parseChordSymbol(symbol)?.quality;
+
+    expect(quality('C')).toBe('major');
+    expect(quality('Am')).toBe('minor');
+    expect(quality('F#m7')).toBe('minor7');
+    expect(quality('Ebmaj9')).toBe('major7');
+    expect(quality('CΔ')).toBe('major7');
+    expect(quality('G13')).toBe('dominant7');
+    expect(quality('E7b9')).toBe('dominant7');
+    expect(quality('Bdim')).toBe('diminished');
+    expect(quality('B°7')).toBe('diminished7');
+    expect(quality('C#m7b5')).toBe('half-diminished7');
+    expect(quality('F#ø')).toBe('half-diminished7');
+    expect(quality('Caug')).toBe('augmented');
+    expect(quality('Dsus')).toBe('sus4');
+    expect(quality('G7sus4')).toBe('sus4');
+    expect(quality('Bbsus2')).toBe('sus2');
+    expect(quality('Cadd9')).toBe('add9');
+    expect(parseChordSymbol('H7')).toBeNull();
+    expect(parseChordSymbol('Cxyz')).toBeNull();
+  });
+
+  it('reads slash basses as inversions when they are chord tones', () => {
+    expect(parseChordSymbol('D/F#')).toMatchObject({ root: 2, bass: 6, inversion: 1 });
+    expect(parseChordSymbol('C/G')).toMatchObject({ root: 0, bass: 7, inversion: 2 });
+    expect(parseChordSymbol('G7/F')).toMatchObject({ quality: 'dominant7', inversion: 3 });
+    // Bass outside the chord: root position over a pedal
+    expect(parseChordSymbol('C/D')).toMatchObject({ bass: 2, inversion: 0 });
+  });
+});
+
+describe('parseChordChart', () => {
+  it('splits bars between their chords and repeats with %', () => {
+    const { chords, invalid } = parseChordChart('Cmaj7 | A7 | Dm7 G7 | % |');
+
+    expect(invalid).toEqual([]);
+    expect(chords.map(c => [c.symbol, c.duration_beats])).toEqual([
+      ['Cmaj7', 4],
+      ['A7', 4],
+      ['Dm7', 2],
+      ['G7', 6],
+    ]);
+    expect(parseChordChart('Am, F C G').chords.every(c => c.duration_beats === 4)).toBe(true);
+    expect(parseChordChart('Am F X7').invalid).toEqual(['X7']);
+  });
+});
+
+describe('inferChartKey', () => {
+  it('prefers the key the chart opens, closes or cadences in', () => {
+    const key = (text: string) => inferChartKey(parseChordChart(text).chords);
+
+    expect(key('G D Em C')).toEqual({ tonic: 7, mode: 'major' });
+    expect(key('Am F C G')).toEqual({ tonic: 9, mode: 'minor' });
+    expect(key('Dm7 G7 Cmaj7')).toEqual({ tonic: 0, mode: 'major' });
+    expect(key('Em7b5 A7 Dm')).toEqual({ tonic: 2, mode: 'minor' });
+  });
+});
+
+describe('chartToRoman', () => {
+  it('produces numerals with qualities, durations and inversions', () => {
+    expect(numerals('Cmaj7 | A7 | Dm7 G7')).toEqual(['Imaj7', 'VI7', 'ii7', 'V7']);
+    expect(numerals('Am Dm E7 Am')).toEqual(['i', 'iv', 'V7', 'i']);
+    expect(numerals('Am G F E')).toEqual(['i', 'VII', 'VI', 'V']);
+
+    const { progression } = chartToRoman('C G/B Am F');
+    expect(progression[1]).toMatchObject({ numeral: 'V', quality: 'major', inversions: 1, duration_beats: 4 });
+  });
+
+  it('reads the chart in a given key', () => {
+    expect(chartToRoman('Am F C G', { tonic: 0, mode: 'major' }).progression.map(c => c.numeral))
+      .toEqual(['vi', 'IV', 'I', 'V']);
+  });
+
+  it('reads the chart in the relative key', () => {
+    const inferred = chartToRoman('Am F C G').key!;
+
+    expect(relativeKey(inferred)).toEqual({ tonic: 0, mode: 'major' });
+    expect(relativeKey({ tonic: 7, mode: 'major' })).toEqual({ tonic: 4, mode: 'minor' });
+    expect(chartToRoman('Am F C G', relativeKey(inferred)).progression.map(c => c.numeral))
+      .toEqual(['vi', 'IV', 'I', 'V']);
+  });
+});
+
+describe('renderChordSymbol', () => {
+  it('round-trips a chart and transposes it to any key', () => {
+    const { progression } = chartToRoman('C C7/E F Fm6 C/G G7sus4 C');
+    const inKey = (root_interval: number) =>
+      renderChordChart(progression, { root_interval, mode: 'major', stability_score: 1 });
+
+    expect(inKey(0)).toEqual(['C', 'C7/E', 'F', 'Fm', 'C/G', 'Gsus4', 'C']);
+    expect(inKey(2)).toEqual(['D', 'D7/F#', 'G', 'Gm', 'D/A', 'Asus4', 'D']);
+  });
+
+  it('spells flat keys and flat degrees with flats', () => {
+    const minor = { root_interval: 2, mode: 'minor' as const, stability_score: 1 };
+
+    expect(renderChordChart(chartToRoman('Am G F E').progression, minor)).toEqual(['Dm', 'C', 'Bb', 'A']);
+    expect(renderChordSymbol({ numeral: 'bVII', quality: 'major' }, { root_interval: 0, mode: 'major', stability_score: 1 }))
+      .toBe('Bb');
+    expect(renderChordSymbol({ numeral: 'iiø7', quality: 'half-diminished7' }, { root_interval: 4, mode: 'major', stability_score: 1 }, 'C'))
+      .toBe('F#m7b5');
+  });
+
+  it('reads flat degrees typed in minor in the minor frame', () => {
+    const cMinor = { root_interval: 0, mode: 'minor' as const, stability_score: 1 };
+
+    expect(renderChordSymbol({ numeral: 'bVII', quality: 'major' }, cMinor)).toBe('Bb');
+    expect(renderChordSymbol({ numeral: 'VII', quality: 'major' }, cMinor)).toBe('Bb');
+    expect(renderChordSymbol({ numeral: 'bVI', quality: 'major' }, cMinor)).toBe('Ab');
+  });
+
+  it('takes a reference key spelled flat', () => {
+    const tonic = { root_interval: 0, mode: 'major' as const, stability_score: 1 };
+
+    expect(renderChordChart(chartToRoman('C F G7 Am').progression, tonic, 'Bb')).toEqual(['Bb', 'Eb', 'F7', 'Gm']);
+    expect(renderChordSymbol({ numeral: 'VI', quality: 'major' }, { ...tonic, root_interval: 2, mode: 'minor' }, 'Eb'))
+      .toBe('Db');
+    expect(renderChordSymbol({ numeral: 'V', quality: 'major' }, tonic, 'H')).toBe('V');
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker, CIRCUIT_CONFIG, LatencyHistogram } from '@/lib/connectors/circuitBreaker';
+import { ProviderRequestError, searchWithTimeout } from '@/lib/connectors/base';
+import { ReplayTransport } from '@/lib/connectors/recordReplay';
+import { msUntilPacificMidnight, YouTubeConnector } from '@/lib/connectors/youtube';
+import { loadFixture } from './fixtures/loadFixture';
+
+const clock = () => {
+  let now = 0;
+  return { now: () => now, advance: (ms: number) => { now += ms; } };
+};
+
+describe('CircuitBreaker', () => {
+  it('opens after repeated failures and lets one half-open probe through', () => {
+    const time = clock();
+    const breaker = new CircuitBreaker(time.now);
+
+    for (let i = 0; i < CIRCUIT_CONFIG.FAILURE_THRESHOLD; i++) {
+      expect(breaker.tryAcquire()).toBe(true);
+      breaker.recordFailure(new Error('boom'), 100);
+    }
+    expect(breaker.currentState).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    time.advance(CIRCUIT_CONFIG.COOLDOWN_MS);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.currentState).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(false); // Probe already in flight
+
+    // A failed probe doubles the cooldown
+    breaker.recordFailure(new Error('still down'), 100);
+    time.advance(CIRCUIT_CONFIG.COOLDOWN_MS);
+    expect(breaker.tryAcquire()).toBe(false);
+    time.advance(CIRCUIT_CONFIG.COOLDOWN_MS);
+    expect(breaker.tryAcquire()).toBe(true);
+
+    breaker.recordSuccess(80);
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'closed',
+      consecutive_failures: 0,
+      successes: 1,
+      failures: 4,
+      rejected: 3,
+      retry_at: null,
+      last_error: 'still down',
+    });
+  });
+
+  it('opens at once on quota errors, for as long as the provider asks', () => {
+    const time = clock();
+    const breaker = new CircuitBreaker(time.now);
+
+    breaker.recordFailure(new ProviderRequestError('quota', 403, { quotaExceeded: true, retryAfterMs: 120_000 }));
+    expect(breaker.currentState).toBe('open');
+    expect(breaker.snapshot().retry_at).toBe(new Date(120_000).toISOString());
+
+    time.advance(119_999);
+    expect(breaker.tryAcquire()).toBe(false);
+    time.advance(1);
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('opens at once on rate limits, for a short pause by default', () => {
+    const time = clock();
+    const breaker = new CircuitBreaker(time.now);
+
+    breaker.recordFailure(new ProviderRequestError('slow down', 429, { rateLimited: true }));
+    expect(breaker.currentState).toBe('open');
+    expect(breaker.snapshot().retry_at).toBe(new Date(CIRCUIT_CONFIG.RATE_LIMIT_COOLDOWN_MS).toISOString());
+  });
+
+  it('reports latency percentiles as bucket bounds', () => {
+    const histogram = new LatencyHistogram([100, 500, 1000]);
+    [50, 80, 90, 120, 400, 450, 700, 900, 950, 3000].forEach(ms => histogram.record(ms));
+
+    expect(histogram.snapshot()).toEqual({
+      count: 10,
+      mean_ms: 674,
+      p50_ms: 500,
+      p95_ms: null, // Slower than the last bucket
+      buckets: [
+        { le_ms: 100, count: 3 },
+        { le_ms: 500, count: 3 },
+        { le_ms: 1000, count: 3 },
+        { le_ms: null, count: 1 },
+      ],
+    });
+  });
+});
+
+describe('searchWithTimeout', () => {
+  const pending = (signal: AbortSignal) => new Promise<string>((_, reject) => {
+    signal.addEventListener('abort', () => reject(new Error('request cancelled')));
+  });
+
+  it('aborts the underlying request on timeout', async () => {
+    let requestSignal: AbortSignal | undefined;
+
+    await expect(searchWithTimeout(signal => {
+      requestSignal = signal;
+      return pending(signal);
+    }, 10, 'Test')).rejects.toThrow('Test timeout after 10ms');
+
+    expect(requestSignal?.aborted).toBe(true);
+  });
+
+  it('forwards cancellation from the caller', async () => {
+    const controller = new AbortController();
+    let requestSignal: AbortSignal | undefined;
+
+    const search = searchWithTimeout(signal => {
+      requestSignal = signal;
+      return pending(signal);
+    }, 5000, 'Test', controller.signal);
+    controller.abort(new Error('superseded'));
+
+    await expect(search).rejects.toThrow('superseded');
+    expect(requestSignal?.aborted).toBe(true);
+  });
+});
+
+describe('quota errors', () => {
+  it('flags YouTube quota exhaustion so the breaker can open', async () => {
+    const transport = new ReplayTransport(loadFixture('youtube', 'quota-exceeded'));
+    const connector = new YouTubeConnector('test-key', transport);
+    const error = await connector.searchTracks({ query: 'get lucky' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderRequestError);
+    expect(error).toMatchObject({ status: 403, quotaExceeded: true });
+    // Held until the daily quota resets, not probed hourly
+    expect(error.retryAfterMs).toBeGreaterThan(0);
+    expect(error.retryAfterMs).toBeLessThanOrEqual(25 * 60 * 60_000);
+  });
+
+  it('pauses YouTube only briefly on rate limits', async () => {
+    const fixture = loadFixture('youtube', 'quota-exceeded');
+    const body = fixture.exchanges[0].response.body as { error: { errors: Array<{ reason: string }> } };
+    body.error.errors[0].reason = 'rateLimitExceeded';
+    const connector = new YouTubeConnector('test-key', new ReplayTransport(fixture));
+    const error = await connector.searchTracks({ query: 'get lucky' }).catch(e => e);
+
+    expect(error).toMatchObject({ quotaExceeded: false, rateLimited: true, retryAfterMs: undefined });
+  });
+
+  it('counts down to midnight Pacific time, across DST changes', () => {
+    const hours = (h: number) => h * 60 * 60_000;
+
+    expect(msUntilPacificMidnight(Date.parse('2026-01-15T04:00:00Z'))).toBe(hours(4)); // 20:00 PST
+    expect(msUntilPacificMidnight(Date.parse('2026-07-01T06:30:00Z'))).toBe(hours(0.5)); // 23:30 PDT
+    // 00:30 on the days clocks spring forward and fall back
+    expect(msUntilPacificMidnight(Date.parse('2026-03-08T08:30:00Z'))).toBe(hours(22.5));
+    expect(msUntilPacificMidnight(Date.parse('2026-11-01T07:30:00Z'))).toBe(hours(24.5));
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { DeezerConnector } from '@/lib/connectors/deezer';
+import { ReplayTransport } from '@/lib/connectors/recordReplay';
+import { edgeProxyTransport } from '@/lib/connectors/edgeProxy';
+import type { HttpRequest } from '@/lib/connectors/base';
+import { loadFixture } from './fixtures/loadFixture';
+
+// Recorded responses from api.deezer.com
+const replay = (name: string) => new ReplayTransport(loadFixture('deezer', name));
+
+describe('DeezerConnector', () => {
+  it('normalizes search hits from a single request', async () => {
+    const transport = replay('search-get-lucky');
+
+    const tracks = await new DeezerConnector(transport).searchTracks({ query: 'get lucky', limit: 2 });
+
+    expect(transport.requests).toHaveLength(1);
+    expect(new URL(transport.requests[0].url).searchParams.get('q')).toBe('get lucky');
+    expect(tracks).toHaveLength(2);
+    expect(tracks[0]).toMatchObject({
+      provider: 'deezer',
+      provider_track_id: '67238735',
+      title: 'Get Lucky (feat. Pharrell Williams and Nile Rodgers)',
+      artists: ['Daft Punk'],
+      album: 'Random Access Memories',
+      duration_ms: 369_000,
+      url_web: 'https://www.deezer.com/track/67238735',
+      url_app: 'deezer://www.deezer.com/track/67238735',
+    });
+    expect(tracks[0].url_preview).toContain('hmac=search');
+    expect(tracks[0].artwork_url).toContain('1000x1000');
+    expect(tracks[0].available_markets).toBeUndefined();
+    expect(tracks[1]).toMatchObject({ provider_track_id: '66609426', artists: ['Daft Punk'], duration_ms: 248_000 });
+  });
+
+  it('surfaces API errors reported in the response body', async () => {
+    const connector = new DeezerConnector(replay('quota-exceeded'));
+
+    await expect(connector.searchTracks({ query: 'get lucky' }))
+      .rejects.toThrow('Deezer search failed: Quota limit exceeded (code 4)');
+    expect(await connector.checkHealth()).toBe(false);
+  });
+
+  it('resolves links with a fresh preview and falls back to generated URLs', async () => {
+    const connector = new DeezerConnector(replay('search-get-lucky'));
+
+    const links = await connector.resolveLinks('67238735');
+    expect(links.url_web).toBe('https://www.deezer.com/track/67238735');
+    expect(links.url_preview).toContain('hmac=track');
+    expect(links.available_markets).toEqual(['DE', 'FR', 'GB', 'NL', 'US']);
+    expect(await connector.checkHealth()).toBe(true);
+
+    const missing = await new DeezerConnector(replay('quota-exceeded')).resolveLinks('1');
+    expect(missing).toEqual({
+      provider: 'deezer',
+      provider_track_id: '1',
+      url_web: 'https://www.deezer.com/track/1',
+      url_app: 'deezer://www.deezer.com/track/1',
+    });
+  });
+
+  it('sends API requests through the proxy Edge Function', async () => {
+    const sent: HttpRequest[] = [];
+    const proxy = edgeProxyTransport('deezer-proxy', 'https://api.deezer.com', {
+      async request(request) {
+        sent.push(request);
+        return { status: 200, statusText: 'OK', headers: {}, body: '{"data":[]}' };
+      },
+    });
+
+    expect(await new DeezerConnector(proxy).searchTracks({ query: 'get lucky' })).toEqual([]);
+    expect(sent[0].url).toMatch(/\/functions\/v1\/deezer-proxy\/search\/track\?q=get\+lucky&limit=10$/);
+    expect(sent[0].headers).toHaveProperty('apikey');
+    await expect(proxy.request({ url: 'https://example.com/' })).rejects.toThrow('only proxies');
+  });
+});
@@ -0,0 +1,10 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { TransportFixture } from '@/lib/connectors/recordReplay';
+
+/**
+ * Recorded provider exchanges: src/test/fixtures/<provider>/<name>.json
+ */
+export function loadFixture(provider: string, name: string): TransportFixture {
+  return JSON.parse(readFileSync(resolve(__dirname, provider, `${name}.json`), 'utf8'));
+}
@@ -0,0 +1,92 @@
+/**
+ * WAV fixtures, synthesized so audio tests stay deterministic and offline
+ */
+
+const midiToHz = (midi: number) => 440 * 2 ** ((midi - 69) / 12);
+
+/**
+ * Sine-voiced chord loop (one chord per bar) with a kick on every beat
+ */
+export function synthLoop(chords: number[][], bpm: number, bars: number, sampleRate = 22050): Float32Array {
+  const beat = 60 / bpm;
+  const bar = beat * 4;
+  const total = Math.round(bars * bar * sampleRate);
+  const samples = new Float32Array(total);
+
+  for (let i = 0; i < total; i++) {
+    const t = i / sampleRate;
+    const chord = chords[Math.floor(t / bar) % chords.length];
+    let value = 0;
+    for (const note of chord) value += Math.sin(2 * Math.PI * midiToHz(note) * t);
+    const sinceBeat = t % beat;
+    value = value * 0.15 + Math.exp(-sinceBeat * 40) * Math.sin(2 * Math.PI * 60 * sinceBeat) * 0.5;
+    samples[i] = value;
+  }
+
+  return samples;
+}
+
+/**
+ * Microphone take of a strummed guitar loop: one down-strum per beat
+ * (strings staggered, harmonics decaying), no drums, a pause before the
+ * first strum and a little room noise
+ */
+export function strumLoop(chords: number[][], bpm: number, bars: number, sampleRate = 22050, leadSeconds = 1.5): Float32Array {
+  const beat = 60 / bpm;
+  const total = Math.round((bars * beat * 4 + leadSeconds + 1) * sampleRate);
+  const samples = new Float32Array(total);
+  let seed = 7;
+  const noise = () => (seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5;
+
+  for (let b = 0; b < bars * 4; b++) {
+    const chord = chords[Math.floor(b / 4) % chords.length];
+    chord.forEach((note, string) => {
+      const start = Math.round((leadSeconds + b * beat + string * 0.012) * sampleRate);
+      const hz = midiToHz(note);
+      for (let i = 0; i < beat * sampleRate * 1.2 && start + i < total; i++) {
+        const t = i / sampleRate;
+        let value = 0;
+        for (let h = 1; h <= 4; h++) value += Math.sin(2 * Math.PI * hz * h * t) / (h * h);
+        samples[start + i] += value * Math.exp(-t * 3) * 0.12;
+      }
+    });
+  }
+  for (let i = 0; i < total; i++) samples[i] += noise() * 0.01;
+
+  return samples;
+}
+
+/**
+ * 16-bit PCM WAV file
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const frames = channels[0].length;
+  const blockAlign = channels.length * 2;
+  const buffer = new ArrayBuffer(44 + frames * blockAlign);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) =>
+    tag.split('').forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + frames * blockAlign, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, frames * blockAlign, true);
+
+  for (let i = 0; i < frames; i++) {
+    channels.forEach((channel, c) => {
+      const clamped = Math.max(-1, Math.min(1, channel[i]));
+      view.setInt16(44 + i * blockAlign + c * 2, Math.round(clamped * 32767), true);
+    });
+  }
+
+  return buffer;
+}
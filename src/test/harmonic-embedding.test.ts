@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EMBEDDING_CONFIG,
+  EMBEDDING_DIM,
+  EmbeddingIndex,
+  embedFingerprint,
+  embeddingProbeKeys,
+  weightEmbedding,
+} from '@/lib/harmonicEmbedding';
+import type { CadenceType, ChordQuality, Mode, RomanChord } from '@/types/harmony';
+
+const chord = (numeral: string, quality: ChordQuality = 'major'): RomanChord => ({ numeral, quality });
+
+const fingerprint = (
+  progression: RomanChord[],
+  overrides: { cadence_type?: CadenceType; mode?: Mode; loop_length_bars?: number; tempo_bpm?: number } = {}
+) => ({
+  roman_progression: progression,
+  cadence_type: overrides.cadence_type ?? 'loop',
+  loop_length_bars: overrides.loop_length_bars ?? 4,
+  tempo_bpm: overrides.tempo_bpm ?? 120,
+  tonal_center: { root_interval: 0, mode: overrides.mode ?? 'major', stability_score: 0.9 },
+});
+
+const AXIS = [chord('I'), chord('V'), chord('vi', 'minor'), chord('IV')];
+const AXIS_FROM_VI = [chord('vi', 'minor'), chord('IV'), chord('I'), chord('V')];
+const CADENCE = [chord('i', 'minor'), chord('iv', 'minor'), chord('V'), chord('i', 'minor')];
+
+const cosine = (a: number[], b: number[]) => {
+  const wa = weightEmbedding(a);
+  const wb = weightEmbedding(b);
+  return wa.reduce((sum, value, i) => sum + value * wb[i], 0);
+};
+
+describe('embedFingerprint', () => {
+  it('is deterministic and versioned', () => {
+    const first = embedFingerprint(fingerprint(AXIS));
+    const second = embedFingerprint(fingerprint(AXIS));
+
+    expect(first).toEqual(second);
+    expect(first.embedding).toHaveLength(EMBEDDING_DIM);
+    expect(first.embedding_version).toBe(EMBEDDING_CONFIG.VERSION);
+    expect(first.embedding_buckets).toHaveLength(EMBEDDING_CONFIG.LSH_TABLES);
+    expect(first.embedding_buckets[0]).toMatch(/^0:[0-9a-f]{3}$/);
+  });
+
+  it('embeds rotated and repeated loops identically', () => {
+    const axis = embedFingerprint(fingerprint(AXIS));
+
+    expect(embedFingerprint(fingerprint(AXIS_FROM_VI)).embedding).toEqual(axis.embedding);
+    expect(embedFingerprint(fingerprint([...AXIS, ...AXIS])).embedding).toEqual(axis.embedding);
+  });
+
+  it('places variations closer than unrelated progressions', () => {
+    const axis = embedFingerprint(fingerprint(AXIS)).embedding;
+    const variation = embedFingerprint(fingerprint([chord('I'), chord('V7', 'dominant7'), chord('vi', 'minor'), chord('IV')])).embedding;
+    const minor = embedFingerprint(fingerprint(CADENCE, { cadence_type: 'authentic', mode: 'minor' })).embedding;
+
+    expect(cosine(axis, axis)).toBeCloseTo(1, 6);
+    expect(cosine(axis, variation)).toBeGreaterThan(0.8);
+    expect(cosine(axis, minor)).toBeLessThan(cosine(axis, variation));
+  });
+
+  it('probes the stored bucket and its one-bit neighbours', () => {
+    const { embedding, embedding_buckets } = embedFingerprint(fingerprint(AXIS));
+    const probes = embeddingProbeKeys(embedding);
+
+    expect(probes).toHaveLength(EMBEDDING_CONFIG.LSH_TABLES * (EMBEDDING_CONFIG.LSH_BITS + 1));
+    expect(probes).toEqual(expect.arrayContaining(embedding_buckets));
+  });
+});
+
+describe('EmbeddingIndex', () => {
+  const index = new EmbeddingIndex();
+  const add = (id: string, progression: RomanChord[], overrides = {}) =>
+    index.add(id, embedFingerprint(fingerprint(progression, overrides)).embedding);
+
+  add('axis', AXIS);
+  add('axis-rotated', AXIS_FROM_VI, { tempo_bpm: 96 });
+  add('axis-seventh', [chord('I'), chord('V7', 'dominant7'), chord('vi', 'minor'), chord('IV')]);
+  add('minor', CADENCE, { cadence_type: 'authentic', mode: 'minor', loop_length_bars: 8 });
+  add('vamp', [chord('i', 'minor'), chord('VII'), chord('VI'), chord('VII')], { mode: 'aeolian', tempo_bpm: 80 });
+  add('blues', [chord('I7', 'dominant7'), chord('IV7', 'dominant7'), chord('I7', 'dominant7'), chord('V7', 'dominant7')], { loop_length_bars: 12 });
+
+  it('returns nearest neighbours first', () => {
+    const query = embedFingerprint(fingerprint(AXIS)).embedding;
+    const neighbors = index.query(query, 3, { exclude: 'axis' });
+
+    expect(neighbors.map(n => n.id)).toEqual(['axis-rotated', 'axis-seventh', expect.any(String)]);
+    expect(neighbors[0].score).toBeGreaterThan(neighbors[2].score);
+  });
+
+  it('forgets removed entries', () => {
+    const query = embedFingerprint(fingerprint(AXIS)).embedding;
+    index.remove('axis-rotated');
+
+    expect(index.size).toBe(5);
+    expect(index.query(query, 5).map(n => n.id)).not.toContain('axis-rotated');
+  });
+});
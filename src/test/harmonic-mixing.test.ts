@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { Track } from '@/types';
+import { toCamelot, formatCamelot, transition, planAutoDj } from '@/lib/harmonicMixing';
+
+const track = (id: string, artist: string, detected_key?: string, tempo?: number): Track =>
+  ({ id, title: id, artist, detected_key, tempo }) as Track;
+
+describe('toCamelot', () => {
+  it('places keys on the wheel', () => {
+    const camelot = (key: string, mode?: string) => {
+      const position = toCamelot(key, mode);
+      return position && formatCamelot(position);
+    };
+
+    expect(camelot('C')).toBe('8B');
+    expect(camelot('Am')).toBe('8A');
+    expect(camelot('F#m')).toBe('11A');
+    expect(camelot('C#', 'major')).toBe('3B');
+    expect(camelot('Bb minor')).toBe('3A');
+    expect(camelot('A', 'minor')).toBe('8A');
+    expect(toCamelot('H')).toBeNull();
+  });
+});
+
+describe('transition', () => {
+  it('scores neighbours on the wheel above clashes', () => {
+    const from = track('a', 'X', 'Am', 122);
+    const up = transition(from, track('b', 'Y', 'Em', 124));
+    const relative = transition(from, track('c', 'Y', 'C', 122));
+    const clash = transition(from, track('d', 'Y', 'F#', 122));
+
+    expect(up.keyRelation).toBe('fifth-up');
+    expect(relative.keyRelation).toBe('relative');
+    expect(clash.keyRelation).toBe('clash');
+    expect(up.score).toBeGreaterThan(clash.score);
+    expect(relative.score).toBeGreaterThan(clash.score);
+  });
+
+  it('counts half and double time as matching tempos', () => {
+    expect(transition(track('a', 'X', 'C', 70), track('b', 'Y', 'C', 140)).tempoMatch).toBe(1);
+    expect(transition(track('a', 'X', 'C', 100), track('b', 'Y', 'C', 120)).tempoMatch).toBe(0);
+    expect(transition(track('a', 'X', 'C'), track('b', 'Y', 'C', 120)).tempoMatch).toBeNull();
+  });
+});
+
+describe('planAutoDj', () => {
+  const current = track('now', 'Seed Artist', 'Am', 120);
+
+  it('chains the smoothest transitions and explains each pick', () => {
+    const picks = planAutoDj(current, [
+      { track: track('clash', 'A', 'F#', 120), similarity: 0.9 },
+      { track: track('fifth', 'B', 'Em', 121), similarity: 0.7, similarityReason: 'same progression' },
+      { track: track('next', 'C', 'Bm', 121), similarity: 0.7 },
+    ]);
+
+    expect(picks.map(p => p.track.id)).toEqual(['fifth', 'next', 'clash']);
+    expect(picks[0].reason).toBe('8A → 9A, up a fifth · 120 → 121 BPM · same progression');
+  });
+
+  it('skips recent artists and tracks already heard', () => {
+    const picks = planAutoDj(
+      current,
+      [
+        { track: track('same-artist', 'Seed Artist', 'Am', 120), similarity: 1 },
+        { track: track('played', 'D', 'Am', 120), similarity: 1 },
+        { track: track('dup-1', 'E', 'Am', 120), similarity: 0.8 },
+        { track: track('dup-2', 'E', 'Am', 120), similarity: 0.8 },
+      ],
+      { recent: [track('played', 'D', 'Am', 120)], count: 5 }
+    );
+
+    expect(picks.map(p => p.track.id)).toEqual(['dup-1']);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LISTENING_PARTY_CONFIG,
+  electHost,
+  estimateClockOffset,
+  expectedPositionMs,
+  isFromHost,
+  parsePartyEnvelope,
+  parsePartyMessage,
+  syncAction,
+  type LocalPlayback,
+  type PartyState,
+} from '@/lib/listeningParty';
+
+const host: PartyState = {
+  canonicalTrackId: 'track-1',
+  provider: 'spotify',
+  providerTrackId: 'sp-1',
+  title: 'Song',
+  artist: 'Artist',
+  positionMs: 60000,
+  isPlaying: true,
+  sentAt: 1_000_000,
+};
+
+const following: LocalPlayback = {
+  canonicalTrackId: 'track-1',
+  providerTrackId: 'sp-1',
+  provider: 'spotify',
+  positionMs: 62000,
+  isPlaying: true,
+};
+
+describe('listening party sync', () => {
+  it('projects the host position on the host clock', () => {
+    expect(expectedPositionMs(host, 1_002_000)).toBe(62000);
+    expect(expectedPositionMs({ ...host, isPlaying: false }, 1_002_000)).toBe(60000);
+  });
+
+  it('estimates the clock offset from the fastest round trip', () => {
+    // Host clock runs 5s ahead; the slow sample would skew the estimate
+    expect(
+      estimateClockOffset([
+        { t0: 1000, hostTime: 6400, t1: 1800 },
+        { t0: 2000, hostTime: 7050, t1: 2100 },
+      ])
+    ).toBe(5000);
+    expect(estimateClockOffset([])).toBe(0);
+  });
+
+  it('loads, plays and pauses to match the host', () => {
+    const options = { now: 1_002_000, clockOffsetMs: 0, lastSeekAt: null };
+
+    expect(syncAction({ ...following, providerTrackId: 'sp-2' }, host, options)).toEqual({
+      type: 'load',
+      positionMs: 62000 + LISTENING_PARTY_CONFIG.LOAD_LEAD_MS,
+    });
+    expect(syncAction({ ...following, isPlaying: false }, host, options)).toEqual({ type: 'play', positionMs: 62000 });
+    expect(syncAction(following, { ...host, isPlaying: false }, options)).toEqual({ type: 'pause' });
+    expect(syncAction(following, host, options)).toEqual({ type: 'none', driftMs: 0 });
+  });
+
+  it('seeks past the drift tolerance, but not during the cooldown', () => {
+    // Guest clock 3s behind the host's: in sync only once the offset is known
+    const options = { now: 999_000, clockOffsetMs: 3000, lastSeekAt: null };
+    expect(syncAction(following, host, options).type).toBe('none');
+    expect(syncAction(following, host, { ...options, clockOffsetMs: 0 }).type).toBe('seek');
+
+    const lagging = { ...following, positionMs: 59000 };
+    expect(syncAction(lagging, host, options)).toEqual({ type: 'seek', positionMs: 62000, driftMs: -3000 });
+    expect(syncAction(lagging, host, { ...options, lastSeekAt: 998_000 }).type).toBe('none');
+  });
+
+  it('rejects malformed messages', () => {
+    expect(parsePartyMessage({ type: 'state', state: host })).toEqual({ type: 'state', state: host });
+    expect(parsePartyMessage({ type: 'state', state: { ...host, provider: 'deezer' } })).toBeNull();
+    expect(parsePartyMessage({ type: 'pong', to: 'guest', t0: 1 })).toBeNull();
+    expect(parsePartyMessage('ping')).toBeNull();
+  });
+
+  it('takes the sender from the relay envelope', () => {
+    expect(parsePartyEnvelope({ sender: 'host', message: { type: 'end' } })).toEqual({
+      sender: 'host',
+      message: { type: 'end' },
+    });
+    expect(parsePartyEnvelope({ type: 'state', state: host })).toBeNull();
+    expect(parsePartyEnvelope({ sender: '', message: { type: 'end' } })).toBeNull();
+  });
+});
+
+describe('listening party hosting', () => {
+  it('elects the host the server recorded, while they are present and hosting', () => {
+    const record = { host_id: 'b', started_at: '2026-02-15T12:00:00Z' };
+    const members = [
+      { user_id: 'a', role: 'host' },
+      { user_id: 'b', role: 'host' },
+      { user_id: 'c', role: 'guest' },
+    ];
+
+    expect(electHost(record, members)?.user_id).toBe('b');
+    // Claiming to host in presence elects nobody
+    expect(electHost(null, members)).toBeNull();
+    expect(electHost(record, members.filter(m => m.user_id !== 'b'))).toBeNull();
+    expect(electHost(record, [{ user_id: 'b', role: 'listener' }])).toBeNull();
+  });
+
+  it('takes state, end and pong messages from the elected host only', () => {
+    expect(isFromHost({ sender: 'host', message: { type: 'state', state: host } }, 'host')).toBe(true);
+    expect(isFromHost({ sender: 'host', message: { type: 'end' } }, null)).toBe(false);
+    expect(isFromHost({ sender: 'guest', message: { type: 'ping', t0: 1 } }, 'host')).toBe(true);
+  });
+
+  it("ignores a non-host's state or pong that names the host", () => {
+    // Payload fields are the sender's to write; only the relay's sender counts
+    const forgedState = parsePartyEnvelope({
+      sender: 'rival',
+      message: { type: 'state', state: { ...host, hostId: 'host' } },
+    });
+    const forgedPong = parsePartyEnvelope({
+      sender: 'rival',
+      message: { type: 'pong', to: 'guest', t0: 1, hostTime: 9_999_999, from: 'host' },
+    });
+
+    expect(forgedState && isFromHost(forgedState, 'host')).toBe(false);
+    expect(forgedPong && isFromHost(forgedPong, 'host')).toBe(false);
+  });
+});
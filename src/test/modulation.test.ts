@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  labelModulations,
+  matchesModulationFilter,
+  modulationSection,
+  type TimedSection,
+} from '@/lib/modulation';
+import type { Modulation } from '@/types/harmony';
+
+const modulation = (
+  timestamp_ms: number,
+  root_interval: number,
+  mode: 'major' | 'minor',
+  interval_semitones: number
+): Modulation => ({
+  timestamp_ms,
+  tonal_center: { root_interval, mode, stability_score: 0.8 },
+  interval_semitones,
+  pivot_chord: null,
+  confidence: 0.8,
+});
+
+// G major: verse, chorus, verse, chorus, bridge in E minor, last chorus in A
+const sections: TimedSection[] = [
+  { label: 'verse', start_ms: 0, end_ms: 20_000 },
+  { label: 'chorus', start_ms: 20_000, end_ms: 40_000 },
+  { label: 'verse', start_ms: 40_000, end_ms: 60_000 },
+  { label: 'chorus', start_ms: 60_000, end_ms: 80_000 },
+  { label: 'bridge', start_ms: 80_000, end_ms: 100_000 },
+  { label: 'chorus', start_ms: 100_000, end_ms: 120_000 },
+];
+
+const timeline = [
+  modulation(80_500, 4, 'minor', -3),
+  modulation(99_000, 9, 'major', 5),
+];
+
+describe('labelModulations', () => {
+  it('describes each change relative to the key it leaves', () => {
+    const labels = labelModulations({ root_interval: 7, mode: 'major' }, timeline);
+
+    expect(labels.map(l => l.short)).toEqual(['↓3 Em', '↑5 A']);
+    expect(labels.map(l => l.long)).toEqual([
+      'To the relative minor (E minor)',
+      'Up a fourth to A major',
+    ]);
+  });
+});
+
+describe('modulation sections', () => {
+  it('places a change just before a section boundary in the next section', () => {
+    expect(modulationSection(timeline[1], sections)).toMatchObject({ index: 5, is_last: true });
+    expect(modulationSection(timeline[0], sections)).toMatchObject({ index: 4 });
+  });
+
+  it('matches filters on interval, direction, target mode and section', () => {
+    expect(matchesModulationFilter(timeline, { interval_semitones: 5, section: 'chorus', last_section: true }, sections)).toBe(true);
+    expect(matchesModulationFilter(timeline, { to_mode: 'minor', section: 'bridge' }, sections)).toBe(true);
+    expect(matchesModulationFilter(timeline, { direction: 'down', section: 'chorus' }, sections)).toBe(false);
+    expect(matchesModulationFilter(timeline, { interval_semitones: 2 })).toBe(false);
+    // Without sections, "last" means the final key change
+    expect(matchesModulationFilter(timeline, { direction: 'down', last_section: true })).toBe(false);
+    expect(matchesModulationFilter([], {})).toBe(false);
+  });
+});
@@ -3,6 +3,7 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import { BottomNav } from '@/components/BottomNav';
 import { QuickStreamButtons } from '@/components/QuickStreamButtons';
+import type { TrackProviderInfo } from '@/lib/providers';
 
 const openPlayerMock = vi.fn();
 
@@ -16,6 +17,11 @@ vi.mock('@/hooks/useAuth', () => ({
   useAuth: () => ({ user: { id: 'test-user' }, loading: false }),
 }));
 
+vi.mock('@/hooks/api/useRegionalLinks', async () => {
+  const { resolveRegionalLinks } = await import('@/lib/regionalAvailability');
+  return { useRegionalLinks: (track: TrackProviderInfo) => resolveRegionalLinks(track, [], 'US') };
+});
+
 describe('Navigation & quicklinks regressions', () => {
   beforeEach(() => {
     openPlayerMock.mockClear();
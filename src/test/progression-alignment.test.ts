@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import { alignProgressions, loopPeriod } from '@/lib/progressionAlignment';
+import { assignToCluster, canonicalLoop, clusterProgressions } from '@/lib/progressionClustering';
+import { bestSectionMatch, collectSections, normalizeSectionLabel } from '@/lib/sectionSimilarity';
+import type { TrackSection } from '@/types';
+import { compareProgressions } from '@/types/harmony';
+import type { ChordQuality, RomanChord } from '@/types/harmony';
+
+const chord = (numeral: string, quality: ChordQuality = 'major'): RomanChord => ({ numeral, quality });
+
+// I - V - vi - IV
+const AXIS = [chord('I'), chord('V'), chord('vi', 'minor'), chord('IV')];
+// vi - IV - I - V (same loop, starting on vi)
+const AXIS_FROM_VI = [chord('vi', 'minor'), chord('IV'), chord('I'), chord('V')];
+
+describe('alignProgressions', () => {
+  it('scores identical progressions as a perfect match', () => {
+    const alignment = alignProgressions(AXIS, AXIS);
+
+    expect(alignment.score).toBe(1);
+    expect(alignment.rotation).toBe(0);
+    expect(alignment.steps.every(step => step.op === 'match')).toBe(true);
+  });
+
+  it('matches the same loop with a different starting chord', () => {
+    const alignment = alignProgressions(AXIS, AXIS_FROM_VI);
+
+    expect(alignment.rotation).toBe(2);
+    expect(alignment.score).toBeGreaterThan(0.9);
+    expect(alignment.score).toBeLessThan(1);
+    expect(alignment.explanation).toContain('starting on I');
+    expect(alignment.steps.map(step => step.b_index)).toEqual([2, 3, 0, 1]);
+  });
+
+  it('ignores rotation when disabled', () => {
+    expect(alignProgressions(AXIS, AXIS_FROM_VI, { allowRotation: false }).score).toBeLessThan(0.6);
+  });
+
+  it('treats a repeated loop as the same loop', () => {
+    const twice = [...AXIS, ...AXIS];
+    expect(alignProgressions(AXIS, twice).score).toBe(1);
+    expect(loopPeriod(twice)).toEqual(AXIS);
+
+    const varied = [...AXIS, chord('I'), chord('V'), chord('IV'), chord('IV')];
+    const alignment = alignProgressions(AXIS, varied);
+    expect(alignment.repeats).toEqual({ a: 2, b: 1 });
+    expect(alignment.score).toBeCloseTo(0.875, 3);
+    expect(alignment.steps.filter(step => step.op !== 'match')).toEqual([
+      expect.objectContaining({ a: 'vi', b: 'IV', b_index: 6, relation: 'different_function' }),
+    ]);
+  });
+
+  it('compares loops of different lengths with gaps', () => {
+    const alignment = alignProgressions(AXIS, [chord('I'), chord('V'), chord('IV')]);
+
+    expect(alignment.score).toBeGreaterThan(0.8);
+    expect(alignment.steps.filter(step => step.op === 'delete')).toEqual([
+      expect.objectContaining({ a: 'vi', a_index: 2 }),
+    ]);
+  });
+
+  it('costs substitutions by harmonic function', () => {
+    const extension = alignProgressions([chord('V')], [chord('V7', 'dominant7')]);
+    const inversion = alignProgressions([chord('I')], [chord('I6')]);
+    const mixture = alignProgressions([chord('IV')], [chord('iv', 'minor')]);
+    const sameFunction = alignProgressions([chord('IV')], [chord('ii', 'minor')]);
+    const otherFunction = alignProgressions([chord('IV')], [chord('V')]);
+
+    expect(extension.steps[0].relation).toBe('extension');
+    expect(inversion.steps[0].relation).toBe('extension');
+    expect(mixture.steps[0].relation).toBe('mixture');
+    expect(sameFunction.steps[0].relation).toBe('same_function');
+    expect(otherFunction.steps[0].relation).toBe('different_function');
+    expect(extension.score).toBeGreaterThan(mixture.score);
+    expect(mixture.score).toBeGreaterThan(sameFunction.score);
+    expect(sameFunction.score).toBeGreaterThan(otherFunction.score);
+  });
+
+  it('reads numerals in their own tonal frame', () => {
+    // i - VI - III - VII in minor is vi - IV - I - V of the relative major
+    const minor = [chord('i', 'minor'), chord('VI'), chord('III'), chord('VII')];
+
+    expect(alignProgressions(AXIS, minor).score).toBeLessThan(0.6);
+
+    const transposed = alignProgressions(AXIS, minor, { allowTransposition: true });
+    expect(transposed.transposition).toBe(9);
+    expect(transposed.score).toBeGreaterThan(0.8);
+    expect(transposed.explanation).toContain('major sixth');
+  });
+
+  it('resolves secondary dominants', () => {
+    const alignment = alignProgressions([chord('II'), chord('V')], [chord('V/V'), chord('V')]);
+    expect(alignment.score).toBe(1);
+  });
+});
+
+describe('compareProgressions', () => {
+  it('tolerates repeated and rotated loops', () => {
+    expect(compareProgressions(AXIS, [...AXIS, ...AXIS])).toBe(1);
+    expect(compareProgressions(AXIS, AXIS_FROM_VI)).toBeGreaterThan(0.9);
+    expect(compareProgressions([], AXIS)).toBe(0);
+  });
+});
+
+describe('clusterProgressions', () => {
+  const track = (id: string, progression: RomanChord[]) => ({ track_id: id, progression, confidence: 0.8 });
+  const VAMP = [chord('i', 'minor'), chord('VII'), chord('VI'), chord('VII')];
+  const CADENCE = [chord('i', 'minor'), chord('iv', 'minor'), chord('V'), chord('i', 'minor')];
+
+  const inputs = [
+    track('axis-1', AXIS),
+    track('axis-2', AXIS_FROM_VI),
+    track('axis-3', [...AXIS, ...AXIS]),
+    track('axis-4', [chord('I'), chord('V'), chord('vi', 'minor'), chord('ii', 'minor')]),
+    track('minor-1', CADENCE),
+    track('minor-2', CADENCE),
+    track('minor-3', [chord('i', 'minor'), chord('iv', 'minor'), chord('V7', 'dominant7'), chord('i', 'minor')]),
+    track('vamp-1', VAMP),
+  ];
+
+  it('groups rotations, repeats and substitutions into one family', () => {
+    const clusters = clusterProgressions(inputs);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0].name).toBe('I-V-vi-IV variations');
+    expect(clusters[0].prototype_key).toBe('I-V-vi-IV');
+    expect(clusters[0].members.map(m => m.track_id).sort()).toEqual(['axis-1', 'axis-2', 'axis-3', 'axis-4']);
+    expect(clusters[1].members.map(m => m.track_id).sort()).toEqual(['minor-1', 'minor-2', 'minor-3']);
+    expect(clusters[1].avg_confidence).toBe(0.8);
+  });
+
+  it('drops families below the minimum size', () => {
+    const clusters = clusterProgressions(inputs, { minClusterSize: 1 });
+    expect(clusters.map(c => c.name)).toContain('i-VII-VI-VII');
+  });
+
+  it('canonicalizes loops to start on the tonic', () => {
+    expect(canonicalLoop(AXIS_FROM_VI).map(c => c.numeral)).toEqual(['I', 'V', 'vi', 'IV']);
+  });
+
+  it('assigns new tracks to the nearest family', () => {
+    const clusters = clusterProgressions(inputs).map((draft, i) => ({ id: `c${i}`, ...draft }));
+
+    expect(assignToCluster([chord('IV'), chord('I'), chord('V'), chord('vi', 'minor')], clusters)?.cluster.id).toBe('c0');
+    expect(assignToCluster([chord('ii', 'minor'), chord('bVII'), chord('bIII'), chord('#iv°', 'diminished')], clusters)).toBeNull();
+  });
+});
+
+describe('section similarity', () => {
+  const section = (id: string, label: TrackSection['label'], start_ms: number, chords?: string[]): TrackSection => ({
+    id, track_id: 't1', label, start_ms, end_ms: start_ms + 20000, created_at: '', chords,
+  });
+
+  it('normalizes free-form labels', () => {
+    expect(normalizeSectionLabel('Chorus 2')).toBe('chorus');
+    expect(normalizeSectionLabel('Pre Chorus')).toBe('pre-chorus');
+    expect(normalizeSectionLabel('solo')).toBeNull();
+  });
+
+  it('pairs analysed progressions with curated timestamps', () => {
+    const spans = collectSections(
+      { section_progressions: [{ section_label: 'Chorus', progression: AXIS, repeat_count: 2 }] },
+      [section('s2', 'chorus', 90000), section('s1', 'chorus', 45000), section('s3', 'bridge', 120000, ['ii', 'V7', 'I'])]
+    );
+
+    expect(spans).toEqual([
+      { label: 'chorus', progression: AXIS, section_id: 's1', start_ms: 45000, end_ms: 65000 },
+      expect.objectContaining({ label: 'bridge', section_id: 's3', start_ms: 120000 }),
+    ]);
+    expect(spans[1].progression.map(c => c.quality)).toEqual(['minor', 'dominant7', 'major']);
+  });
+
+  it('matches the best section of the same label', () => {
+    const reference = { label: 'chorus' as const, progression: AXIS };
+    const candidates = collectSections(null, [
+      section('v', 'verse', 0, ['I', 'V', 'vi', 'IV']),
+      section('c1', 'chorus', 30000, ['ii', 'V', 'I', 'I']),
+      section('c2', 'chorus', 60000, ['vi', 'IV', 'I', 'V']),
+    ]);
+
+    const match = bestSectionMatch(reference, candidates);
+    expect(match?.section.section_id).toBe('c2');
+    expect(match?.section.start_ms).toBe(60000);
+    expect(match?.alignment.rotation).toBe(2);
+
+    expect(bestSectionMatch({ label: 'bridge', progression: AXIS }, candidates)).toBeNull();
+  });
+});
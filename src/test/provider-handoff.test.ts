@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { mapHandoffPosition } from '@/lib/providerHandoff';
+
+describe('mapHandoffPosition', () => {
+  it('keeps the position for the same edit or unknown durations', () => {
+    expect(mapHandoffPosition(95000, { sourceDurationMs: 248000, targetDurationMs: 249200 })).toEqual({
+      positionMs: 95000,
+      offsetMs: 0,
+      method: 'same-edit',
+    });
+    expect(mapHandoffPosition(95000, { sourceDurationMs: 248000 }).method).toBe('unknown');
+  });
+
+  it('compensates for the lead-in a music video adds to the song', () => {
+    // Spotify audio is the song itself; the video adds an 18 s intro
+    const toVideo = mapHandoffPosition(60000, {
+      sourceDurationMs: 248000,
+      targetDurationMs: 266000,
+      canonicalDurationMs: 248000,
+    });
+    expect(toVideo).toEqual({ positionMs: 78000, offsetMs: 18000, method: 'lead-in' });
+
+    // Back to the audio: minus the intro, the song's start while still in it
+    const hint = { sourceDurationMs: 266000, targetDurationMs: 248500, canonicalDurationMs: 248000 };
+    expect(mapHandoffPosition(78000, hint)).toMatchObject({ positionMs: 60000, method: 'lead-in' });
+    expect(mapHandoffPosition(10000, hint)).toMatchObject({ positionMs: 0, method: 'lead-in' });
+  });
+
+  it('places the lead-in before the first section when there is no canonical duration', () => {
+    const sections = [
+      { start_ms: 0, end_ms: 40000 },
+      { start_ms: 40000, end_ms: 248000 },
+    ];
+
+    // The second section starts at 40 s in the audio, 58 s in the video
+    expect(mapHandoffPosition(40000, { sourceDurationMs: 248000, targetDurationMs: 266000, sections }))
+      .toMatchObject({ positionMs: 58000, method: 'lead-in' });
+  });
+
+  it('keeps the position when the extra length can\'t be placed', () => {
+    // No song length: a video 18 s longer may carry an intro or an outro
+    const toVideo = mapHandoffPosition(60000, { sourceDurationMs: 248000, targetDurationMs: 266000 });
+    expect(toVideo).toEqual({ positionMs: 60000, offsetMs: 0, method: 'extended' });
+  });
+
+  it('uses section boundaries as the song length when there is no canonical duration', () => {
+    const sections = [
+      { start_ms: 0, end_ms: 30000 },
+      { start_ms: 30000, end_ms: 210000 },
+    ];
+
+    // Both edits hold the whole song with extra: same position
+    expect(mapHandoffPosition(50000, { sourceDurationMs: 220000, targetDurationMs: 240000, sections }))
+      .toMatchObject({ positionMs: 50000, method: 'extended' });
+
+    // A radio edit 30 s shorter than the song differs in the body
+    expect(mapHandoffPosition(90000, { sourceDurationMs: 180000, targetDurationMs: 210000, sections }))
+      .toMatchObject({ positionMs: 105000, method: 'scaled' });
+  });
+
+  it('scales the position between edits that differ in the body', () => {
+    const mapped = mapHandoffPosition(100000, { sourceDurationMs: 200000, targetDurationMs: 400000 });
+    expect(mapped).toEqual({ positionMs: 200000, offsetMs: 100000, method: 'scaled' });
+  });
+});
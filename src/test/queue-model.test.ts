@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import type { Track } from '@/types';
+import {
+  adoptRemoteQueue,
+  appendUpNext,
+  createEntry,
+  emptyQueue,
+  enqueue,
+  jumpTo,
+  newerQueue,
+  parseQueue,
+  queueSections,
+  removeEntry,
+  reorderUpcoming,
+  restoreQueue,
+  stepQueue,
+  QUEUE_CONFIG,
+  type QueueSnapshot,
+} from '@/lib/queueModel';
+
+const track = (id: string) => ({ id, title: id, artist: 'Artist' }) as Track;
+const ids = (queue: QueueSnapshot) => queue.entries.map(e => e.track.id);
+
+// Playing "now", with two context tracks up next
+const playing = (): QueueSnapshot =>
+  appendUpNext(emptyQueue(), [createEntry(track('c1'), 'context'), createEntry(track('c2'), 'context')], track('now'));
+
+describe('queue model', () => {
+  it('plays added tracks before up next, "play next" first', () => {
+    let queue = enqueue(playing(), [track('a')], 'end');
+    queue = enqueue(queue, [track('b')], 'end');
+    queue = enqueue(queue, [track('n')], 'next');
+
+    expect(ids(queue)).toEqual(['now', 'n', 'a', 'b', 'c1', 'c2']);
+    const sections = queueSections(queue);
+    expect(sections.current?.track.id).toBe('now');
+    expect(sections.userAdded.map(e => e.track.id)).toEqual(['n', 'a', 'b']);
+    expect(sections.upNext.map(e => e.track.id)).toEqual(['c1', 'c2']);
+  });
+
+  it('keeps the playing entry through removals and reorders', () => {
+    let queue = jumpTo(playing(), 1); // c1
+    queue = removeEntry(queue, queue.entries[0].uid);
+    expect(queue.index).toBe(0);
+    expect(queueSections(queue).current?.track.id).toBe('c1');
+
+    queue = enqueue(queue, [track('a')], 'end');
+    const [a, c2] = queue.entries.slice(1).map(e => e.uid);
+    expect(ids(reorderUpcoming(queue, [c2, a]))).toEqual(['c1', 'c2', 'a']);
+    // Not every upcoming entry: ignored
+    expect(reorderUpcoming(queue, [c2])).toBe(queue);
+  });
+
+  it('steps with wrap-around and trims history', () => {
+    const queue = playing();
+    expect(stepQueue(queue, -1).index).toBe(2);
+    expect(stepQueue(stepQueue(queue, 1), 1).index).toBe(2);
+
+    const long = appendUpNext(
+      emptyQueue(),
+      Array.from({ length: QUEUE_CONFIG.HISTORY_LIMIT + 10 }, (_, i) => createEntry(track(`t${i}`), 'context')),
+      track('start')
+    );
+    const trimmed = jumpTo(long, QUEUE_CONFIG.HISTORY_LIMIT + 5);
+    expect(trimmed.index).toBe(QUEUE_CONFIG.HISTORY_LIMIT);
+    expect(queueSections(trimmed).current?.track.id).toBe(`t${QUEUE_CONFIG.HISTORY_LIMIT + 4}`);
+  });
+
+  it('undoes an edit without losing the playing entry', () => {
+    const before = playing();
+    const edited = jumpTo(removeEntry(before, before.entries[2].uid), 1);
+    const restored = restoreQueue(edited, before);
+
+    expect(ids(restored)).toEqual(['now', 'c1', 'c2']);
+    expect(restored.index).toBe(1);
+    expect(restored.updatedAt).toBeGreaterThan(edited.updatedAt);
+  });
+
+  it('reconciles copies by newest edit and reads the old stored format', () => {
+    const local = playing();
+    const remote = { ...local, updatedAt: local.updatedAt + 1 };
+    expect(newerQueue(local, remote)).toBe(remote);
+    expect(newerQueue(remote, local)).toBe(remote);
+    expect(newerQueue(local, null)).toBe(local);
+
+    const legacy = parseQueue({ queue: [track('x'), track('y'), { bogus: true }], queueIndex: 1 });
+    expect(legacy && ids(legacy)).toEqual(['x', 'y']);
+    expect(legacy?.index).toBe(1);
+    expect(newerQueue(emptyQueue(), legacy)).toBe(legacy);
+
+    expect(parseQueue(JSON.parse(JSON.stringify(local)))).toEqual(local);
+    expect(parseQueue({ entries: 'nope' })).toBeNull();
+  });
+
+  it('takes entries from another tab but keeps playing this tab\'s entry', () => {
+    const local = playing();
+    const remote = stepQueue(enqueue(local, [track('added')], 'end'), 1);
+    expect(ids(remote)[remote.index]).toBe('added');
+
+    const adopted = adoptRemoteQueue(local, remote, true);
+    expect(ids(adopted)).toEqual(ids(remote));
+    expect(ids(adopted)[adopted.index]).toBe('now');
+    expect(adopted.updatedAt).toBe(remote.updatedAt);
+
+    // Not playing here: follow the other tab
+    expect(adoptRemoteQueue(local, remote, false)).toBe(remote);
+
+    // The other tab removed our entry: nothing plays from the queue here
+    const removed = removeEntry(remote, local.entries[0].uid);
+    expect(adoptRemoteQueue(local, removed, true).index).toBe(-1);
+
+    expect(adoptRemoteQueue(remote, local, true)).toBe(remote);
+  });
+});
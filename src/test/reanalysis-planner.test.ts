@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareVersions,
+  diffFingerprints,
+  isOutdated,
+  planReanalysis,
+  reanalysisPriority,
+  shouldReplaceFingerprint,
+  summarizeVersionDiffs,
+  type ReanalysisCandidate,
+} from '@/lib/reanalysisPlanner';
+import type { HarmonicFingerprint } from '@/types/harmony';
+
+const candidate = (
+  track_id: string,
+  overrides: Partial<ReanalysisCandidate> = {}
+): ReanalysisCandidate => ({
+  track_id,
+  audio_url: `https://cdn.example.com/${track_id}.wav`,
+  analysis_version: '1.0.0',
+  confidence_score: 0.8,
+  is_provisional: false,
+  ...overrides,
+});
+
+const fingerprint = (overrides: Partial<HarmonicFingerprint> = {}): HarmonicFingerprint => ({
+  track_id: 't1',
+  tonal_center: { root_interval: 0, mode: 'major', stability_score: 0.8 },
+  roman_progression: [
+    { numeral: 'I', quality: 'major' },
+    { numeral: 'V', quality: 'major' },
+    { numeral: 'vi', quality: 'minor' },
+    { numeral: 'IV', quality: 'major' },
+  ],
+  loop_length_bars: 4,
+  cadence_type: 'authentic',
+  confidence_score: 0.7,
+  analysis_timestamp: '2026-01-01T00:00:00Z',
+  analysis_version: '1.0.0',
+  is_provisional: false,
+  detected_key: 'C',
+  detected_mode: 'major',
+  ...overrides,
+});
+
+describe('versions', () => {
+  it('compares dotted versions numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.2')).toBe(1);
+    expect(compareVersions('1.1', '1.1.0')).toBe(0);
+    expect(compareVersions('0.9.0', '1.0.0')).toBe(-1);
+    expect(isOutdated('1.0.0', '1.1.0')).toBe(true);
+    expect(isOutdated('1.1.0', '1.1.0')).toBe(false);
+    expect(isOutdated(null, '1.1.0')).toBe(true);
+  });
+
+  it('prioritizes weak and far-behind results', () => {
+    expect(reanalysisPriority(candidate('a', { analysis_version: '0.9.0' }), '1.1.0')).toBe('high');
+    expect(reanalysisPriority(candidate('a', { is_provisional: true }), '1.1.0')).toBe('high');
+    expect(reanalysisPriority(candidate('a', { confidence_score: 0.3 }), '1.1.0')).toBe('high');
+    expect(reanalysisPriority(candidate('a'), '1.1.0')).toBe('normal');
+    expect(reanalysisPriority(candidate('a', { analysis_version: '1.1.0' }), '1.1.1')).toBe('low');
+  });
+});
+
+describe('planReanalysis', () => {
+  it('queues outdated tracks in prioritized, staggered batches', () => {
+    const startAt = new Date('2026-02-02T00:00:00Z');
+    const plan = planReanalysis(
+      [
+        candidate('patch', { analysis_version: '1.1.0' }),
+        candidate('minor'),
+        candidate('weak', { confidence_score: 0.2 }),
+        candidate('current', { analysis_version: '1.1.1' }),
+        candidate('silent', { audio_url: null }),
+        candidate('minor'),
+      ],
+      { target: '1.1.1', startAt, batchSize: 2, batchIntervalMs: 60_000 }
+    );
+
+    expect(plan.jobs.map(j => j.track_id)).toEqual(['weak', 'minor', 'patch']);
+    expect(plan.jobs.map(j => j.priority)).toEqual(['high', 'normal', 'low']);
+    expect(plan.jobs.map(j => j.batch)).toEqual([0, 0, 1]);
+    expect(plan.jobs[2].next_attempt_at).toBe('2026-02-02T00:01:00.000Z');
+    expect(plan.jobs[1].previous_version).toBe('1.0.0');
+    expect(plan.batches).toBe(2);
+    expect(plan.skipped).toEqual([
+      { track_id: 'current', reason: 'current' },
+      { track_id: 'silent', reason: 'no_audio' },
+    ]);
+  });
+
+  it('leaves work beyond the batch budget for the next run', () => {
+    const plan = planReanalysis(
+      ['a', 'b', 'c'].map(id => candidate(id)),
+      { target: '1.1.0', batchSize: 1, maxBatches: 2 }
+    );
+
+    expect(plan.jobs).toHaveLength(2);
+    expect(plan.skipped).toEqual([{ track_id: 'c', reason: 'over_budget' }]);
+  });
+});
+
+describe('shouldReplaceFingerprint', () => {
+  it('keeps an older result until the new one is more confident', () => {
+    const stored = fingerprint({ confidence_score: 0.7 });
+
+    expect(shouldReplaceFingerprint(stored, fingerprint({ analysis_version: '1.1.0', confidence_score: 0.65 }))).toBe(false);
+    expect(shouldReplaceFingerprint(stored, fingerprint({ analysis_version: '1.1.0', confidence_score: 0.75 }))).toBe(true);
+    // Provisional never displaces final, and vice versa
+    expect(shouldReplaceFingerprint(stored, fingerprint({ analysis_version: '1.1.0', confidence_score: 0.9, is_provisional: true }))).toBe(false);
+    expect(shouldReplaceFingerprint({ ...stored, is_provisional: true }, fingerprint({ analysis_version: '1.1.0', confidence_score: 0.5 }))).toBe(true);
+    // Same-version re-analysis and first analysis always store
+    expect(shouldReplaceFingerprint(stored, fingerprint({ confidence_score: 0.1 }))).toBe(true);
+    expect(shouldReplaceFingerprint(null, fingerprint())).toBe(true);
+  });
+});
+
+describe('version diffs', () => {
+  it('reports changed keys and progressions per version bump', () => {
+    const previous = fingerprint();
+    const relative = fingerprint({
+      analysis_version: '1.1.0',
+      confidence_score: 0.8,
+      detected_key: 'A',
+      detected_mode: 'minor',
+      tonal_center: { root_interval: 9, mode: 'minor', stability_score: 0.8 },
+      roman_progression: [
+        { numeral: 'i', quality: 'minor' },
+        { numeral: 'VI', quality: 'major' },
+        { numeral: 'III', quality: 'major' },
+        { numeral: 'VII', quality: 'major' },
+      ],
+    });
+
+    const diff = diffFingerprints(previous, relative, true);
+    expect(diff).toMatchObject({
+      from_version: '1.0.0',
+      to_version: '1.1.0',
+      key_changed: true,
+      mode_changed: true,
+      progression_changed: true,
+      previous_progression: ['I', 'V', 'vi', 'IV'],
+      next_progression: ['i', 'VI', 'III', 'VII'],
+    });
+
+    const unchanged = diffFingerprints(previous, fingerprint({ analysis_version: '1.1.0', confidence_score: 0.6 }), false);
+    const older = diffFingerprints(fingerprint({ analysis_version: '0.9.0' }), fingerprint({ analysis_version: '1.0.0' }), true);
+
+    const [latest, earlier] = summarizeVersionDiffs([older, diff, unchanged]);
+    expect(latest).toMatchObject({
+      from_version: '1.0.0',
+      to_version: '1.1.0',
+      tracks: 2,
+      applied: 1,
+      kept: 1,
+      key_changes: 1,
+      progression_changes: 1,
+      key_transitions: [{ from: 'C', to: 'A', count: 1 }],
+    });
+    expect(latest.mean_confidence_delta).toBeCloseTo(0, 3);
+    expect(earlier).toMatchObject({ from_version: '0.9.0', tracks: 1, key_changes: 0 });
+  });
+});
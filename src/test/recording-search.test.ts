@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { decodeAudio } from '@/services/audioAnalysis';
+import { recognizeProgression, searchByRecording } from '@/services/recordingSearch';
+import { encodeWav, strumLoop } from './fixtures/wav';
+
+const limit = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({ select: () => ({ gte: () => ({ order: () => ({ limit }) }) }) }),
+  },
+}));
+
+const fingerprint = (track_id: string, mode: 'major' | 'minor', numerals: string[]) => ({
+  track_id,
+  tonal_center: { root_interval: 0, mode, stability_score: 0.9 },
+  roman_progression: numerals.map(numeral => ({ numeral, quality: 'major', duration_beats: 4 })),
+  confidence_score: 0.9,
+});
+
+// Open-position guitar voicings, one chord per bar
+const G_D_EM_C = [[43, 47, 50, 55, 59, 67], [50, 57, 62, 66], [40, 47, 52, 55, 59, 64], [48, 52, 55, 60, 64]];
+const AM_DM_E_AM = [[45, 52, 57, 60, 64], [50, 57, 62, 65], [40, 47, 52, 56, 59, 64], [45, 52, 57, 60, 64]];
+
+const take = async (chords: number[][], bpm: number) =>
+  (await decodeAudio(encodeWav([strumLoop(chords, bpm, 8)], 22050)))!;
+
+describe('recognizeProgression', () => {
+  it('reads a strummed minor loop in its key and the relative major', async () => {
+    const recognized = recognizeProgression(await take(AM_DM_E_AM, 90));
+
+    expect(recognized.readings.map(r => [r.label, r.progression.map(c => c.numeral)])).toEqual([
+      ['Am', ['i', 'iv', 'V', 'i']],
+      ['C', ['vi', 'ii', 'III', 'vi']],
+    ]);
+    expect(recognized.loop_bars).toBe(4);
+    expect(Math.abs(recognized.tempo_bpm - 90)).toBeLessThan(3);
+  });
+
+  it('rejects takes that are too short or have no chords', () => {
+    const sampleRate = 22050;
+    expect(() => recognizeProgression({ samples: new Float32Array(sampleRate * 2), sampleRate }))
+      .toThrow('Recording too short');
+    expect(() => recognizeProgression({ samples: new Float32Array(sampleRate * 8), sampleRate }))
+      .toThrow('No chord loop detected');
+  });
+});
+
+describe('searchByRecording', () => {
+  it('finds tracks on the strummed loop through either key reading', async () => {
+    limit.mockResolvedValue({
+      data: [
+        fingerprint('pop-loop', 'major', ['vi', 'IV', 'I', 'V']),
+        fingerprint('minor-cadence', 'minor', ['i', 'iv', 'V', 'i']),
+      ],
+      error: null,
+    });
+
+    // G - D - Em - C is heard as E minor; the track is stored in G major
+    const { recognized, matches } = await searchByRecording(await take(G_D_EM_C, 100));
+
+    expect(recognized.readings.map(r => r.label)).toEqual(['Em', 'G']);
+    expect(matches.map(m => m.track_id)).toEqual(['pop-loop']);
+    expect(matches[0].reading.label).toBe('G');
+    // Stored from a different starting chord
+    expect(matches[0].matching_features).toContain('rotation');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { getProviderLinks } from '@/lib/providers';
+import { resolveRegionalLinks, type ProviderTrackAvailability } from '@/lib/regionalAvailability';
+
+const record = (fields: Partial<ProviderTrackAvailability>): ProviderTrackAvailability => ({
+  canonical_id: 'c-1',
+  provider: 'spotify',
+  provider_track_id: 'sp-us',
+  isrc: 'USQX91300108',
+  title: 'Get Lucky',
+  available_markets: null,
+  ...fields,
+});
+
+describe('getProviderLinks', () => {
+  it('reports availability in a market when one is given', () => {
+    const track = { spotifyId: 'sp-us', youtubeId: 'yt-1', availableMarkets: { spotify: ['US', 'GB'] } };
+
+    expect(getProviderLinks(track)[0].availability).toBeUndefined();
+    expect(getProviderLinks(track, 'gb').map(l => [l.provider, l.availability])).toEqual([
+      ['spotify', 'available'],
+      ['youtube', 'unknown'],
+    ]);
+    expect(getProviderLinks(track, 'JP')[0].availability).toBe('unavailable');
+  });
+});
+
+describe('resolveRegionalLinks', () => {
+  it('keeps playable and unknown links as they are', () => {
+    const regional = resolveRegionalLinks(
+      { spotifyId: 'sp-us', youtubeId: 'yt-1' },
+      [record({ available_markets: ['US'] })],
+      'US'
+    );
+
+    expect(regional.links.map(l => l.provider)).toEqual(['spotify', 'youtube']);
+    expect(regional.blocked).toEqual([]);
+    expect(regional.unavailable).toBe(false);
+  });
+
+  it('stands in another release of the recording for a blocked link', () => {
+    const regional = resolveRegionalLinks(
+      { spotifyId: 'sp-us' },
+      [
+        record({ available_markets: ['US'] }),
+        record({ provider_track_id: 'sp-other', isrc: 'GBAYE0000001', canonical_id: 'c-2', available_markets: ['DE'] }),
+        record({ provider_track_id: 'sp-deluxe', isrc: 'USQX91300199', canonical_id: 'c-9', available_markets: ['DE'] }),
+        record({ provider_track_id: 'sp-eu', canonical_id: 'c-7', available_markets: ['DE', 'FR'] }),
+      ],
+      'DE'
+    );
+
+    // Same ISRC beats a sibling ISRC with the same title
+    expect(regional.links).toEqual([
+      expect.objectContaining({ provider: 'spotify', webUrl: 'https://open.spotify.com/track/sp-eu', alternateRelease: true }),
+    ]);
+    expect(regional.blocked).toEqual([]);
+  });
+
+  it('offers other providers carrying the recording, then reports the region block', () => {
+    const records = [
+      record({ available_markets: ['US'] }),
+      record({ provider: 'deezer', provider_track_id: '67238735', available_markets: ['US', 'FR'] }),
+    ];
+
+    const inFrance = resolveRegionalLinks({ spotifyId: 'sp-us' }, records, 'FR');
+    expect(inFrance.links.map(l => [l.provider, l.webUrl])).toEqual([['deezer', 'https://www.deezer.com/track/67238735']]);
+    expect(inFrance.blocked.map(l => l.provider)).toEqual(['spotify']);
+    expect(inFrance.unavailable).toBe(false);
+
+    const inJapan = resolveRegionalLinks({ spotifyId: 'sp-us' }, records, 'JP');
+    expect(inJapan.links).toEqual([]);
+    expect(inJapan.unavailable).toBe(true);
+    expect(inJapan.market).toBe('JP');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Track } from '@/types';
+import {
+  cacheLifetime,
+  cacheState,
+  normalizeQuery,
+  SEARCH_CACHE_CONFIG,
+  searchCacheKey,
+  buildCachedTracks,
+  verifyCachedSearch,
+} from '@/lib/searchCache';
+import { readSearchCache } from '@/api/searchCache';
+
+const maybeSingle = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({ select: () => ({ eq: () => ({ maybeSingle }) }) }),
+  },
+}));
+
+const NOW = new Date('2026-02-05T12:00:00Z');
+const at = (offsetMs: number) => new Date(NOW.getTime() + offsetMs).toISOString();
+
+describe('searchCacheKey', () => {
+  it('ignores case, spacing and provider order', () => {
+    expect(normalizeQuery('  Daft   PUNK\tＧｅｔ Lucky ')).toBe('daft punk get lucky');
+
+    const key = searchCacheKey({ query: 'Get Lucky', market: 'us', limit: 20, providers: ['youtube', 'deezer', 'spotify'] });
+    expect(key).toBe('search:v1:US:deezer,spotify,youtube:20:get lucky');
+    expect(searchCacheKey({ query: 'get  lucky', market: 'US', limit: 20, providers: ['spotify', 'youtube', 'deezer'] }))
+      .toBe(key);
+    expect(searchCacheKey({ query: 'get lucky', market: 'GB', limit: 20, providers: ['spotify', 'youtube', 'deezer'] }))
+      .not.toBe(key);
+  });
+});
+
+describe('cacheLifetime', () => {
+  it('stays fresh for the shortest provider TTL, then stale for the stale window', () => {
+    expect(cacheLifetime(['youtube'], false, NOW)).toEqual({
+      fresh_until: new Date(at(SEARCH_CACHE_CONFIG.PROVIDER_TTL_MS.youtube)),
+      expires_at: new Date(at(SEARCH_CACHE_CONFIG.PROVIDER_TTL_MS.youtube + SEARCH_CACHE_CONFIG.STALE_WINDOW_MS)),
+    });
+    expect(cacheLifetime(['youtube', 'deezer'], false, NOW).fresh_until)
+      .toEqual(new Date(at(SEARCH_CACHE_CONFIG.PROVIDER_TTL_MS.deezer)));
+    // A failed provider is retried soon
+    expect(cacheLifetime(['youtube'], true, NOW).fresh_until)
+      .toEqual(new Date(at(SEARCH_CACHE_CONFIG.PARTIAL_TTL_MS)));
+  });
+
+  it('classifies entries as fresh, stale or expired', () => {
+    expect(cacheState({ fresh_until: at(1000), expires_at: at(2000) }, NOW)).toBe('fresh');
+    expect(cacheState({ fresh_until: at(-1000), expires_at: at(2000) }, NOW)).toBe('stale');
+    expect(cacheState({ fresh_until: null, expires_at: at(2000) }, NOW)).toBe('stale');
+    expect(cacheState({ fresh_until: at(-2000), expires_at: at(-1000) }, NOW)).toBe('expired');
+  });
+});
+
+describe('readSearchCache', () => {
+  it('returns stale entries for revalidation and treats expired ones as misses', async () => {
+    vi.useFakeTimers({ now: NOW });
+    const value = { tracks: [{ id: 'spotify-s1' }], cached_at: at(-60_000) };
+
+    maybeSingle.mockResolvedValueOnce({ data: { value, fresh_until: at(-1000), expires_at: at(60_000) }, error: null });
+    expect(await readSearchCache('search:v1:US:spotify:20:x')).toMatchObject({ state: 'stale', tracks: value.tracks });
+
+    maybeSingle.mockResolvedValueOnce({ data: { value, fresh_until: at(-2000), expires_at: at(-1000) }, error: null });
+    expect(await readSearchCache('search:v1:US:spotify:20:x')).toBeNull();
+    vi.useRealTimers();
+  });
+});
+
+describe('verifyCachedSearch', () => {
+  const mappings = [
+    { canonical_id: 'USQX91300108', provider: 'spotify' as const, provider_track_id: 's1', title: 'Get Lucky', artist: 'Daft Punk' },
+    { canonical_id: 'USQX91300108', provider: 'deezer' as const, provider_track_id: 'd1', title: 'Get Lucky', artist: 'Daft Punk' },
+  ];
+  const track: Track = {
+    id: 'USQX91300108',
+    title: 'Get Lucky',
+    artists: ['Daft Punk'],
+    artwork_url: 'https://i.scdn.co/image/abc',
+    providerLinks: [
+      { provider: 'spotify', provider_track_id: 's1', url_web: 'https://open.spotify.com/track/s1', url_app: 'spotify:track:s1' },
+      { provider: 'deezer', provider_track_id: 'd1', url_web: 'https://www.deezer.com/track/d1' },
+    ],
+  };
+
+  it('accepts results backed by their mappings', () => {
+    expect(verifyCachedSearch([track], mappings)).toBe(true);
+  });
+
+  it('rejects unmapped links, altered metadata and foreign URLs', () => {
+    const [spotify, deezer] = track.providerLinks!;
+    expect(verifyCachedSearch([{ ...track, id: 'other' }], mappings)).toBe(false);
+    expect(verifyCachedSearch([{ ...track, title: 'Buy Now' }], mappings)).toBe(false);
+    expect(verifyCachedSearch([{ ...track, providerLinks: [spotify, { ...deezer, provider_track_id: 'd2' }] }], mappings))
+      .toBe(false);
+    expect(verifyCachedSearch([{ ...track, providerLinks: [{ ...spotify, url_web: 'https://open.spotify.com.evil.example/' }] }], mappings))
+      .toBe(false);
+    expect(verifyCachedSearch([{ ...track, providerLinks: [{ ...spotify, url_app: 'javascript:alert(1)' }] }], mappings))
+      .toBe(false);
+    expect(verifyCachedSearch([{ ...track, artwork_url: 'https://evil.example/a.jpg' }], mappings)).toBe(false);
+    expect(verifyCachedSearch([{ ...track, providerLinks: [] }], mappings)).toBe(false);
+  });
+
+  it('rejects empty results', () => {
+    expect(verifyCachedSearch([], mappings)).toBe(false);
+    expect(buildCachedTracks([], mappings, 'US')).toBeNull();
+  });
+
+  it('rebuilds tracks from their mappings, dropping submitted fields', () => {
+    const submitted = {
+      ...track,
+      album: 'Buy followers',
+      youtube_id: 'planted',
+      spotify_id: 'planted',
+      url_spotify_web: 'https://open.spotify.com/track/planted',
+      preview_url: 'https://evil.example/p.mp3',
+    };
+    const [cached] = buildCachedTracks([submitted], [{ ...mappings[0], isrc: 'USQX91300108', duration_ms: 248000 }, mappings[1]], 'US')!;
+
+    expect(cached).toMatchObject({
+      id: 'USQX91300108',
+      title: 'Get Lucky',
+      artist: 'Daft Punk',
+      isrc: 'USQX91300108',
+      duration_ms: 248000,
+      artwork_url: 'https://i.scdn.co/image/abc',
+      spotify_id: 's1',
+      url_spotify_web: 'https://open.spotify.com/track/s1',
+    });
+    expect(cached.album).toBeUndefined();
+    expect(cached.youtube_id).toBeUndefined();
+    expect(cached.preview_url).toBeUndefined();
+    expect(cached.providerLinks?.[1]).toEqual({
+      provider: 'deezer',
+      provider_track_id: 'd1',
+      url_web: 'https://www.deezer.com/track/d1',
+      url_app: 'deezer://www.deezer.com/track/d1',
+      url_preview: undefined,
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySuggestion,
+  compileQuery,
+  matchesProgression,
+  parseSearchQuery,
+  suggestCompletions,
+} from '@/lib/searchQuery';
+
+describe('parseSearchQuery', () => {
+  it('parses fields, quoted values and free text', () => {
+    const parsed = parseSearchQuery('key:Am prog:"i-bVII-bVI" bpm:90..110 year:1970s artist:"Fleetwood Mac" dreams');
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.text).toBe('dreams');
+    expect(parsed.filters).toEqual([
+      { field: 'key', pitch_class: 9, mode: 'minor' },
+      { field: 'prog', numerals: ['i', 'VII', 'VI'] },
+      { field: 'bpm', min: 90, max: 110 },
+      { field: 'year', from: 1970, to: 1979 },
+      { field: 'artist', text: 'Fleetwood Mac' },
+    ]);
+  });
+
+  it('reports errors with positions and keeps the valid filters', () => {
+    const parsed = parseSearchQuery('key:H tempo:>120 colour:blue prog:"I-V');
+
+    // The unterminated value still applies while it is being typed
+    expect(parsed.filters).toEqual([
+      { field: 'bpm', min: 120, max: null },
+      { field: 'prog', numerals: ['I', 'V'] },
+    ]);
+    expect(parsed.errors.map(e => e.message)).toEqual([
+      'Unterminated quote',
+      'Unknown key "H"',
+      'Unknown field "colour"',
+    ]);
+    expect(parsed.errors[1]).toMatchObject({ start: 0, end: 5 });
+  });
+
+  it('widens a single tempo by the tolerance', () => {
+    expect(parseSearchQuery('bpm:120').filters).toEqual([{ field: 'bpm', min: 118, max: 122 }]);
+  });
+});
+
+describe('compileQuery', () => {
+  it('matches both enharmonic spellings and lets mode: override the key quality', () => {
+    const compiled = compileQuery(parseSearchQuery('key:Gbm mode:dorian cadence:plagal'));
+
+    expect(compiled.fingerprints).toEqual([
+      { column: 'detected_key', op: 'in', value: ['F#', 'Gb'] },
+      { op: 'or', value: 'detected_mode.eq.dorian,modal_color.eq.dorian' },
+      { column: 'cadence_type', op: 'eq', value: 'plagal' },
+    ]);
+    expect(compiled.tracks).toEqual([]);
+    expect(compiled.text).toBeNull();
+  });
+
+  it('puts year and artist on tracks and keeps the progression for ordering', () => {
+    const compiled = compileQuery(parseSearchQuery('prog:I-V-I year:1975 artist:100%'));
+
+    expect(compiled.fingerprints).toEqual([
+      { column: 'roman_degrees', op: 'contains', value: '{"I","V"}' },
+    ]);
+    expect(compiled.progression).toEqual(['I', 'V', 'I']);
+    expect(compiled.tracks).toEqual([
+      { column: 'release_date', op: 'gte', value: '1975-01-01' },
+      { column: 'release_date', op: 'lte', value: '1975-12-31' },
+      { column: 'artist', op: 'ilike', value: '%100%' },
+    ]);
+  });
+
+  it('reads flat degrees in minor progressions as stored and prefilters on bare degrees', () => {
+    const compiled = compileQuery(parseSearchQuery('prog:i-bVII-bVI-V7'));
+
+    expect(compiled.progression).toEqual(['i', 'VII', 'VI', 'V7']);
+    expect(compiled.fingerprints).toEqual([
+      { column: 'roman_degrees', op: 'contains', value: '{"i","VII","VI","V"}' },
+    ]);
+  });
+
+  it('frames progressions by the key or mode searched for', () => {
+    expect(compileQuery(parseSearchQuery('key:Am prog:iv-bVII-bIII')).progression).toEqual(['iv', 'VII', 'III']);
+    expect(compileQuery(parseSearchQuery('prog:iv-bVII-bIII mode:dorian')).progression).toEqual(['iv', 'VII', 'III']);
+    // An explicit major mode wins over a minor key and a minor tonic
+    expect(compileQuery(parseSearchQuery('key:Am mode:major prog:i-bVII')).progression).toEqual(['i', 'bVII']);
+  });
+});
+
+describe('matchesProgression', () => {
+  it('matches contiguous runs, wrapping around the loop', () => {
+    const loop = ['vi', 'IV', 'I', 'V7'];
+
+    expect(matchesProgression(loop, ['I', 'V'])).toBe(true);
+    expect(matchesProgression(loop, ['V', 'vi', 'IV'])).toBe(true);
+    expect(matchesProgression(loop, ['IV', 'V'])).toBe(false);
+    // Extensions match, other numerals do not
+    expect(matchesProgression(['I', 'VI'], ['I', 'V'])).toBe(false);
+  });
+});
+
+describe('suggestCompletions', () => {
+  it('suggests field names, then values, and inserts them at the cursor', () => {
+    expect(suggestCompletions('dreams')).toEqual([]);
+
+    const fields = suggestCompletions('dreams ca');
+    expect(fields.map(s => s.label)).toEqual(['cadence:']);
+    const withField = applySuggestion('dreams ca', fields[0]);
+    expect(withField).toEqual({ input: 'dreams cadence:', cursor: 15 });
+
+    const values = suggestCompletions('prog:vi bpm:90', 7);
+    expect(values.map(s => s.label)).toEqual(['vi-IV-I-V']);
+    expect(applySuggestion('prog:vi bpm:90', values[0])).toEqual({
+      input: 'prog:"vi-IV-I-V" bpm:90',
+      cursor: 16,
+    });
+  });
+});
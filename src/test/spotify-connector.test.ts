@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SpotifyConnector } from '@/lib/connectors/spotify';
+import { getValidAccessToken } from '@/services/spotifyAuthService';
+
+const invoke = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    auth: { getSession: vi.fn(async () => ({ data: { session: { user: { id: 'user-1' } } } })) },
+    functions: { invoke: (...args: unknown[]) => invoke(...args) },
+  },
+}));
+
+vi.mock('@/services/spotifyAuthService', () => ({
+  getValidAccessToken: vi.fn(),
+}));
+
+const result = (id: string) => ({
+  title: 'Get Lucky',
+  artist: 'Daft Punk',
+  providers: { spotify: { provider_track_id: id, available_markets: ['US'] } },
+});
+
+describe('SpotifyConnector', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    invoke.mockResolvedValue({ data: { results: [result('a1'), result('b2')] }, error: null });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+    vi.mocked(getValidAccessToken).mockReset();
+  });
+
+  it('looks up markets for search hits in one request without a market', async () => {
+    vi.mocked(getValidAccessToken).mockResolvedValue('token');
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      tracks: [{ id: 'a1', available_markets: ['GB', 'FR'] }, null],
+    })));
+
+    const tracks = await new SpotifyConnector().searchTracks({ query: 'get lucky', market: 'GB' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.spotify.com/v1/tracks?ids=a1,b2');
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({ Authorization: 'Bearer token' });
+    expect(tracks.map(t => t.available_markets)).toEqual([['GB', 'FR'], undefined]);
+  });
+
+  it('leaves availability unknown without a connected account', async () => {
+    vi.mocked(getValidAccessToken).mockResolvedValue(null);
+
+    const tracks = await new SpotifyConnector().searchTracks({ query: 'get lucky' });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(tracks).toHaveLength(2);
+    expect(tracks.every(t => t.available_markets === undefined)).toBe(true);
+  });
+});
@@ -16,6 +16,13 @@
 export interface HarmonicFingerprint {
   // Core identity
   track_id: string;
+  audio_hash?: string | null; // Deduplication keys (see harmonicAnalysis cache)
+  isrc?: string | null;
+  audio_hash_bands?: string[]; // Perceptual hash bands for near-duplicate lookup
+  chromaprint?: string | null; // Sub-fingerprints for verifying near-duplicates
+  embedding?: number[] | null; // Raw harmonic embedding (see harmonicEmbedding)
+  embedding_version?: string | null;
+  embedding_buckets?: string[]; // LSH keys for nearest-neighbour lookup
   
   // Relative harmonic data (NEVER absolute chords)
   tonal_center: RelativeTonalCenter;
@@ -24,6 +31,8 @@ export interface HarmonicFingerprint {
   cadence_type: CadenceType;
   modal_color?: ModalColor;
   borrowed_chords?: BorrowedChord[];
+  tempo_bpm?: number; // From beat tracking
+  modulations?: Modulation[] | null; // Key changes; tonal_center is the opening key
   
   // Section-aware progressions
   section_progressions?: SectionProgression[];
@@ -33,12 +42,31 @@ export interface HarmonicFingerprint {
   analysis_timestamp: string; // ISO timestamp
   analysis_version: string; // e.g., "1.2.0" for model versioning
   is_provisional: boolean; // True if confidence < threshold
+  analysis_method?: AnalysisMethod; // Absent for plain audio analysis
+  provenance?: FingerprintProvenance | null; // Where a corrected fingerprint came from
   
   // Derived display data (computed from relative data)
   detected_key?: string; // e.g., "C" - for UI display only
   detected_mode?: 'major' | 'minor' | 'dorian' | 'mixolydian' | 'phrygian' | 'lydian' | 'locrian';
 }
 
+/**
+ * Provenance of a fingerprint promoted from crowd-sourced corrections
+ */
+export interface FingerprintProvenance {
+  method: 'crowd_sourced';
+  submission_ids: string[];
+  contributors: string[]; // user ids that supported the promoted proposal
+  support: number; // Reputation-weighted support
+  share: number; // Of all support for the track
+  approved_by: string | null; // Moderator, or null when promoted automatically
+  promoted_at: string;
+  previous: Pick<
+    HarmonicFingerprint,
+    'roman_progression' | 'analysis_version' | 'confidence_score'
+  > & { detected_key: string | null; detected_mode: string | null } | null;
+}
+
 /**
  * Relative tonal center (intervallic, not absolute)
  */
@@ -48,6 +76,27 @@ export interface RelativeTonalCenter {
   stability_score: number; // 0.0 - 1.0
 }
 
+/**
+ * Key change within a track
+ */
+export interface Modulation {
+  timestamp_ms: number; // Where the new key takes over
+  tonal_center: RelativeTonalCenter; // New key (root_interval as in the fingerprint's tonal_center)
+  interval_semitones: number; // Shift from the previous key, -5..+6 (+2 = up a whole step)
+  pivot_chord: PivotChord | null; // Null for direct ("truck driver") modulations
+  confidence: number; // 0.0 - 1.0
+}
+
+/**
+ * Chord shared by both keys that carries a modulation
+ */
+export interface PivotChord {
+  numeral_before: string; // In the previous key, e.g. "vi"
+  numeral_after: string; // In the new key, e.g. "ii"
+  quality: ChordQuality;
+  timing_ms: number;
+}
+
 /**
  * Roman numeral chord with quality
  */
@@ -122,6 +171,8 @@ export interface SectionProgression {
   progression: RomanChord[];
   repeat_count: number;
   variations?: RomanChord[][]; // Alternate endings, etc.
+  start_ms?: number; // Where this occurrence starts, when known
+  end_ms?: number;
 }
 
 // ============================================================================
@@ -151,6 +202,15 @@ export interface AnalysisJob {
   completed_at?: string;
   error_message?: string;
   result?: HarmonicFingerprint;
+  
+  // Job runner bookkeeping (set by the harmonic-analysis worker)
+  audio_url?: string | null;
+  priority?: AnalysisRequest['priority'];
+  attempts?: number;
+  max_attempts?: number;
+  next_attempt_at?: string; // Retry backoff: not claimable before this
+  reason?: 'request' | 'reanalysis'; // Re-analysis jobs upgrade an older model's result
+  previous_version?: string | null;
 }
 
 export type AnalysisStatus = 
@@ -158,7 +218,8 @@ export type AnalysisStatus =
   | 'processing' 
   | 'completed' 
   | 'failed' 
-  | 'cached';
+  | 'cached'
+  | 'dead_letter'; // Gave up after max_attempts (or a permanent error)
 
 /**
  * Analysis confidence breakdown
@@ -216,6 +277,35 @@ export interface SimilarityQuery {
   max_results?: number; // Default 20
   filters?: SimilarityFilters;
   weights?: SimilarityWeights;
+  section?: SectionReference; // Match this section against the same section of other tracks
+}
+
+/**
+ * Section of the reference track to match ("this chorus")
+ * A specific TrackSection id wins over a label.
+ */
+export interface SectionReference {
+  label?: SongSectionType;
+  section_id?: string;
+}
+
+/**
+ * One occurrence of a section with its progression and position
+ */
+export interface SectionSpan {
+  label: SongSectionType;
+  progression: RomanChord[];
+  section_id?: string; // track_sections.id, when the occurrence has one
+  start_ms?: number;
+  end_ms?: number;
+}
+
+/**
+ * Which section of a result matched the reference section
+ */
+export interface SectionMatch {
+  reference: SectionSpan;
+  candidate: SectionSpan;
 }
 
 /**
@@ -226,6 +316,19 @@ export interface SimilarityFilters {
   same_mode_only?: boolean; // major/minor constraint
   tempo_range?: [number, number]; // BPM range
   exclude_track_ids?: string[]; // Blacklist
+  modulation?: ModulationFilter; // Only tracks that change key this way
+}
+
+/**
+ * Key-change filter, e.g. up a whole step in the last chorus:
+ * { interval_semitones: 2, section: 'chorus', last_section: true }
+ */
+export interface ModulationFilter {
+  interval_semitones?: number; // Exact shift (-5..+6)
+  direction?: 'up' | 'down';
+  to_mode?: 'major' | 'minor';
+  section?: SongSectionType; // Section the new key starts in
+  last_section?: boolean; // In the last occurrence of that section (or the last part of the track)
 }
 
 /**
@@ -247,8 +350,39 @@ export interface SimilarityResult {
   similarity_score: number; // 0.0 - 1.0
   matching_features: string[]; // e.g., ["progression_shape", "cadence_type"]
   explanation?: string; // Human-readable why it's similar
+  alignment?: ProgressionAlignment; // How the progressions line up
+  matched_section?: SectionMatch; // Section queries: where to jump to in the result
+}
+
+/**
+ * Chord-by-chord alignment between two progressions
+ */
+export interface ProgressionAlignment {
+  score: number; // 0.0 - 1.0
+  rotation: number; // Chords the second progression was rotated by
+  transposition: number; // Semitones the second progression was shifted by
+  repeats: { a: number; b: number }; // Times each loop was repeated to match lengths
+  steps: AlignmentStep[];
+  explanation: string;
 }
 
+export interface AlignmentStep {
+  op: 'match' | 'substitute' | 'insert' | 'delete';
+  a?: string; // Numeral from the first progression
+  b?: string; // Numeral from the second progression
+  a_index?: number;
+  b_index?: number;
+  cost: number;
+  relation?: AlignmentRelation;
+}
+
+export type AlignmentRelation =
+  | 'exact'
+  | 'extension' // Same chord, different seventh/inversion
+  | 'mixture' // Same root, parallel-mode quality (IV vs iv)
+  | 'same_function' // Tonic/predominant/dominant substitute (I vs vi)
+  | 'different_function';
+
 /**
  * Harmonic cluster (group of similar tracks)
  */
@@ -287,22 +421,17 @@ export function getDisplayKey(
 
 /**
  * Compare two progressions for similarity
+ * Alignment-based: tolerant of rotations, loop length and substitutions
+ * (see alignProgressions for the full alignment)
  */
 export function compareProgressions(
   a: RomanChord[],
-  b: RomanChord[]
+  b: RomanChord[],
+  options?: AlignmentOptions
 ): number {
-  if (a.length !== b.length) return 0;
-  
-  let matches = 0;
-  for (let i = 0; i < a.length; i++) {
-    if (a[i].numeral === b[i].numeral && a[i].quality === b[i].quality) {
-      matches++;
-    }
-  }
-  
-  return matches / a.length;
+  return alignProgressions(a, b, options).score;
 }
 
 // Import Track for type reference
-import type { Track } from './index';
+import type { SongSectionType, Track } from './index';
+import { alignProgressions, type AlignmentOptions } from '@/lib/progressionAlignment';
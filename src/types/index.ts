@@ -51,6 +51,7 @@ export interface ProviderLink {
   url_web?: string;
   url_app?: string;
   url_preview?: string;
+  available_markets?: string[]; // ISO country codes; absent when unknown
 }
 
 // Canonical track shape for unified search results
@@ -62,6 +63,7 @@ export interface Track {
   duration_ms?: number;
   artwork_url?: string;
   isrc?: string;
+  version?: TrackVersion | null; // Stripped from the title ("Remastered 2011", "Live")
   
   // Provider-specific data (optional - populated by unified search)
   providerIds?: Partial<Record<MusicProvider, string>>; // Map of provider -> provider track ID
@@ -123,6 +125,25 @@ export interface Track {
   updated_at?: string;
 }
 
+// Recording variant parsed from a title suffix
+export type TrackVersionKind =
+  | 'remaster'
+  | 'live'
+  | 'remix'
+  | 'acoustic'
+  | 'radio_edit'
+  | 'extended'
+  | 'instrumental'
+  | 'demo'
+  | 'mono';
+
+export interface TrackVersion {
+  kind: TrackVersionKind;
+  label: string; // As written, e.g. "Remastered 2011"
+  year?: number;
+  remixer?: string;
+}
+
 export interface UserProfile {
   id: string;
   email?: string;
@@ -170,8 +191,18 @@ export interface ChordSubmission {
   detected_key?: string;
   detected_mode?: 'major' | 'minor';
   progression_roman?: string[];
+  notes?: string;
   status: 'pending' | 'approved' | 'rejected';
-  moderated_by?: string;
+  moderated_by?: string; // Unset when approved by consensus
+  moderated_at?: string;
+  promoted_at?: string; // When the result was written to harmonic_fingerprints
+  created_at: string;
+}
+
+export interface ChordSubmissionVote {
+  submission_id: string;
+  user_id: string;
+  vote: 1 | -1;
   created_at: string;
 }
 
@@ -219,6 +250,7 @@ export interface SearchResult {
   tracks: Track[];
   total: number;
   cached: boolean;
+  stale?: boolean; // Served from cache past its TTL while a refresh runs
   partial_results?: string[]; // List of providers that had errors
   warnings?: string[];
 }
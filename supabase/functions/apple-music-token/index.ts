@@ -0,0 +1,77 @@
+/**
+ * Supabase Edge Function: Apple Music Developer Token
+ *
+ * Signs short-lived Apple Music developer tokens for the AppleMusicConnector.
+ * The MusicKit private key stays here; the browser only sees the token.
+ *
+ * FLOW:
+ * 1. Reuse the token signed by this instance while it has time left
+ * 2. Otherwise sign a new ES256 token (src/lib/connectors/appleMusicToken.ts)
+ *    from APPLE_MUSIC_TEAM_ID, APPLE_MUSIC_KEY_ID and APPLE_MUSIC_PRIVATE_KEY
+ */
+
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  signDeveloperToken,
+  type DeveloperToken,
+} from '../../../src/lib/connectors/appleMusicToken.ts'
+
+const TOKEN_CONFIG = {
+  TTL_SECONDS: 12 * 3600,
+  // Hand out a fresh token once the cached one has less than this left
+  MIN_REMAINING_MS: 60 * 60 * 1000,
+} as const
+
+let cachedToken: DeveloperToken | null = null
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const teamId = Deno.env.get('APPLE_MUSIC_TEAM_ID')
+    const keyId = Deno.env.get('APPLE_MUSIC_KEY_ID')
+    const privateKey = Deno.env.get('APPLE_MUSIC_PRIVATE_KEY')
+
+    if (!teamId || !keyId || !privateKey) {
+      return jsonResponse({
+        success: false,
+        error: 'Apple Music is not configured',
+      }, 503)
+    }
+
+    // Step 1: Cached token
+    if (cachedToken && new Date(cachedToken.expires_at).getTime() - Date.now() > TOKEN_CONFIG.MIN_REMAINING_MS) {
+      return jsonResponse({ success: true, ...cachedToken })
+    }
+
+    // Step 2: Sign
+    cachedToken = await signDeveloperToken({
+      teamId,
+      keyId,
+      privateKey,
+      ttlSeconds: TOKEN_CONFIG.TTL_SECONDS,
+    })
+
+    console.log('[AppleMusicToken] Signed developer token:', { expires_at: cachedToken.expires_at })
+
+    return jsonResponse({ success: true, ...cachedToken })
+  } catch (error) {
+    console.error('[AppleMusicToken] Error:', error)
+
+    const errMessage = (error as Error)?.message ?? 'Unknown error'
+    return jsonResponse({
+      success: false,
+      error: errMessage,
+    }, 500)
+  }
+})
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
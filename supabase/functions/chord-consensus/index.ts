@@ -0,0 +1,244 @@
+/**
+ * Supabase Edge Function: Chord Consensus
+ *
+ * Recomputes the crowd consensus for one track's chord corrections and
+ * promotes it into harmonic_fingerprints once the crowd (or a moderator)
+ * agrees. Called after every submission, vote and moderation decision;
+ * the outcome depends only on database state, so repeated calls are safe.
+ *
+ * FLOW:
+ * 1. Load the track's submissions and votes
+ * 2. Derive contributor reputation from approved/rejected history
+ * 3. Weighted consensus (src/lib/chordConsensus.ts)
+ * 4. Promote: fingerprint with provenance, track display fields,
+ *    submissions marked approved/promoted
+ */
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  buildPromotedFingerprint,
+  computeConsensus,
+  reputationWeight,
+  type ConsensusProposal,
+  type ConsensusSubmission,
+  type ConsensusVote,
+} from '../../../src/lib/chordConsensus.ts'
+import type { HarmonicFingerprint } from '../../../src/types/harmony.ts'
+
+// Columns written back on promotion (generated and bookkeeping columns excluded)
+const FINGERPRINT_COLUMNS = [
+  'id', 'track_id', 'isrc', 'audio_hash', 'audio_hash_bands', 'chromaprint', 'tonal_center',
+  'roman_progression', 'loop_length_bars', 'cadence_type', 'modal_color', 'borrowed_chords',
+  'section_progressions', 'confidence_score', 'analysis_timestamp', 'analysis_version',
+  'is_provisional', 'detected_key', 'detected_mode', 'analysis_method', 'provenance',
+].join(', ')
+
+interface ConsensusRequest {
+  track_id: string
+  dry_run?: boolean // Report the consensus without promoting
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const request: ConsensusRequest = await req.json()
+    if (!request.track_id) {
+      return jsonResponse({ success: false, error: 'track_id is required' }, 400)
+    }
+
+    // Step 1: Submissions and votes
+    const { submissions, votes } = await loadSubmissions(supabaseClient, request.track_id)
+
+    // Step 2: Reputation
+    const reputations = await loadReputations(supabaseClient, [
+      ...submissions.map(s => s.user_id),
+      ...votes.map(v => v.user_id),
+    ])
+
+    // Step 3: Consensus
+    const consensus = computeConsensus(submissions, votes, reputations)
+
+    // Step 4: Promotion
+    let promoted = false
+    if (consensus.status === 'promote' && consensus.proposal && !request.dry_run) {
+      promoted = await promoteProposal(supabaseClient, request.track_id, consensus.proposal)
+    }
+
+    return jsonResponse({
+      success: true,
+      track_id: request.track_id,
+      status: consensus.status,
+      promoted,
+      proposal: consensus.proposal,
+      proposals: consensus.proposals,
+    })
+  } catch (error) {
+    console.error('[ChordConsensus] Error:', error)
+
+    const errMessage = (error as Error)?.message ?? 'Unknown error'
+    return jsonResponse({
+      success: false,
+      error: errMessage,
+    }, 500)
+  }
+})
+
+// Helper: A track's submissions with the votes cast on them
+async function loadSubmissions(
+  supabaseClient: SupabaseClient,
+  trackId: string
+): Promise<{ submissions: ConsensusSubmission[]; votes: ConsensusVote[] }> {
+  const { data, error } = await supabaseClient
+    .from('chord_submissions')
+    .select('id, user_id, progression_roman, detected_key, detected_mode, status, moderated_by, created_at, chord_submission_votes(submission_id, user_id, vote)')
+    .eq('track_id', trackId)
+
+  if (error) {
+    throw new Error(`Failed to load submissions: ${error.message}`)
+  }
+
+  const rows = (data ?? []) as Array<ConsensusSubmission & { chord_submission_votes: ConsensusVote[] }>
+  return {
+    submissions: rows.map(({ chord_submission_votes: _votes, ...submission }) => submission),
+    votes: rows.flatMap(row => row.chord_submission_votes ?? []),
+  }
+}
+
+// Helper: Reputation weight per user from their moderation history
+async function loadReputations(
+  supabaseClient: SupabaseClient,
+  userIds: string[]
+): Promise<Record<string, number>> {
+  const users = [...new Set(userIds)]
+  if (users.length === 0) return {}
+
+  const [{ data: history, error: historyError }, { data: roles, error: rolesError }] = await Promise.all([
+    supabaseClient
+      .from('chord_submissions')
+      .select('user_id, status')
+      .in('user_id', users)
+      .in('status', ['approved', 'rejected']),
+    supabaseClient
+      .from('user_roles')
+      .select('user_id, role')
+      .in('user_id', users)
+      .in('role', ['moderator', 'admin']),
+  ])
+
+  if (historyError) {
+    console.error('[ChordConsensus] Reputation lookup error:', historyError.message)
+  }
+  if (rolesError) {
+    console.error('[ChordConsensus] Role lookup error:', rolesError.message)
+  }
+
+  const moderators = new Set((roles ?? []).map(row => row.user_id as string))
+  const reputations: Record<string, number> = {}
+  for (const userId of users) {
+    const own = (history ?? []).filter(row => row.user_id === userId)
+    reputations[userId] = reputationWeight({
+      approved: own.filter(row => row.status === 'approved').length,
+      rejected: own.filter(row => row.status === 'rejected').length,
+      is_moderator: moderators.has(userId),
+    })
+  }
+
+  return reputations
+}
+
+// Helper: Write the consensus into harmonic_fingerprints (with provenance)
+// and the track's display fields; false when it was already promoted
+async function promoteProposal(
+  supabaseClient: SupabaseClient,
+  trackId: string,
+  proposal: ConsensusProposal
+): Promise<boolean> {
+  const { data: existingRows, error: existingError } = await supabaseClient
+    .from('harmonic_fingerprints')
+    .select(FINGERPRINT_COLUMNS)
+    .eq('track_id', trackId)
+    .order('analysis_timestamp', { ascending: false })
+    .limit(1)
+
+  if (existingError) {
+    throw new Error(`Failed to load fingerprint: ${existingError.message}`)
+  }
+
+  const existing = (existingRows?.[0] ?? null) as unknown as (HarmonicFingerprint & { id: string }) | null
+  const alreadyPromoted = existing?.provenance?.submission_ids
+  if (alreadyPromoted && proposal.submission_ids.every(id => alreadyPromoted.includes(id))) {
+    return false
+  }
+
+  const promotedAt = new Date().toISOString()
+  const { id: fingerprintId, ...fingerprint } = {
+    ...buildPromotedFingerprint(trackId, proposal, existing, promotedAt),
+    id: existing?.id,
+  }
+
+  const { error: storeError } = fingerprintId
+    ? await supabaseClient.from('harmonic_fingerprints').update({ ...fingerprint, updated_at: promotedAt }).eq('id', fingerprintId)
+    : await supabaseClient.from('harmonic_fingerprints').insert(fingerprint)
+
+  if (storeError) {
+    throw new Error(`Failed to store fingerprint: ${storeError.message}`)
+  }
+
+  const { error: trackError } = await supabaseClient
+    .from('tracks')
+    .update({
+      progression_roman: fingerprint.roman_progression.map(chord => chord.numeral),
+      detected_key: fingerprint.detected_key,
+      detected_mode: fingerprint.detected_mode,
+      cadence_type: fingerprint.cadence_type,
+      analysis_source: 'crowd_sourced',
+      updated_at: promotedAt,
+    })
+    .eq('id', trackId)
+
+  if (trackError) {
+    console.error('[ChordConsensus] Failed to update track:', trackError.message)
+  }
+
+  // Auto-promoted submissions are approved without a moderator
+  const { error: submissionError } = await supabaseClient
+    .from('chord_submissions')
+    .update({ status: 'approved', promoted_at: promotedAt })
+    .in('id', proposal.submission_ids)
+
+  if (submissionError) {
+    console.error('[ChordConsensus] Failed to mark submissions:', submissionError.message)
+  }
+
+  console.log('[ChordConsensus] Promoted consensus:', {
+    track_id: trackId,
+    submissions: proposal.submission_ids.length,
+    support: proposal.support,
+    approved_by: proposal.approved_by ?? 'consensus',
+  })
+
+  return true
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
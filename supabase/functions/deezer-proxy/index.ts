@@ -0,0 +1,85 @@
+/**
+ * Supabase Edge Function: Deezer API Proxy
+ *
+ * api.deezer.com sends no CORS headers, so the DeezerConnector reaches it
+ * through here (see src/lib/connectors/edgeProxy.ts).
+ *
+ * FLOW:
+ * 1. Accept GET /deezer-proxy/<path>?<query> for the paths the connector
+ *    uses (track search, track lookup); anything else is rejected
+ * 2. Serve a recent identical response from this instance's cache, so
+ *    repeated searches don't spend the quota (50 requests per 5 seconds)
+ * 3. Otherwise forward to api.deezer.com and return the response unchanged
+ *    (Deezer reports its own errors, quota included, in the body)
+ */
+
+import { corsHeaders } from '../_shared/cors.ts'
+
+const PROXY_CONFIG = {
+  UPSTREAM_URL: 'https://api.deezer.com',
+  ALLOWED_PATHS: [/^\/search\/track$/, /^\/track\/\d+$/],
+  FETCH_TIMEOUT_MS: 5000,
+  CACHE_TTL_MS: 60_000,
+  CACHE_MAX_ENTRIES: 500,
+} as const
+
+const cache = new Map<string, { body: string; status: number; expiresAt: number }>()
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== 'GET') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    // Step 1: Only the connector's endpoints
+    const url = new URL(req.url)
+    const path = url.pathname.replace(/^.*?\/deezer-proxy/, '')
+    if (!PROXY_CONFIG.ALLOWED_PATHS.some(pattern => pattern.test(path))) {
+      return jsonResponse({ error: 'Path not allowed' }, 404)
+    }
+
+    // Step 2: Cached response
+    const upstreamUrl = `${PROXY_CONFIG.UPSTREAM_URL}${path}${url.search}`
+    const cached = cache.get(upstreamUrl)
+    if (cached && cached.expiresAt > Date.now()) {
+      return proxiedResponse(cached.body, cached.status)
+    }
+
+    // Step 3: Forward
+    const response = await fetch(upstreamUrl, {
+      signal: AbortSignal.timeout(PROXY_CONFIG.FETCH_TIMEOUT_MS),
+    })
+    const body = await response.text()
+
+    // Error bodies (quota included) aren't cached
+    if (response.ok && !body.startsWith('{"error"')) {
+      if (cache.size >= PROXY_CONFIG.CACHE_MAX_ENTRIES) {
+        cache.delete(cache.keys().next().value!)
+      }
+      cache.set(upstreamUrl, { body, status: response.status, expiresAt: Date.now() + PROXY_CONFIG.CACHE_TTL_MS })
+    }
+
+    return proxiedResponse(body, response.status)
+  } catch (error) {
+    console.error('[DeezerProxy] Error:', error)
+
+    const errMessage = (error as Error)?.message ?? 'Unknown error'
+    return jsonResponse({ error: errMessage }, 502)
+  }
+})
+
+function proxiedResponse(body: string, status: number): Response {
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return proxiedResponse(JSON.stringify(body), status)
+}
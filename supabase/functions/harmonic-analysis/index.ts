@@ -1,33 +1,92 @@
 /**
  * Supabase Edge Function: Harmonic Analysis
- * 
- * Processes harmonic analysis jobs in the background.
- * Triggered by analysis_jobs queue or manual invocation.
- * 
+ *
+ * Job runner for the analysis_jobs queue.
+ * Triggered per job by the client, or in drain mode by a scheduler.
+ *
+ * CALLERS: signed-in users request analysis of a track; draining the queue
+ * and forced re-analysis take the service role key (scheduler, planner).
+ * Audio is only fetched from our storage or the providers' preview CDNs.
+ *
  * FLOW:
- * 1. Receive job request
- * 2. Update job status to 'processing'
- * 3. Run ML analysis pipeline (stub for now)
- * 4. Store result in harmonic_fingerprints table
- * 5. Update job status to 'completed' or 'failed'
+ * 1. Receive job request (or drain request without track_id)
+ * 2. Reuse cached fingerprint when one is still valid
+ * 3. Claim job(s) with row locking (claim_analysis_jobs → SKIP LOCKED)
+ * 4. Hash the audio perceptually; alias the track to an existing fingerprint
+ *    of the same recording (re-encode, remaster) instead of re-analysing
+ *    (skipped for re-analysis jobs, which upgrade the track's own result)
+ * 5. Otherwise run the shared DSP pipeline (src/lib/harmonicDsp.ts, same as
+ *    the client) and store the result, with its harmonic embedding, in
+ *    harmonic_fingerprints (crowd-corrected progressions and keys are kept).
+ *    A result from an older model is only replaced when the new one beats
+ *    its confidence; the difference is recorded in analysis_version_diffs
+ * 6. Assign the track to its nearest progression family (harmonic_clusters)
+ * 7. Complete the job, or retry with backoff / dead-letter after N attempts
  */
 
 import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import {
+  analyzePcm,
+  buildHarmonicFingerprint,
+  computeAudioFingerprint,
+  decodeWav,
+  matchAudioFingerprints,
+  ANALYSIS_MODEL_VERSION,
+  type AudioFingerprint,
+  type PerceptualMatch,
+} from '../../../src/lib/harmonicDsp.ts'
+import { embedFingerprint } from '../../../src/lib/harmonicEmbedding.ts'
+import { preserveCrowdCorrection } from '../../../src/lib/chordConsensus.ts'
+import {
+  diffFingerprints,
+  isOutdated,
+  shouldReplaceFingerprint,
+  type VersionDiff,
+} from '../../../src/lib/reanalysisPlanner.ts'
+import { assignToCluster } from '../../../src/lib/progressionClustering.ts'
+import type { HarmonicFingerprint, RomanChord } from '../../../src/types/harmony.ts'
 
 const ANALYSIS_CONFIG = {
   CACHE_TTL_DAYS: 90,
   REANALYSIS_THRESHOLD_DAYS: 365,
-  CURRENT_MODEL_VERSION: '1.0.0',
+  CURRENT_MODEL_VERSION: ANALYSIS_MODEL_VERSION,
+
+  // Job runner
+  DRAIN_BATCH_SIZE: 3,
+  LEASE_SECONDS: 300,
+  RETRY_BASE_DELAY_MS: 30_000,
+  RETRY_MAX_DELAY_MS: 60 * 60 * 1000,
+
+  // Audio input
+  AUDIO_FETCH_TIMEOUT_MS: 20_000,
+  MAX_AUDIO_BYTES: 50 * 1024 * 1024,
+  MAX_AUDIO_REDIRECTS: 3,
+  // Provider preview CDNs (a leading dot allows subdomains); our own
+  // storage is allowed besides
+  AUDIO_HOSTS: [
+    'p.scdn.co', // Spotify
+    '.dzcdn.net', // Deezer (cdnt-preview, cdns-preview-*)
+    'audio-ssl.itunes.apple.com', // Apple Music
+  ],
+  STORAGE_PATH_PREFIX: '/storage/v1/object/',
+
+  // Near-duplicate lookup (rows sharing a perceptual hash band)
+  PERCEPTUAL_CANDIDATE_LIMIT: 20,
+
+  // Incremental cluster assignment (largest families first)
+  CLUSTER_CANDIDATE_LIMIT: 200,
 } as const
 
 interface AnalysisRequest {
-  track_id: string
+  track_id?: string
   audio_hash?: string
   isrc?: string
+  audio_url?: string
   priority?: 'low' | 'normal' | 'high'
   force_reanalysis?: boolean
   job_id?: string
+  batch_size?: number // Drain mode only
 }
 
 interface AnalysisJob {
@@ -35,37 +94,45 @@ interface AnalysisJob {
   track_id: string
   audio_hash?: string | null
   isrc?: string | null
-  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cached'
+  audio_url?: string | null
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cached' | 'dead_letter'
+  priority: 'low' | 'normal' | 'high'
   progress: number
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  locked_by?: string | null
   started_at: string
   completed_at?: string | null
   error_message?: string | null
   analysis_version: string
+  reason?: 'request' | 'reanalysis'
+  previous_version?: string | null
   result?: HarmonicFingerprint | null
 }
 
-interface HarmonicFingerprint {
-  track_id: string
-  audio_hash?: string | null
-  isrc?: string | null
-  tonal_center: {
-    root_interval: number
-    mode: 'major' | 'minor' | 'dorian' | 'phrygian' | 'lydian' | 'mixolydian' | 'aeolian' | 'locrian'
-    stability_score: number
-  }
-  roman_progression: Array<{
-    numeral: string
-    quality: 'major' | 'minor' | 'diminished' | 'augmented' | 'dominant'
-    extensions?: string[]
-  }>
-  loop_length_bars: number
-  cadence_type: 'authentic' | 'plagal' | 'deceptive' | 'half' | 'none'
-  confidence_score: number
-  analysis_timestamp: string
-  analysis_version: string
-  is_provisional: boolean
-  detected_key?: string
-  detected_mode: string
+interface PerceptualDuplicate {
+  fingerprint: HarmonicFingerprint & { id: string }
+  match: PerceptualMatch
+}
+
+interface JobOutcome {
+  job_id: string
+  status: AnalysisJob['status']
+  attempts: number
+  fingerprint?: HarmonicFingerprint
+  error?: string
+  next_attempt_at?: string
+}
+
+/**
+ * Failure that retrying cannot fix (missing or undecodable audio)
+ */
+class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentJobError'
+  }
 }
 
 Deno.serve(async (req) => {
@@ -88,14 +155,43 @@ Deno.serve(async (req) => {
       }
     )
 
-    // Parse request
-    const request: AnalysisRequest = await req.json()
-    const { track_id, audio_hash, isrc, force_reanalysis, job_id } = request
+    // Signed-in user or the service role
+    const token = req.headers.get('Authorization')?.replace(/Bearer\s+/i, '')
+    const isService = !!token && token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!isService) {
+      const { data: userRes } = token ? await supabaseClient.auth.getUser(token) : { data: null }
+      if (!userRes?.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+      }
+    }
+
+    // Parse request (empty body = drain mode)
+    const request: AnalysisRequest = await req.json().catch(() => ({}))
+    const { track_id, audio_hash, isrc, audio_url, force_reanalysis, job_id } = request
+    const workerId = `edge-${crypto.randomUUID()}`
+
+    // Draining and forcing re-analysis are for the scheduler and planner
+    if (!isService && (!track_id || force_reanalysis)) {
+      return jsonResponse({ success: false, error: 'Forbidden' }, 403)
+    }
+    if (audio_url && !isAllowedAudioUrl(audio_url)) {
+      return jsonResponse({ success: false, error: 'audio_url host not allowed' }, 400)
+    }
+
+    if (!track_id) {
+      const outcomes = await drainQueue(
+        supabaseClient,
+        workerId,
+        request.batch_size ?? ANALYSIS_CONFIG.DRAIN_BATCH_SIZE
+      )
+      return jsonResponse({ success: true, worker_id: workerId, processed: outcomes })
+    }
 
     console.log('[HarmonicAnalysis] Processing request:', {
       track_id,
       has_audio_hash: !!audio_hash,
       has_isrc: !!isrc,
+      has_audio_url: !!audio_url,
       force_reanalysis,
       job_id,
     })
@@ -127,7 +223,7 @@ Deno.serve(async (req) => {
       })
     }
 
-    // Step 2: Find or create analysis job (idempotent)
+    // Step 2: Find or enqueue the job (idempotent)
     let job = await findActiveJob(supabaseClient, {
       jobId: job_id,
       track_id,
@@ -136,16 +232,17 @@ Deno.serve(async (req) => {
     })
 
     if (!job) {
-      const newJobId = job_id ?? crypto.randomUUID()
       const { data: inserted, error: insertError } = await supabaseClient
         .from('analysis_jobs')
         .insert({
-          id: newJobId,
+          id: job_id ?? crypto.randomUUID(),
           track_id,
           audio_hash: audio_hash ?? null,
           isrc: isrc ?? null,
-          status: 'processing',
-          progress: 0.05,
+          audio_url: audio_url ?? null,
+          priority: request.priority ?? 'normal',
+          status: 'queued',
+          progress: 0,
           started_at: nowIso,
           analysis_version: ANALYSIS_CONFIG.CURRENT_MODEL_VERSION,
         })
@@ -157,109 +254,494 @@ Deno.serve(async (req) => {
       }
 
       job = (inserted?.[0] as AnalysisJob) ?? null
-    } else if (job.status !== 'processing') {
-      const { data: updated, error: updateError } = await supabaseClient
+    } else if (audio_url && !job.audio_url) {
+      await supabaseClient
         .from('analysis_jobs')
-        .update({
-          status: 'processing',
-          progress: 0.05,
-          updated_at: nowIso,
-          analysis_version: ANALYSIS_CONFIG.CURRENT_MODEL_VERSION,
-        })
+        .update({ audio_url, updated_at: nowIso })
         .eq('id', job.id)
-        .select('*')
-        .limit(1)
-
-      if (updateError) {
-        throw new Error(`Failed to adopt job: ${updateError.message}`)
-      }
-
-      job = (updated?.[0] as AnalysisJob) ?? job
     }
 
     if (!job) {
       throw new Error('Unable to initialize analysis job')
     }
 
-    console.log('[HarmonicAnalysis] Starting analysis:', job.id)
+    // Step 3: Claim it; another worker may hold the lock or a backoff may be pending
+    const [claimed] = await claimJobs(supabaseClient, workerId, { jobId: job.id, limit: 1 })
+    if (!claimed) {
+      return jsonResponse({
+        success: true,
+        job_id: job.id,
+        status: job.status,
+        method: 'queued',
+      }, 202)
+    }
+
+    // Step 4-6: Analyze, store, complete (or retry / dead-letter)
+    const outcome = await processJob(supabaseClient, workerId, claimed)
+
+    return jsonResponse({
+      success: outcome.status === 'completed',
+      method: 'ml_audio',
+      ...outcome,
+    })
+  } catch (error) {
+    console.error('[HarmonicAnalysis] Error:', error)
+
+    const errMessage = (error as Error)?.message ?? 'Unknown error'
+    return jsonResponse({
+      success: false,
+      error: errMessage,
+    }, 500)
+  }
+})
+
+// ============================================================================
+// JOB RUNNER
+// ============================================================================
+
+// Helper: Claim runnable jobs with row locking
+async function claimJobs(
+  supabaseClient: SupabaseClient,
+  workerId: string,
+  params: { jobId?: string; limit: number }
+): Promise<AnalysisJob[]> {
+  const { data, error } = await supabaseClient.rpc('claim_analysis_jobs', {
+    p_worker_id: workerId,
+    p_limit: params.limit,
+    p_job_id: params.jobId ?? null,
+    p_lease_seconds: ANALYSIS_CONFIG.LEASE_SECONDS,
+  })
+
+  if (error) {
+    throw new Error(`Failed to claim jobs: ${error.message}`)
+  }
+
+  return (data as AnalysisJob[] | null) ?? []
+}
+
+// Helper: Process claimable jobs one at a time (scheduled invocation)
+async function drainQueue(
+  supabaseClient: SupabaseClient,
+  workerId: string,
+  batchSize: number
+): Promise<JobOutcome[]> {
+  const claimed = await claimJobs(supabaseClient, workerId, { limit: batchSize })
+  const outcomes: JobOutcome[] = []
+
+  for (const job of claimed) {
+    outcomes.push(await processJob(supabaseClient, workerId, job))
+  }
+
+  console.log('[HarmonicAnalysis] Drained queue:', {
+    worker_id: workerId,
+    claimed: claimed.length,
+    completed: outcomes.filter(o => o.status === 'completed').length,
+  })
+
+  return outcomes
+}
+
+// Helper: Run the analysis pipeline for one claimed job
+async function processJob(
+  supabaseClient: SupabaseClient,
+  workerId: string,
+  job: AnalysisJob
+): Promise<JobOutcome> {
+  console.log('[HarmonicAnalysis] Starting analysis:', {
+    job_id: job.id,
+    attempt: job.attempts,
+    max_attempts: job.max_attempts,
+  })
 
+  try {
     // Update progress: Fetching audio
-    await updateJobProgress(supabaseClient, job.id, 0.2)
+    await updateJobProgress(supabaseClient, job.id, 0.1)
+    const pcm = await fetchPcm(job.audio_url)
 
-    // TODO: Integrate actual ML model here
-    // For now, use mock analysis
-    const fingerprint = await runMockAnalysis(track_id, audio_hash, isrc)
+    // Update progress: Identifying recording
+    await updateJobProgress(supabaseClient, job.id, 0.2)
+    const identity = computeAudioFingerprint(pcm)
+    const duplicate = job.reason === 'reanalysis'
+      ? null
+      : await findPerceptualDuplicate(supabaseClient, job.track_id, identity)
+    if (duplicate) {
+      return await completeAsAlias(supabaseClient, workerId, job, identity, duplicate)
+    }
 
     // Update progress: Extracting features
-    await updateJobProgress(supabaseClient, job.id, 0.5)
+    await updateJobProgress(supabaseClient, job.id, 0.3)
+    const analysis = analyzePcm(pcm)
 
-    // Update progress: Detecting harmony
+    // Update progress: Storing result
     await updateJobProgress(supabaseClient, job.id, 0.8)
+    const fingerprint = buildHarmonicFingerprint(analysis, {
+      track_id: job.track_id,
+      audio_hash: identity.audio_hash,
+      isrc: job.isrc,
+    })
+    // Crowd-corrected progressions/keys survive re-analysis
+    const stored = await findStoredFingerprint(supabaseClient, job.track_id)
+    const crowdCorrection = stored?.analysis_method === 'crowd_sourced' ? stored : null
+    const analysed: HarmonicFingerprint = {
+      ...preserveCrowdCorrection({ ...fingerprint, ...embedFingerprint(fingerprint) }, crowdCorrection),
+      audio_hash_bands: identity.hash_bands,
+      chromaprint: identity.chromaprint,
+    }
 
-    const fingerprintToStore: HarmonicFingerprint = {
-      ...fingerprint,
-      audio_hash: audio_hash ?? fingerprint.audio_hash ?? null,
-      isrc: isrc ?? fingerprint.isrc ?? null,
-      analysis_version: ANALYSIS_CONFIG.CURRENT_MODEL_VERSION,
-      analysis_timestamp: nowIso,
-      is_provisional: false,
+    // An older model's result stays until the new one beats its confidence
+    const replace = shouldReplaceFingerprint(stored, analysed)
+    if (stored && isOutdated(stored.analysis_version, analysed.analysis_version)) {
+      await recordVersionDiff(supabaseClient, job.id, diffFingerprints(stored, analysed, replace))
     }
+    const fingerprintToStore = replace ? analysed : stored!
 
-    // Step 4: Store result with idempotent conflict key
-    const conflictKey = fingerprintToStore.audio_hash
-      ? 'audio_hash'
-      : fingerprintToStore.isrc
-        ? 'isrc'
-        : 'track_id'
+    if (replace) {
+      // Store result with idempotent conflict key (perceptual hashes are not
+      // unique; same-recording duplicates were aliased above)
+      const conflictKey = fingerprintToStore.isrc ? 'isrc' : 'track_id'
 
-    const { error: storeError } = await supabaseClient
-      .from('harmonic_fingerprints')
-      .upsert(fingerprintToStore, {
-        onConflict: conflictKey,
-      })
+      const { error: storeError } = await supabaseClient
+        .from('harmonic_fingerprints')
+        .upsert(fingerprintToStore, {
+          onConflict: conflictKey,
+        })
 
-    if (storeError) {
-      throw new Error(`Failed to store result: ${storeError.message}`)
+      if (storeError) {
+        throw new Error(`Failed to store result: ${storeError.message}`)
+      }
+
+      await assignClusterMembership(supabaseClient, job.track_id, fingerprintToStore)
+    } else {
+      // Re-analysis confirmed the stored result: renew its reuse window
+      // (reuse_until/reanalyze_after are generated from analysis_timestamp)
+      const { error: touchError } = await supabaseClient
+        .from('harmonic_fingerprints')
+        .update({ analysis_timestamp: new Date().toISOString() })
+        .eq('track_id', job.track_id)
+
+      if (touchError) {
+        throw new Error(`Failed to refresh stored result: ${touchError.message}`)
+      }
     }
 
-    // Step 5: Mark job complete
+    // Mark job complete (only if we still hold the lease)
+    const completedAt = new Date().toISOString()
     const { error: completeError } = await supabaseClient
       .from('analysis_jobs')
       .update({
         status: 'completed',
         progress: 1.0,
-        completed_at: new Date().toISOString(),
+        completed_at: completedAt,
         result: fingerprintToStore,
-        updated_at: new Date().toISOString(),
+        error_message: null,
+        locked_by: null,
+        locked_at: null,
+        updated_at: completedAt,
       })
       .eq('id', job.id)
+      .eq('locked_by', workerId)
 
     if (completeError) {
       console.error('[HarmonicAnalysis] Failed to update job:', completeError)
     }
 
-    console.log('[HarmonicAnalysis] Analysis complete:', job.id)
+    console.log('[HarmonicAnalysis] Analysis complete:', {
+      job_id: job.id,
+      confidence: analysed.confidence_score,
+      provisional: analysed.is_provisional,
+      kept_version: replace ? undefined : fingerprintToStore.analysis_version,
+    })
 
-    return jsonResponse({
-      success: true,
+    return {
       job_id: job.id,
+      status: 'completed',
+      attempts: job.attempts,
       fingerprint: fingerprintToStore,
-      method: 'ml_audio',
-    })
+    }
   } catch (error) {
-    console.error('[HarmonicAnalysis] Error:', error)
+    return await failJob(supabaseClient, workerId, job, error)
+  }
+}
 
-    const errMessage = (error as Error)?.message ?? 'Unknown error'
-    return jsonResponse({
-      success: false,
-      error: errMessage,
-    }, 500)
+// Helper: Point the track at an existing fingerprint and finish the job as cached
+async function completeAsAlias(
+  supabaseClient: SupabaseClient,
+  workerId: string,
+  job: AnalysisJob,
+  identity: AudioFingerprint,
+  duplicate: PerceptualDuplicate
+): Promise<JobOutcome> {
+  const { error: aliasError } = await supabaseClient
+    .from('harmonic_fingerprint_aliases')
+    .upsert({
+      track_id: job.track_id,
+      fingerprint_id: duplicate.fingerprint.id,
+      audio_hash: identity.audio_hash,
+      hash_distance: duplicate.match.hash_distance,
+      bit_error_rate: duplicate.match.bit_error_rate,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'track_id' })
+
+  if (aliasError) {
+    throw new Error(`Failed to store alias: ${aliasError.message}`)
   }
-})
+
+  await assignClusterMembership(supabaseClient, job.track_id, duplicate.fingerprint)
+
+  const completedAt = new Date().toISOString()
+  const { error: completeError } = await supabaseClient
+    .from('analysis_jobs')
+    .update({
+      status: 'cached',
+      progress: 1.0,
+      completed_at: completedAt,
+      result: duplicate.fingerprint,
+      error_message: null,
+      locked_by: null,
+      locked_at: null,
+      updated_at: completedAt,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+
+  if (completeError) {
+    console.error('[HarmonicAnalysis] Failed to update job:', completeError)
+  }
+
+  console.log('[HarmonicAnalysis] Same recording already analysed:', {
+    job_id: job.id,
+    canonical_track_id: duplicate.fingerprint.track_id,
+    hash_distance: duplicate.match.hash_distance,
+    bit_error_rate: duplicate.match.bit_error_rate,
+  })
+
+  return {
+    job_id: job.id,
+    status: 'cached',
+    attempts: job.attempts,
+    fingerprint: duplicate.fingerprint,
+  }
+}
+
+// Helper: Put a newly analysed track in its nearest progression family
+// (best effort; the harmonic-clusters rebuild reconciles everything)
+async function assignClusterMembership(
+  supabaseClient: SupabaseClient,
+  track_id: string,
+  fingerprint: HarmonicFingerprint
+): Promise<void> {
+  if (fingerprint.is_provisional || fingerprint.roman_progression.length === 0) return
+
+  const { data: clusters, error } = await supabaseClient
+    .from('harmonic_clusters')
+    .select('id, prototype_progression')
+    .order('member_count', { ascending: false })
+    .limit(ANALYSIS_CONFIG.CLUSTER_CANDIDATE_LIMIT)
+
+  if (error) {
+    console.error('[HarmonicAnalysis] Cluster lookup error:', error.message)
+    return
+  }
+
+  const nearest = assignToCluster(
+    fingerprint.roman_progression,
+    (clusters ?? []) as Array<{ id: string; prototype_progression: RomanChord[] }>,
+    fingerprint.tonal_center.mode
+  )
+  if (!nearest) return
+
+  const { error: memberError } = await supabaseClient
+    .from('harmonic_cluster_members')
+    .upsert({
+      track_id,
+      cluster_id: nearest.cluster.id,
+      distance: nearest.distance,
+      assigned_at: new Date().toISOString(),
+    }, { onConflict: 'track_id' })
+
+  if (memberError) {
+    console.error('[HarmonicAnalysis] Cluster assignment error:', memberError.message)
+  }
+}
+
+// Helper: Requeue with exponential backoff, or dead-letter the job
+async function failJob(
+  supabaseClient: SupabaseClient,
+  workerId: string,
+  job: AnalysisJob,
+  error: unknown
+): Promise<JobOutcome> {
+  const message = (error as Error)?.message ?? 'Unknown error'
+  const permanent = error instanceof PermanentJobError
+  const exhausted = job.attempts >= job.max_attempts
+  const nowIso = new Date().toISOString()
+
+  if (permanent || exhausted) {
+    await supabaseClient
+      .from('analysis_jobs')
+      .update({
+        status: 'dead_letter',
+        error_message: message,
+        completed_at: nowIso,
+        locked_by: null,
+        locked_at: null,
+        updated_at: nowIso,
+      })
+      .eq('id', job.id)
+      .eq('locked_by', workerId)
+
+    console.error('[HarmonicAnalysis] Job dead-lettered:', {
+      job_id: job.id,
+      attempts: job.attempts,
+      permanent,
+      error: message,
+    })
+
+    return { job_id: job.id, status: 'dead_letter', attempts: job.attempts, error: message }
+  }
+
+  const nextAttemptAt = new Date(Date.now() + retryDelayMs(job.attempts)).toISOString()
+
+  await supabaseClient
+    .from('analysis_jobs')
+    .update({
+      status: 'queued',
+      progress: 0,
+      error_message: message,
+      next_attempt_at: nextAttemptAt,
+      locked_by: null,
+      locked_at: null,
+      updated_at: nowIso,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+
+  console.warn('[HarmonicAnalysis] Job failed, retry scheduled:', {
+    job_id: job.id,
+    attempt: job.attempts,
+    next_attempt_at: nextAttemptAt,
+    error: message,
+  })
+
+  return {
+    job_id: job.id,
+    status: 'queued',
+    attempts: job.attempts,
+    error: message,
+    next_attempt_at: nextAttemptAt,
+  }
+}
+
+// Helper: Exponential backoff with ±20% jitter
+function retryDelayMs(attempt: number): number {
+  const exponential = ANALYSIS_CONFIG.RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1)
+  const capped = Math.min(exponential, ANALYSIS_CONFIG.RETRY_MAX_DELAY_MS)
+  return Math.round(capped * (0.8 + Math.random() * 0.4))
+}
+
+// Helper: Fetch and decode audio (the edge runtime has no Web Audio; WAV only)
+async function fetchPcm(audioUrl?: string | null) {
+  if (!audioUrl) {
+    throw new PermanentJobError('No audio_url on job')
+  }
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), ANALYSIS_CONFIG.AUDIO_FETCH_TIMEOUT_MS)
+
+  try {
+    const response = await fetchAllowedAudio(audioUrl, controller.signal)
+    if (!response.ok) {
+      const message = `Audio fetch failed with status ${response.status}`
+      // 4xx (except rate limiting) will not succeed on retry
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        throw new PermanentJobError(message)
+      }
+      throw new Error(message)
+    }
+
+    const declaredLength = Number(response.headers.get('content-length') ?? 0)
+    if (declaredLength > ANALYSIS_CONFIG.MAX_AUDIO_BYTES) {
+      throw new PermanentJobError(`Audio file too large (${declaredLength} bytes)`)
+    }
+
+    const buffer = await readCapped(response, controller)
+    try {
+      return decodeWav(buffer)
+    } catch (decodeError) {
+      throw new PermanentJobError(`Unsupported audio: ${(decodeError as Error).message}`)
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// Helper: Our storage, or a provider preview CDN, over https
+function isAllowedAudioUrl(audioUrl: string): boolean {
+  let url: URL
+  try {
+    url = new URL(audioUrl)
+  } catch {
+    return false
+  }
+  if (url.protocol !== 'https:' || url.username || url.password || url.port) return false
+
+  const storageHost = new URL(Deno.env.get('SUPABASE_URL') ?? 'http://invalid').host
+  if (url.host === storageHost) return url.pathname.startsWith(ANALYSIS_CONFIG.STORAGE_PATH_PREFIX)
+  return ANALYSIS_CONFIG.AUDIO_HOSTS.some(host =>
+    host.startsWith('.') ? url.hostname.endsWith(host) : url.hostname === host
+  )
+}
+
+// Helper: Fetch following redirects only to allowed hosts (jobs queued by
+// clients carry their own audio_url, so every hop is checked here)
+async function fetchAllowedAudio(audioUrl: string, signal: AbortSignal): Promise<Response> {
+  let url = audioUrl
+  for (let hop = 0; hop <= ANALYSIS_CONFIG.MAX_AUDIO_REDIRECTS; hop++) {
+    if (!isAllowedAudioUrl(url)) {
+      throw new PermanentJobError(`Audio host not allowed: ${url}`)
+    }
+
+    const response = await fetch(url, { signal, redirect: 'manual' })
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) return response
+
+    await response.body?.cancel()
+    url = new URL(location, url).toString()
+  }
+  throw new PermanentJobError('Too many audio redirects')
+}
+
+// Helper: Read the body, aborting past MAX_AUDIO_BYTES whatever
+// content-length claimed (chunked responses have none)
+async function readCapped(response: Response, controller: AbortController): Promise<ArrayBuffer> {
+  if (!response.body) return new ArrayBuffer(0)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > ANALYSIS_CONFIG.MAX_AUDIO_BYTES) {
+      controller.abort()
+      throw new PermanentJobError(`Audio file too large (over ${ANALYSIS_CONFIG.MAX_AUDIO_BYTES} bytes)`)
+    }
+    chunks.push(value)
+  }
+
+  const bytes = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return bytes.buffer
+}
 
 // Helper: Update job progress
 async function updateJobProgress(
-  supabaseClient: any,
+  supabaseClient: SupabaseClient,
   jobId: string,
   progress: number
 ): Promise<void> {
@@ -272,6 +754,10 @@ async function updateJobProgress(
     .eq('id', jobId)
 }
 
+// ============================================================================
+// CACHE & LOOKUPS
+// ============================================================================
+
 // Helper: Prioritized cache lookup with TTL + reanalysis windows
 async function findReusableFingerprint(
   supabaseClient: SupabaseClient,
@@ -307,7 +793,107 @@ async function findReusableFingerprint(
     if (hit) return hit
   }
 
-  return await lookup('track_id', track_id)
+  const hit = await lookup('track_id', track_id)
+  if (hit) return hit
+
+  // Track previously matched to another recording's fingerprint
+  const { data: alias, error: aliasError } = await supabaseClient
+    .from('harmonic_fingerprint_aliases')
+    .select('harmonic_fingerprints(*)')
+    .eq('track_id', track_id)
+    .maybeSingle()
+
+  if (aliasError) {
+    console.error('[HarmonicAnalysis] Alias lookup error:', aliasError.message)
+    return null
+  }
+
+  const aliased = alias?.harmonic_fingerprints as
+    (HarmonicFingerprint & { reuse_until?: string; reanalyze_after?: string }) | null | undefined
+  if (!aliased) return null
+  if ((aliased.reuse_until && aliased.reuse_until < nowIso) ||
+      (aliased.reanalyze_after && aliased.reanalyze_after < nowIso)) {
+    return null
+  }
+
+  return aliased
+}
+
+// Helper: Find a stored fingerprint of the same recording via hash bands,
+// verified by chromaprint alignment
+async function findPerceptualDuplicate(
+  supabaseClient: SupabaseClient,
+  track_id: string,
+  identity: AudioFingerprint
+): Promise<PerceptualDuplicate | null> {
+  const { data, error } = await supabaseClient
+    .from('harmonic_fingerprints')
+    .select('*')
+    .overlaps('audio_hash_bands', identity.hash_bands)
+    .neq('track_id', track_id)
+    .gte('reuse_until', new Date().toISOString())
+    .limit(ANALYSIS_CONFIG.PERCEPTUAL_CANDIDATE_LIMIT)
+
+  if (error) {
+    console.error('[HarmonicAnalysis] Perceptual lookup error:', error.message)
+    return null
+  }
+
+  let best: PerceptualDuplicate | null = null
+
+  for (const row of (data ?? []) as Array<HarmonicFingerprint & { id: string }>) {
+    if (!row.audio_hash) continue
+
+    const match = matchAudioFingerprints(identity, {
+      audio_hash: row.audio_hash,
+      chromaprint: row.chromaprint,
+    })
+    if (!match.is_match) continue
+
+    const score = match.bit_error_rate ?? match.hash_distance / 64
+    const bestScore = best ? best.match.bit_error_rate ?? best.match.hash_distance / 64 : Infinity
+    if (score < bestScore) best = { fingerprint: row, match }
+  }
+
+  return best
+}
+
+// Helper: This track's stored fingerprint, regardless of age (crowd
+// corrections and older model versions are compared against new results).
+// A failed lookup throws: read as "nothing stored", it would let the new
+// result overwrite a crowd correction or a more confident older result
+async function findStoredFingerprint(
+  supabaseClient: SupabaseClient,
+  track_id: string
+): Promise<HarmonicFingerprint | null> {
+  const { data, error } = await supabaseClient
+    .from('harmonic_fingerprints')
+    .select('*')
+    .eq('track_id', track_id)
+    .limit(1)
+
+  if (error) {
+    throw new Error(`Failed to look up stored fingerprint: ${error.message}`)
+  }
+
+  return (data?.[0] as HarmonicFingerprint | undefined) ?? null
+}
+
+// Helper: Record what a newer model changed (one row per track and version)
+async function recordVersionDiff(
+  supabaseClient: SupabaseClient,
+  jobId: string,
+  diff: VersionDiff
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from('analysis_version_diffs')
+    .upsert({ ...diff, job_id: jobId, created_at: new Date().toISOString() }, {
+      onConflict: 'track_id,to_version',
+    })
+
+  if (error) {
+    console.error('[HarmonicAnalysis] Failed to record version diff:', error.message)
+  }
 }
 
 // Helper: Find active job by priority or explicit id
@@ -399,56 +985,3 @@ function jsonResponse(body: Record<string, unknown>, status = 200): Response {
     status,
   })
 }
-
-// Mock analysis (placeholder until ML model integrated)
-async function runMockAnalysis(
-  trackId: string,
-  audioHash?: string,
-  isrc?: string
-): Promise<HarmonicFingerprint> {
-  // Simulate processing time
-  await new Promise(resolve => setTimeout(resolve, 1000))
-
-  // Common progressions for testing
-  const progressions = [
-    [
-      { numeral: 'I', quality: 'major' as const },
-      { numeral: 'V', quality: 'major' as const },
-      { numeral: 'vi', quality: 'minor' as const },
-      { numeral: 'IV', quality: 'major' as const }
-    ],
-    [
-      { numeral: 'i', quality: 'minor' as const },
-      { numeral: 'VI', quality: 'major' as const },
-      { numeral: 'III', quality: 'major' as const },
-      { numeral: 'VII', quality: 'major' as const }
-    ],
-    [
-      { numeral: 'I', quality: 'major' as const },
-      { numeral: 'IV', quality: 'major' as const },
-      { numeral: 'V', quality: 'major' as const }
-    ]
-  ]
-
-  const progression = progressions[Math.floor(Math.random() * progressions.length)]
-
-  return {
-    track_id: trackId,
-    audio_hash: audioHash ?? null,
-    isrc: isrc ?? null,
-    tonal_center: {
-      root_interval: 0,
-      mode: 'major',
-      stability_score: 0.85
-    },
-    roman_progression: progression,
-    loop_length_bars: 4,
-    cadence_type: 'authentic',
-    confidence_score: 0.72,
-    analysis_timestamp: new Date().toISOString(),
-    analysis_version: '1.0.0',
-    is_provisional: false, // Edge function produces final results
-    detected_key: 'C',
-    detected_mode: 'major'
-  }
-}
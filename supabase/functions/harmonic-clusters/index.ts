@@ -0,0 +1,267 @@
+/**
+ * Supabase Edge Function: Harmonic Clusters
+ *
+ * Rebuilds progression families (harmonic_clusters + harmonic_cluster_members).
+ * Triggered by a scheduler; newly analysed tracks are assigned incrementally
+ * by the harmonic-analysis worker between rebuilds.
+ *
+ * FLOW:
+ * 0. Re-embed fingerprints missing a current harmonic embedding
+ * 1. Load confident, non-provisional fingerprints (and their aliases)
+ * 2. Cluster distinct progressions (src/lib/progressionClustering.ts)
+ * 3. Upsert clusters by prototype_key so ids survive rebuilds
+ * 4. Replace memberships, drop clusters that disappeared
+ */
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  clusterProgressions,
+  type ClusterDraft,
+  type ClusterInput,
+} from '../../../src/lib/progressionClustering.ts'
+import { EMBEDDING_CONFIG, embedFingerprint } from '../../../src/lib/harmonicEmbedding.ts'
+import type { HarmonicFingerprint, Mode, RomanChord } from '../../../src/types/harmony.ts'
+
+const CLUSTER_CONFIG = {
+  MIN_CONFIDENCE: 0.5,
+  MAX_FINGERPRINTS: 5000,
+  PAGE_SIZE: 1000,
+  WRITE_CHUNK_SIZE: 500,
+  // Fingerprints re-embedded per run (one update each)
+  EMBED_BATCH_SIZE: 500,
+  EMBED_CONCURRENCY: 20,
+} as const
+
+interface ClusterRequest {
+  min_cluster_size?: number
+}
+
+interface FingerprintRow {
+  id: string
+  track_id: string
+  roman_progression: RomanChord[]
+  confidence_score: number
+  tonal_center: { mode?: Mode } | null
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const request: ClusterRequest = await req.json().catch(() => ({}))
+    const builtAt = new Date().toISOString()
+
+    // Step 0: Embedding backfill
+    const embedded = await backfillEmbeddings(supabaseClient)
+
+    // Step 1: Inputs
+    const inputs = await loadClusterInputs(supabaseClient)
+
+    // Step 2: Cluster
+    const drafts = clusterProgressions(inputs, { minClusterSize: request.min_cluster_size })
+
+    // Step 3-4: Persist
+    await storeClusters(supabaseClient, drafts, builtAt)
+
+    console.log('[HarmonicClusters] Rebuilt clusters:', {
+      embedded,
+      tracks: inputs.length,
+      clusters: drafts.length,
+      clustered_tracks: drafts.reduce((sum, d) => sum + d.members.length, 0),
+    })
+
+    return jsonResponse({
+      success: true,
+      built_at: builtAt,
+      embedded,
+      tracks: inputs.length,
+      clusters: drafts.map(d => ({ name: d.name, members: d.members.length })),
+    })
+  } catch (error) {
+    console.error('[HarmonicClusters] Error:', error)
+
+    const errMessage = (error as Error)?.message ?? 'Unknown error'
+    return jsonResponse({
+      success: false,
+      error: errMessage,
+    }, 500)
+  }
+})
+
+// Helper: Embed fingerprints stored before embeddings existed, or by an
+// older feature layout. Bounded per run; the scheduler catches up over time.
+async function backfillEmbeddings(supabaseClient: SupabaseClient): Promise<number> {
+  const { data, error } = await supabaseClient
+    .from('harmonic_fingerprints')
+    .select('id, roman_progression, cadence_type, loop_length_bars, tonal_center, tempo_bpm')
+    .or(`embedding_version.is.null,embedding_version.neq.${EMBEDDING_CONFIG.VERSION}`)
+    .limit(CLUSTER_CONFIG.EMBED_BATCH_SIZE)
+
+  if (error) {
+    console.error('[HarmonicClusters] Embedding backfill query error:', error.message)
+    return 0
+  }
+
+  const rows = (data ?? []) as Array<Pick<
+    HarmonicFingerprint,
+    'roman_progression' | 'cadence_type' | 'loop_length_bars' | 'tonal_center' | 'tempo_bpm'
+  > & { id: string }>
+  let embedded = 0
+
+  for (let i = 0; i < rows.length; i += CLUSTER_CONFIG.EMBED_CONCURRENCY) {
+    const results = await Promise.all(
+      rows.slice(i, i + CLUSTER_CONFIG.EMBED_CONCURRENCY).map(row =>
+        supabaseClient
+          .from('harmonic_fingerprints')
+          .update(embedFingerprint(row))
+          .eq('id', row.id)
+      )
+    )
+
+    for (const result of results) {
+      if (result.error) {
+        console.error('[HarmonicClusters] Failed to store embedding:', result.error.message)
+      } else {
+        embedded++
+      }
+    }
+  }
+
+  return embedded
+}
+
+// Helper: Fingerprints worth clustering, plus tracks aliased to them
+async function loadClusterInputs(supabaseClient: SupabaseClient): Promise<ClusterInput[]> {
+  const rows: FingerprintRow[] = []
+
+  for (let from = 0; from < CLUSTER_CONFIG.MAX_FINGERPRINTS; from += CLUSTER_CONFIG.PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from('harmonic_fingerprints')
+      .select('id, track_id, roman_progression, confidence_score, tonal_center')
+      .eq('is_provisional', false)
+      .gte('confidence_score', CLUSTER_CONFIG.MIN_CONFIDENCE)
+      .order('confidence_score', { ascending: false })
+      .range(from, from + CLUSTER_CONFIG.PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load fingerprints: ${error.message}`)
+    }
+
+    rows.push(...((data ?? []) as FingerprintRow[]))
+    if (!data || data.length < CLUSTER_CONFIG.PAGE_SIZE) break
+  }
+
+  const byId = new Map(rows.map(row => [row.id, row]))
+  const toInput = (track_id: string, row: FingerprintRow): ClusterInput => ({
+    track_id,
+    progression: row.roman_progression ?? [],
+    confidence: Number(row.confidence_score),
+    mode: row.tonal_center?.mode,
+  })
+
+  const inputs = rows.map(row => toInput(row.track_id, row))
+
+  const { data: aliases, error: aliasError } = await supabaseClient
+    .from('harmonic_fingerprint_aliases')
+    .select('track_id, fingerprint_id')
+    .limit(CLUSTER_CONFIG.MAX_FINGERPRINTS)
+
+  if (aliasError) {
+    console.error('[HarmonicClusters] Alias lookup error:', aliasError.message)
+  }
+
+  for (const alias of aliases ?? []) {
+    const row = byId.get(alias.fingerprint_id)
+    if (row) inputs.push(toInput(alias.track_id, row))
+  }
+
+  return inputs
+}
+
+// Helper: Upsert clusters + memberships, then drop whatever this run did not touch
+async function storeClusters(
+  supabaseClient: SupabaseClient,
+  drafts: ClusterDraft[],
+  builtAt: string
+): Promise<void> {
+  const { data: stored, error: clusterError } = await supabaseClient
+    .from('harmonic_clusters')
+    .upsert(
+      drafts.map(draft => ({
+        prototype_key: draft.prototype_key,
+        name: draft.name,
+        prototype_progression: draft.prototype_progression,
+        member_count: draft.members.length,
+        avg_confidence: draft.avg_confidence,
+        built_at: builtAt,
+        updated_at: builtAt,
+      })),
+      { onConflict: 'prototype_key' }
+    )
+    .select('id, prototype_key')
+
+  if (clusterError) {
+    throw new Error(`Failed to store clusters: ${clusterError.message}`)
+  }
+
+  const idByKey = new Map((stored ?? []).map(row => [row.prototype_key as string, row.id as string]))
+  const members = drafts.flatMap(draft =>
+    draft.members.map(member => ({
+      track_id: member.track_id,
+      cluster_id: idByKey.get(draft.prototype_key),
+      distance: member.distance,
+      assigned_at: builtAt,
+    }))
+  ).filter(member => member.cluster_id)
+
+  for (let i = 0; i < members.length; i += CLUSTER_CONFIG.WRITE_CHUNK_SIZE) {
+    const { error } = await supabaseClient
+      .from('harmonic_cluster_members')
+      .upsert(members.slice(i, i + CLUSTER_CONFIG.WRITE_CHUNK_SIZE), { onConflict: 'track_id' })
+
+    if (error) {
+      throw new Error(`Failed to store cluster members: ${error.message}`)
+    }
+  }
+
+  // Tracks that no longer belong to any family, then families with no rebuild
+  const { error: staleMembersError } = await supabaseClient
+    .from('harmonic_cluster_members')
+    .delete()
+    .lt('assigned_at', builtAt)
+
+  if (staleMembersError) {
+    console.error('[HarmonicClusters] Failed to prune members:', staleMembersError.message)
+  }
+
+  const { error: staleClustersError } = await supabaseClient
+    .from('harmonic_clusters')
+    .delete()
+    .lt('built_at', builtAt)
+
+  if (staleClustersError) {
+    console.error('[HarmonicClusters] Failed to prune clusters:', staleClustersError.message)
+  }
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
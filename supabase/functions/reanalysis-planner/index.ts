@@ -0,0 +1,245 @@
+/**
+ * Supabase Edge Function: Re-analysis Planner
+ *
+ * Upgrades fingerprints produced by older analysis models. Triggered by a
+ * scheduler after a model version bump (and periodically until caught up);
+ * the harmonic-analysis worker drains the queued jobs.
+ *
+ * FLOW:
+ * 1. Load fingerprints older than the current model that have no active or
+ *    finished re-analysis job for it (get_reanalysis_candidates)
+ * 2. Hold off while earlier batches are still waiting in the queue
+ * 3. Plan prioritized, rate-limited batches (src/lib/reanalysisPlanner.ts)
+ * 4. Queue them as analysis_jobs (reason 'reanalysis'), each batch claimable
+ *    one interval after the previous one
+ * 5. Report what each version bump changed so far (analysis_version_diffs)
+ */
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { ANALYSIS_MODEL_VERSION } from '../../../src/lib/harmonicDsp.ts'
+import {
+  REANALYSIS_CONFIG,
+  planReanalysis,
+  summarizeVersionDiffs,
+  type PlannedReanalysisJob,
+  type ReanalysisCandidate,
+  type VersionDiff,
+} from '../../../src/lib/reanalysisPlanner.ts'
+
+const PLANNER_CONFIG = {
+  CANDIDATE_LIMIT: 1000,
+  // Queued re-analysis jobs allowed before the planner stops adding more
+  MAX_WAITING_JOBS: REANALYSIS_CONFIG.BATCH_SIZE * REANALYSIS_CONFIG.MAX_BATCHES_PER_RUN,
+  INSERT_CHUNK_SIZE: 500,
+  REPORT_DIFF_LIMIT: 5000,
+} as const
+
+interface PlannerRequest {
+  dry_run?: boolean // Plan and report without queueing
+  report_only?: boolean
+  batch_size?: number
+  max_batches?: number
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const request: PlannerRequest = await req.json().catch(() => ({}))
+    const target = ANALYSIS_MODEL_VERSION
+
+    // Step 5 only
+    if (request.report_only) {
+      return jsonResponse({
+        success: true,
+        target_version: target,
+        report: await loadReport(supabaseClient),
+      })
+    }
+
+    // Step 1: Candidates
+    const candidates = await loadCandidates(supabaseClient, target)
+
+    // Step 2: Backlog of earlier batches
+    const backlog = await loadBacklog(supabaseClient, target)
+    const room = PLANNER_CONFIG.MAX_WAITING_JOBS - backlog.waiting
+    const batchSize = request.batch_size ?? REANALYSIS_CONFIG.BATCH_SIZE
+
+    // Step 3: Plan after the last waiting batch
+    const plan = planReanalysis(candidates, {
+      target,
+      startAt: backlog.lastAttemptAt
+        ? new Date(Math.max(Date.now(), new Date(backlog.lastAttemptAt).getTime() + REANALYSIS_CONFIG.BATCH_INTERVAL_MS))
+        : new Date(),
+      batchSize,
+      maxBatches: Math.max(0, Math.min(
+        request.max_batches ?? REANALYSIS_CONFIG.MAX_BATCHES_PER_RUN,
+        Math.floor(room / batchSize)
+      )),
+    })
+
+    // Step 4: Queue
+    const queued = request.dry_run ? 0 : await queueJobs(supabaseClient, target, plan.jobs)
+
+    // Step 5: Report
+    const report = await loadReport(supabaseClient)
+
+    console.log('[ReanalysisPlanner] Planned re-analysis:', {
+      target_version: target,
+      candidates: candidates.length,
+      waiting: backlog.waiting,
+      queued,
+      batches: plan.batches,
+      skipped: plan.skipped.length,
+    })
+
+    return jsonResponse({
+      success: true,
+      target_version: target,
+      dry_run: !!request.dry_run,
+      candidates: candidates.length,
+      waiting: backlog.waiting,
+      queued,
+      batches: plan.batches,
+      jobs: plan.jobs,
+      skipped: countBy(plan.skipped.map(s => s.reason)),
+      report,
+    })
+  } catch (error) {
+    console.error('[ReanalysisPlanner] Error:', error)
+
+    const errMessage = (error as Error)?.message ?? 'Unknown error'
+    return jsonResponse({
+      success: false,
+      error: errMessage,
+    }, 500)
+  }
+})
+
+// Helper: Outdated fingerprints not yet re-analysed for the target version
+async function loadCandidates(
+  supabaseClient: SupabaseClient,
+  target: string
+): Promise<ReanalysisCandidate[]> {
+  const { data, error } = await supabaseClient.rpc('get_reanalysis_candidates', {
+    p_target_version: target,
+    p_limit: PLANNER_CONFIG.CANDIDATE_LIMIT,
+  })
+
+  if (error) {
+    throw new Error(`Failed to load candidates: ${error.message}`)
+  }
+
+  return ((data ?? []) as ReanalysisCandidate[]).map(row => ({
+    ...row,
+    confidence_score: Number(row.confidence_score),
+  }))
+}
+
+// Helper: Re-analysis jobs still waiting to be claimed, and when the last
+// of them becomes claimable
+async function loadBacklog(
+  supabaseClient: SupabaseClient,
+  target: string
+): Promise<{ waiting: number; lastAttemptAt: string | null }> {
+  const { data, count, error } = await supabaseClient
+    .from('analysis_jobs')
+    .select('next_attempt_at', { count: 'exact' })
+    .eq('reason', 'reanalysis')
+    .eq('analysis_version', target)
+    .eq('status', 'queued')
+    .order('next_attempt_at', { ascending: false })
+    .limit(1)
+
+  if (error) {
+    throw new Error(`Failed to load queue backlog: ${error.message}`)
+  }
+
+  return {
+    waiting: count ?? 0,
+    lastAttemptAt: (data?.[0]?.next_attempt_at as string | undefined) ?? null,
+  }
+}
+
+// Helper: Insert planned jobs in chunks
+async function queueJobs(
+  supabaseClient: SupabaseClient,
+  target: string,
+  jobs: PlannedReanalysisJob[]
+): Promise<number> {
+  const startedAt = new Date().toISOString()
+  let queued = 0
+
+  for (let i = 0; i < jobs.length; i += PLANNER_CONFIG.INSERT_CHUNK_SIZE) {
+    const rows = jobs.slice(i, i + PLANNER_CONFIG.INSERT_CHUNK_SIZE).map(job => ({
+      track_id: job.track_id,
+      isrc: job.isrc,
+      audio_hash: job.audio_hash,
+      audio_url: job.audio_url,
+      priority: job.priority,
+      status: 'queued',
+      progress: 0,
+      started_at: startedAt,
+      next_attempt_at: job.next_attempt_at,
+      analysis_version: target,
+      reason: 'reanalysis',
+      previous_version: job.previous_version,
+    }))
+
+    const { error } = await supabaseClient.from('analysis_jobs').insert(rows)
+    if (error) {
+      throw new Error(`Failed to queue jobs: ${error.message}`)
+    }
+    queued += rows.length
+  }
+
+  return queued
+}
+
+// Helper: Per-version-bump summary of recorded diffs
+async function loadReport(supabaseClient: SupabaseClient) {
+  const { data, error } = await supabaseClient
+    .from('analysis_version_diffs')
+    .select('track_id, from_version, to_version, previous_key, next_key, previous_mode, next_mode, previous_progression, next_progression, key_changed, mode_changed, progression_changed, previous_confidence, next_confidence, applied')
+    .order('created_at', { ascending: false })
+    .limit(PLANNER_CONFIG.REPORT_DIFF_LIMIT)
+
+  if (error) {
+    console.error('[ReanalysisPlanner] Diff lookup error:', error.message)
+    return []
+  }
+
+  return summarizeVersionDiffs(((data ?? []) as VersionDiff[]).map(row => ({
+    ...row,
+    previous_confidence: Number(row.previous_confidence),
+    next_confidence: Number(row.next_confidence),
+  })))
+}
+
+function countBy(values: string[]): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const value of values) counts[value] = (counts[value] ?? 0) + 1
+  return counts
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
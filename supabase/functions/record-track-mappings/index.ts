@@ -0,0 +1,162 @@
+/**
+ * Supabase Edge Function: Record Track Mappings
+ *
+ * Stores the cross-provider mappings unified search resolves
+ * (track_id_mappings). Clients can't write the table: a mapping decides
+ * which recording a provider track shows up as, and a new one drops cached
+ * search results, so every submitted mapping is checked here first.
+ * Market availability isn't taken from clients: a caller could mark any
+ * track blocked (or playable) everywhere, so stored markets stay unset
+ * until they can be checked with the provider.
+ *
+ * FLOW:
+ * 1. Require a signed-in caller
+ * 2. Keep well-formed rows backed by their recording (verifyMappingRecord
+ *    in src/lib/canonicalTracks.ts): new recordings under their own ID,
+ *    joining tracks matching a known member, from the table or the batch
+ * 3. Insert them; provider tracks that already have a mapping are never
+ *    re-pointed
+ */
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  verifyMappingRecord,
+  type TrackMappingRecord,
+} from '../../../src/lib/canonicalTracks.ts'
+
+const MAPPING_CONFIG = {
+  MAX_ROWS: 200, // A search resolves at most a few dozen tracks
+  PROVIDERS: ['spotify', 'apple_music', 'deezer', 'soundcloud', 'youtube', 'amazon_music'],
+  METHODS: ['new', 'isrc', 'fuzzy'],
+} as const
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    // Step 1: Signed-in caller
+    const token = req.headers.get('Authorization')?.replace(/Bearer\s+/i, '')
+    const { data: userRes } = token ? await supabaseClient.auth.getUser(token) : { data: null }
+    if (!userRes?.user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const submitted: unknown[] = Array.isArray(body.mappings) ? body.mappings : []
+    if (submitted.length > MAPPING_CONFIG.MAX_ROWS) {
+      return jsonResponse({ success: false, error: `At most ${MAPPING_CONFIG.MAX_ROWS} mappings per request` }, 400)
+    }
+
+    // Step 2: Verified rows only; new recordings first so tracks can join them
+    const rows = submitted.filter(isMapping)
+      .sort((a, b) => Number(b.match_method === 'new') - Number(a.match_method === 'new'))
+    const members = await loadMembers(supabaseClient, [...new Set(rows.map(r => r.canonical_id))])
+    const accepted: TrackMappingRecord[] = []
+    for (const row of rows) {
+      if (verifyMappingRecord(row, [...members, ...accepted])) accepted.push(row)
+    }
+
+    // Step 3: Insert
+    if (accepted.length > 0) {
+      const now = new Date().toISOString()
+      const { error } = await supabaseClient
+        .from('track_id_mappings')
+        .upsert(accepted.map(row => toRow(row, now)), {
+          onConflict: 'provider,provider_track_id',
+          ignoreDuplicates: true,
+        })
+
+      if (error) {
+        throw new Error(`Failed to record mappings: ${error.message}`)
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      recorded: accepted.length,
+      rejected: submitted.length - accepted.length,
+    })
+  } catch (error) {
+    console.error('[RecordTrackMappings] Error:', error)
+
+    const errMessage = (error as Error)?.message ?? 'Unknown error'
+    return jsonResponse({
+      success: false,
+      error: errMessage,
+    }, 500)
+  }
+})
+
+// Helper: Mappings already stored for these recordings
+async function loadMembers(
+  supabaseClient: SupabaseClient,
+  canonicalIds: string[]
+): Promise<TrackMappingRecord[]> {
+  if (canonicalIds.length === 0) return []
+
+  const { data, error } = await supabaseClient
+    .from('track_id_mappings')
+    .select('canonical_id, provider, provider_track_id, isrc, title, artist, version, duration_ms, match_method, confidence')
+    .in('canonical_id', canonicalIds)
+
+  if (error) {
+    throw new Error(`Failed to load recordings: ${error.message}`)
+  }
+
+  return (data ?? []) as TrackMappingRecord[]
+}
+
+// Helper: Shape check before the recording check
+function isMapping(value: unknown): value is TrackMappingRecord {
+  const row = value as TrackMappingRecord
+  return !!row && typeof row === 'object' &&
+    typeof row.canonical_id === 'string' && row.canonical_id.length > 0 &&
+    (MAPPING_CONFIG.PROVIDERS as readonly string[]).includes(row.provider) &&
+    typeof row.provider_track_id === 'string' && row.provider_track_id.length > 0 &&
+    typeof row.title === 'string' &&
+    (MAPPING_CONFIG.METHODS as readonly string[]).includes(row.match_method) &&
+    typeof row.confidence === 'number' &&
+    (row.isrc === null || typeof row.isrc === 'string') &&
+    (row.artist === null || typeof row.artist === 'string') &&
+    (row.version === null || typeof row.version === 'string') &&
+    (row.duration_ms === null || typeof row.duration_ms === 'number')
+}
+
+// Helper: Table row; only the known columns are written
+function toRow(row: TrackMappingRecord, now: string) {
+  return {
+    canonical_id: row.canonical_id,
+    provider: row.provider,
+    provider_track_id: row.provider_track_id,
+    isrc: row.isrc,
+    title: row.title,
+    artist: row.artist,
+    version: row.version,
+    duration_ms: row.duration_ms,
+    match_method: row.match_method,
+    confidence: row.confidence,
+    updated_at: now,
+  }
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
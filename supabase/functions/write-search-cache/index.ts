@@ -0,0 +1,163 @@
+/**
+ * Supabase Edge Function: Write Search Cache
+ *
+ * Stores unified search results in cache_entries, which every client is
+ * served. Clients can't write the table, so one user can't plant results
+ * for everyone: the key and lifetime are derived here, and results are
+ * stored only when the mapping table backs them, rebuilt from the mappings.
+ * Empty results aren't cached: a client could claim any query finds
+ * nothing.
+ *
+ * FLOW:
+ * 1. Require a signed-in caller
+ * 2. Derive the cache key and lifetime from the search parameters
+ *    (src/lib/searchCache.ts)
+ * 3. Load the mappings of every provider link, check the results against
+ *    them and rebuild the tracks from them (buildCachedTracks); unverified
+ *    or empty results aren't cached
+ * 4. Upsert the entry with the service role
+ */
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  SEARCH_CACHE_CONFIG,
+  buildCachedTracks,
+  cacheLifetime,
+  searchCacheKey,
+  type CacheMappingRecord,
+  type CachedSearch,
+} from '../../../src/lib/searchCache.ts'
+import type { MusicProvider, Track } from '../../../src/types/index.ts'
+
+const WRITE_CONFIG = {
+  MAX_LIMIT: 100,
+  MAX_QUERY_LENGTH: 200,
+} as const
+
+interface CacheWriteRequest {
+  query: string
+  market: string
+  limit: number
+  providers: MusicProvider[]
+  result: Omit<CachedSearch, 'cached_at'>
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    // Step 1: Signed-in caller
+    const token = req.headers.get('Authorization')?.replace(/Bearer\s+/i, '')
+    const { data: userRes } = token ? await supabaseClient.auth.getUser(token) : { data: null }
+    if (!userRes?.user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const request = await req.json().catch(() => null)
+    if (!isWriteRequest(request)) {
+      return jsonResponse({ success: false, error: 'Invalid cache write' }, 400)
+    }
+
+    // Step 2: Key and lifetime
+    const { query, market, limit, providers, result } = request
+    const key = searchCacheKey({ query, market, limit, providers })
+    const now = new Date()
+    const lifetime = cacheLifetime(providers, (result.partial_results?.length ?? 0) > 0, now)
+
+    // Step 3: Results backed by mappings, rebuilt from them
+    const mappings = await loadMappings(supabaseClient, result.tracks)
+    const tracks = buildCachedTracks(result.tracks, mappings, market)
+    if (!tracks) {
+      return jsonResponse({ success: false, error: 'Results not backed by track mappings' }, 422)
+    }
+
+    // Step 4: Store
+    const value: CachedSearch = {
+      tracks,
+      partial_results: result.partial_results,
+      cached_at: now.toISOString(),
+    }
+    const { error } = await supabaseClient
+      .from('cache_entries')
+      .upsert({
+        key,
+        value,
+        canonical_ids: tracks.map(t => t.id),
+        fresh_until: lifetime.fresh_until.toISOString(),
+        expires_at: lifetime.expires_at.toISOString(),
+        created_at: now.toISOString(),
+      }, { onConflict: 'key' })
+
+    if (error) {
+      throw new Error(`Failed to store cache entry: ${error.message}`)
+    }
+
+    return jsonResponse({ success: true, key })
+  } catch (error) {
+    console.error('[WriteSearchCache] Error:', error)
+
+    const errMessage = (error as Error)?.message ?? 'Unknown error'
+    return jsonResponse({
+      success: false,
+      error: errMessage,
+    }, 500)
+  }
+})
+
+// Helper: Mappings for every provider link in the results
+async function loadMappings(
+  supabaseClient: SupabaseClient,
+  tracks: Track[]
+): Promise<CacheMappingRecord[]> {
+  const providerTrackIds = [...new Set(tracks.flatMap(t => (t.providerLinks ?? []).map(l => l.provider_track_id)))]
+  if (providerTrackIds.length === 0) return []
+
+  const { data, error } = await supabaseClient
+    .from('track_id_mappings')
+    .select('canonical_id, provider, provider_track_id, isrc, title, artist, duration_ms')
+    .in('provider_track_id', providerTrackIds)
+
+  if (error) {
+    throw new Error(`Failed to load track mappings: ${error.message}`)
+  }
+
+  return (data ?? []) as CacheMappingRecord[]
+}
+
+// Helper: Shape check
+function isWriteRequest(value: unknown): value is CacheWriteRequest {
+  const request = value as CacheWriteRequest
+  return !!request && typeof request === 'object' &&
+    typeof request.query === 'string' && request.query.length <= WRITE_CONFIG.MAX_QUERY_LENGTH &&
+    typeof request.market === 'string' && /^[A-Za-z]{2}$/.test(request.market) &&
+    Number.isInteger(request.limit) && request.limit > 0 && request.limit <= WRITE_CONFIG.MAX_LIMIT &&
+    Array.isArray(request.providers) && request.providers.length > 0 &&
+    request.providers.every(p => Object.hasOwn(SEARCH_CACHE_CONFIG.PROVIDER_TTL_MS, p)) &&
+    !!request.result && Array.isArray(request.result.tracks) &&
+    request.result.tracks.length <= request.limit &&
+    (request.result.partial_results === undefined ||
+      (Array.isArray(request.result.partial_results) &&
+        request.result.partial_results.every(p => Object.hasOwn(SEARCH_CACHE_CONFIG.PROVIDER_TTL_MS, p))))
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
@@ -0,0 +1,7 @@
+-- Beat-tracked tempo for harmonic fingerprints
+-- Created 2026-01-26
+
+alter table public.harmonic_fingerprints
+  add column if not exists tempo_bpm numeric check (tempo_bpm is null or tempo_bpm > 0);
+
+create index if not exists idx_hf_tempo_bpm on public.harmonic_fingerprints(tempo_bpm);
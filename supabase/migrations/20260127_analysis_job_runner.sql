@@ -0,0 +1,76 @@
+-- Analysis job runner: row-locked claiming, retries with backoff, dead-lettering
+-- Created 2026-01-27
+
+alter table public.analysis_jobs
+  add column if not exists audio_url text,
+  add column if not exists priority text not null default 'normal' check (priority in ('high','normal','low')),
+  add column if not exists attempts integer not null default 0 check (attempts >= 0),
+  add column if not exists max_attempts integer not null default 5 check (max_attempts > 0),
+  add column if not exists next_attempt_at timestamptz not null default now(),
+  add column if not exists locked_by text,
+  add column if not exists locked_at timestamptz;
+
+-- Jobs that exhaust their attempts (or fail permanently) are parked as dead letters
+alter table public.analysis_jobs drop constraint if exists analysis_jobs_status_check;
+alter table public.analysis_jobs
+  add constraint analysis_jobs_status_check
+  check (status in ('queued','processing','completed','failed','cached','dead_letter'));
+
+create index if not exists idx_aj_claimable
+  on public.analysis_jobs(next_attempt_at)
+  where status = 'queued';
+
+create index if not exists idx_aj_processing_lease
+  on public.analysis_jobs(locked_at)
+  where status = 'processing';
+
+-- Claim up to p_limit runnable jobs for one worker.
+-- FOR UPDATE SKIP LOCKED lets concurrent workers claim disjoint rows.
+-- Jobs whose lease expired (crashed worker) are reclaimed, or dead-lettered
+-- when they have no attempts left.
+create or replace function public.claim_analysis_jobs(
+  p_worker_id text,
+  p_limit integer default 1,
+  p_job_id uuid default null,
+  p_lease_seconds integer default 300
+)
+returns setof public.analysis_jobs
+language plpgsql
+as $$
+begin
+  update public.analysis_jobs
+  set status = 'dead_letter',
+      error_message = coalesce(error_message, 'Worker lease expired'),
+      locked_by = null,
+      locked_at = null,
+      completed_at = now()
+  where status = 'processing'
+    and locked_at < now() - make_interval(secs => p_lease_seconds)
+    and attempts >= max_attempts;
+
+  return query
+  with claimable as (
+    select id
+    from public.analysis_jobs
+    where (p_job_id is null or id = p_job_id)
+      and (
+        (status = 'queued' and next_attempt_at <= now())
+        or (status = 'processing' and locked_at < now() - make_interval(secs => p_lease_seconds))
+      )
+    order by
+      case priority when 'high' then 0 when 'normal' then 1 else 2 end,
+      next_attempt_at asc
+    limit greatest(p_limit, 1)
+    for update skip locked
+  )
+  update public.analysis_jobs j
+  set status = 'processing',
+      attempts = j.attempts + 1,
+      locked_by = p_worker_id,
+      locked_at = now(),
+      progress = 0.05
+  from claimable
+  where j.id = claimable.id
+  returning j.*;
+end;
+$$;
@@ -0,0 +1,37 @@
+-- Perceptual audio hash: near-duplicate lookup and track aliases
+-- Created 2026-01-28
+
+-- audio_hash is now a 64-bit perceptual hash (16 hex chars). Bands are
+-- 16-bit slices ("<band>:<hex>") so hashes a few bits apart share a band.
+alter table public.harmonic_fingerprints
+  add column if not exists audio_hash_bands text[],
+  add column if not exists chromaprint text;
+
+-- Different recordings may share a perceptual hash, so it can no longer be a
+-- uniqueness key; sameness is decided by the matcher and recorded as aliases.
+drop index if exists public.idx_hf_audio_hash;
+create index if not exists idx_hf_audio_hash on public.harmonic_fingerprints(audio_hash) where audio_hash is not null;
+
+create index if not exists idx_hf_audio_hash_bands
+  on public.harmonic_fingerprints using gin (audio_hash_bands);
+
+-- Tracks whose audio matched an existing fingerprint (re-uploads, remasters,
+-- other providers' copies) point at that fingerprint instead of re-analysing.
+create table if not exists public.harmonic_fingerprint_aliases (
+  track_id text primary key,
+  fingerprint_id uuid not null references public.harmonic_fingerprints(id) on delete cascade,
+  audio_hash text,
+  hash_distance integer check (hash_distance >= 0 and hash_distance <= 64),
+  bit_error_rate numeric check (bit_error_rate >= 0 and bit_error_rate <= 1),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_hfa_fingerprint_id on public.harmonic_fingerprint_aliases(fingerprint_id);
+
+alter table public.harmonic_fingerprint_aliases disable row level security;
+
+drop trigger if exists trg_hfa_updated_at on public.harmonic_fingerprint_aliases;
+create trigger trg_hfa_updated_at
+before update on public.harmonic_fingerprint_aliases
+for each row execute procedure public.set_updated_at();
@@ -0,0 +1,35 @@
+-- Harmonic clusters: progression families built by the harmonic-clusters job
+-- Created 2026-01-29
+
+create table if not exists public.harmonic_clusters (
+  id uuid primary key default gen_random_uuid(),
+  prototype_key text not null, -- Canonical loop ("I-V-vi-IV"), keeps ids stable across rebuilds
+  name text not null,
+  prototype_progression jsonb not null,
+  member_count integer not null default 0 check (member_count >= 0),
+  avg_confidence numeric not null default 0 check (avg_confidence >= 0 and avg_confidence <= 1),
+  built_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_hc_prototype_key on public.harmonic_clusters(prototype_key);
+create index if not exists idx_hc_member_count on public.harmonic_clusters(member_count desc);
+
+-- One family per track; rebuilt in bulk, extended incrementally by the analysis worker
+create table if not exists public.harmonic_cluster_members (
+  track_id text primary key,
+  cluster_id uuid not null references public.harmonic_clusters(id) on delete cascade,
+  distance numeric not null default 0 check (distance >= 0 and distance <= 1),
+  assigned_at timestamptz not null default now()
+);
+
+create index if not exists idx_hcm_cluster_id on public.harmonic_cluster_members(cluster_id, distance);
+
+alter table public.harmonic_clusters disable row level security;
+alter table public.harmonic_cluster_members disable row level security;
+
+drop trigger if exists trg_hc_updated_at on public.harmonic_clusters;
+create trigger trg_hc_updated_at
+before update on public.harmonic_clusters
+for each row execute procedure public.set_updated_at();
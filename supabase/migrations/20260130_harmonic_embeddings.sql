@@ -0,0 +1,19 @@
+-- Harmonic embeddings: nearest-neighbour candidates for the similarity engine
+-- Created 2026-01-30
+
+-- embedding holds the raw feature vector from src/lib/harmonicEmbedding.ts;
+-- IDF weighting happens at ranking time, so it never needs recomputing as
+-- the catalog grows. embedding_buckets are LSH keys ("<table>:<hex>"):
+-- fingerprints sharing a key are likely neighbours.
+alter table public.harmonic_fingerprints
+  add column if not exists embedding real[],
+  add column if not exists embedding_version text,
+  add column if not exists embedding_buckets text[];
+
+create index if not exists idx_hf_embedding_buckets
+  on public.harmonic_fingerprints using gin (embedding_buckets);
+
+-- Rows embedded by an older feature layout (or not at all) are re-embedded
+-- by the harmonic-clusters job
+create index if not exists idx_hf_embedding_version
+  on public.harmonic_fingerprints(embedding_version);
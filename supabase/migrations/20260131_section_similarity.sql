@@ -0,0 +1,94 @@
+-- Section-aware similarity: chords on curated sections, section lookups
+-- Created 2026-01-31
+
+-- Roman numerals per section, plus each chord's offset within the section
+alter table public.track_sections
+  add column if not exists chords text[],
+  add column if not exists chord_timings integer[];
+
+comment on column public.track_sections.chords is 'Roman numeral progression of this section (relative, e.g. {vi,IV,I,V})';
+comment on column public.track_sections.chord_timings is 'Millisecond offset of each chord from the section start';
+
+-- Containment lookups on analysed sections (section_progressions @> '[{"section_label":"chorus"}]')
+create index if not exists idx_hf_section_progressions
+  on public.harmonic_fingerprints using gin (section_progressions jsonb_path_ops);
+
+-- Return type changes, so the function has to be recreated
+drop function if exists public.get_track_sections(uuid);
+
+create or replace function public.get_track_sections(p_track_id uuid)
+returns table (
+  id uuid,
+  track_id uuid,
+  label text,
+  start_ms integer,
+  end_ms integer,
+  created_at timestamptz,
+  chords text[],
+  chord_timings integer[]
+)
+language sql
+stable
+security definer
+as $$
+  select id, track_id, label, start_ms, end_ms, created_at, chords, chord_timings
+  from public.track_sections
+  where track_id = p_track_id
+  order by start_ms asc;
+$$;
+
+-- Already called by the client (src/api/trackSections.ts)
+create or replace function public.get_track_section_by_id(p_section_id uuid)
+returns table (
+  id uuid,
+  track_id uuid,
+  label text,
+  start_ms integer,
+  end_ms integer,
+  created_at timestamptz,
+  chords text[],
+  chord_timings integer[]
+)
+language sql
+stable
+security definer
+as $$
+  select id, track_id, label, start_ms, end_ms, created_at, chords, chord_timings
+  from public.track_sections
+  where id = p_section_id;
+$$;
+
+-- Sections with a given label: for the listed tracks (timestamps for analysed
+-- sections), or, without a list, every section that has chords
+create or replace function public.get_sections_by_label(
+  p_label text,
+  p_track_ids text[] default null,
+  p_limit integer default 500
+)
+returns table (
+  id uuid,
+  track_id uuid,
+  label text,
+  start_ms integer,
+  end_ms integer,
+  created_at timestamptz,
+  chords text[],
+  chord_timings integer[]
+)
+language sql
+stable
+security definer
+as $$
+  select id, track_id, label, start_ms, end_ms, created_at, chords, chord_timings
+  from public.track_sections
+  where label = p_label
+    and (
+      (p_track_ids is null and chords is not null)
+      or track_id::text = any(p_track_ids)
+    )
+  order by track_id, start_ms asc
+  limit least(p_limit, 2000);
+$$;
+
+comment on function public.get_track_section_by_id is 'Fetch one section by id';
+comment on function public.get_sections_by_label is 'Sections with a label, for section-aware similarity';
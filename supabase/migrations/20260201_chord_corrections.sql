@@ -0,0 +1,55 @@
+-- Crowd-sourced chord corrections: votes, moderation, promotion provenance
+-- Created 2026-02-01
+
+alter table public.chord_submissions
+  add column if not exists notes text,
+  add column if not exists moderated_at timestamptz,
+  add column if not exists promoted_at timestamptz;
+
+create index if not exists idx_cs_track_status on public.chord_submissions(track_id, status);
+-- Reputation is derived from each contributor's approved/rejected history
+create index if not exists idx_cs_user_status on public.chord_submissions(user_id, status);
+create index if not exists idx_cs_pending on public.chord_submissions(created_at) where status = 'pending';
+
+-- Submissions always start pending: approval is a moderator's (or the
+-- consensus job's) decision, never the submitter's
+drop policy if exists "Users can create submissions" on public.chord_submissions;
+create policy "Users can create submissions" on public.chord_submissions
+  for insert with check (
+    auth.uid() = user_id
+    and status = 'pending'
+    and moderated_by is null
+    and moderated_at is null
+    and promoted_at is null
+  );
+
+-- One vote per user per submission
+create table if not exists public.chord_submission_votes (
+  submission_id uuid not null references public.chord_submissions(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  vote smallint not null check (vote in (-1, 1)),
+  created_at timestamptz not null default now(),
+  primary key (submission_id, user_id)
+);
+
+create index if not exists idx_csv_user on public.chord_submission_votes(user_id);
+
+alter table public.chord_submission_votes enable row level security;
+
+create policy "Users can view votes" on public.chord_submission_votes
+  for select using (true);
+create policy "Users can vote" on public.chord_submission_votes
+  for insert with check (auth.uid() = user_id);
+create policy "Users can change their vote" on public.chord_submission_votes
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users can remove their vote" on public.chord_submission_votes
+  for delete using (auth.uid() = user_id);
+
+-- Where a fingerprint came from. analysis_method is null for plain audio
+-- analysis; 'crowd_sourced' rows keep their progression/key on re-analysis.
+alter table public.harmonic_fingerprints
+  add column if not exists analysis_method text,
+  add column if not exists provenance jsonb;
+
+create index if not exists idx_hf_analysis_method
+  on public.harmonic_fingerprints(analysis_method) where analysis_method is not null;
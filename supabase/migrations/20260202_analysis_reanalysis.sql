@@ -0,0 +1,104 @@
+-- Analysis model versioning: re-analysis jobs and per-version diffs
+-- Created 2026-02-02
+
+-- Why a job exists; re-analysis jobs remember the version they upgrade from
+alter table public.analysis_jobs
+  add column if not exists reason text not null default 'request' check (reason in ('request','reanalysis')),
+  add column if not exists previous_version text;
+
+create index if not exists idx_aj_reanalysis
+  on public.analysis_jobs(analysis_version, track_id)
+  where reason = 'reanalysis';
+
+create index if not exists idx_hf_analysis_version on public.harmonic_fingerprints(analysis_version);
+
+-- What a re-analysis changed, whether or not it replaced the stored result
+create table if not exists public.analysis_version_diffs (
+  id uuid primary key default gen_random_uuid(),
+  track_id text not null,
+  job_id uuid references public.analysis_jobs(id) on delete set null,
+  from_version text not null,
+  to_version text not null,
+  previous_key text,
+  next_key text,
+  previous_mode text,
+  next_mode text,
+  previous_progression text[] not null default '{}',
+  next_progression text[] not null default '{}',
+  key_changed boolean not null default false,
+  mode_changed boolean not null default false,
+  progression_changed boolean not null default false,
+  previous_confidence numeric not null check (previous_confidence >= 0 and previous_confidence <= 1),
+  next_confidence numeric not null check (next_confidence >= 0 and next_confidence <= 1),
+  applied boolean not null, -- false: the older result had the higher confidence and was kept
+  created_at timestamptz not null default now()
+);
+
+-- One diff per track and target version (retries overwrite)
+create unique index if not exists idx_avd_track_version on public.analysis_version_diffs(track_id, to_version);
+create index if not exists idx_avd_versions on public.analysis_version_diffs(to_version, from_version);
+
+alter table public.analysis_version_diffs enable row level security;
+
+create policy "Analysis version diffs are viewable by everyone" on public.analysis_version_diffs
+  for select using (true);
+-- Only the service role (the harmonic-analysis Edge Function) writes diffs
+
+-- Numeric comparison of dotted versions ('1.10.0' > '1.9.2')
+create or replace function public.analysis_version_parts(p_version text)
+returns integer[]
+language sql
+immutable
+as $$
+  select coalesce(
+    array_agg(coalesce(nullif(regexp_replace(part, '\D', '', 'g'), ''), '0')::integer order by ord),
+    '{}'
+  )
+  from unnest(string_to_array(coalesce(p_version, '0'), '.')) with ordinality as t(part, ord);
+$$;
+
+-- Fingerprints analysed by an older model that have not been re-analysed for
+-- p_target_version yet, with the last audio source known for the track
+create or replace function public.get_reanalysis_candidates(
+  p_target_version text,
+  p_limit integer default 500
+)
+returns table (
+  track_id text,
+  isrc text,
+  audio_hash text,
+  audio_url text,
+  analysis_version text,
+  confidence_score numeric,
+  is_provisional boolean
+)
+language sql
+stable
+as $$
+  select
+    hf.track_id,
+    hf.isrc,
+    hf.audio_hash,
+    (
+      select aj.audio_url
+      from public.analysis_jobs aj
+      where aj.track_id = hf.track_id and aj.audio_url is not null
+      order by aj.started_at desc
+      limit 1
+    ) as audio_url,
+    hf.analysis_version,
+    hf.confidence_score,
+    hf.is_provisional
+  from public.harmonic_fingerprints hf
+  where public.analysis_version_parts(hf.analysis_version) < public.analysis_version_parts(p_target_version)
+    and not exists (
+      select 1 from public.analysis_jobs aj
+      where aj.track_id = hf.track_id
+        and (
+          aj.status in ('queued','processing')
+          or (aj.reason = 'reanalysis' and aj.analysis_version = p_target_version)
+        )
+    )
+  order by hf.is_provisional desc, hf.confidence_score asc
+  limit greatest(p_limit, 1);
+$$;
@@ -0,0 +1,14 @@
+-- Key changes in the harmonic fingerprint
+-- Created 2026-02-03
+
+-- [{timestamp_ms, tonal_center, interval_semitones, pivot_chord, confidence}];
+-- tonal_center stays the opening key
+alter table public.harmonic_fingerprints
+  add column if not exists modulations jsonb;
+
+comment on column public.harmonic_fingerprints.modulations is
+  'Detected key changes in time order; null for fingerprints analysed before model 1.2.0';
+
+-- Containment lookups for modulation filters (e.g. [{"interval_semitones": 2}])
+create index if not exists idx_hf_modulations
+  on public.harmonic_fingerprints using gin (modulations jsonb_path_ops);
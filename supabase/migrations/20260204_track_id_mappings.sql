@@ -0,0 +1,44 @@
+-- Cross-provider track ID mappings for canonical track resolution
+-- Created 2026-02-04
+
+-- One row per provider track: the canonical recording unified search
+-- resolved it to, and how
+create table if not exists public.track_id_mappings (
+  id uuid primary key default gen_random_uuid(),
+  canonical_id text not null,
+  provider text not null check (provider in ('spotify', 'apple_music', 'deezer', 'soundcloud', 'youtube', 'amazon_music')),
+  provider_track_id text not null,
+  isrc text,
+  title text not null, -- Without version suffix
+  artist text,
+  version text, -- TrackVersionKind, null for the original recording
+  duration_ms integer,
+  match_method text not null check (match_method in ('new','isrc','fuzzy')),
+  confidence numeric not null default 1 check (confidence >= 0 and confidence <= 1),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (provider, provider_track_id)
+);
+
+create index if not exists idx_tim_canonical on public.track_id_mappings(canonical_id);
+create index if not exists idx_tim_provider_track on public.track_id_mappings(provider_track_id);
+create index if not exists idx_tim_isrc on public.track_id_mappings(isrc) where isrc is not null;
+
+alter table public.track_id_mappings enable row level security;
+
+-- Anyone can read mappings
+create policy "Anyone can view track mappings"
+on public.track_id_mappings
+for select
+using (true);
+
+-- Authenticated searches record new mappings
+create policy "Authenticated can record track mappings"
+on public.track_id_mappings
+for insert
+with check (auth.uid() is not null);
+
+create policy "Authenticated can update track mappings"
+on public.track_id_mappings
+for update
+using (auth.uid() is not null);
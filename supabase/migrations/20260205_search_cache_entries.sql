@@ -0,0 +1,66 @@
+-- Unified search results in cache_entries, with stale-while-revalidate
+-- Created 2026-02-05
+
+-- Entries are served fresh until fresh_until, then served stale (and
+-- revalidated) until expires_at
+alter table public.cache_entries
+  add column if not exists fresh_until timestamptz,
+  add column if not exists canonical_ids text[] not null default '{}';
+
+comment on column public.cache_entries.fresh_until is
+  'End of the fresh period; between fresh_until and expires_at the entry is served stale';
+comment on column public.cache_entries.canonical_ids is
+  'Canonical track IDs in the cached value, for invalidation when mappings change';
+
+create index if not exists idx_cache_entries_canonical_ids
+  on public.cache_entries using gin (canonical_ids);
+
+alter table public.cache_entries enable row level security;
+
+-- Anyone can read cached search results
+create policy "Anyone can read search cache entries"
+on public.cache_entries
+for select
+using (key like 'search:%');
+
+-- Authenticated searches write their results
+create policy "Authenticated can write search cache entries"
+on public.cache_entries
+for insert
+with check (auth.uid() is not null and key like 'search:%');
+
+create policy "Authenticated can refresh search cache entries"
+on public.cache_entries
+for update
+using (auth.uid() is not null and key like 'search:%')
+with check (auth.uid() is not null and key like 'search:%');
+
+-- A mapping that moves a provider track to another canonical recording
+-- changes how cached results merge; drop every entry holding either ID
+create or replace function public.invalidate_search_cache_for_mapping()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.canonical_id is not distinct from old.canonical_id then
+    return new;
+  end if;
+
+  delete from public.cache_entries
+  where key like 'search:%'
+    and canonical_ids && array_remove(array[
+      case when tg_op in ('INSERT', 'UPDATE') then new.canonical_id end,
+      case when tg_op in ('UPDATE', 'DELETE') then old.canonical_id end,
+      case when tg_op in ('INSERT', 'UPDATE') then new.provider || '-' || new.provider_track_id end
+    ], null);
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists trg_track_id_mappings_invalidate_cache on public.track_id_mappings;
+create trigger trg_track_id_mappings_invalidate_cache
+after insert or update or delete on public.track_id_mappings
+for each row execute function public.invalidate_search_cache_for_mapping();
@@ -0,0 +1,15 @@
+-- Columns and indexes for the advanced search query language
+-- Created 2026-02-06
+
+-- year: filters (Track.release_date, YYYY-MM-DD)
+alter table public.tracks
+  add column if not exists release_date date;
+
+create index if not exists idx_tracks_release_date
+  on public.tracks(release_date) where release_date is not null;
+
+-- key:, mode: and bpm: filters
+create index if not exists idx_hf_detected_key_mode
+  on public.harmonic_fingerprints(detected_key, detected_mode);
+create index if not exists idx_hf_tempo_bpm
+  on public.harmonic_fingerprints(tempo_bpm) where tempo_bpm is not null;
@@ -0,0 +1,117 @@
+-- Full-text and trigram search over the local catalog
+-- Created 2026-02-07
+
+create extension if not exists pg_trgm;
+
+-- Credits and notes already carried by Track (seed data, imports)
+alter table public.tracks
+  add column if not exists songwriters text[] default '{}',
+  add column if not exists producers text[] default '{}',
+  add column if not exists label text,
+  add column if not exists historical_notes text,
+  add column if not exists genre_description text,
+  add column if not exists search_vector tsvector,
+  add column if not exists search_text text;
+
+-- Weighted document: names first, then album, credits, then prose.
+-- search_text holds the short fields only, for typo-tolerant matching
+create or replace function public.tracks_search_document()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_artists text := array_to_string(coalesce(new.artists, '{}') || new.artist, ' ');
+  v_credits text := array_to_string(coalesce(new.songwriters, '{}') || coalesce(new.producers, '{}'), ' ');
+begin
+  new.search_vector :=
+    setweight(to_tsvector('english', coalesce(new.title, '') || ' ' || v_artists), 'A') ||
+    setweight(to_tsvector('english', coalesce(new.album, '')), 'B') ||
+    setweight(to_tsvector('english', v_credits || ' ' || coalesce(new.label, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(new.genre_description, '') || ' ' || coalesce(new.historical_notes, '')), 'D');
+
+  new.search_text := lower(concat_ws(' ', new.title, v_artists, new.album, v_credits, new.label));
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_tracks_search_document on public.tracks;
+create trigger trg_tracks_search_document
+before insert or update of title, artist, artists, album, songwriters, producers, label, historical_notes, genre_description
+on public.tracks
+for each row execute function public.tracks_search_document();
+
+-- Backfill (fires the trigger). A backfill isn't an edit: keep updated_at
+alter table public.tracks disable trigger update_tracks_updated_at;
+update public.tracks set title = title;
+alter table public.tracks enable trigger update_tracks_updated_at;
+
+create index if not exists idx_tracks_search_vector
+  on public.tracks using gin(search_vector);
+create index if not exists idx_tracks_search_text_trgm
+  on public.tracks using gin(search_text gin_trgm_ops);
+
+-- Ranked catalog search. Full-text matches rank by ts_rank_cd; word
+-- similarity catches typos ("beatels") and partial names. Hits are ranked
+-- and paged first, so snippets and matched fields are only worked out for
+-- the returned page. Snippets mark hits with chr(1)/chr(2) rather than HTML
+-- so clients never render markup from the database
+create or replace function public.search_catalog(
+  p_query text,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  track jsonb,
+  rank real,
+  snippet text,
+  matched_fields text[]
+)
+language sql
+stable
+security definer
+set search_path = public
+set pg_trgm.word_similarity_threshold = 0.4
+as $$
+  with q as (
+    select websearch_to_tsquery('english', p_query) as tsq, lower(trim(p_query)) as term
+  ),
+  page as (
+    select
+      t.*,
+      (ts_rank_cd(t.search_vector, q.tsq, 32) + word_similarity(q.term, t.search_text) * 0.5)::real as hit_rank
+    from public.tracks t, q
+    where t.search_vector @@ q.tsq
+       or q.term <% t.search_text
+    order by hit_rank desc, t.title asc
+    limit least(p_limit, 100)
+    offset p_offset
+  )
+  select
+    to_jsonb(h) - 'search_vector' - 'search_text' - 'hit_rank' as track,
+    h.hit_rank as rank,
+    case when position(chr(1) in hl.headline) > 0 then hl.headline else '' end as snippet,
+    array_remove(array[
+      case when to_tsvector('english', coalesce(h.title, '')) @@ q.tsq then 'title' end,
+      case when to_tsvector('english', array_to_string(coalesce(h.artists, '{}') || h.artist, ' ')) @@ q.tsq then 'artists' end,
+      case when to_tsvector('english', coalesce(h.album, '')) @@ q.tsq then 'album' end,
+      case when to_tsvector('english', array_to_string(coalesce(h.songwriters, '{}'), ' ')) @@ q.tsq then 'songwriters' end,
+      case when to_tsvector('english', array_to_string(coalesce(h.producers, '{}'), ' ')) @@ q.tsq then 'producers' end,
+      case when to_tsvector('english', coalesce(h.label, '')) @@ q.tsq then 'label' end,
+      case when to_tsvector('english', coalesce(h.historical_notes, '')) @@ q.tsq then 'historical_notes' end,
+      case when to_tsvector('english', coalesce(h.genre_description, '')) @@ q.tsq then 'genre_description' end
+    ], null) as matched_fields
+  from page h
+  cross join q
+  cross join lateral (
+    select ts_headline(
+      'english',
+      concat_ws(' · ', h.album, h.label, h.genre_description, h.historical_notes),
+      q.tsq,
+      'StartSel=' || chr(1) || ', StopSel=' || chr(2) || ', MaxFragments=2, MaxWords=18, MinWords=6'
+    ) as headline
+  ) hl
+  order by h.hit_rank desc, h.title asc;
+$$;
+
+comment on function public.search_catalog is 'Ranked full-text and fuzzy search over tracks, with highlighted snippets';
@@ -0,0 +1,14 @@
+-- Per-market availability for provider track mappings
+-- Created 2026-02-08
+
+-- Markets (ISO 3166-1 alpha-2) where the provider track plays, as published
+-- by the provider (Deezer available_countries, Spotify available_markets).
+-- Null when the provider does not say
+alter table public.track_id_mappings
+  add column if not exists available_markets text[],
+  add column if not exists availability_checked_at timestamptz;
+
+-- Alternate releases of a recording share the ISRC registrant and year
+-- (CC-XXX-YY), looked up by prefix
+create index if not exists idx_tim_isrc_prefix
+  on public.track_id_mappings(isrc text_pattern_ops) where isrc is not null;
@@ -0,0 +1,22 @@
+-- Play queue per user, so it follows them across devices
+-- Created 2026-02-09
+
+create table if not exists public.user_queues (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  -- [{ uid, track, origin, reason? }], history first; queue_index is the playing entry
+  entries jsonb not null default '[]'::jsonb,
+  queue_index integer not null default -1,
+  -- Client clock of the last edit: the newer queue wins between devices
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_queues enable row level security;
+
+create policy "Users can view their queue" on public.user_queues
+  for select using (auth.uid() = user_id);
+create policy "Users can create their queue" on public.user_queues
+  for insert with check (auth.uid() = user_id);
+create policy "Users can update their queue" on public.user_queues
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users can delete their queue" on public.user_queues
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,9 @@
+-- Track mappings are written by the record-track-mappings Edge Function only
+-- Created 2026-02-10
+
+-- Any signed-in user could point any provider track at any recording (and,
+-- through the cache trigger, drop cached search results). The Edge Function
+-- checks each mapping against its recording and writes with the service
+-- role, which bypasses RLS; clients keep read access
+drop policy if exists "Authenticated can record track mappings" on public.track_id_mappings;
+drop policy if exists "Authenticated can update track mappings" on public.track_id_mappings;
@@ -0,0 +1,13 @@
+-- Search cache entries are written by the write-search-cache Edge Function only
+-- Created 2026-02-11
+
+-- Every client is served the same entries, so a signed-in user writing
+-- them could plant results for everyone. The Edge Function checks results
+-- against the track mappings and writes with the service role, which
+-- bypasses RLS; clients keep read access
+drop policy if exists "Authenticated can write search cache entries" on public.cache_entries;
+drop policy if exists "Authenticated can refresh search cache entries" on public.cache_entries;
+
+-- The invalidation trigger runs as its owner (security definer); only the
+-- trigger on track_id_mappings, written by the service role, invokes it
+revoke execute on function public.invalidate_search_cache_for_mapping() from public, anon, authenticated;
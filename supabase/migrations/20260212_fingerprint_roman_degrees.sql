@@ -0,0 +1,26 @@
+-- Bare Roman degrees of each fingerprint's progression, for the prog: filter
+-- Created 2026-02-12
+
+-- The prog: prefilter needs rows holding every queried degree, whatever
+-- the extension: "V" must find "V7". JSON containment on roman_progression
+-- only matches whole numerals, so keep the degrees (numerals without the
+-- suffixes romanDegree strips in src/lib/harmonicDsp.ts) as an array
+create or replace function public.roman_degrees(progression jsonb)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(
+    array_agg(distinct regexp_replace(chord->>'numeral', '(maj7|ø7|°7|°|\+|7|sus[24]|add9)$', '')),
+    '{}'
+  )
+  from jsonb_array_elements(coalesce(progression, '[]'::jsonb)) as chord
+  where chord->>'numeral' is not null;
+$$;
+
+alter table public.harmonic_fingerprints
+  add column if not exists roman_degrees text[]
+  generated always as (public.roman_degrees(roman_progression)) stored;
+
+create index if not exists idx_hf_roman_degrees
+  on public.harmonic_fingerprints using gin (roman_degrees);
@@ -0,0 +1,75 @@
+-- Listening parties run on a private realtime channel per chat room
+-- Created 2026-02-13
+
+-- The party:<room> channel steers every guest's player, so only the
+-- room's members may join it, and nobody broadcasts on it directly:
+-- messages go through send_party_message, which stamps the caller's user
+-- ID as the sender. Guests follow only messages stamped with the elected
+-- host's ID, so a member can't speak for the host.
+
+-- Whether the signed-in user belongs in a chat room's party. Global and
+-- track rooms are open to anyone signed in, like their chat
+create or replace function public.can_join_party(_room text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() is not null and (
+    _room = 'global'
+    or exists (
+      select 1 from public.chat_rooms r
+      where r.id::text = _room
+        and (
+          r.type in ('global', 'track')
+          or exists (
+            select 1 from public.chat_room_members m
+            where m.room_id = r.id and m.user_id = auth.uid()
+          )
+        )
+    )
+  );
+$$;
+
+-- Members receive broadcasts and presence
+create policy "Room members can listen to their party" on realtime.messages
+  for select to authenticated
+  using (
+    realtime.topic() like 'party:%'
+    and public.can_join_party(substr(realtime.topic(), length('party:') + 1))
+  );
+
+-- Members track their own presence; there is no broadcast policy, so
+-- clients can't send on the channel
+create policy "Room members can join their party" on realtime.messages
+  for insert to authenticated
+  with check (
+    realtime.messages.extension = 'presence'
+    and realtime.topic() like 'party:%'
+    and public.can_join_party(substr(realtime.topic(), length('party:') + 1))
+  );
+
+-- Broadcast a party message to the room as the signed-in user
+create or replace function public.send_party_message(_room text, _message jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_join_party(_room) then
+    raise exception 'Not a member of this room' using errcode = '42501';
+  end if;
+
+  perform realtime.send(
+    jsonb_build_object('sender', auth.uid(), 'message', _message),
+    'party',
+    'party:' || _room,
+    true
+  );
+end;
+$$;
+
+revoke execute on function public.send_party_message(text, jsonb) from public, anon;
+grant execute on function public.send_party_message(text, jsonb) to authenticated;
@@ -0,0 +1,38 @@
+-- Save a play queue only over an older copy
+-- Created 2026-02-14
+
+-- Two devices saving at once must not let the older edit land last: the
+-- upsert only replaces a copy with an older updated_at, and the stored
+-- copy comes back either way so a losing client can take it instead
+create or replace function public.save_user_queue(
+  _entries jsonb,
+  _queue_index integer,
+  _updated_at timestamptz
+)
+returns table (entries jsonb, queue_index integer, updated_at timestamptz)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  insert into public.user_queues as q (user_id, entries, queue_index, updated_at)
+  values (auth.uid(), _entries, _queue_index, _updated_at)
+  on conflict (user_id) do update
+    set entries = excluded.entries,
+        queue_index = excluded.queue_index,
+        updated_at = excluded.updated_at
+    where q.updated_at < excluded.updated_at;
+
+  return query
+    select q.entries, q.queue_index, q.updated_at
+    from public.user_queues q
+    where q.user_id = auth.uid();
+end;
+$$;
+
+revoke execute on function public.save_user_queue(jsonb, integer, timestamptz) from public, anon;
+grant execute on function public.save_user_queue(jsonb, integer, timestamptz) to authenticated;
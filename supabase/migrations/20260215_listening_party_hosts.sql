@@ -0,0 +1,64 @@
+-- Listening party hosts, recorded by the server
+-- Created 2026-02-15
+
+-- One host per room, claimed through claim_party_host so the host ID is
+-- always the claimant's own. The host renews the claim while hosting; a
+-- claim nobody renewed for 30 seconds (a closed tab) can be taken over.
+-- Members read the row to elect the host instead of trusting presence
+create table if not exists public.listening_parties (
+  room_id text primary key,
+  host_id uuid not null references auth.users(id) on delete cascade,
+  started_at timestamptz not null default now(),
+  renewed_at timestamptz not null default now()
+);
+
+alter table public.listening_parties enable row level security;
+
+-- No write policies: claims and ends go through the functions below
+create policy "Room members can view their party" on public.listening_parties
+  for select to authenticated using (public.can_join_party(room_id));
+
+-- Claim or renew the room's party as the signed-in user. Returns the
+-- room's host afterwards, which is someone else when their claim is live
+create or replace function public.claim_party_host(_room text)
+returns table (host_id uuid, started_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_join_party(_room) then
+    raise exception 'Not a member of this room' using errcode = '42501';
+  end if;
+
+  insert into public.listening_parties as p (room_id, host_id)
+  values (_room, auth.uid())
+  on conflict (room_id) do update
+    set host_id = excluded.host_id,
+        started_at = case when p.host_id = excluded.host_id then p.started_at else now() end,
+        renewed_at = now()
+    where p.host_id = excluded.host_id
+       or p.renewed_at < now() - interval '30 seconds';
+
+  return query
+    select p.host_id, p.started_at
+    from public.listening_parties p
+    where p.room_id = _room;
+end;
+$$;
+
+-- End the signed-in user's party in the room
+create or replace function public.end_party(_room text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.listening_parties
+  where room_id = _room and host_id = auth.uid();
+$$;
+
+revoke execute on function public.claim_party_host(text) from public, anon;
+revoke execute on function public.end_party(text) from public, anon;
+grant execute on function public.claim_party_host(text) to authenticated;
+grant execute on function public.end_party(text) to authenticated;